@@ -2,63 +2,118 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 
+// PancakeSwap V3 pool (flash loan source)
+interface IPancakeV3Pool {
+    function token0() external view returns (address);
+    function token1() external view returns (address);
+
+    function flash(
+        address recipient,
+        uint256 amount0,
+        uint256 amount1,
+        bytes calldata data
+    ) external;
+}
+
+// Uniswap V2-style router (PancakeSwap V2, Biswap, ApeSwap, BabySwap)
+interface IUniswapV2Router {
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external returns (uint256[] memory amounts);
+
+    function getAmountsOut(uint256 amountIn, address[] calldata path)
+        external
+        view
+        returns (uint256[] memory amounts);
+}
+
+// PancakeSwap Smart Router V3 leg (routes through V3 pools by fee tier)
+interface IV3SwapRouter {
+    struct ExactInputParams {
+        bytes path;
+        address recipient;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+    }
+
+    function exactInput(ExactInputParams calldata params) external payable returns (uint256 amountOut);
+}
+
 /**
  * @title FlashLoanArbitrage
- * @notice Executes arbitrage strategies using flash loans from PancakeSwap V3
- * @dev Implements the flash loan callback interface
+ * @notice Executes multi-hop arbitrage cycles using flash loans from PancakeSwap V3
+ * @dev Borrows the loan token, runs every hop in order and reverts before repaying
+ *      unless the cycle returns the loan, the flash fee and at least minProfit
  */
 contract FlashLoanArbitrage is Ownable, ReentrancyGuard {
-    // PancakeSwap V3 Pool interface
-    interface IPancakeV3Pool {
-        function flash(
-            address recipient,
-            uint256 amount0,
-            uint256 amount1,
-            bytes calldata data
-        ) external;
+    using SafeERC20 for IERC20;
+
+    enum HopKind {
+        V2, // Uniswap V2-style router, path = abi.encode(address[])
+        V3  // Smart Router exactInput, path = packed token | fee (uint24) | token | ...
     }
 
-    // Uniswap V2 Router interface
-    interface IUniswapV2Router {
-        function swapExactTokensForTokens(
-            uint256 amountIn,
-            uint256 amountOutMin,
-            address[] calldata path,
-            address to,
-            uint256 deadline
-        ) external returns (uint256[] memory amounts);
-
-        function getAmountsOut(uint256 amountIn, address[] calldata path)
-            external
-            view
-            returns (uint256[] memory amounts);
+    struct Hop {
+        HopKind kind;
+        address router;
+        bytes path;
     }
 
     struct ArbitrageParams {
-        address buyRouter;      // Router to buy from
-        address sellRouter;     // Router to sell on
-        address[] buyPath;      // Token path for buy
-        address[] sellPath;     // Token path for sell
-        uint256 minProfit;      // Minimum profit required
+        Hop[] hops;             // First hop starts and last hop ends with the loan token
+        uint256 minProfit;      // Minimum profit after repaying loan + fee
+    }
+
+    struct FlashData {
+        address token;
+        uint256 amount;
+        ArbitrageParams params;
     }
 
+    // Pool of the flash loan in progress; only it may call the callback
+    address private activePool;
+
+    error InvalidLoan();
+    error InvalidPath(uint256 hop);
+    error UnauthorizedCallback(address caller);
+    error InsufficientProfit(uint256 profit, uint256 minProfit);
+
     // Events
+    event HopExecuted(
+        uint256 indexed index,
+        address indexed router,
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 amountOut
+    );
+
     event ArbitrageExecuted(
         address indexed token,
         uint256 loanAmount,
+        uint256 fee,
         uint256 profit,
         uint256 timestamp
     );
 
     event ProfitWithdrawn(address indexed token, uint256 amount);
 
+    constructor() Ownable(msg.sender) {}
+
     /**
      * @notice Initialize flash loan arbitrage
      * @param pool PancakeSwap V3 pool to borrow from
-     * @param params Arbitrage parameters
+     * @param amount0 Amount of token0 to borrow (exactly one side may be non-zero)
+     * @param amount1 Amount of token1 to borrow
+     * @param params Hops and minimum profit
      */
     function executeFlashLoanArbitrage(
         address pool,
@@ -66,13 +121,22 @@ contract FlashLoanArbitrage is Ownable, ReentrancyGuard {
         uint256 amount1,
         ArbitrageParams calldata params
     ) external onlyOwner nonReentrant {
-        require(amount0 > 0 || amount1 > 0, "Invalid loan amount");
+        if ((amount0 == 0) == (amount1 == 0)) revert InvalidLoan();
+
+        address token = amount0 > 0 ? IPancakeV3Pool(pool).token0() : IPancakeV3Pool(pool).token1();
+        _validateCycle(token, params.hops);
 
         // Encode params for callback
-        bytes memory data = abi.encode(params);
+        bytes memory data = abi.encode(FlashData({
+            token: token,
+            amount: amount0 > 0 ? amount0 : amount1,
+            params: params
+        }));
 
         // Request flash loan
+        activePool = pool;
         IPancakeV3Pool(pool).flash(address(this), amount0, amount1, data);
+        activePool = address(0);
     }
 
     /**
@@ -84,110 +148,129 @@ contract FlashLoanArbitrage is Ownable, ReentrancyGuard {
         uint256 fee1,
         bytes calldata data
     ) external {
-        // Decode params
-        ArbitrageParams memory params = abi.decode(data, (ArbitrageParams));
+        if (msg.sender != activePool || activePool == address(0)) revert UnauthorizedCallback(msg.sender);
 
-        // Get the borrowed token
-        address token = params.buyPath[0];
-        uint256 loanAmount = IERC20(token).balanceOf(address(this)) - fee0;
+        FlashData memory flash = abi.decode(data, (FlashData));
+        uint256 fee = fee0 > 0 ? fee0 : fee1;
+        uint256 initialBalance = IERC20(flash.token).balanceOf(address(this));
 
         // Execute arbitrage
-        uint256 profit = _executeArbitrage(loanAmount, params);
-
-        // Calculate total repayment
-        uint256 totalRepayment = loanAmount + fee0;
+        uint256 finalBalance = _executeHops(flash.amount, flash.params.hops);
+
+        // Profit guard: revert (undoing every hop) unless the cycle itself returned the loan,
+        // the fee and minProfit; earlier profits held by the contract never subsidise a loss
+        uint256 breakEven = initialBalance + fee;
+        uint256 profit = finalBalance > breakEven ? finalBalance - breakEven : 0;
+        if (finalBalance < breakEven || profit < flash.params.minProfit) {
+            revert InsufficientProfit(profit, flash.params.minProfit);
+        }
 
-        // Ensure we have enough to repay
-        require(
-            IERC20(token).balanceOf(address(this)) >= totalRepayment,
-            "Insufficient funds to repay loan"
-        );
+        // Repay flash loan
+        IERC20(flash.token).safeTransfer(msg.sender, flash.amount + fee);
 
-        // Ensure minimum profit
-        require(profit >= params.minProfit, "Insufficient profit");
+        emit ArbitrageExecuted(flash.token, flash.amount, fee, profit, block.timestamp);
+    }
 
-        // Repay flash loan
-        IERC20(token).transfer(msg.sender, totalRepayment);
+    /**
+     * @notice Run every hop in order, feeding each hop's output into the next
+     * @return finalBalance Loan token balance after the last hop
+     */
+    function _executeHops(uint256 amountIn, Hop[] memory hops) private returns (uint256 finalBalance) {
+        uint256 amount = amountIn;
+
+        for (uint256 i = 0; i < hops.length; i++) {
+            Hop memory hop = hops[i];
+            (address tokenIn, address tokenOut) = _hopTokens(hop, i);
+
+            IERC20(tokenIn).forceApprove(hop.router, amount);
+
+            uint256 amountOut;
+            if (hop.kind == HopKind.V2) {
+                uint256[] memory amounts = IUniswapV2Router(hop.router).swapExactTokensForTokens(
+                    amount,
+                    0, // Accept any amount (the profit guard checks the whole cycle)
+                    abi.decode(hop.path, (address[])),
+                    address(this),
+                    block.timestamp
+                );
+                amountOut = amounts[amounts.length - 1];
+            } else {
+                amountOut = IV3SwapRouter(hop.router).exactInput(IV3SwapRouter.ExactInputParams({
+                    path: hop.path,
+                    recipient: address(this),
+                    amountIn: amount,
+                    amountOutMinimum: 0
+                }));
+            }
+
+            emit HopExecuted(i, hop.router, tokenIn, tokenOut, amount, amountOut);
+            amount = amountOut;
+        }
 
-        emit ArbitrageExecuted(token, loanAmount, profit, block.timestamp);
+        (, address lastToken) = _hopTokens(hops[hops.length - 1], hops.length - 1);
+        return IERC20(lastToken).balanceOf(address(this));
     }
 
     /**
-     * @notice Execute the arbitrage strategy
-     * @dev Buy low on one DEX, sell high on another
+     * @notice Hops must chain token to token and start and end with the loan token
      */
-    function _executeArbitrage(
-        uint256 loanAmount,
-        ArbitrageParams memory params
-    ) private returns (uint256 profit) {
-        address token = params.buyPath[0];
-
-        // Record initial balance
-        uint256 initialBalance = IERC20(token).balanceOf(address(this));
-
-        // Step 1: Approve buy router
-        IERC20(token).approve(params.buyRouter, loanAmount);
-
-        // Step 2: Buy on first DEX
-        uint256[] memory buyAmounts = IUniswapV2Router(params.buyRouter)
-            .swapExactTokensForTokens(
-                loanAmount,
-                0, // Accept any amount (will check profit later)
-                params.buyPath,
-                address(this),
-                block.timestamp + 300
-            );
-
-        uint256 boughtAmount = buyAmounts[buyAmounts.length - 1];
-        address intermediateToken = params.buyPath[params.buyPath.length - 1];
-
-        // Step 3: Approve sell router
-        IERC20(intermediateToken).approve(params.sellRouter, boughtAmount);
-
-        // Step 4: Sell on second DEX
-        uint256[] memory sellAmounts = IUniswapV2Router(params.sellRouter)
-            .swapExactTokensForTokens(
-                boughtAmount,
-                0, // Accept any amount (will check profit later)
-                params.sellPath,
-                address(this),
-                block.timestamp + 300
-            );
+    function _validateCycle(address token, Hop[] calldata hops) private pure {
+        if (hops.length == 0) revert InvalidPath(0);
+
+        address expected = token;
+        for (uint256 i = 0; i < hops.length; i++) {
+            (address tokenIn, address tokenOut) = _hopTokens(hops[i], i);
+            if (tokenIn != expected) revert InvalidPath(i);
+            expected = tokenOut;
+        }
+        if (expected != token) revert InvalidPath(hops.length - 1);
+    }
 
-        // Calculate profit
-        uint256 finalBalance = IERC20(token).balanceOf(address(this));
-        profit = finalBalance > initialBalance ? finalBalance - initialBalance : 0;
+    /**
+     * @notice First and last token of a hop's path
+     */
+    function _hopTokens(Hop memory hop, uint256 index) private pure returns (address tokenIn, address tokenOut) {
+        if (hop.kind == HopKind.V2) {
+            address[] memory path = abi.decode(hop.path, (address[]));
+            if (path.length < 2) revert InvalidPath(index);
+            return (path[0], path[path.length - 1]);
+        }
 
-        return profit;
+        // token (20) | fee (3) | token (20) [| fee | token ...]
+        bytes memory packed = hop.path;
+        if (packed.length < 43 || (packed.length - 20) % 23 != 0) revert InvalidPath(index);
+        uint256 last = packed.length - 20;
+        assembly {
+            tokenIn := shr(96, mload(add(packed, 32)))
+            tokenOut := shr(96, mload(add(add(packed, 32), last)))
+        }
     }
 
     /**
      * @notice Simulate arbitrage without executing
-     * @dev View function to check profitability before execution
+     * @dev View function to check profitability before execution; V2 hops only
+     *      (quote V3 hops off-chain with QuoterV2)
      */
     function simulateArbitrage(
         uint256 loanAmount,
+        uint24 flashFee,
         ArbitrageParams calldata params
     ) external view returns (uint256 expectedProfit, bool profitable) {
-        // Get expected amounts from buy DEX
-        uint256[] memory buyAmounts = IUniswapV2Router(params.buyRouter)
-            .getAmountsOut(loanAmount, params.buyPath);
-
-        uint256 boughtAmount = buyAmounts[buyAmounts.length - 1];
-
-        // Get expected amounts from sell DEX
-        uint256[] memory sellAmounts = IUniswapV2Router(params.sellRouter)
-            .getAmountsOut(boughtAmount, params.sellPath);
-
-        uint256 soldAmount = sellAmounts[sellAmounts.length - 1];
+        uint256 amount = loanAmount;
+        for (uint256 i = 0; i < params.hops.length; i++) {
+            if (params.hops[i].kind != HopKind.V2) revert InvalidPath(i);
+            uint256[] memory amounts = IUniswapV2Router(params.hops[i].router)
+                .getAmountsOut(amount, abi.decode(params.hops[i].path, (address[])));
+            amount = amounts[amounts.length - 1];
+        }
 
-        // Calculate flash loan fee (0.09% for PancakeSwap V3)
-        uint256 flashLoanFee = (loanAmount * 9) / 10000;
-        uint256 totalRepayment = loanAmount + flashLoanFee;
+        // Flash fee equals the pool fee tier (hundredths of a bip), rounded up like the pool
+        uint256 fee = (loanAmount * flashFee + 999_999) / 1_000_000;
+        uint256 totalRepayment = loanAmount + fee;
 
         // Calculate profit
-        if (soldAmount > totalRepayment) {
-            expectedProfit = soldAmount - totalRepayment;
+        if (amount > totalRepayment) {
+            expectedProfit = amount - totalRepayment;
             profitable = expectedProfit >= params.minProfit;
         } else {
             expectedProfit = 0;
@@ -205,7 +288,7 @@ contract FlashLoanArbitrage is Ownable, ReentrancyGuard {
         uint256 balance = IERC20(token).balanceOf(address(this));
         require(balance > 0, "No profit to withdraw");
 
-        IERC20(token).transfer(owner(), balance);
+        IERC20(token).safeTransfer(owner(), balance);
 
         emit ProfitWithdrawn(token, balance);
     }
@@ -228,7 +311,7 @@ contract FlashLoanArbitrage is Ownable, ReentrancyGuard {
         external
         onlyOwner
     {
-        IERC20(token).approve(router, amount);
+        IERC20(token).forceApprove(router, amount);
     }
 
     // Receive function to accept BNB
@@ -3,10 +3,9 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
-import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
-import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
-import "@openzeppelin/contracts/utils/math/SafeMath.sol";
 
 /**
  * @title IMMBot Staking Contract
@@ -14,7 +13,6 @@ import "@openzeppelin/contracts/utils/math/SafeMath.sol";
  */
 contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
     using SafeERC20 for IERC20;
-    using SafeMath for uint256;
 
     // The IMMBOT token contract
     IERC20 public immutable stakingToken;
@@ -67,6 +65,8 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
     mapping(address => uint256) public userTotalStaked;
     mapping(address => uint256) public userTotalRewards;
     
+    // Lets stakes be withdrawn before their unlock time
+    bool public emergencyWithdrawEnabled;
     
     // Events
     event Staked(address indexed user, uint256 amount, uint256 lockPeriodId, uint256 stakeIndex);
@@ -82,7 +82,7 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
         address _stakingToken,
         address _rewardToken,
         address _owner
-    ) {
+    ) Ownable(_owner) {
         require(_stakingToken != address(0), "Invalid staking token");
         require(_rewardToken != address(0), "Invalid reward token");
         require(_owner != address(0), "Invalid owner");
@@ -90,9 +90,6 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
         stakingToken = IERC20(_stakingToken);
         rewardToken = IERC20(_rewardToken);
         
-        // Transfer ownership to the specified owner
-        _transferOwnership(_owner);
-        
         // Initialize default lock periods
         _addLockPeriod(0, 10000, "No Lock");           // No lock, 1x multiplier
         _addLockPeriod(30 days, 12000, "30 Days");     // 30 days, 1.2x multiplier
@@ -116,7 +113,7 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
         StakeInfo memory newStake = StakeInfo({
             amount: _amount,
             stakingTime: block.timestamp,
-            unlockTime: block.timestamp.add(lockPeriods[_lockPeriodId].duration),
+            unlockTime: block.timestamp + lockPeriods[_lockPeriodId].duration,
             lockPeriodId: _lockPeriodId,
             accumulatedReward: 0,
             lastRewardTime: block.timestamp,
@@ -125,17 +122,17 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
         
         // Add to user stakes
         userStakes[msg.sender].push(newStake);
-        uint256 stakeIndex = userStakes[msg.sender].length.sub(1);
-        userStakeCount[msg.sender] = userStakeCount[msg.sender].add(1);
+        uint256 stakeIndex = userStakes[msg.sender].length - 1;
+        userStakeCount[msg.sender] += 1;
         
         // Update global stats
-        totalStaked = totalStaked.add(_amount);
-        userTotalStaked[msg.sender] = userTotalStaked[msg.sender].add(_amount);
+        totalStaked += _amount;
+        userTotalStaked[msg.sender] += _amount;
         
         // Track if this is user's first stake
         if (!hasStaked[msg.sender]) {
             hasStaked[msg.sender] = true;
-            totalStakers = totalStakers.add(1);
+            totalStakers += 1;
         }
         
         emit Staked(msg.sender, _amount, _lockPeriodId, stakeIndex);
@@ -157,7 +154,7 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
         uint256 pendingReward = _calculatePendingReward(msg.sender, _stakeIndex);
         
         // Update accumulated rewards
-        userStake.accumulatedReward = userStake.accumulatedReward.add(pendingReward);
+        userStake.accumulatedReward += pendingReward;
         userStake.lastRewardTime = block.timestamp;
         
         uint256 stakeAmount = userStake.amount;
@@ -166,12 +163,12 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
         // Mark stake as inactive
         userStake.isActive = false;
         userStake.amount = 0;
-        userStakeCount[msg.sender] = userStakeCount[msg.sender].sub(1);
+        userStakeCount[msg.sender] -= 1;
         
         // Update global stats
-        totalStaked = totalStaked.sub(stakeAmount);
-        totalRewardsPaid = totalRewardsPaid.add(totalReward);
-        userTotalRewards[msg.sender] = userTotalRewards[msg.sender].add(totalReward);
+        totalStaked -= stakeAmount;
+        totalRewardsPaid += totalReward;
+        userTotalRewards[msg.sender] += totalReward;
         
         // Transfer stake amount back
         stakingToken.safeTransfer(msg.sender, stakeAmount);
@@ -197,12 +194,12 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
         require(pendingReward > 0, "No rewards to claim");
         
         // Update accumulated rewards and last reward time
-        userStake.accumulatedReward = userStake.accumulatedReward.add(pendingReward);
+        userStake.accumulatedReward += pendingReward;
         userStake.lastRewardTime = block.timestamp;
         
         // Update stats
-        totalRewardsPaid = totalRewardsPaid.add(pendingReward);
-        userTotalRewards[msg.sender] = userTotalRewards[msg.sender].add(pendingReward);
+        totalRewardsPaid += pendingReward;
+        userTotalRewards[msg.sender] += pendingReward;
         
         // Reset accumulated reward (since we're claiming it)
         uint256 totalReward = userStake.accumulatedReward;
@@ -224,18 +221,14 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
             return 0;
         }
         
-        uint256 timeElapsed = block.timestamp.sub(userStake.lastRewardTime);
+        uint256 timeElapsed = block.timestamp - userStake.lastRewardTime;
         LockPeriod storage lockPeriod = lockPeriods[userStake.lockPeriodId];
         
         // Calculate effective APY
-        uint256 effectiveAPY = baseAPY.mul(lockPeriod.multiplier).div(BASIS_POINTS);
+        uint256 effectiveAPY = baseAPY * lockPeriod.multiplier / BASIS_POINTS;
         
         // Calculate reward
-        uint256 reward = userStake.amount
-            .mul(effectiveAPY)
-            .mul(timeElapsed)
-            .div(BASIS_POINTS)
-            .div(SECONDS_PER_YEAR);
+        uint256 reward = userStake.amount * effectiveAPY * timeElapsed / BASIS_POINTS / SECONDS_PER_YEAR;
             
         return reward;
     }
@@ -258,7 +251,7 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
         }
         
         uint256 pendingReward = _calculatePendingReward(_user, _stakeIndex);
-        return userStakes[_user][_stakeIndex].accumulatedReward.add(pendingReward);
+        return userStakes[_user][_stakeIndex].accumulatedReward + pendingReward;
     }
     
     /**
@@ -270,7 +263,7 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
         for (uint256 i = 0; i < userStakes[_user].length; i++) {
             if (userStakes[_user][i].isActive) {
                 uint256 pendingReward = _calculatePendingReward(_user, i);
-                totalPending = totalPending.add(userStakes[_user][i].accumulatedReward).add(pendingReward);
+                totalPending += userStakes[_user][i].accumulatedReward + pendingReward;
             }
         }
         
@@ -282,7 +275,7 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
      */
     function getEffectiveAPY(uint256 _lockPeriodId) external view returns (uint256) {
         require(_lockPeriodId < lockPeriodsCount, "Invalid lock period");
-        return baseAPY.mul(lockPeriods[_lockPeriodId].multiplier).div(BASIS_POINTS);
+        return baseAPY * lockPeriods[_lockPeriodId].multiplier / BASIS_POINTS;
     }
 
     /**
@@ -293,7 +286,7 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
         
         for (uint256 i = 0; i < userStakes[_user].length; i++) {
             if (userStakes[_user][i].isActive) {
-                totalActive = totalActive.add(userStakes[_user][i].amount);
+                totalActive += userStakes[_user][i].amount;
             }
         }
         
@@ -319,7 +312,7 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
         });
         
         emit LockPeriodAdded(lockPeriodsCount, _duration, _multiplier, _name);
-        lockPeriodsCount = lockPeriodsCount.add(1);
+        lockPeriodsCount += 1;
     }
 
     /**
@@ -367,27 +360,4 @@ contract IMMBotStaking is Ownable, Pausable, ReentrancyGuard {
         require(_amount > 0, "Amount must be > 0");
         IERC20(_token).safeTransfer(owner(), _amount);
     }
-}
-        });
-
-        emit TierCreated(nextTierId, duration, apyBasisPoints);
-        nextTierId++;
-    }
-
-    /**
-     * @dev Update tier status (owner only)
-     */
-    function updateTierStatus(uint256 tierId, bool active) external onlyOwner {
-        require(tierId < nextTierId, "Invalid tier");
-        tiers[tierId].active = active;
-        emit TierUpdated(tierId, active);
-    }
-
-    /**
-     * @dev Emergency withdraw (owner only) - for migration or security
-     */
-    function emergencyWithdraw() external onlyOwner {
-        uint256 balance = stakingToken.balanceOf(address(this));
-        stakingToken.safeTransfer(owner(), balance);
-    }
 }
@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+/**
+ * Fork-free DEX mocks for FlashLoanArbitrage tests: a mintable token, a V2-style router and a
+ * Smart Router V3 leg that swap at fixed rates, and a PancakeSwap V3 pool that lends via flash().
+ * Routers pay out of their own balance, so tests mint them inventory first.
+ */
+
+interface IPancakeV3FlashCallback {
+    function pancakeV3FlashCallback(uint256 fee0, uint256 fee1, bytes calldata data) external;
+}
+
+contract MockERC20 is ERC20 {
+    constructor(string memory name, string memory symbol) ERC20(name, symbol) {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
+
+/**
+ * Rates are output per input scaled by 1e18, set per direction
+ */
+abstract contract MockRates {
+    mapping(address => mapping(address => uint256)) public rates;
+
+    function setRate(address tokenIn, address tokenOut, uint256 rate) external {
+        rates[tokenIn][tokenOut] = rate;
+    }
+
+    function _quote(address tokenIn, address tokenOut, uint256 amountIn) internal view returns (uint256) {
+        uint256 rate = rates[tokenIn][tokenOut];
+        require(rate > 0, "MockDex: no rate");
+        return (amountIn * rate) / 1e18;
+    }
+}
+
+contract MockV2Router is MockRates {
+    function getAmountsOut(uint256 amountIn, address[] calldata path) public view returns (uint256[] memory amounts) {
+        amounts = new uint256[](path.length);
+        amounts[0] = amountIn;
+        for (uint256 i = 1; i < path.length; i++) {
+            amounts[i] = _quote(path[i - 1], path[i], amounts[i - 1]);
+        }
+    }
+
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external returns (uint256[] memory amounts) {
+        require(deadline >= block.timestamp, "MockDex: expired");
+        amounts = getAmountsOut(amountIn, path);
+        require(amounts[amounts.length - 1] >= amountOutMin, "MockDex: insufficient output");
+
+        IERC20(path[0]).transferFrom(msg.sender, address(this), amountIn);
+        IERC20(path[path.length - 1]).transfer(to, amounts[amounts.length - 1]);
+    }
+}
+
+contract MockV3Router is MockRates {
+    struct ExactInputParams {
+        bytes path;
+        address recipient;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+    }
+
+    // Packed path token | fee | token ...; the fee tier is ignored
+    function exactInput(ExactInputParams calldata params) external payable returns (uint256 amountOut) {
+        bytes calldata path = params.path;
+        address tokenIn = address(bytes20(path[0:20]));
+        address token = tokenIn;
+        amountOut = params.amountIn;
+
+        for (uint256 offset = 23; offset + 20 <= path.length; offset += 23) {
+            address next = address(bytes20(path[offset:offset + 20]));
+            amountOut = _quote(token, next, amountOut);
+            token = next;
+        }
+        require(amountOut >= params.amountOutMinimum, "MockDex: insufficient output");
+
+        IERC20(tokenIn).transferFrom(msg.sender, address(this), params.amountIn);
+        IERC20(token).transfer(params.recipient, amountOut);
+    }
+}
+
+contract MockFlashPool {
+    address public immutable token0;
+    address public immutable token1;
+    uint24 public immutable fee; // hundredths of a bip, like a V3 pool
+
+    constructor(address _token0, address _token1, uint24 _fee) {
+        token0 = _token0;
+        token1 = _token1;
+        fee = _fee;
+    }
+
+    function flash(address recipient, uint256 amount0, uint256 amount1, bytes calldata data) external {
+        uint256 fee0 = (amount0 * fee + 999_999) / 1_000_000;
+        uint256 fee1 = (amount1 * fee + 999_999) / 1_000_000;
+        uint256 balance0Before = IERC20(token0).balanceOf(address(this));
+        uint256 balance1Before = IERC20(token1).balanceOf(address(this));
+
+        if (amount0 > 0) IERC20(token0).transfer(recipient, amount0);
+        if (amount1 > 0) IERC20(token1).transfer(recipient, amount1);
+
+        IPancakeV3FlashCallback(msg.sender).pancakeV3FlashCallback(fee0, fee1, data);
+
+        require(IERC20(token0).balanceOf(address(this)) >= balance0Before + fee0, "F0");
+        require(IERC20(token1).balanceOf(address(this)) >= balance1Before + fee1, "F1");
+    }
+}
@@ -30,6 +30,8 @@ const config: HardhatUserConfig = {
     // Localhost (for testing)
     hardhat: {
       chainId: 31337,
+      // FORK_RPC_URL=... npx hardhat node serves a mainnet fork for pre-flight trade simulation (SIM_MODE=fork)
+      forking: process.env.FORK_RPC_URL ? { url: process.env.FORK_RPC_URL } : undefined,
     },
   },
   etherscan: {
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "TradingPosition" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "entryPrice" DOUBLE PRECISION NOT NULL,
+    "currentPrice" DOUBLE PRECISION,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "tokenAmount" DOUBLE PRECISION,
+    "strategy" TEXT NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "status" TEXT NOT NULL,
+    "txHash" TEXT,
+    "exitPrice" DOUBLE PRECISION,
+    "exitTxHash" TEXT,
+    "profitLoss" DOUBLE PRECISION,
+    "profitLossAmount" DOUBLE PRECISION,
+    "paper" BOOLEAN NOT NULL DEFAULT false,
+    "openedAt" TIMESTAMP(3) NOT NULL,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TradingPosition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TradingPosition_status_idx" ON "TradingPosition"("status");
+
+-- CreateIndex
+CREATE INDEX "TradingPosition_token_idx" ON "TradingPosition"("token");
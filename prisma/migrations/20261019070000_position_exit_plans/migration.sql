@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "TradingPosition" ADD COLUMN     "exitPlan" JSONB,
+ADD COLUMN     "exitReason" TEXT,
+ADD COLUMN     "originalAmount" DOUBLE PRECISION,
+ADD COLUMN     "realizedProfitLossAmount" DOUBLE PRECISION;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN     "avgFillPrice" DOUBLE PRECISION,
+ADD COLUMN     "error" TEXT,
+ADD COLUMN     "txHash" TEXT;
@@ -0,0 +1,45 @@
+#!/usr/bin/env bun
+/**
+ * Backtest Runner
+ * Replays recorded market snapshots through the trading cycle
+ *
+ * Usage: bun run scripts/backtest.ts <data.json> [result.json]
+ */
+
+import { promises as fs } from 'fs';
+import { loadHistoricalData } from '../src/backtest/historicalData';
+import { runBacktest } from '../src/backtest/backtestEngine';
+
+async function main(): Promise<void> {
+  const [dataFile, outputFile] = process.argv.slice(2);
+
+  if (!dataFile) {
+    console.error('Usage: bun run scripts/backtest.ts <data.json> [result.json]');
+    process.exit(1);
+  }
+
+  const snapshots = await loadHistoricalData(dataFile);
+  const result = await runBacktest(snapshots, {
+    initialBalanceBNB: parseFloat(process.env.BACKTEST_INITIAL_BALANCE_BNB || '1'),
+  });
+
+  console.log('\n📊 Backtest Summary');
+  console.log('═'.repeat(50));
+  console.log(`Period:        ${new Date(result.startTime).toISOString()} → ${new Date(result.endTime).toISOString()}`);
+  console.log(`Snapshots:     ${result.snapshots}`);
+  console.log(`Final Equity:  ${result.finalEquity.toFixed(4)} BNB (${result.totalReturnPercent.toFixed(2)}%)`);
+  console.log(`Max Drawdown:  ${result.maxDrawdownPercent.toFixed(2)}%`);
+  console.log(`Trades:        ${result.stats.totalTrades} (win rate ${result.stats.winRate.toFixed(1)}%)`);
+  console.log(`Avg Win/Loss:  ${result.stats.avgWin.toFixed(2)}% / ${result.stats.avgLoss.toFixed(2)}%`);
+  console.log('═'.repeat(50));
+
+  if (outputFile) {
+    await fs.writeFile(outputFile, JSON.stringify(result, null, 2), 'utf-8');
+    console.log(`\n💾 Full result written to ${outputFile}`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Backtest failed:', error);
+  process.exit(1);
+});
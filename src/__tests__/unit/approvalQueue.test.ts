@@ -0,0 +1,92 @@
+/**
+ * Unit Tests for Trade Approval Queue
+ * Tests parking, expiry and resolution of decisions awaiting manual approval
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { ApprovalQueue } from '../../services/approvalQueue';
+import type { Token, Decision, MarketConditions } from '../../services/tradingLoop';
+
+const token: Token = {
+  address: '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82',
+  symbol: 'CAKE',
+  name: 'PancakeSwap Token',
+  price: 2,
+  volume24h: 1_000_000,
+  liquidity: 500_000,
+  priceChange24h: 6,
+  marketCap: 0,
+  riskScore: 0.2,
+};
+
+const decision: Decision = {
+  action: 'BUY',
+  amount: 0.05,
+  confidence: 0.8,
+  reasoning: 'Momentum with strong volume',
+  strategy: 'momentum',
+  riskLevel: 'MEDIUM',
+};
+
+const market: MarketConditions = {
+  trend: 'bullish',
+  volatility: 0.2,
+  volume: 0,
+  sentiment: 'positive',
+  timestamp: 0,
+};
+
+describe('ApprovalQueue', () => {
+  let now: number;
+  let queue: ApprovalQueue;
+
+  beforeEach(() => {
+    now = 1_700_000_000_000;
+    queue = new ApprovalQueue(60_000, () => now);
+  });
+
+  test('should park decisions with an expiry', () => {
+    const item = queue.enqueue(token, decision, market);
+
+    expect(item).toMatchObject({ status: 'pending', quotedPrice: 2, expiresAt: now + 60_000 });
+    expect(queue.list('pending')).toHaveLength(1);
+    expect(queue.isExpired(item)).toBe(false);
+
+    now += 60_001;
+    expect(queue.isExpired(item)).toBe(true);
+  });
+
+  test('should supersede an older pending decision for the same token', () => {
+    const first = queue.enqueue(token, decision, market);
+    now += 1000;
+    const second = queue.enqueue({ ...token, price: 2.1 }, decision, market);
+
+    expect(queue.get(first.id)?.status).toBe('superseded');
+    expect(queue.list('pending').map(d => d.id)).toEqual([second.id]);
+  });
+
+  test('should not approve the same decision twice', () => {
+    const item = queue.enqueue(token, decision, market);
+    queue.approve(item.id, 'api');
+
+    expect(() => queue.approve(item.id, 'telegram:42')).toThrow(
+      expect.objectContaining({ code: 'DECISION_NOT_PENDING' })
+    );
+    expect(() => queue.reject('dec_missing', 'api')).toThrow(
+      expect.objectContaining({ code: 'DECISION_NOT_FOUND' })
+    );
+  });
+
+  test('should record the execution outcome of approved decisions', () => {
+    const executed = queue.enqueue(token, decision, market);
+    queue.approve(executed.id, 'api');
+    queue.complete(executed.id, { txHash: '0xabc' });
+
+    const failed = queue.enqueue({ ...token, address: '0x55d398326f99059fF775485246999027B3197955' }, decision, market);
+    queue.approve(failed.id, 'api');
+    queue.complete(failed.id, { error: 'Price moved 5.00% since the decision (max 3%)' });
+
+    expect(queue.get(executed.id)).toMatchObject({ status: 'executed', txHash: '0xabc', resolvedBy: 'api' });
+    expect(queue.get(failed.id)).toMatchObject({ status: 'failed', reason: expect.stringContaining('Price moved') });
+  });
+});
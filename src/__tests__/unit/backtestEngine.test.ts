@@ -0,0 +1,199 @@
+/**
+ * Unit Tests for Backtest Engine
+ * Tests snapshot replay, simulated fills, stop-loss exits and statistics
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { BacktestEngine, SimulatedClock } from '../../backtest/backtestEngine';
+import type { BacktestAgent } from '../../backtest/backtestEngine';
+import { ConstantProductFillModel } from '../../backtest/fillModel';
+import { snapshotsFromCandles } from '../../backtest/historicalData';
+import type { MarketSnapshot } from '../../backtest/historicalData';
+import type { TokenData } from '../../data/marketFetcher';
+
+// Mock dependencies
+jest.mock('../../ai/immortalAgent');
+jest.mock('../../alerts/telegramBot');
+jest.mock('../../blockchain/tradeExecutor');
+jest.mock('../../data/marketFetcher');
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const TOKEN = '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82';
+
+function token(price: number, overrides: Partial<TokenData> = {}): TokenData {
+  return {
+    address: TOKEN,
+    symbol: 'CAKE',
+    name: 'PancakeSwap',
+    price,
+    priceChange24h: 5,
+    volume24h: 2000000,
+    liquidity: 5000000,
+    marketCap: 100000000,
+    fdv: 100000000,
+    priceUsd: price.toString(),
+    txns24h: { buys: 100, sells: 80 },
+    ...overrides,
+  };
+}
+
+function snapshots(prices: number[]): MarketSnapshot[] {
+  return prices.map((price, i) => ({ timestamp: 1700000000000 + i * 300000, tokens: [token(price)] }));
+}
+
+describe('BacktestEngine', () => {
+  let agent: jest.Mocked<BacktestAgent>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    agent = {
+      makeDecision: jest.fn(),
+      learnFromTrade: jest.fn(),
+      loadMemories: jest.fn(),
+    } as unknown as jest.Mocked<BacktestAgent>;
+
+    agent.makeDecision.mockResolvedValue({
+      action: 'BUY',
+      amount: 0.05,
+      confidence: 0.9,
+      reasoning: 'Momentum',
+      strategy: 'momentum',
+      riskLevel: 'LOW',
+    });
+    agent.learnFromTrade.mockResolvedValue(undefined);
+  });
+
+  test('should open a position through the simulated fill model and liquidate at end', async () => {
+    const engine = new BacktestEngine({ initialBalanceBNB: 1 }, { agent, clock: new SimulatedClock() });
+
+    const result = await engine.run(snapshots([1, 1.1]));
+
+    const buys = result.trades.filter(t => t.side === 'buy');
+    const sells = result.trades.filter(t => t.side === 'sell');
+    expect(buys.length).toBeGreaterThan(0);
+    expect(sells.length).toBe(buys.length);
+    expect(sells.every(t => t.reason === 'end-of-data')).toBe(true);
+    expect(buys[0]!.fillPrice).toBeGreaterThan(buys[0]!.marketPrice);
+    expect(result.equityCurve.length).toBeGreaterThanOrEqual(2);
+    expect(result.stats.openPositions).toBe(0);
+    expect(result.stats.closedPositions).toBe(result.positions.length);
+  });
+
+  test('should trigger stop-loss and store the memory with the real exit price', async () => {
+    agent.makeDecision
+      .mockResolvedValueOnce({
+        action: 'BUY',
+        amount: 0.05,
+        confidence: 0.9,
+        reasoning: 'Momentum',
+        strategy: 'momentum',
+        riskLevel: 'LOW',
+      })
+      .mockResolvedValue({
+        action: 'HOLD',
+        amount: 0,
+        confidence: 0.2,
+        reasoning: 'Wait',
+        strategy: 'conservative',
+        riskLevel: 'LOW',
+      });
+
+    const engine = new BacktestEngine(
+      { initialBalanceBNB: 1, stopLossPercent: 10 },
+      { agent, clock: new SimulatedClock() }
+    );
+
+    const result = await engine.run(snapshots([1, 0.8, 0.8]));
+
+    expect(result.positions).toHaveLength(1);
+    expect(result.positions[0]!.status).toBe('stop-loss');
+    expect(result.stats.losses).toBe(1);
+    expect(result.totalReturnPercent).toBeLessThan(0);
+    expect(agent.learnFromTrade).toHaveBeenCalledTimes(1);
+
+    const [, , action, , entryPrice, exitPrice] = agent.learnFromTrade.mock.calls[0]!;
+    expect(action).toBe('BUY');
+    expect(exitPrice).toBeLessThan(entryPrice as number);
+  });
+
+  test('should skip low confidence decisions', async () => {
+    agent.makeDecision.mockResolvedValue({
+      action: 'BUY',
+      amount: 0.05,
+      confidence: 0.1,
+      reasoning: 'Weak',
+      strategy: 'momentum',
+      riskLevel: 'LOW',
+    });
+
+    const engine = new BacktestEngine({ initialBalanceBNB: 1 }, { agent, clock: new SimulatedClock() });
+    const result = await engine.run(snapshots([1, 1.2]));
+
+    expect(result.trades).toHaveLength(0);
+    expect(result.finalEquity).toBeCloseTo(1);
+    expect(result.decisions.buy).toBe(2);
+    expect(result.decisions.executed).toBe(0);
+  });
+
+  test('should reject empty datasets', async () => {
+    const engine = new BacktestEngine({}, { agent });
+    await expect(engine.run([])).rejects.toThrow('at least one market snapshot');
+  });
+});
+
+describe('SimulatedClock', () => {
+  test('should only move forward', () => {
+    const clock = new SimulatedClock(1000);
+    clock.advanceTo(2000);
+    expect(clock.now()).toBe(2000);
+    expect(() => clock.advanceTo(1500)).toThrow();
+  });
+});
+
+describe('ConstantProductFillModel', () => {
+  test('should apply more price impact in thinner pools', () => {
+    const model = new ConstantProductFillModel({ bnbPriceUSD: 600, baseSlippageBps: 0 });
+
+    const deep = model.fill({ side: 'buy', marketPrice: 1, amountBNB: 1, liquidityUSD: 10000000 });
+    const thin = model.fill({ side: 'buy', marketPrice: 1, amountBNB: 1, liquidityUSD: 20000 });
+
+    expect(thin.priceImpactPercent).toBeGreaterThan(deep.priceImpactPercent);
+    expect(thin.fillPrice).toBeGreaterThan(deep.fillPrice);
+    expect(deep.feeBNB).toBeCloseTo(0.0025);
+  });
+
+  test('should fill sells below the market price', () => {
+    const model = new ConstantProductFillModel();
+    const fill = model.fill({ side: 'sell', marketPrice: 2, amountBNB: 0.5, liquidityUSD: 1000000 });
+    expect(fill.fillPrice).toBeLessThan(2);
+  });
+});
+
+describe('snapshotsFromCandles', () => {
+  test('should derive 24h change and volume from trailing candles only', () => {
+    const hour = 60 * 60 * 1000;
+    const result = snapshotsFromCandles([
+      {
+        address: TOKEN,
+        symbol: 'CAKE',
+        liquidity: 1000000,
+        candles: [
+          { timestamp: 0, open: 1, high: 1, low: 1, close: 1, volume: 100 },
+          { timestamp: hour, open: 1, high: 1.2, low: 1, close: 1.2, volume: 200 },
+        ],
+      },
+    ]);
+
+    expect(result).toHaveLength(2);
+    expect(result[0]!.tokens[0]!.volume24h).toBe(100);
+    expect(result[1]!.tokens[0]!.volume24h).toBe(300);
+    expect(result[1]!.tokens[0]!.priceChange24h).toBeCloseTo(20);
+  });
+});
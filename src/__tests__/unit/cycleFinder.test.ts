@@ -0,0 +1,232 @@
+/**
+ * Unit Tests for the Flash Loan Cycle Finder
+ * Tests cycle search over the pool graph, optimal input sizing, pool discovery through
+ * multicall and the FlashLoanArbitrage calldata
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import {
+  CycleFinder,
+  HOP_KIND,
+  buildGraph,
+  cycleOutput,
+  encodeFlashLoanArbitrage,
+  optimalInput,
+  searchCycles,
+  toArbitrageParams,
+  v3Hop,
+  type ArbitrageCycle,
+  type PoolEdge,
+} from '../../flashloans/cycleFinder';
+import { V2_FACTORIES, PANCAKE_V3_FACTORY, type V2PoolState } from '../../dex/priceImpact';
+import { FLASH_LOAN_ARBITRAGE_ABI } from '../../contracts/abis';
+import type { Call, Multicall } from '../../utils/multicall';
+
+// Mock dependencies
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const A = '0x00000000000000000000000000000000000000a1';
+const B = '0x00000000000000000000000000000000000000a2';
+const C = '0x00000000000000000000000000000000000000a3';
+const FLASH_POOL = '0x00000000000000000000000000000000000000f1';
+const E18 = 10n ** 18n;
+
+// token0 is always the lower address, so A < B < C
+const pair = (address: string, token0: string, reserve0: bigint, reserve1: bigint, feeBps: number): V2PoolState =>
+  ({ protocol: 'v2', address, token0, reserve0: reserve0 * E18, reserve1: reserve1 * E18, feeBps });
+
+// pancakeswap prices everything at par except A/C (1 A = 1.1 C); biswap pays 1.05 B per A
+const POOLS = [
+  { dex: 'pancakeswap', pool: pair('0x00000000000000000000000000000000000000b1', A, 1000n, 1000n, 25), token1: B },
+  { dex: 'pancakeswap', pool: pair('0x00000000000000000000000000000000000000b2', B, 1000n, 1000n, 25), token1: C },
+  { dex: 'pancakeswap', pool: pair('0x00000000000000000000000000000000000000b3', A, 1000n, 1100n, 25), token1: C },
+  { dex: 'biswap', pool: pair('0x00000000000000000000000000000000000000b4', A, 1000n, 1050n, 20), token1: B },
+];
+
+const route = (cycle: PoolEdge[]) => cycle.map(hop => `${hop.dex}:${hop.tokenIn.slice(-2)}>${hop.tokenOut.slice(-2)}`).join(' ');
+
+function cycleOf(hops: PoolEdge[], amountIn: bigint): ArbitrageCycle {
+  return {
+    amountIn,
+    amountOut: 0n,
+    flashFee: 0n,
+    profit: 0n,
+    loanToken: A,
+    hops,
+    path: [A, ...hops.map(hop => hop.tokenOut)],
+    marginalReturnPercent: 0,
+    profitPercent: 0,
+    flashPool: { address: FLASH_POOL, token0: A, token1: B, fee: 500, balance0: 10_000n * E18, balance1: 0n },
+  };
+}
+
+describe('searchCycles', () => {
+  const graph = buildGraph(POOLS);
+
+  test('should find cross-venue and triangular cycles with a positive marginal return', () => {
+    const routes = searchCycles(graph, [A], 3).map(route);
+
+    expect(routes).toEqual(expect.arrayContaining([
+      'biswap:a1>a2 pancakeswap:a2>a1',
+      'pancakeswap:a1>a3 pancakeswap:a3>a2 pancakeswap:a2>a1',
+      'pancakeswap:a1>a3 pancakeswap:a3>a2 biswap:a2>a1',
+    ]));
+    // Same cycles the wrong way round lose money
+    expect(routes).not.toContain('pancakeswap:a1>a2 biswap:a2>a1');
+    expect(routes).not.toContain('pancakeswap:a1>a2 pancakeswap:a2>a3 pancakeswap:a3>a1');
+  });
+
+  test('should respect the hop limit', () => {
+    const routes = searchCycles(graph, [A], 2);
+    expect(routes.length).toBeGreaterThan(0);
+    expect(routes.every(cycle => cycle.length === 2)).toBe(true);
+  });
+});
+
+describe('optimalInput', () => {
+  const crossVenue = searchCycles(buildGraph(POOLS), [A], 2)[0]!;
+
+  test('should beat every other input size net of the flash fee', () => {
+    const best = optimalInput(crossVenue, 500, 1000n * E18);
+    expect(best.profit).toBeGreaterThan(0n);
+    expect(best.flashFee).toBe((best.amountIn * 500n + 999_999n) / 1_000_000n);
+
+    for (let step = 1n; step <= 100n; step++) {
+      const amountIn = step * 10n ** 17n * 2n; // 0.2 .. 20 A
+      const profit = cycleOutput(crossVenue, amountIn) - amountIn - (amountIn * 500n + 999_999n) / 1_000_000n;
+      expect(best.profit).toBeGreaterThanOrEqual(profit);
+    }
+  });
+
+  test('should not borrow when the flash fee eats the spread', () => {
+    const best = optimalInput(crossVenue, 100_000, 1000n * E18); // 10% fee
+    expect(best.profit).toBeLessThanOrEqual(0n);
+    expect(best.amountIn).toBeLessThan(E18);
+  });
+});
+
+describe('calldata', () => {
+  const graph = buildGraph(POOLS);
+  const cycles = searchCycles(graph, [A], 3);
+  const find = (name: string) => cycles.find(cycle => route(cycle) === name)!;
+  const iface = new ethers.Interface(FLASH_LOAN_ARBITRAGE_ABI);
+
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const paths = (params: ReturnType<typeof toArbitrageParams>) =>
+    params.hops.map(hop => (coder.decode(['address[]'], hop.path)[0] as string[]).map(token => token.toLowerCase()));
+
+  test('should group consecutive hops on one venue into a router call', () => {
+    const params = toArbitrageParams(cycleOf(find('pancakeswap:a1>a3 pancakeswap:a3>a2 biswap:a2>a1'), E18), 7n);
+    expect(params.hops.map(hop => [hop.kind, hop.router])).toEqual([
+      [HOP_KIND.V2, V2_FACTORIES.pancakeswap!.router],
+      [HOP_KIND.V2, V2_FACTORIES.biswap!.router],
+    ]);
+    expect(paths(params)).toEqual([[A, C, B], [B, A]]);
+    expect(params.minProfit).toBe(7n);
+
+    // Single-venue triangle: one router call along the whole cycle
+    const triangle = toArbitrageParams(cycleOf(find('pancakeswap:a1>a3 pancakeswap:a3>a2 pancakeswap:a2>a1'), E18), 0n);
+    expect(paths(triangle)).toEqual([[A, C, B, A]]);
+  });
+
+  test('should encode one hop per venue change', () => {
+    const hops = find('pancakeswap:a1>a3 pancakeswap:a3>a2 biswap:a2>a1');
+    const mixed = [hops[0]!, { ...hops[1]!, dex: 'apeswap' }, hops[2]!];
+    const params = toArbitrageParams(cycleOf(mixed, E18), 0n);
+
+    expect(params.hops.map(hop => hop.router)).toEqual(['pancakeswap', 'apeswap', 'biswap'].map(dex => V2_FACTORIES[dex]!.router));
+    expect(paths(params)).toEqual([[A, C], [C, B], [B, A]]);
+
+    // Cycles needing three router calls are executable, not dropped
+    const decoded = iface.decodeFunctionData('executeFlashLoanArbitrage', encodeFlashLoanArbitrage(cycleOf(mixed, E18), 5n));
+    expect(decoded[3].hops).toHaveLength(3);
+    expect(decoded[3].minProfit).toBe(5n);
+  });
+
+  test('should pack V3 hops as token | fee | token', () => {
+    expect(v3Hop(FLASH_POOL, [A, B], [500])).toEqual({
+      kind: HOP_KIND.V3,
+      router: FLASH_POOL,
+      path: `${A}0001f4${B.slice(2)}`,
+    });
+  });
+
+  test('should borrow the loan token from the matching side of the flash pool', () => {
+    const cycle = cycleOf(find('biswap:a1>a2 pancakeswap:a2>a1'), 5n * E18);
+    const decoded = iface.decodeFunctionData('executeFlashLoanArbitrage', encodeFlashLoanArbitrage(cycle, 1n));
+    expect([decoded[0].toLowerCase(), decoded[1], decoded[2]]).toEqual([FLASH_POOL, 5n * E18, 0n]);
+    expect(decoded[3].hops).toHaveLength(2);
+    expect(decoded[3].minProfit).toBe(1n);
+
+    const flipped = { ...cycle, flashPool: { ...cycle.flashPool, token0: '0x0000000000000000000000000000000000000000', token1: A } };
+    const decodedFlipped = iface.decodeFunctionData('executeFlashLoanArbitrage', encodeFlashLoanArbitrage(flipped, 1n));
+    expect([decodedFlipped[1], decodedFlipped[2]]).toEqual([0n, 5n * E18]);
+  });
+});
+
+describe('CycleFinder', () => {
+  const factoryV2 = new ethers.Interface(['function getPair(address tokenA, address tokenB) view returns (address)']);
+  const factoryV3 = new ethers.Interface(['function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)']);
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+
+  function fakeMulticall() {
+    const pairAddress = (dex: string, tokenA: string, tokenB: string) =>
+      POOLS.find(entry => entry.dex === dex && [entry.pool.token0, entry.token1].sort().join() === [tokenA, tokenB].sort().join())?.pool.address;
+
+    const client = {
+      call: jest.fn(async (calls: Call[]) => calls.map(({ target, callData }) => {
+        const selector = callData.slice(0, 10);
+        if (selector === factoryV2.getFunction('getPair')!.selector) {
+          const dex = Object.keys(V2_FACTORIES).find(name => V2_FACTORIES[name]!.factory === target)!;
+          const [tokenA, tokenB] = factoryV2.decodeFunctionData('getPair', callData);
+          const address = pairAddress(dex, tokenA.toLowerCase(), tokenB.toLowerCase());
+          return { success: true, returnData: coder.encode(['address'], [address ?? ethers.ZeroAddress]) };
+        }
+        if (selector === factoryV3.getFunction('getPool')!.selector && target === PANCAKE_V3_FACTORY) {
+          const [tokenA, tokenB, fee] = factoryV3.decodeFunctionData('getPool', callData);
+          const found = tokenA.toLowerCase() === A && tokenB.toLowerCase() === B && fee === 500n;
+          return { success: true, returnData: coder.encode(['address'], [found ? FLASH_POOL : ethers.ZeroAddress]) };
+        }
+        // balanceOf(FLASH_POOL): 50 A and 1000 B
+        return { success: true, returnData: coder.encode(['uint256'], [target === A ? 50n * E18 : 1000n * E18]) };
+      })),
+      getPoolReserves: jest.fn(async (addresses: string[]) => addresses.map(address => {
+        const pool = POOLS.find(entry => entry.pool.address === address.toLowerCase())!.pool;
+        return { pairAddress: pool.address, reserve0: pool.reserve0, reserve1: pool.reserve1, blockTimestampLast: 0, success: true };
+      })),
+    };
+    return client;
+  }
+
+  test('should discover pools and flash pools, and size cycles against the flash pool balance', async () => {
+    const client = fakeMulticall();
+    const finder = new CycleFinder(client as unknown as Multicall, [A, B, C], 3);
+
+    const cycles = await finder.findCycles(0.1);
+
+    expect(cycles.length).toBeGreaterThan(0);
+    expect(cycles.map(cycle => cycle.profitPercent)).toEqual([...cycles.map(cycle => cycle.profitPercent)].sort((x, y) => y - x));
+    for (const cycle of cycles) {
+      expect(cycle.flashPool).toMatchObject({ address: FLASH_POOL, fee: 500, balance0: 50n * E18 });
+      expect(cycle.profit).toBeGreaterThan(0n);
+      expect(cycle.profitPercent).toBeGreaterThanOrEqual(0.1);
+      expect(cycle.path[0]).toBe(cycle.path[cycle.path.length - 1]);
+    }
+    // A loans are capped by the 50 A the flash pool holds
+    expect(cycles.filter(cycle => cycle.loanToken === A).every(cycle => cycle.amountIn <= 50n * E18)).toBe(true);
+
+    // Pair and pool addresses are cached between scans
+    await finder.findCycles(0.1);
+    const lookups = client.call.mock.calls.filter(([calls]) => (calls as Call[]).some(call => call.target === PANCAKE_V3_FACTORY));
+    expect(lookups).toHaveLength(1);
+    expect(client.getPoolReserves).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit Tests for AI Decision Schema
+ * Tests strict validation of LLM trading decisions
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { validateAIDecision, decisionJsonSchema } from '../../ai/decisionSchema';
+
+const valid = {
+  action: 'BUY',
+  amount: 0.2,
+  confidence: 0.8,
+  reasoning: 'Strong volume with rising liquidity',
+  strategy: 'momentum',
+  riskLevel: 'MEDIUM',
+};
+
+describe('validateAIDecision', () => {
+  test('should accept a decision wrapped in prose', () => {
+    const result = validateAIDecision(`Here is my decision:\n${JSON.stringify(valid)}\nGood luck!`, 0.5);
+    expect(result).toEqual({ valid: true, decision: valid });
+  });
+
+  test('should reject an amount above the cap instead of clamping it', () => {
+    const result = validateAIDecision(JSON.stringify({ ...valid, amount: 5 }), 0.5);
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors[0]).toMatch(/^amount:/);
+    }
+  });
+
+  test('should reject wrong types and unknown enum values', () => {
+    const result = validateAIDecision(
+      JSON.stringify({ ...valid, action: 'APE_IN', confidence: '0.9' }),
+      0.5
+    );
+    expect(result.valid).toBe(false);
+    if (!result.valid) {
+      expect(result.errors.map(e => e.split(':')[0])).toEqual(expect.arrayContaining(['action', 'confidence']));
+    }
+  });
+
+  test('should drop null exit levels', () => {
+    const result = validateAIDecision(JSON.stringify({ ...valid, targetPrice: 2.5, stopLoss: null }), 0.5);
+    expect(result).toEqual({ valid: true, decision: { ...valid, targetPrice: 2.5 } });
+    if (result.valid) {
+      expect(result.decision).not.toHaveProperty('stopLoss');
+    }
+  });
+
+  test('should report responses without JSON', () => {
+    expect(validateAIDecision('I would buy some CAKE', 0.5)).toEqual({
+      valid: false,
+      errors: ['response contains no JSON object'],
+    });
+  });
+});
+
+describe('decisionJsonSchema', () => {
+  test('should declare the amount cap', () => {
+    const schema = decisionJsonSchema(0.25) as any;
+    expect(schema.properties.amount.maximum).toBe(0.25);
+    expect(schema.required).toHaveLength(8);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Unit Tests for DEX Routing
+ * Tests candidate paths, V3 path encoding, split search and per-leg minimum outputs
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  BASE_TOKENS,
+  candidatePaths,
+  encodeV3Path,
+  findBestSplit,
+  allocateMinOutputs,
+  type RouteLeg,
+} from '../../dex/routing';
+
+const TOKEN = '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82';
+
+/**
+ * Constant-product pool quote with a 0.25% fee
+ */
+function pool(reserveIn: bigint, reserveOut: bigint, dexName: string, gas = 150000n) {
+  return async (amountIn: bigint): Promise<RouteLeg> => {
+    const withFee = amountIn * 9975n;
+    const amountOut = (withFee * reserveOut) / (reserveIn * 10000n + withFee);
+    return { dexName, protocol: 'v2', path: [TOKEN, BASE_TOKENS.WBNB], amountIn, amountOut, gasEstimate: gas };
+  };
+}
+
+describe('candidatePaths', () => {
+  test('should list the direct path and one-hop paths through other base tokens', () => {
+    const paths = candidatePaths(TOKEN, BASE_TOKENS.WBNB);
+    expect(paths[0]).toEqual([TOKEN, BASE_TOKENS.WBNB]);
+    expect(paths).toHaveLength(4); // direct + USDT, BUSD, USDC
+    expect(paths.every(path => path.length <= 3)).toBe(true);
+    expect(paths.some(path => path.slice(1, -1).some(token => token.toLowerCase() === BASE_TOKENS.WBNB.toLowerCase()))).toBe(false);
+  });
+
+  test('should add two-intermediate paths without repeating tokens when allowed', () => {
+    const paths = candidatePaths(TOKEN, BASE_TOKENS.WBNB, 3);
+    expect(paths).toHaveLength(1 + 3 + 3 * 2);
+    for (const path of paths) {
+      expect(new Set(path.map(token => token.toLowerCase())).size).toBe(path.length);
+    }
+  });
+});
+
+describe('encodeV3Path', () => {
+  test('should pack tokens and 3-byte fee tiers', () => {
+    const encoded = encodeV3Path([TOKEN, BASE_TOKENS.USDT, BASE_TOKENS.WBNB], [2500, 500]);
+    expect((encoded.length - 2) / 2).toBe(20 + 3 + 20 + 3 + 20);
+    expect(encoded.slice(42, 48)).toBe('0009c4'); // 2500
+  });
+
+  test('should reject a fee list that does not match the hops', () => {
+    expect(() => encodeV3Path([TOKEN, BASE_TOKENS.WBNB], [])).toThrow('fee tiers');
+  });
+});
+
+describe('findBestSplit', () => {
+  test('should split a large trade between two equally deep pools', async () => {
+    const amountIn = 100n * 10n ** 18n;
+    const reserves = 1000n * 10n ** 18n;
+    const result = await findBestSplit(amountIn, pool(reserves, reserves, 'a'), pool(reserves, reserves, 'b'));
+
+    expect(result!.legs.map(leg => leg.amountIn)).toEqual([amountIn / 2n, amountIn / 2n]);
+    expect(result!.amountOut).toBeGreaterThan((await pool(reserves, reserves, 'a')(amountIn)).amountOut);
+  });
+
+  test('should keep a single route when the second pool is much shallower', async () => {
+    const amountIn = 10n ** 18n;
+    const result = await findBestSplit(
+      amountIn,
+      pool(10n ** 24n, 10n ** 24n, 'deep'),
+      pool(10n ** 19n, 10n ** 19n, 'shallow')
+    );
+
+    expect(result!.legs).toHaveLength(1);
+    expect(result!.legs[0]!.dexName).toBe('deep');
+  });
+
+  test('should not split when the extra gas outweighs the gain', async () => {
+    const amountIn = 10n ** 18n;
+    const reserves = 10n ** 21n;
+    const result = await findBestSplit(
+      amountIn,
+      pool(reserves, reserves, 'a'),
+      pool(reserves, reserves, 'b'),
+      gas => gas * 10n ** 13n // expensive gas relative to the gain
+    );
+
+    expect(result!.legs).toHaveLength(1);
+  });
+});
+
+describe('allocateMinOutputs', () => {
+  test('should split the minimum pro rata and cover the full amount', () => {
+    const legs = [{ amountOut: 300n }, { amountOut: 700n }] as RouteLeg[];
+    const mins = allocateMinOutputs(legs, 995n);
+
+    expect(mins[0]! + mins[1]!).toBe(995n);
+    expect(mins[0]).toBe(298n);
+  });
+});
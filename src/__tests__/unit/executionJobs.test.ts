@@ -0,0 +1,287 @@
+/**
+ * Unit Tests for Scheduled Execution Jobs
+ * Tests TWAP/VWAP/IS slicing, child fills, pause/resume, persistence and position roll-up
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import {
+  ExecutionJobRunner,
+  planSlice,
+  observedVolume,
+  validateJobParams,
+  type ExecutionJob,
+  type ExecutionJobParams,
+  type MarketSnapshot,
+} from '../../blockchain/executionJobs';
+import type { TradeParams, TradeResult } from '../../blockchain/tradeExecutor';
+import * as configStorage from '../../utils/configStorage';
+
+// Mock dependencies
+jest.mock('../../utils/configStorage', () => ({
+  saveConfig: jest.fn(async () => undefined),
+  loadConfig: jest.fn(async () => null),
+}));
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const TOKEN = '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82';
+const MINUTE = 60_000;
+
+function params(overrides: Partial<ExecutionJobParams> = {}): ExecutionJobParams {
+  return {
+    tokenAddress: TOKEN,
+    symbol: 'CAKE',
+    action: 'buy',
+    totalAmount: 1,
+    algorithm: 'twap',
+    durationMs: 10 * MINUTE,
+    intervalMs: MINUTE,
+    ...overrides,
+  };
+}
+
+function job(overrides: Partial<ExecutionJob> = {}, jobParams: Partial<ExecutionJobParams> = {}): ExecutionJob {
+  return {
+    id: 'exec_test',
+    params: params(jobParams),
+    status: 'running',
+    createdAt: 0,
+    updatedAt: 0,
+    endAt: 10 * MINUTE,
+    nextRunAt: 0,
+    lastFillAt: 0,
+    arrivalPrice: 0.01,
+    filledAmount: 0,
+    receivedAmount: 0,
+    averagePrice: 0,
+    shortfallPercent: 0,
+    consecutiveFailures: 0,
+    children: [],
+    ...overrides,
+  };
+}
+
+const market = (price = 0.01, extra: Partial<MarketSnapshot> = {}): MarketSnapshot => ({ price, ...extra });
+
+describe('planSlice', () => {
+  test('should spread TWAP evenly and catch up after missed intervals', () => {
+    expect(planSlice(job(), market(), 0).amount).toBeCloseTo(0.1);
+    // Half the time gone with nothing filled: remaining 1 over 5 intervals
+    expect(planSlice(job(), market(), 5 * MINUTE).amount).toBeCloseTo(0.2);
+    expect(planSlice(job({ filledAmount: 0.9 }), market(), 11 * MINUTE)).toEqual({ amount: expect.closeTo(0.1), reason: 'deadline' });
+  });
+
+  test('should size VWAP children from observed volume since the last fill', () => {
+    // $100k per 5m at $600/BNB over 1 minute = 33.3 BNB traded; 1% participation
+    const snapshot = market(0.01, { priceUsd: 6, volume5mUsd: 100_000 });
+    expect(observedVolume(snapshot, 'buy', MINUTE)).toBeCloseTo(33.33, 1);
+    expect(observedVolume(snapshot, 'sell', MINUTE)).toBeCloseTo(3333.3, 0);
+
+    const slice = planSlice(job({ lastFillAt: 0 }, { algorithm: 'vwap', participationRate: 0.01 }), snapshot, MINUTE);
+    expect(slice.amount).toBeCloseTo(0.333, 2);
+    expect(planSlice(job({}, { algorithm: 'vwap' }), market(0.01), MINUTE).amount).toBe(0);
+  });
+
+  test('should pause IS on adverse drift and speed up on favourable drift', () => {
+    const is = (price: number, action: 'buy' | 'sell' = 'buy') =>
+      planSlice(job({}, { algorithm: 'is', driftTolerancePercent: 2, action }), market(price), 0);
+
+    expect(is(0.0103).amount).toBe(0); // 3% worse for a buyer
+    expect(is(0.0103).reason).toContain('paused');
+    expect(is(0.0101).amount).toBeCloseTo(0.1);
+    expect(is(0.0099).amount).toBeCloseTo(0.15); // 1% better -> 1.5x
+    expect(is(0.009).amount).toBeCloseTo(0.2); // capped at 2x
+    expect(is(0.0097, 'sell').amount).toBe(0); // 3% worse for a seller
+  });
+
+  test('should respect child size limits and send the final dust', () => {
+    expect(planSlice(job({}, { maxChildAmount: 0.05 }), market(), 0).amount).toBe(0.05);
+    expect(planSlice(job({}, { minChildAmount: 0.2 }), market(), 0).amount).toBe(0);
+    expect(planSlice(job({ filledAmount: 0.95 }, { minChildAmount: 0.2 }), market(), 0).amount).toBeCloseTo(0.05);
+  });
+});
+
+describe('validateJobParams', () => {
+  test('should reject bad algorithms, intervals and participation rates', () => {
+    expect(() => validateJobParams(params({ algorithm: 'pov' as any }))).toThrow('algorithm');
+    expect(() => validateJobParams(params({ intervalMs: 20 * MINUTE }))).toThrow('intervalMs');
+    expect(() => validateJobParams(params({ participationRate: 1.5 }))).toThrow('participationRate');
+    expect(() => validateJobParams(params({ totalAmount: 0 }))).toThrow('totalAmount');
+  });
+});
+
+describe('ExecutionJobRunner', () => {
+  let price: number;
+  let execute: jest.Mock<(params: TradeParams) => Promise<TradeResult>>;
+  let positions: { addPosition: jest.Mock<any>; reducePosition: jest.Mock<any> };
+  let runner: ExecutionJobRunner;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    price = 0.01;
+    execute = jest.fn(async (trade: TradeParams) => ({
+      success: true,
+      txHash: `0x${execute.mock.calls.length}`,
+      amountIn: String(trade.amountBNB),
+      amountOut: String(trade.amountBNB / price),
+      actualPrice: price,
+    }));
+    positions = { addPosition: jest.fn(async () => undefined), reducePosition: jest.fn(async () => undefined) };
+    runner = new ExecutionJobRunner({ execute, snapshot: async () => ({ price }) }, 'execution-jobs-test', 1000);
+    runner.attachPositions(positions as any);
+  });
+
+  test('should work a TWAP job to completion and roll fills into one position', async () => {
+    const events: string[] = [];
+    runner.on('jobProgress', () => events.push('progress'));
+    runner.on('jobCompleted', () => events.push('completed'));
+
+    const created = await runner.submit(params({ totalAmount: 0.4, durationMs: 4 * MINUTE }), 0);
+    for (let minute = 0; minute < 4; minute++) {
+      price = 0.01 + minute * 0.001;
+      await runner.tick(minute * MINUTE);
+    }
+
+    const done = runner.get(created.id)!;
+    expect(done.status).toBe('completed');
+    expect(done.children).toHaveLength(4);
+    expect(done.filledAmount).toBeCloseTo(0.4);
+    expect(done.averagePrice).toBeCloseTo(0.4 / (10 + 0.1 / 0.011 + 0.1 / 0.012 + 0.1 / 0.013), 8);
+    expect(done.shortfallPercent).toBeGreaterThan(0);
+    expect(events).toEqual(['progress', 'progress', 'progress', 'progress', 'completed']);
+
+    expect(positions.addPosition).toHaveBeenCalledTimes(1);
+    expect(positions.addPosition).toHaveBeenCalledWith(expect.objectContaining({
+      id: created.id,
+      amount: expect.closeTo(0.4),
+      entryPrice: done.averagePrice,
+      strategy: 'execution:twap',
+      txHash: '0x4',
+    }));
+  });
+
+  test('should not trade while paused and catch up after resuming', async () => {
+    const created = await runner.submit(params(), 0);
+    await runner.tick(0);
+    await runner.pause(created.id);
+    await runner.tick(MINUTE);
+    await runner.tick(2 * MINUTE);
+    expect(execute).toHaveBeenCalledTimes(1);
+
+    await runner.resume(created.id, 5 * MINUTE);
+    await runner.tick(5 * MINUTE);
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(execute.mock.calls[1]![0].amountBNB).toBeCloseTo(0.9 / 5);
+    await expect(runner.resume(created.id)).rejects.toMatchObject({ code: 'EXECUTION_JOB_NOT_ACTIVE' });
+  });
+
+  test('should fail after repeated child failures and still record partial fills', async () => {
+    const created = await runner.submit(params({ totalAmount: 1 }), 0);
+    await runner.tick(0);
+    execute.mockResolvedValue({ success: false, amountIn: '0', amountOut: '0', actualPrice: 0, error: 'reverted' });
+    for (let minute = 1; minute <= 3; minute++) {
+      await runner.tick(minute * MINUTE);
+    }
+
+    const failed = runner.get(created.id)!;
+    expect(failed.status).toBe('failed');
+    expect(failed.error).toContain('reverted');
+    expect(failed.children.map(child => child.status)).toEqual(['filled', 'failed', 'failed', 'failed']);
+    expect(positions.addPosition).toHaveBeenCalledWith(expect.objectContaining({ amount: expect.closeTo(0.1) }));
+  });
+
+  test('should reduce the referenced position by the tokens a sell job sold', async () => {
+    execute.mockImplementation(async trade => ({
+      success: true,
+      amountIn: String(trade.tokenAmount),
+      amountOut: String(trade.tokenAmount! * price),
+      actualPrice: price,
+    }));
+
+    const created = await runner.submit(params({ action: 'sell', totalAmount: 100, durationMs: MINUTE, positionId: 'pos-1' }), 0);
+    await runner.tick(0);
+
+    expect(execute.mock.calls[0]![0]).toMatchObject({ action: 'sell', tokenAmount: 100, amountBNB: 1 });
+    expect(runner.get(created.id)!.status).toBe('completed');
+    expect(positions.reducePosition).toHaveBeenCalledWith('pos-1', 100, 0.01, undefined);
+
+    // A cancelled sell only gives up what it filled
+    const partial = await runner.submit(params({ action: 'sell', totalAmount: 100, positionId: 'pos-2' }), 0);
+    await runner.tick(0);
+    await runner.cancel(partial.id);
+
+    expect(runner.get(partial.id)!.status).toBe('cancelled');
+    expect(positions.reducePosition).toHaveBeenLastCalledWith('pos-2', expect.closeTo(10), 0.01, undefined);
+  });
+
+  test('should let an in-flight child land before a cancel rolls the job up', async () => {
+    let release!: () => void;
+    const landed = new Promise<void>(resolve => { release = resolve; });
+    const fill = execute.getMockImplementation()!;
+    execute.mockImplementationOnce(async trade => {
+      await landed;
+      return fill(trade);
+    });
+
+    const created = await runner.submit(params(), 0);
+    const ticking = runner.tick(0);
+    await new Promise(resolve => setImmediate(resolve));
+    expect(execute).toHaveBeenCalledTimes(1);
+
+    const cancelling = runner.cancel(created.id);
+    release();
+    await Promise.all([ticking, cancelling]);
+
+    const cancelled = runner.get(created.id)!;
+    expect(cancelled.status).toBe('cancelled');
+    expect(cancelled.children.map(child => child.status)).toEqual(['filled']);
+    expect(positions.addPosition).toHaveBeenCalledTimes(1);
+    expect(positions.addPosition).toHaveBeenCalledWith(expect.objectContaining({ amount: expect.closeTo(0.1) }));
+  });
+
+  test('should persist a child before sending it and not resend it after a restart', async () => {
+    let persisted: any;
+    execute.mockImplementationOnce(async () => {
+      persisted = JSON.parse(JSON.stringify((configStorage.saveConfig as jest.Mock).mock.calls.at(-1)![1]));
+      throw new Error('process killed');
+    });
+
+    const created = await runner.submit(params(), 0);
+    await runner.tick(0);
+    expect(persisted.jobs[0].children).toEqual([expect.objectContaining({ status: 'submitted', amountIn: expect.closeTo(0.1) })]);
+
+    (configStorage.loadConfig as jest.Mock<any>).mockResolvedValueOnce(persisted);
+    const restarted = new ExecutionJobRunner({ execute, snapshot: async () => ({ price }) }, 'execution-jobs-test', 1000);
+    await Promise.all([restarted.load(), restarted.load()]);
+    expect(configStorage.loadConfig).toHaveBeenCalledTimes(2); // once per runner
+
+    const paused = restarted.get(created.id)!;
+    expect(paused.status).toBe('paused');
+    expect(paused.children[0]!.status).toBe('failed');
+    expect(paused.error).toContain('check the wallet');
+
+    await restarted.tick(MINUTE);
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  test('should persist jobs and resume running ones on load', async () => {
+    const created = await runner.submit(params(), 0);
+    await runner.tick(0);
+
+    const saved = (configStorage.saveConfig as jest.Mock).mock.calls.at(-1)![1];
+    (configStorage.loadConfig as jest.Mock<any>).mockResolvedValueOnce(saved);
+
+    const restarted = new ExecutionJobRunner({ execute, snapshot: async () => ({ price }) }, 'execution-jobs-test', 1000);
+    await restarted.load();
+    expect(restarted.get(created.id)).toMatchObject({ status: 'running', filledAmount: expect.closeTo(0.1) });
+
+    await restarted.tick(MINUTE);
+    expect(restarted.get(created.id)!.children).toHaveLength(2);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Unit Tests for Position exit plans
+ * Tests take-profit ladders, trailing stops, time exits and break-even moves
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import {
+  PositionManager,
+  evaluateExitPlan,
+  exitPlanFromDecision,
+  mergeExitPlan,
+  validateExitPlan,
+} from '../../services/positionManager';
+import type { Position, ExitPlan } from '../../services/positionManager';
+import type { PositionStore } from '../../db/repositories/positionRepository';
+import * as tradeExecutor from '../../blockchain/tradeExecutor';
+import * as marketFetcher from '../../data/marketFetcher';
+
+// Mock dependencies
+jest.mock('../../blockchain/tradeExecutor');
+jest.mock('../../data/marketFetcher');
+jest.mock('../../db/repositories/positionRepository', () => ({
+  createPositionStore: jest.fn(),
+}));
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const ENTRY_TIME = 1700000000000;
+
+function position(exitPlan: ExitPlan, overrides: Partial<Position> = {}): Position {
+  return {
+    id: '0xabc',
+    token: '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82',
+    symbol: 'CAKE',
+    entryPrice: 2,
+    currentPrice: 2,
+    amount: 0.1,
+    originalAmount: 0.1,
+    tokenAmount: 100,
+    strategy: 'momentum',
+    confidence: 0.8,
+    timestamp: ENTRY_TIME,
+    status: 'open',
+    exitPlan,
+    ...overrides,
+  };
+}
+
+const ladder: ExitPlan = {
+  stopPrice: 1.8,
+  takeProfits: [
+    { price: 2.2, sellFraction: 0.25 },
+    { price: 2.4, sellFraction: 0.25 },
+    { price: 2.6, sellFraction: 0.5 },
+  ],
+};
+
+describe('evaluateExitPlan', () => {
+  test('should sell each take-profit tier as a fraction of what is still held', () => {
+    expect(evaluateExitPlan(position(ladder), 2.1, ENTRY_TIME)).toBeNull();
+    expect(evaluateExitPlan(position(ladder), 2.25, ENTRY_TIME)).toEqual({
+      reason: 'take-profit',
+      fraction: 0.25,
+      tiers: [0],
+    });
+
+    // Once the first tier has filled, 25% of the original is a third of what is left
+    const filled = { ...ladder, takeProfits: ladder.takeProfits.map((t, i) => (i < 1 ? { ...t, filledAt: 1 } : t)) };
+    expect(evaluateExitPlan(position(filled), 2.45, ENTRY_TIME)).toEqual({
+      reason: 'take-profit',
+      fraction: 0.25 / 0.75,
+      tiers: [1],
+    });
+
+    // Gapping through the last two tiers sells everything that is left
+    expect(evaluateExitPlan(position(filled), 2.7, ENTRY_TIME)).toEqual({
+      reason: 'take-profit',
+      fraction: 1,
+      tiers: [1, 2],
+    });
+  });
+
+  test('should ratchet the trailing stop with the high-water mark', () => {
+    const plan: ExitPlan = { stopPrice: 1.8, takeProfits: [], trailingStopPercent: 10, highWaterMark: 3 };
+
+    expect(evaluateExitPlan(position(plan), 2.8, ENTRY_TIME)).toBeNull();
+    expect(evaluateExitPlan(position(plan), 2.7, ENTRY_TIME)).toMatchObject({ reason: 'trailing-stop', fraction: 1 });
+
+    // Below the fixed stop the fixed stop is what binds until the price has run up
+    const { highWaterMark: _highWaterMark, ...fresh } = plan;
+    expect(evaluateExitPlan(position(fresh), 1.75, ENTRY_TIME)).toMatchObject({ reason: 'stop-loss' });
+  });
+
+  test('should exit after the maximum holding time', () => {
+    const plan: ExitPlan = { takeProfits: [], maxHoldMs: 3_600_000 };
+
+    expect(evaluateExitPlan(position(plan), 2, ENTRY_TIME + 3_599_999)).toBeNull();
+    expect(evaluateExitPlan(position(plan), 2, ENTRY_TIME + 3_600_000)).toMatchObject({ reason: 'time-exit', fraction: 1 });
+  });
+});
+
+describe('exit plan setup', () => {
+  test('should build a ladder with a break-even stop from AI decision levels', () => {
+    expect(exitPlanFromDecision({ targetPrice: 3, stopLoss: 1.5 }, 2)).toEqual({
+      stopPrice: 1.5,
+      takeProfits: [
+        { price: 2.5, sellFraction: 0.5 },
+        { price: 3, sellFraction: 0.5 },
+      ],
+      breakEvenAfterFirstTarget: true,
+    });
+
+    // Levels on the wrong side of entry are ignored
+    const plan = exitPlanFromDecision({ targetPrice: 1.9, stopLoss: 2.1 }, 2);
+    expect(plan.takeProfits).toEqual([]);
+    expect(plan.stopPrice).toBeLessThan(2);
+  });
+
+  test('should keep filled tiers and reject ladders selling more than the position', () => {
+    const partlyFilled: ExitPlan = { ...ladder, takeProfits: [{ price: 2.2, sellFraction: 0.25, filledAt: 1 }] };
+    const merged = mergeExitPlan(partlyFilled, { stopPrice: null, takeProfits: [{ price: 3, sellFraction: 0.75 }] });
+
+    expect(merged.stopPrice).toBeUndefined();
+    expect(merged.takeProfits).toEqual([
+      { price: 2.2, sellFraction: 0.25, filledAt: 1 },
+      { price: 3, sellFraction: 0.75 },
+    ]);
+    expect(() => validateExitPlan(merged)).not.toThrow();
+
+    expect(() => validateExitPlan(mergeExitPlan(partlyFilled, { takeProfits: [{ price: 3, sellFraction: 0.9 }] })))
+      .toThrow(expect.objectContaining({ code: 'VALIDATION_ERROR' }));
+  });
+
+  test('should reject numeric strings and a non-array ladder from JSON bodies', () => {
+    const fromJson = (plan: object) => () => validateExitPlan(plan as ExitPlan);
+
+    expect(fromJson({ ...ladder, stopPrice: '1.5' })).toThrow('stopPrice');
+    expect(fromJson({ ...ladder, trailingStopPercent: '10' })).toThrow('trailingStopPercent');
+    expect(fromJson({ ...ladder, takeProfits: [{ price: 3, sellFraction: '0.5' }, { price: 4, sellFraction: '0.5' }] }))
+      .toThrow('takeProfits[0].sellFraction');
+    expect(fromJson({ ...ladder, takeProfits: [{ price: '3', sellFraction: 0.5 }] })).toThrow('takeProfits[0].price');
+    expect(fromJson({ ...ladder, takeProfits: { price: 3, sellFraction: 0.5 } })).toThrow('takeProfits');
+    expect(fromJson({ ...ladder, maxHoldMs: Infinity })).toThrow('maxHoldMs');
+  });
+});
+
+describe('PositionManager.checkAllExits', () => {
+  let store: jest.Mocked<PositionStore>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = {
+      backend: 'file',
+      loadOpen: jest.fn(async () => []),
+      loadClosed: jest.fn(async () => []),
+      save: jest.fn(async () => undefined),
+      clear: jest.fn(async () => undefined),
+    } as unknown as jest.Mocked<PositionStore>;
+    (tradeExecutor.executeTrade as jest.Mock<any>).mockResolvedValue({ success: true, txHash: '0xsell' });
+  });
+
+  test('should take partial profit and move the stop to break-even', async () => {
+    const manager = new PositionManager(store);
+    const { status: _status, currentPrice: _price, ...entry } = position(exitPlanFromDecision({ targetPrice: 3 }, 2));
+    await manager.addPosition({ ...entry, status: 'open' });
+
+    (marketFetcher.getTokenPrice as jest.Mock<any>).mockResolvedValue(2.5);
+    await manager.checkAllExits();
+
+    expect(tradeExecutor.executeTrade).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'sell', tokenAmount: 50 })
+    );
+    const open = await manager.getPosition('0xabc');
+    expect(open).toMatchObject({ amount: 0.05, tokenAmount: 50, status: 'open' });
+    expect(open?.realizedProfitLossAmount).toBeCloseTo(0.0125);
+    expect(open?.exitPlan?.stopPrice).toBe(2);
+    expect(open?.exitPlan?.takeProfits[0]).toMatchObject({ fillPrice: 2.5, txHash: '0xsell' });
+
+    // Falling back to entry closes the rest at break-even
+    (marketFetcher.getTokenPrice as jest.Mock<any>).mockResolvedValue(2);
+    await manager.checkAllExits();
+
+    const [closed] = await manager.getClosedPositions();
+    expect(closed).toMatchObject({ status: 'stop-loss', exitReason: 'stop-loss', exitPrice: 2 });
+    expect(closed?.profitLossAmount).toBeCloseTo(0.0125);
+    expect(closed?.profitLoss).toBeCloseTo(12.5);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit Tests for LLM Cassette
+ * Tests prompt hashing, recording and offline replay of LLM responses
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { LLMCassette, CassetteMissError, hashPrompt } from '../../ai/llmCassette';
+import type { LLMRequest } from '../../ai/llmCassette';
+
+// Mock dependencies
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const request: LLMRequest = {
+  callSite: 'getAIDecision',
+  model: 'anthropic/claude-3.5-sonnet',
+  messages: [
+    { role: 'system', content: 'You are a trading agent' },
+    { role: 'user', content: 'Token: CAKE' },
+  ],
+  params: { temperature: 0.3, max_tokens: 1000 },
+};
+
+describe('LLMCassette', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassette-'));
+    file = path.join(dir, 'cassette.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should replay recorded responses in order without calling the model', async () => {
+    const recorder = new LLMCassette('record', file);
+    await recorder.run(request, async () => '{"action":"BUY"}');
+    await recorder.run(request, async () => '{"action":"HOLD"}');
+
+    const player = new LLMCassette('replay', file);
+    const call = jest.fn(async () => 'live');
+
+    expect(await player.run(request, call)).toBe('{"action":"BUY"}');
+    expect(await player.run(request, call)).toBe('{"action":"HOLD"}');
+    expect(await player.run(request, call)).toBe('{"action":"HOLD"}');
+    expect(call).not.toHaveBeenCalled();
+    expect(player.getStats()).toMatchObject({ entries: 1, hits: 3, misses: 0 });
+  });
+
+  test('should throw a cassette miss when the prompt changed', async () => {
+    const recorder = new LLMCassette('record', file);
+    await recorder.run(request, async () => '{}');
+
+    const player = new LLMCassette('replay', file);
+    const changed = { ...request, messages: [{ role: 'user', content: 'Token: BUSD' }] };
+
+    await expect(player.run(changed, async () => 'live')).rejects.toBeInstanceOf(CassetteMissError);
+  });
+
+  test('should pass calls straight through when off', async () => {
+    const cassette = new LLMCassette('off', file);
+    expect(await cassette.run(request, async () => 'live')).toBe('live');
+    await expect(fs.access(file)).rejects.toThrow();
+  });
+});
+
+describe('hashPrompt', () => {
+  test('should ignore parameter order but not content', () => {
+    const reordered = { ...request, params: { max_tokens: 1000, temperature: 0.3 } };
+    const warmer = { ...request, params: { temperature: 0.9, max_tokens: 1000 } };
+
+    expect(hashPrompt(reordered)).toBe(hashPrompt(request));
+    expect(hashPrompt(warmer)).not.toBe(hashPrompt(request));
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit Tests for LLM Router
+ * Tests route parsing, provider failover and token/cost accounting
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+import { LLMRouter, parseChain, parseRoutes } from '../../ai/llmRouter';
+import { LLMCassette } from '../../ai/llmCassette';
+import { RuleBasedProvider } from '../../ai/llmProviders';
+import type { CompletionRequest, LLMProvider, ProviderName } from '../../ai/llmProviders';
+
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+function fakeProvider(name: ProviderName, behaviour: 'ok' | 'fail' | 'unavailable'): LLMProvider {
+  return {
+    name,
+    isAvailable: () => behaviour !== 'unavailable',
+    complete: jest.fn(async (_request: CompletionRequest, model?: string) => {
+      if (behaviour === 'fail') throw new Error(`${name} timed out`);
+      return {
+        content: `{"from":"${name}"}`,
+        provider: name,
+        model: model || 'default',
+        usage: { promptTokens: 100, completionTokens: 20 },
+        costUSD: 0.001,
+        latencyMs: 50,
+      };
+    }),
+  } as LLMProvider;
+}
+
+const request: CompletionRequest = {
+  callSite: 'getAIDecision',
+  messages: [{ role: 'user', content: 'Should I buy CAKE?' }],
+  ruleBased: () => '{"action":"HOLD"}',
+};
+
+function router(providers: LLMProvider[], routes: string = '', defaultChain: string = 'openrouter,rule-based') {
+  return new LLMRouter({ providers, routes, defaultChain, cassette: new LLMCassette('off', '/dev/null') });
+}
+
+describe('route parsing', () => {
+  test('should split provider and model on the first colon only', () => {
+    expect(parseChain('local:llama3.1:8b, rule-based')).toEqual([
+      { provider: 'local', model: 'llama3.1:8b' },
+      { provider: 'rule-based', model: undefined },
+    ]);
+  });
+
+  test('should parse per call site routes and drop unknown providers', () => {
+    const routes = parseRoutes('getAIDecision=local,bogus;analyzeMarket=openrouter:openai/gpt-4o-mini');
+    expect(routes.getAIDecision).toEqual([{ provider: 'local', model: undefined }]);
+    expect(routes.analyzeMarket).toEqual([{ provider: 'openrouter', model: 'openai/gpt-4o-mini' }]);
+  });
+});
+
+describe('LLMRouter', () => {
+  test('should fail over to the next provider and record the failure', async () => {
+    const llm = router([fakeProvider('openrouter', 'fail'), new RuleBasedProvider()]);
+
+    const result = await llm.complete(request);
+
+    expect(result.provider).toBe('rule-based');
+    expect(result.content).toBe('{"action":"HOLD"}');
+    const usage = llm.getUsage();
+    expect(usage.byProvider.openrouter?.failures).toBe(1);
+    expect(usage.byCallSite.getAIDecision).toMatchObject({ calls: 1, failures: 1 });
+  });
+
+  test('should use the call site route and its model over the default chain', async () => {
+    const local = fakeProvider('local', 'ok');
+    const llm = router([fakeProvider('openrouter', 'ok'), local], 'getAIDecision=local:qwen2.5:7b');
+
+    const result = await llm.complete(request);
+
+    expect(result.provider).toBe('local');
+    expect(local.complete).toHaveBeenCalledWith(request, 'qwen2.5:7b');
+  });
+
+  test('should skip unavailable providers and accumulate tokens and cost', async () => {
+    const llm = router([fakeProvider('local', 'unavailable'), fakeProvider('openrouter', 'ok')], '', 'local,openrouter');
+
+    await llm.complete(request);
+    await llm.complete({ ...request, callSite: 'analyzeMarket' });
+
+    const { total, byProvider } = llm.getUsage();
+    expect(byProvider.local).toBeUndefined();
+    expect(total).toMatchObject({ calls: 2, promptTokens: 200, completionTokens: 40 });
+    expect(total.costUSD).toBeCloseTo(0.002);
+  });
+
+  test('should throw when every provider fails', async () => {
+    const llm = router([fakeProvider('openrouter', 'fail'), new RuleBasedProvider()]);
+
+    await expect(llm.complete({ ...request, ruleBased: undefined })).rejects.toThrow(
+      'All LLM providers failed for getAIDecision'
+    );
+  });
+});
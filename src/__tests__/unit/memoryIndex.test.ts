@@ -0,0 +1,153 @@
+/**
+ * Unit Tests for Memory Vector Index
+ * Tests k-NN ranking, outcome filters, recency weighting and persistence
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { MemoryVectorIndex, HashingTextEmbedder, marketFeatures } from '../../ai/memoryIndex';
+import type { ExtendedTradeMemory } from '../../ai/immortalAgent';
+
+// Mock dependencies
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+
+function memory(
+  id: string,
+  overrides: Partial<ExtendedTradeMemory> & { market?: Partial<ExtendedTradeMemory['marketConditions']> } = {}
+): ExtendedTradeMemory {
+  const { market, ...rest } = overrides;
+  return {
+    id,
+    timestamp: NOW,
+    tokenSymbol: 'CAKE',
+    tokenAddress: '0xcake',
+    action: 'BUY',
+    amount: 0.1,
+    entryPrice: 1,
+    outcome: 'profit',
+    profitLoss: 5,
+    confidence: 0.7,
+    marketConditions: {
+      volume24h: 1_000_000,
+      liquidity: 500_000,
+      priceChange24h: 10,
+      marketTrend: 'bullish',
+      buySellPressure: 0.3,
+      ...market,
+    },
+    aiReasoning: '',
+    strategy: 'momentum',
+    riskLevel: 'MEDIUM',
+    lessons: [],
+    ...rest,
+  };
+}
+
+describe('MemoryVectorIndex', () => {
+  const query = { volume24h: 1_000_000, liquidity: 500_000, priceChange24h: 10, buySellPressure: 0.3, marketTrend: 'bullish' as const };
+
+  test('should rank memories by market similarity', () => {
+    const index = new MemoryVectorIndex();
+    index.indexTradeMemory(memory('close', { tokenAddress: '0xa' }));
+    index.indexTradeMemory(memory('far', { tokenAddress: '0xb', market: { volume24h: 1_000, priceChange24h: -60, marketTrend: 'bearish' } }));
+
+    const matches = index.search({ market: query }, { now: NOW });
+    expect(matches.map(match => match.id)).toEqual(['close', 'far']);
+    expect(matches[0]!.similarity).toBeCloseTo(1, 5);
+  });
+
+  test('should filter by outcome and weight recent memories higher', () => {
+    const index = new MemoryVectorIndex();
+    index.indexTradeMemory(memory('old-win', { timestamp: NOW - 90 * DAY }));
+    index.indexTradeMemory(memory('new-win'));
+    index.indexTradeMemory(memory('pending', { outcome: 'pending' }));
+
+    const matches = index.search({ market: query }, { now: NOW, outcomes: ['win', 'loss'] });
+    expect(matches.map(match => match.id)).toEqual(['new-win', 'old-win']);
+    expect(matches[1]!.score).toBeLessThan(matches[0]!.score);
+  });
+
+  test('should use reasoning text to break ties between similar markets', () => {
+    const index = new MemoryVectorIndex();
+    index.indexTradeMemory(memory('whale', { aiReasoning: 'whale accumulation before listing', tokenAddress: '0xa' }));
+    index.indexTradeMemory(memory('rug', { aiReasoning: 'liquidity pulled by deployer', tokenAddress: '0xb' }));
+
+    const [best] = index.search({ market: query, text: 'large whale accumulation' }, { now: NOW });
+    expect(best!.id).toBe('whale');
+  });
+
+  test('should find neighbours of an indexed memory excluding itself', () => {
+    const index = new MemoryVectorIndex();
+    index.indexTradeMemory(memory('a'));
+    index.indexTradeMemory(memory('b', { market: { priceChange24h: 12 } }));
+    index.indexTradeMemory(memory('c', { market: { priceChange24h: -80 } }));
+
+    const matches = index.searchVector(index.queryFor('a')!, { now: NOW, k: 1 }, 'a');
+    expect(matches.map(match => match.id)).toEqual(['b']);
+  });
+
+  test('should produce normalised, deterministic text embeddings', () => {
+    const embedder = new HashingTextEmbedder(32);
+    const vector = embedder.embed('Buy the dip on CAKE');
+    expect(vector).toHaveLength(32);
+    expect(Math.hypot(...vector)).toBeCloseTo(1, 10);
+    expect(embedder.embed('buy the DIP on cake')).toEqual(vector);
+  });
+
+  test('should clamp extreme market features', () => {
+    const features = marketFeatures({ priceChange24h: 900, buySellPressure: -5, volatility: 250 });
+    expect(features.slice(2, 5)).toEqual([1, -1, 1]);
+  });
+});
+
+describe('MemoryVectorIndex persistence', () => {
+  let dir: string;
+  let indexPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-index-'));
+    indexPath = path.join(dir, 'index.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should save and reload entries, skipping unchanged writes', async () => {
+    const index = new MemoryVectorIndex();
+    index.indexTradeMemory(memory('a', { aiReasoning: 'momentum breakout' }));
+    await index.save(indexPath);
+    expect(index.isDirty).toBe(false);
+
+    // Re-indexing an unchanged memory does not dirty the index
+    index.indexTradeMemory(memory('a', { aiReasoning: 'momentum breakout' }));
+    expect(index.isDirty).toBe(false);
+
+    const reloaded = new MemoryVectorIndex();
+    expect(await reloaded.load(indexPath)).toBe(true);
+    expect(reloaded.ids()).toEqual(['a']);
+    expect(reloaded.queryFor('a')).toEqual(index.queryFor('a'));
+  });
+
+  test('should discard an index built with a different embedder', async () => {
+    const index = new MemoryVectorIndex(new HashingTextEmbedder(32));
+    index.indexTradeMemory(memory('a'));
+    await index.save(indexPath);
+
+    const reloaded = new MemoryVectorIndex(new HashingTextEmbedder(64));
+    expect(await reloaded.load(indexPath)).toBe(false);
+    expect(reloaded.size).toBe(0);
+  });
+});
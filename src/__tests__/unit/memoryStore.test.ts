@@ -0,0 +1,114 @@
+/**
+ * Unit Tests for Memory Store backends
+ * Tests the local directory store and mirroring Greenfield writes to a replica
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { LocalMemoryStore, MirroredMemoryStore, hasGreenfieldKey } from '../../blockchain/memoryStore';
+import type { MemoryStore } from '../../blockchain/memoryStore';
+
+// Mock dependencies
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+function fakeRemote(): jest.Mocked<MemoryStore> & { objects: Map<string, string> } {
+  const objects = new Map<string, string>();
+  return {
+    objects,
+    backend: 'greenfield',
+    bucket: 'memories',
+    isAvailable: jest.fn(() => true),
+    ensureReady: jest.fn(async () => undefined),
+    put: jest.fn(async (name: string, content: string) => { objects.set(name, content); }),
+    get: jest.fn(async (name: string) => objects.get(name) ?? null),
+    list: jest.fn(async () => Array.from(objects.keys())),
+    delete: jest.fn(async (name: string) => objects.delete(name)),
+  } as any;
+}
+
+let baseDir: string;
+
+beforeEach(async () => {
+  baseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-store-'));
+});
+
+afterEach(async () => {
+  await fs.rm(baseDir, { recursive: true, force: true });
+});
+
+describe('LocalMemoryStore', () => {
+  test('should store, list and delete objects per bucket', async () => {
+    const memories = new LocalMemoryStore('memories', baseDir);
+    const bets = new LocalMemoryStore('memories-polymarket', baseDir);
+
+    await memories.put('trade_memory_1.json', '{"id":1}');
+    await memories.put('trade_memory_1.json', '{"id":2}');
+    await bets.put('polymarket_bet_a.json', '{}');
+
+    expect(await memories.get('trade_memory_1.json')).toBe('{"id":2}');
+    expect(await memories.list()).toEqual(['trade_memory_1.json']);
+    expect(await memories.get('missing.json')).toBeNull();
+
+    expect(await memories.delete('trade_memory_1.json')).toBe(true);
+    expect(await memories.delete('trade_memory_1.json')).toBe(false);
+    expect(await memories.list()).toEqual([]);
+    expect(await bets.list()).toEqual(['polymarket_bet_a.json']);
+  });
+
+  test('should refuse object names outside the bucket', async () => {
+    const store = new LocalMemoryStore('memories', baseDir);
+    await expect(store.put('../escape.json', '{}')).rejects.toThrow('Invalid object name');
+  });
+});
+
+describe('MirroredMemoryStore', () => {
+  test('should serve reads from the replica and backfill it from the primary', async () => {
+    const remote = fakeRemote();
+    const replica = new LocalMemoryStore('memories', baseDir);
+    const store = new MirroredMemoryStore(remote, replica);
+
+    await store.put('a.json', '{"a":1}');
+    expect(await replica.get('a.json')).toBe('{"a":1}');
+    expect(await store.get('a.json')).toBe('{"a":1}');
+    expect(remote.get).not.toHaveBeenCalled();
+
+    // Written before the replica existed
+    remote.objects.set('b.json', '{"b":1}');
+    expect(await store.get('b.json')).toBe('{"b":1}');
+    expect(await replica.get('b.json')).toBe('{"b":1}');
+
+    await store.delete('a.json');
+    expect(await replica.get('a.json')).toBeNull();
+  });
+
+  test('should not fail primary writes when the replica fails', async () => {
+    const remote = fakeRemote();
+    const replica = fakeRemote();
+    replica.put.mockRejectedValue(new Error('disk full'));
+
+    await expect(new MirroredMemoryStore(remote, replica).put('a.json', '{}')).resolves.toBeUndefined();
+    expect(remote.objects.has('a.json')).toBe(true);
+
+    // Primary failures still surface
+    remote.put.mockRejectedValue(new Error('out of gas'));
+    await expect(new MirroredMemoryStore(remote, replica).put('b.json', '{}')).rejects.toThrow('out of gas');
+  });
+});
+
+describe('hasGreenfieldKey', () => {
+  test('should ignore placeholder and malformed keys', () => {
+    expect(hasGreenfieldKey('')).toBe(false);
+    expect(hasGreenfieldKey('your_wallet_private_key_here')).toBe(false);
+    expect(hasGreenfieldKey('abcdef0123456789abcdef0123456789')).toBe(false);
+    expect(hasGreenfieldKey(`0x${'1'.repeat(64)}`)).toBe(true);
+  });
+});
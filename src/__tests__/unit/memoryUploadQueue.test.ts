@@ -0,0 +1,75 @@
+/**
+ * Unit Tests for Memory Upload Queue
+ * Tests write-ahead log replay, retry backoff and dead-lettering
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { MemoryUploadQueue } from '../../blockchain/memoryUploadQueue';
+import type { ImmortalMemory } from '../../types/unifiedMemory';
+
+// Mock dependencies
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const RETRY = { retryAttempts: 3, retryDelay: 1000 };
+
+function memory(id: string): ImmortalMemory {
+  return { id, platform: 'pancakeswap', storage: { greenfieldObjectName: `memory-${id}.json` } } as ImmortalMemory;
+}
+
+describe('MemoryUploadQueue', () => {
+  let dir: string;
+  let walPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-wal-'));
+    walPath = path.join(dir, 'wal.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should replay queued memories after a restart', async () => {
+    const queue = new MemoryUploadQueue(walPath, RETRY);
+    await queue.enqueue(memory('a'), 1000);
+    await queue.enqueue(memory('b'), 2000);
+    await queue.markUploaded('a');
+
+    // Simulate a crash mid-append
+    await fs.appendFile(walPath, '{"op":"enqueue","entry":{"mem');
+
+    const restarted = new MemoryUploadQueue(walPath, RETRY);
+    expect(restarted.list().map(entry => entry.memory.id)).toEqual(['b']);
+    expect(restarted.stats(5000)).toMatchObject({ queueDepth: 1, oldestPendingAgeMs: 3000, deadLetters: 0 });
+  });
+
+  test('should back off between attempts and dead-letter after the last one', async () => {
+    const queue = new MemoryUploadQueue(walPath, RETRY);
+    await queue.enqueue(memory('a'), 0);
+
+    expect(await queue.markFailed('a', 'timeout', 0)).toBe('retry');
+    expect(queue.due(10, 999)).toEqual([]);
+    expect(queue.due(10, 1000)).toHaveLength(1);
+
+    expect(await queue.markFailed('a', 'timeout', 1000)).toBe('retry');
+    expect(queue.stats(1000).nextRetryAt).toBe(3000);
+
+    expect(await queue.markFailed('a', 'bucket missing', 3000)).toBe('dead');
+    expect(queue.stats(3000)).toMatchObject({ queueDepth: 0, deadLetters: 1, nextRetryAt: null });
+
+    // Dead letters survive a restart too
+    const [dead] = new MemoryUploadQueue(walPath, RETRY).deadLetters();
+    expect(dead).toMatchObject({ attempts: 3, lastError: 'bucket missing', deadAt: 3000 });
+    expect(dead?.memory.id).toBe('a');
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Unit Tests for Post-trade MEV Forensics
+ * Tests sandwich / front-run / back-run classification, value extracted from pool prices,
+ * and loss aggregation per token, venue and hour
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import {
+  MevForensics,
+  adverseMoveFraction,
+  classifySwaps,
+  quoteShortfall,
+  type ForensicsChain,
+  type PoolSwap,
+} from '../../mev/mevForensics';
+
+// Mock dependencies
+jest.mock('../../utils/configStorage', () => ({
+  saveConfig: jest.fn(async () => undefined),
+  loadConfig: jest.fn(async () => null),
+}));
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const US = '0x00000000000000000000000000000000000000a1';
+const BOT = '0x00000000000000000000000000000000000000b0';
+const OTHER = '0x00000000000000000000000000000000000000c0';
+const TOKEN = '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82';
+const WBNB = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
+const USDT = '0x55d398326f99059fF775485246999027B3197955';
+const POOL = '0x00000000000000000000000000000000000000dd';
+const HOP_POOL = '0x00000000000000000000000000000000000000ee'; // token0 = USDT, token1 = WBNB
+const Q96 = 2n ** 96n;
+const E18 = 10n ** 18n;
+
+const swap = (txIndex: number, from: string, zeroForOne: boolean, sqrtPriceX96?: bigint): PoolSwap => ({
+  txHash: `0x${txIndex}`,
+  txIndex,
+  from,
+  zeroForOne,
+  amount0: zeroForOne ? 1n : -1n,
+  amount1: zeroForOne ? -1n : 1n,
+  sqrtPriceX96,
+});
+
+describe('classifySwaps', () => {
+  const ours = swap(4, US, false);
+
+  test('should find a sandwich by the same address on both sides', () => {
+    const result = classifySwaps(ours, [swap(1, OTHER, false), swap(3, BOT, false), ours, swap(5, OTHER, true), swap(7, BOT, true)]);
+    expect(result).toMatchObject({ kind: 'sandwich', attacker: BOT, frontRun: { txIndex: 3 }, backRun: { txIndex: 7 } });
+  });
+
+  test('should only call adjacent one-sided swaps front- or back-runs', () => {
+    expect(classifySwaps(ours, [swap(3, BOT, false), ours]).kind).toBe('front-run');
+    expect(classifySwaps(ours, [ours, swap(5, BOT, true)]).kind).toBe('back-run');
+    expect(classifySwaps(ours, [swap(1, BOT, false), ours, swap(9, OTHER, true)]).kind).toBe('none');
+    expect(classifySwaps(ours, [swap(3, US, false), ours, swap(5, US, true)]).kind).toBe('none'); // our own swaps
+  });
+});
+
+describe('pricing helpers', () => {
+  test('should measure the adverse move for either direction', () => {
+    // oneForZero pays token1: a 1% higher sqrt price costs 1 - 1/1.0201 of the output
+    expect(adverseMoveFraction(false, 100n * Q96, 101n * Q96)).toBeCloseTo(1 - 1 / 1.0201, 6);
+    expect(adverseMoveFraction(true, 100n * Q96, 99n * Q96)).toBeCloseTo(1 - 0.9801, 6);
+    expect(adverseMoveFraction(true, 100n * Q96, 101n * Q96)).toBe(0); // moved in our favour
+  });
+
+  test('should express the quote shortfall in BNB for both sides', () => {
+    expect(quoteShortfall('buy', 2, 1000, 990)).toEqual({ percent: 1, bnb: 0.02 });
+    expect(quoteShortfall('sell', 1, 1, 0.97)).toEqual({ percent: expect.closeTo(3), bnb: expect.closeTo(0.03) });
+  });
+});
+
+describe('MevForensics', () => {
+  const swapEvent = new ethers.Interface([
+    'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint128 protocolFeesToken0, uint128 protocolFeesToken1)',
+  ]);
+  const poolIface = new ethers.Interface([
+    'function token0() view returns (address)',
+    'function token1() view returns (address)',
+    'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint32 feeProtocol, bool unlocked)',
+  ]);
+
+  // token0 = TOKEN, token1 = WBNB: buys pay WBNB in (amount1 > 0) and push the sqrt price up
+  function log(txIndex: number, amount0: bigint, amount1: bigint, sqrtPriceX96: bigint, address = POOL) {
+    const { topics, data } = swapEvent.encodeEventLog('Swap', [BOT, BOT, amount0, amount1, sqrtPriceX96, E18, 0, 0, 0]);
+    return { address, topics, data, transactionHash: `0x${txIndex}`, transactionIndex: txIndex, blockNumber: 500 };
+  }
+
+  function chain(logs: ReturnType<typeof log>[], ourIndex = 4): ForensicsChain & { call: jest.Mock<any> } {
+    const senders: Record<string, string> = { '0x3': BOT, '0x4': US, '0x5': BOT, '0x6': OTHER };
+    return {
+      getTransactionReceipt: async hash => ({
+        hash,
+        from: US,
+        index: ourIndex,
+        blockNumber: 500,
+        logs: logs.filter(entry => entry.transactionIndex === ourIndex),
+      }) as unknown as ethers.TransactionReceipt,
+      getTransaction: async hash => ({ from: senders[hash]! }),
+      getBlock: async () => ({ timestamp: Date.UTC(2026, 0, 1, 14, 30) / 1000 }),
+      getLogs: async filter => logs.filter(entry => entry.address === filter.address) as unknown as ethers.Log[],
+      call: jest.fn(async (tx: { to: string; data: string; blockTag?: number }) => {
+        const method = poolIface.parseTransaction({ data: tx.data })?.name;
+        if (method === 'token0') return poolIface.encodeFunctionResult('token0', [tx.to === HOP_POOL ? USDT : TOKEN]);
+        if (method === 'token1') return poolIface.encodeFunctionResult('token1', [WBNB]);
+        if (method === 'slot0') return poolIface.encodeFunctionResult('slot0', [100n * Q96, 0, 0, 0, 0, 0, true]);
+        return ethers.AbiCoder.defaultAbiCoder().encode(['uint8'], [18]); // decimals()
+      }),
+    };
+  }
+
+  let forensics: MevForensics;
+  const buy = { txHash: '0x4', tokenAddress: TOKEN, action: 'buy' as const, notionalBNB: 1, quotedOut: 1000 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should report a sandwich with the value extracted by the front-run', async () => {
+    const fake = chain([
+      log(3, -500n * E18, 5n * E18, 101n * Q96),
+      log(4, -990n * E18, E18, 102n * Q96),
+      log(5, 500n * E18, -5n * E18, 100n * Q96),
+    ]);
+    forensics = new MevForensics(fake, 'mev-forensics-test', WBNB);
+
+    const report = await forensics.analyzeTrade(buy);
+
+    expect(report).toMatchObject({
+      kind: 'sandwich',
+      attacker: BOT,
+      venue: 'pancakeswap-v3',
+      pool: POOL,
+      actualOut: 990,
+      shortfallPercent: expect.closeTo(1),
+      frontRunTx: '0x3',
+      backRunTx: '0x5',
+      hourUtc: 14,
+    });
+    expect(report!.valueExtractedBNB).toBeCloseTo(1 - 1 / 1.0201, 6);
+    // Price before the front-run comes from the previous block
+    expect(fake.call).toHaveBeenCalledWith(expect.objectContaining({ blockTag: 499 }));
+  });
+
+  test('should report a clean fill and aggregate losses per token, venue and hour', async () => {
+    const blockLogs = [log(4, -1000n * E18, E18, 101n * Q96), log(6, -1n, 1n, 101n * Q96)];
+    forensics = new MevForensics(chain(blockLogs), 'mev-forensics-test', WBNB);
+    expect((await forensics.analyzeTrade(buy))!.kind).toBe('none');
+
+    blockLogs.splice(0, blockLogs.length, log(3, -500n * E18, 5n * E18, 101n * Q96), log(4, -990n * E18, E18, 102n * Q96), log(5, 1n, -1n, 100n * Q96));
+    await forensics.analyzeTrade(buy);
+    await forensics.analyzeTrade(buy);
+
+    const summary = forensics.summary();
+    expect(summary.total).toMatchObject({ trades: 3, attacked: 2, sandwiches: 2 });
+    expect(summary.byToken[TOKEN.toLowerCase()]!.lossPercent).toBeCloseTo((2 * (1 - 1 / 1.0201) / 3) * 100, 4);
+    expect(Object.keys(summary.byVenue)).toEqual(['pancakeswap-v3']);
+    expect(summary.byHour[14]!.trades).toBe(3);
+
+    expect(forensics.riskFor(TOKEN, 3).attackRate).toBeCloseTo(2 / 3);
+    expect(forensics.riskFor(WBNB, 3).attackRate).toBe(0); // nothing on that token or hour
+  });
+
+  test('should judge a routed buy on the leg that pays out the token', async () => {
+    const fake = chain([
+      log(3, -500n * E18, 5n * E18, 101n * Q96),
+      log(4, -600n * E18, E18, 90n * Q96, HOP_POOL), // WBNB -> USDT first hop, on another pool
+      log(4, -990n * E18, 600n * E18, 102n * Q96), // USDT -> TOKEN last hop
+      log(5, 500n * E18, -5n * E18, 100n * Q96),
+    ]);
+    forensics = new MevForensics(fake, 'mev-forensics-test', WBNB);
+
+    const report = await forensics.analyzeTrade(buy);
+
+    expect(report).toMatchObject({ kind: 'sandwich', pool: POOL, actualOut: 990, frontRunTx: '0x3' });
+  });
+
+  test('should return null when the transaction has no swap', async () => {
+    forensics = new MevForensics(chain([]), 'mev-forensics-test', WBNB);
+    expect(await forensics.analyzeTrade(buy)).toBeNull();
+  });
+});
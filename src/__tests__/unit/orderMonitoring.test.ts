@@ -0,0 +1,123 @@
+/**
+ * Unit Tests for Order Monitoring Service
+ * Tests persisted conditional orders and fills through TradeExecutor
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import OrderMonitoringService from '../../services/orderMonitoringService';
+import type { OrderTradeExecutor } from '../../services/orderMonitoringService';
+import { FileOrderStore } from '../../db/repositories/orderRepository';
+import webSocketManager from '../../services/webSocketManager';
+
+// Mock dependencies
+jest.mock('../../blockchain/tradeExecutor');
+jest.mock('../../services/metricsService', () => ({
+  metricsService: {
+    trackOrder: jest.fn(),
+    trackOrderExecution: jest.fn(),
+    trackOrderCancellation: jest.fn(),
+    updateActiveOrders: jest.fn(),
+  },
+}));
+jest.mock('../../services/webSocketManager', () => ({
+  __esModule: true,
+  default: {
+    sendOrderExecutedNotification: jest.fn(),
+    sendOrderUpdate: jest.fn(),
+    sendErrorNotification: jest.fn(),
+  },
+}));
+jest.mock('../../utils/configStorage', () => {
+  const files = new Map<string, string>();
+  return {
+    saveConfig: jest.fn(async (key: string, data: unknown) => { files.set(key, JSON.stringify(data)); }),
+    loadConfig: jest.fn(async (key: string) => (files.has(key) ? JSON.parse(files.get(key)!) : null)),
+  };
+});
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const TOKEN = '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82';
+
+describe('OrderMonitoringService', () => {
+  let executor: jest.Mocked<OrderTradeExecutor>;
+  let service: OrderMonitoringService;
+  let storeKey = 0;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    executor = {
+      executeTrade: jest.fn(async () => ({ success: true, txHash: '0xfill', amountIn: '0', amountOut: '0', actualPrice: 0.004 })),
+      getTradeQuote: jest.fn(async () => ({ pricePerToken: 0.004 })),
+    } as unknown as jest.Mocked<OrderTradeExecutor>;
+    service = new OrderMonitoringService(new FileOrderStore(`orders-test-${storeKey++}`), executor);
+  });
+
+  test('should persist conditional orders and fill them once triggered', async () => {
+    const order = await service.createOrder({ userId: 'u1', tokenId: TOKEN, side: 'BUY', type: 'LIMIT', amount: 0.05, price: 2 });
+    expect(order.status).toBe('OPEN');
+
+    service.updatePrice(TOKEN, 2.1);
+    await (service as any).checkOrders();
+    expect(executor.executeTrade).not.toHaveBeenCalled();
+
+    service.updatePrice(TOKEN, 1.95);
+    await (service as any).checkOrders();
+
+    expect(executor.executeTrade).toHaveBeenCalledWith(
+      expect.objectContaining({ tokenAddress: TOKEN, action: 'buy', amountBNB: 0.05 })
+    );
+    expect(await service.getOrder(order.id)).toMatchObject({
+      status: 'FILLED',
+      filledAmount: 0.05,
+      remainingAmount: 0,
+      avgFillPrice: 1.95,
+      txHash: '0xfill',
+    });
+    expect(webSocketManager.sendOrderExecutedNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ orderId: order.id, txHash: '0xfill' })
+    );
+  });
+
+  test('should size sells in tokens and reject orders whose swap fails', async () => {
+    executor.executeTrade.mockResolvedValueOnce({ success: false, error: 'Slippage too high', amountIn: '0', amountOut: '0', actualPrice: 0 });
+    const order = await service.createOrder({ userId: 'u1', tokenId: TOKEN, side: 'SELL', type: 'STOP_LOSS', amount: 10, stopLoss: 1.5 });
+
+    service.updatePrice(TOKEN, 1.4);
+    await (service as any).checkOrders();
+
+    expect(executor.executeTrade).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'sell', tokenAmount: 10, amountBNB: 0.04 })
+    );
+    expect(await service.getOrder(order.id)).toMatchObject({ status: 'REJECTED', error: 'Slippage too high' });
+    expect(webSocketManager.sendErrorNotification).toHaveBeenCalled();
+
+    // Rejected orders are not retried
+    await (service as any).checkOrders();
+    expect(executor.executeTrade).toHaveBeenCalledTimes(1);
+  });
+
+  test('should only let the owner cancel an open order', async () => {
+    const order = await service.createOrder({ userId: 'u1', tokenId: TOKEN, side: 'SELL', type: 'TRAILING_STOP', amount: 10, trailingStop: 5 });
+
+    expect(await service.cancelOrder(order.id, 'u2')).toBe(false);
+    expect(await service.cancelOrder(order.id, 'u1')).toBe(true);
+    expect(await service.listOrders({ userId: 'u1', status: 'CANCELLED' })).toHaveLength(1);
+    expect(await service.getOrderStats('u1')).toEqual({ total: 1, open: 0, filled: 0, cancelled: 1 });
+  });
+
+  test('should reject orders without their trigger', async () => {
+    await expect(
+      service.createOrder({ userId: 'u1', tokenId: TOKEN, side: 'SELL', type: 'TAKE_PROFIT', amount: 10 })
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+    await expect(
+      service.createOrder({ userId: 'u1', tokenId: 'yes-token', side: 'BUY', type: 'MARKET', amount: 0.05 })
+    ).rejects.toMatchObject({ code: 'VALIDATION_ERROR' });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Unit Tests for Paper Trading Ledger
+ * Tests virtual balance accounting, fill records and persistence
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { PaperLedger } from '../../blockchain/paperLedger';
+import * as configStorage from '../../utils/configStorage';
+
+// Mock dependencies
+jest.mock('../../utils/configStorage', () => ({
+  saveConfig: jest.fn(async () => undefined),
+  loadConfig: jest.fn(async () => null),
+  deleteConfig: jest.fn(async () => undefined),
+}));
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const TOKEN = '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82';
+
+describe('PaperLedger', () => {
+  let ledger: PaperLedger;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ledger = new PaperLedger(1, 'paper-ledger-test');
+  });
+
+  test('should debit BNB and gas and credit tokens on buy', async () => {
+    const fill = await ledger.recordBuy({
+      tokenAddress: TOKEN,
+      amountBNB: 0.5,
+      amountTokens: 100,
+      gasBNB: 0.001,
+      quoteSource: 'pancakeswap-v3',
+    });
+
+    expect(ledger.getBNBBalance()).toBeCloseTo(0.499);
+    expect(ledger.getTokenBalance(TOKEN.toLowerCase())).toBe(100);
+    expect(fill.executionPrice).toBeCloseTo(0.005);
+    expect(fill.txHash).toMatch(/^paper-/);
+    expect(configStorage.saveConfig).toHaveBeenCalledWith('paper-ledger-test', expect.any(Object));
+  });
+
+  test('should credit BNB and clear the token balance on full sell', async () => {
+    await ledger.recordBuy({ tokenAddress: TOKEN, amountBNB: 0.5, amountTokens: 100, quoteSource: 'test' });
+    await ledger.recordSell({ tokenAddress: TOKEN, amountBNB: 0.6, amountTokens: 100, gasBNB: 0.001, quoteSource: 'test' });
+
+    expect(ledger.getTokenBalance(TOKEN)).toBe(0);
+    expect(ledger.getBNBBalance()).toBeCloseTo(1.099);
+    expect(ledger.getSummary().realizedPnLBNB).toBeCloseTo(0.099);
+    expect(ledger.getFills().map(f => f.side)).toEqual(['buy', 'sell']);
+  });
+
+  test('should reject buys larger than the virtual balance', async () => {
+    await expect(
+      ledger.recordBuy({ tokenAddress: TOKEN, amountBNB: 2, amountTokens: 100, quoteSource: 'test' })
+    ).rejects.toThrow('Insufficient paper balance');
+    expect(ledger.getBNBBalance()).toBe(1);
+  });
+
+  test('should reject selling tokens that are not held', async () => {
+    await expect(
+      ledger.recordSell({ tokenAddress: TOKEN, amountBNB: 1, amountTokens: 10, quoteSource: 'test' })
+    ).rejects.toThrow('Insufficient paper token balance');
+  });
+
+  test('should restore saved state on load', async () => {
+    (configStorage.loadConfig as jest.Mock<any>).mockResolvedValueOnce({
+      initialBalanceBNB: 1,
+      bnbBalance: 0.25,
+      tokens: { [TOKEN.toLowerCase()]: 42 },
+      fills: [],
+      startedAt: 1,
+      updatedAt: 2,
+    });
+
+    await ledger.load();
+
+    expect(ledger.getBNBBalance()).toBe(0.25);
+    expect(ledger.getTokenBalance(TOKEN)).toBe(42);
+  });
+
+  test('should let concurrent callers wait for the same restore', async () => {
+    (configStorage.loadConfig as jest.Mock<any>).mockResolvedValueOnce({
+      initialBalanceBNB: 1,
+      bnbBalance: 0.25,
+      tokens: {},
+      fills: [],
+      startedAt: 1,
+      updatedAt: 2,
+    });
+
+    const first = ledger.load();
+    await ledger.load(); // must not return before the saved state is in
+
+    expect(ledger.getBNBBalance()).toBe(0.25);
+    await first;
+    expect(configStorage.loadConfig).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Unit Tests for Portfolio Risk Engine
+ * Tests correlations, historical/parametric VaR and the VaR budget and concentration limits
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+import {
+  PortfolioRiskEngine,
+  alignReturns,
+  computeVaR,
+  correlation,
+  launchCohort,
+  normalQuantile,
+  parseSectorMap,
+  toReturns,
+} from '../../ai/portfolioRisk';
+import type { RiskDataSource } from '../../ai/portfolioRisk';
+import type { PricePoint } from '../../data/marketFetcher';
+
+// Mock dependencies
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const SWING = [0.1, -0.1, 0.1, -0.1, 0.1, -0.1, 0.1, -0.1, 0.1, -0.1];
+const MARCH_2025 = Date.UTC(2025, 2, 14);
+const HOUR = 3600_000;
+
+function pricesFrom(returns: number[], start = MARCH_2025): PricePoint[] {
+  const prices = [{ timestamp: start, price: 1 }];
+  for (const r of returns) {
+    const last = prices[prices.length - 1]!;
+    prices.push({ timestamp: last.timestamp + HOUR, price: last.price * (1 + r) });
+  }
+  return prices;
+}
+
+function source(histories: Record<string, PricePoint[]>, launches: Record<string, number> = {}): RiskDataSource {
+  return {
+    getPriceHistory: jest.fn(async (token: string) => histories[token] ?? []),
+    getTokenData: jest.fn(async (token: string) => ({ pairCreatedAt: launches[token] }) as any),
+  };
+}
+
+describe('return statistics', () => {
+  test('should measure co-movement between return series', () => {
+    const inverse = SWING.map(r => -r);
+
+    expect(toReturns(pricesFrom(SWING))[0]).toEqual({ timestamp: MARCH_2025 + HOUR, value: expect.closeTo(0.1) });
+    expect(correlation(SWING, SWING)).toBeCloseTo(1);
+    expect(correlation(SWING, inverse)).toBeCloseTo(-1);
+    // A flat series carries no information
+    expect(correlation(SWING, SWING.map(() => 0))).toBe(0);
+  });
+
+  test('should join returns on candle timestamps and treat missing candles as flat', () => {
+    const hourly = toReturns(pricesFrom([0.1, -0.1, 0.1]));
+    // No trades in the second hour: no candle, so the third hour carries the whole move
+    const sparse = toReturns([
+      { timestamp: MARCH_2025, price: 1 },
+      { timestamp: MARCH_2025 + HOUR, price: 1.2 },
+      { timestamp: MARCH_2025 + 3 * HOUR, price: 1.32 },
+    ]);
+    const late = toReturns(pricesFrom([0.05], MARCH_2025 + HOUR));
+
+    expect(alignReturns([hourly, sparse]).map(r => r.map(v => +v.toFixed(4)))).toEqual([[0.1, -0.1, 0.1], [0.2, 0, 0.1]]);
+    // Only intervals after every series has started
+    expect(alignReturns([hourly, late]).map(r => r.map(v => +v.toFixed(4)))).toEqual([[-0.1, 0.1], [0.05, 0]]);
+  });
+
+  test('should approximate normal quantiles', () => {
+    expect(normalQuantile(0.95)).toBeCloseTo(1.645, 2);
+    expect(normalQuantile(0.99)).toBeCloseTo(2.326, 2);
+    expect(normalQuantile(0.05)).toBeCloseTo(-1.645, 2);
+  });
+
+  test('should compute VaR and expected shortfall and net out hedges', () => {
+    const single = computeVaR([1], [SWING], 0.95);
+    expect(single.historical).toBeCloseTo(0.1);
+    expect(single.expectedShortfall).toBeCloseTo(0.1);
+    expect(single.parametric).toBeCloseTo(1.645 * Math.sqrt(0.1 / 9), 2);
+    expect(single.binding).toBe(Math.max(single.historical, single.parametric));
+
+    const hedged = computeVaR([1, 1], [SWING, SWING.map(r => -r)], 0.95);
+    expect(hedged.historical).toBeCloseTo(0);
+    expect(hedged.parametric).toBeCloseTo(0);
+
+    // Too little history says nothing about risk
+    expect(computeVaR([1], [[0.1, -0.1]], 0.95).binding).toBe(0);
+  });
+
+  test('should parse sector tags and launch cohorts', () => {
+    expect(parseSectorMap('0xAAA=defi, 0xbbb = meme,broken').get('0xaaa')).toBe('defi');
+    expect(parseSectorMap('0xAAA=defi, 0xbbb = meme,broken').size).toBe(2);
+    expect(launchCohort(MARCH_2025)).toBe('2025-03');
+    expect(launchCohort(undefined)).toBe('unclassified');
+  });
+});
+
+describe('PortfolioRiskEngine', () => {
+  const limits = { confidence: 0.95, varBudgetPercent: 5, maxSectorPercent: 40, maxCohortPercent: 20, defaultVolatilityPercent: 10 };
+
+  test('should report correlations and VaR against the budget', async () => {
+    const engine = new PortfolioRiskEngine(
+      source({ A: pricesFrom(SWING), B: pricesFrom(SWING) }),
+      limits
+    );
+
+    const report = await engine.assess(
+      [{ tokenAddress: 'A', symbol: 'AAA', value: 1 }, { tokenAddress: 'B', symbol: 'BBB', value: 1 }, { tokenAddress: 'N', symbol: 'NEW', value: 0.5 }],
+      7.5
+    );
+
+    expect(report.portfolioValue).toBe(10);
+    expect(report.varBudget).toBeCloseTo(0.5);
+    expect(report.correlations.symbols).toEqual(['AAA', 'BBB']);
+    expect(report.correlations.matrix[0]![1]).toBeCloseTo(1);
+    // 0.2 measured plus NEW charged 10% volatility: 0.5 * 0.1 * 1.645
+    expect(report.var.historical).toBeCloseTo(0.2 + 0.0822, 3);
+    expect(report.missingHistory).toEqual(['NEW']);
+    expect(report.volatility.NEW).toBe(0.1);
+    expect(report.breaches).toEqual([]);
+  });
+
+  test('should count tokens without history against the VaR budget', async () => {
+    const engine = new PortfolioRiskEngine(source({ A: pricesFrom(SWING) }), limits);
+    const holdings = [{ tokenAddress: 'A', symbol: 'AAA', value: 1 }];
+
+    const launch = await engine.checkTrade(holdings, 10, { tokenAddress: 'N', symbol: 'NEW', value: 3 });
+    expect(launch.approved).toBe(false);
+    expect(launch.reason).toContain('Portfolio VaR');
+    expect(launch.after.missingHistory).toEqual(['NEW']);
+  });
+
+  test('should reject trades that push VaR over budget but allow hedges', async () => {
+    const engine = new PortfolioRiskEngine(
+      source({ A: pricesFrom(SWING), B: pricesFrom(SWING), C: pricesFrom(SWING.map(r => -r)) }),
+      limits
+    );
+    const holdings = [{ tokenAddress: 'A', symbol: 'AAA', value: 1 }];
+
+    const correlated = await engine.checkTrade(holdings, 10, { tokenAddress: 'B', symbol: 'BBB', value: 3 });
+    expect(correlated.approved).toBe(false);
+    expect(correlated.reason).toContain('Portfolio VaR');
+    expect(correlated.after.var.binding).toBeGreaterThan(correlated.after.varBudget);
+
+    const hedge = await engine.checkTrade(holdings, 10, { tokenAddress: 'C', symbol: 'CCC', value: 1 });
+    expect(hedge.approved).toBe(true);
+    expect(hedge.after.var.binding).toBeLessThan(hedge.before.var.binding);
+  });
+
+  test('should cap concentration in a sector or launch cohort', async () => {
+    // No price history anywhere: leave VaR out of it
+    const engine = new PortfolioRiskEngine(source({}, { A: MARCH_2025, B: MARCH_2025 }), { ...limits, defaultVolatilityPercent: 0 });
+
+    const cohort = await engine.checkTrade(
+      [{ tokenAddress: 'A', symbol: 'AAA', value: 1 }],
+      10,
+      { tokenAddress: 'B', symbol: 'BBB', value: 2 }
+    );
+    expect(cohort.approved).toBe(false);
+    expect(cohort.reason).toContain('Launch cohort 2025-03');
+
+    const sector = await engine.checkTrade(
+      [{ tokenAddress: 'X', symbol: 'XXX', value: 3, sector: 'meme' }],
+      7,
+      { tokenAddress: 'Y', symbol: 'YYY', value: 2, sector: 'meme' }
+    );
+    expect(sector.approved).toBe(false);
+    expect(sector.reason).toContain('Sector meme');
+
+    // Tokens without a sector or launch date are not bucketed together
+    const unknown = await engine.checkTrade(
+      [{ tokenAddress: 'X', symbol: 'XXX', value: 3 }],
+      7,
+      { tokenAddress: 'Y', symbol: 'YYY', value: 2 }
+    );
+    expect(unknown.approved).toBe(true);
+  });
+});
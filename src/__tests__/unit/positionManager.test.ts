@@ -0,0 +1,147 @@
+/**
+ * Unit Tests for Position Manager persistence
+ * Tests restoring positions from the store, reconciling with on-chain balances and booking partial sells
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { PositionManager, reconcilePosition } from '../../services/positionManager';
+import type { Position } from '../../services/positionManager';
+import type { PositionStore } from '../../db/repositories/positionRepository';
+import * as tradeExecutor from '../../blockchain/tradeExecutor';
+import * as marketFetcher from '../../data/marketFetcher';
+
+// Mock dependencies
+jest.mock('../../blockchain/tradeExecutor');
+jest.mock('../../data/marketFetcher');
+jest.mock('../../db/repositories/positionRepository', () => ({
+  createPositionStore: jest.fn(),
+}));
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const TOKEN = '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82';
+
+function position(overrides: Partial<Position> = {}): Position {
+  return {
+    id: '0xabc',
+    token: TOKEN,
+    symbol: 'CAKE',
+    entryPrice: 2,
+    currentPrice: 2,
+    amount: 0.1,
+    tokenAmount: 100,
+    strategy: 'momentum',
+    confidence: 0.8,
+    timestamp: 1700000000000,
+    status: 'open',
+    ...overrides,
+  };
+}
+
+function memoryStore(open: Position[]): jest.Mocked<PositionStore> {
+  return {
+    backend: 'file',
+    loadOpen: jest.fn(async () => open),
+    loadClosed: jest.fn(async () => []),
+    save: jest.fn(async () => undefined),
+    clear: jest.fn(async () => undefined),
+  } as unknown as jest.Mocked<PositionStore>;
+}
+
+describe('PositionManager.restore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (marketFetcher.getTokenPrice as jest.Mock<any>).mockResolvedValue(2.1);
+  });
+
+  test('should recover positions still held on-chain', async () => {
+    (tradeExecutor.getTokenBalance as jest.Mock<any>).mockResolvedValue(100);
+    const store = memoryStore([position()]);
+    const manager = new PositionManager(store);
+
+    const result = await manager.restore();
+
+    expect(result).toEqual({ recovered: 1, closed: 0 });
+    expect(await manager.getActivePositions()).toHaveLength(1);
+  });
+
+  test('should close positions whose tokens are gone and persist the change', async () => {
+    (tradeExecutor.getTokenBalance as jest.Mock<any>).mockResolvedValue(0);
+    const store = memoryStore([position()]);
+    const manager = new PositionManager(store);
+
+    const result = await manager.restore();
+
+    expect(result).toEqual({ recovered: 0, closed: 1 });
+    expect(store.save).toHaveBeenCalledWith(expect.objectContaining({ id: '0xabc', status: 'closed' }));
+    expect(await manager.getClosedPositions()).toHaveLength(1);
+  });
+
+  test('should run the stop-loss check on recovered positions and sell only their tokens', async () => {
+    // The wallet holds more of the token than this position bought
+    (tradeExecutor.getTokenBalance as jest.Mock<any>).mockResolvedValue(250);
+    (marketFetcher.getTokenPrice as jest.Mock<any>).mockResolvedValue(1);
+    (tradeExecutor.executeTrade as jest.Mock<any>).mockResolvedValue({
+      success: true,
+      txHash: '0xsell',
+      amountIn: '100',
+      amountOut: '0.05',
+      actualPrice: 0.0005,
+    });
+    const store = memoryStore([position()]);
+    const manager = new PositionManager(store);
+
+    await manager.restore();
+
+    expect(tradeExecutor.executeTrade).toHaveBeenCalledWith(
+      expect.objectContaining({ tokenAddress: TOKEN, action: 'sell', tokenAmount: 100, riskReducing: true })
+    );
+    expect(store.save).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: 'stop-loss', exitTxHash: '0xsell' })
+    );
+  });
+});
+
+describe('PositionManager.reducePosition', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (marketFetcher.getTokenPrice as jest.Mock<any>).mockResolvedValue(2.1);
+    (tradeExecutor.getTokenBalance as jest.Mock<any>).mockResolvedValue(100);
+  });
+
+  test('should keep the position open until all of its tokens are sold', async () => {
+    const store = memoryStore([position()]);
+    const manager = new PositionManager(store);
+    await manager.restore();
+
+    await manager.reducePosition('0xabc', 40, 3, '0xpart');
+    const reduced = await manager.getPosition('0xabc');
+    expect(reduced).toMatchObject({ status: 'open', tokenAmount: 60 });
+    expect(reduced!.amount).toBeCloseTo(0.06);
+    expect(reduced!.realizedProfitLossAmount).toBeCloseTo(0.02);
+
+    await manager.reducePosition('0xabc', 60, 3, '0xrest');
+    expect(await manager.getPosition('0xabc')).toBeUndefined();
+    expect(store.save).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'closed', exitTxHash: '0xrest' }));
+  });
+});
+
+describe('reconcilePosition', () => {
+  test('should scale down partially sold positions', () => {
+    const result = reconcilePosition(position(), 40);
+    expect(result.status).toBe('open');
+    expect(result.tokenAmount).toBe(40);
+    expect(result.amount).toBeCloseTo(0.04);
+  });
+
+  test('should leave fully held positions untouched', () => {
+    const original = position();
+    expect(reconcilePosition(original, 150)).toBe(original);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Unit Tests for Pool-based Price Impact
+ * Tests V2/V3 mid prices, swap simulation, multi-hop impact and pool state reads
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import {
+  PoolStateReader,
+  legImpact,
+  poolMidPrice,
+  simulateSwap,
+  V2_FACTORIES,
+  type V2PoolState,
+  type V3PoolState,
+} from '../../dex/priceImpact';
+import type { Multicall, CallResult } from '../../utils/multicall';
+import type { RouteLeg } from '../../dex/routing';
+
+// Mock dependencies
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const A = '0x1000000000000000000000000000000000000000';
+const B = '0x2000000000000000000000000000000000000000';
+const C = '0x3000000000000000000000000000000000000000';
+const E18 = 10n ** 18n;
+
+function v2(token0: string, reserve0: bigint, reserve1: bigint): V2PoolState {
+  return { protocol: 'v2', address: '0xpair', token0, reserve0, reserve1, feeBps: 25 };
+}
+
+describe('V2 pools', () => {
+  test('should price both directions from reserves', () => {
+    const pool = v2(A, 1000n * E18, 2000n * E18);
+    expect(poolMidPrice(pool, A)).toBeCloseTo(2);
+    expect(poolMidPrice(pool, B)).toBeCloseTo(0.5);
+  });
+
+  test('should report impact that grows with size relative to reserves', () => {
+    const pool = v2(A, 1000n * E18, 1000n * E18);
+    const small = legImpact([A, B], [pool], E18);
+    const large = legImpact([A, B], [pool], 100n * E18);
+
+    expect(small.priceImpactPercent).toBeLessThan(0.15);
+    // Constant product: impact = x(1-f) / (R + x(1-f)) ≈ 9.07% for 10% of reserves
+    expect(large.priceImpactPercent).toBeCloseTo(9.07, 1);
+    expect(large.feePercent).toBeCloseTo(0.25);
+  });
+
+  test('should use the quoted output when one is given', () => {
+    const pool = v2(A, 1000n * E18, 1000n * E18);
+    const impact = legImpact([A, B], [pool], 10n * E18, 9n * E18);
+    expect(impact.executionPrice).toBeCloseTo(0.9);
+    expect(impact.priceImpactPercent).toBeCloseTo((1 - 0.9 / 0.9975) * 100, 6);
+  });
+
+  test('should chain mid prices and fees across hops', () => {
+    const pools = [v2(A, 1000n * E18, 2000n * E18), v2(B, 1000n * E18, 3000n * E18)];
+    const impact = legImpact([A, B, C], pools, E18 / 1000n);
+
+    expect(impact.midPrice).toBeCloseTo(6);
+    expect(impact.feePercent).toBeCloseTo((1 - 0.9975 ** 2) * 100);
+    expect(impact.priceImpactPercent).toBeLessThan(0.01);
+  });
+});
+
+describe('V3 pools', () => {
+  // price 4 (token1 per token0) -> sqrtPrice 2
+  const pool: V3PoolState = {
+    protocol: 'v3',
+    address: '0xpool',
+    token0: A,
+    sqrtPriceX96: 2n * 2n ** 96n,
+    liquidity: 1000n * E18,
+    fee: 500,
+  };
+
+  test('should price from slot0', () => {
+    expect(poolMidPrice(pool, A)).toBeCloseTo(4);
+    expect(poolMidPrice(pool, B)).toBeCloseTo(0.25);
+  });
+
+  test('should simulate swaps in both directions within the active range', () => {
+    const out0 = Number(simulateSwap(pool, A, E18)) / 1e18;
+    const out1 = Number(simulateSwap(pool, B, 4n * E18)) / 1e18;
+    expect(out0).toBeGreaterThan(3.98 * 0.9995 - 0.01);
+    expect(out0).toBeLessThan(4 * 0.9995);
+    expect(out1).toBeGreaterThan(0.99 * 0.9995);
+    expect(out1).toBeLessThan(0.9995);
+  });
+});
+
+describe('PoolStateReader', () => {
+  const iface = new ethers.Interface([
+    'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint32 feeProtocol, bool unlocked)',
+    'function liquidity() view returns (uint128)',
+  ]);
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const PAIR = '0x00000000000000000000000000000000000000aa';
+
+  function client(calls: CallResult[][], reserves = [{ pairAddress: PAIR, reserve0: 1000n * E18, reserve1: 500n * E18, blockTimestampLast: 0, success: true }]) {
+    const call = jest.fn(async () => calls.shift()!);
+    const getPoolReserves = jest.fn(async () => reserves);
+    return { call, getPoolReserves } as unknown as Multicall & { call: jest.Mock; getPoolReserves: jest.Mock };
+  }
+
+  const leg = (overrides: Partial<RouteLeg> = {}): RouteLeg => ({
+    dexName: 'pancakeswap',
+    protocol: 'v2',
+    path: [B, A],
+    amountIn: 10n * E18,
+    amountOut: 4n * E18,
+    gasEstimate: 0n,
+    ...overrides,
+  });
+
+  test('should resolve the pair once and read reserves with the sorted token0', async () => {
+    const fake = client([[{ success: true, returnData: coder.encode(['address'], [PAIR]) }]]);
+    const reader = new PoolStateReader(fake);
+
+    const pools = await reader.readLeg(leg());
+    expect(pools).toEqual([expect.objectContaining({ protocol: 'v2', token0: A, reserve0: 1000n * E18, feeBps: V2_FACTORIES.pancakeswap!.feeBps })]);
+
+    await reader.readLeg(leg());
+    expect(fake.call).toHaveBeenCalledTimes(1); // address cached
+    expect(fake.getPoolReserves).toHaveBeenCalledTimes(2);
+  });
+
+  test('should read slot0 and liquidity for V3 legs', async () => {
+    const fake = client([
+      [{ success: true, returnData: coder.encode(['address'], [PAIR]) }],
+      [
+        { success: true, returnData: iface.encodeFunctionResult('slot0', [2n ** 96n, 0, 0, 0, 0, 0, true]) },
+        { success: true, returnData: iface.encodeFunctionResult('liquidity', [123n]) },
+      ],
+    ]);
+    const pools = await new PoolStateReader(fake).readLeg(leg({ dexName: 'pancakeswapV3', protocol: 'v3', fees: [2500] }));
+
+    expect(pools).toEqual([expect.objectContaining({ protocol: 'v3', sqrtPriceX96: 2n ** 96n, liquidity: 123n, fee: 2500 })]);
+  });
+
+  test('should return null when a hop has no pool or the venue is unknown', async () => {
+    const fake = client([[{ success: true, returnData: coder.encode(['address'], [ethers.ZeroAddress]) }]]);
+    const reader = new PoolStateReader(fake);
+
+    expect(await reader.readLeg(leg())).toBeNull();
+    expect(await reader.measureLeg(leg({ dexName: 'customswap' }))).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for BSC Private Relays
+ * Tests endpoint parsing, single-tx and bundle submission, inclusion tracking and public fallback
+ * against the local mock relay
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import { PrivateRelayClient, parseRelayEndpoints, type RelayEndpoint } from '../../mev/privateRelay';
+import { MockPrivateRelay, MockRelayChain, mockRelayTransport, type MockRelayBehaviour } from '../../mev/mockRelay';
+
+// Mock dependencies
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const TX_A = '0x02f8aa01';
+const TX_B = '0x02f8aa02';
+
+function setup(behaviours: Record<string, [RelayEndpoint['kind'], MockRelayBehaviour]>, publicFallback = true) {
+  const chain = new MockRelayChain(100, true);
+  const relays = Object.entries(behaviours).map(([name, [kind, behaviour]]) =>
+    new MockPrivateRelay({ name, kind, url: `http://127.0.0.1/${name}` }, chain, behaviour)
+  );
+  const client = new PrivateRelayClient(
+    relays.map(relay => relay.endpoint),
+    chain,
+    { fallbackBlocks: 3, pollIntervalMs: 0, publicFallback },
+    mockRelayTransport(relays)
+  );
+  return { chain, relays, client };
+}
+
+describe('parseRelayEndpoints', () => {
+  test('should parse names, kinds and default to rpc', () => {
+    expect(parseRelayEndpoints('48club=bundle:https://puissant.example, https://rpc.example/?key=1')).toEqual([
+      { name: '48club', kind: 'bundle', url: 'https://puissant.example' },
+      { name: 'relay2', kind: 'rpc', url: 'https://rpc.example/?key=1' },
+    ]);
+    expect(parseRelayEndpoints('')).toEqual([]);
+    expect(() => parseRelayEndpoints('bad=bundle:ws://relay')).toThrow('Invalid relay URL');
+  });
+});
+
+describe('PrivateRelayClient', () => {
+  test('should send bundles to builders and raw transactions to private RPCs', async () => {
+    const { client, relays } = setup({ builder: ['bundle', 'include'], rpc: ['rpc', 'include'] });
+    const result = await client.submitTransaction(TX_A);
+
+    expect(result).toMatchObject({
+      status: 'included',
+      route: 'private',
+      hashes: [ethers.keccak256(TX_A)],
+      accepted: ['builder', 'rpc'],
+      submittedBlock: 101,
+      includedBlock: 102,
+    });
+    expect(relays[0]!.received[0]).toEqual({ method: 'eth_sendBundle', params: [{ txs: [TX_A], maxBlockNumber: 104 }] });
+    expect(relays[1]!.received[0]).toEqual({ method: 'eth_sendRawTransaction', params: [TX_A] });
+  });
+
+  test('should land through the remaining relays when one rejects', async () => {
+    const { client } = setup({ down: ['bundle', 'reject'], up: ['bundle', 'include'] });
+    const result = await client.submitTransaction(TX_A);
+
+    expect(result.status).toBe('included');
+    expect(result.rejected).toEqual([{ relay: 'down', error: 'down relay error: bundle rejected' }]);
+    expect(client.stats().relays).toEqual([
+      { name: 'down', kind: 'bundle', submitted: 1, accepted: 0, rejected: 1 },
+      { name: 'up', kind: 'bundle', submitted: 1, accepted: 1, rejected: 0 },
+    ]);
+  });
+
+  test('should fall back to the public mempool once the block window passes', async () => {
+    const { client, chain } = setup({ builder: ['bundle', 'drop'] });
+    const broadcast = jest.spyOn(chain, 'broadcastTransaction');
+    const result = await client.submitTransaction(TX_A);
+
+    expect(result).toMatchObject({ status: 'included', route: 'public', accepted: ['builder'] });
+    expect(result.includedBlock).toBeGreaterThan(104);
+    expect(broadcast).toHaveBeenCalledWith(TX_A);
+    expect(client.stats()).toMatchObject({ included: 1, fallbacks: 1, failed: 0 });
+  });
+
+  test('should expire without broadcasting when the public fallback is off', async () => {
+    const { client, chain } = setup({ builder: ['bundle', 'drop'] }, false);
+    const result = await client.submitTransaction(TX_A);
+
+    expect(result).toMatchObject({ status: 'expired', route: 'private', error: 'not included within 3 blocks' });
+    expect(chain.publicMempool).toEqual([]);
+  });
+
+  test('should include bundles atomically and never fall back publicly by default', async () => {
+    const { client, relays } = setup({ builder: ['bundle', 'include'], rpc: ['rpc', 'include'] });
+    const result = await client.submitBundle([TX_A, TX_B]);
+
+    expect(result.status).toBe('included');
+    expect(result.receipts.map(receipt => receipt.blockNumber)).toEqual([102, 102]);
+    expect(relays[1]!.received).toEqual([]); // private RPCs cannot keep bundle ordering
+
+    const dropped = setup({ builder: ['bundle', 'drop'] });
+    expect((await dropped.client.submitBundle([TX_A, TX_B])).status).toBe('expired');
+    expect(dropped.chain.publicMempool).toEqual([]);
+
+    const noBuilders = setup({ rpc: ['rpc', 'include'] });
+    expect((await noBuilders.client.submitBundle([TX_A])).error).toBe('no bundle-capable relay configured');
+  });
+
+  test('should report a reverted inclusion as failed', async () => {
+    const { client, chain } = setup({ builder: ['bundle', 'include'] });
+    chain.revertOnInclusion(TX_A);
+
+    expect(await client.submitTransaction(TX_A)).toMatchObject({ status: 'failed', error: 'transaction reverted' });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit Tests for Strategy Evolution
+ * Tests walk-forward splits, out-of-sample fitness and generation history
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { StrategyEvolutionEngine, walkForwardSplits, type WalkForwardConfig } from '../../ai/strategyEvolution';
+import type { ExtendedTradeMemory } from '../../ai/immortalAgent';
+
+// Mock dependencies
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const WALK_FORWARD: WalkForwardConfig = {
+  trainWindowMs: 10 * DAY,
+  testWindowMs: 5 * DAY,
+  stepMs: 5 * DAY,
+  minTestTrades: 3,
+  overfitTolerance: 0.1,
+  overfitPenalty: 1.0,
+};
+
+function trade(day: number, profitLoss: number, strategy = 'momentum_v1'): ExtendedTradeMemory {
+  return {
+    id: `trade_${strategy}_${day}`,
+    timestamp: day * DAY,
+    tokenSymbol: 'CAKE',
+    tokenAddress: '0xcake',
+    action: 'BUY',
+    amount: 0.1,
+    entryPrice: 1,
+    outcome: profitLoss > 0 ? 'profit' : 'loss',
+    profitLoss,
+    confidence: 0.5,
+    marketConditions: { volume24h: 1_000_000, liquidity: 500_000, priceChange24h: 0, marketTrend: 'sideways', buySellPressure: 0 },
+    aiReasoning: '',
+    strategy,
+    riskLevel: 'MEDIUM',
+    lessons: [],
+  };
+}
+
+describe('walkForwardSplits', () => {
+  test('should roll non-overlapping test windows after each train window', () => {
+    const items = Array.from({ length: 30 }, (_, day) => ({ timestamp: day * DAY }));
+    const folds = walkForwardSplits(items, WALK_FORWARD);
+
+    expect(folds.map(fold => [fold.train.length, fold.test.length])).toEqual([
+      [10, 5],
+      [10, 5],
+      [10, 5],
+      [10, 5],
+    ]);
+    for (const fold of folds) {
+      expect(Math.max(...fold.train.map(m => m.timestamp))).toBeLessThan(fold.testStart);
+      expect(Math.min(...fold.test.map(m => m.timestamp))).toBeGreaterThanOrEqual(fold.testStart);
+    }
+  });
+
+  test('should return no folds when history is shorter than the train window', () => {
+    const items = Array.from({ length: 5 }, (_, day) => ({ timestamp: day * DAY }));
+    expect(walkForwardSplits(items, WALK_FORWARD)).toEqual([]);
+  });
+});
+
+describe('StrategyEvolutionEngine', () => {
+  let dir: string;
+  let historyPath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'strategy-evolution-'));
+    historyPath = path.join(dir, 'generations.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  function createEngine(): StrategyEvolutionEngine {
+    return new StrategyEvolutionEngine({ walkForward: WALK_FORWARD, historyPath, now: () => 20 * DAY });
+  }
+
+  test('should penalise a strategy whose out-of-sample fitness collapses', () => {
+    const engine = createEngine();
+    // Wins for the first 10 days, then nothing but losses
+    for (let day = 0; day < 20; day++) {
+      engine.addMemory(trade(day, day < 10 ? 10 : -20));
+    }
+
+    const gene = engine.getStrategies().find(s => s.id === 'momentum_v1')!;
+    expect(gene.validation).toMatchObject({ folds: 2, overfit: true });
+    expect(gene.validation!.inSampleFitness).toBeGreaterThan(gene.validation!.outOfSampleFitness!);
+    expect(gene.fitness).toBeLessThan(gene.validation!.outOfSampleFitness!);
+  });
+
+  test('should not penalise a strategy that holds up out of sample', () => {
+    const engine = createEngine();
+    for (let day = 0; day < 20; day++) {
+      engine.addMemory(trade(day, 8));
+    }
+
+    const gene = engine.getStrategies().find(s => s.id === 'momentum_v1')!;
+    expect(gene.validation?.overfit).toBe(false);
+    expect(gene.fitness).toBeCloseTo(gene.validation!.outOfSampleFitness!, 10);
+  });
+
+  test('should fall back to full-history fitness without a complete fold', () => {
+    const engine = createEngine();
+    engine.addMemory(trade(0, 10));
+    engine.addMemory(trade(1, 10));
+
+    const gene = engine.getStrategies().find(s => s.id === 'momentum_v1')!;
+    expect(gene.validation).toMatchObject({ folds: 0, outOfSampleFitness: null, overfit: false });
+    expect(gene.fitness).toBe(gene.validation!.inSampleFitness);
+  });
+
+  test('should persist each generation and trace lineage through parentIds', async () => {
+    const engine = createEngine();
+    await engine.evolveStrategies();
+    const metrics = await engine.evolveStrategies();
+
+    const history = await engine.getGenerationHistory();
+    expect(history.map(record => record.generation)).toEqual([2, 3]);
+    expect(history[1]!.metrics).toEqual(metrics);
+    expect(history[1]!.population).toHaveLength(metrics.populationSize);
+    expect(new Set(history[1]!.population.map(gene => gene.id)).size).toBe(metrics.populationSize);
+
+    const child = history[1]!.population.find(gene => gene.generation === 2)!;
+    const lineage = await engine.getLineage(child.id);
+    expect(lineage[0]!.id).toBe(child.id);
+    expect(lineage.at(-1)!.parentIds).toEqual([]);
+
+    expect(await engine.getGenerationHistory(1)).toEqual([history[1]]);
+  });
+});
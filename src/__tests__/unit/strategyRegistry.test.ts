@@ -0,0 +1,151 @@
+/**
+ * Unit Tests for Strategy Registry
+ * Tests validation, versioned resolution, entry/sizing/exit rules and file persistence
+ */
+
+import { describe, test, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  StrategyRegistry,
+  validateStrategyDefinition,
+  checkEntry,
+  regimeAllowed,
+  sizePosition,
+  exitPlanFromStrategy,
+  strategyRef,
+  type StrategyDefinition,
+} from '../../ai/strategyRegistry';
+
+// Mock dependencies
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+function definition(overrides: Partial<StrategyDefinition> = {}): StrategyDefinition {
+  return {
+    id: 'breakout',
+    version: 1,
+    name: 'Breakout',
+    entry: [
+      { field: 'priceChange24h', op: '>', value: 5 },
+      { field: 'confidence', op: '>=', value: 0.6 },
+    ],
+    sizing: { type: 'balance-percent', percent: 10, maxBNB: 0.5 },
+    exit: {
+      stopLossPercent: 5,
+      takeProfits: [
+        { gainPercent: 10, sellFraction: 0.5 },
+        { gainPercent: 20, sellFraction: 0.5 },
+      ],
+    },
+    regimes: ['bullish'],
+    ...overrides,
+  };
+}
+
+describe('validateStrategyDefinition', () => {
+  test('should accept a well-formed definition', () => {
+    expect(validateStrategyDefinition(definition())).toEqual(definition());
+  });
+
+  test('should reject unknown fields, bad sizing and over-allocated take-profits', () => {
+    expect(() => validateStrategyDefinition(definition({ entry: [{ field: 'rsi' as any, op: '>', value: 1 }] })))
+      .toThrow('entry[0].field');
+    expect(() => validateStrategyDefinition(definition({ sizing: { type: 'balance-percent', percent: 150 } })))
+      .toThrow('sizing.percent');
+    expect(() => validateStrategyDefinition(definition({
+      exit: { takeProfits: [{ gainPercent: 10, sellFraction: 0.7 }, { gainPercent: 20, sellFraction: 0.7 }] },
+    }))).toThrow('exit.takeProfits');
+    expect(() => validateStrategyDefinition(definition({ version: 0 }))).toThrow('version');
+  });
+});
+
+describe('strategy rules', () => {
+  test('should report each failed entry condition', () => {
+    const strategy = definition();
+    expect(checkEntry(strategy, { priceChange24h: 8, confidence: 0.7 })).toEqual({ passed: true, failed: [] });
+
+    const result = checkEntry(strategy, { priceChange24h: 2 });
+    expect(result.passed).toBe(false);
+    expect(result.failed).toHaveLength(2);
+    expect(result.failed[1]).toContain('confidence >= 0.6 (was n/a)');
+  });
+
+  test('should restrict regimes only when listed', () => {
+    expect(regimeAllowed(definition(), 'bullish')).toBe(true);
+    expect(regimeAllowed(definition(), 'bearish')).toBe(false);
+    expect(regimeAllowed(definition({ regimes: [] }), 'bearish')).toBe(true);
+  });
+
+  test('should size positions by rule and never above the cap or balance', () => {
+    expect(sizePosition(definition(), { balance: 2, confidence: 1 })).toBeCloseTo(0.2);
+    expect(sizePosition(definition(), { balance: 20, confidence: 1 })).toBe(0.5);
+    expect(sizePosition(definition(), { balance: 2, confidence: 1, cap: 0.1 })).toBe(0.1);
+
+    const scaled = definition({ sizing: { type: 'confidence-scaled', maxBNB: 1, minConfidence: 0.6 } });
+    expect(sizePosition(scaled, { balance: 5, confidence: 0.8 })).toBeCloseTo(0.5);
+    expect(sizePosition(scaled, { balance: 5, confidence: 0.5 })).toBe(0);
+    expect(sizePosition(definition({ sizing: { type: 'fixed', amountBNB: 3 } }), { balance: 1, confidence: 1 })).toBe(1);
+  });
+
+  test('should build an exit plan from the rule, or keep decision levels when opted in', () => {
+    const plan = exitPlanFromStrategy(definition({ exit: { ...definition().exit, maxHoldMinutes: 60 } }), 2);
+    expect(plan.stopPrice).toBeCloseTo(1.9);
+    expect(plan.takeProfits.map(tier => tier.price)).toEqual([2.2, 2.4]);
+    expect(plan.maxHoldMs).toBe(60 * 60 * 1000);
+
+    const decisionPlan = { stopPrice: 1.5, takeProfits: [{ price: 3, sellFraction: 1 }] };
+    const withDecision = exitPlanFromStrategy(definition({ exit: { useDecisionLevels: true, trailingStopPercent: 8 } }), 2, decisionPlan);
+    expect(withDecision).toEqual({ ...decisionPlan, trailingStopPercent: 8 });
+  });
+});
+
+describe('StrategyRegistry', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'strategy-registry-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should resolve the latest version by id and exact versions by ref', async () => {
+    const registry = new StrategyRegistry(dir, [definition()]);
+    await registry.register(definition({ version: 2, exit: { stopLossPercent: 3 } }));
+
+    expect(strategyRef(registry.resolve('breakout'))).toBe('breakout@2');
+    expect(registry.resolve('breakout@1').exit.stopLossPercent).toBe(5);
+    expect(registry.history('breakout').map(d => d.version)).toEqual([1, 2]);
+    expect(registry.list()).toHaveLength(1);
+    expect(() => registry.resolve('breakout@3')).toThrow('Unknown strategy');
+  });
+
+  test('should refuse to change a published version', async () => {
+    const registry = new StrategyRegistry(dir, [definition()]);
+
+    await expect(registry.register(definition({ name: 'Changed' }))).rejects.toMatchObject({ code: 'STRATEGY_VERSION_CONFLICT' });
+    // Re-registering identical rules is a no-op
+    await expect(registry.register(definition())).resolves.toEqual(definition());
+  });
+
+  test('should persist registered versions and load them back, skipping invalid files', async () => {
+    const registry = new StrategyRegistry(dir, []);
+    await registry.register(definition());
+    await fs.writeFile(path.join(dir, 'broken.json'), JSON.stringify({ id: 'broken' }));
+    await fs.writeFile(path.join(dir, 'bundle.json'), JSON.stringify([definition({ id: 'scalp' }), definition({ id: 'swing' })]));
+
+    const reloaded = new StrategyRegistry(dir, []);
+    expect(await reloaded.load()).toBe(3);
+    expect(reloaded.list().map(d => d.id).sort()).toEqual(['breakout', 'scalp', 'swing']);
+    expect(reloaded.resolve('breakout@1')).toEqual(definition());
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Unit Tests for Telegram Alerts
+ * Tests that model output is escaped before it reaches a Markdown message
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+import { TelegramBotManager, escapeMarkdown } from '../../alerts/telegramBot';
+import type { PendingDecision } from '../../services/approvalQueue';
+import { CONFIG } from '../../config';
+
+// Mock dependencies
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+  logError: jest.fn(),
+}));
+
+describe('escapeMarkdown', () => {
+  test('should escape every legacy Markdown entity character', () => {
+    expect(escapeMarkdown('MOON_CAT *pump* `x` [link]')).toBe('MOON\\_CAT \\*pump\\* \\`x\\` \\[link]');
+    expect(escapeMarkdown('plain text 1.5%')).toBe('plain text 1.5%');
+  });
+});
+
+describe('TelegramBotManager.sendApprovalRequest', () => {
+  test('should escape the token symbol and reasoning', async () => {
+    const sendMessage = jest.fn(async () => ({}));
+    const manager = new TelegramBotManager();
+    Object.assign(manager, { bot: { telegram: { sendMessage } }, isInitialized: true });
+    (CONFIG as { TELEGRAM_CHAT_ID: string }).TELEGRAM_CHAT_ID = '42';
+
+    const sent = await manager.sendApprovalRequest({
+      id: 'pending_1',
+      token: { symbol: 'SAFE_MOON' },
+      decision: { action: 'BUY', amount: 0.1, confidence: 0.8, reasoning: 'RSI_14 *oversold*', riskLevel: 'LOW' },
+      quotedPrice: 0.001,
+      expiresAt: 0,
+    } as unknown as PendingDecision);
+
+    expect(sent).toBe(true);
+    const message = (sendMessage.mock.calls[0] as unknown as [string, string])[1];
+    expect(message).toContain('Token: SAFE\\_MOON');
+    expect(message).toContain('Reasoning: RSI\\_14 \\*oversold\\*');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Unit Tests for Pre-flight Trade Simulation
+ * Tests revert decoding, limit evaluation, storage slot math and eth_call simulation of a buy and sell-back
+ */
+
+import { describe, test, expect, jest } from '@jest/globals';
+import { ethers } from 'ethers';
+import {
+  TradeSimulator,
+  decodeRevertReason,
+  evaluateSimulation,
+  mappingSlot,
+  type SimulationRpc,
+  type SwapSimulation,
+} from '../../blockchain/tradeSimulator';
+import { encodeExactInputSingle, toBaseUnits, type PreparedSwap } from '../../blockchain/pancakeSwapIntegration';
+
+// Mock dependencies
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const WBNB = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
+const TOKEN = '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82';
+const ROUTER = '0x1b81D678ffb9C0263b24A97847620C99d213eB14';
+const QUOTER = '0xB048Bbc1Ee6b733FFfCFb9e9CeF7375518e25997';
+const SENDER = '0x00000000000000000000000000000000005151a7';
+const E18 = 10n ** 18n;
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+const errorData = (reason: string) => '0x08c379a0' + coder.encode(['string'], [reason]).slice(2);
+
+const erc20 = new ethers.Interface([
+  'function balanceOf(address) view returns (uint256)',
+  'function allowance(address, address) view returns (uint256)',
+]);
+const router = new ethers.Interface([
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96)) payable returns (uint256 amountOut)',
+]);
+const quoter = new ethers.Interface([
+  'function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+]);
+
+/**
+ * Token with balances at slot 1 and allowances at slot 2; 1 BNB buys 1000 tokens and
+ * selling loses `sellTax` on the way into the pool. Honeypots revert every sell. An opaque
+ * token ignores storage overrides, so only the sender's real `held` balance can be sold.
+ */
+function fakeChain(options: { sellTax?: number; honeypot?: boolean; opaque?: boolean; held?: bigint } = {}): SimulationRpc {
+  const stored = (overrides: any, slot: string) => options.opaque
+    ? (slot === mappingSlot(SENDER, 1n) ? options.held ?? 0n : 0n)
+    : BigInt(overrides?.[TOKEN]?.stateDiff?.[slot] ?? 0);
+
+  return {
+    send: jest.fn(async (method: string, params: any[]) => {
+      if (method === 'eth_estimateGas') return '0x1d4c0';
+      const [request, , overrides] = params;
+      const to = request.to.toLowerCase();
+
+      if (to === TOKEN.toLowerCase()) {
+        const call = erc20.parseTransaction({ data: request.data })!;
+        const slot = call.name === 'balanceOf'
+          ? mappingSlot(call.args[0], 1n)
+          : mappingSlot(call.args[1], BigInt(mappingSlot(call.args[0], 2n)));
+        return ethers.zeroPadValue(ethers.toBeHex(stored(overrides, slot)), 32);
+      }
+
+      if (to === QUOTER.toLowerCase()) {
+        const [{ amountIn }] = quoter.parseTransaction({ data: request.data })!.args;
+        return quoter.encodeFunctionResult('quoteExactInputSingle', [amountIn / 1000n, 0, 0, 0]);
+      }
+
+      const [swap] = router.parseTransaction({ data: request.data, value: request.value })!.args;
+      if (swap.tokenIn.toLowerCase() === WBNB.toLowerCase()) {
+        return router.encodeFunctionResult('exactInputSingle', [swap.amountIn * 1000n]);
+      }
+      const balance = stored(overrides, mappingSlot(SENDER, 1n));
+      if (options.honeypot || balance < swap.amountIn) {
+        throw Object.assign(new Error('execution reverted'), { data: errorData('TRANSFER_FAILED') });
+      }
+      const arrived = (swap.amountIn * BigInt(Math.round((1 - (options.sellTax ?? 0)) * 10_000))) / 10_000n;
+      return router.encodeFunctionResult('exactInputSingle', [arrived / 1000n]);
+    }),
+  };
+}
+
+function buySwap(amountIn = E18): PreparedSwap {
+  return {
+    ...encodeExactInputSingle(ROUTER, { tokenIn: WBNB, tokenOut: TOKEN, fee: 2500, amountIn, amountOutMinimum: 0n }, SENDER, true),
+    tokenIn: WBNB,
+    tokenOut: TOKEN,
+    fee: 2500,
+    amountIn,
+    tokenDecimals: 18,
+  };
+}
+
+function sellSwap(amountIn = 1000n * E18): PreparedSwap {
+  return {
+    ...encodeExactInputSingle(ROUTER, { tokenIn: TOKEN, tokenOut: WBNB, fee: 2500, amountIn, amountOutMinimum: 0n }, SENDER, false),
+    tokenIn: TOKEN,
+    tokenOut: WBNB,
+    fee: 2500,
+    amountIn,
+    tokenDecimals: 18,
+  };
+}
+
+const limits = { maxDeviationPercent: 3, maxTaxPercent: 10, requireHoneypotCheck: false };
+
+describe('decodeRevertReason', () => {
+  test('should decode Error(string), Panic(uint256) and custom errors', () => {
+    expect(decodeRevertReason(errorData('Too little received'))).toBe('Too little received');
+    expect(decodeRevertReason('0x4e487b71' + coder.encode(['uint256'], [0x11]).slice(2))).toBe('panic 0x11');
+    expect(decodeRevertReason('0xdeadbeef00')).toBe('custom error 0xdeadbeef');
+    expect(decodeRevertReason('0x')).toBe('reverted without a reason');
+  });
+});
+
+describe('evaluateSimulation', () => {
+  const base: SwapSimulation = { mode: 'fork', reverted: false, amountOut: 990n, buyTaxPercent: 0, sellTaxPercent: 0, honeypot: false };
+
+  test('should pass a clean swap within tolerance', () => {
+    const result = evaluateSimulation(base, 1000n, limits);
+    expect(result.ok).toBe(true);
+    expect(result.deviationPercent).toBeCloseTo(1);
+  });
+
+  test('should block reverts, deviations, taxes and honeypots', () => {
+    expect(evaluateSimulation({ ...base, reverted: true, revertReason: 'STF' }, 1000n, limits).reasons).toEqual(['swap reverts: STF']);
+    expect(evaluateSimulation({ ...base, amountOut: 900n }, 1000n, limits).reasons[0]).toContain('10.00% below quote');
+    expect(evaluateSimulation({ ...base, sellTaxPercent: 25 }, 1000n, limits).reasons).toEqual(['sell tax 25.00% (limit 10%)']);
+    expect(evaluateSimulation({ ...base, honeypot: true, honeypotReason: 'sell-back reverts' }, 1000n, limits).ok).toBe(false);
+  });
+
+  test('should only require a sell-back result when asked to', () => {
+    const unknown = { ...base, honeypot: undefined, honeypotReason: 'token storage layout not recognised' };
+    expect(evaluateSimulation(unknown, 1000n, limits).ok).toBe(true);
+    expect(evaluateSimulation(unknown, 1000n, { ...limits, requireHoneypotCheck: true }).reasons[0])
+      .toBe('honeypot check unavailable: token storage layout not recognised');
+  });
+});
+
+describe('mappingSlot', () => {
+  test('should match the Solidity layout for mapping(address => uint256) at slot 0', () => {
+    const expected = ethers.keccak256(ethers.concat([ethers.zeroPadValue(SENDER, 32), ethers.zeroPadValue('0x00', 32)]));
+    expect(mappingSlot(SENDER, 0n)).toBe(expected);
+    expect(mappingSlot(SENDER, 0n, 'vyper')).not.toBe(expected);
+  });
+});
+
+describe('toBaseUnits', () => {
+  test('should round float token amounts down to the token decimals', () => {
+    expect(toBaseUnits((0.1 + 0.2).toString(), 6)).toBe(300000n);
+    expect(toBaseUnits(1234.5678 * 0.5, 2)).toBe(61728n);
+    expect(toBaseUnits((1e-7).toString(), 9)).toBe(100n);
+    expect(toBaseUnits('42.9', 0)).toBe(42n);
+    expect(toBaseUnits('1.5', 18)).toBe(15n * 10n ** 17n);
+  });
+});
+
+describe('TradeSimulator (call mode)', () => {
+  test('should report output, gas and the sell tax of a buy and sell-back', async () => {
+    const simulator = new TradeSimulator('call', fakeChain({ sellTax: 0.05 }));
+    const result = await simulator.preflight({ action: 'buy', from: SENDER, swap: buySwap(), expectedOut: 1000n * E18 }, limits);
+
+    expect(result).toMatchObject({ ok: true, reverted: false, amountOut: 1000n * E18, gasUsed: 120000n, honeypot: false });
+    expect(result.sellTaxPercent).toBeCloseTo(5);
+    expect(result.buyTaxPercent).toBeUndefined(); // needs a fork
+  });
+
+  test('should flag a token that cannot be sold back as a honeypot', async () => {
+    const simulator = new TradeSimulator('call', fakeChain({ honeypot: true }));
+    const result = await simulator.preflight({ action: 'buy', from: SENDER, swap: buySwap(), expectedOut: 1000n * E18 }, limits);
+
+    expect(result.ok).toBe(false);
+    expect(result.honeypot).toBe(true);
+    expect(result.reasons).toEqual(['honeypot: sell-back reverts: TRANSFER_FAILED']);
+  });
+
+  test('should block when the node rejects the swap call', async () => {
+    const simulator = new TradeSimulator('call', { send: async () => { throw new Error('connection refused'); } });
+    const result = await simulator.preflight({ action: 'buy', from: SENDER, swap: buySwap(), expectedOut: 1000n * E18 }, limits);
+
+    expect(result.ok).toBe(false);
+    expect(result.reasons[0]).toContain('swap reverts: connection refused');
+  });
+
+  test('should sell from the real wallet when the token layout is not recognised', async () => {
+    const simulator = new TradeSimulator('call', fakeChain({ opaque: true, held: 1000n * E18 }));
+    const result = await simulator.preflight({ action: 'sell', from: SENDER, swap: sellSwap(), expectedOut: E18 }, limits);
+
+    expect(result).toMatchObject({ ok: true, reverted: false, amountOut: E18, honeypot: false });
+    expect(result.inconclusive).toBeUndefined();
+  });
+
+  test('should never block a sell on an inconclusive simulation', async () => {
+    const simulator = new TradeSimulator('call', fakeChain({ opaque: true }));
+    const result = await simulator.preflight({ action: 'sell', from: SENDER, swap: sellSwap(), expectedOut: E18 }, limits);
+
+    expect(result).toMatchObject({ ok: true, reverted: true, reasons: [] });
+    expect(result.honeypot).toBeUndefined();
+    expect(result.inconclusive).toContain('TRANSFER_FAILED');
+
+    const offline = new TradeSimulator('call', { send: async () => { throw new Error('connection refused'); } });
+    expect((await offline.preflight({ action: 'sell', from: SENDER, swap: sellSwap(), expectedOut: E18 }, limits)).ok).toBe(true);
+  });
+
+  test('should still block a sell that reverts with the holding overridden', async () => {
+    const simulator = new TradeSimulator('call', fakeChain({ honeypot: true }));
+    const result = await simulator.preflight({ action: 'sell', from: SENDER, swap: sellSwap(), expectedOut: E18 }, limits);
+
+    expect(result.ok).toBe(false);
+    expect(result.honeypot).toBe(true);
+  });
+});
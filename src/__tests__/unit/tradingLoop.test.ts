@@ -0,0 +1,110 @@
+/**
+ * Unit Tests for the Trading Loop
+ * Tests a token evaluation end to end: AI decision, confidence threshold,
+ * strategy entry and sizing, risk check and execution
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { TradingLoop } from '../../services/tradingLoop';
+import type { Token, MarketConditions } from '../../services/tradingLoop';
+import { ImmortalAIAgent } from '../../ai/immortalAgent';
+import { PositionManager } from '../../services/positionManager';
+import { executeTrade, getWalletBalance } from '../../blockchain/tradeExecutor';
+import { getTokenAnalytics } from '../../data/marketFetcher';
+import { CONFIG } from '../../config';
+
+// Mock dependencies
+jest.mock('../../ai/immortalAgent');
+jest.mock('../../alerts/telegramBot');
+jest.mock('../../blockchain/tradeExecutor');
+jest.mock('../../blockchain/executionJobs');
+jest.mock('../../crossChain/transferLedger');
+jest.mock('../../data/marketFetcher');
+jest.mock('../../db/repositories/positionRepository', () => ({
+  createPositionStore: jest.fn(() => ({ backend: 'memory' })),
+}));
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const TOKEN: Token = {
+  address: '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82',
+  symbol: 'CAKE',
+  name: 'PancakeSwap',
+  price: 2,
+  volume24h: 2000000,
+  liquidity: 5000000,
+  priceChange24h: 12,
+  marketCap: 100000000,
+  riskScore: 0,
+};
+
+const BULLISH: MarketConditions = {
+  trend: 'bullish',
+  volatility: 0.3,
+  volume: 2000000,
+  sentiment: 'positive',
+  timestamp: 0,
+};
+
+describe('TradingLoop.evaluateToken', () => {
+  const makeDecision = jest.mocked(ImmortalAIAgent.prototype.makeDecision);
+  let canOpenPosition: jest.SpiedFunction<PositionManager['canOpenPosition']>;
+  let addPosition: jest.SpiedFunction<PositionManager['addPosition']>;
+
+  const evaluate = (loop: TradingLoop) =>
+    (loop as unknown as { evaluateToken(token: Token, conditions: MarketConditions): Promise<void> })
+      .evaluateToken({ ...TOKEN }, BULLISH);
+
+  const decide = (confidence: number) =>
+    makeDecision.mockResolvedValue({
+      action: 'BUY',
+      amount: 100,
+      confidence,
+      reasoning: 'Strong momentum',
+      strategy: 'momentum',
+      riskLevel: 'LOW',
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    canOpenPosition = jest.spyOn(PositionManager.prototype, 'canOpenPosition').mockResolvedValue(true);
+    addPosition = jest.spyOn(PositionManager.prototype, 'addPosition').mockResolvedValue(undefined);
+    jest.mocked(getWalletBalance).mockResolvedValue(100);
+    jest.mocked(getTokenAnalytics).mockResolvedValue(null);
+    jest.mocked(executeTrade).mockResolvedValue({ success: true, txHash: '0xabc', amountIn: '0.5', amountOut: '500', actualPrice: 0.001 });
+  });
+
+  test('should enter and size by the 0-1 decision confidence', async () => {
+    decide(0.8);
+    const loop = new TradingLoop({ strategyId: 'momentum', enableAutoTrading: true });
+
+    await evaluate(loop);
+
+    // momentum sizing is confidence-scaled from 0.6 (nothing) to 1 (maxBNB): 0.8 is half size
+    const expected = expect.closeTo(CONFIG.MAX_TRADE_AMOUNT_BNB * 0.5, 10);
+    expect(canOpenPosition).toHaveBeenCalledWith(expected, expect.objectContaining({ symbol: 'CAKE' }));
+    expect(executeTrade).toHaveBeenCalledWith(expect.objectContaining({ action: 'buy', amountBNB: expected }));
+    expect(addPosition).toHaveBeenCalledWith(expect.objectContaining({
+      id: '0xabc',
+      amount: expected,
+      confidence: 0.8,
+      strategy: 'momentum@1',
+    }));
+  });
+
+  test('should skip decisions below the confidence threshold', async () => {
+    decide(CONFIG.MIN_CONFIDENCE_THRESHOLD - 0.05);
+    const loop = new TradingLoop({ strategyId: 'momentum', enableAutoTrading: true });
+
+    await evaluate(loop);
+
+    expect(canOpenPosition).not.toHaveBeenCalled();
+    expect(executeTrade).not.toHaveBeenCalled();
+  });
+});
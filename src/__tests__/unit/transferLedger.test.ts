@@ -0,0 +1,278 @@
+/**
+ * Unit Tests for the Cross-Chain Transfer Ledger
+ * Tests the transfer state machine, auto-redeem, timeouts and alerts, persistence
+ * and the operator retry / refund paths
+ */
+
+import { describe, test, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import {
+  TransferLedger,
+  normalizeChain,
+  type BridgeAdapter,
+  type BridgeTransfer,
+  type SourceStatus,
+} from '../../crossChain/transferLedger';
+import { CONFIG } from '../../config';
+import * as configStorage from '../../utils/configStorage';
+
+// Mock dependencies
+jest.mock('../../utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const storage = new Map<string, unknown>();
+jest.mock('../../utils/configStorage', () => ({
+  saveConfig: jest.fn(async (key: string, data: unknown) => {
+    storage.set(key, JSON.parse(JSON.stringify(data)));
+  }),
+  loadConfig: jest.fn(async (key: string) => storage.get(key) ?? null),
+}));
+
+const SOURCE_TX = '0x' + 'ab'.repeat(32);
+const TARGET_TX = '0x' + 'cd'.repeat(32);
+const MINUTE = 60 * 1000;
+
+function fakeAdapter() {
+  const chain = {
+    source: { confirmed: false } as SourceStatus,
+    vaa: null as string | null,
+    completedOn: null as string | null,
+    completedChecks: 0,
+    canRedeem: true,
+    redeem: jest.fn(async (_transfer: BridgeTransfer): Promise<string> => TARGET_TX),
+  };
+  const adapter: BridgeAdapter = {
+    sourceStatus: async () => chain.source,
+    fetchVaa: async () => chain.vaa,
+    completedOn: async () => {
+      chain.completedChecks++;
+      return chain.completedOn;
+    },
+    canRedeem: () => chain.canRedeem,
+    redeem: transfer => chain.redeem(transfer),
+  };
+  return { chain, adapter };
+}
+
+describe('TransferLedger', () => {
+  let chain: ReturnType<typeof fakeAdapter>['chain'];
+  let alert: jest.Mock<(message: string) => Promise<void>>;
+  let ledger: TransferLedger;
+
+  const newLedger = (key = 'test-transfers') => {
+    const fake = fakeAdapter();
+    chain = fake.chain;
+    alert = jest.fn(async (_message: string) => undefined);
+    ledger = new TransferLedger({ adapters: { wormhole: fake.adapter }, alert }, key, 60_000);
+    return ledger;
+  };
+
+  const record = (now = 0) =>
+    ledger.record({ sourceChain: 'BSC', targetChain: 'Polygon', token: 'USDC', amount: '100', sourceTxHash: SOURCE_TX }, now);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    storage.clear();
+    newLedger();
+  });
+
+  afterEach(() => {
+    ledger.stop();
+  });
+
+  test('should move a transfer through every state and auto-redeem the VAA', async () => {
+    const transfer = await record();
+    expect(transfer).toMatchObject({ state: 'initiated', sourceChain: 'bsc', targetChain: 'polygon' });
+
+    await ledger.tick(1000);
+    expect(transfer.state).toBe('initiated');
+
+    chain.source = { confirmed: true, confirmations: 15, sequence: '42', emitter: '0x00000000000000000000000000000000000000e1' };
+    await ledger.tick(2000);
+    expect(transfer).toMatchObject({ state: 'source-confirmed', sequence: '42', confirmations: 15 });
+
+    chain.vaa = '0x01';
+    await ledger.tick(3000);
+    expect(transfer).toMatchObject({ state: 'vaa-signed', vaa: '0x01' });
+
+    await ledger.tick(4000);
+    expect(chain.redeem).toHaveBeenCalledTimes(1);
+    expect(transfer).toMatchObject({ state: 'redeemed', targetTxHash: TARGET_TX });
+    expect(transfer.history.map(event => [event.state, event.at])).toEqual([
+      ['initiated', 0],
+      ['source-confirmed', 2000],
+      ['vaa-signed', 3000],
+      ['redeemed', 4000],
+    ]);
+    expect(alert).not.toHaveBeenCalled();
+  });
+
+  test('should take a relayer completion instead of redeeming', async () => {
+    const transfer = await record();
+    chain.source = { confirmed: true, sequence: '7', emitter: '0x00000000000000000000000000000000000000e1' };
+    await ledger.tick(1000);
+
+    chain.completedOn = TARGET_TX;
+    await ledger.tick(2000);
+
+    expect(transfer).toMatchObject({ state: 'redeemed', targetTxHash: TARGET_TX });
+    expect(chain.redeem).not.toHaveBeenCalled();
+  });
+
+  test('should mark a transfer stuck and alert once when a stage times out', async () => {
+    const transfer = await record();
+
+    await ledger.tick(CONFIG.BRIDGE_SOURCE_TIMEOUT_MS + MINUTE);
+    await ledger.tick(CONFIG.BRIDGE_SOURCE_TIMEOUT_MS + 2 * MINUTE);
+
+    expect(transfer).toMatchObject({ state: 'stuck', stuckFrom: 'initiated' });
+    expect(alert).toHaveBeenCalledTimes(1);
+    expect(alert.mock.calls[0]![0]).toContain(SOURCE_TX);
+  });
+
+  test('should give up after the configured redeem attempts', async () => {
+    const transfer = await record();
+    chain.source = { confirmed: true, sequence: '1', emitter: '0x00000000000000000000000000000000000000e1' };
+    chain.vaa = '0x01';
+    chain.redeem.mockImplementation(async () => {
+      throw new Error('execution reverted');
+    });
+
+    for (let tick = 1; tick <= CONFIG.BRIDGE_MAX_REDEEM_ATTEMPTS + 3; tick++) {
+      await ledger.tick(tick * 1000);
+    }
+
+    expect(chain.redeem).toHaveBeenCalledTimes(CONFIG.BRIDGE_MAX_REDEEM_ATTEMPTS);
+    expect(transfer).toMatchObject({ state: 'stuck', stuckFrom: 'vaa-signed' });
+    expect(transfer.error).toBe('execution reverted');
+    expect(alert).toHaveBeenCalledTimes(1);
+  });
+
+  test('should leave VAAs it cannot redeem to the relayer', async () => {
+    const transfer = await record();
+    chain.source = { confirmed: true, sequence: '1', emitter: '0x00000000000000000000000000000000000000e1' };
+    chain.vaa = '0x01';
+    chain.canRedeem = false;
+
+    await ledger.tick(1000);
+    await ledger.tick(2000);
+    await ledger.tick(3000);
+
+    expect(transfer.state).toBe('vaa-signed');
+    expect(chain.redeem).not.toHaveBeenCalled();
+  });
+
+  test('should stick a reverted source transaction immediately', async () => {
+    const transfer = await record();
+    chain.source = { confirmed: false, failed: true, error: 'Source transaction reverted' };
+
+    await ledger.tick(1000);
+
+    expect(transfer).toMatchObject({ state: 'stuck', stuckFrom: 'initiated', error: 'Source transaction reverted' });
+    expect(alert).toHaveBeenCalledTimes(1);
+  });
+
+  test('should stop polling a reverted source and only write on a change', async () => {
+    const saveConfig = jest.mocked(configStorage.saveConfig);
+    const transfer = await record();
+    await ledger.tick(1000); // still waiting for the source: nothing to save
+    expect(saveConfig).toHaveBeenCalledTimes(1);
+
+    chain.source = { confirmed: false, failed: true, error: 'Source transaction reverted' };
+    await ledger.tick(2000);
+    expect(transfer).toMatchObject({ state: 'stuck', sourceFailed: true });
+    const saves = saveConfig.mock.calls.length;
+
+    for (let tick = 1; tick <= 5; tick++) {
+      await ledger.tick(2000 + tick * 10 * MINUTE);
+    }
+    expect(chain.completedChecks).toBe(0);
+    expect(saveConfig).toHaveBeenCalledTimes(saves);
+  });
+
+  test('should back off re-checking a stuck transfer', async () => {
+    const transfer = await record();
+    const stuckAt = CONFIG.BRIDGE_SOURCE_TIMEOUT_MS + MINUTE;
+    await ledger.tick(stuckAt);
+    expect(transfer.state).toBe('stuck');
+
+    // Checked one tick after sticking, then 2, 4 and 8 ticks later
+    for (let tick = 1; tick <= 15; tick++) {
+      await ledger.tick(stuckAt + tick * MINUTE);
+    }
+    expect(chain.completedChecks).toBe(4);
+  });
+
+  test('should still record a late completion of a stuck transfer', async () => {
+    const transfer = await record();
+    chain.source = { confirmed: true, sequence: '1', emitter: '0x00000000000000000000000000000000000000e1' };
+    await ledger.tick(1000);
+    await ledger.tick(1000 + CONFIG.BRIDGE_VAA_TIMEOUT_MS + MINUTE);
+    expect(transfer.state).toBe('stuck');
+
+    chain.completedOn = TARGET_TX;
+    await ledger.tick(1000 + CONFIG.BRIDGE_VAA_TIMEOUT_MS + 2 * MINUTE);
+    expect(transfer.state).toBe('redeemed');
+  });
+
+  test('should retry or refund stuck transfers only', async () => {
+    const transfer = await record();
+    await expect(ledger.retry(transfer.id)).rejects.toThrow('is initiated');
+
+    await ledger.tick(CONFIG.BRIDGE_SOURCE_TIMEOUT_MS + MINUTE);
+    await ledger.retry(transfer.id, CONFIG.BRIDGE_SOURCE_TIMEOUT_MS + 2 * MINUTE);
+    expect(transfer).toMatchObject({ state: 'initiated', stateSince: CONFIG.BRIDGE_SOURCE_TIMEOUT_MS + 2 * MINUTE });
+
+    await ledger.tick(2 * CONFIG.BRIDGE_SOURCE_TIMEOUT_MS + 3 * MINUTE);
+    await ledger.markRefunded(SOURCE_TX, '0xrefund');
+    expect(transfer).toMatchObject({ state: 'refunded', refundTxHash: '0xrefund' });
+    expect(transfer.history.map(event => event.state)).toEqual(['initiated', 'stuck', 'initiated', 'stuck', 'refunded']);
+    await expect(ledger.markRefunded(transfer.id)).rejects.toThrow('is refunded');
+  });
+
+  test('should persist transfers and resume them in a new ledger', async () => {
+    const transfer = await record();
+    chain.source = { confirmed: true, sequence: '9', emitter: '0x00000000000000000000000000000000000000e1' };
+    await ledger.tick(1000);
+    ledger.stop();
+
+    const restored = newLedger();
+    await restored.load();
+    expect(restored.get(transfer.id)).toMatchObject({ state: 'source-confirmed', sequence: '9' });
+    expect(restored.findBySequence('9')?.id).toBe(transfer.id);
+
+    chain.vaa = '0x02';
+    await restored.tick(2000);
+    expect(restored.get(transfer.id)?.state).toBe('vaa-signed');
+  });
+
+  test('should list newest first, filter by state and not record a transaction twice', async () => {
+    const first = await record(0);
+    const again = await record(5);
+    const second = await ledger.record(
+      { sourceChain: 'bnb', targetChain: 'solana', token: 'BNB', amount: 1, sourceTxHash: TARGET_TX, sequence: '3' },
+      10
+    );
+
+    expect(again).toBe(first);
+    expect(ledger.list().map(transfer => transfer.id)).toEqual([second.id, first.id]);
+    expect(ledger.list({ limit: 1 })).toHaveLength(1);
+    expect(second).toMatchObject({ sourceChain: 'bsc', targetChain: 'solana', amount: '1', sequence: '3' });
+
+    await ledger.tick(CONFIG.BRIDGE_SOURCE_TIMEOUT_MS + MINUTE);
+    expect(ledger.list({ state: 'stuck' }).map(transfer => transfer.id)).toEqual([second.id, first.id]);
+    expect(() => ledger.list({ state: 'lost' as BridgeTransfer['state'] })).toThrow('Validation failed for state');
+  });
+});
+
+describe('normalizeChain', () => {
+  test('should accept the names used by both bridges', () => {
+    expect(['BSC', 'bnb', 'Polygon', 'ethereum', 'solana'].map(normalizeChain)).toEqual(['bsc', 'bsc', 'polygon', 'ethereum', 'solana']);
+    expect(() => normalizeChain('avalanche')).toThrow('Validation failed for chain');
+  });
+});
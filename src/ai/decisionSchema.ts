@@ -0,0 +1,93 @@
+// src/ai/decisionSchema.ts
+// Declared output schema for AI trading decisions and strict validation of completions.
+// The JSON Schema is sent to providers that support structured output; the zod schema
+// is what actually gates a completion before it can become a trade.
+
+import { z } from 'zod';
+import { CONFIG } from '../config';
+import type { AIDecisionResponse } from './llmInterface';
+
+export const DECISION_ACTIONS = ['BUY', 'SELL', 'HOLD'] as const;
+export const RISK_LEVELS = ['LOW', 'MEDIUM', 'HIGH'] as const;
+
+/**
+ * Largest `amount` a decision may carry. Callers trade it as BNB, so it is capped at
+ * MAX_TRADE_AMOUNT_BNB (and never more than 1 BNB)
+ */
+export function maxDecisionAmount(): number {
+  return Math.min(1, CONFIG.MAX_TRADE_AMOUNT_BNB);
+}
+
+export function createDecisionSchema(maxAmount: number = maxDecisionAmount()) {
+  return z.object({
+    action: z.enum(DECISION_ACTIONS),
+    amount: z.number().min(0).max(maxAmount),
+    confidence: z.number().min(0).max(1),
+    reasoning: z.string().min(1),
+    strategy: z.string().min(1).max(100),
+    riskLevel: z.enum(RISK_LEVELS),
+    // Optional exit levels for a BUY; strict structured output sends null when absent
+    targetPrice: z.number().positive().nullish(),
+    stopLoss: z.number().positive().nullish(),
+  });
+}
+
+/**
+ * JSON Schema of the same shape, for `response_format` on OpenAI-compatible providers
+ */
+export function decisionJsonSchema(maxAmount: number = maxDecisionAmount()): Record<string, unknown> {
+  return {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: [...DECISION_ACTIONS] },
+      amount: { type: 'number', minimum: 0, maximum: maxAmount },
+      confidence: { type: 'number', minimum: 0, maximum: 1 },
+      reasoning: { type: 'string' },
+      strategy: { type: 'string' },
+      riskLevel: { type: 'string', enum: [...RISK_LEVELS] },
+      targetPrice: { type: ['number', 'null'], exclusiveMinimum: 0 },
+      stopLoss: { type: ['number', 'null'], exclusiveMinimum: 0 },
+    },
+    required: ['action', 'amount', 'confidence', 'reasoning', 'strategy', 'riskLevel', 'targetPrice', 'stopLoss'],
+    additionalProperties: false,
+  };
+}
+
+export type DecisionValidation =
+  | { valid: true; decision: AIDecisionResponse }
+  | { valid: false; errors: string[] };
+
+/**
+ * Validate a raw completion. Nothing is coerced or clamped: anything off-schema is an error.
+ */
+export function validateAIDecision(text: string, maxAmount: number = maxDecisionAmount()): DecisionValidation {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return { valid: false, errors: ['response contains no JSON object'] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    return { valid: false, errors: [`invalid JSON: ${(error as Error).message}`] };
+  }
+
+  const result = createDecisionSchema(maxAmount).safeParse(parsed);
+  if (!result.success) {
+    return {
+      valid: false,
+      errors: result.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`),
+    };
+  }
+
+  const { targetPrice, stopLoss, ...decision } = result.data;
+  return {
+    valid: true,
+    decision: {
+      ...decision,
+      ...(targetPrice != null && { targetPrice }),
+      ...(stopLoss != null && { stopLoss }),
+    },
+  };
+}
@@ -2,12 +2,14 @@
 // Core immortal AI agent that learns and evolves trading strategies
 // Uses decentralized memory (BNB Greenfield) and AI models for decision making
 
+import path from 'path';
 import { logger } from '../utils/logger';
 import { CONFIG } from '../config';
 import { fetchAllMemories, fetchMemory, storeMemory } from '../blockchain/memoryStorage';
 import DynamicTokenDiscovery from '../blockchain/dynamicTokenDiscovery';
 import type { TradeMemory } from '../types/memory';
 import { getAIDecision } from './llmInterface';
+import { MemoryVectorIndex, type IndexedOutcome } from './memoryIndex';
 
 export interface ExtendedTradeMemory {
   id: string;
@@ -59,16 +61,31 @@ export interface StrategyEvolution {
   };
 }
 
+export interface ImmortalAgentOptions {
+  persistMemories: boolean; // Write learned trades to Greenfield (off for backtests)
+  liveTokenAnalysis: boolean; // Fetch on-chain/DexScreener analysis instead of using the supplied market data
+  now: () => number; // Clock for memory timestamps and recency weighting
+}
+
 export class ImmortalAIAgent {
   private personality: AIPersonality;
+  private options: ImmortalAgentOptions;
   private memories: Map<string, ExtendedTradeMemory> = new Map();
+  private memoryIndex: MemoryVectorIndex = new MemoryVectorIndex();
+  private memoryIndexLoaded: boolean = false;
   private strategies: Map<string, StrategyEvolution> = new Map();
   private discovery: DynamicTokenDiscovery;
   private totalTrades: number = 0;
   private successfulTrades: number = 0;
   private currentStrategies: string[] = [];
 
-  constructor() {
+  constructor(options: Partial<ImmortalAgentOptions> = {}) {
+    this.options = {
+      persistMemories: true,
+      liveTokenAnalysis: true,
+      now: () => Date.now(),
+      ...options,
+    };
     this.personality = this.initializePersonality();
     this.discovery = new DynamicTokenDiscovery();
     logger.info('🤖 Immortal AI Agent initialized');
@@ -95,10 +112,18 @@ export class ImmortalAIAgent {
     try {
       logger.info('🧠 Loading immortal memories from Greenfield...');
       
+      const indexPath = path.join(CONFIG.MEMORY_INDEX_DIR, 'trade-memories.json');
+      if (this.options.persistMemories && !this.memoryIndexLoaded) {
+        this.memoryIndexLoaded = await this.memoryIndex.load(indexPath);
+      }
+
       const memoryIds = await fetchAllMemories();
       let loadedCount = 0;
 
       for (const id of memoryIds) {
+        // Incremental: only memories not seen by this agent are fetched and indexed
+        if (this.memories.has(id)) continue;
+
         const memory = await fetchMemory(id);
         if (memory) {
           const tradeMemory: ExtendedTradeMemory = {
@@ -118,16 +143,29 @@ export class ImmortalAIAgent {
               marketTrend: 'sideways' // Default trend for legacy memories
             },
             aiReasoning: memory.aiReasoning || '',
-            strategy: 'legacy', // Default strategy for legacy memories
+            strategy: memory.strategy || 'legacy', // Memories predating the strategy registry carry no ref
             riskLevel: 'MEDIUM', // Default risk level for legacy memories
             lessons: typeof memory.lessons === 'string' ? [memory.lessons] : []
           };
           
           this.memories.set(id, tradeMemory);
+          if (!this.memoryIndex.has(id)) {
+            this.memoryIndex.indexTradeMemory(tradeMemory);
+          }
           loadedCount++;
         }
       }
 
+      // Drop index entries for memories that no longer exist
+      for (const id of this.memoryIndex.ids()) {
+        if (!this.memories.has(id)) {
+          this.memoryIndex.remove(id);
+        }
+      }
+      if (this.options.persistMemories) {
+        await this.memoryIndex.save(indexPath);
+      }
+
       this.totalTrades = this.memories.size;
       this.successfulTrades = Array.from(this.memories.values())
         .filter(m => m.outcome === 'profit').length;
@@ -157,6 +195,8 @@ export class ImmortalAIAgent {
     reasoning: string;
     strategy: string;
     riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+    targetPrice?: number;
+    stopLoss?: number;
   }> {
     try {
       // Analyze similar past trades
@@ -214,9 +254,10 @@ export class ImmortalAIAgent {
         outcome, profitLoss, marketConditions, strategy
       );
       
+      const now = this.options.now();
       const extendedMemory: ExtendedTradeMemory = {
-        id: `trade_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        timestamp: Date.now(),
+        id: `trade_${now}_${Math.random().toString(36).substr(2, 9)}`,
+        timestamp: now,
         tokenSymbol,
         tokenAddress,
         action,
@@ -239,6 +280,7 @@ export class ImmortalAIAgent {
       
       // Store in local memory
       this.memories.set(extendedMemory.id, extendedMemory);
+      this.memoryIndex.indexTradeMemory(extendedMemory);
       
       // Store in immortal decentralized memory (BNB Greenfield)
       const basicMemory: TradeMemory = {
@@ -259,10 +301,13 @@ export class ImmortalAIAgent {
           priceChange24h: marketConditions.priceChange24h || 0,
           buySellPressure: marketConditions.buySellPressure || 0
         },
-        lessons: lessons.join('; ')
+        lessons: lessons.join('; '),
+        strategy
       };
       
-      await storeMemory(basicMemory);
+      if (this.options.persistMemories) {
+        await storeMemory(basicMemory);
+      }
       
       // Update statistics
       this.totalTrades++;
@@ -282,55 +327,39 @@ export class ImmortalAIAgent {
   }
 
   /**
-   * Find similar trading situations from past memories
+   * Find similar trading situations from past memories (k-NN over the memory index)
    */
-  private findSimilarSituations(tokenAddress: string, marketData: any): ExtendedTradeMemory[] {
-    const similarities: { memory: ExtendedTradeMemory; score: number }[] = [];
-    
-    for (const memory of this.memories.values()) {
-      let similarity = 0;
-      
-      // Similar market conditions (volume, liquidity, price change)
-      if (marketData.volume24h && memory.marketConditions.volume24h) {
-        const volumeRatio = Math.min(
-          marketData.volume24h / memory.marketConditions.volume24h,
-          memory.marketConditions.volume24h / marketData.volume24h
-        );
-        similarity += volumeRatio * 0.3;
-      }
-      
-      if (marketData.priceChange24h && memory.marketConditions.priceChange24h) {
-        const priceChangeScore = Math.max(0, 1 - Math.abs(
-          marketData.priceChange24h - memory.marketConditions.priceChange24h
-        ) / 100);
-        similarity += priceChangeScore * 0.4;
-      }
-      
-      // Same token gets extra weight
-      if (memory.tokenAddress === tokenAddress) {
-        similarity += 0.5;
-      }
-      
-      // Recent memories are more relevant
-      const age = Date.now() - memory.timestamp;
-      const ageScore = Math.max(0, 1 - age / (30 * 24 * 60 * 60 * 1000)); // 30 days
-      similarity += ageScore * 0.2;
-      
-      if (similarity > 0.3) {
-        similarities.push({ memory, score: similarity });
-      }
-    }
-    
-    return similarities
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 5)
-      .map(s => s.memory);
+  private findSimilarSituations(
+    tokenAddress: string,
+    marketData: any,
+    outcomes?: IndexedOutcome[]
+  ): ExtendedTradeMemory[] {
+    const matches = this.memoryIndex.search(
+      { market: marketData, tokenAddress, text: marketData.reasoning },
+      { k: 5, outcomes, now: this.options.now(), minScore: 0.3 }
+    );
+
+    return matches
+      .map(match => this.memories.get(match.id))
+      .filter((memory): memory is ExtendedTradeMemory => memory !== undefined);
   }
 
   /**
    * Analyze token using AI and technical indicators
    */
   private async analyzeToken(tokenAddress: string, marketData: any): Promise<any> {
+    if (!this.options.liveTokenAnalysis) {
+      const technicalScore = this.calculateTechnicalScore(marketData);
+      return {
+        address: tokenAddress,
+        symbol: marketData.symbol,
+        confidence: technicalScore,
+        technicalScore,
+        sentimentScore: 0.5,
+        aiConfidence: (technicalScore + 0.5) / 2
+      };
+    }
+
     try {
       // Use existing token discovery for detailed analysis
       const tokenAnalysis = await this.discovery.analyzeToken(tokenAddress);
@@ -582,8 +611,8 @@ Market Conditions: ${marketData.marketTrend || 'Unknown'}
     try {
       logger.info('🔍 Starting RAG-based decision making...');
       
-      // RETRIEVAL: Find similar past situations
-      const similarMemories = this.findSimilarSituations(tokenAddress, marketData);
+      // RETRIEVAL: Find similar past situations that have a known outcome
+      const similarMemories = this.findSimilarSituations(tokenAddress, marketData, ['win', 'loss']);
       logger.info(`📚 Retrieved ${similarMemories.length} similar memories`);
       
       // Analyze patterns in retrieved memories
@@ -1140,7 +1169,7 @@ Based on this comprehensive analysis, provide a trading decision (BUY/SELL/HOLD)
         strategy.avgReturn = (strategy.avgReturn * (strategy.totalTrades - 1) + (newMemory.profitLoss || 0)) / strategy.totalTrades;
       }
       
-      strategy.lastUsed = Date.now();
+      strategy.lastUsed = this.options.now();
       this.strategies.set(strategyId, strategy);
     } else {
       // Create new strategy
@@ -1150,7 +1179,7 @@ Based on this comprehensive analysis, provide a trading decision (BUY/SELL/HOLD)
         successRate: newMemory.outcome === 'profit' ? 1 : 0,
         avgReturn: newMemory.profitLoss || 0,
         totalTrades: 1,
-        lastUsed: Date.now(),
+        lastUsed: this.options.now(),
         conditions: `Market: ${newMemory.marketConditions.marketTrend}`,
         parameters: {},
         performance: {
@@ -0,0 +1,184 @@
+// src/ai/llmCassette.ts
+// Record/replay layer for LLM calls ("cassette").
+// In record mode every prompt/response pair is persisted under a hash of the prompt;
+// in replay mode responses are served from the cassette and the network is never touched.
+
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { CONFIG } from '../config';
+
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+export interface LLMRequest {
+  callSite: string; // e.g. 'getAIDecision'
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  params?: Record<string, unknown>; // temperature, max_tokens, ...
+}
+
+export interface CassetteEntry {
+  hash: string;
+  callSite: string;
+  model: string;
+  messages: LLMRequest['messages'];
+  responses: Array<{ content: string; recordedAt: number }>;
+}
+
+interface CassetteFile {
+  version: 1;
+  entries: Record<string, CassetteEntry>;
+}
+
+export class CassetteMissError extends Error {
+  constructor(public hash: string, public callSite: string) {
+    super(`No recorded LLM response for ${callSite} (prompt hash ${hash.slice(0, 12)})`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+/**
+ * Stable hash of everything that determines the model output
+ */
+export function hashPrompt(request: LLMRequest): string {
+  const canonical = JSON.stringify({
+    callSite: request.callSite,
+    model: request.model,
+    messages: request.messages.map(m => ({ role: m.role, content: m.content })),
+    params: Object.keys(request.params || {})
+      .sort()
+      .map(key => [key, request.params![key]]),
+  });
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+/**
+ * Prompt/response store backed by a single JSON file.
+ * Identical prompts recorded several times are replayed in the same order,
+ * so rerunning a trading day reproduces every decision exactly.
+ */
+export class LLMCassette {
+  private entries: Record<string, CassetteEntry> = {};
+  private cursors: Map<string, number> = new Map();
+  private loaded = false;
+  private writeChain: Promise<void> = Promise.resolve();
+  private stats = { hits: 0, misses: 0, recorded: 0 };
+
+  constructor(
+    public readonly mode: CassetteMode,
+    public readonly filePath: string
+  ) {}
+
+  /**
+   * Run an LLM call through the cassette.
+   * `call` performs the real request and returns the raw completion text.
+   */
+  async run(request: LLMRequest, call: () => Promise<string>): Promise<string> {
+    if (this.mode === 'off') {
+      return call();
+    }
+
+    await this.load();
+    const hash = hashPrompt(request);
+
+    if (this.mode === 'replay') {
+      const entry = this.entries[hash];
+      if (!entry || entry.responses.length === 0) {
+        this.stats.misses++;
+        logger.warn(`📼 Cassette miss: ${request.callSite} (${hash.slice(0, 12)})`);
+        throw new CassetteMissError(hash, request.callSite);
+      }
+
+      // Serve recordings in order, repeating the last one once exhausted
+      const cursor = this.cursors.get(hash) || 0;
+      const response = entry.responses[Math.min(cursor, entry.responses.length - 1)]!;
+      this.cursors.set(hash, cursor + 1);
+      this.stats.hits++;
+      return response.content;
+    }
+
+    // record
+    const content = await call();
+    const entry = this.entries[hash] || {
+      hash,
+      callSite: request.callSite,
+      model: request.model,
+      messages: request.messages,
+      responses: [],
+    };
+    entry.responses.push({ content, recordedAt: Date.now() });
+    this.entries[hash] = entry;
+    this.stats.recorded++;
+    await this.save();
+
+    return content;
+  }
+
+  /**
+   * Whether replay can serve responses without an API key
+   */
+  isReplaying(): boolean {
+    return this.mode === 'replay';
+  }
+
+  getStats(): { mode: CassetteMode; entries: number; hits: number; misses: number; recorded: number } {
+    return { mode: this.mode, entries: Object.keys(this.entries).length, ...this.stats };
+  }
+
+  /**
+   * Rewind replay cursors (e.g. before rerunning the same day twice)
+   */
+  rewind(): void {
+    this.cursors.clear();
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      const parsed = JSON.parse(raw) as CassetteFile;
+      this.entries = parsed.entries || {};
+      logger.info(`📼 Loaded LLM cassette (${Object.keys(this.entries).length} prompts) from ${this.filePath}`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error(`Failed to read LLM cassette ${this.filePath}:`, error);
+      }
+      this.entries = {};
+    }
+  }
+
+  private async save(): Promise<void> {
+    // Serialize writes so concurrent recordings don't interleave
+    this.writeChain = this.writeChain.then(async () => {
+      const file: CassetteFile = { version: 1, entries: this.entries };
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(this.filePath, JSON.stringify(file, null, 2), 'utf-8');
+    }).catch(error => {
+      logger.error(`Failed to write LLM cassette ${this.filePath}:`, error);
+    });
+    await this.writeChain;
+  }
+}
+
+// Singleton instance
+let cassette: LLMCassette | null = null;
+
+export function getLLMCassette(): LLMCassette {
+  if (!cassette) {
+    const mode = (['record', 'replay'].includes(CONFIG.LLM_CASSETTE_MODE)
+      ? CONFIG.LLM_CASSETTE_MODE
+      : 'off') as CassetteMode;
+    cassette = new LLMCassette(mode, path.resolve(CONFIG.LLM_CASSETTE_PATH));
+    if (mode !== 'off') {
+      logger.info(`📼 LLM cassette in ${mode} mode: ${cassette.filePath}`);
+    }
+  }
+  return cassette;
+}
+
+export function resetLLMCassette(): void {
+  cassette = null;
+}
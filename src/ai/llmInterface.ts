@@ -1,11 +1,13 @@
 // src/ai/llmInterface.ts
-// Interface for AI decision making using OpenRouter and LLM models
+// Interface for AI decision making using pluggable LLM providers (see llmRouter)
 // Provides intelligent trading decisions based on market data and memories
 
-import fetch from 'node-fetch';
 import { logger } from '../utils/logger';
-import { CONFIG } from '../config';
 import type { AIPersonality } from './immortalAgent';
+import { getLLMRouter } from './llmRouter';
+import type { ChatMessage, CompletionRequest } from './llmProviders';
+import { decisionJsonSchema, maxDecisionAmount, validateAIDecision } from './decisionSchema';
+import { recordAIDecisionParseFailure } from '../monitoring/metrics';
 
 export interface AIDecisionRequest {
   context: string;
@@ -20,57 +22,44 @@ export interface AIDecisionResponse {
   reasoning: string;
   strategy: string;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+  targetPrice?: number;
+  stopLoss?: number;
 }
 
 /**
- * Get AI trading decision using OpenRouter and advanced LLM models
+ * Get AI trading decision from the configured LLM providers
  */
 export async function getAIDecision(
   context: string, 
   personality: AIPersonality
 ): Promise<AIDecisionResponse> {
   try {
-    if (!CONFIG.OPENROUTER_API_KEY) {
-      logger.warn('No OpenRouter API key configured, using fallback logic');
-      return getFallbackDecision(context, personality);
-    }
-
-    const prompt = buildTradingPrompt(context, personality);
-    
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${CONFIG.OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://immortal-bnb-bot.vercel.app',
-        'X-Title': 'Immortal BNB Trading Bot'
+    const maxAmount = maxDecisionAmount();
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: getSystemPrompt(maxAmount)
       },
-      body: JSON.stringify({
-        model: 'anthropic/claude-3.5-sonnet',
-        messages: [
-          {
-            role: 'system',
-            content: getSystemPrompt()
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
+      {
+        role: 'user',
+        content: buildTradingPrompt(context, personality)
+      }
+    ];
+    const ruleBased = () => JSON.stringify(getFallbackDecision(context, personality));
+    
+    const aiResponse = await requestCompletion(
+      'getAIDecision',
+      messages,
+      {
         temperature: 0.3,
-        max_tokens: 1000,
-        top_p: 0.9
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenRouter API error: ${response.statusText}`);
-    }
-
-    const data = await response.json() as any;
-    const aiResponse = data.choices[0].message.content;
+        maxTokens: 1000,
+        topP: 0.9,
+        responseSchema: { name: 'trading_decision', schema: decisionJsonSchema(maxAmount) }
+      },
+      ruleBased
+    );
     
-    return parseAIResponse(aiResponse);
+    return await parseAIResponse(aiResponse, messages, maxAmount, ruleBased);
     
   } catch (error) {
     logger.error('AI decision failed:', error);
@@ -78,10 +67,23 @@ export async function getAIDecision(
   }
 }
 
+/**
+ * Send a chat completion through the provider router (failover, accounting, cassette)
+ */
+async function requestCompletion(
+  callSite: string,
+  messages: ChatMessage[],
+  params: Pick<CompletionRequest, 'temperature' | 'maxTokens' | 'topP' | 'responseSchema'>,
+  ruleBased?: () => string
+): Promise<string> {
+  const result = await getLLMRouter().complete({ callSite, messages, ...params, ruleBased });
+  return result.content;
+}
+
 /**
  * Get system prompt that defines the AI's role and behavior
  */
-function getSystemPrompt(): string {
+function getSystemPrompt(maxAmount: number): string {
   return `You are an immortal AI trading agent operating on BNB Chain and PancakeSwap. You have access to decentralized memory storage on BNB Greenfield that allows you to learn from past trades and evolve your strategies over time.
 
 Your capabilities:
@@ -101,11 +103,13 @@ Decision format:
 You must respond with a JSON object containing:
 {
   "action": "BUY" | "SELL" | "HOLD",
-  "amount": number (0-1, representing percentage of available funds),
+  "amount": number (BNB amount to trade, max ${maxAmount}),
   "confidence": number (0-1, representing confidence in decision),
   "reasoning": "detailed explanation of decision",
   "strategy": "name of strategy being used",
-  "riskLevel": "LOW" | "MEDIUM" | "HIGH"
+  "riskLevel": "LOW" | "MEDIUM" | "HIGH",
+  "targetPrice": number | null (take-profit price for a BUY, null if none),
+  "stopLoss": number | null (stop price for a BUY below the current price, null if none)
 }
 
 Always consider:
@@ -136,39 +140,67 @@ Based on this information, your personality, and your immortal memories, what is
 }
 
 /**
- * Parse AI response and extract trading decision
+ * Validate the AI response against the decision schema.
+ * An invalid completion gets one repair pass with the validation errors;
+ * if that is still invalid the decision is a HOLD, never a guessed trade.
  */
-function parseAIResponse(response: string): AIDecisionResponse {
+async function parseAIResponse(
+  response: string,
+  messages: ChatMessage[],
+  maxAmount: number,
+  ruleBased: () => string
+): Promise<AIDecisionResponse> {
+  const first = validateAIDecision(response, maxAmount);
+  if (first.valid) {
+    return first.decision;
+  }
+
+  recordAIDecisionParseFailure('initial');
+  logger.warn(`Invalid AI decision (${first.errors.join('; ')}), requesting repair`);
+
   try {
-    // Extract JSON from response
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in AI response');
+    const repaired = await requestCompletion(
+      'getAIDecision',
+      [
+        ...messages,
+        { role: 'assistant', content: response },
+        {
+          role: 'user',
+          content: `Your response did not match the required schema:
+${first.errors.map(e => `- ${e}`).join('\n')}
+
+Reply with the corrected JSON object only. "amount" is a BNB amount between 0 and ${maxAmount}.`
+        }
+      ],
+      {
+        temperature: 0,
+        maxTokens: 1000,
+        responseSchema: { name: 'trading_decision', schema: decisionJsonSchema(maxAmount) }
+      },
+      ruleBased
+    );
+
+    const second = validateAIDecision(repaired, maxAmount);
+    if (second.valid) {
+      logger.info('AI decision repaired');
+      return second.decision;
     }
-    
-    const parsed = JSON.parse(jsonMatch[0]);
-    
-    // Validate and clean response
-    return {
-      action: ['BUY', 'SELL', 'HOLD'].includes(parsed.action) ? parsed.action : 'HOLD',
-      amount: Math.max(0, Math.min(1, parseFloat(parsed.amount) || 0)),
-      confidence: Math.max(0, Math.min(1, parseFloat(parsed.confidence) || 0)),
-      reasoning: String(parsed.reasoning || 'No reasoning provided'),
-      strategy: String(parsed.strategy || 'default'),
-      riskLevel: ['LOW', 'MEDIUM', 'HIGH'].includes(parsed.riskLevel) ? parsed.riskLevel : 'MEDIUM'
-    };
-    
+
+    recordAIDecisionParseFailure('repair');
+    logger.warn(`AI decision still invalid after repair: ${second.errors.join('; ')}`);
   } catch (error) {
-    logger.warn('Failed to parse AI response:', error);
-    return {
-      action: 'HOLD',
-      amount: 0,
-      confidence: 0.3,
-      reasoning: 'Failed to parse AI response',
-      strategy: 'error',
-      riskLevel: 'MEDIUM'
-    };
+    recordAIDecisionParseFailure('repair');
+    logger.warn('AI decision repair failed:', error);
   }
+
+  return {
+    action: 'HOLD',
+    amount: 0,
+    confidence: 0.3,
+    reasoning: 'Failed to parse AI response',
+    strategy: 'error',
+    riskLevel: 'MEDIUM'
+  };
 }
 
 /**
@@ -228,7 +260,7 @@ function getFallbackDecision(context: string, personality: AIPersonality): AIDec
   
   return {
     action,
-    amount: personality.riskTolerance * 0.5, // Conservative default
+    amount: Math.min(personality.riskTolerance * 0.5, maxDecisionAmount()), // Conservative default
     confidence,
     reasoning,
     strategy: 'fallback_heuristic',
@@ -264,38 +296,21 @@ Analyze the market sentiment and respond with JSON:
   "reasoning": "explanation"
 }`;
 
-    if (!CONFIG.OPENROUTER_API_KEY) {
-      return {
+    const aiResponse = await requestCompletion(
+      'analyzeSentiment',
+      [
+        { role: 'user', content: prompt }
+      ],
+      {
+        temperature: 0.3,
+        maxTokens: 500
+      },
+      () => JSON.stringify({
         sentiment: 'neutral',
         confidence: 0.5,
         reasoning: 'No AI available for sentiment analysis'
-      };
-    }
-
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${CONFIG.OPENROUTER_API_KEY}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': 'https://immortal-bnb-bot.vercel.app',
-        'X-Title': 'Immortal BNB Trading Bot'
-      },
-      body: JSON.stringify({
-        model: 'anthropic/claude-3.5-sonnet',
-        messages: [
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.3,
-        max_tokens: 500
       })
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenRouter API error: ${response.statusText}`);
-    }
-
-    const data = await response.json() as any;
-    const aiResponse = data.choices[0].message.content;
+    );
     
     const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
     if (jsonMatch) {
@@ -351,30 +366,48 @@ ${recentMemories.map(m =>
 Suggest improvements to this trading strategy.
 `;
 
-    // For now, return a simple heuristic-based suggestion
-    const suggestions: string[] = [];
-    const newParameters: Record<string, number> = {};
-    
-    if (performance.successRate < 50) {
-      suggestions.push('Increase risk management thresholds');
-      suggestions.push('Require higher confidence scores');
-      newParameters.minConfidence = 0.7;
-    } else if (performance.successRate > 70) {
-      suggestions.push('Consider increasing position sizes');
-      suggestions.push('Explore more aggressive opportunities');
-      newParameters.maxPositionSize = 1.2;
-    }
-    
-    if (performance.avgReturn < 2) {
-      suggestions.push('Focus on higher volatility tokens');
-      newParameters.minVolatility = 0.1;
+    try {
+      const aiResponse = await requestCompletion(
+        'evolveStrategy',
+        [
+          {
+            role: 'user',
+            content: `${context}
+Respond with JSON only:
+{
+  "suggestions": ["short actionable suggestion", ...],
+  "newParameters": { "parameterName": number, ... },
+  "confidence": number (0-1)
+}`
+          }
+        ],
+        {
+          temperature: 0.3,
+          maxTokens: 500
+        },
+        () => JSON.stringify(getHeuristicEvolution(performance))
+      );
+
+      const jsonMatch = aiResponse.match(/\{[\s\S]*\}/);
+      if (jsonMatch) {
+        const parsed = JSON.parse(jsonMatch[0]);
+        const newParameters: Record<string, number> = {};
+        for (const [key, value] of Object.entries(parsed.newParameters || {})) {
+          const numeric = parseFloat(value as string);
+          if (Number.isFinite(numeric)) newParameters[key] = numeric;
+        }
+        return {
+          suggestions: Array.isArray(parsed.suggestions) ? parsed.suggestions.map(String) : [],
+          newParameters,
+          confidence: Math.max(0, Math.min(1, parseFloat(parsed.confidence) || 0.5))
+        };
+      }
+      logger.warn('No valid JSON in strategy evolution response, using heuristics');
+    } catch (error) {
+      logger.warn('AI strategy evolution failed, using heuristics:', error);
     }
-    
-    return {
-      suggestions,
-      newParameters,
-      confidence: 0.6
-    };
+
+    return getHeuristicEvolution(performance);
     
   } catch (error) {
     logger.warn('Strategy evolution failed:', error);
@@ -386,6 +419,39 @@ Suggest improvements to this trading strategy.
   }
 }
 
+/**
+ * Heuristic strategy suggestions when no AI response is available
+ */
+function getHeuristicEvolution(performance: { successRate: number; avgReturn: number }): {
+  suggestions: string[];
+  newParameters: Record<string, number>;
+  confidence: number;
+} {
+  const suggestions: string[] = [];
+  const newParameters: Record<string, number> = {};
+  
+  if (performance.successRate < 50) {
+    suggestions.push('Increase risk management thresholds');
+    suggestions.push('Require higher confidence scores');
+    newParameters.minConfidence = 0.7;
+  } else if (performance.successRate > 70) {
+    suggestions.push('Consider increasing position sizes');
+    suggestions.push('Explore more aggressive opportunities');
+    newParameters.maxPositionSize = 1.2;
+  }
+  
+  if (performance.avgReturn < 2) {
+    suggestions.push('Focus on higher volatility tokens');
+    newParameters.minVolatility = 0.1;
+  }
+  
+  return {
+    suggestions,
+    newParameters,
+    confidence: 0.6
+  };
+}
+
 export default {
   getAIDecision,
   analyzeSentiment,
@@ -0,0 +1,214 @@
+// src/ai/llmProviders.ts
+// LLM provider implementations behind a common interface:
+// OpenRouter, any OpenAI-compatible endpoint (llama.cpp / Ollama / vLLM) and a rule-based fallback
+
+import { CONFIG } from '../config';
+import { CircuitBreaker, openRouterCircuitBreaker, localLLMCircuitBreaker } from '../resilience/circuitBreaker';
+
+export type ProviderName = 'openrouter' | 'local' | 'rule-based';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  callSite: string; // e.g. 'getAIDecision', used for routing and accounting
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  // Structured output: JSON Schema the completion must follow (sent as response_format)
+  responseSchema?: { name: string; schema: Record<string, unknown> };
+  // Deterministic answer used by the rule-based provider (JSON text, same shape the model returns)
+  ruleBased?: () => string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface CompletionResult {
+  content: string;
+  provider: ProviderName | 'cassette';
+  model: string;
+  usage: TokenUsage;
+  costUSD: number;
+  latencyMs: number;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  isAvailable(): boolean;
+  complete(request: CompletionRequest, model?: string): Promise<CompletionResult>;
+}
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string; // up to and including /v1
+  apiKey?: string;
+  defaultModel: string;
+  timeoutMs: number;
+  inputCostPerMTok: number; // USD per 1M prompt tokens
+  outputCostPerMTok: number; // USD per 1M completion tokens
+  headers?: Record<string, string>;
+  circuitBreaker?: CircuitBreaker;
+}
+
+/**
+ * Provider for any server speaking the OpenAI chat completions API
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: ProviderName = 'local';
+  protected options: OpenAICompatibleOptions;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.options = options;
+  }
+
+  isAvailable(): boolean {
+    return !!this.options.baseUrl;
+  }
+
+  async complete(request: CompletionRequest, model: string = this.options.defaultModel): Promise<CompletionResult> {
+    const call = () => this.send(request, model);
+    return this.options.circuitBreaker ? this.options.circuitBreaker.execute(call) : call();
+  }
+
+  protected buildBody(request: CompletionRequest, model: string): Record<string, unknown> {
+    return {
+      model,
+      messages: request.messages,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.maxTokens !== undefined && { max_tokens: request.maxTokens }),
+      ...(request.topP !== undefined && { top_p: request.topP }),
+      ...(request.responseSchema && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: request.responseSchema.name, strict: true, schema: request.responseSchema.schema },
+        },
+      }),
+    };
+  }
+
+  private async send(request: CompletionRequest, model: string): Promise<CompletionResult> {
+    const startTime = Date.now();
+
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey && { 'Authorization': `Bearer ${this.options.apiKey}` }),
+        ...this.options.headers,
+      },
+      body: JSON.stringify(this.buildBody(request, model)),
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`${this.name} API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as any;
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error(`${this.name} returned no completion`);
+    }
+
+    const usage: TokenUsage = {
+      promptTokens: data.usage?.prompt_tokens || 0,
+      completionTokens: data.usage?.completion_tokens || 0,
+    };
+
+    return {
+      content,
+      provider: this.name,
+      model: data.model || model,
+      usage,
+      costUSD: typeof data.usage?.cost === 'number' ? data.usage.cost : this.estimateCost(usage),
+      latencyMs: Date.now() - startTime,
+    };
+  }
+
+  private estimateCost(usage: TokenUsage): number {
+    return (
+      (usage.promptTokens * this.options.inputCostPerMTok +
+        usage.completionTokens * this.options.outputCostPerMTok) / 1_000_000
+    );
+  }
+}
+
+/**
+ * OpenRouter (OpenAI-compatible, reports per-request cost when asked to)
+ */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  override readonly name: ProviderName = 'openrouter';
+
+  constructor(options: Partial<OpenAICompatibleOptions> = {}) {
+    super({
+      baseUrl: 'https://openrouter.ai/api/v1',
+      apiKey: CONFIG.OPENROUTER_API_KEY,
+      defaultModel: CONFIG.AI_MODEL,
+      timeoutMs: CONFIG.OPENROUTER_TIMEOUT_MS,
+      inputCostPerMTok: CONFIG.OPENROUTER_INPUT_COST_PER_MTOK,
+      outputCostPerMTok: CONFIG.OPENROUTER_OUTPUT_COST_PER_MTOK,
+      headers: {
+        'HTTP-Referer': 'https://immortal-bnb-bot.vercel.app',
+        'X-Title': 'Immortal BNB Trading Bot',
+      },
+      circuitBreaker: openRouterCircuitBreaker,
+      ...options,
+    });
+  }
+
+  override isAvailable(): boolean {
+    return !!this.options.apiKey;
+  }
+
+  protected override buildBody(request: CompletionRequest, model: string): Record<string, unknown> {
+    return { ...super.buildBody(request, model), usage: { include: true } };
+  }
+}
+
+/**
+ * Local OpenAI-compatible server (llama.cpp, Ollama, vLLM, LM Studio)
+ */
+export function createLocalProvider(options: Partial<OpenAICompatibleOptions> = {}): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider({
+    baseUrl: CONFIG.LOCAL_LLM_BASE_URL,
+    apiKey: CONFIG.LOCAL_LLM_API_KEY,
+    defaultModel: CONFIG.LOCAL_LLM_MODEL,
+    timeoutMs: CONFIG.LOCAL_LLM_TIMEOUT_MS,
+    inputCostPerMTok: 0,
+    outputCostPerMTok: 0,
+    circuitBreaker: localLLMCircuitBreaker,
+    ...options,
+  });
+}
+
+/**
+ * Deterministic heuristics supplied by the call site; never fails if the call site provides one
+ */
+export class RuleBasedProvider implements LLMProvider {
+  readonly name: ProviderName = 'rule-based';
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    if (!request.ruleBased) {
+      throw new Error(`No rule-based fallback for ${request.callSite}`);
+    }
+
+    const startTime = Date.now();
+    return {
+      content: request.ruleBased(),
+      provider: this.name,
+      model: 'heuristic',
+      usage: { promptTokens: 0, completionTokens: 0 },
+      costUSD: 0,
+      latencyMs: Date.now() - startTime,
+    };
+  }
+}
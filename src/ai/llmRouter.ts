@@ -0,0 +1,223 @@
+// src/ai/llmRouter.ts
+// Routes LLM calls to providers per call site, fails over down the configured chain,
+// and keeps token / cost accounting. Every call goes through the record/replay cassette.
+
+import { logger } from '../utils/logger';
+import { CONFIG } from '../config';
+import { getLLMCassette } from './llmCassette';
+import type { LLMCassette } from './llmCassette';
+import { OpenRouterProvider, RuleBasedProvider, createLocalProvider } from './llmProviders';
+import type { CompletionRequest, CompletionResult, LLMProvider, ProviderName } from './llmProviders';
+
+export interface RouteStep {
+  provider: ProviderName;
+  model?: string; // provider default when omitted
+}
+
+export interface UsageStats {
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUSD: number;
+  avgLatencyMs: number;
+}
+
+const PROVIDER_NAMES: ProviderName[] = ['openrouter', 'local', 'rule-based'];
+
+/**
+ * Parse a failover chain such as "local,openrouter:anthropic/claude-3.5-sonnet,rule-based".
+ * Only the first ':' separates provider from model (Ollama tags contain ':').
+ */
+export function parseChain(chain: string): RouteStep[] {
+  return chain
+    .split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map((part): RouteStep | null => {
+      const separator = part.indexOf(':');
+      const provider = (separator === -1 ? part : part.slice(0, separator)) as ProviderName;
+      if (!PROVIDER_NAMES.includes(provider)) {
+        logger.warn(`Unknown LLM provider "${provider}" in route, ignoring`);
+        return null;
+      }
+      return separator === -1 ? { provider } : { provider, model: part.slice(separator + 1) };
+    })
+    .filter((step): step is RouteStep => step !== null);
+}
+
+/**
+ * Parse per call site routes: "callSite=chain;callSite=chain"
+ */
+export function parseRoutes(spec: string): Record<string, RouteStep[]> {
+  const routes: Record<string, RouteStep[]> = {};
+  for (const entry of spec.split(';')) {
+    const separator = entry.indexOf('=');
+    if (separator === -1) continue;
+    const callSite = entry.slice(0, separator).trim();
+    const steps = parseChain(entry.slice(separator + 1));
+    if (callSite && steps.length > 0) {
+      routes[callSite] = steps;
+    }
+  }
+  return routes;
+}
+
+function emptyStats(): UsageStats {
+  return { calls: 0, failures: 0, promptTokens: 0, completionTokens: 0, costUSD: 0, avgLatencyMs: 0 };
+}
+
+export class LLMRouter {
+  private providers: Map<ProviderName, LLMProvider>;
+  private routes: Record<string, RouteStep[]>;
+  private defaultChain: RouteStep[];
+  private cassette: LLMCassette;
+  private byProvider: Map<string, UsageStats> = new Map();
+  private byCallSite: Map<string, UsageStats> = new Map();
+
+  constructor(options: {
+    providers?: LLMProvider[];
+    routes?: string;
+    defaultChain?: string;
+    cassette?: LLMCassette;
+  } = {}) {
+    const providers = options.providers || [
+      new OpenRouterProvider(),
+      createLocalProvider(),
+      new RuleBasedProvider(),
+    ];
+    this.providers = new Map(providers.map(p => [p.name, p]));
+    this.routes = parseRoutes(options.routes ?? CONFIG.LLM_ROUTES);
+    this.defaultChain = parseChain(options.defaultChain ?? CONFIG.LLM_PROVIDERS);
+    this.cassette = options.cassette || getLLMCassette();
+  }
+
+  /**
+   * Failover chain for a call site
+   */
+  getRoute(callSite: string): RouteStep[] {
+    return this.routes[callSite] || this.defaultChain;
+  }
+
+  /**
+   * Complete a chat request, trying each provider of the call site's route in order
+   */
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const route = this.getRoute(request.callSite);
+    const routeId = route.map(s => (s.model ? `${s.provider}:${s.model}` : s.provider)).join(',');
+    const live: { result?: CompletionResult } = {};
+    const startTime = Date.now();
+
+    const content = await this.cassette.run(
+      {
+        callSite: request.callSite,
+        model: routeId,
+        messages: request.messages,
+        params: { temperature: request.temperature, maxTokens: request.maxTokens, topP: request.topP },
+      },
+      async () => {
+        live.result = await this.completeLive(request, route);
+        return live.result.content;
+      }
+    );
+
+    return live.result || {
+      content,
+      provider: 'cassette',
+      model: routeId,
+      usage: { promptTokens: 0, completionTokens: 0 },
+      costUSD: 0,
+      latencyMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Token, cost and failure accounting since startup
+   */
+  getUsage(): {
+    total: UsageStats;
+    byProvider: Record<string, UsageStats>;
+    byCallSite: Record<string, UsageStats>;
+  } {
+    const total = emptyStats();
+    let latencyWeighted = 0;
+    for (const stats of this.byProvider.values()) {
+      total.calls += stats.calls;
+      total.failures += stats.failures;
+      total.promptTokens += stats.promptTokens;
+      total.completionTokens += stats.completionTokens;
+      total.costUSD += stats.costUSD;
+      latencyWeighted += stats.avgLatencyMs * stats.calls;
+    }
+    total.avgLatencyMs = total.calls > 0 ? latencyWeighted / total.calls : 0;
+
+    return {
+      total,
+      byProvider: Object.fromEntries(this.byProvider),
+      byCallSite: Object.fromEntries(this.byCallSite),
+    };
+  }
+
+  private async completeLive(request: CompletionRequest, route: RouteStep[]): Promise<CompletionResult> {
+    const errors: string[] = [];
+
+    for (const step of route) {
+      const provider = this.providers.get(step.provider);
+      if (!provider || !provider.isAvailable()) {
+        logger.debug(`LLM provider ${step.provider} not configured, skipping for ${request.callSite}`);
+        continue;
+      }
+
+      try {
+        const result = await provider.complete(request, step.model);
+        this.record(step.provider, request.callSite, result);
+        return result;
+      } catch (error) {
+        const message = (error as Error).message;
+        errors.push(`${step.provider}: ${message}`);
+        this.recordFailure(step.provider, request.callSite);
+        logger.warn(`⚠️  LLM provider ${step.provider} failed for ${request.callSite}: ${message}`);
+      }
+    }
+
+    throw new Error(`All LLM providers failed for ${request.callSite}${errors.length ? ` (${errors.join('; ')})` : ''}`);
+  }
+
+  private record(provider: string, callSite: string, result: CompletionResult): void {
+    for (const stats of [this.statsFor(this.byProvider, provider), this.statsFor(this.byCallSite, callSite)]) {
+      stats.avgLatencyMs = (stats.avgLatencyMs * stats.calls + result.latencyMs) / (stats.calls + 1);
+      stats.calls++;
+      stats.promptTokens += result.usage.promptTokens;
+      stats.completionTokens += result.usage.completionTokens;
+      stats.costUSD += result.costUSD;
+    }
+  }
+
+  private recordFailure(provider: string, callSite: string): void {
+    this.statsFor(this.byProvider, provider).failures++;
+    this.statsFor(this.byCallSite, callSite).failures++;
+  }
+
+  private statsFor(map: Map<string, UsageStats>, key: string): UsageStats {
+    let stats = map.get(key);
+    if (!stats) {
+      stats = emptyStats();
+      map.set(key, stats);
+    }
+    return stats;
+  }
+}
+
+// Singleton instance
+let llmRouter: LLMRouter | null = null;
+
+export function getLLMRouter(): LLMRouter {
+  if (!llmRouter) {
+    llmRouter = new LLMRouter();
+  }
+  return llmRouter;
+}
+
+export function resetLLMRouter(): void {
+  llmRouter = null;
+}
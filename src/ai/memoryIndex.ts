@@ -0,0 +1,303 @@
+/**
+ * Memory Vector Index
+ * k-NN retrieval over trade memories for RAG. Each memory is indexed as a numeric
+ * feature vector of its market conditions plus an optional text embedding of its
+ * reasoning and lessons; search blends both, boosts the same token and weights
+ * recent memories higher. Search is exact (brute force) - memory counts are small
+ * enough that an approximate index would not pay for itself.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger';
+import type { ExtendedTradeMemory } from './immortalAgent';
+import type { ImmortalMemory } from '../types/unifiedMemory';
+
+// Bump when feature extraction changes so persisted indexes are rebuilt
+const FEATURE_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TEXT_WEIGHT = 0.25;
+const SAME_TOKEN_BONUS = 0.15;
+const RECENCY_WEIGHT = 0.3;
+
+export type IndexedOutcome = 'win' | 'loss' | 'pending';
+
+export interface MarketSnapshot {
+  volume24h?: number;
+  liquidity?: number;
+  priceChange24h?: number;
+  buySellPressure?: number;
+  volatility?: number;
+  marketTrend?: 'bullish' | 'bearish' | 'sideways';
+}
+
+export interface IndexEntry {
+  id: string;
+  timestamp: number;
+  tokenAddress?: string;
+  outcome: IndexedOutcome;
+  features: number[];
+  text?: number[];
+}
+
+export interface SimilarityQuery {
+  market: MarketSnapshot;
+  tokenAddress?: string;
+  text?: string;
+  excludeId?: string;
+}
+
+export interface SearchOptions {
+  k?: number;
+  outcomes?: IndexedOutcome[];
+  ids?: Set<string>; // restrict candidates, e.g. to memories passing other filters
+  now?: number;
+  recencyHalfLifeMs?: number;
+  minScore?: number;
+}
+
+export interface SimilarMatch {
+  id: string;
+  score: number; // similarity after token bonus and recency weighting
+  similarity: number; // raw 0-1 feature/text similarity
+}
+
+/**
+ * Turns free text into a fixed-size vector. The default hashes words locally;
+ * a model-backed embedder can be plugged in with the same interface.
+ */
+export interface TextEmbedder {
+  readonly id: string;
+  embed(text: string): number[];
+}
+
+/**
+ * Feature-hashed bag of words, L2-normalised; deterministic and offline
+ */
+export class HashingTextEmbedder implements TextEmbedder {
+  readonly id: string;
+
+  constructor(private dimensions: number = 64) {
+    this.id = `hashing-${dimensions}`;
+  }
+
+  embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const word of text.toLowerCase().match(/[a-z0-9]{3,}/g) || []) {
+      const hash = fnv1a(word);
+      vector[hash % this.dimensions]! += hash & 0x80000000 ? -1 : 1;
+    }
+    return normalize(vector);
+  }
+}
+
+/**
+ * Market conditions scaled to roughly [-1, 1] per dimension
+ */
+export function marketFeatures(market: MarketSnapshot): number[] {
+  const trend = market.marketTrend === 'bullish' ? 1 : market.marketTrend === 'bearish' ? -1 : 0;
+  return [
+    Math.log10(1 + Math.max(0, market.volume24h || 0)) / 10,
+    Math.log10(1 + Math.max(0, market.liquidity || 0)) / 10,
+    clamp((market.priceChange24h || 0) / 100, -1, 1),
+    clamp(market.buySellPressure || 0, -1, 1),
+    clamp((market.volatility || 0) / 100, 0, 1),
+    trend * 0.5,
+  ];
+}
+
+export class MemoryVectorIndex {
+  private entries: Map<string, IndexEntry> = new Map();
+  private dirty = false;
+
+  constructor(private embedder: TextEmbedder | null = new HashingTextEmbedder()) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get isDirty(): boolean {
+    return this.dirty;
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  ids(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  upsert(entry: IndexEntry): void {
+    const existing = this.entries.get(entry.id);
+    if (existing && JSON.stringify(existing) === JSON.stringify(entry)) {
+      return;
+    }
+    this.entries.set(entry.id, entry);
+    this.dirty = true;
+  }
+
+  remove(id: string): void {
+    if (this.entries.delete(id)) {
+      this.dirty = true;
+    }
+  }
+
+  indexTradeMemory(memory: ExtendedTradeMemory): void {
+    this.upsert({
+      id: memory.id,
+      timestamp: memory.timestamp,
+      tokenAddress: memory.tokenAddress || undefined,
+      outcome: memory.outcome === 'profit' ? 'win' : memory.outcome === 'loss' ? 'loss' : 'pending',
+      features: marketFeatures(memory.marketConditions),
+      ...this.embedText([memory.aiReasoning, ...memory.lessons].join(' ')),
+    });
+  }
+
+  indexImmortalMemory(memory: ImmortalMemory): void {
+    this.upsert({
+      id: memory.id,
+      timestamp: memory.timestamp,
+      tokenAddress: memory.asset.tokenAddress || memory.asset.marketId,
+      outcome: memory.outcome.status === 'success' ? 'win' : memory.outcome.status === 'fail' ? 'loss' : 'pending',
+      features: marketFeatures(memory.market),
+      ...this.embedText([memory.ai.reasoning, memory.learning.lessons || ''].join(' ')),
+    });
+  }
+
+  /**
+   * Query built from an indexed memory, for "more like this one"
+   */
+  queryFor(id: string): { features: number[]; text?: number[]; tokenAddress?: string } | null {
+    const entry = this.entries.get(id);
+    return entry ? { features: entry.features, text: entry.text, tokenAddress: entry.tokenAddress } : null;
+  }
+
+  search(query: SimilarityQuery, options: SearchOptions = {}): SimilarMatch[] {
+    return this.searchVector(
+      {
+        features: marketFeatures(query.market),
+        text: query.text ? this.embedText(query.text).text : undefined,
+        tokenAddress: query.tokenAddress,
+      },
+      options,
+      query.excludeId
+    );
+  }
+
+  searchVector(
+    query: { features: number[]; text?: number[]; tokenAddress?: string },
+    options: SearchOptions = {},
+    excludeId?: string
+  ): SimilarMatch[] {
+    const {
+      k = 5,
+      outcomes,
+      ids,
+      now = Date.now(),
+      recencyHalfLifeMs = 30 * DAY_MS,
+      minScore = 0,
+    } = options;
+    const token = query.tokenAddress?.toLowerCase();
+    const matches: SimilarMatch[] = [];
+
+    for (const entry of this.entries.values()) {
+      if (entry.id === excludeId) continue;
+      if (ids && !ids.has(entry.id)) continue;
+      if (outcomes && !outcomes.includes(entry.outcome)) continue;
+
+      let similarity = 1 / (1 + 2 * euclidean(query.features, entry.features));
+      if (query.text && entry.text) {
+        similarity = (1 - TEXT_WEIGHT) * similarity + TEXT_WEIGHT * Math.max(0, dot(query.text, entry.text));
+      }
+
+      const sameToken = !!token && entry.tokenAddress?.toLowerCase() === token;
+      const decay = Math.pow(0.5, Math.max(0, now - entry.timestamp) / recencyHalfLifeMs);
+      const score = Math.min(1, similarity + (sameToken ? SAME_TOKEN_BONUS : 0)) * (1 - RECENCY_WEIGHT + RECENCY_WEIGHT * decay);
+
+      if (score >= minScore) {
+        matches.push({ id: entry.id, score, similarity });
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  /**
+   * Persist the index; a no-op when nothing changed since the last save/load
+   */
+  async save(filePath: string): Promise<void> {
+    if (!this.dirty) return;
+
+    const content = JSON.stringify({
+      version: FEATURE_VERSION,
+      embedder: this.embedder?.id ?? null,
+      entries: Array.from(this.entries.values()),
+    });
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(`${filePath}.tmp`, content, 'utf-8');
+    await fs.rename(`${filePath}.tmp`, filePath);
+    this.dirty = false;
+  }
+
+  /**
+   * Load a persisted index; returns false (leaving the index empty) when the file is
+   * missing or was built with different features or embedder
+   */
+  async load(filePath: string): Promise<boolean> {
+    try {
+      const stored = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      if (stored.version !== FEATURE_VERSION || stored.embedder !== (this.embedder?.id ?? null)) {
+        logger.info('🧭 Memory index format changed - rebuilding');
+        return false;
+      }
+
+      this.entries = new Map((stored.entries as IndexEntry[]).map(entry => [entry.id, entry]));
+      this.dirty = false;
+      return true;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.warn(`⚠️  Could not load memory index ${filePath}: ${error.message}`);
+      }
+      return false;
+    }
+  }
+
+  private embedText(text: string): { text?: number[] } {
+    return this.embedder && text.trim() ? { text: this.embedder.embed(text) } : {};
+  }
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(dot(vector, vector));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i]! * b[i]!;
+  }
+  return sum;
+}
+
+function euclidean(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    sum += ((a[i] ?? 0) - (b[i] ?? 0)) ** 2;
+  }
+  return Math.sqrt(sum);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
@@ -0,0 +1,444 @@
+/**
+ * Portfolio Risk Engine
+ * Looks at held tokens together instead of one trade at a time:
+ * - Rolling return correlations from real OHLCV candles (MarketDataFetcher.getOHLCVCloses),
+ *   joined on candle timestamp; tokens too new for enough candles are charged a default
+ *   volatility as if they moved with the rest of the portfolio
+ * - Historical and parametric (variance-covariance) VaR plus expected shortfall
+ * - Concentration by sector and launch cohort
+ * Trades that would push portfolio VaR over the configured budget are rejected.
+ */
+
+import { logger } from '../utils/logger';
+import { CONFIG } from '../config';
+import { marketDataFetcher } from '../data/marketFetcher';
+import type { TokenData, PricePoint } from '../data/marketFetcher';
+
+// Fewer returns than this and a token is charged the default volatility instead
+const MIN_RETURNS = 5;
+const HISTORY_TTL_MS = 5 * 60 * 1000;
+const UNCLASSIFIED = 'unclassified';
+
+export interface RiskHolding {
+  tokenAddress: string;
+  symbol: string;
+  value: number; // BNB
+  sector?: string;
+  cohort?: string; // launch month of the token's main pair, e.g. '2025-03'
+}
+
+export interface RiskLimits {
+  confidence: number; // VaR confidence level, e.g. 0.95
+  varBudgetPercent: number; // max VaR as % of portfolio value
+  maxSectorPercent: number;
+  maxCohortPercent: number;
+  defaultVolatilityPercent: number; // per-interval return stdev for holdings without enough history
+}
+
+export interface VaRMetrics {
+  historical: number; // BNB
+  parametric: number; // BNB
+  expectedShortfall: number; // BNB, mean loss beyond historical VaR
+  binding: number; // larger of historical and parametric; compared to the budget
+}
+
+export interface PortfolioRiskReport {
+  timestamp: number;
+  portfolioValue: number; // cash + holdings, BNB
+  exposure: number; // holdings, BNB
+  confidence: number;
+  timeframe: string;
+  var: VaRMetrics;
+  varBudget: number; // BNB
+  budgetUsedPercent: number;
+  volatility: Record<string, number>; // per-interval return stdev by symbol
+  correlations: { symbols: string[]; matrix: number[][] };
+  concentration: {
+    bySector: Record<string, number>; // % of portfolio value
+    byCohort: Record<string, number>;
+    herfindahl: number; // 0-1 over holdings
+  };
+  missingHistory: string[]; // symbols charged defaultVolatilityPercent instead of measured returns
+  breaches: string[];
+}
+
+export interface TradeRiskCheck {
+  approved: boolean;
+  reason?: string;
+  before: PortfolioRiskReport;
+  after: PortfolioRiskReport;
+}
+
+export interface RiskDataSource {
+  getPriceHistory(tokenAddress: string, timeframe: '5m' | '1h' | '4h' | '1d'): Promise<PricePoint[]>;
+  getTokenData(tokenAddress: string): Promise<TokenData | null>;
+}
+
+export interface TimedReturn {
+  timestamp: number; // candle the return ends on
+  value: number;
+}
+
+/**
+ * Simple returns from one close to the next, oldest first
+ */
+export function toReturns(prices: PricePoint[]): TimedReturn[] {
+  const returns: TimedReturn[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    const prev = prices[i - 1]!.price;
+    const curr = prices[i]!;
+    if (prev > 0 && curr.price > 0) {
+      returns.push({ timestamp: curr.timestamp, value: curr.price / prev - 1 });
+    }
+  }
+  return returns;
+}
+
+/**
+ * Join return series on their timestamps, from the point every series has started.
+ * A missing candle means nothing traded in that interval, so the token's return there is 0
+ * (its next candle carries the whole move since the last one).
+ */
+export function alignReturns(series: TimedReturn[][]): number[][] {
+  if (series.length === 0) return [];
+  const start = Math.max(...series.map(returns => returns[0]?.timestamp ?? Infinity));
+  const timestamps = Array.from(new Set(series.flatMap(returns => returns.map(r => r.timestamp))))
+    .filter(timestamp => timestamp >= start)
+    .sort((a, b) => a - b);
+
+  return series.map(returns => {
+    const byTime = new Map(returns.map(r => [r.timestamp, r.value]));
+    return timestamps.map(timestamp => byTime.get(timestamp) ?? 0);
+  });
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+export function stdev(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+/**
+ * Pearson correlation; 0 when either series is flat
+ */
+export function correlation(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  const x = a.slice(-n);
+  const y = b.slice(-n);
+  const mx = mean(x);
+  const my = mean(y);
+
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = x[i]! - mx;
+    const dy = y[i]! - my;
+    cov += dx * dy;
+    vx += dx * dx;
+    vy += dy * dy;
+  }
+
+  return vx > 0 && vy > 0 ? cov / Math.sqrt(vx * vy) : 0;
+}
+
+/**
+ * Inverse standard normal CDF (Abramowitz & Stegun 26.2.23, error < 4.5e-4)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) {
+    throw new RangeError(`Quantile probability must be in (0, 1), got ${p}`);
+  }
+  const q = p < 0.5 ? p : 1 - p;
+  const t = Math.sqrt(-2 * Math.log(q));
+  const z = t - (2.515517 + 0.802853 * t + 0.010328 * t * t) / (1 + 1.432788 * t + 0.189269 * t * t + 0.001308 * t * t * t);
+  return p < 0.5 ? -z : z;
+}
+
+/**
+ * Standard normal density
+ */
+function normalDensity(z: number): number {
+  return Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * VaR and expected shortfall of a portfolio from per-token returns already joined on
+ * timestamp (see alignReturns), so index t is the same interval for every token.
+ */
+export function computeVaR(values: number[], returns: number[][], confidence: number): VaRMetrics {
+  const n = returns.length > 0 ? Math.min(...returns.map(r => r.length)) : 0;
+  if (n < MIN_RETURNS) {
+    return { historical: 0, parametric: 0, expectedShortfall: 0, binding: 0 };
+  }
+  const aligned = returns.map(r => r.slice(-n));
+
+  // Historical: revalue today's holdings under each past interval's returns
+  const pnl = Array.from({ length: n }, (_, t) =>
+    aligned.reduce((sum, r, i) => sum + values[i]! * r[t]!, 0)
+  ).sort((a, b) => a - b);
+  const tailCount = Math.max(1, Math.floor((1 - confidence) * n));
+  const historical = Math.max(0, -pnl[tailCount - 1]!);
+  const expectedShortfall = Math.max(0, -mean(pnl.slice(0, tailCount)));
+
+  // Parametric: sigma_p^2 = sum_ij v_i v_j rho_ij sigma_i sigma_j
+  const sigmas = aligned.map(stdev);
+  let variance = 0;
+  for (let i = 0; i < aligned.length; i++) {
+    for (let j = 0; j < aligned.length; j++) {
+      const rho = i === j ? 1 : correlation(aligned[i]!, aligned[j]!);
+      variance += values[i]! * values[j]! * rho * sigmas[i]! * sigmas[j]!;
+    }
+  }
+  const parametric = normalQuantile(confidence) * Math.sqrt(Math.max(0, variance));
+
+  return { historical, parametric, expectedShortfall, binding: Math.max(historical, parametric) };
+}
+
+/**
+ * Sector tags from RISK_TOKEN_SECTORS ("0xToken=defi,0xOther=meme")
+ */
+export function parseSectorMap(spec: string): Map<string, string> {
+  const sectors = new Map<string, string>();
+  for (const entry of spec.split(',')) {
+    const [address, sector] = entry.split('=').map(part => part.trim());
+    if (address && sector) {
+      sectors.set(address.toLowerCase(), sector);
+    }
+  }
+  return sectors;
+}
+
+/**
+ * Launch cohort of a token: the month its main pair was created
+ */
+export function launchCohort(pairCreatedAt?: number): string {
+  if (!pairCreatedAt) return UNCLASSIFIED;
+  return new Date(pairCreatedAt).toISOString().slice(0, 7);
+}
+
+export class PortfolioRiskEngine {
+  private limits: RiskLimits;
+  private sectors: Map<string, string>;
+  private history: Map<string, { returns: TimedReturn[]; fetchedAt: number }> = new Map();
+  private cohorts: Map<string, string> = new Map();
+
+  constructor(
+    private source: RiskDataSource = {
+      getPriceHistory: (token, timeframe) => marketDataFetcher.getOHLCVCloses(token, timeframe),
+      getTokenData: token => marketDataFetcher.getTokenData(token),
+    },
+    limits: Partial<RiskLimits> = {},
+    private timeframe: '5m' | '1h' | '4h' | '1d' = CONFIG.RISK_PRICE_TIMEFRAME
+  ) {
+    this.limits = {
+      confidence: CONFIG.RISK_VAR_CONFIDENCE,
+      varBudgetPercent: CONFIG.RISK_VAR_BUDGET_PERCENT,
+      maxSectorPercent: CONFIG.RISK_MAX_SECTOR_PERCENT,
+      maxCohortPercent: CONFIG.RISK_MAX_COHORT_PERCENT,
+      defaultVolatilityPercent: CONFIG.RISK_DEFAULT_VOLATILITY_PERCENT,
+      ...limits,
+    };
+    this.sectors = parseSectorMap(CONFIG.RISK_TOKEN_SECTORS);
+  }
+
+  getLimits(): RiskLimits {
+    return { ...this.limits };
+  }
+
+  /**
+   * Risk report for the given holdings and uninvested balance
+   */
+  async assess(holdings: RiskHolding[], cashBalance: number): Promise<PortfolioRiskReport> {
+    const merged = await this.classify(mergeHoldings(holdings));
+    const exposure = merged.reduce((sum, h) => sum + h.value, 0);
+    const portfolioValue = cashBalance + exposure;
+
+    const withHistory: Array<{ holding: RiskHolding; returns: TimedReturn[] }> = [];
+    const withoutHistory: RiskHolding[] = [];
+    for (const holding of merged) {
+      const returns = await this.getReturns(holding.tokenAddress);
+      if (returns.length >= MIN_RETURNS) {
+        withHistory.push({ holding, returns });
+      } else {
+        withoutHistory.push(holding);
+      }
+    }
+
+    const aligned = alignReturns(withHistory.map(h => h.returns));
+    const measured = computeVaR(withHistory.map(h => h.holding.value), aligned, this.limits.confidence);
+
+    // Fresh launches are what this bot trades: too new to measure is not risk-free. Their
+    // default volatility adds linearly (perfect correlation), the conservative bound.
+    const defaultSigma = this.limits.defaultVolatilityPercent / 100;
+    const unmeasuredSigma = withoutHistory.reduce((sum, h) => sum + h.value, 0) * defaultSigma;
+    const z = normalQuantile(this.limits.confidence);
+    const historical = measured.historical + z * unmeasuredSigma;
+    const parametric = measured.parametric + z * unmeasuredSigma;
+    const var_: VaRMetrics = {
+      historical,
+      parametric,
+      expectedShortfall: measured.expectedShortfall + unmeasuredSigma * normalDensity(z) / (1 - this.limits.confidence),
+      binding: Math.max(historical, parametric),
+    };
+    const varBudget = (portfolioValue * this.limits.varBudgetPercent) / 100;
+
+    const symbols = withHistory.map(h => h.holding.symbol);
+    const matrix = aligned.map((a, i) =>
+      aligned.map((b, j) => (i === j ? 1 : correlation(a, b)))
+    );
+
+    const bySector = shareBy(merged, h => h.sector || UNCLASSIFIED, portfolioValue);
+    const byCohort = shareBy(merged, h => h.cohort || UNCLASSIFIED, portfolioValue);
+    const herfindahl = exposure > 0 ? merged.reduce((sum, h) => sum + (h.value / exposure) ** 2, 0) : 0;
+
+    const breaches: string[] = [];
+    if (var_.binding > varBudget) {
+      breaches.push(`VaR ${var_.binding.toFixed(4)} BNB exceeds budget ${varBudget.toFixed(4)} BNB`);
+    }
+    for (const [sector, share] of Object.entries(bySector)) {
+      if (sector !== UNCLASSIFIED && share > this.limits.maxSectorPercent) {
+        breaches.push(`Sector ${sector} at ${share.toFixed(1)}% > ${this.limits.maxSectorPercent}%`);
+      }
+    }
+    for (const [cohort, share] of Object.entries(byCohort)) {
+      if (cohort !== UNCLASSIFIED && share > this.limits.maxCohortPercent) {
+        breaches.push(`Launch cohort ${cohort} at ${share.toFixed(1)}% > ${this.limits.maxCohortPercent}%`);
+      }
+    }
+
+    return {
+      timestamp: Date.now(),
+      portfolioValue,
+      exposure,
+      confidence: this.limits.confidence,
+      timeframe: this.timeframe,
+      var: var_,
+      varBudget,
+      budgetUsedPercent: varBudget > 0 ? (var_.binding / varBudget) * 100 : 0,
+      volatility: Object.fromEntries([
+        ...withHistory.map(h => [h.holding.symbol, stdev(h.returns.map(r => r.value))]),
+        ...withoutHistory.map(h => [h.symbol, defaultSigma]),
+      ]),
+      correlations: { symbols, matrix },
+      concentration: { bySector, byCohort, herfindahl },
+      missingHistory: withoutHistory.map(h => h.symbol),
+      breaches,
+    };
+  }
+
+  /**
+   * Check a BUY against the portfolio. A trade is rejected when it adds risk to a
+   * portfolio that would then breach a limit; trades that reduce risk always pass.
+   */
+  async checkTrade(holdings: RiskHolding[], cashBalance: number, trade: RiskHolding): Promise<TradeRiskCheck> {
+    const before = await this.assess(holdings, cashBalance);
+    const after = await this.assess([...holdings, trade], cashBalance - trade.value);
+
+    if (after.var.binding > after.varBudget && after.var.binding > before.var.binding) {
+      return {
+        approved: false,
+        reason: `Portfolio VaR would rise to ${after.var.binding.toFixed(4)} BNB (budget ${after.varBudget.toFixed(4)} BNB)`,
+        before,
+        after,
+      };
+    }
+
+    const tagged = (await this.classify([trade]))[0]!;
+    const concentration = [
+      { key: tagged.sector, shares: after.concentration.bySector, previous: before.concentration.bySector, limit: this.limits.maxSectorPercent, label: 'Sector' },
+      { key: tagged.cohort, shares: after.concentration.byCohort, previous: before.concentration.byCohort, limit: this.limits.maxCohortPercent, label: 'Launch cohort' },
+    ];
+    for (const { key, shares, previous, limit, label } of concentration) {
+      if (!key || key === UNCLASSIFIED) continue;
+      const share = shares[key] ?? 0;
+      if (share > limit && share > (previous[key] ?? 0)) {
+        return { approved: false, reason: `${label} ${key} would reach ${share.toFixed(1)}% (max ${limit}%)`, before, after };
+      }
+    }
+
+    return { approved: true, before, after };
+  }
+
+  private async getReturns(tokenAddress: string): Promise<TimedReturn[]> {
+    const key = tokenAddress.toLowerCase();
+    const cached = this.history.get(key);
+    if (cached && Date.now() - cached.fetchedAt < HISTORY_TTL_MS) {
+      return cached.returns;
+    }
+
+    try {
+      const returns = toReturns(await this.source.getPriceHistory(tokenAddress, this.timeframe));
+      this.history.set(key, { returns, fetchedAt: Date.now() });
+      return returns;
+    } catch (error) {
+      logger.warn(`Price history unavailable for ${tokenAddress}: ${(error as Error).message}`);
+      return cached?.returns ?? [];
+    }
+  }
+
+  /**
+   * Fill in sector (from RISK_TOKEN_SECTORS) and launch cohort (from the pair's creation time)
+   */
+  private async classify(holdings: RiskHolding[]): Promise<RiskHolding[]> {
+    const tagged: RiskHolding[] = [];
+    for (const holding of holdings) {
+      const key = holding.tokenAddress.toLowerCase();
+      let cohort = holding.cohort ?? this.cohorts.get(key);
+      if (!cohort) {
+        try {
+          cohort = launchCohort((await this.source.getTokenData(holding.tokenAddress))?.pairCreatedAt);
+        } catch {
+          cohort = UNCLASSIFIED;
+        }
+        this.cohorts.set(key, cohort);
+      }
+      tagged.push({ ...holding, sector: holding.sector ?? this.sectors.get(key) ?? UNCLASSIFIED, cohort });
+    }
+    return tagged;
+  }
+}
+
+/**
+ * Combine holdings of the same token
+ */
+function mergeHoldings(holdings: RiskHolding[]): RiskHolding[] {
+  const byToken = new Map<string, RiskHolding>();
+  for (const holding of holdings) {
+    const key = holding.tokenAddress.toLowerCase();
+    const existing = byToken.get(key);
+    byToken.set(key, existing ? { ...existing, value: existing.value + holding.value } : { ...holding });
+  }
+  return Array.from(byToken.values()).filter(h => h.value > 0);
+}
+
+function shareBy(holdings: RiskHolding[], keyOf: (h: RiskHolding) => string, total: number): Record<string, number> {
+  const shares: Record<string, number> = {};
+  if (total <= 0) return shares;
+  for (const holding of holdings) {
+    const key = keyOf(holding);
+    shares[key] = (shares[key] ?? 0) + (holding.value / total) * 100;
+  }
+  return shares;
+}
+
+let portfolioRiskEngine: PortfolioRiskEngine | null = null;
+
+export function getPortfolioRiskEngine(): PortfolioRiskEngine {
+  if (!portfolioRiskEngine) {
+    portfolioRiskEngine = new PortfolioRiskEngine();
+  }
+  return portfolioRiskEngine;
+}
+
+/**
+ * Reset the singleton (useful for testing)
+ */
+export function resetPortfolioRiskEngine(): void {
+  portfolioRiskEngine = null;
+}
@@ -12,6 +12,8 @@
 import { logger } from '../utils/logger';
 import { CONFIG } from '../config';
 import { getWalletBalance, getTokenBalance } from '../blockchain/tradeExecutor';
+import { getPortfolioRiskEngine } from './portfolioRisk';
+import type { PortfolioRiskReport, RiskHolding } from './portfolioRisk';
 
 export interface TradeRiskAssessment {
   approved: boolean;
@@ -26,6 +28,7 @@ export interface TradeRiskAssessment {
     balanceCheck: boolean;
     diversificationCheck: boolean;
     volatilityCheck: boolean;
+    portfolioRiskCheck: boolean;
   };
 }
 
@@ -120,6 +123,7 @@ export class RiskManager {
       balanceCheck: false,
       diversificationCheck: false,
       volatilityCheck: false,
+      portfolioRiskCheck: false,
     };
 
     // ═══════════════════════════════════════════════════════════
@@ -240,6 +244,28 @@ export class RiskManager {
       riskScore += 25;
     }
 
+    // ═══════════════════════════════════════════════════════════
+    // CHECK 9: Portfolio VaR & Concentration
+    // ═══════════════════════════════════════════════════════════
+    if (request.action === 'BUY') {
+      const portfolioCheck = await getPortfolioRiskEngine().checkTrade(
+        this.getRiskHoldings(),
+        request.currentBalance,
+        { tokenAddress: request.tokenAddress, symbol: request.tokenData.symbol, value: request.amount }
+      );
+
+      if (!portfolioCheck.approved) {
+        return {
+          approved: false,
+          reason: portfolioCheck.reason,
+          riskScore: 100,
+          warnings,
+          checks,
+        };
+      }
+    }
+    checks.portfolioRiskCheck = true;
+
     // ═══════════════════════════════════════════════════════════
     // FINAL DECISION
     // ═══════════════════════════════════════════════════════════
@@ -407,6 +433,26 @@ export class RiskManager {
     };
   }
 
+  /**
+   * Get VaR, correlation and concentration for the tracked positions
+   */
+  async getPortfolioRiskReport(currentBalance: number): Promise<PortfolioRiskReport> {
+    return getPortfolioRiskEngine().assess(this.getRiskHoldings(), currentBalance);
+  }
+
+  /**
+   * Active positions marked to their current price
+   */
+  private getRiskHoldings(): RiskHolding[] {
+    return this.getActivePositions().map(position => ({
+      tokenAddress: position.tokenAddress,
+      symbol: position.tokenSymbol,
+      value: position.entryPrice > 0
+        ? position.amount * (position.currentPrice / position.entryPrice)
+        : position.amount,
+    }));
+  }
+
   /**
    * Get risk manager status
    */
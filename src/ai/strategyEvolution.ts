@@ -2,7 +2,10 @@
 // Advanced strategy evolution system for the immortal AI agent
 // Implements genetic algorithm-like approach for strategy optimization
 
+import fs from 'fs/promises';
+import path from 'path';
 import { logger } from '../utils/logger';
+import { CONFIG } from '../config';
 import type { AIPersonality, StrategyEvolution, ExtendedTradeMemory } from './immortalAgent';
 
 export interface StrategyGene {
@@ -15,6 +18,43 @@ export interface StrategyGene {
   fitness: number; // Evolutionary fitness score
   generation: number;
   parentIds: string[];
+  validation?: GeneValidation; // Set once the gene has trades to be scored on
+}
+
+export interface GeneValidation {
+  inSampleFitness: number;
+  outOfSampleFitness: number | null; // null until a fold has enough out-of-sample trades
+  folds: number;
+  overfit: boolean; // out-of-sample trailed in-sample by more than the tolerance
+}
+
+export interface WalkForwardConfig {
+  trainWindowMs: number;
+  testWindowMs: number;
+  stepMs: number; // how far both windows roll between folds
+  minTestTrades: number; // folds with fewer out-of-sample trades are skipped
+  overfitTolerance: number; // allowed in-sample minus out-of-sample fitness gap
+  overfitPenalty: number; // fitness lost per unit of gap beyond the tolerance
+}
+
+export interface WalkForwardFold<T> {
+  train: T[];
+  test: T[];
+  testStart: number;
+  testEnd: number;
+}
+
+export interface EvolutionOptions {
+  walkForward: WalkForwardConfig;
+  historyPath: string | null; // JSONL of every generation; null disables persistence
+  now: () => number;
+}
+
+export interface GenerationRecord {
+  generation: number;
+  timestamp: number;
+  metrics: EvolutionMetrics;
+  population: StrategyGene[];
 }
 
 export interface MarketRegime {
@@ -39,6 +79,38 @@ export interface EvolutionMetrics {
   convergenceRate: number;
   mutationRate: number;
   crossoverRate: number;
+  avgOutOfSampleFitness: number | null;
+  overfitCount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Split time-ordered items into rolling train/test folds. Each test window starts where
+ * its train window ends, so a fold never scores on data it was selected on.
+ */
+export function walkForwardSplits<T extends { timestamp: number }>(
+  items: T[],
+  config: Pick<WalkForwardConfig, 'trainWindowMs' | 'testWindowMs' | 'stepMs'>
+): WalkForwardFold<T>[] {
+  if (items.length === 0 || config.stepMs <= 0) return [];
+
+  const sorted = [...items].sort((a, b) => a.timestamp - b.timestamp);
+  const last = sorted[sorted.length - 1]!.timestamp;
+  const folds: WalkForwardFold<T>[] = [];
+
+  for (let trainStart = sorted[0]!.timestamp; trainStart + config.trainWindowMs <= last; trainStart += config.stepMs) {
+    const testStart = trainStart + config.trainWindowMs;
+    const testEnd = testStart + config.testWindowMs;
+    const train = sorted.filter(m => m.timestamp >= trainStart && m.timestamp < testStart);
+    const test = sorted.filter(m => m.timestamp >= testStart && m.timestamp < testEnd);
+
+    if (train.length > 0 && test.length > 0) {
+      folds.push({ train, test, testStart, testEnd });
+    }
+  }
+
+  return folds;
 }
 
 export class StrategyEvolutionEngine {
@@ -50,8 +122,23 @@ export class StrategyEvolutionEngine {
   private crossoverRate: number = 0.7;
   private eliteSize: number = 4;
   private memories: ExtendedTradeMemory[] = [];
-
-  constructor() {
+  private options: EvolutionOptions;
+  private geneCounter: number = 0;
+
+  constructor(options: Partial<EvolutionOptions> = {}) {
+    this.options = {
+      walkForward: {
+        trainWindowMs: CONFIG.EVOLUTION_TRAIN_WINDOW_DAYS * DAY_MS,
+        testWindowMs: CONFIG.EVOLUTION_TEST_WINDOW_DAYS * DAY_MS,
+        stepMs: CONFIG.EVOLUTION_STEP_DAYS * DAY_MS,
+        minTestTrades: 3,
+        overfitTolerance: CONFIG.EVOLUTION_OVERFIT_TOLERANCE,
+        overfitPenalty: 1.0,
+      },
+      historyPath: CONFIG.EVOLUTION_HISTORY_PATH,
+      now: () => Date.now(),
+      ...options,
+    };
     this.initializeBaseStrategies();
     this.initializeMarketRegimes();
     logger.info('🧬 Strategy evolution engine initialized');
@@ -280,6 +367,11 @@ export class StrategyEvolutionEngine {
       
       const metrics = this.calculateEvolutionMetrics();
       logger.info(`📈 Evolution metrics - Avg fitness: ${metrics.avgFitness.toFixed(3)}, Best: ${metrics.bestFitness.toFixed(3)}`);
+      if (metrics.overfitCount > 0) {
+        logger.info(`📉 ${metrics.overfitCount} strategies penalised for out-of-sample collapse`);
+      }
+
+      await this.recordGeneration(metrics);
       
       return metrics;
       
@@ -294,27 +386,53 @@ export class StrategyEvolutionEngine {
    */
   private async calculateFitnessScores(): Promise<void> {
     for (const strategy of this.strategies.values()) {
-      const fitness = this.calculateStrategyFitness(strategy);
-      strategy.fitness = fitness;
+      this.calculateStrategyFitness(strategy);
     }
   }
 
   /**
-   * Calculate fitness score for a specific strategy
+   * Score a strategy with walk-forward validation. Fitness is the out-of-sample score,
+   * reduced when it collapses relative to in-sample; with too little history for a full
+   * fold it falls back to the score over all of the strategy's trades.
    */
-  private calculateStrategyFitness(strategy: StrategyGene): number {
+  private calculateStrategyFitness(strategy: StrategyGene): void {
     const relevantMemories = this.memories.filter(m => m.strategy === strategy.id);
     
     if (relevantMemories.length === 0) {
-      return 0.5; // Neutral fitness for untested strategies
+      strategy.fitness = 0.5; // Neutral fitness for untested strategies
+      strategy.validation = undefined;
+      return;
+    }
+
+    const config = this.options.walkForward;
+    const folds = walkForwardSplits(relevantMemories, config).filter(fold => fold.test.length >= config.minTestTrades);
+
+    if (folds.length === 0) {
+      const fitness = this.scoreMemories(relevantMemories, this.options.now());
+      strategy.fitness = fitness;
+      strategy.validation = { inSampleFitness: fitness, outOfSampleFitness: null, folds: 0, overfit: false };
+      return;
     }
 
+    const inSample = folds.reduce((sum, fold) => sum + this.scoreMemories(fold.train, fold.testStart), 0) / folds.length;
+    const outOfSample = folds.reduce((sum, fold) => sum + this.scoreMemories(fold.test, fold.testEnd), 0) / folds.length;
+    const excessGap = inSample - outOfSample - config.overfitTolerance;
+    const overfit = excessGap > 0;
+
+    strategy.fitness = Math.max(0, Math.min(1, outOfSample - (overfit ? excessGap * config.overfitPenalty : 0)));
+    strategy.validation = { inSampleFitness: inSample, outOfSampleFitness: outOfSample, folds: folds.length, overfit };
+  }
+
+  /**
+   * Average trade score of a set of memories, time-weighted as of a point in time, in 0-1
+   */
+  private scoreMemories(memories: ExtendedTradeMemory[], asOf: number): number {
     let totalScore = 0;
     let weightedCount = 0;
 
-    for (const memory of relevantMemories) {
+    for (const memory of memories) {
       const profitLoss = memory.profitLoss || 0;
-      const timeWeight = this.getTimeDecayWeight(memory.timestamp);
+      const timeWeight = this.getTimeDecayWeight(memory.timestamp, asOf);
       
       // Fitness components
       let tradeScore = 0;
@@ -347,8 +465,8 @@ export class StrategyEvolutionEngine {
   /**
    * Calculate time decay weight (recent trades matter more)
    */
-  private getTimeDecayWeight(timestamp: number): number {
-    const ageInDays = (Date.now() - timestamp) / (24 * 60 * 60 * 1000);
+  private getTimeDecayWeight(timestamp: number, asOf: number): number {
+    const ageInDays = Math.max(0, asOf - timestamp) / DAY_MS;
     return Math.exp(-ageInDays / 30); // Exponential decay with 30-day half-life
   }
 
@@ -460,7 +578,7 @@ export class StrategyEvolutionEngine {
    * Crossover two parent strategies to create offspring
    */
   private crossover(parent1: StrategyGene, parent2: StrategyGene): StrategyGene {
-    const childId = `${parent1.type}_gen${this.currentGeneration}_${Date.now()}`;
+    const childId = this.nextGeneId(parent1.type);
     
     // Blend parameters from both parents
     const childParameters: Record<string, number> = {};
@@ -518,11 +636,18 @@ export class StrategyEvolutionEngine {
     };
   }
 
+  /**
+   * Unique id for a new gene; ids must not collide within a generation for lineage to hold
+   */
+  private nextGeneId(type: StrategyGene['type']): string {
+    return `${type}_gen${this.currentGeneration}_${Date.now()}_${++this.geneCounter}`;
+  }
+
   /**
    * Clone a strategy for asexual reproduction
    */
   private clone(parent: StrategyGene): StrategyGene {
-    const childId = `${parent.type}_gen${this.currentGeneration}_${Date.now()}`;
+    const childId = this.nextGeneId(parent.type);
     
     return {
       id: childId,
@@ -691,8 +816,7 @@ export class StrategyEvolutionEngine {
     if (!strategy) return;
 
     // Incremental fitness update
-    const newFitness = this.calculateStrategyFitness(strategy);
-    strategy.fitness = newFitness;
+    this.calculateStrategyFitness(strategy);
   }
 
   /**
@@ -701,6 +825,9 @@ export class StrategyEvolutionEngine {
   private calculateEvolutionMetrics(): EvolutionMetrics {
     const strategies = Array.from(this.strategies.values());
     const fitnessValues = strategies.map(s => s.fitness);
+    const outOfSample = strategies
+      .map(s => s.validation?.outOfSampleFitness)
+      .filter((f): f is number => typeof f === 'number');
     
     return {
       generation: this.currentGeneration,
@@ -710,7 +837,11 @@ export class StrategyEvolutionEngine {
       diversityScore: this.calculateDiversityScore(),
       convergenceRate: this.calculateConvergenceRate(),
       mutationRate: this.mutationRate,
-      crossoverRate: this.crossoverRate
+      crossoverRate: this.crossoverRate,
+      avgOutOfSampleFitness: outOfSample.length > 0
+        ? outOfSample.reduce((sum, f) => sum + f, 0) / outOfSample.length
+        : null,
+      overfitCount: strategies.filter(s => s.validation?.overfit).length
     };
   }
 
@@ -797,6 +928,83 @@ export class StrategyEvolutionEngine {
   getMarketRegimes(): MarketRegime[] {
     return Array.from(this.marketRegimes.values());
   }
+
+  /**
+   * Append the current population and its metrics to the generation history
+   */
+  private async recordGeneration(metrics: EvolutionMetrics): Promise<void> {
+    if (!this.options.historyPath) return;
+
+    const record: GenerationRecord = {
+      generation: metrics.generation,
+      timestamp: this.options.now(),
+      metrics,
+      population: this.getStrategies(),
+    };
+
+    try {
+      await fs.mkdir(path.dirname(this.options.historyPath), { recursive: true });
+      await fs.appendFile(this.options.historyPath, JSON.stringify(record) + '\n', 'utf-8');
+    } catch (error) {
+      logger.warn(`⚠️  Could not persist generation ${metrics.generation}: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Persisted generations, oldest first (optionally only the most recent `limit`)
+   */
+  async getGenerationHistory(limit?: number): Promise<GenerationRecord[]> {
+    if (!this.options.historyPath) return [];
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.options.historyPath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: GenerationRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Skip a line truncated by a crash mid-append
+      }
+    }
+
+    return limit ? records.slice(-limit) : records;
+  }
+
+  /**
+   * A gene and its ancestors via parentIds, each as last recorded in the history
+   */
+  async getLineage(strategyId: string): Promise<StrategyGene[]> {
+    const genes = new Map<string, StrategyGene>();
+    for (const record of await this.getGenerationHistory()) {
+      for (const gene of record.population) {
+        genes.set(gene.id, gene);
+      }
+    }
+    for (const gene of this.strategies.values()) {
+      genes.set(gene.id, gene);
+    }
+
+    const lineage: StrategyGene[] = [];
+    const seen = new Set<string>();
+    const queue = [strategyId];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      const gene = genes.get(id);
+      if (!gene || seen.has(id)) continue;
+      seen.add(id);
+      lineage.push(gene);
+      queue.push(...gene.parentIds);
+    }
+
+    return lineage;
+  }
 }
 
 export default StrategyEvolutionEngine;
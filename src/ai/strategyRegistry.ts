@@ -0,0 +1,484 @@
+/**
+ * Strategy Registry
+ * Strategies as versioned, declarative documents: entry conditions, a sizing rule,
+ * an exit plan and the market regimes they may trade in. Trading loops resolve a
+ * strategy by id ("momentum" → latest version, "momentum@2" → exact version) and
+ * record the resolved ref on every position and memory, so each trade can be traced
+ * back to the exact rules it was opened under.
+ *
+ * Definitions come from the built-ins below, JSON files in STRATEGY_DIR (one
+ * definition or an array per file) and the API. Published versions are immutable;
+ * changing a strategy means registering a higher version.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { CONFIG } from '../config';
+import { TradingError, ValidationError } from '../utils/errorHandler';
+import type { ExitPlan } from '../services/positionManager';
+
+export type MarketRegime = 'bullish' | 'bearish' | 'sideways';
+
+export const ENTRY_FIELDS = [
+  'priceChange24h',
+  'volume24h',
+  'liquidity',
+  'marketCap',
+  'riskScore',
+  'buySellPressure',
+  'confidence', // 0-1
+] as const;
+
+export type EntryField = typeof ENTRY_FIELDS[number];
+
+const OPERATORS = ['>', '>=', '<', '<='] as const;
+
+export interface EntryCondition {
+  field: EntryField;
+  op: typeof OPERATORS[number];
+  value: number;
+}
+
+export type SizingRule =
+  | { type: 'fixed'; amountBNB: number }
+  | { type: 'balance-percent'; percent: number; maxBNB?: number }
+  | { type: 'confidence-scaled'; maxBNB: number; minConfidence: number }; // linear from minConfidence (0) to 1 (maxBNB)
+
+export interface StrategyExitRule {
+  stopLossPercent?: number; // below entry; STOP_LOSS_PERCENTAGE when omitted
+  takeProfits?: Array<{ gainPercent: number; sellFraction: number }>;
+  trailingStopPercent?: number;
+  maxHoldMinutes?: number;
+  breakEvenAfterFirstTarget?: boolean;
+  useDecisionLevels?: boolean; // prefer the AI decision's target/stop when it suggests them
+}
+
+export interface StrategyDefinition {
+  id: string;
+  version: number;
+  name: string;
+  description?: string;
+  entry: EntryCondition[]; // all must hold
+  sizing: SizingRule;
+  exit: StrategyExitRule;
+  regimes: MarketRegime[]; // empty = any regime
+}
+
+export type EntryContext = Partial<Record<EntryField, number>>;
+
+export interface EntryCheck {
+  passed: boolean;
+  failed: string[]; // human-readable conditions that did not hold
+}
+
+const ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+export const BUILTIN_STRATEGIES: StrategyDefinition[] = [
+  {
+    id: 'immortal-ai',
+    version: 1,
+    name: 'Immortal AI Discretionary',
+    description: 'AI decides entries; 10% of balance per trade with the AI-suggested target and stop',
+    entry: [],
+    sizing: { type: 'balance-percent', percent: 10, maxBNB: CONFIG.MAX_TRADE_AMOUNT_BNB },
+    exit: { useDecisionLevels: true },
+    regimes: [],
+  },
+  {
+    id: 'auto-discovery',
+    version: 1,
+    name: 'Automated Discovery',
+    description: 'Trades the best discovered opportunity with a wide stop and a single target',
+    entry: [{ field: 'confidence', op: '>=', value: 0.75 }],
+    sizing: { type: 'balance-percent', percent: 100, maxBNB: 0.1 },
+    exit: { stopLossPercent: 30, takeProfits: [{ gainPercent: 50, sellFraction: 1 }] },
+    regimes: [],
+  },
+  {
+    id: 'momentum',
+    version: 1,
+    name: 'Momentum Breakout',
+    description: 'Buys strong 24h movers with deep liquidity in rising markets',
+    entry: [
+      { field: 'priceChange24h', op: '>', value: 5 },
+      { field: 'liquidity', op: '>=', value: 100000 },
+      { field: 'confidence', op: '>=', value: 0.6 },
+    ],
+    sizing: { type: 'confidence-scaled', maxBNB: CONFIG.MAX_TRADE_AMOUNT_BNB, minConfidence: 0.6 },
+    exit: {
+      stopLossPercent: 5,
+      takeProfits: [
+        { gainPercent: 8, sellFraction: 0.5 },
+        { gainPercent: 15, sellFraction: 0.5 },
+      ],
+      breakEvenAfterFirstTarget: true,
+    },
+    regimes: ['bullish'],
+  },
+  {
+    id: 'mean-reversion',
+    version: 1,
+    name: 'Mean Reversion',
+    description: 'Buys oversold liquid tokens in ranging or falling markets',
+    entry: [
+      { field: 'priceChange24h', op: '<', value: -5 },
+      { field: 'priceChange24h', op: '>', value: -30 },
+      { field: 'liquidity', op: '>=', value: 100000 },
+    ],
+    sizing: { type: 'balance-percent', percent: 5, maxBNB: CONFIG.MAX_TRADE_AMOUNT_BNB },
+    exit: { stopLossPercent: 8, takeProfits: [{ gainPercent: 10, sellFraction: 1 }], maxHoldMinutes: 24 * 60 },
+    regimes: ['sideways', 'bearish'],
+  },
+];
+
+/**
+ * "id@version" - what positions and memories record
+ */
+export function strategyRef(definition: Pick<StrategyDefinition, 'id' | 'version'>): string {
+  return `${definition.id}@${definition.version}`;
+}
+
+export function parseStrategyRef(ref: string): { id: string; version?: number } {
+  const [id, version] = ref.split('@');
+  return { id: id || '', version: version !== undefined ? parseInt(version, 10) : undefined };
+}
+
+/**
+ * Check an untrusted document (file or API body) and return it as a definition
+ */
+export function validateStrategyDefinition(input: any): StrategyDefinition {
+  if (!input || typeof input !== 'object') {
+    throw new ValidationError('strategy', input, 'an object');
+  }
+  if (typeof input.id !== 'string' || !ID_PATTERN.test(input.id)) {
+    throw new ValidationError('id', input.id, 'lowercase letters, digits, - or _');
+  }
+  if (!Number.isInteger(input.version) || input.version < 1) {
+    throw new ValidationError('version', input.version, 'a positive integer');
+  }
+  if (typeof input.name !== 'string' || !input.name) {
+    throw new ValidationError('name', input.name, 'a non-empty string');
+  }
+
+  const entry = input.entry ?? [];
+  if (!Array.isArray(entry)) {
+    throw new ValidationError('entry', entry, 'an array of conditions');
+  }
+  entry.forEach((condition: any, index: number) => {
+    if (!ENTRY_FIELDS.includes(condition?.field)) {
+      throw new ValidationError(`entry[${index}].field`, condition?.field, ENTRY_FIELDS.join(', '));
+    }
+    if (!OPERATORS.includes(condition.op)) {
+      throw new ValidationError(`entry[${index}].op`, condition.op, OPERATORS.join(' '));
+    }
+    if (typeof condition.value !== 'number' || !Number.isFinite(condition.value)) {
+      throw new ValidationError(`entry[${index}].value`, condition.value, 'a number');
+    }
+  });
+
+  const sizing = input.sizing;
+  switch (sizing?.type) {
+    case 'fixed':
+      if (!(sizing.amountBNB > 0)) throw new ValidationError('sizing.amountBNB', sizing.amountBNB, 'a positive amount');
+      break;
+    case 'balance-percent':
+      if (!(sizing.percent > 0 && sizing.percent <= 100)) {
+        throw new ValidationError('sizing.percent', sizing.percent, 'a percentage in (0, 100]');
+      }
+      if (sizing.maxBNB !== undefined && !(sizing.maxBNB > 0)) {
+        throw new ValidationError('sizing.maxBNB', sizing.maxBNB, 'a positive amount');
+      }
+      break;
+    case 'confidence-scaled':
+      if (!(sizing.maxBNB > 0)) throw new ValidationError('sizing.maxBNB', sizing.maxBNB, 'a positive amount');
+      if (!(sizing.minConfidence >= 0 && sizing.minConfidence < 1)) {
+        throw new ValidationError('sizing.minConfidence', sizing.minConfidence, 'a fraction in [0, 1)');
+      }
+      break;
+    default:
+      throw new ValidationError('sizing.type', sizing?.type, 'fixed, balance-percent or confidence-scaled');
+  }
+
+  const exit = input.exit ?? {};
+  if (exit.stopLossPercent !== undefined && !(exit.stopLossPercent > 0 && exit.stopLossPercent < 100)) {
+    throw new ValidationError('exit.stopLossPercent', exit.stopLossPercent, 'a percentage between 0 and 100');
+  }
+  if (exit.trailingStopPercent !== undefined && !(exit.trailingStopPercent > 0 && exit.trailingStopPercent < 100)) {
+    throw new ValidationError('exit.trailingStopPercent', exit.trailingStopPercent, 'a percentage between 0 and 100');
+  }
+  if (exit.maxHoldMinutes !== undefined && !(exit.maxHoldMinutes > 0)) {
+    throw new ValidationError('exit.maxHoldMinutes', exit.maxHoldMinutes, 'a positive duration');
+  }
+  let totalFraction = 0;
+  (exit.takeProfits ?? []).forEach((tier: any, index: number) => {
+    if (!(tier?.gainPercent > 0)) {
+      throw new ValidationError(`exit.takeProfits[${index}].gainPercent`, tier?.gainPercent, 'a positive percentage');
+    }
+    if (!(tier.sellFraction > 0 && tier.sellFraction <= 1)) {
+      throw new ValidationError(`exit.takeProfits[${index}].sellFraction`, tier.sellFraction, 'a fraction in (0, 1]');
+    }
+    totalFraction += tier.sellFraction;
+  });
+  if (totalFraction > 1 + 1e-9) {
+    throw new ValidationError('exit.takeProfits', totalFraction.toFixed(4), 'sell fractions summing to at most 1');
+  }
+
+  const regimes = input.regimes ?? [];
+  if (!Array.isArray(regimes) || regimes.some((r: any) => !['bullish', 'bearish', 'sideways'].includes(r))) {
+    throw new ValidationError('regimes', regimes, 'an array of bullish, bearish, sideways');
+  }
+
+  return {
+    id: input.id,
+    version: input.version,
+    name: input.name,
+    ...(typeof input.description === 'string' && { description: input.description }),
+    entry: entry.map((c: EntryCondition) => ({ field: c.field, op: c.op, value: c.value })),
+    sizing,
+    exit,
+    regimes,
+  };
+}
+
+/**
+ * Evaluate entry conditions; a field missing from the context fails its condition
+ */
+export function checkEntry(definition: StrategyDefinition, context: EntryContext): EntryCheck {
+  const failed = definition.entry
+    .filter(condition => {
+      const actual = context[condition.field];
+      if (actual === undefined || !Number.isFinite(actual)) return true;
+      switch (condition.op) {
+        case '>': return !(actual > condition.value);
+        case '>=': return !(actual >= condition.value);
+        case '<': return !(actual < condition.value);
+        case '<=': return !(actual <= condition.value);
+      }
+    })
+    .map(condition => `${condition.field} ${condition.op} ${condition.value} (was ${context[condition.field] ?? 'n/a'})`);
+
+  return { passed: failed.length === 0, failed };
+}
+
+export function regimeAllowed(definition: StrategyDefinition, regime: MarketRegime): boolean {
+  return definition.regimes.length === 0 || definition.regimes.includes(regime);
+}
+
+/**
+ * Position size in BNB from the sizing rule, never above `cap` (e.g. the caller's hard limit)
+ */
+export function sizePosition(
+  definition: StrategyDefinition,
+  input: { balance: number; confidence: number; cap?: number }
+): number {
+  const sizing = definition.sizing;
+  let amount: number;
+
+  switch (sizing.type) {
+    case 'fixed':
+      amount = sizing.amountBNB;
+      break;
+    case 'balance-percent':
+      amount = input.balance * sizing.percent / 100;
+      if (sizing.maxBNB !== undefined) amount = Math.min(amount, sizing.maxBNB);
+      break;
+    case 'confidence-scaled': {
+      const scale = (input.confidence - sizing.minConfidence) / (1 - sizing.minConfidence);
+      amount = sizing.maxBNB * Math.max(0, Math.min(1, scale));
+      break;
+    }
+  }
+
+  return Math.max(0, Math.min(amount, input.cap ?? Infinity, input.balance));
+}
+
+/**
+ * Exit plan for a new position. `decisionPlan` (built from the AI's suggested levels)
+ * replaces the stop and ladder when the strategy opts into decision levels.
+ */
+export function exitPlanFromStrategy(
+  definition: StrategyDefinition,
+  entryPrice: number,
+  decisionPlan?: ExitPlan
+): ExitPlan {
+  const exit = definition.exit;
+  const useDecision = exit.useDecisionLevels && decisionPlan !== undefined;
+  const stopLossPercent = exit.stopLossPercent ?? (CONFIG.STOP_LOSS_PERCENTAGE || 10);
+
+  const plan: ExitPlan = useDecision
+    ? { ...decisionPlan, takeProfits: [...decisionPlan.takeProfits] }
+    : {
+        stopPrice: entryPrice * (1 - stopLossPercent / 100),
+        takeProfits: (exit.takeProfits ?? []).map(tier => ({
+          price: entryPrice * (1 + tier.gainPercent / 100),
+          sellFraction: tier.sellFraction,
+        })),
+        ...(exit.breakEvenAfterFirstTarget && { breakEvenAfterFirstTarget: true }),
+      };
+
+  if (exit.trailingStopPercent) plan.trailingStopPercent = exit.trailingStopPercent;
+  if (exit.maxHoldMinutes) plan.maxHoldMs = exit.maxHoldMinutes * 60 * 1000;
+
+  return plan;
+}
+
+export class StrategyRegistry {
+  private versions: Map<string, StrategyDefinition[]> = new Map(); // ascending by version
+
+  constructor(private directory: string | null = CONFIG.STRATEGY_DIR, builtins: StrategyDefinition[] = BUILTIN_STRATEGIES) {
+    for (const definition of builtins) {
+      this.add(validateStrategyDefinition(definition));
+    }
+  }
+
+  /**
+   * Load every *.json definition in the strategy directory; bad files are logged and skipped
+   */
+  async load(): Promise<number> {
+    if (!this.directory) return 0;
+
+    let files: string[];
+    try {
+      files = (await fs.readdir(this.directory)).filter(file => file.endsWith('.json')).sort();
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return 0;
+      throw error;
+    }
+
+    let loaded = 0;
+    for (const file of files) {
+      try {
+        const content = JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf-8'));
+        for (const document of Array.isArray(content) ? content : [content]) {
+          this.add(validateStrategyDefinition(document));
+          loaded++;
+        }
+      } catch (error) {
+        logger.warn(`⚠️  Skipping strategy file ${file}: ${(error as Error).message}`);
+      }
+    }
+
+    logger.info(`📐 Loaded ${loaded} strategy definitions from ${this.directory}`);
+    return loaded;
+  }
+
+  /**
+   * Register a new version (e.g. from the API) and write it to the strategy directory
+   */
+  async register(input: unknown): Promise<StrategyDefinition> {
+    const definition = validateStrategyDefinition(input);
+    const latest = this.latest(definition.id);
+    if (latest && definition.version <= latest.version && !this.isSame(definition)) {
+      throw new TradingError(
+        `Strategy ${definition.id} is at version ${latest.version}; register version ${latest.version + 1} or higher`,
+        'STRATEGY_VERSION_CONFLICT',
+        { id: definition.id, version: definition.version, latest: latest.version }
+      );
+    }
+
+    this.add(definition);
+
+    if (this.directory) {
+      await fs.mkdir(this.directory, { recursive: true });
+      const file = path.join(this.directory, `${strategyRef(definition)}.json`);
+      await fs.writeFile(file, JSON.stringify(definition, null, 2), 'utf-8');
+    }
+
+    logger.info(`📐 Registered strategy ${strategyRef(definition)} (${definition.name})`);
+    return definition;
+  }
+
+  /**
+   * Definition for "id" (latest version) or "id@version"
+   */
+  get(ref: string): StrategyDefinition | undefined {
+    const { id, version } = parseStrategyRef(ref);
+    const versions = this.versions.get(id);
+    if (!versions) return undefined;
+    return version === undefined ? versions[versions.length - 1] : versions.find(d => d.version === version);
+  }
+
+  /**
+   * Like get(), but a missing strategy is an error - trading without rules is never the fallback
+   */
+  resolve(ref: string): StrategyDefinition {
+    const definition = this.get(ref);
+    if (!definition) {
+      throw new TradingError(`Unknown strategy: ${ref}`, 'STRATEGY_NOT_FOUND', { ref });
+    }
+    return definition;
+  }
+
+  /**
+   * Latest version of every strategy
+   */
+  list(): StrategyDefinition[] {
+    return Array.from(this.versions.values()).map(versions => versions[versions.length - 1]!);
+  }
+
+  history(id: string): StrategyDefinition[] {
+    return [...(this.versions.get(id) ?? [])];
+  }
+
+  private latest(id: string): StrategyDefinition | undefined {
+    const versions = this.versions.get(id);
+    return versions?.[versions.length - 1];
+  }
+
+  private isSame(definition: StrategyDefinition): boolean {
+    const existing = this.get(strategyRef(definition));
+    return existing !== undefined && JSON.stringify(existing) === JSON.stringify(definition);
+  }
+
+  private add(definition: StrategyDefinition): void {
+    const versions = this.versions.get(definition.id) ?? [];
+    const existing = versions.find(d => d.version === definition.version);
+    if (existing) {
+      if (JSON.stringify(existing) !== JSON.stringify(definition)) {
+        throw new TradingError(
+          `Strategy ${strategyRef(definition)} is already defined with different rules`,
+          'STRATEGY_VERSION_CONFLICT',
+          { id: definition.id, version: definition.version }
+        );
+      }
+      return;
+    }
+
+    versions.push(definition);
+    versions.sort((a, b) => a.version - b.version);
+    this.versions.set(definition.id, versions);
+  }
+}
+
+let strategyRegistry: StrategyRegistry | null = null;
+let loading: Promise<StrategyRegistry> | null = null;
+
+/**
+ * Registry with the built-in strategies (files are loaded by initializeStrategyRegistry)
+ */
+export function getStrategyRegistry(): StrategyRegistry {
+  if (!strategyRegistry) {
+    strategyRegistry = new StrategyRegistry();
+  }
+  return strategyRegistry;
+}
+
+/**
+ * Load strategy files once; safe to call from every trading loop's start()
+ */
+export function initializeStrategyRegistry(): Promise<StrategyRegistry> {
+  if (!loading) {
+    const registry = getStrategyRegistry();
+    loading = registry.load().then(() => registry);
+  }
+  return loading;
+}
+
+/**
+ * Reset the singleton (useful for testing)
+ */
+export function resetStrategyRegistry(): void {
+  strategyRegistry = null;
+  loading = null;
+}
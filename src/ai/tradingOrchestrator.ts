@@ -19,8 +19,10 @@ import { getTokenData } from '../data/marketFetcher';
 import DynamicTokenDiscovery from '../blockchain/dynamicTokenDiscovery';
 import { storeMemory } from '../blockchain/memoryStorage';
 import { RiskManager } from './riskManager';
+import type { PortfolioRiskReport } from './portfolioRisk';
 import { PerformanceTracker } from '../monitoring/performanceTracker';
 import type { TradeMemory } from '../types/memory';
+import { getStrategyRegistry, initializeStrategyRegistry, checkEntry, sizePosition, strategyRef } from './strategyRegistry';
 
 export interface TradingLoopConfig {
   enabled: boolean;
@@ -28,6 +30,7 @@ export interface TradingLoopConfig {
   maxTradesPerCycle: number;
   minConfidence: number;
   enableRiskManagement: boolean;
+  strategyId: string; // registry ref: "id" (latest version) or "id@version"
 }
 
 export interface TradingCycleResult {
@@ -65,6 +68,7 @@ export class TradingOrchestrator {
       maxTradesPerCycle: 3,
       minConfidence: CONFIG.MIN_CONFIDENCE_THRESHOLD || 0.6,
       enableRiskManagement: true,
+      strategyId: CONFIG.DEFAULT_STRATEGY_ID,
       ...config,
     };
 
@@ -90,8 +94,10 @@ export class TradingOrchestrator {
 
     logger.info('🚀 Starting automated trading loop...');
 
-    // Load agent memories before starting
+    // Load agent memories and strategy definitions before starting
     await this.agent.loadMemories();
+    const registry = await initializeStrategyRegistry();
+    logger.info(`📐 Trading strategy: ${strategyRef(registry.resolve(this.config.strategyId))}`);
 
     this.isRunning = true;
     this.currentCycle = 0;
@@ -253,6 +259,26 @@ export class TradingOrchestrator {
             continue;
           }
 
+          // Entries must satisfy the strategy's rules and sizing (no trend data here, so regimes are not checked)
+          const strategy = getStrategyRegistry().resolve(this.config.strategyId);
+          if (decision.action === 'BUY') {
+            const entry = checkEntry(strategy, {
+              priceChange24h: token.priceChange24h,
+              volume24h: token.volume24h,
+              liquidity: token.liquidity,
+              confidence: decision.confidence,
+            });
+            if (!entry.passed) {
+              logger.info(`   ⏭️ Skipping trade (${strategyRef(strategy)} entry not met: ${entry.failed.join(', ')})`);
+              continue;
+            }
+            decision.amount = sizePosition(strategy, {
+              balance: walletBalance,
+              confidence: decision.confidence,
+              cap: decision.amount,
+            });
+          }
+
           // STEP 5: Risk Assessment
           logger.info('   🛡️ Step 5: Risk assessment...');
 
@@ -318,7 +344,7 @@ export class TradingOrchestrator {
                 action: decision.action.toLowerCase() as 'buy' | 'sell',
                 amount: decision.amount,
                 entryPrice: tradeResult.actualPrice,
-                aiReasoning: `${decision.reasoning} (Confidence: ${(decision.confidence * 100).toFixed(1)}%, Strategy: ${decision.strategy || 'N/A'})`,
+                aiReasoning: `${decision.reasoning} (Confidence: ${(decision.confidence * 100).toFixed(1)}%, Strategy: ${strategyRef(strategy)})`,
                 outcome: 'pending',
                 marketConditions: {
                   volume24h: token.volume24h,
@@ -327,6 +353,8 @@ export class TradingOrchestrator {
                   buySellPressure: 0,
                 },
                 lessons: '',
+                strategy: strategyRef(strategy),
+                mev: tradeResult.mev,
               };
 
               await storeMemory(memory);
@@ -484,17 +512,20 @@ export class TradingOrchestrator {
     openPositions: any[];
     totalExposure: number;
     portfolioRisk: any;
+    portfolioVaR: PortfolioRiskReport;
     riskProfile: any;
   }> {
     const positions = this.riskManager.getOpenPositions();
     const totalExposure = positions.reduce((sum, pos) => sum + pos.amount, 0);
     const portfolioRisk = await this.riskManager.getPortfolioRisk();
+    const portfolioVaR = await this.riskManager.getPortfolioRiskReport(await getWalletBalance());
     const riskProfile = this.riskManager.getRiskProfile();
 
     return {
       openPositions: positions,
       totalExposure,
       portfolioRisk,
+      portfolioVaR,
       riskProfile,
     };
   }
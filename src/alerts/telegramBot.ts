@@ -1,9 +1,23 @@
-import { Telegraf } from 'telegraf';
+import { Telegraf, Markup } from 'telegraf';
 import { logger, logError } from '../utils/logger';
 import { CONFIG } from '../config';
 import type { AIDecision } from '../types';
 import type { TradeResult } from '../blockchain/tradeExecutor';
 import type { TradeMemory } from '../types/memory';
+import type { PendingDecision } from '../services/approvalQueue';
+
+/**
+ * Resolves an approval button press; returns the text shown to the operator
+ */
+export type DecisionResponseHandler = (id: string, approved: boolean, by: string) => Promise<string>;
+
+/**
+ * Escape text for Telegram's legacy Markdown so model output and token symbols
+ * cannot break the formatting (an unmatched _ or * makes Telegram reject the message)
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/([_*`\[])/g, '\\$1');
+}
 
 /**
  * Bot state interface
@@ -39,6 +53,7 @@ export class TelegramBotManager {
     }
   };
 
+  private decisionHandler: DecisionResponseHandler | null = null;
   private rateLimiter = new Map<string, number[]>(); // user -> timestamps
   private readonly RATE_LIMIT_WINDOW = 60000; // 1 minute
   private readonly MAX_MESSAGES_PER_WINDOW = 10;
@@ -258,6 +273,30 @@ _No tokens in watchlist_
 
       ctx.reply(debugInfo, { parse_mode: 'Markdown' });
     });
+
+    // Approve / reject buttons on pending trade decisions
+    this.bot.action(/^decision:(approve|reject):(.+)$/, async (ctx) => {
+      const [, verdict, id] = ctx.match;
+      const chatId = ctx.chat?.id.toString();
+
+      if (!CONFIG.TELEGRAM_CHAT_ID || chatId !== CONFIG.TELEGRAM_CHAT_ID) {
+        await ctx.answerCbQuery('⛔ Approvals are only accepted from the operator chat');
+        return;
+      }
+      if (!this.decisionHandler || !id) {
+        await ctx.answerCbQuery('⚠️ Trading loop is not accepting approvals');
+        return;
+      }
+
+      try {
+        const result = await this.decisionHandler(id, verdict === 'approve', `telegram:${ctx.from?.id}`);
+        await ctx.answerCbQuery(result.substring(0, 200));
+        await ctx.editMessageReplyMarkup(undefined);
+        await ctx.reply(result);
+      } catch (error) {
+        await ctx.answerCbQuery(`❌ ${(error as Error).message}`.substring(0, 200));
+      }
+    });
   }
 
   /**
@@ -319,7 +358,8 @@ _No tokens in watchlist_
 
     try {
       const emoji = this.getEmojiForType(type);
-      const formattedMessage = `${emoji} ${message}`;
+      const paperTag = CONFIG.PAPER_TRADING ? '📝 [PAPER] ' : '';
+      const formattedMessage = `${emoji} ${paperTag}${message}`;
       
       // Send to all subscribers
       const promises = Array.from(this.state.subscribedUsers).map(userId => 
@@ -470,6 +510,49 @@ ${price ? `💵 Price: $${price.toFixed(6)}` : ''}
     await this.sendAlert(message, 'decision');
   }
 
+  /**
+   * Register the handler for approve / reject button presses
+   */
+  onDecisionResponse(handler: DecisionResponseHandler): void {
+    this.decisionHandler = handler;
+  }
+
+  /**
+   * Ask the operator chat to approve a parked trade decision
+   */
+  async sendApprovalRequest(pending: PendingDecision): Promise<boolean> {
+    if (!this.bot || !this.isInitialized || !CONFIG.TELEGRAM_CHAT_ID) {
+      return false;
+    }
+
+    const paperTag = CONFIG.PAPER_TRADING ? '📝 [PAPER] ' : '';
+    const message = `⏸️ ${paperTag}*APPROVAL REQUIRED*
+
+🎯 Action: ${escapeMarkdown(pending.decision.action)}
+🪙 Token: ${escapeMarkdown(pending.token.symbol)}
+💰 Amount: ${pending.decision.amount.toFixed(4)} BNB
+💵 Price: $${pending.quotedPrice.toFixed(6)}
+📊 Confidence: ${(pending.decision.confidence * 100).toFixed(0)}%
+⚠️ Risk: ${escapeMarkdown(pending.decision.riskLevel)}
+💭 Reasoning: ${escapeMarkdown(pending.decision.reasoning.substring(0, 200))}
+⏰ Expires: ${new Date(pending.expiresAt).toLocaleTimeString()} (re-quoted after)`;
+
+    try {
+      await this.bot.telegram.sendMessage(CONFIG.TELEGRAM_CHAT_ID, message, {
+        parse_mode: 'Markdown',
+        ...Markup.inlineKeyboard([
+          Markup.button.callback('✅ Approve', `decision:approve:${pending.id}`),
+          Markup.button.callback('❌ Reject', `decision:reject:${pending.id}`),
+        ]),
+      });
+      this.updateAlertStats('decision');
+      return true;
+    } catch (error) {
+      logger.error(`Failed to send approval request ${pending.id}: ${(error as Error).message}`);
+      return false;
+    }
+  }
+
   /**
    * Send position update alert
    */
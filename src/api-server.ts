@@ -779,6 +779,28 @@ app.get('/api/wallet/balance', readLimiter, async (req: Request, res: Response)
   }
 });
 
+/**
+ * GET /api/paper/ledger
+ * Get the virtual balances and recent fills of the paper trading ledger
+ * Protected with: read rate limiting
+ */
+app.get('/api/paper/ledger', readLimiter, async (req: Request, res: Response) => {
+  try {
+    if (!CONFIG.PAPER_TRADING) {
+      return res.status(404).json({ error: 'Paper trading is not enabled' });
+    }
+
+    const { getPaperLedger } = await import('./blockchain/paperLedger');
+    const ledger = getPaperLedger();
+    await ledger.load();
+
+    res.json({ paper: true, ...ledger.getSummary() });
+  } catch (error) {
+    logger.error(`API /paper/ledger error: ${(error as Error).message}`);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 /**
  * GET /api/token/:address
  * Get token data for a specific address
@@ -964,6 +986,21 @@ app.get('/api/ai/metrics', readLimiter, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/ai/llm-usage
+ * Get LLM token usage, cost and failover counts per provider and call site
+ * Protected with: read rate limiting
+ */
+app.get('/api/ai/llm-usage', readLimiter, async (req: Request, res: Response) => {
+  try {
+    const { getLLMRouter } = await import('./ai/llmRouter');
+    res.json(getLLMRouter().getUsage());
+  } catch (error) {
+    logger.error(`API /ai/llm-usage error: ${(error as Error).message}`);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 /**
  * GET /api/ai/decisions
  * Get recent AI agent decisions from memory
@@ -2277,18 +2314,23 @@ app.post('/api/arbitrage/simulate', readLimiter, async (req: Request, res: Respo
       });
     }
 
-    const { loanAmount, buyRouter, sellRouter, buyPath, sellPath, minProfit } = req.body;
+    const { loanAmount, hops, buyRouter, sellRouter, buyPath, sellPath, minProfit, flashFee = 500 } = req.body;
+
+    // hops: [{ router, path }] V2 router calls in order; buy/sell fields are the two-hop shorthand
+    const routerCalls: Array<{ router: string; path: string[] }> | undefined = hops
+      ?? (buyRouter && sellRouter && buyPath && sellPath
+        ? [{ router: buyRouter, path: buyPath }, { router: sellRouter, path: sellPath }]
+        : undefined);
 
-    if (!loanAmount || !buyRouter || !sellRouter || !buyPath || !sellPath || !minProfit) {
+    if (!loanAmount || !routerCalls?.length || !minProfit) {
       return res.status(400).json({ error: 'Missing required parameters' });
     }
 
+    const { v2Hop } = await import('./flashloans/cycleFinder');
     const simulation = await contractService.simulateArbitrage(
       loanAmount,
-      buyRouter,
-      sellRouter,
-      buyPath,
-      sellPath,
+      Number(flashFee),
+      routerCalls.map(call => v2Hop(call.router, call.path)),
       minProfit
     );
 
@@ -2306,7 +2348,7 @@ app.post('/api/arbitrage/simulate', readLimiter, async (req: Request, res: Respo
 // ORDER MANAGEMENT ENDPOINTS
 // ============================================================================
 
-import { getOrderMonitoringService } from './services/orderMonitoringService';
+import { getOrderMonitoringService, OrderStatus, OrderType } from './services/orderMonitoringService';
 const orderMonitoring = getOrderMonitoringService();
 
 import { getPriceFeedService } from './services/priceFeedService';
@@ -2317,6 +2359,7 @@ const analyticsService = getAnalyticsService();
 /**
  * POST /api/orders/create
  * Create a new order (market, limit, stop-loss, take-profit, trailing-stop)
+ * tokenId is the token address; amount is BNB for BUY orders and tokens for SELL orders.
  * Protected with: bot control rate limiting
  */
 app.post('/api/orders/create', botControlLimiter, async (req: Request, res: Response) => {
@@ -2334,44 +2377,32 @@ app.post('/api/orders/create', botControlLimiter, async (req: Request, res: Resp
       stopLoss,
       takeProfit,
       trailingStop,
+      expiresAt,
     } = req.body;
 
     // Validation
-    if (!userId || !marketId || !tokenId || !side || !type || !amount) {
+    if (!userId || !tokenId || !side || !type || !amount) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    // Create order in database
-    const order = await prisma.order.create({
-      data: {
-        userId,
-        marketId,
-        marketQuestion: marketQuestion || `Market ${marketId}`,
-        tokenId,
-        outcome: outcome || '',
-        side,
-        type,
-        amount: parseFloat(amount),
-        price: price ? parseFloat(price) : null,
-        filledAmount: 0,
-        remainingAmount: parseFloat(amount),
-        stopLoss: stopLoss ? parseFloat(stopLoss) : null,
-        takeProfit: takeProfit ? parseFloat(takeProfit) : null,
-        trailingStop: trailingStop ? parseFloat(trailingStop) : null,
-        status: type === 'MARKET' ? 'FILLED' : 'OPEN',
-      },
+    const order = await orderMonitoring.createOrder({
+      userId,
+      tokenId,
+      side,
+      type,
+      amount: parseFloat(amount),
+      price: price ? parseFloat(price) : undefined,
+      stopLoss: stopLoss ? parseFloat(stopLoss) : undefined,
+      takeProfit: takeProfit ? parseFloat(takeProfit) : undefined,
+      trailingStop: trailingStop ? parseFloat(trailingStop) : undefined,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+      marketId,
+      marketQuestion,
+      outcome,
     });
 
-    logger.info(`✅ Order created: ${order.id} (${type} ${side} ${amount})`);
-
-    // If market order, execute immediately
-    if (type === 'MARKET') {
-      // TODO: Execute market order immediately
-      logger.info(`🚀 Market order ${order.id} would execute immediately`);
-    }
-
     res.json({
-      success: true,
+      success: order.status !== 'REJECTED',
       order: {
         id: order.id,
         type: order.type,
@@ -2379,15 +2410,16 @@ app.post('/api/orders/create', botControlLimiter, async (req: Request, res: Resp
         amount: order.amount,
         price: order.price,
         status: order.status,
+        txHash: order.txHash,
+        error: order.error,
         createdAt: order.createdAt,
       },
     });
 
-    metricsService.trackOrder(order.type, order.side, order.status);
-
   } catch (error) {
     logger.error(`Failed to create order: ${(error as Error).message}`);
-    res.status(500).json({ error: (error as Error).message });
+    const status = (error as { code?: string }).code === 'VALIDATION_ERROR' ? 400 : 500;
+    res.status(status).json({ error: (error as Error).message });
   }
 });
 
@@ -2398,45 +2430,30 @@ app.post('/api/orders/create', botControlLimiter, async (req: Request, res: Resp
  */
 app.get('/api/orders', readLimiter, async (req: Request, res: Response) => {
   try {
-    const { userId, status, type, marketId } = req.query;
+    const { userId, status, type, marketId, tokenId } = req.query;
 
     if (!userId) {
       return res.status(400).json({ error: 'userId is required' });
     }
+    const statuses: string[] = Object.values(OrderStatus);
+    const types: string[] = Object.values(OrderType);
+    if (status && !statuses.includes(status as string)) {
+      return res.status(400).json({ error: `status must be one of ${statuses.join(', ')}` });
+    }
+    if (type && !types.includes(type as string)) {
+      return res.status(400).json({ error: `type must be one of ${types.join(', ')}` });
+    }
 
-    const where: any = { userId: userId as string };
-
-    if (status) where.status = status;
-    if (type) where.type = type;
-    if (marketId) where.marketId = marketId;
-
-    const orders = await prisma.order.findMany({
-      where,
-      orderBy: { createdAt: 'desc' },
-      take: 100,
+    const orders = await orderMonitoring.listOrders({
+      userId: userId as string,
+      ...(status && { status: status as OrderStatus }),
+      ...(type && { type: type as OrderType }),
+      ...(marketId && { marketId: marketId as string }),
+      ...(tokenId && { tokenId: tokenId as string }),
     });
 
     res.json({
-      orders: orders.map((order: { id: string; marketId: string; marketQuestion: string; tokenId: string; outcome: string; side: string; type: string; amount: number; price: number | null; filledAmount: number; remainingAmount: number; stopLoss: number | null; takeProfit: number | null; trailingStop: number | null; status: string; createdAt: Date; executedAt: Date | null; cancelledAt: Date | null }) => ({
-        id: order.id,
-        marketId: order.marketId,
-        marketQuestion: order.marketQuestion,
-        tokenId: order.tokenId,
-        outcome: order.outcome,
-        side: order.side,
-        type: order.type,
-        amount: order.amount,
-        price: order.price,
-        filledAmount: order.filledAmount,
-        remainingAmount: order.remainingAmount,
-        stopLoss: order.stopLoss,
-        takeProfit: order.takeProfit,
-        trailingStop: order.trailingStop,
-        status: order.status,
-        createdAt: order.createdAt,
-        executedAt: order.executedAt,
-        cancelledAt: order.cancelledAt,
-      })),
+      orders,
       total: orders.length,
     });
 
@@ -2446,6 +2463,25 @@ app.get('/api/orders', readLimiter, async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/orders/stats
+ * Get order statistics for a user
+ * Protected with: read rate limiting
+ */
+app.get('/api/orders/stats', readLimiter, async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.query;
+
+    const stats = await orderMonitoring.getOrderStats(userId as string);
+
+    res.json(stats);
+
+  } catch (error) {
+    logger.error(`Failed to fetch order stats: ${(error as Error).message}`);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 /**
  * GET /api/orders/:id
  * Get specific order details
@@ -2455,9 +2491,7 @@ app.get('/api/orders/:id', readLimiter, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
 
-    const order = await prisma.order.findUnique({
-      where: { id },
-    });
+    const order = await orderMonitoring.getOrder(id || '');
 
     if (!order) {
       return res.status(404).json({ error: 'Order not found' });
@@ -2499,25 +2533,6 @@ app.post('/api/orders/:id/cancel', botControlLimiter, async (req: Request, res:
   }
 });
 
-/**
- * GET /api/orders/stats
- * Get order statistics for a user
- * Protected with: read rate limiting
- */
-app.get('/api/orders/stats', readLimiter, async (req: Request, res: Response) => {
-  try {
-    const { userId } = req.query;
-
-    const stats = await orderMonitoring.getOrderStats(userId as string);
-
-    res.json(stats);
-
-  } catch (error) {
-    logger.error(`Failed to fetch order stats: ${(error as Error).message}`);
-    res.status(500).json({ error: (error as Error).message });
-  }
-});
-
 /**
  * POST /api/orders/price-update
  * Update current price for order monitoring (internal/admin use)
@@ -2819,7 +2834,7 @@ export function startAPIServer() {
     logger.info(`🌐 API Server running on http://localhost:${PORT}`);
     logger.info(`📊 Dashboard: Connect frontend to this server`);
     logger.info(`🔌 WebSocket: ws://localhost:${PORT}/ws`);
-    logger.info(`📝 Available endpoints (${63} total):`);
+    logger.info(`📝 Available endpoints (${65} total):`);
     logger.info(`   POST /api/start-bot`);
     logger.info(`   POST /api/stop-bot`);
     logger.info(`   GET  /api/bot-status`);
@@ -2831,10 +2846,12 @@ export function startAPIServer() {
     logger.info(`   GET  /api/positions`);
     logger.info(`   POST /api/positions/:id/close`);
     logger.info(`   GET  /api/wallet/balance`);
+    logger.info(`   GET  /api/paper/ledger`);
     logger.info(`   GET  /api/token/:address`);
     logger.info(`   GET  /api/crosschain/opportunities`);
     logger.info(`   POST /api/crosschain/execute`);
     logger.info(`   GET  /api/ai/metrics`);
+    logger.info(`   GET  /api/ai/llm-usage`);
     logger.info(`   GET  /api/ai/decisions`);
     logger.info(`   GET  /api/ai/thresholds`);
     logger.info(`   POST /api/ai/thresholds/recompute`);
@@ -5,6 +5,8 @@
 
 import express from 'express';
 import { wormholeService } from '../crossChain/wormholeService';
+import { getTransferLedger, type TransferState } from '../crossChain/transferLedger';
+import { TradingError, ValidationError } from '../utils/errorHandler';
 import { logger } from '../utils/logger';
 
 const router = express.Router();
@@ -158,6 +160,115 @@ router.get('/transfer/:txHash', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/cross-chain/transfers
+ * Tracked bridge transfers with their state history, newest first (?state=stuck&limit=50)
+ */
+router.get('/transfers', async (req, res) => {
+  try {
+    const ledger = getTransferLedger();
+    await ledger.load();
+
+    const transfers = ledger.list({
+      state: req.query.state ? String(req.query.state) as TransferState : undefined,
+      limit: req.query.limit ? parseInt(String(req.query.limit)) || undefined : undefined,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        transfers,
+        count: transfers.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    logger.error('Error listing bridge transfers:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list bridge transfers',
+    });
+  }
+});
+
+/**
+ * GET /api/cross-chain/transfers/:id
+ * One tracked transfer by ledger id or source/destination tx hash
+ */
+router.get('/transfers/:id', async (req, res) => {
+  try {
+    const ledger = getTransferLedger();
+    await ledger.load();
+    const transfer = ledger.get(req.params.id) ?? ledger.findByTxHash(req.params.id);
+
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transfer not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: transfer,
+    });
+  } catch (error) {
+    logger.error('Error getting bridge transfer:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get bridge transfer',
+    });
+  }
+});
+
+/**
+ * POST /api/cross-chain/transfers/:id/retry
+ * Resume watching a stuck transfer from the stage it got stuck in
+ */
+router.post('/transfers/:id/retry', async (req, res) => {
+  try {
+    const ledger = getTransferLedger();
+    await ledger.load();
+    const transfer = await ledger.retry(req.params.id);
+
+    res.json({
+      success: true,
+      data: transfer,
+    });
+  } catch (error) {
+    logger.error('Error retrying bridge transfer:', error);
+    res.status(error instanceof TradingError ? 400 : 500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
+/**
+ * POST /api/cross-chain/transfers/:id/refund
+ * Close a stuck transfer whose funds were recovered on the source chain ({ txHash, note })
+ */
+router.post('/transfers/:id/refund', async (req, res) => {
+  try {
+    const ledger = getTransferLedger();
+    await ledger.load();
+    const transfer = await ledger.markRefunded(req.params.id, req.body?.txHash, req.body?.note);
+
+    res.json({
+      success: true,
+      data: transfer,
+    });
+  } catch (error) {
+    logger.error('Error marking bridge transfer refunded:', error);
+    res.status(error instanceof TradingError ? 400 : 500).json({
+      success: false,
+      error: (error as Error).message,
+    });
+  }
+});
+
 /**
  * POST /api/cross-chain/arbitrage/opportunity
  * Calculate arbitrage opportunity for a token
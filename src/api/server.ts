@@ -506,6 +506,68 @@ app.get('/api/ai/strategies', async (req: Request, res: Response) => {
   }
 });
 
+// Persisted generations (population + metrics) for inspecting evolution over time
+app.get('/api/ai/strategies/history', async (req: Request, res: Response) => {
+  try {
+    if (!strategyEngine) {
+      return res.status(503).json({
+        error: 'Strategy engine not initialized',
+      });
+    }
+
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+    const generations = await strategyEngine.getGenerationHistory(limit);
+
+    res.json({
+      generations,
+      count: generations.length,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Error getting strategy history:', error);
+    res.status(500).json({
+      error: 'Failed to get strategy history',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// Ancestry of a strategy gene via parentIds
+app.get('/api/ai/strategies/:id/lineage', async (req: Request, res: Response) => {
+  try {
+    if (!strategyEngine) {
+      return res.status(503).json({
+        error: 'Strategy engine not initialized',
+      });
+    }
+
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({
+        error: 'Strategy ID is required',
+      });
+    }
+
+    const lineage = await strategyEngine.getLineage(id);
+    if (lineage.length === 0) {
+      return res.status(404).json({
+        error: 'Strategy not found',
+      });
+    }
+
+    res.json({
+      lineage,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Error getting strategy lineage:', error);
+    res.status(500).json({
+      error: 'Failed to get strategy lineage',
+      message: (error as Error).message,
+    });
+  }
+});
+
 // Trigger strategy evolution
 app.post('/api/ai/evolve', async (req: Request, res: Response) => {
   try {
@@ -1417,6 +1479,16 @@ app.get('/api/unified/balance', async (req: Request, res: Response) => {
 // UNIFIED MEMORY SYSTEM ENDPOINTS
 // =============================================================================
 
+// Replay queued memory uploads left over from the last run
+setTimeout(async () => {
+  try {
+    const { initializeUnifiedMemoryStorage } = await import("../blockchain/unifiedMemoryStorage.js");
+    await initializeUnifiedMemoryStorage();
+  } catch (error) {
+    logger.warn('Unified memory upload queue not available:', error);
+  }
+}, 2000);
+
 // Get unified memory analytics
 app.get("/api/memory/analytics", async (req, res) => {
   try {
@@ -1433,7 +1505,16 @@ app.get("/api/memory/analytics", async (req, res) => {
 app.post("/api/memory/query", readLimiter, validateMemoryQuery, async (req: Request, res: Response) => {
   try {
     const filters = req.body;
-    const { queryUnifiedMemories } = await import("../blockchain/unifiedMemoryStorage.js");
+    const { queryUnifiedMemories, findSimilarUnifiedMemories } = await import("../blockchain/unifiedMemoryStorage.js");
+
+    // similarTo switches to k-NN ranking: most similar first, with scores
+    if (filters.similarTo) {
+      const matches = await findSimilarUnifiedMemories(filters);
+      const memories = matches.map(match => match.memory);
+      const scores = matches.map(match => match.score);
+      return res.json({ memories, scores, count: memories.length, filters, timestamp: Date.now() });
+    }
+
     const memories = await queryUnifiedMemories(filters);
     res.json({ memories, count: memories.length, filters, timestamp: Date.now() });
   } catch (error) {
@@ -1558,6 +1639,14 @@ app.post("/api/dex/best-quote", tradingLimiter, async (req, res) => {
       bestDex: result.bestQuote.dexName,
       outputAmount: result.bestQuote.outputAmount.toString(),
       priceImpact: result.bestQuote.priceImpact,
+      legs: result.bestQuote.legs.map(leg => ({
+        dex: leg.dexName,
+        protocol: leg.protocol,
+        path: leg.path,
+        fees: leg.fees,
+        amountIn: leg.amountIn.toString(),
+        amountOut: leg.amountOut.toString(),
+      })),
       savingsPercentage: result.savingsPercentage,
       allQuotes: result.allQuotes.map(q => ({
         dex: q.dexName,
@@ -1620,6 +1709,15 @@ app.get("/api/flashloan/opportunities", readLimiter, async (req, res) => {
         tokenIn: opp.tokenIn,
         tokenOut: opp.tokenOut,
         expectedProfit: opp.expectedProfit.toString(),
+        ...(opp.cycle && {
+          path: opp.cycle.path,
+          venues: opp.cycle.hops.map(hop => hop.dex),
+          loanAmount: opp.cycle.amountIn.toString(),
+          flashPool: opp.cycle.flashPool.address,
+          flashFee: opp.cycle.flashFee.toString(),
+          profitPercent: opp.cycle.profitPercent,
+          calldata: executor.cycleCalldata(opp.cycle).calldata,
+        }),
       })),
       count: opportunities.length,
       timestamp: Date.now(),
@@ -1695,14 +1793,22 @@ app.get("/api/mev/check-sandwich/:txHash", readLimiter, async (req, res) => {
       return res.status(400).json({ error: "Transaction hash required" });
     }
 
+    // Our own fills were analysed when they confirmed
+    const { getMevForensics } = await import("../mev/mevForensics.js");
+    const forensics = getMevForensics();
+    await forensics.load();
+    const report = forensics.find(txHash);
+    if (report) {
+      return res.json({ txHash, isSandwich: report.kind === "sandwich", attacker: report.attacker, report, timestamp: Date.now() });
+    }
+
+    const { ethers } = await import("ethers");
     const { getMEVProtectionService } = await import("../mev/mevProtection.js");
-    const mevService = getMEVProtectionService();
+    const result = await getMEVProtectionService().detectSandwichAttack(txHash, new ethers.JsonRpcProvider(CONFIG.RPC_URL));
 
-    // This would need provider - simplified for now
     res.json({
       txHash,
-      isSandwich: false,
-      message: "MEV detection service active",
+      ...result,
       timestamp: Date.now(),
     });
   } catch (error) {
@@ -1711,6 +1817,45 @@ app.get("/api/mev/check-sandwich/:txHash", readLimiter, async (req, res) => {
   }
 });
 
+// MEV losses from post-trade forensics, per token / venue / UTC hour
+app.get("/api/mev/losses", readLimiter, async (req, res) => {
+  try {
+    const { getMevForensics } = await import("../mev/mevForensics.js");
+    const forensics = getMevForensics();
+    await forensics.load();
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+    res.json({
+      summary: forensics.summary(),
+      reports: forensics.list(limit),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Error reading MEV losses:", error);
+    res.status(500).json({ error: "Failed to read MEV losses", message: (error as Error).message });
+  }
+});
+
+// Private relay configuration and inclusion counters
+app.get("/api/mev/relays", readLimiter, async (req, res) => {
+  try {
+    const { getMEVProtectionService } = await import("../mev/mevProtection.js");
+    const { parseRelayEndpoints } = await import("../mev/privateRelay.js");
+
+    res.json({
+      enabled: CONFIG.PRIVATE_RELAY_ENABLED,
+      fallbackBlocks: CONFIG.PRIVATE_RELAY_FALLBACK_BLOCKS,
+      publicFallback: CONFIG.PRIVATE_RELAY_PUBLIC_FALLBACK,
+      relays: parseRelayEndpoints(CONFIG.PRIVATE_RELAYS).map(({ name, kind }) => ({ name, kind })),
+      stats: getMEVProtectionService().relayStats(),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Error reading private relays:", error);
+    res.status(500).json({ error: "Failed to read private relays", message: (error as Error).message });
+  }
+});
+
 // Bot Control Endpoints
 
 // Global bot state
@@ -1958,9 +2103,14 @@ app.get("/api/bot/risk-status", async (req, res) => {
 
     const riskStatus = await orchestrator.getRiskStatus();
 
+    // VaR, correlation and concentration of the TradingLoop's open positions
+    const { getTradingLoop } = await import('../services/tradingLoop.js');
+    const positionRisk = await getTradingLoop().getPositionManager().getPortfolioRisk();
+
     res.json({
       success: true,
       riskStatus,
+      positionRisk,
       timestamp: Date.now(),
     });
   } catch (error) {
@@ -1988,6 +2138,85 @@ app.get("/api/bot/trading-cycle", async (req, res) => {
   }
 });
 
+// Trade approval queue (TradingLoop with auto-trading disabled)
+const decisionErrorStatus = (error: unknown): number => {
+  const code = (error as { code?: string }).code;
+  return code === 'DECISION_NOT_FOUND' ? 404 : code === 'DECISION_NOT_PENDING' ? 409 : 500;
+};
+
+/**
+ * GET /api/decisions/pending - Decisions awaiting approval (?history=true for resolved ones too)
+ */
+app.get("/api/decisions/pending", async (req, res) => {
+  try {
+    const { getTradingLoop } = await import('../services/tradingLoop.js');
+    const loop = getTradingLoop();
+    const decisions = req.query.history === 'true' ? loop.getDecisionHistory() : loop.getPendingDecisions();
+
+    res.json({
+      success: true,
+      count: decisions.length,
+      decisions: decisions.map(d => ({ ...d, expired: d.status === 'pending' && Date.now() > d.expiresAt })),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Error getting pending decisions:", error);
+    res.status(500).json({ error: "Failed to get pending decisions", message: (error as Error).message });
+  }
+});
+
+/**
+ * POST /api/decisions/:id/approve - Approve and execute a parked decision (re-quoted if expired)
+ */
+app.post("/api/decisions/:id/approve", tradingLimiter, async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "Decision ID is required" });
+    }
+
+    const { getTradingLoop } = await import('../services/tradingLoop.js');
+    const decision = await getTradingLoop().approveDecision(id, req.body?.approvedBy || 'api');
+
+    res.json({
+      success: decision.status === 'executed',
+      decision,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Error approving decision:", error);
+    res.status(decisionErrorStatus(error)).json({ error: "Failed to approve decision", message: (error as Error).message });
+  }
+});
+
+/**
+ * POST /api/decisions/:id/reject - Reject a parked decision
+ */
+app.post("/api/decisions/:id/reject", tradingLimiter, async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "Decision ID is required" });
+    }
+
+    const { getTradingLoop } = await import('../services/tradingLoop.js');
+    const decision = getTradingLoop().rejectDecision(
+      id,
+      req.body?.rejectedBy || 'api',
+      req.body?.reason
+    );
+
+    res.json({
+      success: true,
+      decision,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Error rejecting decision:", error);
+    res.status(decisionErrorStatus(error)).json({ error: "Failed to reject decision", message: (error as Error).message });
+  }
+});
+
 // =============================================================================
 // END PHASE 8 ENDPOINTS
 // =============================================================================
@@ -2035,6 +2264,252 @@ app.get("/api/positions", async (req, res) => {
   }
 });
 
+/**
+ * GET /api/positions/:id/exit-plan - Exit plan of an open TradingLoop position
+ */
+app.get("/api/positions/:id/exit-plan", async (req, res) => {
+  try {
+    const { getTradingLoop } = await import('../services/tradingLoop.js');
+    const position = await getTradingLoop().getPositionManager().getPosition(req.params.id);
+
+    if (!position) {
+      return res.status(404).json({ error: "Position not found" });
+    }
+
+    res.json({
+      success: true,
+      positionId: position.id,
+      symbol: position.symbol,
+      entryPrice: position.entryPrice,
+      currentPrice: position.currentPrice,
+      amount: position.amount,
+      originalAmount: position.originalAmount,
+      realizedProfitLossAmount: position.realizedProfitLossAmount,
+      exitPlan: position.exitPlan,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Error getting exit plan:", error);
+    res.status(500).json({ error: "Failed to get exit plan", message: (error as Error).message });
+  }
+});
+
+/**
+ * PUT /api/positions/:id/exit-plan - Edit stop, trailing stop, take-profit ladder or max hold time
+ * Body: { stopPrice?, trailingStopPercent?, maxHoldMs?, breakEvenAfterFirstTarget?, takeProfits?: [{ price, sellFraction }] }
+ * null clears a field; takeProfits replaces the unfilled tiers
+ */
+app.put("/api/positions/:id/exit-plan", tradingLimiter, async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "Position ID is required" });
+    }
+
+    const { stopPrice, trailingStopPercent, maxHoldMs, breakEvenAfterFirstTarget, takeProfits } = req.body || {};
+    if (takeProfits !== undefined && !Array.isArray(takeProfits)) {
+      return res.status(400).json({ error: "takeProfits must be an array of { price, sellFraction }" });
+    }
+
+    const { getTradingLoop } = await import('../services/tradingLoop.js');
+    const position = await getTradingLoop().getPositionManager().updateExitPlan(id, {
+      stopPrice,
+      trailingStopPercent,
+      maxHoldMs,
+      breakEvenAfterFirstTarget,
+      takeProfits,
+    });
+
+    res.json({
+      success: true,
+      positionId: position.id,
+      exitPlan: position.exitPlan,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Error updating exit plan:", error);
+    const code = (error as { code?: string }).code;
+    const status = code === 'POSITION_NOT_FOUND' ? 404 : code === 'VALIDATION_ERROR' ? 400 : 500;
+    res.status(status).json({ error: "Failed to update exit plan", message: (error as Error).message });
+  }
+});
+
+/**
+ * GET /api/strategies - Latest version of every registered strategy definition
+ */
+app.get("/api/strategies", async (req, res) => {
+  try {
+    const { initializeStrategyRegistry, strategyRef } = await import('../ai/strategyRegistry.js');
+    const registry = await initializeStrategyRegistry();
+    const strategies = registry.list();
+
+    res.json({
+      success: true,
+      strategies: strategies.map(definition => ({ ref: strategyRef(definition), ...definition })),
+      count: strategies.length,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Error listing strategies:", error);
+    res.status(500).json({ error: "Failed to list strategies", message: (error as Error).message });
+  }
+});
+
+/**
+ * GET /api/strategies/:ref - One definition ("id" for the latest, "id@version" for an exact version)
+ * and every version of that strategy
+ */
+app.get("/api/strategies/:ref", async (req, res) => {
+  try {
+    const { initializeStrategyRegistry, parseStrategyRef, strategyRef } = await import('../ai/strategyRegistry.js');
+    const registry = await initializeStrategyRegistry();
+    const definition = registry.resolve(req.params.ref);
+
+    res.json({
+      success: true,
+      ref: strategyRef(definition),
+      strategy: definition,
+      versions: registry.history(parseStrategyRef(req.params.ref).id).map(d => d.version),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    const status = (error as { code?: string }).code === 'STRATEGY_NOT_FOUND' ? 404 : 500;
+    if (status === 500) logger.error("Error getting strategy:", error);
+    res.status(status).json({ error: "Failed to get strategy", message: (error as Error).message });
+  }
+});
+
+/**
+ * POST /api/strategies - Register a new strategy version (persisted to STRATEGY_DIR)
+ * Body: { id, version, name, description?, entry: [{ field, op, value }], sizing, exit, regimes }
+ * Published versions are immutable; changing rules requires a higher version
+ */
+app.post("/api/strategies", tradingLimiter, async (req, res) => {
+  try {
+    const { initializeStrategyRegistry, strategyRef } = await import('../ai/strategyRegistry.js');
+    const registry = await initializeStrategyRegistry();
+    const definition = await registry.register(req.body);
+
+    res.status(201).json({
+      success: true,
+      ref: strategyRef(definition),
+      strategy: definition,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    logger.error("Error registering strategy:", error);
+    const code = (error as { code?: string }).code;
+    const status = code === 'VALIDATION_ERROR' ? 400 : code === 'STRATEGY_VERSION_CONFLICT' ? 409 : 500;
+    res.status(status).json({ error: "Failed to register strategy", message: (error as Error).message });
+  }
+});
+
+const executionJobErrorStatus = (error: unknown): number => {
+  const code = (error as { code?: string }).code;
+  return code === 'EXECUTION_JOB_NOT_FOUND' ? 404
+    : code === 'EXECUTION_JOB_NOT_ACTIVE' ? 409
+    : code === 'VALIDATION_ERROR' ? 400
+    : 500;
+};
+
+/**
+ * POST /api/execution/jobs - Work an order as a background TWAP / VWAP / IS job
+ * Body: { tokenAddress, action, amountBNB, tokenAmount? (sells), algorithm: 'twap' | 'vwap' | 'is',
+ *         durationMs?, intervalMs?, participationRate?, driftTolerancePercent?, slippagePercent?, symbol?, positionId? }
+ */
+app.post("/api/execution/jobs", tradingLimiter, async (req, res) => {
+  try {
+    const { tokenAddress, action, amountBNB, tokenAmount, slippagePercent, ...schedule } = req.body || {};
+    if (!tokenAddress || !action || !amountBNB || !schedule.algorithm) {
+      return res.status(400).json({ error: "tokenAddress, action, amountBNB and algorithm are required" });
+    }
+
+    const { getExecutionOptimizer } = await import('../blockchain/executionOptimizer.js');
+    const job = await getExecutionOptimizer().scheduleExecution(
+      { tokenAddress, action, amountBNB: Number(amountBNB), tokenAmount: tokenAmount !== undefined ? Number(tokenAmount) : undefined, slippagePercent },
+      schedule
+    );
+
+    res.status(201).json({ success: true, job, timestamp: Date.now() });
+  } catch (error) {
+    logger.error("Error scheduling execution job:", error);
+    res.status(executionJobErrorStatus(error)).json({ error: "Failed to schedule execution job", message: (error as Error).message });
+  }
+});
+
+/**
+ * GET /api/execution/jobs - Execution jobs, newest first (?status=running to filter)
+ */
+app.get("/api/execution/jobs", async (req, res) => {
+  try {
+    const { getExecutionJobRunner } = await import('../blockchain/executionJobs.js');
+    const runner = getExecutionJobRunner();
+    await runner.load();
+    const jobs = runner.list().filter(job => !req.query.status || job.status === req.query.status);
+
+    res.json({ success: true, count: jobs.length, jobs, timestamp: Date.now() });
+  } catch (error) {
+    logger.error("Error getting execution jobs:", error);
+    res.status(500).json({ error: "Failed to get execution jobs", message: (error as Error).message });
+  }
+});
+
+/**
+ * GET /api/execution/jobs/:id - One job with its child fills
+ */
+app.get("/api/execution/jobs/:id", async (req, res) => {
+  try {
+    const { getExecutionJobRunner } = await import('../blockchain/executionJobs.js');
+    const runner = getExecutionJobRunner();
+    await runner.load();
+    const job = runner.get(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ error: "Execution job not found" });
+    }
+    res.json({ success: true, job, timestamp: Date.now() });
+  } catch (error) {
+    logger.error("Error getting execution job:", error);
+    res.status(500).json({ error: "Failed to get execution job", message: (error as Error).message });
+  }
+});
+
+/**
+ * POST /api/execution/jobs/:id/:action - Pause, resume or cancel a job
+ */
+app.post("/api/execution/jobs/:id/:action", tradingLimiter, async (req, res) => {
+  try {
+    const { id, action } = req.params;
+    if (!id) {
+      return res.status(400).json({ error: "Execution job ID is required" });
+    }
+
+    const { getExecutionJobRunner } = await import('../blockchain/executionJobs.js');
+    const runner = getExecutionJobRunner();
+    await runner.load();
+
+    let job;
+    switch (action) {
+      case 'pause':
+        job = await runner.pause(id);
+        break;
+      case 'resume':
+        job = await runner.resume(id);
+        break;
+      case 'cancel':
+        job = await runner.cancel(id);
+        break;
+      default:
+        return res.status(400).json({ error: "action must be pause, resume or cancel" });
+    }
+
+    res.json({ success: true, job, timestamp: Date.now() });
+  } catch (error) {
+    logger.error("Error updating execution job:", error);
+    res.status(executionJobErrorStatus(error)).json({ error: "Failed to update execution job", message: (error as Error).message });
+  }
+});
+
 /**
  * GET /api/portfolio - Get portfolio summary
  * (Alias for /api/unified/portfolio)
@@ -0,0 +1,542 @@
+/**
+ * Backtest Engine
+ * Replays recorded market snapshots through the same cycle TradingLoop runs live:
+ * 1. Discover Tokens (filterDiscoveredTokens)
+ * 2. Analyze Market Conditions (deriveMarketConditions)
+ * 3. Monitor positions / stop-loss
+ * 4. AI Decision Making (ImmortalAIAgent.makeDecision)
+ * 5. Risk Assessment (confidence + checkPositionLimits)
+ * 6. Execute Trade (simulated fill instead of executeTrade)
+ * 7. Store Memory (agent.learnFromTrade, Greenfield writes disabled)
+ * 8. Monitor & Learn
+ *
+ * Time is driven by a simulated clock, and results are reported with the same
+ * PerformanceStats shape PositionManager.getPerformanceStats() returns.
+ */
+
+import { logger } from '../utils/logger';
+import { CONFIG } from '../config';
+import { ImmortalAIAgent } from '../ai/immortalAgent';
+import {
+  filterDiscoveredTokens,
+  deriveMarketConditions,
+} from '../services/tradingLoop';
+import type { Token, MarketConditions, Decision } from '../services/tradingLoop';
+import {
+  checkPositionLimits,
+  calculatePerformanceStats,
+} from '../services/positionManager';
+import type { Position, PerformanceStats } from '../services/positionManager';
+import type { TokenData } from '../data/marketFetcher';
+import { ConstantProductFillModel } from './fillModel';
+import type { FillModel } from './fillModel';
+import type { MarketSnapshot } from './historicalData';
+
+export interface BacktestConfig {
+  initialBalanceBNB: number;
+  tokenLimit: number; // max tokens to evaluate per snapshot (TradingLoopConfig.tokenLimit)
+  maxConcurrentTrades: number; // TradingLoopConfig.maxConcurrentTrades
+  minConfidence: number; // 0-1 scale
+  stopLossPercent: number;
+  takeProfitPercent?: number; // not used by the live loop; optional exit for experiments
+  exitOnSellSignal: boolean; // close held tokens when the AI says SELL (live loop ignores SELL)
+  liquidateAtEnd: boolean; // mark open positions to a simulated sell on the last snapshot
+  loadMemories: boolean; // seed the agent with Greenfield memories (beware look-ahead bias)
+}
+
+export interface BacktestTrade {
+  id: string;
+  positionId: string;
+  timestamp: number;
+  tokenAddress: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  reason: 'signal' | 'stop-loss' | 'take-profit' | 'end-of-data';
+  marketPrice: number;
+  fillPrice: number;
+  amountBNB: number;
+  feeBNB: number;
+  gasBNB: number;
+  priceImpactPercent: number;
+  strategy: string;
+  confidence: number;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  cash: number;
+  positionsValue: number;
+  equity: number;
+  drawdownPercent: number;
+  openPositions: number;
+}
+
+export interface BacktestResult {
+  startTime: number;
+  endTime: number;
+  snapshots: number;
+  initialBalance: number;
+  finalEquity: number;
+  totalReturnPercent: number;
+  maxDrawdownPercent: number;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+  positions: Position[];
+  stats: PerformanceStats;
+  decisions: {
+    total: number;
+    buy: number;
+    sell: number;
+    hold: number;
+    executed: number;
+  };
+}
+
+/**
+ * The subset of ImmortalAIAgent the engine drives
+ */
+export type BacktestAgent = Pick<ImmortalAIAgent, 'makeDecision' | 'learnFromTrade' | 'loadMemories'>;
+
+interface OpenBacktestPosition {
+  position: Position;
+  netBNB: number; // notional that reached the pool on entry
+  costBNB: number; // BNB spent including gas
+  liquidity: number;
+  lastPrice: number;
+  entryConditions: {
+    volume24h: number;
+    liquidity: number;
+    priceChange24h: number;
+    marketTrend: MarketConditions['trend'];
+    buySellPressure: number;
+  };
+}
+
+/**
+ * Clock the backtest advances snapshot by snapshot
+ */
+export class SimulatedClock {
+  private current: number;
+
+  constructor(start: number = 0) {
+    this.current = start;
+  }
+
+  now = (): number => this.current;
+
+  advanceTo(timestamp: number): void {
+    if (timestamp < this.current) {
+      throw new Error(`Simulated clock cannot move backwards (${timestamp} < ${this.current})`);
+    }
+    this.current = timestamp;
+  }
+}
+
+export class BacktestEngine {
+  private config: BacktestConfig;
+  private clock: SimulatedClock;
+  private fillModel: FillModel;
+  private agent: BacktestAgent;
+
+  private cash: number = 0;
+  private openPositions: Map<string, OpenBacktestPosition> = new Map();
+  private closedPositions: Position[] = [];
+  private trades: BacktestTrade[] = [];
+  private equityCurve: EquityPoint[] = [];
+  private peakEquity: number = 0;
+  private tradeCounter: number = 0;
+  private decisionCounts = { total: 0, buy: 0, sell: 0, hold: 0, executed: 0 };
+
+  constructor(
+    config?: Partial<BacktestConfig>,
+    deps?: { agent?: BacktestAgent; fillModel?: FillModel; clock?: SimulatedClock }
+  ) {
+    this.config = {
+      initialBalanceBNB: 1,
+      tokenLimit: 10,
+      maxConcurrentTrades: 5,
+      minConfidence: CONFIG.MIN_CONFIDENCE_THRESHOLD,
+      stopLossPercent: CONFIG.STOP_LOSS_PERCENTAGE || 10,
+      exitOnSellSignal: false,
+      liquidateAtEnd: true,
+      loadMemories: false,
+      ...config,
+    };
+
+    this.clock = deps?.clock || new SimulatedClock();
+    this.fillModel = deps?.fillModel || new ConstantProductFillModel();
+    this.agent = deps?.agent || new ImmortalAIAgent({
+      persistMemories: false,
+      liveTokenAnalysis: false,
+      now: this.clock.now,
+    });
+
+    logger.info('🧪 Backtest Engine initialized', { config: this.config });
+  }
+
+  /**
+   * Replay the snapshots and return the equity curve, trades and statistics
+   */
+  async run(snapshots: MarketSnapshot[]): Promise<BacktestResult> {
+    if (snapshots.length === 0) {
+      throw new Error('Backtest requires at least one market snapshot');
+    }
+
+    this.reset();
+
+    if (this.config.loadMemories) {
+      await this.agent.loadMemories();
+    }
+
+    logger.info(`🧪 Running backtest over ${snapshots.length} snapshots...`);
+
+    for (const snapshot of snapshots) {
+      await this.step(snapshot);
+    }
+
+    const last = snapshots[snapshots.length - 1]!;
+    if (this.config.liquidateAtEnd && this.openPositions.size > 0) {
+      for (const open of Array.from(this.openPositions.values())) {
+        await this.closePosition(open, open.lastPrice, 'end-of-data');
+      }
+      this.recordEquity(last.timestamp);
+    }
+
+    const finalEquity = this.currentEquity();
+    const maxDrawdownPercent = this.equityCurve.reduce((max, p) => Math.max(max, p.drawdownPercent), 0);
+
+    const result: BacktestResult = {
+      startTime: snapshots[0]!.timestamp,
+      endTime: last.timestamp,
+      snapshots: snapshots.length,
+      initialBalance: this.config.initialBalanceBNB,
+      finalEquity,
+      totalReturnPercent: ((finalEquity - this.config.initialBalanceBNB) / this.config.initialBalanceBNB) * 100,
+      maxDrawdownPercent,
+      equityCurve: this.equityCurve,
+      trades: this.trades,
+      positions: [...this.closedPositions],
+      stats: calculatePerformanceStats(
+        this.closedPositions,
+        Array.from(this.openPositions.values()).map(o => o.position)
+      ),
+      decisions: { ...this.decisionCounts },
+    };
+
+    logger.info(
+      `✅ Backtest complete: ${result.trades.length} fills, ` +
+      `return ${result.totalReturnPercent.toFixed(2)}%, ` +
+      `max drawdown ${result.maxDrawdownPercent.toFixed(2)}%, ` +
+      `win rate ${result.stats.winRate.toFixed(1)}%`
+    );
+
+    return result;
+  }
+
+  /**
+   * Run one trading cycle against a snapshot
+   */
+  private async step(snapshot: MarketSnapshot): Promise<void> {
+    this.clock.advanceTo(snapshot.timestamp);
+
+    const tokensByAddress = new Map<string, TokenData>();
+    for (const token of snapshot.tokens) {
+      tokensByAddress.set(token.address.toLowerCase(), token);
+    }
+
+    // STEP 1-2: DISCOVER TOKENS & ANALYZE MARKET CONDITIONS
+    const tokens = filterDiscoveredTokens(snapshot.tokens);
+    const marketConditions = deriveMarketConditions(snapshot.tokens, snapshot.timestamp);
+
+    // STEP 3: MONITOR EXISTING POSITIONS
+    await this.monitorPositions(tokensByAddress);
+
+    // STEP 4-8: EVALUATE EACH TOKEN
+    for (const token of tokens.slice(0, this.config.tokenLimit)) {
+      try {
+        await this.evaluateToken(token, tokensByAddress.get(token.address.toLowerCase()), marketConditions);
+      } catch (error) {
+        logger.error(`Backtest evaluation error for ${token.symbol}:`, error);
+      }
+    }
+
+    this.recordEquity(snapshot.timestamp);
+  }
+
+  /**
+   * Mark positions to market and apply stop-loss / take-profit exits
+   */
+  private async monitorPositions(tokensByAddress: Map<string, TokenData>): Promise<void> {
+    for (const open of Array.from(this.openPositions.values())) {
+      const tokenData = tokensByAddress.get(open.position.token.toLowerCase());
+      if (tokenData) {
+        open.lastPrice = tokenData.price;
+        open.liquidity = tokenData.liquidity;
+      }
+
+      const profitLoss = ((open.lastPrice - open.position.entryPrice) / open.position.entryPrice) * 100;
+      open.position.currentPrice = open.lastPrice;
+      open.position.profitLoss = profitLoss;
+      open.position.profitLossAmount = (profitLoss / 100) * open.position.amount;
+
+      if (profitLoss <= -this.config.stopLossPercent) {
+        await this.closePosition(open, open.lastPrice, 'stop-loss');
+      } else if (this.config.takeProfitPercent !== undefined && profitLoss >= this.config.takeProfitPercent) {
+        await this.closePosition(open, open.lastPrice, 'take-profit');
+      }
+    }
+  }
+
+  /**
+   * STEPS 4-6 for a single token, mirroring TradingLoop.evaluateToken
+   */
+  private async evaluateToken(
+    token: Token,
+    tokenData: TokenData | undefined,
+    marketConditions: MarketConditions
+  ): Promise<void> {
+    const maxTradeAmount = Math.min(this.cash * 0.1, CONFIG.MAX_TRADE_AMOUNT_BNB);
+
+    // STEP 4: AI DECISION MAKING
+    const decision: Decision = await this.agent.makeDecision(
+      token.address,
+      { ...token, ...tokenData, marketConditions },
+      maxTradeAmount
+    );
+
+    this.decisionCounts.total++;
+    if (decision.action === 'BUY') this.decisionCounts.buy++;
+    else if (decision.action === 'SELL') this.decisionCounts.sell++;
+    else this.decisionCounts.hold++;
+
+    if (decision.action === 'SELL' && this.config.exitOnSellSignal) {
+      for (const open of Array.from(this.openPositions.values())) {
+        if (open.position.token.toLowerCase() === token.address.toLowerCase()) {
+          await this.closePosition(open, token.price, 'signal');
+        }
+      }
+      return;
+    }
+
+    // STEP 5: RISK ASSESSMENT
+    if (decision.action !== 'BUY') return;
+    if (decision.confidence < this.config.minConfidence) return;
+    if (decision.amount <= 0) return;
+
+    const openPositions = Array.from(this.openPositions.values()).map(o => o.position);
+    const limits = checkPositionLimits(openPositions, decision.amount, this.cash);
+    if (!limits.allowed) {
+      logger.debug(`Backtest skip ${token.symbol}: ${limits.reason}`);
+      return;
+    }
+
+    if (decision.riskLevel === 'HIGH' && this.config.maxConcurrentTrades > 2) {
+      decision.amount *= 0.5;
+    }
+
+    // STEP 6-7: EXECUTE (SIMULATED) AND TRACK
+    this.openPosition(token, decision, marketConditions);
+  }
+
+  /**
+   * Simulate a buy fill and open a position
+   */
+  private openPosition(token: Token, decision: Decision, marketConditions: MarketConditions): void {
+    const fill = this.fillModel.fill({
+      side: 'buy',
+      marketPrice: token.price,
+      amountBNB: decision.amount,
+      liquidityUSD: token.liquidity,
+    });
+
+    const costBNB = decision.amount + fill.gasBNB;
+    if (costBNB > this.cash) {
+      logger.debug(`Backtest skip ${token.symbol}: insufficient simulated balance`);
+      return;
+    }
+
+    this.cash -= costBNB;
+    const id = this.nextId('bt_pos');
+    const timestamp = this.clock.now();
+
+    const position: Position = {
+      id,
+      token: token.address,
+      symbol: token.symbol,
+      entryPrice: fill.fillPrice,
+      currentPrice: token.price,
+      amount: decision.amount,
+      strategy: decision.strategy,
+      confidence: decision.confidence,
+      timestamp,
+      status: 'open',
+    };
+
+    this.openPositions.set(id, {
+      position,
+      netBNB: fill.amountBNB,
+      costBNB,
+      liquidity: token.liquidity,
+      lastPrice: token.price,
+      entryConditions: {
+        volume24h: token.volume24h,
+        liquidity: token.liquidity,
+        priceChange24h: token.priceChange24h,
+        marketTrend: marketConditions.trend,
+        buySellPressure: 0,
+      },
+    });
+
+    this.trades.push({
+      id: this.nextId('bt_fill'),
+      positionId: id,
+      timestamp,
+      tokenAddress: token.address,
+      symbol: token.symbol,
+      side: 'buy',
+      reason: 'signal',
+      marketPrice: token.price,
+      fillPrice: fill.fillPrice,
+      amountBNB: decision.amount,
+      feeBNB: fill.feeBNB,
+      gasBNB: fill.gasBNB,
+      priceImpactPercent: fill.priceImpactPercent,
+      strategy: decision.strategy,
+      confidence: decision.confidence,
+    });
+    this.decisionCounts.executed++;
+
+    logger.info(
+      `  🧪 [${new Date(timestamp).toISOString()}] BUY ${token.symbol} ` +
+      `${decision.amount.toFixed(4)} BNB @ $${fill.fillPrice.toFixed(6)}`
+    );
+  }
+
+  /**
+   * Simulate a sell fill, close the position and store the memory
+   */
+  private async closePosition(
+    open: OpenBacktestPosition,
+    marketPrice: number,
+    reason: BacktestTrade['reason']
+  ): Promise<void> {
+    const { position } = open;
+    const grossValue = this.positionValue(open, marketPrice);
+
+    const fill = this.fillModel.fill({
+      side: 'sell',
+      marketPrice,
+      amountBNB: grossValue,
+      liquidityUSD: open.liquidity,
+    });
+
+    // The sell fill price already includes impact, so value the exit at fill rather than mid
+    const exitValue = this.positionValue(open, fill.fillPrice);
+    const proceeds = Math.max(0, exitValue - fill.feeBNB - fill.gasBNB);
+    this.cash += proceeds;
+
+    const timestamp = this.clock.now();
+    position.status = reason === 'stop-loss' ? 'stop-loss' : 'closed';
+    position.currentPrice = marketPrice;
+    position.exitPrice = fill.fillPrice;
+    position.exitTimestamp = timestamp;
+    position.profitLoss = ((fill.fillPrice - position.entryPrice) / position.entryPrice) * 100;
+    position.profitLossAmount = proceeds - open.costBNB;
+
+    this.openPositions.delete(position.id);
+    this.closedPositions.push(position);
+
+    this.trades.push({
+      id: this.nextId('bt_fill'),
+      positionId: position.id,
+      timestamp,
+      tokenAddress: position.token,
+      symbol: position.symbol,
+      side: 'sell',
+      reason,
+      marketPrice,
+      fillPrice: fill.fillPrice,
+      amountBNB: exitValue,
+      feeBNB: fill.feeBNB,
+      gasBNB: fill.gasBNB,
+      priceImpactPercent: fill.priceImpactPercent,
+      strategy: position.strategy,
+      confidence: position.confidence,
+    });
+
+    logger.info(
+      `  🧪 [${new Date(timestamp).toISOString()}] SELL ${position.symbol} (${reason}) ` +
+      `${position.profitLoss > 0 ? '+' : ''}${position.profitLoss.toFixed(2)}%`
+    );
+
+    // STEP 7: STORE MEMORY - the live loop stores at entry with exit=entry;
+    // a replay knows the real exit, so the memory is written when the position closes
+    await this.agent.learnFromTrade(
+      position.symbol,
+      position.token,
+      'BUY',
+      position.amount,
+      position.entryPrice,
+      fill.fillPrice,
+      open.entryConditions,
+      position.strategy
+    );
+  }
+
+  /**
+   * Value of a position in BNB at a given token price
+   */
+  private positionValue(open: OpenBacktestPosition, price: number): number {
+    return open.netBNB * (price / open.position.entryPrice);
+  }
+
+  private currentEquity(): number {
+    let positionsValue = 0;
+    for (const open of this.openPositions.values()) {
+      positionsValue += this.positionValue(open, open.lastPrice);
+    }
+    return this.cash + positionsValue;
+  }
+
+  private recordEquity(timestamp: number): void {
+    const equity = this.currentEquity();
+    this.peakEquity = Math.max(this.peakEquity, equity);
+
+    this.equityCurve.push({
+      timestamp,
+      cash: this.cash,
+      positionsValue: equity - this.cash,
+      equity,
+      drawdownPercent: this.peakEquity > 0 ? ((this.peakEquity - equity) / this.peakEquity) * 100 : 0,
+      openPositions: this.openPositions.size,
+    });
+  }
+
+  private nextId(prefix: string): string {
+    this.tradeCounter++;
+    return `${prefix}_${this.clock.now()}_${this.tradeCounter}`;
+  }
+
+  private reset(): void {
+    this.cash = this.config.initialBalanceBNB;
+    this.peakEquity = this.config.initialBalanceBNB;
+    this.openPositions.clear();
+    this.closedPositions = [];
+    this.trades = [];
+    this.equityCurve = [];
+    this.tradeCounter = 0;
+    this.decisionCounts = { total: 0, buy: 0, sell: 0, hold: 0, executed: 0 };
+  }
+}
+
+/**
+ * Convenience wrapper: run a backtest with default agent and fill model
+ */
+export async function runBacktest(
+  snapshots: MarketSnapshot[],
+  config?: Partial<BacktestConfig>
+): Promise<BacktestResult> {
+  const clock = new SimulatedClock(snapshots[0]?.timestamp || 0);
+  const engine = new BacktestEngine(config, { clock });
+  return engine.run(snapshots);
+}
@@ -0,0 +1,80 @@
+/**
+ * Simulated Fill Model
+ * Replaces on-chain swaps during backtests with a deterministic estimate of
+ * execution price: constant-product price impact + base slippage + DEX fee + gas
+ */
+
+export interface FillRequest {
+  side: 'buy' | 'sell';
+  marketPrice: number; // mid price in USD at the simulated time
+  amountBNB: number; // notional of the trade in BNB
+  liquidityUSD: number; // pool liquidity (both sides) in USD
+}
+
+export interface SimulatedFill {
+  fillPrice: number; // effective USD price per token after impact and slippage
+  amountBNB: number; // notional that reached the pool after the DEX fee
+  feeBNB: number;
+  gasBNB: number;
+  priceImpactPercent: number;
+  slippagePercent: number;
+}
+
+export interface FillModel {
+  fill(request: FillRequest): SimulatedFill;
+}
+
+export interface FillModelOptions {
+  feeBps: number; // DEX swap fee (PancakeSwap V2: 25 bps)
+  baseSlippageBps: number; // execution noise on top of price impact
+  gasCostBNB: number; // gas paid per swap
+  bnbPriceUSD: number; // used to size trades against USD liquidity
+  maxPriceImpactPercent: number; // cap so tiny pools don't produce absurd fills
+}
+
+/**
+ * Fill model based on a constant-product (x*y=k) pool.
+ * A trade of size x against the quote reserve R moves price by roughly x / (R + x).
+ */
+export class ConstantProductFillModel implements FillModel {
+  private options: FillModelOptions;
+
+  constructor(options: Partial<FillModelOptions> = {}) {
+    this.options = {
+      feeBps: 25,
+      baseSlippageBps: 10,
+      gasCostBNB: 0.0005,
+      bnbPriceUSD: 600,
+      maxPriceImpactPercent: 50,
+      ...options,
+    };
+  }
+
+  fill(request: FillRequest): SimulatedFill {
+    const notionalUSD = request.amountBNB * this.options.bnbPriceUSD;
+    const quoteReserveUSD = Math.max(request.liquidityUSD / 2, 0);
+
+    const rawImpact = quoteReserveUSD > 0
+      ? (notionalUSD / (quoteReserveUSD + notionalUSD)) * 100
+      : this.options.maxPriceImpactPercent;
+    const priceImpactPercent = Math.min(rawImpact, this.options.maxPriceImpactPercent);
+    const slippagePercent = this.options.baseSlippageBps / 100;
+
+    // Buys pay up, sells receive less
+    const adverse = (priceImpactPercent + slippagePercent) / 100;
+    const fillPrice = request.side === 'buy'
+      ? request.marketPrice * (1 + adverse)
+      : request.marketPrice * Math.max(0, 1 - adverse);
+
+    const feeBNB = request.amountBNB * (this.options.feeBps / 10000);
+
+    return {
+      fillPrice,
+      amountBNB: request.amountBNB - feeBNB,
+      feeBNB,
+      gasBNB: this.options.gasCostBNB,
+      priceImpactPercent,
+      slippagePercent,
+    };
+  }
+}
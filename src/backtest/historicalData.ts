@@ -0,0 +1,124 @@
+/**
+ * Historical Market Data for Backtesting
+ * Loads recorded TokenData snapshots or OHLCV candles and normalizes them
+ * into a time-ordered list of market snapshots the backtest engine replays
+ */
+
+import fs from 'fs/promises';
+import { logger } from '../utils/logger';
+import type { TokenData } from '../data/marketFetcher';
+
+export interface MarketSnapshot {
+  timestamp: number;
+  tokens: TokenData[];
+}
+
+export interface OHLCVCandle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // quote volume (USD) for the candle
+}
+
+export interface TokenCandleSeries {
+  address: string;
+  symbol: string;
+  name?: string;
+  liquidity: number; // USD liquidity assumed for the replay
+  marketCap?: number;
+  candles: OHLCVCandle[];
+}
+
+/**
+ * Load recorded snapshots from a JSON file.
+ * Accepts either `{ "snapshots": [...] }`, a bare snapshot array,
+ * or `{ "series": [...] }` of OHLCV candles per token.
+ */
+export async function loadHistoricalData(filePath: string): Promise<MarketSnapshot[]> {
+  const raw = await fs.readFile(filePath, 'utf-8');
+  const parsed = JSON.parse(raw);
+
+  let snapshots: MarketSnapshot[];
+  if (Array.isArray(parsed)) {
+    snapshots = parsed;
+  } else if (Array.isArray(parsed.snapshots)) {
+    snapshots = parsed.snapshots;
+  } else if (Array.isArray(parsed.series)) {
+    snapshots = snapshotsFromCandles(parsed.series, parsed.lookbackMs);
+  } else {
+    throw new Error(`Unrecognized historical data format in ${filePath}`);
+  }
+
+  const normalized = normalizeSnapshots(snapshots);
+  logger.info(`📼 Loaded ${normalized.length} market snapshots from ${filePath}`);
+  return normalized;
+}
+
+/**
+ * Build market snapshots from per-token OHLCV candles.
+ * 24h change and volume are derived from the candles inside the lookback window,
+ * so each snapshot only uses information available at its timestamp.
+ */
+export function snapshotsFromCandles(
+  series: TokenCandleSeries[],
+  lookbackMs: number = 24 * 60 * 60 * 1000
+): MarketSnapshot[] {
+  const byTimestamp = new Map<number, TokenData[]>();
+
+  for (const token of series) {
+    const candles = [...token.candles].sort((a, b) => a.timestamp - b.timestamp);
+
+    for (let i = 0; i < candles.length; i++) {
+      const candle = candles[i]!;
+      const windowStart = candle.timestamp - lookbackMs;
+
+      let reference = candle.open;
+      let volume24h = 0;
+      for (let j = i; j >= 0; j--) {
+        const previous = candles[j]!;
+        if (previous.timestamp < windowStart) break;
+        reference = previous.open;
+        volume24h += previous.volume;
+      }
+
+      const priceChange24h = reference > 0 ? ((candle.close - reference) / reference) * 100 : 0;
+
+      const tokenData: TokenData = {
+        address: token.address,
+        symbol: token.symbol,
+        name: token.name || token.symbol,
+        price: candle.close,
+        priceChange24h,
+        volume24h,
+        liquidity: token.liquidity,
+        marketCap: token.marketCap || 0,
+        fdv: token.marketCap || 0,
+        priceUsd: candle.close.toString(),
+        txns24h: { buys: 0, sells: 0 },
+      };
+
+      const bucket = byTimestamp.get(candle.timestamp) || [];
+      bucket.push(tokenData);
+      byTimestamp.set(candle.timestamp, bucket);
+    }
+  }
+
+  return Array.from(byTimestamp.entries())
+    .map(([timestamp, tokens]) => ({ timestamp, tokens }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Sort snapshots chronologically and drop tokens without a usable price
+ */
+export function normalizeSnapshots(snapshots: MarketSnapshot[]): MarketSnapshot[] {
+  return snapshots
+    .filter(s => Number.isFinite(s.timestamp) && Array.isArray(s.tokens))
+    .map(s => ({
+      timestamp: s.timestamp,
+      tokens: s.tokens.filter(t => t.address && t.price > 0),
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -11,13 +11,20 @@ import DynamicMarketFetcher from '../data/dynamicMarketFetcher';
 import type { DiscoveredToken } from './tokenDiscovery';
 import type { TradeAnalysis } from './tradeDecisionEngine';
 import type { EnhancedDiscoveredToken } from '../data/dynamicMarketFetcher';
+import {
+  getStrategyRegistry,
+  initializeStrategyRegistry,
+  checkEntry,
+  sizePosition,
+  strategyRef,
+  exitPlanFromStrategy,
+} from '../ai/strategyRegistry';
 
 export interface AutoTradeConfig {
   maxTradeAmount: number; // Maximum BNB per trade
   minTradeAmount: number; // Minimum BNB per trade
   maxConcurrentTrades: number; // Maximum number of open positions
-  profitTargetPercent: number; // Take profit at this percentage
-  stopLossPercent: number; // Stop loss at this percentage
+  strategyId: string; // registry ref ("id" or "id@version"); supplies entry rules, sizing, target and stop
   maxDailyTrades: number; // Maximum trades per day
   minConfidence: number; // Minimum confidence score (0-100)
   discoveryInterval: number; // How often to discover new tokens (ms)
@@ -35,6 +42,7 @@ export interface TradePosition {
   txHash: string;
   targetPrice?: number;
   stopPrice?: number;
+  strategy: string; // exact strategy version ("id@version") the position was opened under
   currentPrice?: number;
   unrealizedPnl?: number;
 }
@@ -77,8 +85,7 @@ export class AutomatedTrader {
       maxTradeAmount: 0.1, // 0.1 BNB max per trade
       minTradeAmount: 0.01, // 0.01 BNB min per trade  
       maxConcurrentTrades: 5,
-      profitTargetPercent: 50, // 50% profit target
-      stopLossPercent: 30, // 30% stop loss
+      strategyId: 'auto-discovery', // +50% target, -30% stop
       maxDailyTrades: 20,
       minConfidence: 75,
       discoveryInterval: 300000, // 5 minutes
@@ -118,6 +125,10 @@ export class AutomatedTrader {
       
       // Initialize trading system
       await initializeProvider();
+
+      // Load strategy definitions; fail fast if the configured one is unknown
+      const registry = await initializeStrategyRegistry();
+      logger.info(`📐 Trading strategy: ${strategyRef(registry.resolve(this.config.strategyId))}`);
       
       // Check wallet balance
       const balance = await getWalletBalance();
@@ -529,12 +540,36 @@ export class AutomatedTrader {
         return;
       }
 
-      const tradeAmount = Math.min(decision.recommendedAmount || maxAmount, maxAmount);
+      // Strategy entry rules and sizing (confidence is 0-1 in strategy definitions)
+      const strategy = getStrategyRegistry().resolve(this.config.strategyId);
+      const entry = checkEntry(strategy, {
+        priceChange24h: token.priceChange24h,
+        volume24h: token.volume24h,
+        liquidity: token.liquidityUsd,
+        marketCap: token.marketCap,
+        riskScore: decision.riskScore,
+        confidence: decision.confidence / 100,
+      });
+      if (!entry.passed) {
+        logger.info(`⏭️  Skipping ${token.symbol} - ${strategyRef(strategy)} entry not met: ${entry.failed.join(', ')}`);
+        return;
+      }
+
+      const tradeAmount = sizePosition(strategy, {
+        balance: maxAmount,
+        confidence: decision.confidence / 100,
+        cap: Math.min(decision.recommendedAmount || maxAmount, maxAmount),
+      });
+      if (tradeAmount < this.config.minTradeAmount) {
+        logger.info(`⏭️  Skipping ${token.symbol} - ${strategyRef(strategy)} sized the trade below ${this.config.minTradeAmount} BNB`);
+        return;
+      }
       
       logger.info(`\n🎯 Executing trade opportunity:`);
       logger.info(`  Token: ${token.symbol}`);
       logger.info(`  Amount: ${tradeAmount} BNB`);
       logger.info(`  Confidence: ${decision.confidence}%`);
+      logger.info(`  Strategy: ${strategyRef(strategy)}`);
       logger.info(`  Reason: ${decision.reason}`);
 
       // Execute the trade
@@ -546,7 +581,8 @@ export class AutomatedTrader {
       });
 
       if (result.success && result.txHash) {
-        // Create position
+        // Create position with the strategy's target (first take-profit tier) and stop
+        const exitPlan = exitPlanFromStrategy(strategy, result.actualPrice);
         const position: TradePosition = {
           tokenAddress: token.tokenAddress,
           symbol: token.symbol,
@@ -554,8 +590,9 @@ export class AutomatedTrader {
           amount: tradeAmount,
           entryTime: Date.now(),
           txHash: result.txHash,
-          targetPrice: result.actualPrice * (1 + this.config.profitTargetPercent / 100),
-          stopPrice: result.actualPrice * (1 - this.config.stopLossPercent / 100)
+          targetPrice: exitPlan.takeProfits[0]?.price,
+          stopPrice: exitPlan.stopPrice,
+          strategy: strategyRef(strategy)
         };
 
         this.positions.set(token.tokenAddress, position);
@@ -565,8 +602,8 @@ export class AutomatedTrader {
         logger.info(`✅ Position opened successfully!`);
         logger.info(`  TX: ${result.txHash}`);
         logger.info(`  Entry Price: ${result.actualPrice.toFixed(8)} BNB`);
-        logger.info(`  Target: ${position.targetPrice?.toFixed(8)} BNB (+${this.config.profitTargetPercent}%)`);
-        logger.info(`  Stop: ${position.stopPrice?.toFixed(8)} BNB (-${this.config.stopLossPercent}%)`);
+        logger.info(`  Target: ${position.targetPrice?.toFixed(8) ?? 'none'} BNB`);
+        logger.info(`  Stop: ${position.stopPrice?.toFixed(8) ?? 'none'} BNB`);
 
         logTrade('BUY', token.tokenAddress, tradeAmount);
       } else {
@@ -604,10 +641,10 @@ export class AutomatedTrader {
 
       if (position.targetPrice && currentPrice >= position.targetPrice) {
         shouldExit = true;
-        exitReason = `Target reached (+${this.config.profitTargetPercent}%)`;
+        exitReason = `Target reached (${position.strategy})`;
       } else if (position.stopPrice && currentPrice <= position.stopPrice) {
         shouldExit = true;
-        exitReason = `Stop loss (-${this.config.stopLossPercent}%)`;
+        exitReason = `Stop loss (${position.strategy})`;
       } else {
         // Check for extreme conditions
         const holdTimeHours = (Date.now() - position.entryTime) / (1000 * 60 * 60);
@@ -725,8 +762,7 @@ export class AutomatedTrader {
     logger.info(`  Trade Amount: ${this.config.minTradeAmount} - ${this.config.maxTradeAmount} BNB`);
     logger.info(`  Max Concurrent: ${this.config.maxConcurrentTrades}`);
     logger.info(`  Max Daily: ${this.config.maxDailyTrades}`);
-    logger.info(`  Profit Target: ${this.config.profitTargetPercent}%`);
-    logger.info(`  Stop Loss: ${this.config.stopLossPercent}%`);
+    logger.info(`  Strategy: ${this.config.strategyId}`);
     logger.info(`  Min Confidence: ${this.config.minConfidence}%`);
     logger.info(`  Discovery Interval: ${this.config.discoveryInterval / 1000}s`);
     logger.info(`  Monitor Interval: ${this.config.monitorInterval / 1000}s`);
@@ -1,6 +1,7 @@
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
 import { CONFIG } from '../config';
+import { getTransferLedger } from '../crossChain/transferLedger';
 
 // Wormhole Bridge interfaces and constants
 interface CrossChainBridgeParams {
@@ -320,6 +321,13 @@ export class CrossChainBridge {
    * Check bridge status
    */
   async checkBridgeStatus(wormholeSequence: string): Promise<{ completed: boolean; confirmations: number }> {
+    const ledger = getTransferLedger();
+    await ledger.load();
+    const tracked = ledger.findBySequence(wormholeSequence);
+    if (tracked) {
+      return { completed: tracked.state === 'redeemed', confirmations: tracked.confirmations ?? 0 };
+    }
+
     // Mock status check
     return {
       completed: Math.random() > 0.3, // 70% chance completed
@@ -12,6 +12,7 @@ import {
   type EnhancedTokenData
 } from '../data/enhancedMarketFetcher';
 import { getDexScreenerChainId, shouldUseFallbackData } from '../utils/chainMapping';
+import { screenToken } from './tradeExecutor';
 
 export interface TokenAnalysis {
   address: string;
@@ -37,6 +38,8 @@ export interface TradingOpportunity {
   overallScore: number;
   reason: string;
   recommendation: 'STRONG_BUY' | 'BUY' | 'HOLD' | 'AVOID';
+  buyTaxPercent?: number; // from the pre-flight buy / sell-back simulation
+  sellTaxPercent?: number;
 }
 
 /**
@@ -202,6 +205,14 @@ export class DynamicTokenDiscovery {
           );
           
           if (opportunity && opportunity.overallScore > 60) {
+            // Fresh tokens must survive a simulated buy and sell-back (honeypots, taxes)
+            const screening = await screenToken(token.address, amountBNB);
+            if (screening && !screening.ok) {
+              logger.warn(`🚫 Skipping ${token.symbol}: ${screening.reasons.join('; ')}`);
+              continue;
+            }
+            opportunity.buyTaxPercent = screening?.buyTaxPercent;
+            opportunity.sellTaxPercent = screening?.sellTaxPercent;
             opportunities.push(opportunity);
           }
         } catch (error) {
@@ -0,0 +1,601 @@
+/**
+ * Scheduled Execution Jobs
+ * Works a parent order into child trades over time instead of all at once:
+ * - TWAP: equal slices over the duration, catching up after skipped intervals
+ * - VWAP: a fixed share of the pool volume observed since the last child
+ * - IS (implementation shortfall): TWAP pace, sped up while the price is better
+ *   than at arrival and paused while it has drifted against us beyond a tolerance
+ *
+ * Jobs are persisted after every change and resumed on start(), so a restart
+ * picks up where the schedule left off. A child is persisted as submitted before
+ * it is sent; one still submitted after a restart pauses its job instead of being
+ * sent again. Fills from all children roll up into one position (buys) or close
+ * the referenced position (sells).
+ */
+
+import { EventEmitter } from 'events';
+import { logger } from '../utils/logger';
+import { TradingError, ValidationError } from '../utils/errorHandler';
+import { saveConfig, loadConfig } from '../utils/configStorage';
+import { CONFIG } from '../config';
+import type { TradeParams, TradeResult } from './tradeExecutor';
+import type { PositionManager } from '../services/positionManager';
+
+const STORAGE_KEY = 'execution-jobs';
+const MAX_FINISHED_JOBS = 100;
+const MAX_CONSECUTIVE_FAILURES = 3;
+const VOLUME_WINDOW_MS = 5 * 60 * 1000; // DexScreener m5 volume
+const MAX_IS_SPEEDUP = 2;
+
+export type ExecutionAlgorithm = 'twap' | 'vwap' | 'is';
+export type ExecutionJobStatus = 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+export interface ExecutionJobParams {
+  tokenAddress: string;
+  symbol?: string;
+  action: 'buy' | 'sell';
+  totalAmount: number; // BNB to spend (buy) or tokens to sell (sell)
+  algorithm: ExecutionAlgorithm;
+  durationMs: number;
+  intervalMs: number;
+  participationRate?: number; // vwap: share of observed pool volume per child (0-1]
+  driftTolerancePercent?: number; // is: adverse drift from the arrival price that pauses the job
+  minChildAmount?: number; // smaller slices wait for the next interval
+  maxChildAmount?: number;
+  slippagePercent?: number;
+  strategy?: string; // recorded on the rolled-up position
+  confidence?: number;
+  positionId?: string; // sell: position closed by the fills
+}
+
+export interface ChildFill {
+  id: string;
+  scheduledAt: number;
+  executedAt: number;
+  amountIn: number; // input units (BNB for buys, tokens for sells)
+  amountOut: number;
+  price: number; // BNB per token
+  txHash?: string;
+  status: 'submitted' | 'filled' | 'failed'; // submitted: sent, result not recorded yet
+  error?: string;
+}
+
+export interface ExecutionJob {
+  id: string;
+  params: ExecutionJobParams;
+  status: ExecutionJobStatus;
+  createdAt: number;
+  updatedAt: number;
+  endAt: number; // schedule deadline; the remainder is worked at maxChildAmount after it
+  nextRunAt: number;
+  lastFillAt: number; // vwap counts volume from here
+  arrivalPrice: number; // BNB per token when the job was submitted
+  lastPrice?: number;
+  filledAmount: number; // input units
+  receivedAmount: number; // output units
+  averagePrice: number; // BNB per token across filled children
+  shortfallPercent: number; // average price vs arrival, positive = worse
+  consecutiveFailures: number;
+  children: ChildFill[];
+  positionId?: string;
+  error?: string;
+}
+
+export interface MarketSnapshot {
+  price: number; // BNB per token
+  priceUsd?: number; // USD per token
+  volume5mUsd?: number; // pool volume over the last 5 minutes
+}
+
+export interface SlicePlan {
+  amount: number; // input units; 0 = skip this interval
+  reason: string;
+}
+
+export interface ExecutionJobDeps {
+  execute(params: TradeParams): Promise<TradeResult>;
+  snapshot(tokenAddress: string): Promise<MarketSnapshot | null>;
+}
+
+type JobPositions = Pick<PositionManager, 'addPosition' | 'reducePosition'>;
+
+/**
+ * Pool volume since `elapsedMs` ago in the job's input units, from the rolling 5m volume
+ */
+export function observedVolume(snapshot: MarketSnapshot, action: 'buy' | 'sell', elapsedMs: number): number {
+  const priceUsd = snapshot.priceUsd ?? 0;
+  if (!snapshot.volume5mUsd || priceUsd <= 0 || snapshot.price <= 0) return 0;
+
+  const volumeUsd = snapshot.volume5mUsd * (elapsedMs / VOLUME_WINDOW_MS);
+  // priceUsd / price = USD per BNB
+  return action === 'buy'
+    ? volumeUsd / (priceUsd / snapshot.price)
+    : volumeUsd / priceUsd;
+}
+
+/**
+ * Size of the next child order. Pure, so the schedule can be tested without a chain.
+ */
+export function planSlice(job: ExecutionJob, snapshot: MarketSnapshot, now: number): SlicePlan {
+  const { params } = job;
+  const remaining = params.totalAmount - job.filledAmount;
+  if (remaining <= 0) return { amount: 0, reason: 'filled' };
+
+  const intervalsLeft = Math.max(1, Math.ceil((job.endAt - now) / params.intervalMs));
+  const even = remaining / intervalsLeft;
+  let amount: number;
+  let reason: string;
+
+  if (now >= job.endAt) {
+    amount = remaining;
+    reason = 'deadline';
+  } else if (params.algorithm === 'twap') {
+    amount = even;
+    reason = `twap 1/${intervalsLeft} of remaining`;
+  } else if (params.algorithm === 'vwap') {
+    const volume = observedVolume(snapshot, params.action, now - job.lastFillAt);
+    const rate = params.participationRate ?? CONFIG.EXECUTION_PARTICIPATION_RATE;
+    amount = volume * rate;
+    reason = `vwap ${(rate * 100).toFixed(0)}% of ${volume.toFixed(4)} observed`;
+  } else {
+    const tolerance = params.driftTolerancePercent ?? CONFIG.EXECUTION_IS_DRIFT_TOLERANCE_PERCENT;
+    const drift = ((snapshot.price - job.arrivalPrice) / job.arrivalPrice) * 100;
+    const adverse = params.action === 'buy' ? drift : -drift;
+
+    if (adverse > tolerance) {
+      return { amount: 0, reason: `is paused: price ${adverse.toFixed(2)}% worse than arrival` };
+    }
+    const speedup = adverse < 0 ? Math.min(MAX_IS_SPEEDUP, 1 + -adverse / tolerance) : 1;
+    amount = even * speedup;
+    reason = `is ${speedup.toFixed(2)}x pace at ${adverse.toFixed(2)}% drift`;
+  }
+
+  amount = Math.min(amount, remaining, params.maxChildAmount ?? Infinity);
+
+  const min = params.minChildAmount ?? 0;
+  if (amount < min) {
+    // Dust left over at the end goes in one go rather than waiting forever
+    if (remaining <= min) return { amount: remaining, reason: `${reason}, final dust` };
+    return { amount: 0, reason: `${reason}, below minimum child size` };
+  }
+
+  return { amount, reason };
+}
+
+/**
+ * Reject malformed job parameters
+ */
+export function validateJobParams(params: ExecutionJobParams): ExecutionJobParams {
+  if (!params.tokenAddress) throw new ValidationError('tokenAddress', params.tokenAddress, 'a token address');
+  if (params.action !== 'buy' && params.action !== 'sell') {
+    throw new ValidationError('action', params.action, 'buy or sell');
+  }
+  if (!['twap', 'vwap', 'is'].includes(params.algorithm)) {
+    throw new ValidationError('algorithm', params.algorithm, 'twap, vwap or is');
+  }
+  if (!(params.totalAmount > 0)) throw new ValidationError('totalAmount', params.totalAmount, 'a positive amount');
+  if (!(params.durationMs > 0)) throw new ValidationError('durationMs', params.durationMs, 'a positive duration');
+  if (!(params.intervalMs > 0) || params.intervalMs > params.durationMs) {
+    throw new ValidationError('intervalMs', params.intervalMs, `between 1 and durationMs (${params.durationMs})`);
+  }
+  if (params.participationRate !== undefined && !(params.participationRate > 0 && params.participationRate <= 1)) {
+    throw new ValidationError('participationRate', params.participationRate, 'in (0, 1]');
+  }
+  if (params.driftTolerancePercent !== undefined && !(params.driftTolerancePercent > 0)) {
+    throw new ValidationError('driftTolerancePercent', params.driftTolerancePercent, 'a positive percentage');
+  }
+  if (params.minChildAmount !== undefined && params.maxChildAmount !== undefined && params.minChildAmount > params.maxChildAmount) {
+    throw new ValidationError('minChildAmount', params.minChildAmount, `at most maxChildAmount (${params.maxChildAmount})`);
+  }
+
+  return params;
+}
+
+/**
+ * Default dependencies: live trades through tradeExecutor, prices and volume from DexScreener
+ */
+function defaultDeps(): ExecutionJobDeps {
+  return {
+    execute: async params => {
+      const { executeTrade } = await import('./tradeExecutor');
+      return executeTrade(params);
+    },
+    snapshot: async tokenAddress => {
+      const { getTokenData } = await import('../data/marketFetcher');
+      const data = await getTokenData(tokenAddress);
+      if (!data || !(data.price > 0)) return null;
+      return { price: data.price, priceUsd: parseFloat(data.priceUsd) || undefined, volume5mUsd: data.volume5m };
+    },
+  };
+}
+
+/**
+ * Runs execution jobs in the background.
+ * Events: jobCreated, jobProgress, jobPaused, jobResumed, jobCompleted, jobCancelled, jobFailed
+ */
+export class ExecutionJobRunner extends EventEmitter {
+  private jobs: Map<string, ExecutionJob> = new Map();
+  private loading: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private stepping: Map<string, Promise<void>> = new Map(); // job id -> step with a child in flight
+  private positions: JobPositions | null = null;
+
+  constructor(
+    private deps: ExecutionJobDeps = defaultDeps(),
+    private storageKey: string = STORAGE_KEY,
+    private tickMs: number = CONFIG.EXECUTION_JOB_TICK_MS
+  ) {
+    super();
+  }
+
+  /**
+   * Position manager that completed jobs roll up into
+   */
+  attachPositions(positions: JobPositions): void {
+    this.positions = positions;
+  }
+
+  /**
+   * Restore persisted jobs (once; concurrent callers share the same load)
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.restore();
+    }
+    return this.loading;
+  }
+
+  private async restore(): Promise<void> {
+    const saved = await loadConfig<{ jobs: ExecutionJob[] }>(this.storageKey);
+    for (const job of saved?.jobs ?? []) {
+      const interrupted = job.children.find(child => child.status === 'submitted');
+      if (interrupted) {
+        // It may have filled; sending the slice again could double the order
+        interrupted.status = 'failed';
+        interrupted.error = 'Interrupted by a restart before its result was recorded';
+        if (job.status === 'running') job.status = 'paused';
+        job.error = `Child ${interrupted.id} may have filled before the restart; check the wallet before resuming`;
+        logger.warn(`⚠️  ${job.id}: ${job.error}`);
+      }
+      this.jobs.set(job.id, job);
+    }
+
+    const running = this.list().filter(job => job.status === 'running').length;
+    if (running > 0) {
+      logger.info(`♻️  Resuming ${running} execution jobs`);
+    }
+  }
+
+  /**
+   * Load persisted jobs and start working them. Safe to call more than once.
+   */
+  async start(): Promise<void> {
+    await this.load();
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Execution job tick failed:', error));
+    }, this.tickMs);
+    logger.info(`⏱️  Execution job runner started (tick ${this.tickMs}ms)`);
+  }
+
+  /**
+   * Stop the background timer; running jobs stay persisted as running
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Submit a new job. Its arrival price is taken now; the first child runs on the next tick.
+   */
+  async submit(input: ExecutionJobParams, now: number = Date.now()): Promise<ExecutionJob> {
+    await this.load();
+    const params = validateJobParams({ ...input });
+
+    const snapshot = await this.deps.snapshot(params.tokenAddress);
+    if (!snapshot) {
+      throw new TradingError(`No price for ${params.tokenAddress}`, 'PRICE_UNAVAILABLE', { tokenAddress: params.tokenAddress });
+    }
+
+    const job: ExecutionJob = {
+      id: `exec_${now.toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+      params,
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+      endAt: now + params.durationMs,
+      nextRunAt: now,
+      lastFillAt: now,
+      arrivalPrice: snapshot.price,
+      lastPrice: snapshot.price,
+      filledAmount: 0,
+      receivedAmount: 0,
+      averagePrice: 0,
+      shortfallPercent: 0,
+      consecutiveFailures: 0,
+      children: [],
+    };
+
+    this.jobs.set(job.id, job);
+    await this.persist();
+
+    logger.info(
+      `🧮 Execution job ${job.id}: ${params.algorithm.toUpperCase()} ${params.action} ` +
+      `${params.totalAmount} ${params.action === 'buy' ? 'BNB' : 'tokens'} of ${params.symbol || params.tokenAddress} ` +
+      `over ${Math.round(params.durationMs / 60000)}m`
+    );
+    this.emit('jobCreated', { job });
+    return job;
+  }
+
+  get(id: string): ExecutionJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * All jobs, newest first
+   */
+  list(): ExecutionJob[] {
+    return Array.from(this.jobs.values()).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async pause(id: string): Promise<ExecutionJob> {
+    const job = this.require(id, ['running']);
+    job.status = 'paused';
+    job.updatedAt = Date.now();
+    await this.persist();
+    this.emit('jobPaused', { job });
+    return job;
+  }
+
+  /**
+   * Resume a paused job. The deadline is kept, so TWAP and IS catch up on the time lost.
+   */
+  async resume(id: string, now: number = Date.now()): Promise<ExecutionJob> {
+    const job = this.require(id, ['paused']);
+    job.status = 'running';
+    job.nextRunAt = now;
+    job.updatedAt = now;
+    await this.persist();
+    this.emit('jobResumed', { job });
+    return job;
+  }
+
+  /**
+   * Cancel a job; children already filled still roll up into a position.
+   * A child in flight lands first, so its fill is part of the roll-up.
+   */
+  async cancel(id: string): Promise<ExecutionJob> {
+    this.require(id, ['running', 'paused']);
+
+    let inFlight: Promise<void> | undefined;
+    while ((inFlight = this.stepping.get(id))) {
+      await inFlight.catch(() => undefined);
+    }
+
+    // The step may have finished the job meanwhile
+    const job = this.require(id, ['running', 'paused']);
+    await this.finish(job, 'cancelled');
+    return job;
+  }
+
+  /**
+   * Work every running job that is due. Ticks never overlap.
+   */
+  async tick(now: number = Date.now()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      for (const job of this.list().reverse()) {
+        if (job.status === 'running' && job.nextRunAt <= now) {
+          const step = this.step(job, now);
+          this.stepping.set(job.id, step);
+          try {
+            await step;
+          } finally {
+            this.stepping.delete(job.id);
+          }
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async step(job: ExecutionJob, now: number): Promise<void> {
+    const { params } = job;
+    job.nextRunAt = now + params.intervalMs;
+    job.updatedAt = now;
+
+    const snapshot = await this.deps.snapshot(params.tokenAddress).catch(() => null);
+    if (!snapshot) {
+      logger.warn(`⚠️  ${job.id}: no market data, skipping this interval`);
+      await this.persist();
+      return;
+    }
+    job.lastPrice = snapshot.price;
+    if (job.status !== 'running') return; // paused while the snapshot loaded
+
+    const slice = planSlice(job, snapshot, now);
+    if (slice.amount <= 0) {
+      await this.persist();
+      this.emit('jobProgress', { job, child: null, reason: slice.reason });
+      return;
+    }
+
+    const child: ChildFill = {
+      id: `${job.id}_${job.children.length + 1}`,
+      scheduledAt: now,
+      executedAt: now,
+      amountIn: slice.amount,
+      amountOut: 0,
+      price: 0,
+      status: 'submitted',
+    };
+    job.children.push(child);
+    await this.persist();
+    Object.assign(child, await this.executeChild(job, child, snapshot.price));
+
+    if (child.status === 'filled') {
+      job.consecutiveFailures = 0;
+      job.lastFillAt = now;
+      job.filledAmount += child.amountIn;
+      job.receivedAmount += child.amountOut;
+      job.averagePrice = params.action === 'buy'
+        ? job.filledAmount / job.receivedAmount
+        : job.receivedAmount / job.filledAmount;
+      const slippage = ((job.averagePrice - job.arrivalPrice) / job.arrivalPrice) * 100;
+      job.shortfallPercent = params.action === 'buy' ? slippage : -slippage;
+      logger.info(
+        `  ⏱️  ${job.id} child ${job.children.length}: ${child.amountIn.toFixed(6)} @ ${child.price.toFixed(8)} ` +
+        `(${slice.reason}; ${((job.filledAmount / params.totalAmount) * 100).toFixed(1)}% done)`
+      );
+    } else {
+      job.consecutiveFailures++;
+      logger.warn(`⚠️  ${job.id} child failed (${job.consecutiveFailures}/${MAX_CONSECUTIVE_FAILURES}): ${child.error}`);
+    }
+
+    this.emit('jobProgress', { job, child, reason: slice.reason });
+
+    if (job.filledAmount >= params.totalAmount * (1 - 1e-9)) {
+      await this.finish(job, 'completed');
+    } else if (job.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+      job.error = `${MAX_CONSECUTIVE_FAILURES} child orders failed in a row: ${child.error}`;
+      await this.finish(job, 'failed');
+    } else {
+      await this.persist();
+    }
+  }
+
+  private async executeChild(job: ExecutionJob, base: ChildFill, price: number): Promise<ChildFill> {
+    const { params } = job;
+    const amount = base.amountIn;
+
+    try {
+      const result = await this.deps.execute({
+        tokenAddress: params.tokenAddress,
+        action: params.action,
+        amountBNB: params.action === 'buy' ? amount : amount * price,
+        tokenAmount: params.action === 'sell' ? amount : undefined,
+        slippagePercent: params.slippagePercent,
+      });
+
+      const amountOut = parseFloat(result.amountOut) || 0;
+      if (!result.success || amountOut <= 0) {
+        return { ...base, executedAt: Date.now(), amountOut: 0, price: 0, status: 'failed', error: result.error || 'No output' };
+      }
+
+      const amountIn = parseFloat(result.amountIn) || amount;
+      return {
+        ...base,
+        amountIn,
+        executedAt: Date.now(),
+        amountOut,
+        price: result.actualPrice || (params.action === 'buy' ? amountIn / amountOut : amountOut / amountIn),
+        txHash: result.txHash || result.hash,
+        status: 'filled',
+      };
+    } catch (error) {
+      return { ...base, executedAt: Date.now(), amountOut: 0, price: 0, status: 'failed', error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Close out a job and roll its fills into one position
+   */
+  private async finish(job: ExecutionJob, status: 'completed' | 'cancelled' | 'failed'): Promise<void> {
+    job.status = status;
+    job.updatedAt = Date.now();
+
+    if (job.filledAmount > 0) {
+      try {
+        await this.rollUp(job);
+      } catch (error) {
+        logger.error(`Failed to record position for ${job.id}:`, error);
+        job.error = job.error ?? `Position roll-up failed: ${(error as Error).message}`;
+      }
+    }
+
+    await this.persist();
+
+    const icon = status === 'completed' ? '✅' : status === 'cancelled' ? '⏹️ ' : '❌';
+    logger.info(
+      `${icon} Execution job ${job.id} ${status}: ${job.filledAmount.toFixed(6)}/${job.params.totalAmount} filled ` +
+      `in ${job.children.filter(c => c.status === 'filled').length} children, avg ${job.averagePrice.toFixed(8)}, ` +
+      `shortfall ${job.shortfallPercent.toFixed(2)}%`
+    );
+    this.emit(status === 'completed' ? 'jobCompleted' : status === 'cancelled' ? 'jobCancelled' : 'jobFailed', { job });
+  }
+
+  private async rollUp(job: ExecutionJob): Promise<void> {
+    if (!this.positions) return;
+    const { params } = job;
+    const lastFill = [...job.children].reverse().find(child => child.status === 'filled');
+
+    if (params.action === 'buy') {
+      await this.positions.addPosition({
+        id: job.id,
+        token: params.tokenAddress,
+        symbol: params.symbol || params.tokenAddress.slice(0, 8),
+        entryPrice: job.averagePrice,
+        amount: job.filledAmount,
+        tokenAmount: job.receivedAmount,
+        strategy: params.strategy || `execution:${params.algorithm}`,
+        confidence: params.confidence ?? 1,
+        timestamp: job.createdAt,
+        txHash: lastFill?.txHash,
+        status: 'open',
+      });
+      job.positionId = job.id;
+    } else if (params.positionId) {
+      // Cancelled, failed or smaller-than-position sells leave the rest of the position open
+      await this.positions.reducePosition(params.positionId, job.filledAmount, job.averagePrice, lastFill?.txHash);
+      job.positionId = params.positionId;
+    }
+  }
+
+  private require(id: string, statuses: ExecutionJobStatus[]): ExecutionJob {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new TradingError(`Execution job not found: ${id}`, 'EXECUTION_JOB_NOT_FOUND', { id });
+    }
+    if (!statuses.includes(job.status)) {
+      throw new TradingError(`Execution job ${id} is ${job.status}`, 'EXECUTION_JOB_NOT_ACTIVE', { id, status: job.status });
+    }
+    return job;
+  }
+
+  private async persist(): Promise<void> {
+    // Keep every active job and the most recent finished ones
+    const jobs = this.list();
+    const finished = jobs.filter(job => job.status !== 'running' && job.status !== 'paused');
+    for (const job of finished.slice(MAX_FINISHED_JOBS)) {
+      this.jobs.delete(job.id);
+    }
+
+    await saveConfig(this.storageKey, { jobs: this.list() });
+  }
+}
+
+let jobRunner: ExecutionJobRunner | null = null;
+
+export function getExecutionJobRunner(): ExecutionJobRunner {
+  if (!jobRunner) {
+    jobRunner = new ExecutionJobRunner();
+  }
+  return jobRunner;
+}
+
+/**
+ * Reset the singleton (useful for testing)
+ */
+export function resetExecutionJobRunner(): void {
+  jobRunner?.stop();
+  jobRunner = null;
+}
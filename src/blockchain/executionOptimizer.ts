@@ -6,7 +6,17 @@ import { ethers } from 'ethers';
 import { logger, logError } from '../utils/logger';
 import { CONFIG } from '../config';
 import PancakeSwapV3 from './pancakeSwapIntegration';
+import { getDEXAggregator } from '../dex/dexAggregator';
+import { ValidationError } from '../utils/errorHandler';
+import { getExecutionJobRunner, type ExecutionJob, type ExecutionJobParams } from './executionJobs';
 import type { TradeParams, TradeResult } from './tradeExecutor';
+import { getMevForensics } from '../mev/mevForensics';
+
+const SPLIT_TARGET_IMPACT_PERCENT = 1; // aim for at most ~1% impact per child order
+const MIN_SPLIT_BNB = 0.01;
+const MIN_SCHEDULE_INTERVALS = 10;
+// The DEX aggregator's venues are BSC mainnet contracts; on opBNB or testnets it can't read a pool
+const IMPACT_MEASURABLE = CONFIG.IS_MAINNET && !CONFIG.IS_OPBNB;
 
 export interface OptimizedTradeParams extends TradeParams {
   maxGasPrice?: number; // Maximum gas price in gwei
@@ -24,16 +34,22 @@ export interface ExecutionStrategy {
   splitTrades: boolean; // Whether to split large trades
   maxSplits: number; // Maximum number of splits
   delayBetweenSplits: number; // Delay between split trades (ms)
+  privateRelay?: boolean; // Submit through the BSC private relays
   conditions: (params: OptimizedTradeParams, marketData: MarketData) => boolean;
 }
 
+export type ExecutionSchedule = Pick<ExecutionJobParams, 'algorithm'> &
+  Partial<Pick<ExecutionJobParams, 'durationMs' | 'intervalMs' | 'participationRate' | 'driftTolerancePercent' | 'symbol' | 'strategy' | 'positionId'>>;
+
 export interface MarketData {
   gasPrice: number; // Current gas price in gwei
   networkCongestion: number; // 0-100 scale
   volatility: number; // Current volatility measure
   liquidity: number; // Available liquidity in USD
-  priceImpact: number; // Estimated price impact %
+  priceImpact: number | null; // Price impact % at the full size, from pool reserves / slot0; null when unmeasurable
   volume24h: number; // 24h volume
+  mevRisk: number; // 0-1 share of past fills on this token / at this hour that were sandwiched or front-run
+  mevLossPercent: number; // historical value extracted on this token, % of notional
 }
 
 /**
@@ -68,7 +84,7 @@ export class ExecutionOptimizer {
       logger.info(`🎯 Selected strategy: ${strategy.name} - ${strategy.description}`);
       
       // Execute with selected strategy
-      if (strategy.splitTrades && params.amountBNB > 0.05) {
+      if (strategy.splitTrades && this.splitCount(params, strategy, marketData) > 1) {
         return await this.executeSplitTrades(params, strategy, marketData);
       } else {
         return await this.executeSingleTrade(params, strategy, marketData);
@@ -85,10 +101,51 @@ export class ExecutionOptimizer {
     }
   }
 
+  /**
+   * Work a large order as a background TWAP / VWAP / IS job instead of splitting it inline.
+   * Children are capped at the size that keeps measured impact near the target; progress
+   * and fills are reported through the execution job runner's events.
+   */
+  async scheduleExecution(params: OptimizedTradeParams, schedule: ExecutionSchedule): Promise<ExecutionJob> {
+    if (params.action === 'sell' && !(params.tokenAmount && params.tokenAmount > 0)) {
+      throw new ValidationError('tokenAmount', params.tokenAmount, 'the number of tokens to sell');
+    }
+
+    // Without a measured impact children aren't capped by it; the schedule alone paces the order
+    const impact = await this.measurePriceImpact(params.tokenAddress, params.amountBNB);
+    const children = impact === null ? 1 : Math.max(1, Math.min(
+      Math.ceil(impact / SPLIT_TARGET_IMPACT_PERCENT),
+      Math.floor(params.amountBNB / MIN_SPLIT_BNB)
+    ));
+
+    // Job amounts are in input units: BNB for buys, tokens for sells
+    const unitsPerBNB = params.action === 'buy' ? 1 : params.tokenAmount! / params.amountBNB;
+    const maxChildAmount = (params.amountBNB / children) * unitsPerBNB;
+    const durationMs = schedule.durationMs ?? CONFIG.EXECUTION_DEFAULT_DURATION_MS;
+
+    const runner = getExecutionJobRunner();
+    await runner.start();
+    return runner.submit({
+      ...schedule,
+      tokenAddress: params.tokenAddress,
+      action: params.action,
+      totalAmount: params.action === 'buy' ? params.amountBNB : params.tokenAmount!,
+      durationMs,
+      intervalMs: schedule.intervalMs ?? Math.floor(durationMs / Math.max(children, MIN_SCHEDULE_INTERVALS)),
+      minChildAmount: Math.min(MIN_SPLIT_BNB * unitsPerBNB, maxChildAmount),
+      maxChildAmount,
+      slippagePercent: params.slippagePercent,
+    });
+  }
+
   /**
    * Gather comprehensive market data for optimization
    */
   private async gatherMarketData(tokenAddress: string, amountBNB: number): Promise<MarketData> {
+    // Measured outside the try below so a failed gas or quote lookup can't replace it with a default
+    const priceImpact = await this.measurePriceImpact(tokenAddress, amountBNB);
+    const mev = await this.measureMevRisk(tokenAddress);
+
     try {
       // Get gas price
       const feeData = await this.provider.getFeeData();
@@ -110,8 +167,10 @@ export class ExecutionOptimizer {
         networkCongestion: Math.max(0, congestion),
         volatility,
         liquidity: 100000, // Default liquidity value
-        priceImpact: 2, // Default price impact
-        volume24h: 50000 // Default volume
+        priceImpact,
+        volume24h: 50000, // Default volume
+        mevRisk: mev.attackRate,
+        mevLossPercent: mev.lossPercent
       };
     } catch (error) {
       logError('gatherMarketData', error as Error);
@@ -122,12 +181,74 @@ export class ExecutionOptimizer {
         networkCongestion: 50,
         volatility: 20,
         liquidity: 100000,
-        priceImpact: 2,
-        volume24h: 50000
+        priceImpact,
+        volume24h: 50000,
+        mevRisk: mev.attackRate,
+        mevLossPercent: mev.lossPercent
       };
     }
   }
 
+  /**
+   * Price impact (%) of buying amountBNB of the token on the best route.
+   * Sells use the same BNB size, which is close for pools deep enough to trade.
+   * Null when it can't be measured (not BSC mainnet, or the pools can't be read): the
+   * trade is then not split by impact rather than split on a guess.
+   */
+  private async measurePriceImpact(tokenAddress: string, amountBNB: number): Promise<number | null> {
+    if (!IMPACT_MEASURABLE) {
+      logger.info(`  📉 Price impact not measurable on ${CONFIG.TRADING_NETWORK} ${CONFIG.NETWORK} - not splitting by impact`);
+      return null;
+    }
+
+    try {
+      const { bestQuote } = await getDEXAggregator().getBestQuote(
+        CONFIG.WBNB_ADDRESS,
+        tokenAddress,
+        ethers.parseEther(amountBNB.toFixed(18))
+      );
+      if (bestQuote.midPrice === undefined) {
+        throw new Error(`Could not read pool state on ${bestQuote.dexName}`);
+      }
+
+      logger.info(`  📉 Price impact at ${amountBNB} BNB: ${bestQuote.priceImpact.toFixed(2)}% (${bestQuote.dexName})`);
+      return bestQuote.priceImpact;
+    } catch (error) {
+      logger.warn(`⚠️  Price impact unavailable for ${tokenAddress} (${(error as Error).message}) - not splitting by impact`);
+      return null;
+    }
+  }
+
+  /**
+   * MEV exposure from post-trade forensics of earlier fills (see mev/mevForensics.ts)
+   */
+  private async measureMevRisk(tokenAddress: string): Promise<{ attackRate: number; lossPercent: number }> {
+    try {
+      const forensics = getMevForensics();
+      await forensics.load();
+      const risk = forensics.riskFor(tokenAddress);
+      if (risk.attackRate > 0) {
+        logger.info(`  🥪 MEV attack rate ${(risk.attackRate * 100).toFixed(0)}%, ${risk.lossPercent.toFixed(2)}% of notional extracted`);
+      }
+      return risk;
+    } catch (error) {
+      logError('measureMevRisk', error as Error);
+      return { attackRate: 0, lossPercent: 0 };
+    }
+  }
+
+  /**
+   * Child orders needed to keep each one near the target impact.
+   * Impact grows roughly linearly with size in a constant-product pool, so n orders of
+   * size/n each land near impact/n (given time for arbitrage to refill between them).
+   */
+  private splitCount(params: OptimizedTradeParams, strategy: ExecutionStrategy, marketData: MarketData): number {
+    if (marketData.priceImpact === null) return 1;
+    const byImpact = Math.ceil(marketData.priceImpact / SPLIT_TARGET_IMPACT_PERCENT);
+    const bySize = Math.floor(params.amountBNB / MIN_SPLIT_BNB);
+    return Math.max(1, Math.min(strategy.maxSplits, byImpact, bySize));
+  }
+
   /**
    * Select optimal execution strategy based on market conditions
    */
@@ -143,12 +264,17 @@ export class ExecutionOptimizer {
     }
 
     // Select based on market conditions priority
+    if (marketData.mevRisk >= CONFIG.MEV_RISK_THRESHOLD) {
+      // Sandwiched here before - stay out of the public mempool
+      return applicableStrategies.find(s => s.privateRelay) || applicableStrategies[0]!;
+    }
+
     if (marketData.networkCongestion > 70) {
       // High congestion - prefer gas-efficient strategies
       return applicableStrategies.find(s => s.gasMultiplier < 1.2) || applicableStrategies[0]!;
     }
 
-    if (marketData.priceImpact > 5) {
+    if ((marketData.priceImpact ?? 0) > 5) {
       // High impact - prefer split strategies
       return applicableStrategies.find(s => s.splitTrades) || applicableStrategies[0]!;
     }
@@ -171,7 +297,7 @@ export class ExecutionOptimizer {
     marketData: MarketData
   ): Promise<TradeResult> {
     try {
-      const splits = Math.min(strategy.maxSplits, Math.ceil(params.amountBNB / 0.02)); // Max 0.02 BNB per split
+      const splits = this.splitCount(params, strategy, marketData);
       const amountPerSplit = params.amountBNB / splits;
       
       logger.info(`🔄 Splitting trade into ${splits} orders of ${amountPerSplit.toFixed(4)} BNB each`);
@@ -278,7 +404,8 @@ export class ExecutionOptimizer {
         const swapResult = await this.pancakeSwap.buyTokenWithBNB(
           params.tokenAddress,
           params.amountBNB,
-          Math.round(optimizedSlippage * 100) // Convert to basis points
+          Math.round(optimizedSlippage * 100), // Convert to basis points
+          { privateRelay: strategy.privateRelay }
         );
         
         // Convert SwapResult to TradeResult
@@ -293,7 +420,8 @@ export class ExecutionOptimizer {
         const swapResult = await this.pancakeSwap.sellTokenForBNB(
           params.tokenAddress,
           tokenBalance.toString(), // Sell all tokens
-          Math.round(optimizedSlippage * 100)
+          Math.round(optimizedSlippage * 100),
+          { privateRelay: strategy.privateRelay }
         );
         
         return {
@@ -326,7 +454,7 @@ export class ExecutionOptimizer {
         splitTrades: true,
         maxSplits: 5,
         delayBetweenSplits: 2000,
-        conditions: (params, market) => market.priceImpact > 3 || params.amountBNB > 0.1
+        conditions: (params, market) => (market.priceImpact ?? 0) > 3 || params.amountBNB > 0.1
       },
       {
         name: 'Fast',
@@ -356,7 +484,18 @@ export class ExecutionOptimizer {
         splitTrades: true,
         maxSplits: 8,
         delayBetweenSplits: 3000,
-        conditions: (params, market) => market.priceImpact > 5 && market.liquidity < params.amountBNB * 1000 * 20
+        conditions: (params, market) => (market.priceImpact ?? 0) > 5 && market.liquidity < params.amountBNB * 1000 * 20
+      },
+      {
+        name: 'MEV Shield',
+        description: 'Private relay, tight slippage and small children where fills were sandwiched',
+        slippageMultiplier: 0.5,
+        gasMultiplier: 1.1,
+        splitTrades: true,
+        maxSplits: 4,
+        delayBetweenSplits: 1500,
+        privateRelay: true,
+        conditions: (params, market) => market.mevRisk >= CONFIG.MEV_RISK_THRESHOLD
       }
     ];
   }
@@ -378,4 +517,13 @@ export class ExecutionOptimizer {
   }
 }
 
+let executionOptimizer: ExecutionOptimizer | null = null;
+
+export function getExecutionOptimizer(): ExecutionOptimizer {
+  if (!executionOptimizer) {
+    executionOptimizer = new ExecutionOptimizer();
+  }
+  return executionOptimizer;
+}
+
 export default ExecutionOptimizer;
@@ -0,0 +1,224 @@
+/**
+ * Memory Codec
+ * Compression and authenticated encryption for memories before they leave the
+ * process. Encoded objects are wrapped in a versioned JSON envelope; anything
+ * without the envelope marker is treated as a legacy plaintext object.
+ *
+ * Envelope v1:
+ *   { immortalEnvelope: 1, comp: 'none'|'gzip'|'zstd', alg: 'none'|'aes-256-gcm',
+ *     kid?, iv?, tag?, data }
+ * The header fields are bound to the ciphertext as AAD, so they cannot be altered.
+ */
+
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { getSecret } from '../config/secrets';
+import { CONFIG } from '../config';
+
+export const ENVELOPE_VERSION = 1;
+const KEY_INFO = 'immortal-bnb/memory-encryption/v1';
+
+export type MemoryCompression = 'none' | 'gzip' | 'zstd';
+
+export interface MemoryEnvelope {
+  immortalEnvelope: number;
+  comp: MemoryCompression;
+  alg: 'none' | 'aes-256-gcm';
+  kid?: string;
+  iv?: string;
+  tag?: string;
+  data: string; // base64
+}
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+// zstd needs Node >= 22.15 (zlib.zstdCompressSync); Bun and older Node only have gzip
+const zstd = zlib as unknown as {
+  zstdCompressSync?: (input: Buffer) => Buffer;
+  zstdDecompressSync?: (input: Buffer) => Buffer;
+};
+
+export function isZstdAvailable(): boolean {
+  return typeof zstd.zstdCompressSync === 'function' && typeof zstd.zstdDecompressSync === 'function';
+}
+
+/**
+ * Derive a 256-bit key from a secret; the key id lets readers pick the right key after rotation
+ */
+export function deriveKey(secret: string): EncryptionKey {
+  const key = Buffer.from(crypto.hkdfSync('sha256', secret, Buffer.alloc(0), KEY_INFO, 32));
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+  return { id, key };
+}
+
+export function isEnvelope(value: unknown): value is MemoryEnvelope {
+  return typeof value === 'object' && value !== null && typeof (value as MemoryEnvelope).immortalEnvelope === 'number';
+}
+
+export class MemoryCodec {
+  private current: EncryptionKey | null;
+  private keys: Map<string, EncryptionKey> = new Map();
+
+  /**
+   * @param secrets current secret first, then retired secrets still needed for reading
+   */
+  constructor(private compression: MemoryCompression, secrets: string[] = []) {
+    if (compression === 'zstd' && !isZstdAvailable()) {
+      throw new Error('zstd compression needs Node >= 22.15; use MEMORY_COMPRESSION=gzip');
+    }
+
+    const derived = secrets.filter(Boolean).map(deriveKey);
+    this.current = derived[0] ?? null;
+    for (const key of derived) {
+      this.keys.set(key.id, key);
+    }
+  }
+
+  get encrypts(): boolean {
+    return this.current !== null;
+  }
+
+  get currentKeyId(): string | null {
+    return this.current?.id ?? null;
+  }
+
+  /**
+   * Whether the object should be rewritten to match the current settings
+   */
+  needsReencode(content: string): boolean {
+    const envelope = parseEnvelope(content);
+    if (!envelope) {
+      return this.encrypts || this.compression !== 'none';
+    }
+    return envelope.kid !== (this.current?.id ?? undefined) || envelope.comp !== this.compression;
+  }
+
+  encode(plaintext: string): string {
+    if (!this.current && this.compression === 'none') {
+      return plaintext;
+    }
+
+    let body = compress(Buffer.from(plaintext, 'utf-8'), this.compression);
+    const header = {
+      immortalEnvelope: ENVELOPE_VERSION,
+      comp: this.compression,
+      alg: this.current ? 'aes-256-gcm' as const : 'none' as const,
+      ...(this.current && { kid: this.current.id }),
+    };
+
+    if (!this.current) {
+      return JSON.stringify({ ...header, data: body.toString('base64') });
+    }
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.current.key, iv);
+    cipher.setAAD(Buffer.from(JSON.stringify(header)));
+    body = Buffer.concat([cipher.update(body), cipher.final()]);
+
+    return JSON.stringify({
+      ...header,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      data: body.toString('base64'),
+    });
+  }
+
+  /**
+   * Decode an envelope; legacy plaintext objects pass through unchanged
+   */
+  decode(content: string): string {
+    const envelope = parseEnvelope(content);
+    if (!envelope) {
+      return content;
+    }
+    if (envelope.immortalEnvelope > ENVELOPE_VERSION) {
+      throw new Error(`Unsupported memory envelope version ${envelope.immortalEnvelope}`);
+    }
+
+    let body = Buffer.from(envelope.data, 'base64');
+
+    if (envelope.alg === 'aes-256-gcm') {
+      const key = envelope.kid ? this.keys.get(envelope.kid) : undefined;
+      if (!key) {
+        throw new Error(`No memory encryption key for key id ${envelope.kid}`);
+      }
+
+      const header = {
+        immortalEnvelope: envelope.immortalEnvelope,
+        comp: envelope.comp,
+        alg: envelope.alg,
+        kid: envelope.kid,
+      };
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key.key, Buffer.from(envelope.iv || '', 'base64'));
+      decipher.setAAD(Buffer.from(JSON.stringify(header)));
+      decipher.setAuthTag(Buffer.from(envelope.tag || '', 'base64'));
+      body = Buffer.concat([decipher.update(body), decipher.final()]);
+    } else if (envelope.alg !== 'none') {
+      throw new Error(`Unsupported memory encryption ${envelope.alg}`);
+    }
+
+    return decompress(body, envelope.comp).toString('utf-8');
+  }
+}
+
+function parseEnvelope(content: string): MemoryEnvelope | null {
+  // Cheap check first; plaintext memories are pretty-printed JSON objects
+  if (!content.includes('"immortalEnvelope"')) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(content);
+    return isEnvelope(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function compress(input: Buffer, compression: MemoryCompression): Buffer {
+  switch (compression) {
+    case 'gzip':
+      return zlib.gzipSync(input);
+    case 'zstd':
+      return zstd.zstdCompressSync!(input);
+    default:
+      return input;
+  }
+}
+
+function decompress(input: Buffer, compression: MemoryCompression): Buffer {
+  switch (compression) {
+    case 'gzip':
+      return zlib.gunzipSync(input);
+    case 'zstd':
+      if (!isZstdAvailable()) {
+        throw new Error('Memory object is zstd-compressed but zstd is unavailable in this runtime');
+      }
+      return zstd.zstdDecompressSync!(input);
+    default:
+      return input;
+  }
+}
+
+/**
+ * Codec from MEMORY_COMPRESSION / MEMORY_ENCRYPTION, or null when both are off.
+ * Keys come from MEMORY_ENCRYPTION_KEY (current) and MEMORY_ENCRYPTION_PREVIOUS_KEYS (comma-separated).
+ */
+export function createMemoryCodec(): MemoryCodec | null {
+  if (!CONFIG.MEMORY_ENCRYPTION && CONFIG.MEMORY_COMPRESSION === 'none') {
+    return null;
+  }
+
+  const secrets: string[] = [];
+  if (CONFIG.MEMORY_ENCRYPTION) {
+    secrets.push(getSecret('MEMORY_ENCRYPTION_KEY'));
+    const previous = process.env.MEMORY_ENCRYPTION_PREVIOUS_KEYS
+      ? getSecret('MEMORY_ENCRYPTION_PREVIOUS_KEYS').split(',').map(secret => secret.trim())
+      : [];
+    secrets.push(...previous);
+  }
+
+  return new MemoryCodec(CONFIG.MEMORY_COMPRESSION, secrets);
+}
@@ -0,0 +1,610 @@
+/**
+ * Memory Store
+ * Object storage behind memoryStorage, unifiedMemoryStorage and polymarketStorage.
+ * Greenfield is the durable, verifiable backend; a local directory or SQLite file
+ * keeps memory, RAG and learning working without a funded key, and can mirror
+ * Greenfield writes as a replica for fast reads.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { Client } from '@bnb-chain/greenfield-js-sdk';
+import { VisibilityType, RedundancyType } from '@bnb-chain/greenfield-js-sdk';
+import Long from 'long';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { CONFIG } from '../config';
+import { createMemoryCodec } from './memoryCodec';
+import type { MemoryCodec } from './memoryCodec';
+
+export type MemoryBackend = 'greenfield' | 'local' | 'sqlite';
+
+// Suffix of the re-encoded copy written before an immutable object is replaced
+const REENCODE_BACKUP_SUFFIX = '.reencode';
+
+export interface MemoryStore {
+  readonly backend: MemoryBackend | 'mirrored' | 'encoded';
+  readonly bucket: string;
+  /** False when the backend cannot be used at all (e.g. Greenfield without a wallet) */
+  isAvailable(): boolean;
+  /** Create the bucket / directory / table if needed */
+  ensureReady(): Promise<void>;
+  put(objectName: string, content: string): Promise<void>;
+  get(objectName: string): Promise<string | null>;
+  list(): Promise<string[]>;
+  delete(objectName: string): Promise<boolean>;
+}
+
+/**
+ * A wallet key that can sign Greenfield transactions (placeholders from .env.example excluded)
+ */
+export function hasGreenfieldKey(privateKey: string = CONFIG.WALLET_PRIVATE_KEY): boolean {
+  return !!privateKey &&
+    privateKey !== 'your_test_wallet_private_key_here' &&
+    privateKey !== 'your_wallet_private_key_here' &&
+    privateKey.length > 20 &&
+    privateKey.startsWith('0x');
+}
+
+// One client per process, shared by every bucket
+let client: Client;
+
+function getClient(): Client {
+  if (!client) {
+    client = Client.create(CONFIG.GREENFIELD_RPC_URL, CONFIG.GREENFIELD_CHAIN_ID);
+    logger.info('Greenfield client initialized');
+  }
+  return client;
+}
+
+/**
+ * BNB Greenfield bucket
+ */
+export class GreenfieldMemoryStore implements MemoryStore {
+  readonly backend = 'greenfield' as const;
+  private address: string | null = null;
+  private bucketReady = false;
+
+  constructor(readonly bucket: string, private privateKey: string = CONFIG.WALLET_PRIVATE_KEY) {}
+
+  isAvailable(): boolean {
+    return this.getAddress() !== null;
+  }
+
+  async ensureReady(): Promise<void> {
+    if (this.bucketReady) return;
+    const address = this.requireAddress();
+    const greenfieldClient = getClient();
+
+    try {
+      if (await greenfieldClient.bucket.headBucket(this.bucket)) {
+        logger.info(`Bucket ${this.bucket} already exists.`);
+        this.bucketReady = true;
+        return;
+      }
+    } catch {
+      logger.info(`Bucket ${this.bucket} does not exist, creating...`);
+    }
+
+    const spList = await greenfieldClient.sp.getStorageProviders();
+    if (!spList || spList.length === 0) {
+      throw new Error('No storage providers available');
+    }
+
+    const createBucketTx = await greenfieldClient.bucket.createBucket({
+      bucketName: this.bucket,
+      creator: address,
+      visibility: VisibilityType.VISIBILITY_TYPE_PUBLIC_READ,
+      chargedReadQuota: Long.fromString('0'),
+      primarySpAddress: spList[0]?.operatorAddress || '',
+      paymentAddress: address,
+    });
+
+    const broadcastRes = await this.broadcast(createBucketTx, address);
+    if (broadcastRes.code !== 0) {
+      throw new Error(`Bucket creation failed: ${broadcastRes.rawLog}`);
+    }
+
+    logger.info(`Bucket ${this.bucket} created successfully. Tx Hash: ${broadcastRes.transactionHash}`);
+    this.bucketReady = true;
+  }
+
+  async put(objectName: string, content: string): Promise<void> {
+    const address = this.requireAddress();
+    await this.ensureReady();
+    const greenfieldClient = getClient();
+    const body = Buffer.from(content, 'utf-8');
+
+    const createObjectTx = await greenfieldClient.object.createObject({
+      bucketName: this.bucket,
+      objectName,
+      creator: address,
+      visibility: VisibilityType.VISIBILITY_TYPE_PUBLIC_READ,
+      contentType: 'application/json',
+      redundancyType: RedundancyType.REDUNDANCY_EC_TYPE,
+      payloadSize: Long.fromNumber(body.length),
+      expectChecksums: [], // Skip Reed-Solomon for small JSON
+    });
+
+    const createRes = await this.broadcast(createObjectTx, address);
+    if (createRes.code !== 0) {
+      throw new Error(`Object creation failed: ${createRes.rawLog}`);
+    }
+
+    const uploadRes = await greenfieldClient.object.uploadObject(
+      {
+        bucketName: this.bucket,
+        objectName,
+        body: new File([body], objectName, { type: 'application/json' }),
+        txnHash: createRes.transactionHash,
+      },
+      { type: 'ECDSA', privateKey: this.privateKey }
+    );
+
+    if (uploadRes.code !== 0) {
+      throw new Error(`Upload failed: ${uploadRes.message}`);
+    }
+  }
+
+  async get(objectName: string): Promise<string | null> {
+    this.requireAddress();
+    const getRes = await getClient().object.getObject(
+      { bucketName: this.bucket, objectName },
+      { type: 'ECDSA', privateKey: this.privateKey }
+    );
+
+    if (getRes.code !== 0) {
+      throw new Error(`Fetch failed: ${getRes.message}`);
+    }
+
+    // Body is a Blob in browsers and a ReadableStream under Node/Bun
+    if (getRes.body instanceof Blob) {
+      return getRes.body.text();
+    }
+    if (!getRes.body) {
+      throw new Error('No response body received');
+    }
+
+    const reader = (getRes.body as unknown as ReadableStream<Uint8Array>).getReader();
+    const chunks: Uint8Array[] = [];
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+  }
+
+  async list(): Promise<string[]> {
+    this.requireAddress();
+    const listRes = await getClient().object.listObjects({
+      bucketName: this.bucket,
+      endpoint: CONFIG.GREENFIELD_RPC_URL,
+    });
+
+    if (listRes.statusCode !== 200) {
+      throw new Error(`Failed to list objects: ${listRes.statusCode}`);
+    }
+
+    const names: Array<string | undefined> = listRes.body?.GfSpListObjectsByBucketNameResponse?.Objects?.map(
+      (obj: any) => obj.ObjectInfo?.ObjectName
+    ) || [];
+    return names.filter((name): name is string => !!name);
+  }
+
+  async delete(objectName: string): Promise<boolean> {
+    const address = this.requireAddress();
+    const deleteTx = await getClient().object.deleteObject({
+      bucketName: this.bucket,
+      objectName,
+      operator: address,
+    });
+
+    const deleteRes = await this.broadcast(deleteTx, address);
+    if (deleteRes.code !== 0) {
+      throw new Error(`Delete failed: ${deleteRes.rawLog}`);
+    }
+
+    logger.info(`Object ${objectName} deleted from ${this.bucket}. Tx Hash: ${deleteRes.transactionHash}`);
+    return true;
+  }
+
+  private async broadcast(tx: any, payer: string) {
+    const simulateInfo = await tx.simulate({ denom: 'BNB' });
+    return tx.broadcast({
+      denom: 'BNB',
+      gasLimit: Number(simulateInfo.gasLimit),
+      gasPrice: simulateInfo.gasPrice || '5000000000',
+      payer,
+      granter: '',
+      privateKey: this.privateKey,
+    });
+  }
+
+  // Wallet creation is deferred to avoid Bun/ethers v6 compatibility issues during module load
+  private getAddress(): string | null {
+    if (!this.address && hasGreenfieldKey(this.privateKey)) {
+      try {
+        this.address = new ethers.Wallet(this.privateKey).address;
+      } catch (error) {
+        logger.warn(`⚠️  Could not create wallet for Greenfield storage: ${(error as Error).message}`);
+      }
+    }
+    return this.address;
+  }
+
+  private requireAddress(): string {
+    const address = this.getAddress();
+    if (!address) {
+      throw new Error('Greenfield storage unavailable: no valid wallet configured');
+    }
+    return address;
+  }
+}
+
+/**
+ * One JSON file per object under <dir>/<bucket>/
+ */
+export class LocalMemoryStore implements MemoryStore {
+  readonly backend = 'local' as const;
+  private dir: string;
+
+  constructor(readonly bucket: string, baseDir: string = CONFIG.MEMORY_STORE_DIR) {
+    this.dir = path.join(baseDir, bucket);
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async ensureReady(): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+  }
+
+  async put(objectName: string, content: string): Promise<void> {
+    await this.ensureReady();
+    // Write then rename so readers never see a half-written object
+    const target = this.pathFor(objectName);
+    await fs.writeFile(`${target}.tmp`, content, 'utf-8');
+    await fs.rename(`${target}.tmp`, target);
+  }
+
+  async get(objectName: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.pathFor(objectName), 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.dir);
+      return entries.filter(name => !name.endsWith('.tmp')).sort();
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  async delete(objectName: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.pathFor(objectName));
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  private pathFor(objectName: string): string {
+    // Object names are flat; reject anything that could escape the bucket directory
+    if (objectName !== path.basename(objectName) || objectName.startsWith('.')) {
+      throw new Error(`Invalid object name: ${objectName}`);
+    }
+    return path.join(this.dir, objectName);
+  }
+}
+
+/**
+ * SQLite table (bun:sqlite), one row per object
+ */
+export class SqliteMemoryStore implements MemoryStore {
+  readonly backend = 'sqlite' as const;
+  private db: any;
+
+  constructor(readonly bucket: string, filePath: string = CONFIG.MEMORY_SQLITE_PATH) {
+    const { Database } = require('bun:sqlite');
+    require('fs').mkdirSync(path.dirname(filePath), { recursive: true });
+
+    this.db = new Database(filePath, { create: true });
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS memory_objects (
+        bucket TEXT NOT NULL,
+        name TEXT NOT NULL,
+        content TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (bucket, name)
+      )
+    `);
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async ensureReady(): Promise<void> {
+    // Table is created in the constructor
+  }
+
+  async put(objectName: string, content: string): Promise<void> {
+    this.db.run(
+      `INSERT INTO memory_objects (bucket, name, content, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(bucket, name) DO UPDATE SET content = excluded.content, updated_at = excluded.updated_at`,
+      [this.bucket, objectName, content, Date.now()]
+    );
+  }
+
+  async get(objectName: string): Promise<string | null> {
+    const row = this.db
+      .query('SELECT content FROM memory_objects WHERE bucket = ? AND name = ?')
+      .get(this.bucket, objectName);
+    return row ? row.content : null;
+  }
+
+  async list(): Promise<string[]> {
+    const rows = this.db
+      .query('SELECT name FROM memory_objects WHERE bucket = ? ORDER BY name ASC')
+      .all(this.bucket);
+    return rows.map((row: { name: string }) => row.name);
+  }
+
+  async delete(objectName: string): Promise<boolean> {
+    const result = this.db.run('DELETE FROM memory_objects WHERE bucket = ? AND name = ?', [this.bucket, objectName]);
+    return (result?.changes ?? 0) > 0;
+  }
+}
+
+/**
+ * Writes go to the primary and then the replica; reads are served from the
+ * replica when it has the object and fall back to the primary, backfilling the replica.
+ */
+export class MirroredMemoryStore implements MemoryStore {
+  readonly backend = 'mirrored' as const;
+
+  constructor(private primary: MemoryStore, private replica: MemoryStore) {}
+
+  get bucket(): string {
+    return this.primary.bucket;
+  }
+
+  isAvailable(): boolean {
+    return this.primary.isAvailable();
+  }
+
+  async ensureReady(): Promise<void> {
+    await this.replica.ensureReady();
+    await this.primary.ensureReady();
+  }
+
+  async put(objectName: string, content: string): Promise<void> {
+    await this.primary.put(objectName, content);
+    await this.toReplica('put', () => this.replica.put(objectName, content));
+  }
+
+  async get(objectName: string): Promise<string | null> {
+    const local = await this.replica.get(objectName).catch(() => null);
+    if (local !== null) return local;
+
+    const remote = await this.primary.get(objectName);
+    if (remote !== null) {
+      await this.toReplica('backfill', () => this.replica.put(objectName, remote));
+    }
+    return remote;
+  }
+
+  async list(): Promise<string[]> {
+    try {
+      return await this.primary.list();
+    } catch (error) {
+      logger.warn(`⚠️  Listing ${this.bucket} from replica: ${(error as Error).message}`);
+      return this.replica.list();
+    }
+  }
+
+  async delete(objectName: string): Promise<boolean> {
+    const deleted = await this.primary.delete(objectName);
+    await this.toReplica('delete', () => this.replica.delete(objectName));
+    return deleted;
+  }
+
+  // The replica is a cache; its failures never fail the write to the primary
+  private async toReplica(action: string, write: () => Promise<unknown>): Promise<void> {
+    try {
+      await write();
+    } catch (error) {
+      logger.warn(`⚠️  Memory replica ${action} failed for ${this.bucket}: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Compresses and/or encrypts objects on the way out and decodes them on the way in.
+ * Objects written before encoding was enabled are still readable.
+ */
+export class EncodedMemoryStore implements MemoryStore {
+  readonly backend = 'encoded' as const;
+
+  constructor(private inner: MemoryStore, private codec: MemoryCodec) {}
+
+  get bucket(): string {
+    return this.inner.bucket;
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable();
+  }
+
+  ensureReady(): Promise<void> {
+    return this.inner.ensureReady();
+  }
+
+  async put(objectName: string, content: string): Promise<void> {
+    await this.inner.put(objectName, this.codec.encode(content));
+  }
+
+  async get(objectName: string): Promise<string | null> {
+    const content = await this.inner.get(objectName);
+    return content === null ? null : this.codec.decode(content);
+  }
+
+  list(): Promise<string[]> {
+    return this.inner.list();
+  }
+
+  delete(objectName: string): Promise<boolean> {
+    return this.inner.delete(objectName);
+  }
+
+  /**
+   * Rewrite objects still under a retired key (or in plaintext) with the current settings
+   */
+  async reencodeAll(): Promise<{ checked: number; rewritten: number; failed: number }> {
+    const result = { checked: 0, rewritten: 0, failed: 0 };
+    const objectNames = await this.inner.list();
+    await this.recoverBackups(objectNames);
+
+    for (const objectName of objectNames) {
+      if (objectName.endsWith(REENCODE_BACKUP_SUFFIX)) continue;
+      result.checked++;
+      try {
+        const raw = await this.inner.get(objectName);
+        if (raw === null || !this.codec.needsReencode(raw)) continue;
+
+        const encoded = this.codec.encode(this.codec.decode(raw));
+        if (this.inner.backend === 'local' || this.inner.backend === 'sqlite') {
+          await this.inner.put(objectName, encoded);
+        } else {
+          // Greenfield objects are immutable, so they are replaced rather than overwritten;
+          // the backup holds the new copy until the replacement has landed
+          const backup = `${objectName}${REENCODE_BACKUP_SUFFIX}`;
+          await this.inner.put(backup, encoded);
+          await this.inner.delete(objectName);
+          await this.inner.put(objectName, encoded);
+          await this.inner.delete(backup);
+        }
+        result.rewritten++;
+      } catch (error) {
+        result.failed++;
+        logger.warn(`⚠️  Could not re-encrypt ${objectName}: ${(error as Error).message}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Finish replacements interrupted by a previous run: restore objects deleted before
+   * their re-encoded copy was written back, then drop the backups
+   */
+  private async recoverBackups(objectNames: string[]): Promise<void> {
+    const names = new Set(objectNames);
+    for (const backup of objectNames.filter(name => name.endsWith(REENCODE_BACKUP_SUFFIX))) {
+      const objectName = backup.slice(0, -REENCODE_BACKUP_SUFFIX.length);
+      try {
+        if (!names.has(objectName)) {
+          const content = await this.inner.get(backup);
+          if (content === null) continue;
+          await this.inner.put(objectName, content);
+          names.add(objectName);
+          objectNames.push(objectName);
+          logger.info(`🔐 Restored ${objectName} from its re-encryption backup`);
+        }
+        await this.inner.delete(backup);
+      } catch (error) {
+        logger.warn(`⚠️  Could not restore ${objectName} from ${backup}: ${(error as Error).message}`);
+      }
+    }
+  }
+}
+
+// Buckets whose re-encryption pass has already been started in this process
+const rotationScheduled = new Set<string>();
+
+/**
+ * Re-encrypt a bucket in the background after a key rotation
+ * (only when MEMORY_ENCRYPTION_PREVIOUS_KEYS lists retired keys)
+ */
+export function scheduleKeyRotation(store: MemoryStore): void {
+  if (!(store instanceof EncodedMemoryStore) || !process.env.MEMORY_ENCRYPTION_PREVIOUS_KEYS) {
+    return;
+  }
+  // Several storage modules share a bucket; two passes would race on the same objects
+  if (rotationScheduled.has(store.bucket)) {
+    return;
+  }
+  rotationScheduled.add(store.bucket);
+
+  setTimeout(() => {
+    store.reencodeAll()
+      .then(({ checked, rewritten, failed }) => {
+        logger.info(`🔐 Memory key rotation for ${store.bucket}: ${rewritten}/${checked} re-encrypted, ${failed} failed`);
+      })
+      .catch(error => logger.error(`Memory key rotation for ${store.bucket} failed:`, error));
+  }, 0).unref?.();
+}
+
+function createLocalStore(backend: 'local' | 'sqlite', bucket: string): MemoryStore {
+  if (backend === 'sqlite') {
+    try {
+      return new SqliteMemoryStore(bucket);
+    } catch (error) {
+      logger.warn(`⚠️  SQLite unavailable (${(error as Error).message}) - storing memories in ${CONFIG.MEMORY_STORE_DIR}`);
+    }
+  }
+  return new LocalMemoryStore(bucket);
+}
+
+/**
+ * Build the store for a bucket from MEMORY_STORE_BACKEND / MEMORY_STORE_MIRROR,
+ * wrapped with compression/encryption when MEMORY_COMPRESSION / MEMORY_ENCRYPTION are set.
+ * 'auto' uses Greenfield when a wallet key is configured and a local directory otherwise.
+ */
+export function createMemoryStore(bucket: string): MemoryStore {
+  const store = createBackendStore(bucket);
+  const codec = createMemoryCodec();
+  if (!codec) {
+    return store;
+  }
+
+  logger.info(`🔐 Memories for ${bucket}: compression=${CONFIG.MEMORY_COMPRESSION}, encryption=${codec.encrypts ? 'aes-256-gcm' : 'off'}`);
+  return new EncodedMemoryStore(store, codec);
+}
+
+function createBackendStore(bucket: string): MemoryStore {
+  const configured = CONFIG.MEMORY_STORE_BACKEND;
+  const backend: MemoryBackend = configured === 'auto'
+    ? (hasGreenfieldKey() ? 'greenfield' : 'local')
+    : configured;
+
+  if (backend !== 'greenfield') {
+    const store = createLocalStore(backend, bucket);
+    logger.info(`💾 Memories for ${bucket} stored locally (${store.backend})`);
+    return store;
+  }
+
+  const greenfield = new GreenfieldMemoryStore(bucket);
+  if (!greenfield.isAvailable()) {
+    logger.warn(`⚠️  No valid WALLET_PRIVATE_KEY configured. Greenfield storage for ${bucket} will be disabled.`);
+    logger.warn('   Set MEMORY_STORE_BACKEND=local (or auto) to keep memories without a wallet.');
+  }
+
+  const mirror = CONFIG.MEMORY_STORE_MIRROR;
+  if (mirror === 'none') {
+    return greenfield;
+  }
+
+  logger.info(`💾 Greenfield writes for ${bucket} mirrored to ${mirror} replica`);
+  return new MirroredMemoryStore(greenfield, createLocalStore(mirror, bucket));
+}
@@ -0,0 +1,219 @@
+/**
+ * Memory Upload Queue
+ * Write-ahead log for unifiedMemoryStorage batch uploads. Every queued memory is
+ * appended to disk before it is acknowledged, so a crash before the batch runs
+ * loses nothing; the log is replayed on startup. Failed uploads are retried with
+ * exponential backoff and dead-lettered after BATCH_CONFIG.retryAttempts.
+ */
+
+import fs from 'fs/promises';
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import type { ImmortalMemory, BatchUploadConfig } from '../types/unifiedMemory';
+
+// Rewrite the log once this many records no longer describe a live entry
+const COMPACT_AFTER_RECORDS = 200;
+
+export interface QueuedMemory {
+  memory: ImmortalMemory;
+  enqueuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export interface DeadLetter extends QueuedMemory {
+  deadAt: number;
+}
+
+type WalRecord =
+  | { op: 'enqueue'; entry: QueuedMemory }
+  | { op: 'retry'; id: string; attempts: number; nextAttemptAt: number; error: string }
+  | { op: 'ack'; id: string }
+  | { op: 'dead'; id: string; deadAt: number; error: string };
+
+export interface UploadQueueStats {
+  queueDepth: number;
+  oldestPendingAgeMs: number | null;
+  deadLetters: number;
+  nextRetryAt: number | null;
+}
+
+export class MemoryUploadQueue {
+  private pending: Map<string, QueuedMemory> = new Map();
+  private dead: Map<string, DeadLetter> = new Map();
+  private loaded = false;
+  private staleRecords = 0;
+  // Appends are chained so records land in the order they were made
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private filePath: string,
+    private config: Pick<BatchUploadConfig, 'retryAttempts' | 'retryDelay'>
+  ) {}
+
+  /**
+   * Replay the log from disk. Safe to call more than once.
+   */
+  load(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (!existsSync(this.filePath)) return;
+
+    const lines = readFileSync(this.filePath, 'utf-8').split('\n');
+    let skipped = 0;
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        this.apply(JSON.parse(line) as WalRecord);
+      } catch {
+        // A crash mid-append leaves a truncated last line
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      logger.warn(`⚠️  Skipped ${skipped} unreadable memory WAL record(s) in ${this.filePath}`);
+    }
+    if (this.pending.size > 0 || this.dead.size > 0) {
+      logger.info(`📼 Replayed memory WAL: ${this.pending.size} pending, ${this.dead.size} dead-lettered`);
+    }
+  }
+
+  async enqueue(memory: ImmortalMemory, now: number = Date.now()): Promise<void> {
+    this.load();
+    const entry: QueuedMemory = { memory, enqueuedAt: now, attempts: 0, nextAttemptAt: now };
+    await this.record({ op: 'enqueue', entry });
+  }
+
+  /**
+   * Entries whose next attempt is due, oldest first
+   */
+  due(limit: number, now: number = Date.now()): QueuedMemory[] {
+    this.load();
+    return this.list()
+      .filter(entry => entry.nextAttemptAt <= now)
+      .slice(0, limit);
+  }
+
+  async markUploaded(id: string): Promise<void> {
+    if (!this.pending.has(id)) return;
+    await this.record({ op: 'ack', id });
+  }
+
+  /**
+   * Record a failed attempt; returns whether the entry was dead-lettered
+   */
+  async markFailed(id: string, error: string, now: number = Date.now()): Promise<'retry' | 'dead'> {
+    const entry = this.pending.get(id);
+    if (!entry) return 'dead';
+
+    const attempts = entry.attempts + 1;
+    if (attempts >= this.config.retryAttempts) {
+      await this.record({ op: 'dead', id, deadAt: now, error });
+      return 'dead';
+    }
+
+    const nextAttemptAt = now + this.config.retryDelay * 2 ** (attempts - 1);
+    await this.record({ op: 'retry', id, attempts, nextAttemptAt, error });
+    return 'retry';
+  }
+
+  list(): QueuedMemory[] {
+    this.load();
+    return Array.from(this.pending.values()).sort((a, b) => a.enqueuedAt - b.enqueuedAt);
+  }
+
+  deadLetters(): DeadLetter[] {
+    this.load();
+    return Array.from(this.dead.values()).sort((a, b) => a.deadAt - b.deadAt);
+  }
+
+  stats(now: number = Date.now()): UploadQueueStats {
+    const pending = this.list();
+    return {
+      queueDepth: pending.length,
+      oldestPendingAgeMs: pending.length > 0 ? now - pending[0]!.enqueuedAt : null,
+      deadLetters: this.dead.size,
+      nextRetryAt: pending.length > 0 ? Math.min(...pending.map(entry => entry.nextAttemptAt)) : null,
+    };
+  }
+
+  /**
+   * Wait for queued appends (and any compaction) to reach disk
+   */
+  async flush(): Promise<void> {
+    await this.writes;
+  }
+
+  private async record(record: WalRecord): Promise<void> {
+    this.apply(record);
+    const line = `${JSON.stringify(record)}\n`;
+
+    // A failed append fails its own caller but must not wedge later ones
+    this.writes = this.writes.catch(() => undefined).then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, line, 'utf-8');
+    });
+    await this.writes;
+
+    if (this.staleRecords >= COMPACT_AFTER_RECORDS) {
+      await this.compact();
+    }
+  }
+
+  private apply(record: WalRecord): void {
+    switch (record.op) {
+      case 'enqueue':
+        this.pending.set(record.entry.memory.id, { ...record.entry });
+        break;
+      case 'retry': {
+        const entry = this.pending.get(record.id);
+        if (entry) {
+          entry.attempts = record.attempts;
+          entry.nextAttemptAt = record.nextAttemptAt;
+          entry.lastError = record.error;
+        }
+        this.staleRecords++;
+        break;
+      }
+      case 'ack':
+        this.pending.delete(record.id);
+        this.staleRecords += 2;
+        break;
+      case 'dead': {
+        const entry = this.pending.get(record.id);
+        if (entry) {
+          this.pending.delete(record.id);
+          this.dead.set(record.id, { ...entry, attempts: entry.attempts + 1, lastError: record.error, deadAt: record.deadAt });
+        }
+        this.staleRecords++;
+        break;
+      }
+    }
+  }
+
+  /**
+   * Rewrite the log with only the live entries (write then rename)
+   */
+  private async compact(): Promise<void> {
+    const records: WalRecord[] = [
+      ...this.list().map(entry => ({ op: 'enqueue' as const, entry })),
+      ...this.deadLetters().flatMap(({ deadAt, ...entry }) => [
+        { op: 'enqueue' as const, entry: { ...entry, attempts: entry.attempts - 1 } },
+        { op: 'dead' as const, id: entry.memory.id, deadAt, error: entry.lastError || 'unknown' },
+      ]),
+    ];
+    const content = records.map(record => JSON.stringify(record)).join('\n');
+
+    this.writes = this.writes.catch(() => undefined).then(async () => {
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tmpPath, content ? `${content}\n` : '', 'utf-8');
+      await fs.rename(tmpPath, this.filePath);
+    });
+    await this.writes;
+    this.staleRecords = 0;
+  }
+}
@@ -7,6 +7,9 @@ import { Pool, FeeAmount, Trade, Route, encodeRouteToPath } from '@pancakeswap/v
 import { ethers } from 'ethers';
 import { logger, logError, logTrade } from '../utils/logger';
 import { CONFIG } from '../config';
+import { getDEXAggregator } from '../dex/dexAggregator';
+import { getPaperLedger, isPaperTrading } from './paperLedger';
+import { getMEVProtectionService } from '../mev/mevProtection';
 
 const POOL_ABI = [
   'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
@@ -24,6 +27,12 @@ const ROUTER_V3_ABI = [
   'function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96)) external payable returns (uint256 amountIn)',
 ];
 
+// PancakeSwap V3 QuoterV2 (same address on BSC and opBNB)
+const PANCAKE_V3_QUOTER = '0xB048Bbc1Ee6b733FFfCFb9e9CeF7375518e25997';
+const QUOTER_V2_ABI = [
+  'function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+];
+
 const ERC20_ABI = [
   'function approve(address spender, uint256 amount) external returns (bool)',
   'function allowance(address owner, address spender) external view returns (uint256)',
@@ -33,6 +42,8 @@ const ERC20_ABI = [
   'function name() external view returns (string)',
 ];
 
+const routerV3 = new ethers.Interface(ROUTER_V3_ABI);
+
 export interface SwapResult {
   success: boolean;
   txHash?: string;
@@ -42,8 +53,65 @@ export interface SwapResult {
   executionPrice?: string;
   gasUsed?: string;
   error?: string;
+  paper?: boolean; // settled on the paper ledger, never broadcast
+}
+
+export interface SwapOptions {
+  privateRelay?: boolean; // send through the BSC private relays (defaults to PRIVATE_RELAY_ENABLED)
+}
+
+/**
+ * A swap transaction as it would be broadcast, for pre-flight simulation
+ */
+export interface PreparedSwap {
+  to: string;
+  data: string;
+  value: bigint;
+  tokenIn: string;
+  tokenOut: string;
+  fee: number;
+  amountIn: bigint;
+  tokenDecimals: number;
 }
 
+/**
+ * Router call used for every swap (live execution and simulation share it)
+ */
+export function encodeExactInputSingle(
+  router: string,
+  swap: { tokenIn: string; tokenOut: string; fee: number; amountIn: bigint | string; amountOutMinimum: bigint | string },
+  recipient: string,
+  payWithBNB: boolean
+): { to: string; data: string; value: bigint } {
+  const data = routerV3.encodeFunctionData('exactInputSingle', [{
+    tokenIn: swap.tokenIn,
+    tokenOut: swap.tokenOut,
+    fee: swap.fee,
+    recipient,
+    amountIn: swap.amountIn,
+    amountOutMinimum: swap.amountOutMinimum,
+    sqrtPriceLimitX96: 0,
+  }]);
+  return { to: router, data, value: payWithBNB ? BigInt(swap.amountIn) : 0n };
+}
+
+/**
+ * Decimal token amount to base units, rounded down. Takes what callers build from
+ * floats: exponent notation (1e-7) and more fraction digits than the token has.
+ */
+export function toBaseUnits(amount: string | number, decimals: number): bigint {
+  let text = String(amount).trim();
+  if (/e/i.test(text)) {
+    text = Number(text).toFixed(decimals);
+  }
+  const [whole = '0', fraction = ''] = text.split('.');
+  const kept = fraction.slice(0, decimals);
+  return ethers.parseUnits(kept ? `${whole || '0'}.${kept}` : whole || '0', decimals);
+}
+
+// Gas budget charged to paper fills (single-hop V3 swap)
+const PAPER_SWAP_GAS_UNITS = 180000n;
+
 /**
  * PancakeSwap V3 Integration
  * Uses SDK for proper trade calculation and execution
@@ -77,6 +145,21 @@ export class PancakeSwapV3 {
     }
     
     this.chainId = CONFIG.CHAIN_ID;
+
+    // WBNB token
+    const wbnbAddress = CONFIG.WBNB_ADDRESS as `0x${string}`;
+    this.wbnb = new Token(this.chainId, wbnbAddress, 18, 'WBNB', 'Wrapped BNB');
+
+    this.factoryAddress = CONFIG.PANCAKE_FACTORY;
+    this.routerAddress = CONFIG.PANCAKE_ROUTER;
+
+    logger.info('🥞 PancakeSwap V3 initialized');
+    logger.info(`  Chain ID: ${this.chainId}`);
+    logger.info(`  Factory: ${this.factoryAddress}`);
+    logger.info(`  Router: ${this.routerAddress}`);
+    if (isPaperTrading()) {
+      logger.info('  Mode: 📝 PAPER (swaps are settled on the virtual ledger)');
+    }
   }
 
   /**
@@ -103,18 +186,6 @@ export class PancakeSwapV3 {
       }
     }
     return this.wallet;
-
-    // WBNB token
-    const wbnbAddress = CONFIG.WBNB_ADDRESS as `0x${string}`;
-    this.wbnb = new Token(this.chainId, wbnbAddress, 18, 'WBNB', 'Wrapped BNB');
-
-    this.factoryAddress = CONFIG.PANCAKE_FACTORY;
-    this.routerAddress = CONFIG.PANCAKE_ROUTER;
-
-    logger.info('🥞 PancakeSwap V3 initialized');
-    logger.info(`  Chain ID: ${this.chainId}`);
-    logger.info(`  Factory: ${this.factoryAddress}`);
-    logger.info(`  Router: ${this.routerAddress}`);
   }
 
   /**
@@ -123,8 +194,13 @@ export class PancakeSwapV3 {
   async buyTokenWithBNB(
     tokenAddress: string,
     amountBNB: number,
-    slippageBps: number = 50 // 0.5% default
+    slippageBps: number = 50, // 0.5% default
+    options: SwapOptions = {}
   ): Promise<SwapResult> {
+    if (isPaperTrading()) {
+      return this.paperBuy(tokenAddress, amountBNB);
+    }
+
     try {
       logger.info(`\n💰 Buying token ${tokenAddress} with ${amountBNB} BNB...`);
 
@@ -180,6 +256,7 @@ export class PancakeSwapV3 {
         amountOutMinimum: amountOutMin.quotient.toString(),
         isExactInput: true,
         isBuyingWithBNB: true,
+        privateRelay: options.privateRelay,
       });
 
       logger.info(`✅ Swap successful! TX: ${txReceipt.hash}`);
@@ -213,8 +290,13 @@ export class PancakeSwapV3 {
   async sellTokenForBNB(
     tokenAddress: string,
     amountTokens: string,
-    slippageBps: number = 50
+    slippageBps: number = 50,
+    options: SwapOptions = {}
   ): Promise<SwapResult> {
+    if (isPaperTrading()) {
+      return this.paperSell(tokenAddress, amountTokens);
+    }
+
     try {
       logger.info(`\n💸 Selling ${amountTokens} of token ${tokenAddress}...`);
 
@@ -233,7 +315,7 @@ export class PancakeSwapV3 {
       // Create trade
       const amountIn = CurrencyAmount.fromRawAmount(
         targetToken,
-        ethers.parseUnits(amountTokens, targetToken.decimals).toString()
+        toBaseUnits(amountTokens, targetToken.decimals).toString()
       );
 
       const route = new Route([pool], targetToken, this.wbnb);
@@ -259,6 +341,7 @@ export class PancakeSwapV3 {
         amountOutMinimum: amountOutMin.quotient.toString(),
         isExactInput: true,
         isBuyingWithBNB: false,
+        privateRelay: options.privateRelay,
       });
 
       logger.info(`✅ Sell successful! TX: ${txReceipt.hash}`);
@@ -285,6 +368,169 @@ export class PancakeSwapV3 {
     }
   }
 
+  /**
+   * Paper buy: quote against the live market, settle on the virtual ledger
+   */
+  private async paperBuy(tokenAddress: string, amountBNB: number): Promise<SwapResult> {
+    try {
+      logger.info(`\n📝 [PAPER] Buying token ${tokenAddress} with ${amountBNB} BNB...`);
+
+      const targetToken = await this.createTokenFromAddress(tokenAddress);
+      const quote = await this.quoteExactInput(
+        this.wbnb,
+        targetToken,
+        ethers.parseEther(amountBNB.toString())
+      );
+      const gasBNB = await this.estimatePaperGasBNB();
+
+      const fill = await getPaperLedger().recordBuy({
+        tokenAddress: targetToken.address,
+        amountBNB,
+        amountTokens: quote.amountOut,
+        gasBNB,
+        quoteSource: quote.source,
+      });
+
+      logTrade('BUY', tokenAddress, amountBNB);
+
+      return {
+        success: true,
+        txHash: fill.txHash,
+        amountIn: amountBNB.toString(),
+        amountOut: quote.amountOut.toString(),
+        priceImpact: quote.priceImpact?.toFixed(2),
+        executionPrice: fill.executionPrice.toString(),
+        gasUsed: PAPER_SWAP_GAS_UNITS.toString(),
+        paper: true,
+      };
+    } catch (error) {
+      logError('paperBuy', error as Error);
+      return {
+        success: false,
+        amountIn: amountBNB.toString(),
+        amountOut: '0',
+        error: (error as Error).message,
+        paper: true,
+      };
+    }
+  }
+
+  /**
+   * Paper sell: quote against the live market, settle on the virtual ledger
+   */
+  private async paperSell(tokenAddress: string, amountTokens: string): Promise<SwapResult> {
+    try {
+      logger.info(`\n📝 [PAPER] Selling ${amountTokens} of token ${tokenAddress}...`);
+
+      const targetToken = await this.createTokenFromAddress(tokenAddress);
+      const quote = await this.quoteExactInput(
+        targetToken,
+        this.wbnb,
+        toBaseUnits(amountTokens, targetToken.decimals)
+      );
+      const gasBNB = await this.estimatePaperGasBNB();
+
+      const fill = await getPaperLedger().recordSell({
+        tokenAddress: targetToken.address,
+        amountBNB: quote.amountOut,
+        amountTokens: parseFloat(amountTokens),
+        gasBNB,
+        quoteSource: quote.source,
+      });
+
+      logTrade('SELL', tokenAddress, quote.amountOut);
+
+      return {
+        success: true,
+        txHash: fill.txHash,
+        amountIn: amountTokens,
+        amountOut: quote.amountOut.toString(),
+        priceImpact: quote.priceImpact?.toFixed(2),
+        executionPrice: fill.executionPrice.toString(),
+        gasUsed: PAPER_SWAP_GAS_UNITS.toString(),
+        paper: true,
+      };
+    } catch (error) {
+      logError('paperSell', error as Error);
+      return {
+        success: false,
+        amountIn: amountTokens,
+        amountOut: '0',
+        error: (error as Error).message,
+        paper: true,
+      };
+    }
+  }
+
+  /**
+   * Quote an exact-input swap against live liquidity.
+   * Takes the lower of the multi-DEX aggregator quote and the QuoterV2 quote on the V3 pool
+   * the swap would go through, so paper fills and minimum outputs never assume the best case.
+   */
+  private async quoteExactInput(
+    tokenIn: Token,
+    tokenOut: Token,
+    amountIn: bigint
+  ): Promise<{ amountOut: number; source: string; priceImpact?: number }> {
+    const [aggregated, v3] = await Promise.allSettled([
+      getDEXAggregator().getBestQuote(tokenIn.address, tokenOut.address, amountIn),
+      this.quoteV3Pool(tokenIn, tokenOut, amountIn),
+    ]);
+
+    const candidates: Array<{ amountOut: number; source: string; priceImpact?: number }> = [];
+
+    if (aggregated.status === 'fulfilled') {
+      const best = aggregated.value.bestQuote;
+      candidates.push({
+        amountOut: parseFloat(ethers.formatUnits(best.outputAmount, tokenOut.decimals)),
+        source: `aggregator:${best.dexName}`,
+        priceImpact: best.priceImpact,
+      });
+    }
+
+    if (v3.status === 'fulfilled' && v3.value !== null) {
+      candidates.push({ amountOut: parseFloat(ethers.formatUnits(v3.value, tokenOut.decimals)), source: 'pancakeswap-v3' });
+    }
+
+    const quote = candidates.sort((a, b) => a.amountOut - b.amountOut)[0];
+    if (!quote || quote.amountOut <= 0) {
+      throw new Error('No liquidity found for quote');
+    }
+
+    return quote;
+  }
+
+  /**
+   * QuoterV2 output on the best V3 pool (price impact and fee included), null when there is no pool
+   */
+  private async quoteV3Pool(tokenIn: Token, tokenOut: Token, amountIn: bigint): Promise<bigint | null> {
+    const pool = await this.findBestPool(tokenIn, tokenOut);
+    if (!pool) return null;
+
+    const quoter = new ethers.Contract(PANCAKE_V3_QUOTER, QUOTER_V2_ABI, this.provider);
+    const result = await quoter.getFunction('quoteExactInputSingle').staticCall({
+      tokenIn: tokenIn.address,
+      tokenOut: tokenOut.address,
+      amountIn,
+      fee: pool.fee,
+      sqrtPriceLimitX96: 0,
+    });
+    return BigInt(result[0]);
+  }
+
+  /**
+   * Gas a real swap would cost right now, charged to paper fills
+   */
+  private async estimatePaperGasBNB(): Promise<number> {
+    try {
+      const feeData = await this.provider.getFeeData();
+      const gasPrice = feeData.gasPrice ?? 0n;
+      return parseFloat(ethers.formatEther(gasPrice * PAPER_SWAP_GAS_UNITS));
+    } catch {
+      return 0;
+    }
+  }
+
   /**
    * Create Token instance from address
    */
@@ -363,6 +609,45 @@ export class PancakeSwapV3 {
     }
   }
 
+  /**
+   * Build the swap transaction buyTokenWithBNB / sellTokenForBNB would send, without
+   * sending it. amount is BNB for buys and tokens for sells; the minimum output is left
+   * at zero so a simulation reports what the swap actually returns.
+   */
+  async prepareSwap(
+    action: 'buy' | 'sell',
+    tokenAddress: string,
+    amount: string,
+    recipient: string
+  ): Promise<PreparedSwap> {
+    const targetToken = await this.createTokenFromAddress(tokenAddress);
+    const [tokenIn, tokenOut] = action === 'buy' ? [this.wbnb, targetToken] : [targetToken, this.wbnb];
+
+    const pool = await this.findBestPool(tokenIn, tokenOut);
+    if (!pool) {
+      throw new Error('No liquidity pool found for this token');
+    }
+
+    const amountIn = action === 'buy'
+      ? ethers.parseEther(amount)
+      : toBaseUnits(amount, targetToken.decimals);
+    const tx = encodeExactInputSingle(
+      this.routerAddress,
+      { tokenIn: tokenIn.address, tokenOut: tokenOut.address, fee: pool.fee, amountIn, amountOutMinimum: 0n },
+      recipient,
+      action === 'buy'
+    );
+
+    return {
+      ...tx,
+      tokenIn: tokenIn.address,
+      tokenOut: tokenOut.address,
+      fee: pool.fee,
+      amountIn,
+      tokenDecimals: targetToken.decimals,
+    };
+  }
+
   /**
    * Execute swap on-chain
    */
@@ -374,41 +659,42 @@ export class PancakeSwapV3 {
     amountOutMinimum: string;
     isExactInput: boolean;
     isBuyingWithBNB: boolean;
-  }): Promise<ethers.ContractTransactionReceipt> {
+    privateRelay?: boolean;
+  }): Promise<ethers.TransactionReceipt> {
     if (!this.hasValidWallet) {
       throw new Error('Cannot execute swap - no wallet configured');
     }
     
     const wallet = this.getWallet();
-    const router = new ethers.Contract(this.routerAddress, ROUTER_V3_ABI, wallet);
-
-    const swapParams = {
-      tokenIn: params.tokenIn,
-      tokenOut: params.tokenOut,
-      fee: params.fee,
-      recipient: wallet.address,
-      amountIn: params.amountIn,
-      amountOutMinimum: params.amountOutMinimum,
-      sqrtPriceLimitX96: 0,
-    };
-
-    const value = params.isBuyingWithBNB ? params.amountIn : '0';
 
     logger.info('  Executing swap on-chain...');
 
-    if (!router.exactInputSingle) {
-      throw new Error('Router contract method exactInputSingle not available');
+    const request = {
+      ...encodeExactInputSingle(this.routerAddress, params, wallet.address, params.isBuyingWithBNB),
+      gasLimit: 500000,
+    };
+
+    // Keep the swap out of the public mempool
+    if (params.privateRelay ?? CONFIG.PRIVATE_RELAY_ENABLED) {
+      const signedTx = await wallet.signTransaction(await wallet.populateTransaction(request));
+      const submission = await getMEVProtectionService().sendViaPrivateRelay(signedTx, this.provider);
+      logger.info(`  TX ${submission.hashes[0]} ${submission.status} via ${submission.route} route`);
+
+      if (submission.status !== 'included') {
+        throw new Error(`Swap transaction ${submission.hashes[0]} ${submission.status}: ${submission.error || 'not included'}`);
+      }
+      return submission.receipts[0]!;
     }
 
-    const tx = await router.exactInputSingle(swapParams, {
-      value,
-      gasLimit: 500000,
-    });
+    const tx = await wallet.sendTransaction(request);
 
     logger.info(`  TX sent: ${tx.hash}`);
     logger.info('  Waiting for confirmation...');
 
     const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error(`Swap transaction ${tx.hash} was dropped`);
+    }
     return receipt;
   }
 
@@ -432,7 +718,7 @@ export class PancakeSwapV3 {
     }
 
     const allowance = await token.allowance(wallet.address, this.routerAddress);
-    const required = ethers.parseUnits(amount, decimals);
+    const required = toBaseUnits(amount, decimals);
 
     if (allowance < required) {
       logger.info('  Approving token...');
@@ -446,6 +732,12 @@ export class PancakeSwapV3 {
    * Get wallet balance
    */
   async getBalance(): Promise<number> {
+    if (isPaperTrading()) {
+      const ledger = getPaperLedger();
+      await ledger.load();
+      return ledger.getBNBBalance();
+    }
+
     if (!this.hasValidWallet) {
       logger.warn('🚨 Cannot get balance - no wallet configured');
       return 0;
@@ -459,6 +751,12 @@ export class PancakeSwapV3 {
    * Get token balance
    */
   async getTokenBalance(tokenAddress: string): Promise<number> {
+    if (isPaperTrading()) {
+      const ledger = getPaperLedger();
+      await ledger.load();
+      return ledger.getTokenBalance(tokenAddress);
+    }
+
     if (!this.hasValidWallet) {
       logger.warn('🚨 Cannot get token balance - no wallet configured');
       return 0;
@@ -506,26 +804,13 @@ export class PancakeSwapV3 {
   async getQuote(tokenAddress: string, amountBNB: number): Promise<{ expectedTokens: number; pricePerToken: number }> {
     try {
       const targetToken = await this.createTokenFromAddress(tokenAddress);
-      const pool = await this.findBestPool(this.wbnb, targetToken);
-      
-      if (!pool) {
-        throw new Error('No liquidity pool found for quote');
-      }
-
-      const amountIn = CurrencyAmount.fromRawAmount(
+      const quote = await this.quoteExactInput(
         this.wbnb,
-        ethers.parseEther(amountBNB.toString()).toString()
+        targetToken,
+        ethers.parseEther(amountBNB.toString())
       );
 
-      const route = new Route([pool], this.wbnb, targetToken);
-      const trade = Trade.createUncheckedTrade({
-        route,
-        inputAmount: amountIn,
-        outputAmount: CurrencyAmount.fromRawAmount(targetToken, 0),
-        tradeType: TradeType.EXACT_INPUT,
-      });
-
-      const expectedTokens = parseFloat(trade.outputAmount.toSignificant(6));
+      const expectedTokens = quote.amountOut;
       const pricePerToken = amountBNB / expectedTokens;
 
       return {
@@ -537,6 +822,28 @@ export class PancakeSwapV3 {
       throw error;
     }
   }
+
+  /**
+   * Get quote for selling a specific amount of tokens for BNB (for price validation)
+   */
+  async getSellQuote(tokenAddress: string, amountTokens: number): Promise<{ expectedBNB: number; pricePerToken: number }> {
+    try {
+      const targetToken = await this.createTokenFromAddress(tokenAddress);
+      const quote = await this.quoteExactInput(
+        targetToken,
+        this.wbnb,
+        ethers.parseUnits(amountTokens.toFixed(targetToken.decimals), targetToken.decimals)
+      );
+
+      return {
+        expectedBNB: quote.amountOut,
+        pricePerToken: quote.amountOut / amountTokens
+      };
+    } catch (error) {
+      logger.error(`Failed to get sell quote: ${error}`);
+      throw error;
+    }
+  }
 }
 
 export default PancakeSwapV3;
@@ -0,0 +1,244 @@
+/**
+ * Paper Trading Ledger
+ * Virtual BNB and token balances for paper mode. Swaps are quoted against the
+ * live market but settled here instead of being broadcast on-chain.
+ */
+
+import { logger } from '../utils/logger';
+import { TradingError } from '../utils/errorHandler';
+import { saveConfig, loadConfig, deleteConfig } from '../utils/configStorage';
+import { CONFIG } from '../config';
+
+const STORAGE_KEY = 'paper-ledger';
+const MAX_FILLS = 1000;
+
+export interface PaperFill {
+  id: string;
+  txHash: string;
+  timestamp: number;
+  side: 'buy' | 'sell';
+  tokenAddress: string;
+  amountBNB: number; // BNB spent (buy) or received (sell), before gas
+  amountTokens: number;
+  executionPrice: number; // BNB per token
+  gasBNB: number;
+  quoteSource: string; // where the fill price came from, e.g. 'pancakeswap-v3' or 'aggregator:biswap'
+}
+
+export interface PaperLedgerState {
+  initialBalanceBNB: number;
+  bnbBalance: number;
+  tokens: Record<string, number>;
+  fills: PaperFill[];
+  startedAt: number;
+  updatedAt: number;
+}
+
+export interface PaperSwap {
+  tokenAddress: string;
+  amountBNB: number;
+  amountTokens: number;
+  gasBNB?: number;
+  quoteSource: string;
+}
+
+/**
+ * Whether trades should be settled on the paper ledger instead of on-chain
+ */
+export function isPaperTrading(): boolean {
+  return CONFIG.PAPER_TRADING;
+}
+
+/**
+ * Virtual wallet used while paper trading
+ */
+export class PaperLedger {
+  private state: PaperLedgerState;
+  private loading: Promise<void> | null = null;
+  private fillCounter = 0;
+
+  constructor(
+    private initialBalanceBNB: number = CONFIG.PAPER_INITIAL_BALANCE_BNB,
+    private storageKey: string = STORAGE_KEY
+  ) {
+    this.state = this.freshState();
+  }
+
+  /**
+   * Restore the ledger from disk (once; concurrent callers share the same load) so paper
+   * runs survive restarts
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.restore();
+    }
+    return this.loading;
+  }
+
+  private async restore(): Promise<void> {
+    const saved = await loadConfig<PaperLedgerState>(this.storageKey);
+    if (saved) {
+      this.state = { ...this.freshState(), ...saved };
+      logger.info(`📝 Paper ledger restored: ${this.state.bnbBalance.toFixed(4)} BNB, ${this.state.fills.length} fills`);
+    } else {
+      logger.info(`📝 Paper ledger started with ${this.state.bnbBalance.toFixed(4)} virtual BNB`);
+    }
+  }
+
+  getBNBBalance(): number {
+    return this.state.bnbBalance;
+  }
+
+  getTokenBalance(tokenAddress: string): number {
+    return this.state.tokens[tokenAddress.toLowerCase()] || 0;
+  }
+
+  getFills(limit?: number): PaperFill[] {
+    return limit ? this.state.fills.slice(-limit) : [...this.state.fills];
+  }
+
+  /**
+   * Settle a BNB → token swap on the ledger
+   */
+  async recordBuy(swap: PaperSwap): Promise<PaperFill> {
+    await this.load();
+
+    const gasBNB = swap.gasBNB || 0;
+    const cost = swap.amountBNB + gasBNB;
+    if (cost > this.state.bnbBalance) {
+      throw new TradingError(
+        `Insufficient paper balance: need ${cost.toFixed(6)} BNB, have ${this.state.bnbBalance.toFixed(6)} BNB`,
+        'INSUFFICIENT_BALANCE'
+      );
+    }
+    if (swap.amountTokens <= 0) {
+      throw new TradingError('Paper fill returned no tokens', 'INVALID_QUOTE');
+    }
+
+    const key = swap.tokenAddress.toLowerCase();
+    this.state.bnbBalance -= cost;
+    this.state.tokens[key] = (this.state.tokens[key] || 0) + swap.amountTokens;
+
+    return this.recordFill('buy', swap, gasBNB);
+  }
+
+  /**
+   * Settle a token → BNB swap on the ledger
+   */
+  async recordSell(swap: PaperSwap): Promise<PaperFill> {
+    await this.load();
+
+    const key = swap.tokenAddress.toLowerCase();
+    const held = this.state.tokens[key] || 0;
+    // Allow for float dust when selling the full position
+    if (swap.amountTokens > held * (1 + 1e-9)) {
+      throw new TradingError(
+        `Insufficient paper token balance: need ${swap.amountTokens}, have ${held}`,
+        'NO_BALANCE'
+      );
+    }
+
+    const gasBNB = swap.gasBNB || 0;
+    const remaining = held - swap.amountTokens;
+    if (remaining <= held * 1e-9) {
+      delete this.state.tokens[key];
+    } else {
+      this.state.tokens[key] = remaining;
+    }
+    this.state.bnbBalance += swap.amountBNB - gasBNB;
+
+    return this.recordFill('sell', swap, gasBNB);
+  }
+
+  /**
+   * Ledger summary for the API and status reports
+   */
+  getSummary(): PaperLedgerState & { realizedPnLBNB: number } {
+    return {
+      ...this.state,
+      tokens: { ...this.state.tokens },
+      fills: this.getFills(50),
+      // BNB delta only; open token balances are not marked to market here
+      realizedPnLBNB: this.state.bnbBalance - this.state.initialBalanceBNB,
+    };
+  }
+
+  /**
+   * Wipe the ledger and start again with the initial balance
+   */
+  async reset(initialBalanceBNB: number = this.initialBalanceBNB): Promise<void> {
+    await this.load(); // a restore still in flight must not bring the old ledger back
+    this.initialBalanceBNB = initialBalanceBNB;
+    this.state = this.freshState();
+    await deleteConfig(this.storageKey);
+    logger.info(`📝 Paper ledger reset to ${initialBalanceBNB} BNB`);
+  }
+
+  private async recordFill(side: 'buy' | 'sell', swap: PaperSwap, gasBNB: number): Promise<PaperFill> {
+    const timestamp = Date.now();
+    const id = `paper_${timestamp}_${++this.fillCounter}`;
+
+    const fill: PaperFill = {
+      id,
+      txHash: `paper-${timestamp.toString(16)}-${this.fillCounter}`,
+      timestamp,
+      side,
+      tokenAddress: swap.tokenAddress,
+      amountBNB: swap.amountBNB,
+      amountTokens: swap.amountTokens,
+      executionPrice: swap.amountBNB / swap.amountTokens,
+      gasBNB,
+      quoteSource: swap.quoteSource,
+    };
+
+    this.state.fills.push(fill);
+    if (this.state.fills.length > MAX_FILLS) {
+      this.state.fills.splice(0, this.state.fills.length - MAX_FILLS);
+    }
+    this.state.updatedAt = timestamp;
+
+    logger.info(
+      `📝 Paper ${side.toUpperCase()}: ${fill.amountTokens.toFixed(6)} tokens @ ${fill.executionPrice.toFixed(10)} BNB (${fill.quoteSource})`
+    );
+
+    await this.persist();
+    return fill;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await saveConfig(this.storageKey, this.state);
+    } catch (error) {
+      // Ledger stays correct in memory; the next fill retries the write
+      logger.warn(`⚠️  Failed to persist paper ledger: ${(error as Error).message}`);
+    }
+  }
+
+  private freshState(): PaperLedgerState {
+    const now = Date.now();
+    return {
+      initialBalanceBNB: this.initialBalanceBNB,
+      bnbBalance: this.initialBalanceBNB,
+      tokens: {},
+      fills: [],
+      startedAt: now,
+      updatedAt: now,
+    };
+  }
+}
+
+// Singleton instance
+let paperLedger: PaperLedger | null = null;
+
+export function getPaperLedger(): PaperLedger {
+  if (!paperLedger) {
+    paperLedger = new PaperLedger();
+  }
+  return paperLedger;
+}
+
+export function resetPaperLedger(): void {
+  paperLedger = null;
+}
+
+export default getPaperLedger;
@@ -8,11 +8,21 @@ import {
 } from '../utils/safeguards';
 import { CONFIG } from '../config';
 import PancakeSwapV3 from './pancakeSwapIntegration';
+import { isPaperTrading } from './paperLedger';
+import {
+  getTradeSimulator,
+  DEFAULT_SIMULATION_SENDER,
+  type PreflightLimits,
+  type PreflightResult,
+} from './tradeSimulator';
+import { getMevForensics, mevSummary, type MevSummary } from '../mev/mevForensics';
 
 export interface TradeParams {
   tokenAddress: string;
   action: 'buy' | 'sell';
   amountBNB: number;
+  tokenAmount?: number; // sells only: tokens to sell (defaults to the full balance)
+  riskReducing?: boolean; // sells only: stop-loss style exits are not blocked by a short simulated output alone
   slippagePercent?: number;
   gasLimit?: number;
 }
@@ -26,6 +36,8 @@ export interface TradeResult {
   actualPrice: number;
   gasUsed?: string;
   error?: string;
+  paper?: boolean; // filled on the paper ledger, nothing was broadcast
+  mev?: MevSummary; // post-trade sandwich / front-run analysis of the fill
 }
 
 let pancakeSwap: PancakeSwapV3;
@@ -40,6 +52,9 @@ export async function initializeProvider(): Promise<void> {
   logger.info(`  - Network: ${CONFIG.TRADING_NETWORK}`);
   logger.info(`  - Chain ID: ${CONFIG.CHAIN_ID}`);
   logger.info(`  - RPC: ${CONFIG.RPC_URL}`);
+  if (isPaperTrading()) {
+    logger.info(`  - Mode: 📝 PAPER (live quotes, no transactions broadcast)`);
+  }
 
   // Initialize PancakeSwap V3 SDK integration
   pancakeSwap = new PancakeSwapV3();
@@ -72,6 +87,93 @@ export async function getTokenBalance(tokenAddress: string): Promise<number> {
   return await pancakeSwap.getTokenBalance(tokenAddress);
 }
 
+/**
+ * Address the swap would be sent from (the trading wallet when one is configured)
+ */
+function simulationSender(): string {
+  const key = CONFIG.WALLET_PRIVATE_KEY;
+  try {
+    return key ? new ethers.Wallet(key.startsWith('0x') ? key : `0x${key}`).address : DEFAULT_SIMULATION_SENDER;
+  } catch {
+    return DEFAULT_SIMULATION_SENDER;
+  }
+}
+
+/**
+ * Simulate the exact swap before it is broadcast (see tradeSimulator.ts).
+ * amount is BNB for buys and tokens for sells; expectedOut is the quoted output
+ * (tokens for buys, BNB for sells). Returns null when SIM_MODE=off.
+ */
+export async function preflightTrade(
+  action: 'buy' | 'sell',
+  tokenAddress: string,
+  amount: number,
+  expectedOut: number,
+  limits: Partial<PreflightLimits> = {}
+): Promise<PreflightResult | null> {
+  const simulator = getTradeSimulator();
+  if (!simulator.enabled) return null;
+  await initializeProvider();
+
+  const from = simulationSender();
+  const swap = await pancakeSwap.prepareSwap(action, tokenAddress, amount.toString(), from);
+  const outDecimals = action === 'buy' ? swap.tokenDecimals : 18;
+
+  return simulator.preflight(
+    { action, from, swap, expectedOut: ethers.parseUnits(expectedOut.toFixed(outDecimals), outDecimals) },
+    {
+      maxDeviationPercent: CONFIG.SIM_MAX_DEVIATION_PERCENT,
+      maxTaxPercent: CONFIG.SIM_MAX_TAX_PERCENT,
+      requireHoneypotCheck: false,
+      ...limits,
+    }
+  );
+}
+
+/**
+ * Simulated buy and sell-back for a token we have not traded yet.
+ * Blocks honeypots and punitive taxes; null when SIM_MODE=off.
+ */
+export async function screenToken(tokenAddress: string, amountBNB: number): Promise<PreflightResult | null> {
+  await initializeProvider();
+  const quote = await pancakeSwap.getQuote(tokenAddress, amountBNB);
+  return preflightTrade('buy', tokenAddress, amountBNB, quote.expectedTokens, { requireHoneypotCheck: true });
+}
+
+function assertPreflight(result: PreflightResult | null): void {
+  if (result && !result.ok) {
+    throw new TradingError(
+      `Pre-flight simulation blocked the trade: ${result.reasons.join('; ')}`,
+      'SIMULATION_FAILED',
+      { reasons: result.reasons, mode: result.mode }
+    );
+  }
+}
+
+/**
+ * Post-trade MEV forensics for a confirmed swap. Never fails the trade.
+ */
+async function analyzeFill(
+  txHash: string,
+  params: TradeParams,
+  notionalBNB: number,
+  quotedOut: number
+): Promise<MevSummary | undefined> {
+  try {
+    const report = await getMevForensics().analyzeTrade({
+      txHash,
+      tokenAddress: params.tokenAddress,
+      action: params.action,
+      notionalBNB,
+      quotedOut,
+    });
+    return report ? mevSummary(report) : undefined;
+  } catch (error) {
+    logger.warn(`⚠️  MEV forensics failed for ${txHash}: ${(error as Error).message}`);
+    return undefined;
+  }
+}
+
 /**
  * Main trade execution function - now using PancakeSwap V3 SDK
  */
@@ -98,16 +200,24 @@ export async function executeTrade(params: TradeParams): Promise<TradeResult> {
       throw new TradingError('Invalid slippage percentage', 'INVALID_SLIPPAGE');
     }
 
-    logger.info(`\n📊 Executing ${params.action.toUpperCase()} trade`);
+    logger.info(`\n📊 Executing ${isPaperTrading() ? 'PAPER ' : ''}${params.action.toUpperCase()} trade`);
     logger.info(`  Token: ${params.tokenAddress}`);
     logger.info(`  Amount: ${params.amountBNB} BNB`);
     logger.info(`  Slippage: ${slippage}%`);
     logger.info(`  Expected price: ${expectedPrice.toFixed(8)} BNB per token`);
     logger.info(`  Expected tokens: ${quote.expectedTokens.toFixed(6)}`);
 
-    let result;
+    let result: TradeResult;
+    let notionalBNB: number; // BNB in for buys, expected BNB out for sells
+    let quotedOut: number;
 
     if (params.action === 'buy') {
+      notionalBNB = params.amountBNB;
+      quotedOut = quote.expectedTokens;
+
+      // Run the exact swap on a fork / eth_call before broadcasting it
+      assertPreflight(await preflightTrade('buy', params.tokenAddress, params.amountBNB, quote.expectedTokens));
+
       // Use PancakeSwap SDK to buy tokens
       const swapResult = await pancakeSwap.buyTokenWithBNB(
         params.tokenAddress,
@@ -130,6 +240,7 @@ export async function executeTrade(params: TradeParams): Promise<TradeResult> {
         actualPrice: swapResult.executionPrice ? parseFloat(swapResult.executionPrice) : 0,
         gasUsed: swapResult.gasUsed,
         error: swapResult.error,
+        paper: swapResult.paper,
       };
     } else if (params.action === 'sell') {
       // Get token balance first
@@ -139,13 +250,29 @@ export async function executeTrade(params: TradeParams): Promise<TradeResult> {
         throw new TradingError('No tokens to sell', 'NO_BALANCE');
       }
 
-      // For sell orders, get the current token price to validate execution
-      const currentTokenPrice = await pancakeSwap.getTokenPrice(params.tokenAddress);
+      const amountToSell = params.tokenAmount !== undefined
+        ? Math.min(params.tokenAmount, tokenBalance)
+        : tokenBalance;
+
+      // Quote this size like buys do; the spot price overstates what a large sell returns
+      const sellQuote = await pancakeSwap.getSellQuote(params.tokenAddress, amountToSell);
+      const currentTokenPrice = sellQuote.pricePerToken;
+
+      notionalBNB = sellQuote.expectedBNB;
+      quotedOut = notionalBNB;
+      // Reverts and taxes still block; getting out late beats not getting out
+      assertPreflight(await preflightTrade(
+        'sell',
+        params.tokenAddress,
+        amountToSell,
+        quotedOut,
+        params.riskReducing ? { maxDeviationPercent: Infinity } : {}
+      ));
 
       // Use PancakeSwap SDK to sell tokens
       const swapResult = await pancakeSwap.sellTokenForBNB(
         params.tokenAddress,
-        tokenBalance.toString(),
+        amountToSell.toString(),
         slippage * 100
       );
 
@@ -164,11 +291,16 @@ export async function executeTrade(params: TradeParams): Promise<TradeResult> {
         actualPrice: swapResult.executionPrice ? parseFloat(swapResult.executionPrice) : 0,
         gasUsed: swapResult.gasUsed,
         error: swapResult.error,
+        paper: swapResult.paper,
       };
     } else {
       throw new TradingError('Invalid action', 'INVALID_ACTION');
     }
 
+    if (result.success && result.txHash && !result.paper && CONFIG.MEV_FORENSICS_ENABLED) {
+      result.mev = await analyzeFill(result.txHash, params, notionalBNB, quotedOut);
+    }
+
     if (result.success) {
       logger.info(`✅ Trade executed successfully!`);
       logger.info(`  TX Hash: ${result.txHash}`);
@@ -187,6 +319,7 @@ export async function executeTrade(params: TradeParams): Promise<TradeResult> {
       amountOut: '0',
       actualPrice: 0,
       error: (error as Error).message,
+      paper: isPaperTrading() || undefined,
     };
   }
 }
@@ -276,7 +409,8 @@ export class TradeExecutor {
         amountIn: params.amountBNB.toString(),
         amountOut: '0',
         actualPrice: 0,
-        error: errorMessage
+        error: errorMessage,
+        paper: isPaperTrading() || undefined,
       };
     }
   }
@@ -290,15 +424,32 @@ export class TradeExecutor {
   }
 
   /**
-   * Simulate a trade without executing
+   * Simulate a trade without executing: validation, quote, then the exact swap run
+   * on a fork or through eth_call (revert reason, output vs quote, taxes, gas)
    */
-  async simulateTrade(params: TradeParams): Promise<{ success: boolean; error?: string; quote?: any }> {
+  async simulateTrade(params: TradeParams): Promise<{ success: boolean; error?: string; quote?: any; simulation?: PreflightResult }> {
     try {
       await this.initialize();
       await this.validateTrade(params);
-      const quote = await this.getTradeQuote(params);
-      
-      return { success: true, quote };
+
+      let quote: any;
+      let simulation: PreflightResult | null;
+      if (params.action === 'buy') {
+        quote = await this.getTradeQuote(params);
+        simulation = await preflightTrade('buy', params.tokenAddress, params.amountBNB, quote.expectedTokens);
+      } else {
+        // Priced at the sell size, as executeTrade does
+        const tokens = params.tokenAmount ?? await getTokenBalance(params.tokenAddress);
+        quote = await this.pancakeSwap.getSellQuote(params.tokenAddress, tokens);
+        simulation = await preflightTrade('sell', params.tokenAddress, tokens, quote.expectedBNB);
+      }
+
+      return {
+        success: !simulation || simulation.ok,
+        error: simulation && !simulation.ok ? simulation.reasons.join('; ') : undefined,
+        quote,
+        simulation: simulation ?? undefined,
+      };
       
     } catch (error) {
       return { 
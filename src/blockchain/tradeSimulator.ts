@@ -0,0 +1,585 @@
+/**
+ * Pre-flight Trade Simulation
+ * Runs the exact swap transaction before it is broadcast and checks what it really does.
+ * - fork: against a local anvil / hardhat node forking RPC_URL (see hardhat.config.ts and
+ *   foundry.toml), re-forked at the latest block for every run. The swap is mined on the
+ *   fork and, for buys, sold straight back, so revert reasons, tokens received, transfer
+ *   taxes on both legs and gas are measured from balances.
+ * - call: eth_call with state overrides against RPC_URL. Covers reverts, router output and
+ *   gas; the sell-back runs with the token's balance and allowance slots overridden, so the
+ *   sell tax is measured but the buy tax is not.
+ * A sell-back that reverts or returns nothing marks the token as a honeypot. A sell whose
+ * token storage layout is not recognised runs from the wallet's real balance and allowance;
+ * if that reverts the run is inconclusive and never blocks the exit.
+ */
+
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { CONFIG } from '../config';
+import { PANCAKE_V3_FACTORY } from '../dex/priceImpact';
+import { encodeExactInputSingle, type PreparedSwap } from './pancakeSwapIntegration';
+
+// PancakeSwap V3 QuoterV2 (same address on BSC and opBNB)
+const PANCAKE_V3_QUOTER = '0xB048Bbc1Ee6b733FFfCFb9e9CeF7375518e25997';
+const GAS_ALLOWANCE_WEI = ethers.parseEther('1'); // extra BNB given to the sender for gas
+const SIM_GAS_LIMIT = 1_000_000n;
+const SLOT_SEARCH_LIMIT = 20;
+const PROBE_VALUE = ethers.zeroPadValue('0x5151a7e0', 32);
+
+// Sender used when no wallet is configured (nothing is signed, so any address works)
+export const DEFAULT_SIMULATION_SENDER = '0x00000000000000000000000000000000005151a7';
+
+const erc20 = new ethers.Interface([
+  'function balanceOf(address account) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+]);
+const factory = new ethers.Interface([
+  'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)',
+]);
+const quoter = new ethers.Interface([
+  'function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+]);
+const router = new ethers.Interface([
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96)) payable returns (uint256 amountOut)',
+]);
+
+export type SimulationMode = 'fork' | 'call' | 'off';
+
+/**
+ * JSON-RPC access the simulator needs (ethers.JsonRpcProvider fits)
+ */
+export interface SimulationRpc {
+  send(method: string, params: unknown[]): Promise<any>;
+}
+
+export interface SimulationRequest {
+  action: 'buy' | 'sell';
+  from: string;
+  swap: PreparedSwap;
+  expectedOut: bigint; // quoted output: tokens for buys, WBNB for sells (raw units)
+}
+
+export interface SwapSimulation {
+  mode: 'fork' | 'call';
+  reverted: boolean;
+  revertReason?: string;
+  amountOut: bigint; // received by the sender (fork) or returned by the router (call)
+  gasUsed?: bigint;
+  buyTaxPercent?: number;
+  sellTaxPercent?: number;
+  honeypot?: boolean; // undefined when the sell-back could not be simulated
+  honeypotReason?: string;
+  inconclusive?: string; // why the run says nothing about the swap; no revert or output verdict
+}
+
+export interface PreflightLimits {
+  maxDeviationPercent: number; // simulated output below the quote
+  maxTaxPercent: number; // per leg
+  requireHoneypotCheck: boolean; // block when the sell-back could not be simulated
+}
+
+export interface PreflightResult extends SwapSimulation {
+  ok: boolean;
+  expectedOut: bigint;
+  deviationPercent: number;
+  reasons: string[];
+}
+
+interface TokenSlots {
+  balance: string;
+  allowance: string;
+}
+
+/**
+ * Human-readable revert reason from revert data (Error(string), Panic(uint256) or a custom error selector)
+ */
+export function decodeRevertReason(data?: string | null): string {
+  if (!data || data === '0x') return 'reverted without a reason';
+
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  try {
+    if (data.startsWith('0x08c379a0')) {
+      return coder.decode(['string'], ethers.dataSlice(data, 4))[0] as string;
+    }
+    if (data.startsWith('0x4e487b71')) {
+      return `panic 0x${(coder.decode(['uint256'], ethers.dataSlice(data, 4))[0] as bigint).toString(16)}`;
+    }
+  } catch {
+    // fall through to the raw selector
+  }
+  return `custom error ${data.slice(0, 10)}`;
+}
+
+/**
+ * Storage slot of mapping[key] for a mapping declared at `slot`.
+ * Solidity hashes key then slot; Vyper hashes slot then key.
+ */
+export function mappingSlot(key: string, slot: bigint, layout: 'solidity' | 'vyper' = 'solidity'): string {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  return layout === 'solidity'
+    ? ethers.keccak256(coder.encode(['address', 'uint256'], [key, slot]))
+    : ethers.keccak256(coder.encode(['uint256', 'address'], [slot, key]));
+}
+
+/**
+ * Compare a simulation with the quote and the configured limits
+ */
+export function evaluateSimulation(simulation: SwapSimulation, expectedOut: bigint, limits: PreflightLimits): PreflightResult {
+  const reasons: string[] = [];
+  const deviationPercent = expectedOut > 0n
+    ? (1 - Number(simulation.amountOut) / Number(expectedOut)) * 100
+    : 0;
+
+  if (simulation.inconclusive) {
+    // Nothing to judge; only requireHoneypotCheck below can still block
+  } else if (simulation.reverted) {
+    reasons.push(`swap reverts: ${simulation.revertReason || 'unknown reason'}`);
+  } else if (deviationPercent > limits.maxDeviationPercent) {
+    reasons.push(`simulated output ${deviationPercent.toFixed(2)}% below quote (limit ${limits.maxDeviationPercent}%)`);
+  }
+
+  if (simulation.honeypot) {
+    reasons.push(`honeypot: ${simulation.honeypotReason || 'sell-back failed'}`);
+  } else if (simulation.honeypot === undefined && limits.requireHoneypotCheck) {
+    reasons.push(`honeypot check unavailable: ${simulation.honeypotReason || 'sell-back not simulated'}`);
+  }
+
+  for (const [leg, tax] of [['buy', simulation.buyTaxPercent], ['sell', simulation.sellTaxPercent]] as const) {
+    if (tax !== undefined && tax > limits.maxTaxPercent) {
+      reasons.push(`${leg} tax ${tax.toFixed(2)}% (limit ${limits.maxTaxPercent}%)`);
+    }
+  }
+
+  return { ...simulation, ok: reasons.length === 0, expectedOut, deviationPercent, reasons };
+}
+
+function revertData(error: unknown): string | undefined {
+  const e = error as { data?: unknown; info?: { error?: { data?: unknown } }; error?: { data?: unknown } };
+  const data = e.data ?? e.info?.error?.data ?? e.error?.data;
+  return typeof data === 'string' ? data : undefined;
+}
+
+function revertReasonOf(error: unknown): string {
+  const data = revertData(error);
+  return data ? decodeRevertReason(data) : (error as { shortMessage?: string }).shortMessage || (error as Error).message;
+}
+
+function taxPercent(sent: bigint, arrived: bigint): number | undefined {
+  if (sent <= 0n) return undefined;
+  return Math.max(0, (1 - Number(arrived) / Number(sent)) * 100);
+}
+
+/**
+ * Runs swaps on a fork or through eth_call and judges the outcome
+ */
+export class TradeSimulator {
+  private slots: Map<string, TokenSlots | null> = new Map();
+  private pools: Map<string, string> = new Map();
+  // The fork is shared state; runs on it never overlap
+  private forkQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    readonly mode: SimulationMode = CONFIG.SIM_MODE,
+    private rpc: SimulationRpc = new ethers.JsonRpcProvider(mode === 'fork' ? CONFIG.SIM_FORK_RPC_URL : CONFIG.RPC_URL),
+    private upstreamUrl: string = CONFIG.RPC_URL
+  ) {}
+
+  get enabled(): boolean {
+    return this.mode !== 'off';
+  }
+
+  /**
+   * Simulate and evaluate. Failures of the simulation itself block buys too; sells go ahead.
+   */
+  async preflight(request: SimulationRequest, limits: PreflightLimits): Promise<PreflightResult> {
+    try {
+      const simulation = await this.simulate(request);
+      const result = evaluateSimulation(simulation, request.expectedOut, limits);
+
+      const taxes = [
+        simulation.buyTaxPercent !== undefined ? `buy tax ${simulation.buyTaxPercent.toFixed(2)}%` : null,
+        simulation.sellTaxPercent !== undefined ? `sell tax ${simulation.sellTaxPercent.toFixed(2)}%` : null,
+      ].filter(Boolean).join(', ');
+      if (simulation.inconclusive) {
+        logger.warn(`⚠️  Pre-flight (${simulation.mode}) inconclusive: ${simulation.inconclusive}`);
+        return result;
+      }
+      logger.info(
+        `  🧪 Pre-flight (${simulation.mode}): ${result.ok ? 'passed' : 'BLOCKED'} - ` +
+        `deviation ${result.deviationPercent.toFixed(2)}%${taxes ? `, ${taxes}` : ''}` +
+        `${simulation.gasUsed !== undefined ? `, gas ${simulation.gasUsed}` : ''}`
+      );
+      return result;
+    } catch (error) {
+      logger.warn(`⚠️  Pre-flight simulation failed: ${(error as Error).message}`);
+      // Never hold an exit back because the simulation itself could not run
+      if (request.action === 'sell') {
+        return {
+          mode: this.mode === 'fork' ? 'fork' : 'call',
+          reverted: false,
+          amountOut: 0n,
+          inconclusive: `simulation unavailable: ${(error as Error).message}`,
+          ok: true,
+          expectedOut: request.expectedOut,
+          deviationPercent: 0,
+          reasons: [],
+        };
+      }
+      return {
+        mode: this.mode === 'fork' ? 'fork' : 'call',
+        reverted: false,
+        amountOut: 0n,
+        ok: false,
+        expectedOut: request.expectedOut,
+        deviationPercent: 100,
+        reasons: [`simulation unavailable: ${(error as Error).message}`],
+      };
+    }
+  }
+
+  async simulate(request: SimulationRequest): Promise<SwapSimulation> {
+    if (this.mode === 'off') {
+      throw new Error('Trade simulation is disabled (SIM_MODE=off)');
+    }
+    if (this.mode === 'call') {
+      return this.simulateWithCalls(request);
+    }
+
+    const run = this.forkQueue.then(() => this.simulateOnFork(request));
+    this.forkQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Fork mode
+  // ---------------------------------------------------------------------------
+
+  private async simulateOnFork(request: SimulationRequest): Promise<SwapSimulation> {
+    const { action, from, swap } = request;
+    const token = action === 'buy' ? swap.tokenOut : swap.tokenIn;
+    const wbnb = action === 'buy' ? swap.tokenIn : swap.tokenOut;
+
+    await this.rpc.send('hardhat_reset', [{ forking: { jsonRpcUrl: this.upstreamUrl } }]);
+    await this.rpc.send('hardhat_impersonateAccount', [from]);
+
+    try {
+      await this.rpc.send('hardhat_setBalance', [from, ethers.toQuantity(swap.value + GAS_ALLOWANCE_WEI)]);
+      const pool = await this.poolAddress(swap);
+
+      if (action === 'sell') {
+        await this.fundTokens(token, from, swap.to, swap.amountIn);
+        await this.sendTransaction(from, { to: token, data: erc20.encodeFunctionData('approve', [swap.to, ethers.MaxUint256]) });
+        const sell = await this.forkLeg(from, swap, token, wbnb, pool);
+        return {
+          mode: 'fork',
+          reverted: sell.reverted,
+          revertReason: sell.revertReason,
+          amountOut: sell.wbnbDelta,
+          gasUsed: sell.gasUsed,
+          sellTaxPercent: sell.reverted ? undefined : taxPercent(-sell.tokenDelta, sell.poolTokenDelta),
+          honeypot: sell.reverted ? true : sell.wbnbDelta <= 0n,
+          honeypotReason: sell.reverted ? sell.revertReason : undefined,
+        };
+      }
+
+      const buy = await this.forkLeg(from, swap, token, wbnb, pool);
+      if (buy.reverted) {
+        return { mode: 'fork', reverted: true, revertReason: buy.revertReason, amountOut: 0n, honeypotReason: 'buy reverted' };
+      }
+
+      const received = buy.tokenDelta;
+      const result: SwapSimulation = {
+        mode: 'fork',
+        reverted: false,
+        amountOut: received,
+        gasUsed: buy.gasUsed,
+        buyTaxPercent: taxPercent(-buy.poolTokenDelta, received),
+      };
+      if (received <= 0n) {
+        return { ...result, honeypot: true, honeypotReason: 'no tokens received' };
+      }
+
+      // Sell everything back through the same pool
+      await this.sendTransaction(from, { to: token, data: erc20.encodeFunctionData('approve', [swap.to, ethers.MaxUint256]) });
+      const sellTx = encodeExactInputSingle(
+        swap.to,
+        { tokenIn: token, tokenOut: wbnb, fee: swap.fee, amountIn: received, amountOutMinimum: 0n },
+        from,
+        false
+      );
+      const sell = await this.forkLeg(from, sellTx, token, wbnb, pool);
+
+      return {
+        ...result,
+        sellTaxPercent: sell.reverted ? undefined : taxPercent(received, sell.poolTokenDelta),
+        honeypot: sell.reverted || sell.wbnbDelta <= 0n,
+        honeypotReason: sell.reverted ? `sell-back reverts: ${sell.revertReason}` : sell.wbnbDelta <= 0n ? 'sell-back returned nothing' : undefined,
+      };
+    } finally {
+      await this.rpc.send('hardhat_stopImpersonatingAccount', [from]).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Mine one swap on the fork and measure balance changes around it
+   */
+  private async forkLeg(
+    from: string,
+    tx: { to: string; data: string; value: bigint },
+    token: string,
+    wbnb: string,
+    pool: string
+  ) {
+    const balances = () => Promise.all([
+      this.balanceOf(token, from),
+      this.balanceOf(token, pool),
+      this.balanceOf(wbnb, from),
+    ]);
+
+    const [tokenBefore, poolBefore, wbnbBefore] = await balances();
+    const sent = await this.sendTransaction(from, tx);
+    if (sent.reverted) {
+      return { ...sent, tokenDelta: 0n, poolTokenDelta: 0n, wbnbDelta: 0n };
+    }
+    const [tokenAfter, poolAfter, wbnbAfter] = await balances();
+
+    return {
+      ...sent,
+      tokenDelta: tokenAfter - tokenBefore,
+      poolTokenDelta: poolAfter - poolBefore,
+      wbnbDelta: wbnbAfter - wbnbBefore,
+    };
+  }
+
+  /**
+   * Send from an impersonated account. The call is tried first so a revert
+   * is reported with its reason rather than as a failed receipt.
+   */
+  private async sendTransaction(
+    from: string,
+    tx: { to: string; data: string; value?: bigint }
+  ): Promise<{ reverted: boolean; revertReason?: string; gasUsed?: bigint }> {
+    const request = { from, to: tx.to, data: tx.data, value: ethers.toQuantity(tx.value ?? 0n), gas: ethers.toQuantity(SIM_GAS_LIMIT) };
+
+    try {
+      await this.rpc.send('eth_call', [request, 'latest']);
+    } catch (error) {
+      return { reverted: true, revertReason: revertReasonOf(error) };
+    }
+
+    const hash = await this.rpc.send('eth_sendTransaction', [request]);
+    const receipt = await this.rpc.send('eth_getTransactionReceipt', [hash]);
+    if (!receipt || BigInt(receipt.status) !== 1n) {
+      return { reverted: true, revertReason: 'transaction failed on the fork', gasUsed: receipt ? BigInt(receipt.gasUsed) : undefined };
+    }
+    return { reverted: false, gasUsed: BigInt(receipt.gasUsed) };
+  }
+
+  /**
+   * Give the sender enough tokens on the fork when its real balance is short
+   */
+  private async fundTokens(token: string, owner: string, spender: string, amount: bigint): Promise<void> {
+    if (await this.balanceOf(token, owner) >= amount) return;
+
+    const slots = await this.tokenSlots(token, owner, spender);
+    if (!slots) {
+      throw new Error(`Cannot fund ${token} on the fork: balance storage slot not found`);
+    }
+    await this.rpc.send('hardhat_setStorageAt', [token, slots.balance, ethers.zeroPadValue(ethers.toBeHex(amount), 32)]);
+  }
+
+  // ---------------------------------------------------------------------------
+  // eth_call mode
+  // ---------------------------------------------------------------------------
+
+  private async simulateWithCalls(request: SimulationRequest): Promise<SwapSimulation> {
+    const { action, from, swap } = request;
+    const token = action === 'buy' ? swap.tokenOut : swap.tokenIn;
+    const wbnb = action === 'buy' ? swap.tokenIn : swap.tokenOut;
+    const senderOverride = { balance: ethers.toQuantity(swap.value + GAS_ALLOWANCE_WEI) };
+
+    if (action === 'sell') {
+      // Without the storage layout the sell runs from the wallet as it really is
+      const slots = await this.tokenSlots(token, from, swap.to);
+      const overrides = {
+        [from]: senderOverride,
+        ...(slots ? { [token]: { stateDiff: this.holdingOverride(slots, swap.amountIn) } } : {}),
+      };
+      const sell = await this.callSwap(from, swap, overrides);
+      if (sell.reverted && !slots) {
+        // Missing approval or balance on the real wallet, not evidence about the token
+        return {
+          mode: 'call',
+          ...sell,
+          honeypotReason: 'token storage layout not recognised',
+          inconclusive: `sell reverts from the wallet's real balance and allowance: ${sell.revertReason}`,
+        };
+      }
+      const gross = sell.reverted ? 0n : await this.quote(token, wbnb, swap.fee, swap.amountIn);
+
+      return {
+        mode: 'call',
+        ...sell,
+        sellTaxPercent: sell.reverted || gross === 0n ? undefined : taxPercent(gross, sell.amountOut),
+        honeypot: sell.reverted ? true : sell.amountOut <= 0n,
+        honeypotReason: sell.reverted ? sell.revertReason : undefined,
+      };
+    }
+
+    const buy = await this.callSwap(from, swap, { [from]: senderOverride });
+    if (buy.reverted) {
+      return { mode: 'call', ...buy, honeypotReason: 'buy reverted' };
+    }
+
+    // Sell-back: pretend the sender holds the bought tokens and has approved the router
+    const slots = await this.tokenSlots(token, from, swap.to);
+    if (!slots) {
+      return { mode: 'call', ...buy, honeypotReason: 'token storage layout not recognised' };
+    }
+
+    const sellTx = encodeExactInputSingle(
+      swap.to,
+      { tokenIn: token, tokenOut: wbnb, fee: swap.fee, amountIn: buy.amountOut, amountOutMinimum: 0n },
+      from,
+      false
+    );
+    const sell = await this.callSwap(from, sellTx, {
+      [from]: senderOverride,
+      [token]: { stateDiff: this.holdingOverride(slots, buy.amountOut) },
+    });
+    const gross = sell.reverted ? 0n : await this.quote(token, wbnb, swap.fee, buy.amountOut);
+
+    return {
+      mode: 'call',
+      ...buy,
+      sellTaxPercent: sell.reverted || gross === 0n ? undefined : taxPercent(gross, sell.amountOut),
+      honeypot: sell.reverted || sell.amountOut <= 0n,
+      honeypotReason: sell.reverted ? `sell-back reverts: ${sell.revertReason}` : sell.amountOut <= 0n ? 'sell-back returned nothing' : undefined,
+    };
+  }
+
+  private async callSwap(
+    from: string,
+    tx: { to: string; data: string; value: bigint },
+    overrides: Record<string, unknown>
+  ): Promise<{ reverted: boolean; revertReason?: string; amountOut: bigint; gasUsed?: bigint }> {
+    const request = { from, to: tx.to, data: tx.data, value: ethers.toQuantity(tx.value), gas: ethers.toQuantity(SIM_GAS_LIMIT) };
+
+    let amountOut: bigint;
+    try {
+      const raw = await this.rpc.send('eth_call', [request, 'latest', overrides]);
+      amountOut = router.decodeFunctionResult('exactInputSingle', raw)[0] as bigint;
+    } catch (error) {
+      return { reverted: true, revertReason: revertReasonOf(error), amountOut: 0n };
+    }
+
+    // Not every node accepts overrides on eth_estimateGas
+    const gasUsed = await this.rpc.send('eth_estimateGas', [{ ...request, gas: undefined }, 'latest', overrides])
+      .then(BigInt)
+      .catch(() => undefined);
+
+    return { reverted: false, amountOut, gasUsed };
+  }
+
+  /**
+   * Pool output before any transfer tax on the input side
+   */
+  private async quote(tokenIn: string, tokenOut: string, fee: number, amountIn: bigint): Promise<bigint> {
+    try {
+      const raw = await this.rpc.send('eth_call', [{
+        to: PANCAKE_V3_QUOTER,
+        data: quoter.encodeFunctionData('quoteExactInputSingle', [{ tokenIn, tokenOut, amountIn, fee, sqrtPriceLimitX96: 0 }]),
+      }, 'latest']);
+      return quoter.decodeFunctionResult('quoteExactInputSingle', raw)[0] as bigint;
+    } catch {
+      return 0n;
+    }
+  }
+
+  private holdingOverride(slots: TokenSlots, amount: bigint): Record<string, string> {
+    return {
+      [slots.balance]: ethers.zeroPadValue(ethers.toBeHex(amount), 32),
+      [slots.allowance]: ethers.zeroPadValue(ethers.toBeHex(ethers.MaxUint256), 32),
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Shared helpers
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Locate the balanceOf and allowance storage slots by probing eth_call with overrides
+   */
+  private async tokenSlots(token: string, owner: string, spender: string): Promise<TokenSlots | null> {
+    const key = `${token}:${owner}:${spender}`.toLowerCase();
+    if (this.slots.has(key)) return this.slots.get(key)!;
+
+    const probe = async (data: string, slotFor: (index: bigint, layout: 'solidity' | 'vyper') => string) => {
+      for (const layout of ['solidity', 'vyper'] as const) {
+        for (let index = 0n; index < BigInt(SLOT_SEARCH_LIMIT); index++) {
+          const slot = slotFor(index, layout);
+          try {
+            const raw = await this.rpc.send('eth_call', [{ to: token, data }, 'latest', { [token]: { stateDiff: { [slot]: PROBE_VALUE } } }]);
+            if (BigInt(raw) === BigInt(PROBE_VALUE)) return slot;
+          } catch {
+            return null;
+          }
+        }
+      }
+      return null;
+    };
+
+    const balance = await probe(
+      erc20.encodeFunctionData('balanceOf', [owner]),
+      (index, layout) => mappingSlot(owner, index, layout)
+    );
+    const allowance = balance && await probe(
+      erc20.encodeFunctionData('allowance', [owner, spender]),
+      (index, layout) => mappingSlot(spender, BigInt(mappingSlot(owner, index, layout)), layout)
+    );
+
+    const slots = balance && allowance ? { balance, allowance } : null;
+    this.slots.set(key, slots);
+    return slots;
+  }
+
+  private async poolAddress(swap: PreparedSwap): Promise<string> {
+    const key = `${swap.tokenIn}:${swap.tokenOut}:${swap.fee}`.toLowerCase();
+    const cached = this.pools.get(key);
+    if (cached) return cached;
+
+    const raw = await this.rpc.send('eth_call', [{
+      to: PANCAKE_V3_FACTORY,
+      data: factory.encodeFunctionData('getPool', [swap.tokenIn, swap.tokenOut, swap.fee]),
+    }, 'latest']);
+    const pool = factory.decodeFunctionResult('getPool', raw)[0] as string;
+    if (pool === ethers.ZeroAddress) {
+      throw new Error(`No V3 pool for ${swap.tokenIn}/${swap.tokenOut} at fee ${swap.fee}`);
+    }
+
+    this.pools.set(key, pool);
+    return pool;
+  }
+
+  private async balanceOf(token: string, owner: string): Promise<bigint> {
+    const raw = await this.rpc.send('eth_call', [{ to: token, data: erc20.encodeFunctionData('balanceOf', [owner]) }, 'latest']);
+    return BigInt(raw);
+  }
+}
+
+let tradeSimulator: TradeSimulator | null = null;
+
+export function getTradeSimulator(): TradeSimulator {
+  if (!tradeSimulator) {
+    tradeSimulator = new TradeSimulator();
+  }
+  return tradeSimulator;
+}
+
+/**
+ * Reset the singleton (useful for testing)
+ */
+export function resetTradeSimulator(): void {
+  tradeSimulator = null;
+}
@@ -3,16 +3,17 @@
  * Handles cross-chain memory storage, batch uploads, and analytics
  */
 
-import { Client } from '@bnb-chain/greenfield-js-sdk';
-import { VisibilityType } from '@bnb-chain/greenfield-js-sdk';
-import Long from 'long';
-import { ethers } from 'ethers';
+import path from 'path';
 import { logger } from '../utils/logger.js';
 import { CONFIG } from '../config.js';
+import { createMemoryStore, scheduleKeyRotation } from './memoryStore.js';
+import { MemoryUploadQueue } from './memoryUploadQueue.js';
+import { MemoryVectorIndex } from '../ai/memoryIndex.js';
 import type {
   ImmortalMemory,
   UnifiedMemoryAnalysis,
   MemoryQueryFilters,
+  SimilarMemory,
   BatchUploadConfig,
   SyncStatus,
   PlatformStats,
@@ -22,50 +23,59 @@ import type {
 } from '../types/unifiedMemory.js';
 
 // Greenfield configuration
-const GREENFIELD_RPC_URL = CONFIG.GREENFIELD_RPC_URL;
-const GREENFIELD_CHAIN_ID = CONFIG.GREENFIELD_CHAIN_ID;
 const BUCKET_NAME = CONFIG.GREENFIELD_BUCKET_NAME || 'immortal-trading-memories';
-const ACCOUNT_PRIVATE_KEY = CONFIG.WALLET_PRIVATE_KEY;
 
-// In-memory cache for pending uploads
-const pendingUploads: ImmortalMemory[] = [];
-const uploadQueue: ImmortalMemory[] = [];
 let syncInProgress = false;
+let lastSyncTimestamp = 0;
+let totalSynced = 0;
+let retryTimer: NodeJS.Timeout | null = null;
+const recentErrors: string[] = [];
+const MAX_RECENT_ERRORS = 20;
 
 // Batch upload configuration
 const BATCH_CONFIG: BatchUploadConfig = {
   maxBatchSize: 10,
   retryAttempts: 3,
   retryDelay: 2000,
-  compression: false,
-  encryption: false,
+  compression: CONFIG.MEMORY_COMPRESSION !== 'none',
+  encryption: CONFIG.MEMORY_ENCRYPTION,
 };
 
-// Greenfield client
-let client: Client;
+// Greenfield bucket, or a local directory / SQLite file depending on MEMORY_STORE_BACKEND
+const store = createMemoryStore(BUCKET_NAME);
+
+// Queued memories are written ahead to disk so a crash before upload loses nothing
+const uploadQueue = new MemoryUploadQueue(CONFIG.MEMORY_WAL_PATH, BATCH_CONFIG);
+
+// Similarity index over all memories, persisted so restarts only embed new ones
+const memoryIndex = new MemoryVectorIndex();
+const MEMORY_INDEX_PATH = path.join(CONFIG.MEMORY_INDEX_DIR, 'unified-memories.json');
+let memoryIndexLoaded = false;
 
 /**
- * Initialize Greenfield client
+ * Replay the write-ahead log and upload anything left over from the last run
  */
-async function initClient(): Promise<Client> {
-  if (!client) {
-    client = Client.create(GREENFIELD_RPC_URL, GREENFIELD_CHAIN_ID);
-    logger.info('✅ Unified memory storage client initialized');
+export async function initializeUnifiedMemoryStorage(): Promise<void> {
+  scheduleKeyRotation(store);
+  uploadQueue.load();
+  const { queueDepth, deadLetters } = uploadQueue.stats();
+  if (queueDepth > 0) {
+    logger.info(`🔄 Resuming ${queueDepth} queued memory upload(s) (${deadLetters} dead-lettered)`);
+    await processBatchUpload();
   }
-  return client;
 }
 
 /**
- * Store a unified memory to Greenfield
+ * Store a unified memory (queued, then uploaded in batches)
  */
 export async function storeUnifiedMemory(memory: ImmortalMemory): Promise<boolean> {
   try {
-    // Add to upload queue
-    uploadQueue.push(memory);
+    // Durable once this resolves
+    await uploadQueue.enqueue(memory);
     logger.info(`📝 Memory queued for upload: ${memory.id} (${memory.platform})`);
 
     // If batch is ready, trigger upload
-    if (uploadQueue.length >= BATCH_CONFIG.maxBatchSize) {
+    if (uploadQueue.due(BATCH_CONFIG.maxBatchSize).length >= BATCH_CONFIG.maxBatchSize) {
       await processBatchUpload();
     }
 
@@ -77,26 +87,38 @@ export async function storeUnifiedMemory(memory: ImmortalMemory): Promise<boolea
 }
 
 /**
- * Process batch upload to Greenfield
+ * Process batch upload to Greenfield.
+ * `force` uploads everything queued at once, ignoring batch size and retry backoff.
  */
-export async function processBatchUpload(): Promise<void> {
-  if (syncInProgress || uploadQueue.length === 0) {
+export async function processBatchUpload(force: boolean = false): Promise<void> {
+  const batch = force
+    ? uploadQueue.list()
+    : uploadQueue.due(BATCH_CONFIG.maxBatchSize);
+  if (syncInProgress || batch.length === 0) {
     return;
   }
 
   syncInProgress = true;
-  logger.info(`🔄 Processing batch upload: ${uploadQueue.length} memories`);
+  logger.info(`🔄 Processing batch upload: ${batch.length} of ${uploadQueue.stats().queueDepth} memories`);
 
   try {
-    const batch = uploadQueue.splice(0, BATCH_CONFIG.maxBatchSize);
-
-    for (const memory of batch) {
+    for (const { memory } of batch) {
       try {
         await uploadSingleMemory(memory);
+        await uploadQueue.markUploaded(memory.id);
+        lastSyncTimestamp = Date.now();
+        totalSynced++;
         logger.info(`✅ Uploaded memory: ${memory.id}`);
       } catch (error) {
-        logger.error(`❌ Failed to upload memory ${memory.id}:`, error);
-        pendingUploads.push(memory);
+        const message = (error as Error).message;
+        recordError(`${memory.id}: ${message}`);
+
+        const outcome = await uploadQueue.markFailed(memory.id, message);
+        if (outcome === 'dead') {
+          logger.error(`☠️  Memory ${memory.id} dead-lettered after ${BATCH_CONFIG.retryAttempts} attempts: ${message}`);
+        } else {
+          logger.error(`❌ Failed to upload memory ${memory.id} (will retry):`, error);
+        }
       }
     }
 
@@ -105,121 +127,217 @@ export async function processBatchUpload(): Promise<void> {
     logger.error('Error processing batch upload:', error);
   } finally {
     syncInProgress = false;
+    scheduleRetry();
+  }
+}
+
+/**
+ * Wake up when the earliest backed-off entry is due again
+ */
+function scheduleRetry(): void {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+
+  const { nextRetryAt } = uploadQueue.stats();
+  if (nextRetryAt === null) return;
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    processBatchUpload().catch(error => logger.error('Error retrying batch upload:', error));
+  }, Math.max(0, nextRetryAt - Date.now()));
+  // Never keep the process alive just to retry uploads
+  retryTimer.unref?.();
+}
+
+function recordError(message: string): void {
+  recentErrors.push(message);
+  if (recentErrors.length > MAX_RECENT_ERRORS) {
+    recentErrors.shift();
   }
 }
 
 /**
- * Upload a single memory to Greenfield
+ * Upload a single memory to the memory store.
+ * Idempotent: a crash between the upload and its WAL ack replays the entry, and
+ * Greenfield refuses to create an object that already exists.
  */
 async function uploadSingleMemory(memory: ImmortalMemory): Promise<void> {
-  if (!ACCOUNT_PRIVATE_KEY) {
+  if (!store.isAvailable()) {
     throw new Error('No wallet private key configured');
   }
 
-  const greenfieldClient = await initClient();
-  const wallet = new ethers.Wallet(ACCOUNT_PRIVATE_KEY);
   const objectName = memory.storage.greenfieldObjectName;
+  try {
+    await store.put(objectName, JSON.stringify(memory, null, 2));
+  } catch (error) {
+    // Only readable objects count: one created but never uploaded still needs the retry
+    if (!/already exists/i.test((error as Error).message) || await store.get(objectName).catch(() => null) === null) {
+      throw error;
+    }
+    logger.info(`📦 Memory ${memory.id} was already uploaded`);
+  }
+}
 
-  // Convert memory to JSON
-  const content = JSON.stringify(memory, null, 2);
-  const contentBuffer = Buffer.from(content, 'utf-8');
-
-  // Create object transaction
-  const createObjectTx = await greenfieldClient.object.createObject({
-    bucketName: BUCKET_NAME,
-    objectName: objectName,
-    creator: wallet.address,
-    visibility: VisibilityType.VISIBILITY_TYPE_PUBLIC_READ,
-    contentType: 'application/json',
-    redundancyType: 0, // REDUNDANCY_EC_TYPE
-    payloadSize: Long.fromNumber(contentBuffer.length),
-    expectChecksums: [new Uint8Array()],
-  });
+/**
+ * Load every uploaded memory from the store
+ */
+async function loadStoredMemories(): Promise<ImmortalMemory[]> {
+  if (!store.isAvailable()) {
+    return [];
+  }
 
-  // Simulate and broadcast
-  const simulateInfo = await createObjectTx.simulate({ denom: 'BNB' });
-  const broadcastRes = await createObjectTx.broadcast({
-    denom: 'BNB',
-    gasLimit: Number(simulateInfo.gasLimit),
-    gasPrice: simulateInfo.gasPrice || '5000000000',
-    payer: wallet.address,
-    granter: '',
-    privateKey: ACCOUNT_PRIVATE_KEY,
-  });
+  const objectNames = (await store.list()).filter(name => name.endsWith('.json'));
+  const memories: ImmortalMemory[] = [];
 
-  if (broadcastRes.code !== 0) {
-    throw new Error(`Object creation failed: ${broadcastRes.rawLog}`);
+  for (const objectName of objectNames) {
+    try {
+      const content = await store.get(objectName);
+      const memory = content ? JSON.parse(content) : null;
+      // The bucket is shared with legacy trade memories, which have no platform/storage block
+      if (memory?.platform && memory?.storage) {
+        memories.push(memory);
+      }
+    } catch (error) {
+      logger.warn(`⚠️  Skipping unreadable memory ${objectName}: ${(error as Error).message}`);
+    }
   }
 
-  // Upload object content
-  await greenfieldClient.object.uploadObject(
-    {
-      bucketName: BUCKET_NAME,
-      objectName: objectName,
-      body: new File([contentBuffer], objectName, { type: 'application/json' }),
-      txnHash: broadcastRes.transactionHash,
-    },
-    {
-      type: 'ECDSA',
-      privateKey: ACCOUNT_PRIVATE_KEY,
-    }
-  );
+  return memories;
 }
 
 /**
- * Query unified memories with filters
+ * Uploaded memories plus those still waiting in the queue, newest first
  */
-export async function queryUnifiedMemories(filters: MemoryQueryFilters = {}): Promise<ImmortalMemory[]> {
-  try {
-    logger.info('🔍 Querying unified memories with filters:', filters);
+async function loadAllMemories(): Promise<ImmortalMemory[]> {
+  const byId = new Map<string, ImmortalMemory>();
+  for (const memory of [...(await loadStoredMemories()), ...uploadQueue.list().map(entry => entry.memory)]) {
+    byId.set(memory.id, memory);
+  }
+  return Array.from(byId.values()).sort((a, b) => b.timestamp - a.timestamp);
+}
 
-    // This would query Greenfield for all memories
-    // For now, we'll return cached/queued memories as example
-    const allMemories = [...pendingUploads, ...uploadQueue];
+function applyFilters(memories: ImmortalMemory[], filters: MemoryQueryFilters): ImmortalMemory[] {
+  let filtered = memories;
 
-    // Apply filters
-    let filtered = allMemories;
+  if (filters.platform) {
+    filtered = filtered.filter(m => m.platform === filters.platform);
+  }
 
-    if (filters.platform) {
-      filtered = filtered.filter(m => m.platform === filters.platform);
-    }
+  if (filters.chain) {
+    filtered = filtered.filter(m => m.chain === filters.chain);
+  }
 
-    if (filters.chain) {
-      filtered = filtered.filter(m => m.chain === filters.chain);
-    }
+  if (filters.type) {
+    filtered = filtered.filter(m => m.type === filters.type);
+  }
 
-    if (filters.type) {
-      filtered = filtered.filter(m => m.type === filters.type);
-    }
+  if (filters.outcome) {
+    filtered = filtered.filter(m => m.outcome.status === filters.outcome);
+  }
 
-    if (filters.outcome) {
-      filtered = filtered.filter(m => m.outcome.status === filters.outcome);
-    }
+  if (filters.startDate) {
+    filtered = filtered.filter(m => m.timestamp >= filters.startDate!);
+  }
 
-    if (filters.startDate) {
-      filtered = filtered.filter(m => m.timestamp >= filters.startDate!);
-    }
+  if (filters.endDate) {
+    filtered = filtered.filter(m => m.timestamp <= filters.endDate!);
+  }
 
-    if (filters.endDate) {
-      filtered = filtered.filter(m => m.timestamp <= filters.endDate!);
-    }
+  if (filters.aiModel) {
+    filtered = filtered.filter(m => m.ai.model === filters.aiModel);
+  }
+
+  return filtered;
+}
 
-    if (filters.aiModel) {
-      filtered = filtered.filter(m => m.ai.model === filters.aiModel);
+/**
+ * Bring the similarity index up to date: new or changed memories are indexed,
+ * deleted ones dropped
+ */
+async function syncMemoryIndex(memories: ImmortalMemory[]): Promise<void> {
+  if (!memoryIndexLoaded) {
+    await memoryIndex.load(MEMORY_INDEX_PATH);
+    memoryIndexLoaded = true;
+  }
+
+  const ids = new Set(memories.map(m => m.id));
+  for (const memory of memories) {
+    memoryIndex.indexImmortalMemory(memory);
+  }
+  for (const id of memoryIndex.ids()) {
+    if (!ids.has(id)) {
+      memoryIndex.remove(id);
     }
+  }
+
+  try {
+    await memoryIndex.save(MEMORY_INDEX_PATH);
+  } catch (error) {
+    logger.warn(`⚠️  Could not persist memory index: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Query unified memories with filters
+ */
+export async function queryUnifiedMemories(filters: MemoryQueryFilters = {}): Promise<ImmortalMemory[]> {
+  if (filters.similarTo) {
+    return (await findSimilarUnifiedMemories(filters)).map(match => match.memory);
+  }
+
+  try {
+    logger.info('🔍 Querying unified memories with filters:', filters);
+
+    const filtered = applyFilters(await loadAllMemories(), filters);
 
     // Apply pagination
     const offset = filters.offset || 0;
     const limit = filters.limit || 100;
-    filtered = filtered.slice(offset, offset + limit);
-
-    return filtered;
+    return filtered.slice(offset, offset + limit);
   } catch (error) {
     logger.error('Error querying memories:', error);
     return [];
   }
 }
 
+/**
+ * Rank memories by similarity to filters.similarTo - a memory id or a description of
+ * market conditions/reasoning - after applying the other filters
+ */
+export async function findSimilarUnifiedMemories(filters: MemoryQueryFilters): Promise<SimilarMemory[]> {
+  try {
+    logger.info('🧭 Finding similar unified memories:', filters);
+
+    const allMemories = await loadAllMemories();
+    await syncMemoryIndex(allMemories);
+
+    const candidates = applyFilters(allMemories, filters);
+    const byId = new Map(candidates.map(m => [m.id, m]));
+    const offset = filters.offset || 0;
+    const limit = filters.limit || 100;
+    const options = { k: offset + limit, ids: new Set(byId.keys()), minScore: filters.minSimilarity || 0 };
+
+    let matches;
+    if (typeof filters.similarTo === 'string') {
+      const query = memoryIndex.queryFor(filters.similarTo);
+      if (!query) {
+        return [];
+      }
+      matches = memoryIndex.searchVector(query, options, filters.similarTo);
+    } else {
+      const target = filters.similarTo || {};
+      matches = memoryIndex.search({ market: target.market || {}, tokenAddress: target.tokenAddress, text: target.text }, options);
+    }
+
+    return matches.slice(offset).map(match => ({ memory: byId.get(match.id)!, score: match.score }));
+  } catch (error) {
+    logger.error('Error finding similar memories:', error);
+    return [];
+  }
+}
+
 /**
  * Get unified memory analytics
  */
@@ -482,13 +600,18 @@ function generateInsights(memories: ImmortalMemory[]) {
  * Get synchronization status
  */
 export function getSyncStatus(): SyncStatus {
+  const stats = uploadQueue.stats();
   return {
-    lastSyncTimestamp: Date.now(),
-    pendingUploads: pendingUploads.length,
-    failedUploads: 0,
-    totalSynced: 0,
+    lastSyncTimestamp,
+    pendingUploads: stats.queueDepth,
+    failedUploads: stats.deadLetters,
+    totalSynced,
     syncInProgress,
-    errors: [],
+    errors: [...recentErrors],
+    queueDepth: stats.queueDepth,
+    oldestPendingAgeMs: stats.oldestPendingAgeMs,
+    nextRetryAt: stats.nextRetryAt,
+    deadLetters: stats.deadLetters,
   };
 }
 
@@ -497,7 +620,7 @@ export function getSyncStatus(): SyncStatus {
  */
 export async function forceSyncAll(): Promise<void> {
   logger.info('🔄 Forcing sync of all pending uploads...');
-  await processBatchUpload();
+  await processBatchUpload(true);
 }
 
 /**
@@ -569,9 +692,11 @@ export function convertLegacyMemory(legacy: any, platform: 'pancakeswap' | 'poly
 }
 
 export default {
+  initializeUnifiedMemoryStorage,
   storeUnifiedMemory,
   processBatchUpload,
   queryUnifiedMemories,
+  findSimilarUnifiedMemories,
   getUnifiedAnalytics,
   getSyncStatus,
   forceSyncAll,
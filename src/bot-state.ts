@@ -27,6 +27,7 @@ export interface TradeLog {
   txHash?: string;
   error?: string;
   profitLoss?: number;
+  paper?: boolean;
 }
 
 export interface Position {
@@ -41,6 +42,7 @@ export interface Position {
   pnlPercent: number;
   entryTime: number;
   status: 'active' | 'pending' | 'closed';
+  paper?: boolean;
 }
 
 class BotStateManager {
@@ -103,6 +105,7 @@ class BotStateManager {
   getStatus() {
     return {
       running: this.running,
+      paperTrading: CONFIG.PAPER_TRADING,
       watchlist: this.config?.tokens || [],
       riskLevel: this.config?.riskLevel || 5,
       config: {
@@ -132,7 +135,7 @@ class BotStateManager {
    * Add a trade log
    */
   addTradeLog(log: TradeLog): void {
-    this.tradeLogs.unshift(log);
+    this.tradeLogs.unshift({ ...log, paper: log.paper ?? (CONFIG.PAPER_TRADING || undefined) });
 
     // Update stats
     if (log.status === 'success') {
@@ -190,7 +193,7 @@ class BotStateManager {
    * Add a new position
    */
   addPosition(position: Position): void {
-    this.positions.push(position);
+    this.positions.push({ ...position, paper: position.paper ?? (CONFIG.PAPER_TRADING || undefined) });
     logger.info(`📊 Position added: ${position.tokenSymbol} (${position.amount})`);
   }
 
@@ -60,6 +60,26 @@ export const CONFIG = {
   OPENROUTER_API_KEY: process.env.OPENROUTER_API_KEY || '',
   AI_MODEL: process.env.AI_MODEL || 'openai/gpt-4o-mini',
 
+  // LLM providers: 'openrouter' | 'local' | 'rule-based'
+  // LLM_PROVIDERS is the default failover chain; LLM_ROUTES overrides it per call site, e.g.
+  // "getAIDecision=local,openrouter:anthropic/claude-3.5-sonnet,rule-based;analyzeMarket=openrouter"
+  LLM_PROVIDERS: process.env.LLM_PROVIDERS || 'openrouter,rule-based',
+  LLM_ROUTES: process.env.LLM_ROUTES ||
+    'getAIDecision=openrouter:anthropic/claude-3.5-sonnet,rule-based;' +
+    'analyzeSentiment=openrouter:anthropic/claude-3.5-sonnet,rule-based;' +
+    'evolveStrategy=openrouter:anthropic/claude-3.5-sonnet,rule-based',
+  OPENROUTER_TIMEOUT_MS: parseInt(process.env.OPENROUTER_TIMEOUT_MS || '30000'),
+  OPENROUTER_INPUT_COST_PER_MTOK: parseFloat(process.env.OPENROUTER_INPUT_COST_PER_MTOK || '3'),
+  OPENROUTER_OUTPUT_COST_PER_MTOK: parseFloat(process.env.OPENROUTER_OUTPUT_COST_PER_MTOK || '15'),
+  LOCAL_LLM_BASE_URL: process.env.LOCAL_LLM_BASE_URL || '', // e.g. http://localhost:11434/v1 (Ollama)
+  LOCAL_LLM_MODEL: process.env.LOCAL_LLM_MODEL || 'llama3.1:8b',
+  LOCAL_LLM_API_KEY: process.env.LOCAL_LLM_API_KEY || '',
+  LOCAL_LLM_TIMEOUT_MS: parseInt(process.env.LOCAL_LLM_TIMEOUT_MS || '60000'),
+
+  // LLM record/replay: 'off' | 'record' | 'replay'
+  LLM_CASSETTE_MODE: process.env.LLM_CASSETTE_MODE || 'off',
+  LLM_CASSETTE_PATH: process.env.LLM_CASSETTE_PATH || './data/cassettes/llm-cassette.json',
+
   // Network Selection
   TRADING_NETWORK,
   IS_OPBNB,
@@ -129,6 +149,77 @@ export const CONFIG = {
   // AI Trading Thresholds
   MIN_CONFIDENCE_THRESHOLD: parseFloat(process.env.MIN_CONFIDENCE_THRESHOLD || '0.7'),
 
+  // Manual approval (TradingLoop with enableAutoTrading = false)
+  APPROVAL_TTL_MS: parseInt(process.env.APPROVAL_TTL_MS || '600000'), // 10 minutes, re-quoted after
+  APPROVAL_MAX_REQUOTE_DRIFT_PERCENT: parseFloat(process.env.APPROVAL_MAX_REQUOTE_DRIFT_PERCENT || '3'),
+
+  // DEX routing (see dex/dexAggregator.ts)
+  DEX_MAX_HOPS: parseInt(process.env.DEX_MAX_HOPS || '2'), // 2 = at most one intermediate (WBNB/USDT/BUSD/USDC)
+  DEX_SPLIT_ROUTING: process.env.DEX_SPLIT_ROUTING !== 'false', // split across PancakeSwap V2/V3 via the Smart Router
+
+  // Pre-flight trade simulation (see blockchain/tradeSimulator.ts)
+  SIM_MODE: (process.env.SIM_MODE || 'call') as 'fork' | 'call' | 'off', // fork = local anvil/hardhat node, call = eth_call + state overrides
+  SIM_FORK_RPC_URL: process.env.SIM_FORK_RPC_URL || 'http://127.0.0.1:8545',
+  SIM_MAX_DEVIATION_PERCENT: parseFloat(process.env.SIM_MAX_DEVIATION_PERCENT || '3'), // simulated output vs quote
+  SIM_MAX_TAX_PERCENT: parseFloat(process.env.SIM_MAX_TAX_PERCENT || '10'), // per leg (buy / sell transfer tax)
+
+  // BSC private transaction relays (see mev/privateRelay.ts)
+  PRIVATE_RELAY_ENABLED: process.env.PRIVATE_RELAY_ENABLED === 'true', // route swaps away from the public mempool
+  PRIVATE_RELAYS: process.env.PRIVATE_RELAYS || '', // "name=bundle:https://...,name=rpc:https://..."
+  PRIVATE_RELAY_FALLBACK_BLOCKS: parseInt(process.env.PRIVATE_RELAY_FALLBACK_BLOCKS || '5'),
+  PRIVATE_RELAY_PUBLIC_FALLBACK: process.env.PRIVATE_RELAY_PUBLIC_FALLBACK !== 'false',
+  PRIVATE_RELAY_POLL_MS: parseInt(process.env.PRIVATE_RELAY_POLL_MS || '1000'),
+
+  // Post-trade MEV forensics (see mev/mevForensics.ts)
+  MEV_FORENSICS_ENABLED: process.env.MEV_FORENSICS_ENABLED !== 'false',
+  MEV_RISK_THRESHOLD: parseFloat(process.env.MEV_RISK_THRESHOLD || '0.3'), // attack rate that switches the optimizer to MEV Shield
+
+  // Flash loan cycle search (see flashloans/cycleFinder.ts)
+  FLASHLOAN_CYCLE_TOKENS: (process.env.FLASHLOAN_CYCLE_TOKENS?.split(',').map(t => t.trim()).filter(Boolean) || []) as string[], // empty = built-in majors
+  FLASHLOAN_MAX_HOPS: parseInt(process.env.FLASHLOAN_MAX_HOPS || '3'), // 3 = triangular
+  FLASHLOAN_MIN_PROFIT_SHARE: parseFloat(process.env.FLASHLOAN_MIN_PROFIT_SHARE || '0.5'), // of simulated profit, enforced on-chain as minProfit
+
+  // Bridge transfer tracking (see crossChain/transferLedger.ts)
+  BRIDGE_WATCH_INTERVAL_MS: parseInt(process.env.BRIDGE_WATCH_INTERVAL_MS || '15000'),
+  BRIDGE_SOURCE_CONFIRMATIONS: parseInt(process.env.BRIDGE_SOURCE_CONFIRMATIONS || '15'),
+  BRIDGE_SOURCE_TIMEOUT_MS: parseInt(process.env.BRIDGE_SOURCE_TIMEOUT_MS || '600000'), // 10 minutes to confirm on the source chain
+  BRIDGE_VAA_TIMEOUT_MS: parseInt(process.env.BRIDGE_VAA_TIMEOUT_MS || '1800000'), // 30 minutes for guardian signatures (source finality)
+  BRIDGE_REDEEM_TIMEOUT_MS: parseInt(process.env.BRIDGE_REDEEM_TIMEOUT_MS || '1800000'), // 30 minutes to complete on the destination
+  BRIDGE_AUTO_REDEEM: process.env.BRIDGE_AUTO_REDEEM !== 'false',
+  BRIDGE_MAX_REDEEM_ATTEMPTS: parseInt(process.env.BRIDGE_MAX_REDEEM_ATTEMPTS || '3'),
+  BRIDGE_WORMHOLESCAN_API: process.env.BRIDGE_WORMHOLESCAN_API || (IS_MAINNET ? 'https://api.wormholescan.io' : 'https://api.testnet.wormholescan.io'),
+  BRIDGE_ETHEREUM_RPC_URL: process.env.BRIDGE_ETHEREUM_RPC_URL || '', // empty = Ethereum legs are not watched or redeemed from here
+
+  // Scheduled execution (TWAP / VWAP / implementation shortfall, see blockchain/executionJobs.ts)
+  EXECUTION_JOB_TICK_MS: parseInt(process.env.EXECUTION_JOB_TICK_MS || '5000'),
+  EXECUTION_DEFAULT_DURATION_MS: parseInt(process.env.EXECUTION_DEFAULT_DURATION_MS || '1800000'), // 30 minutes
+  EXECUTION_PARTICIPATION_RATE: parseFloat(process.env.EXECUTION_PARTICIPATION_RATE || '0.1'), // vwap share of pool volume
+  EXECUTION_IS_DRIFT_TOLERANCE_PERCENT: parseFloat(process.env.EXECUTION_IS_DRIFT_TOLERANCE_PERCENT || '2'),
+
+  // Portfolio risk (correlation-aware VaR budget, see ai/portfolioRisk.ts)
+  RISK_VAR_CONFIDENCE: parseFloat(process.env.RISK_VAR_CONFIDENCE || '0.95'),
+  RISK_VAR_BUDGET_PERCENT: parseFloat(process.env.RISK_VAR_BUDGET_PERCENT || '5'), // of portfolio value, per price interval
+  RISK_PRICE_TIMEFRAME: (process.env.RISK_PRICE_TIMEFRAME || '1h') as '5m' | '1h' | '4h' | '1d',
+  RISK_DEFAULT_VOLATILITY_PERCENT: parseFloat(process.env.RISK_DEFAULT_VOLATILITY_PERCENT || '15'), // per interval, for tokens without enough candles
+  RISK_MAX_SECTOR_PERCENT: parseFloat(process.env.RISK_MAX_SECTOR_PERCENT || '40'),
+  RISK_MAX_COHORT_PERCENT: parseFloat(process.env.RISK_MAX_COHORT_PERCENT || '50'),
+  RISK_TOKEN_SECTORS: process.env.RISK_TOKEN_SECTORS || '', // "0xToken=defi,0xToken=meme"
+
+  // Strategy evolution (walk-forward fitness, see ai/strategyEvolution.ts)
+  EVOLUTION_TRAIN_WINDOW_DAYS: parseFloat(process.env.EVOLUTION_TRAIN_WINDOW_DAYS || '14'),
+  EVOLUTION_TEST_WINDOW_DAYS: parseFloat(process.env.EVOLUTION_TEST_WINDOW_DAYS || '7'),
+  EVOLUTION_STEP_DAYS: parseFloat(process.env.EVOLUTION_STEP_DAYS || '7'), // how far the windows roll per fold
+  EVOLUTION_OVERFIT_TOLERANCE: parseFloat(process.env.EVOLUTION_OVERFIT_TOLERANCE || '0.1'), // in- minus out-of-sample fitness
+  EVOLUTION_HISTORY_PATH: process.env.EVOLUTION_HISTORY_PATH || './data/strategy-generations.jsonl',
+
+  // Strategy registry (versioned strategy definitions, see ai/strategyRegistry.ts)
+  STRATEGY_DIR: process.env.STRATEGY_DIR || './strategies', // *.json definitions loaded at startup
+  DEFAULT_STRATEGY_ID: process.env.DEFAULT_STRATEGY_ID || 'immortal-ai', // "id" (latest) or "id@version"
+
+  // Paper Trading (fill against live quotes, never broadcast)
+  PAPER_TRADING: process.env.PAPER_TRADING === 'true',
+  PAPER_INITIAL_BALANCE_BNB: parseFloat(process.env.PAPER_INITIAL_BALANCE_BNB || '10'),
+
   // Greenfield
   GREENFIELD_BUCKET_NAME: process.env.GREENFIELD_BUCKET_NAME || 'immortal-bot-memories',
   GREENFIELD_RPC_URL: process.env.GREENFIELD_RPC_URL || 'https://gnfd-testnet-fullnode-tendermint-ap.bnbchain.org',
@@ -137,10 +228,23 @@ export const CONFIG = {
   GREENFIELD_ACCESS_KEY: process.env.GREENFIELD_ACCESS_KEY || '',
   GREENFIELD_SECRET_KEY: process.env.GREENFIELD_SECRET_KEY || '',
 
+  // Memory storage backend (see blockchain/memoryStore.ts)
+  MEMORY_STORE_BACKEND: (process.env.MEMORY_STORE_BACKEND || 'auto') as 'auto' | 'greenfield' | 'local' | 'sqlite',
+  MEMORY_STORE_MIRROR: (process.env.MEMORY_STORE_MIRROR || 'none') as 'none' | 'local' | 'sqlite', // local replica of Greenfield writes
+  MEMORY_STORE_DIR: process.env.MEMORY_STORE_DIR || './data/memories',
+  MEMORY_SQLITE_PATH: process.env.MEMORY_SQLITE_PATH || './data/memories.db',
+  MEMORY_COMPRESSION: (process.env.MEMORY_COMPRESSION || 'none') as 'none' | 'gzip' | 'zstd',
+  MEMORY_ENCRYPTION: process.env.MEMORY_ENCRYPTION === 'true', // key from MEMORY_ENCRYPTION_KEY via config/secrets
+  MEMORY_WAL_PATH: process.env.MEMORY_WAL_PATH || './data/memory-upload-wal.jsonl', // unified memory upload queue
+  MEMORY_INDEX_DIR: process.env.MEMORY_INDEX_DIR || './data/memory-index', // similarity search index (see ai/memoryIndex.ts)
+
   // ===== DexScreener API =====
   DEXSCREENER_API_URL: process.env.DEXSCREENER_API_URL || 'https://api.dexscreener.com/latest/dex',
   DEXSCREENER_CHAIN: process.env.DEXSCREENER_CHAIN || 'bsc', // bsc for BNB Chain
 
+  // ===== GeckoTerminal API (OHLCV candles for portfolio risk) =====
+  GECKOTERMINAL_API_URL: process.env.GECKOTERMINAL_API_URL || 'https://api.geckoterminal.com/api/v2',
+
   // ===== Polymarket Configuration =====
   POLYMARKET_ENABLED: process.env.POLYMARKET_ENABLED === 'true',
   POLYMARKET_HOST: process.env.POLYMARKET_HOST || 'https://clob.polymarket.com',
@@ -415,12 +415,18 @@ export const FLASH_LOAN_ARBITRAGE_ABI = [
   {
     inputs: [
       { name: "loanAmount", type: "uint256" },
+      { name: "flashFee", type: "uint24" },
       {
         components: [
-          { name: "buyRouter", type: "address" },
-          { name: "sellRouter", type: "address" },
-          { name: "buyPath", type: "address[]" },
-          { name: "sellPath", type: "address[]" },
+          {
+            components: [
+              { name: "kind", type: "uint8" }, // 0 = V2 router, 1 = Smart Router exactInput
+              { name: "router", type: "address" },
+              { name: "path", type: "bytes" }, // V2: abi-encoded address[], V3: packed token|fee|token
+            ],
+            name: "hops",
+            type: "tuple[]",
+          },
           { name: "minProfit", type: "uint256" },
         ],
         name: "params",
@@ -443,10 +449,15 @@ export const FLASH_LOAN_ARBITRAGE_ABI = [
       { name: "amount1", type: "uint256" },
       {
         components: [
-          { name: "buyRouter", type: "address" },
-          { name: "sellRouter", type: "address" },
-          { name: "buyPath", type: "address[]" },
-          { name: "sellPath", type: "address[]" },
+          {
+            components: [
+              { name: "kind", type: "uint8" }, // 0 = V2 router, 1 = Smart Router exactInput
+              { name: "router", type: "address" },
+              { name: "path", type: "bytes" }, // V2: abi-encoded address[], V3: packed token|fee|token
+            ],
+            name: "hops",
+            type: "tuple[]",
+          },
           { name: "minProfit", type: "uint256" },
         ],
         name: "params",
@@ -495,11 +506,25 @@ export const FLASH_LOAN_ARBITRAGE_ABI = [
     type: "function",
   },
   // Events
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, name: "index", type: "uint256" },
+      { indexed: true, name: "router", type: "address" },
+      { indexed: false, name: "tokenIn", type: "address" },
+      { indexed: false, name: "tokenOut", type: "address" },
+      { indexed: false, name: "amountIn", type: "uint256" },
+      { indexed: false, name: "amountOut", type: "uint256" },
+    ],
+    name: "HopExecuted",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
       { indexed: true, name: "token", type: "address" },
       { indexed: false, name: "loanAmount", type: "uint256" },
+      { indexed: false, name: "fee", type: "uint256" },
       { indexed: false, name: "profit", type: "uint256" },
       { indexed: false, name: "timestamp", type: "uint256" },
     ],
@@ -515,6 +540,18 @@ export const FLASH_LOAN_ARBITRAGE_ABI = [
     name: "ProfitWithdrawn",
     type: "event",
   },
+  // Errors
+  { inputs: [], name: "InvalidLoan", type: "error" },
+  { inputs: [{ name: "hop", type: "uint256" }], name: "InvalidPath", type: "error" },
+  { inputs: [{ name: "caller", type: "address" }], name: "UnauthorizedCallback", type: "error" },
+  {
+    inputs: [
+      { name: "profit", type: "uint256" },
+      { name: "minProfit", type: "uint256" },
+    ],
+    name: "InsufficientProfit",
+    type: "error",
+  },
 ] as const;
 
 // Type exports for TypeScript
@@ -0,0 +1,627 @@
+/**
+ * Cross-Chain Transfer Ledger
+ * Tracks every bridge transfer through its lifecycle instead of reporting a status once:
+ *
+ *   initiated → source-confirmed → vaa-signed → redeemed
+ *
+ * - initiated: the source transaction was sent
+ * - source-confirmed: it has enough confirmations and emitted a Wormhole message (sequence known)
+ * - vaa-signed: the guardians signed the message; the VAA can be redeemed on the destination
+ * - redeemed: the transfer was completed on the destination (by the relayer, us or anyone else)
+ * - stuck: a stage ran past its timeout or the source transaction failed; alerted once
+ * - refunded: funds were recovered on the source chain by the operator
+ *
+ * A background watcher advances the transfers and redeems signed VAAs itself on EVM
+ * destinations. Stuck transfers are re-checked for a late completion with a growing backoff,
+ * except when the source failed. Transfers are persisted after every change and resumed on start().
+ */
+
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger';
+import { TradingError, ValidationError } from '../utils/errorHandler';
+import { saveConfig, loadConfig } from '../utils/configStorage';
+import { CONFIG } from '../config';
+
+const STORAGE_KEY = 'bridge-transfers';
+const MAX_FINISHED_TRANSFERS = 200;
+const MAX_STUCK_BACKOFF_MS = 60 * 60 * 1000; // stuck transfers are re-checked at least hourly
+
+const LOG_MESSAGE_PUBLISHED = new ethers.Interface([
+  'event LogMessagePublished(address indexed sender, uint64 sequence, uint32 nonce, bytes payload, uint8 consistencyLevel)',
+]);
+const TOKEN_BRIDGE_ABI = ['function completeTransfer(bytes encodedVm)'];
+
+export type TransferState = 'initiated' | 'source-confirmed' | 'vaa-signed' | 'redeemed' | 'stuck' | 'refunded';
+export type BridgeChain = 'bsc' | 'polygon' | 'ethereum' | 'solana';
+
+export interface TransferEvent {
+  state: TransferState;
+  at: number;
+  note?: string;
+  txHash?: string;
+}
+
+export interface BridgeTransfer {
+  id: string;
+  bridge: string; // adapter that watches it
+  sourceChain: BridgeChain;
+  targetChain: BridgeChain;
+  token: string;
+  amount: string;
+  recipient?: string;
+  sourceTxHash: string;
+  confirmations?: number; // source confirmations when it was confirmed
+  sequence?: string; // Wormhole message sequence
+  emitter?: string; // Wormhole emitter (token bridge) on the source chain
+  vaa?: string; // signed VAA, hex
+  targetTxHash?: string;
+  refundTxHash?: string;
+  state: TransferState;
+  stateSince: number; // the state timeout counts from here
+  stuckFrom?: TransferState; // state a stuck transfer was in, restored by retry()
+  sourceFailed?: boolean; // reverted or emitted no message; can never complete
+  redeemAttempts: number;
+  createdAt: number;
+  updatedAt: number;
+  error?: string;
+  history: TransferEvent[];
+}
+
+export interface NewTransfer {
+  bridge?: string;
+  sourceChain: string;
+  targetChain: string;
+  token: string;
+  amount: string | number;
+  recipient?: string;
+  sourceTxHash: string;
+  sequence?: string;
+}
+
+export interface SourceStatus {
+  confirmed: boolean;
+  failed?: boolean; // reverted, or confirmed without a Wormhole message
+  confirmations?: number;
+  sequence?: string;
+  emitter?: string;
+  error?: string;
+}
+
+/**
+ * Chain access for one bridge. Every call may return "not yet"; the watcher polls again next tick.
+ */
+export interface BridgeAdapter {
+  sourceStatus(transfer: BridgeTransfer): Promise<SourceStatus>;
+  fetchVaa(transfer: BridgeTransfer): Promise<string | null>;
+  /** Destination transaction hash once the transfer was completed by anyone */
+  completedOn(transfer: BridgeTransfer): Promise<string | null>;
+  /** Redeem the VAA ourselves; false when the destination cannot be redeemed from here */
+  canRedeem(transfer: BridgeTransfer): boolean;
+  redeem(transfer: BridgeTransfer): Promise<string>;
+}
+
+export interface TransferLedgerDeps {
+  adapters: Record<string, BridgeAdapter>;
+  alert(message: string): Promise<void>;
+}
+
+export interface TransferQuery {
+  state?: TransferState;
+  limit?: number;
+}
+
+const TRANSFER_STATES: TransferState[] = ['initiated', 'source-confirmed', 'vaa-signed', 'redeemed', 'stuck', 'refunded'];
+const ACTIVE_STATES: TransferState[] = ['initiated', 'source-confirmed', 'vaa-signed'];
+
+const CHAIN_ALIASES: Record<string, BridgeChain> = {
+  bsc: 'bsc', bnb: 'bsc', binance: 'bsc',
+  polygon: 'polygon', matic: 'polygon',
+  ethereum: 'ethereum', eth: 'ethereum',
+  solana: 'solana', sol: 'solana',
+};
+
+// Wormhole chain ids, RPCs and token bridge contracts (mainnet); no RPC = not watched from here
+const WORMHOLE_CHAINS: Record<BridgeChain, { wormholeId: number; rpcUrl?: string; tokenBridge?: string }> = {
+  bsc: {
+    wormholeId: 4,
+    rpcUrl: CONFIG.RPC_URL,
+    tokenBridge: '0xB6F6D86a8f9879A9c87f643768d9efc38c1Da6E7',
+  },
+  polygon: {
+    wormholeId: 5,
+    rpcUrl: process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com',
+    tokenBridge: '0x5a58505a96D1dbf8dF91cB21B54419FC36e93fdE',
+  },
+  ethereum: {
+    wormholeId: 2,
+    rpcUrl: CONFIG.BRIDGE_ETHEREUM_RPC_URL || undefined,
+    tokenBridge: '0x3ee18B2214AFF97000D974cf647E7C347E8fa585',
+  },
+  solana: { wormholeId: 1 },
+};
+
+/**
+ * Canonical chain name ('BSC', 'bnb' → 'bsc')
+ */
+export function normalizeChain(chain: string): BridgeChain {
+  const normalized = CHAIN_ALIASES[String(chain).toLowerCase()];
+  if (!normalized) {
+    throw new ValidationError('chain', chain, Object.keys(WORMHOLE_CHAINS).join(', '));
+  }
+  return normalized;
+}
+
+/**
+ * How long a transfer may stay in an active state before it counts as stuck
+ */
+export function stateTimeout(state: TransferState): number {
+  switch (state) {
+    case 'initiated': return CONFIG.BRIDGE_SOURCE_TIMEOUT_MS;
+    case 'source-confirmed': return CONFIG.BRIDGE_VAA_TIMEOUT_MS;
+    case 'vaa-signed': return CONFIG.BRIDGE_REDEEM_TIMEOUT_MS;
+    default: return Infinity;
+  }
+}
+
+async function wormholescan<T>(path: string): Promise<T | null> {
+  const response = await fetch(`${CONFIG.BRIDGE_WORMHOLESCAN_API.replace(/\/$/, '')}${path}`, {
+    signal: AbortSignal.timeout(10000),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Wormholescan error: ${response.status} ${response.statusText}`);
+  }
+  return await response.json() as T;
+}
+
+/**
+ * Wormhole token bridge: receipts and redemption over RPC, VAAs and relayer completion from Wormholescan
+ */
+export function wormholeAdapter(): BridgeAdapter {
+  const providers = new Map<BridgeChain, ethers.JsonRpcProvider>();
+  const provider = (chain: BridgeChain): ethers.JsonRpcProvider | null => {
+    const rpcUrl = WORMHOLE_CHAINS[chain].rpcUrl;
+    if (!rpcUrl) return null;
+    if (!providers.has(chain)) providers.set(chain, new ethers.JsonRpcProvider(rpcUrl));
+    return providers.get(chain)!;
+  };
+
+  return {
+    async sourceStatus(transfer) {
+      const source = provider(transfer.sourceChain);
+      if (!source) {
+        // Not watchable here; a sequence reported by the bridge is all we get
+        return { confirmed: Boolean(transfer.sequence && transfer.emitter), sequence: transfer.sequence, emitter: transfer.emitter };
+      }
+
+      const receipt = await source.getTransactionReceipt(transfer.sourceTxHash);
+      if (!receipt) return { confirmed: false };
+      if (receipt.status === 0) return { confirmed: false, failed: true, error: 'Source transaction reverted' };
+
+      const confirmations = await receipt.confirmations();
+      const message = receipt.logs
+        .map(log => {
+          try {
+            return LOG_MESSAGE_PUBLISHED.parseLog(log);
+          } catch {
+            return null;
+          }
+        })
+        .find(parsed => parsed?.name === 'LogMessagePublished');
+
+      if (!message) {
+        return { confirmed: false, failed: true, confirmations, error: 'Source transaction emitted no Wormhole message' };
+      }
+
+      return {
+        confirmed: confirmations >= CONFIG.BRIDGE_SOURCE_CONFIRMATIONS,
+        confirmations,
+        sequence: message.args.sequence.toString(),
+        emitter: message.args.sender,
+      };
+    },
+
+    async fetchVaa(transfer) {
+      if (!transfer.sequence || !transfer.emitter) return null;
+      const emitter = ethers.zeroPadValue(transfer.emitter, 32).slice(2).toLowerCase();
+      const result = await wormholescan<{ data?: { vaa?: string } }>(
+        `/api/v1/vaas/${WORMHOLE_CHAINS[transfer.sourceChain].wormholeId}/${emitter}/${transfer.sequence}`
+      );
+      const vaa = result?.data?.vaa;
+      return vaa ? ethers.hexlify(Buffer.from(vaa, 'base64')) : null;
+    },
+
+    async completedOn(transfer) {
+      const result = await wormholescan<{ operations?: Array<{ targetChain?: { status?: string; transaction?: { txHash?: string } } }> }>(
+        `/api/v1/operations?txHash=${transfer.sourceTxHash}`
+      );
+      const target = result?.operations?.find(operation => operation.targetChain?.status === 'completed')?.targetChain;
+      return target ? target.transaction?.txHash || 'completed' : null;
+    },
+
+    canRedeem(transfer) {
+      const target = WORMHOLE_CHAINS[transfer.targetChain];
+      return CONFIG.IS_MAINNET && Boolean(target.rpcUrl && target.tokenBridge && CONFIG.WALLET_PRIVATE_KEY);
+    },
+
+    async redeem(transfer) {
+      const target = WORMHOLE_CHAINS[transfer.targetChain];
+      const targetProvider = provider(transfer.targetChain);
+      if (!transfer.vaa || !targetProvider || !target.tokenBridge) {
+        throw new Error(`Cannot redeem on ${transfer.targetChain}`);
+      }
+
+      const key = CONFIG.WALLET_PRIVATE_KEY.startsWith('0x') ? CONFIG.WALLET_PRIVATE_KEY : `0x${CONFIG.WALLET_PRIVATE_KEY}`;
+      const tokenBridge = new ethers.Contract(target.tokenBridge, TOKEN_BRIDGE_ABI, new ethers.Wallet(key, targetProvider));
+      const tx = await tokenBridge.getFunction('completeTransfer')(transfer.vaa);
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status !== 1) {
+        throw new Error(`Redeem transaction ${tx.hash} failed`);
+      }
+      return tx.hash as string;
+    },
+  };
+}
+
+/**
+ * Default dependencies: the Wormhole adapter and Telegram alerts
+ */
+function defaultDeps(): TransferLedgerDeps {
+  return {
+    adapters: { wormhole: wormholeAdapter() },
+    alert: async message => {
+      const { telegramBotManager } = await import('../alerts/telegramBot');
+      await telegramBotManager.sendAlert(message, 'warning');
+    },
+  };
+}
+
+/**
+ * Persistent ledger of bridge transfers with a background watcher.
+ * Events: transferRecorded, transferUpdated, transferStuck
+ */
+export class TransferLedger extends EventEmitter {
+  private transfers: Map<string, BridgeTransfer> = new Map();
+  private loading: Promise<void> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private stuckChecks = new Map<string, { checks: number; nextAt: number }>(); // id -> backoff, not persisted
+
+  constructor(
+    private deps: TransferLedgerDeps = defaultDeps(),
+    private storageKey: string = STORAGE_KEY,
+    private tickMs: number = CONFIG.BRIDGE_WATCH_INTERVAL_MS
+  ) {
+    super();
+  }
+
+  /**
+   * Restore persisted transfers (once; concurrent callers share the same load)
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.restore();
+    }
+    return this.loading;
+  }
+
+  private async restore(): Promise<void> {
+    const saved = await loadConfig<{ transfers: BridgeTransfer[] }>(this.storageKey);
+    for (const transfer of saved?.transfers ?? []) {
+      this.transfers.set(transfer.id, transfer);
+    }
+
+    const active = this.list().filter(transfer => ACTIVE_STATES.includes(transfer.state)).length;
+    if (active > 0) {
+      logger.info(`♻️  Resuming ${active} bridge transfers`);
+    }
+  }
+
+  /**
+   * Load persisted transfers and start watching them. Safe to call more than once.
+   */
+  async start(): Promise<void> {
+    await this.load();
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Bridge watcher tick failed:', error));
+    }, this.tickMs);
+    logger.info(`🌉 Bridge transfer watcher started (every ${this.tickMs}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Record a transfer whose source transaction was sent and start watching it.
+   * Recording the same source transaction again returns the existing entry.
+   */
+  async record(input: NewTransfer, now: number = Date.now()): Promise<BridgeTransfer> {
+    await this.load();
+
+    const bridge = input.bridge || 'wormhole';
+    if (!this.deps.adapters[bridge]) {
+      throw new ValidationError('bridge', bridge, Object.keys(this.deps.adapters).join(', '));
+    }
+    if (!input.sourceTxHash) {
+      throw new ValidationError('sourceTxHash', input.sourceTxHash, 'a transaction hash');
+    }
+
+    const existing = this.findByTxHash(input.sourceTxHash);
+    if (existing) return existing;
+
+    const sourceChain = normalizeChain(input.sourceChain);
+    const transfer: BridgeTransfer = {
+      id: `bridge_${now.toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+      bridge,
+      sourceChain,
+      targetChain: normalizeChain(input.targetChain),
+      token: input.token,
+      amount: String(input.amount),
+      recipient: input.recipient,
+      sourceTxHash: input.sourceTxHash,
+      sequence: input.sequence,
+      emitter: input.sequence ? WORMHOLE_CHAINS[sourceChain].tokenBridge : undefined,
+      state: 'initiated',
+      stateSince: now,
+      redeemAttempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      history: [{ state: 'initiated', at: now, txHash: input.sourceTxHash }],
+    };
+
+    this.transfers.set(transfer.id, transfer);
+    await this.persist();
+
+    logger.info(
+      `🌉 Tracking bridge transfer ${transfer.id}: ${transfer.amount} ${transfer.token} ` +
+      `${transfer.sourceChain} → ${transfer.targetChain} (${transfer.sourceTxHash})`
+    );
+    this.emit('transferRecorded', { transfer });
+
+    await this.start();
+    return transfer;
+  }
+
+  get(id: string): BridgeTransfer | undefined {
+    return this.transfers.get(id);
+  }
+
+  findByTxHash(txHash: string): BridgeTransfer | undefined {
+    const hash = txHash.toLowerCase();
+    return this.list().find(transfer => transfer.sourceTxHash.toLowerCase() === hash || transfer.targetTxHash?.toLowerCase() === hash);
+  }
+
+  findBySequence(sequence: string): BridgeTransfer | undefined {
+    return this.list().find(transfer => transfer.sequence === sequence);
+  }
+
+  /**
+   * Transfers, newest first
+   */
+  list(query: TransferQuery = {}): BridgeTransfer[] {
+    if (query.state && !TRANSFER_STATES.includes(query.state)) {
+      throw new ValidationError('state', query.state, TRANSFER_STATES.join(', '));
+    }
+
+    const transfers = Array.from(this.transfers.values())
+      .filter(transfer => !query.state || transfer.state === query.state)
+      .sort((a, b) => b.createdAt - a.createdAt);
+    return query.limit ? transfers.slice(0, query.limit) : transfers;
+  }
+
+  /**
+   * Put a stuck transfer back into the state it got stuck in, with a fresh timeout
+   */
+  async retry(id: string, now: number = Date.now()): Promise<BridgeTransfer> {
+    const transfer = this.require(id, ['stuck']);
+    transfer.redeemAttempts = 0;
+    transfer.error = undefined;
+    transfer.sourceFailed = undefined;
+    this.transition(transfer, transfer.stuckFrom ?? 'initiated', now, 'retried by operator');
+    transfer.stuckFrom = undefined;
+    await this.persist();
+    return transfer;
+  }
+
+  /**
+   * Close a stuck transfer whose funds were recovered on the source chain
+   */
+  async markRefunded(id: string, txHash?: string, note?: string, now: number = Date.now()): Promise<BridgeTransfer> {
+    const transfer = this.require(id, ['stuck']);
+    transfer.refundTxHash = txHash;
+    this.transition(transfer, 'refunded', now, note || 'refunded on the source chain', txHash);
+    await this.persist();
+    return transfer;
+  }
+
+  /**
+   * Advance every transfer that is still moving and re-check stuck ones that are due.
+   * Ticks never overlap.
+   */
+  async tick(now: number = Date.now()): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      for (const transfer of this.list().reverse()) {
+        if (ACTIVE_STATES.includes(transfer.state) || (transfer.state === 'stuck' && this.stuckCheckDue(transfer, now))) {
+          await this.step(transfer, now);
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Whether a stuck transfer should be polled for a late completion this tick; the interval
+   * doubles after every check up to MAX_STUCK_BACKOFF_MS
+   */
+  private stuckCheckDue(transfer: BridgeTransfer, now: number): boolean {
+    if (transfer.sourceFailed) return false;
+
+    const backoff = this.stuckChecks.get(transfer.id) ?? { checks: 0, nextAt: 0 };
+    if (now < backoff.nextAt) return false;
+    backoff.checks++;
+    backoff.nextAt = now + Math.min(this.tickMs * 2 ** backoff.checks, MAX_STUCK_BACKOFF_MS);
+    this.stuckChecks.set(transfer.id, backoff);
+    return true;
+  }
+
+  private async step(transfer: BridgeTransfer, now: number): Promise<void> {
+    const adapter = this.deps.adapters[transfer.bridge];
+    if (!adapter) {
+      logger.warn(`⚠️  ${transfer.id}: no adapter for bridge ${transfer.bridge}`);
+      return;
+    }
+
+    const before = transfer.state;
+    const snapshot = JSON.stringify(transfer);
+    try {
+      // Relayers (or anyone) may complete the transfer as soon as the message exists,
+      // and a stuck transfer that gets completed late is still redeemed
+      if (transfer.state !== 'initiated' || transfer.sequence) {
+        const targetTxHash = await adapter.completedOn(transfer);
+        if (targetTxHash) {
+          transfer.targetTxHash = targetTxHash;
+          this.transition(transfer, 'redeemed', now, 'completed on the destination', targetTxHash);
+          await this.persist();
+          return;
+        }
+      }
+
+      if (transfer.state === 'initiated') {
+        await this.confirmSource(adapter, transfer, now);
+      } else if (transfer.state === 'source-confirmed') {
+        const vaa = await adapter.fetchVaa(transfer);
+        if (vaa) {
+          transfer.vaa = vaa;
+          this.transition(transfer, 'vaa-signed', now, `sequence ${transfer.sequence}`);
+        }
+      } else if (transfer.state === 'vaa-signed' && CONFIG.BRIDGE_AUTO_REDEEM && adapter.canRedeem(transfer)) {
+        await this.redeem(adapter, transfer, now);
+      }
+    } catch (error) {
+      transfer.error = (error as Error).message;
+      logger.warn(`⚠️  ${transfer.id} (${transfer.state}): ${transfer.error}`);
+    }
+
+    if (transfer.state === before && ACTIVE_STATES.includes(transfer.state) && now - transfer.stateSince > stateTimeout(transfer.state)) {
+      const minutes = Math.round((now - transfer.stateSince) / 60000);
+      await this.markStuck(transfer, now, `no progress from ${transfer.state} after ${minutes}m`);
+      return;
+    }
+
+    if (JSON.stringify(transfer) === snapshot) return; // nothing new; skip the write
+    transfer.updatedAt = now;
+    await this.persist();
+  }
+
+  private async confirmSource(adapter: BridgeAdapter, transfer: BridgeTransfer, now: number): Promise<void> {
+    const status = await adapter.sourceStatus(transfer);
+    if (status.failed) {
+      transfer.error = status.error;
+      transfer.sourceFailed = true;
+      await this.markStuck(transfer, now, status.error || 'source transaction failed');
+      return;
+    }
+    if (!status.confirmed) return;
+
+    transfer.confirmations = status.confirmations;
+    transfer.sequence = status.sequence ?? transfer.sequence;
+    transfer.emitter = status.emitter ?? transfer.emitter;
+    const confirmations = status.confirmations !== undefined ? `${status.confirmations} confirmations, ` : '';
+    this.transition(transfer, 'source-confirmed', now, `${confirmations}sequence ${transfer.sequence}`);
+  }
+
+  private async redeem(adapter: BridgeAdapter, transfer: BridgeTransfer, now: number): Promise<void> {
+    transfer.redeemAttempts++;
+    try {
+      const targetTxHash = await adapter.redeem(transfer);
+      transfer.targetTxHash = targetTxHash;
+      transfer.error = undefined;
+      this.transition(transfer, 'redeemed', now, 'auto-redeemed', targetTxHash);
+    } catch (error) {
+      transfer.error = (error as Error).message;
+      logger.warn(`⚠️  ${transfer.id} redeem failed (${transfer.redeemAttempts}/${CONFIG.BRIDGE_MAX_REDEEM_ATTEMPTS}): ${transfer.error}`);
+      if (transfer.redeemAttempts >= CONFIG.BRIDGE_MAX_REDEEM_ATTEMPTS) {
+        await this.markStuck(transfer, now, `${transfer.redeemAttempts} redeem attempts failed: ${transfer.error}`);
+      }
+    }
+  }
+
+  private async markStuck(transfer: BridgeTransfer, now: number, reason: string): Promise<void> {
+    transfer.stuckFrom = transfer.state;
+    this.transition(transfer, 'stuck', now, reason);
+    this.stuckChecks.set(transfer.id, { checks: 0, nextAt: now + this.tickMs });
+    await this.persist();
+
+    const message =
+      `🚨 Bridge transfer stuck: ${transfer.amount} ${transfer.token} ${transfer.sourceChain} → ${transfer.targetChain}\n` +
+      `State: ${transfer.stuckFrom}\nReason: ${reason}\nSource tx: ${transfer.sourceTxHash}\nID: ${transfer.id}`;
+    logger.warn(`⚠️  ${transfer.id} stuck in ${transfer.stuckFrom}: ${reason}`);
+    this.emit('transferStuck', { transfer, reason });
+
+    await this.deps.alert(message).catch(error => logger.error('Failed to send bridge alert:', error));
+  }
+
+  private transition(transfer: BridgeTransfer, state: TransferState, now: number, note?: string, txHash?: string): void {
+    const from = transfer.state;
+    transfer.state = state;
+    transfer.stateSince = now;
+    transfer.updatedAt = now;
+    transfer.history.push({ state, at: now, note, txHash });
+    this.stuckChecks.delete(transfer.id);
+
+    if (state !== 'stuck') {
+      const icon = state === 'redeemed' ? '✅' : state === 'refunded' ? '↩️ ' : '🌉';
+      logger.info(`${icon} ${transfer.id}: ${from} → ${state}${note ? ` (${note})` : ''}`);
+    }
+    this.emit('transferUpdated', { transfer, from });
+  }
+
+  private require(id: string, states: TransferState[]): BridgeTransfer {
+    const transfer = this.transfers.get(id) ?? this.findByTxHash(id);
+    if (!transfer) {
+      throw new TradingError(`Bridge transfer not found: ${id}`, 'BRIDGE_TRANSFER_NOT_FOUND', { id });
+    }
+    if (!states.includes(transfer.state)) {
+      throw new TradingError(`Bridge transfer ${transfer.id} is ${transfer.state}`, 'BRIDGE_TRANSFER_INVALID_STATE', { id, state: transfer.state });
+    }
+    return transfer;
+  }
+
+  private async persist(): Promise<void> {
+    // Keep every open transfer and the most recent finished ones
+    const finished = this.list().filter(transfer => transfer.state === 'redeemed' || transfer.state === 'refunded');
+    for (const transfer of finished.slice(MAX_FINISHED_TRANSFERS)) {
+      this.transfers.delete(transfer.id);
+    }
+
+    await saveConfig(this.storageKey, { transfers: this.list() });
+  }
+}
+
+let ledger: TransferLedger | null = null;
+
+export function getTransferLedger(): TransferLedger {
+  if (!ledger) {
+    ledger = new TransferLedger();
+  }
+  return ledger;
+}
+
+/**
+ * Reset the singleton (useful for testing)
+ */
+export function resetTransferLedger(): void {
+  ledger?.stop();
+  ledger = null;
+}
@@ -6,6 +6,7 @@
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
 import { CONFIG } from '../config';
+import { getTransferLedger, type BridgeTransfer } from './transferLedger';
 
 // Wormhole TypeScript SDK integration
 let WormholeSDK: any = null;
@@ -48,6 +49,10 @@ interface BridgeStatus {
   vaaBytes?: string;
   timestamp: number;
   estimatedCompletion?: number;
+  simulated?: boolean; // placeholder hash, nothing was broadcast
+  transferId?: string; // transfer ledger entry
+  state?: BridgeTransfer['state'];
+  history?: BridgeTransfer['history'];
 }
 
 interface ArbitrageOpportunity {
@@ -246,13 +251,31 @@ export class WormholeService {
       const tokenInfo = this.getTokenInfo(transfer.token);
       const amount = ethers.parseUnits(transfer.amount, tokenInfo.decimals);
 
-      if (this.wormholeConnect) {
-        // Use real SDK for transfer
-        return await this.executeSDKTransfer(transfer, tokenInfo, amount);
-      } else {
-        // Fallback implementation
-        return await this.executeFallbackTransfer(transfer, amount);
+      const status = this.wormholeConnect
+        ? await this.executeSDKTransfer(transfer, tokenInfo, amount) // Use real SDK for transfer
+        : await this.executeFallbackTransfer(transfer, amount); // Fallback implementation
+
+      // Hand the transfer to the ledger, which watches it through to redemption;
+      // simulated transfers have no source transaction to watch
+      if (status.txHash && status.status !== 'failed' && !status.simulated) {
+        try {
+          const tracked = await getTransferLedger().record({
+            bridge: 'wormhole',
+            sourceChain: transfer.sourceChain,
+            targetChain: transfer.targetChain,
+            token: transfer.token,
+            amount: transfer.amount,
+            recipient: transfer.recipient,
+            sourceTxHash: status.txHash,
+          });
+          status.transferId = tracked.id;
+          status.state = tracked.state;
+        } catch (error) {
+          logger.error(`Failed to track transfer ${status.txHash}:`, error);
+        }
       }
+
+      return status;
     } catch (error) {
       logger.error('❌ Transfer failed:', error);
       return {
@@ -310,6 +333,7 @@ export class WormholeService {
         txHash,
         timestamp: Date.now(),
         estimatedCompletion: Date.now() + 180000,
+        simulated: true,
       };
     } catch (error: any) {
       logger.error(`❌ SDK transfer failed: ${error.message}`);
@@ -333,6 +357,7 @@ export class WormholeService {
       txHash,
       timestamp: Date.now(),
       estimatedCompletion: Date.now() + 180000,
+      simulated: true,
     };
   }
 
@@ -341,6 +366,13 @@ export class WormholeService {
    */
   async checkTransferStatus(txHash: string): Promise<BridgeStatus> {
     try {
+      const ledger = getTransferLedger();
+      await ledger.load();
+      const tracked = ledger.findByTxHash(txHash);
+      if (tracked) {
+        return this.toBridgeStatus(tracked);
+      }
+
       // Query Wormhole Guardian API for VAA
       const guardianRPC = 'https://wormhole-v2-mainnet-api.certus.one';
 
@@ -359,6 +391,31 @@ export class WormholeService {
     }
   }
 
+  /**
+   * Ledger state as a bridge status
+   */
+  private toBridgeStatus(transfer: BridgeTransfer): BridgeStatus {
+    const status: Record<BridgeTransfer['state'], BridgeStatus['status']> = {
+      'initiated': 'pending',
+      'source-confirmed': 'in_progress',
+      'vaa-signed': 'in_progress',
+      'redeemed': 'completed',
+      'stuck': 'failed',
+      'refunded': 'failed',
+    };
+
+    return {
+      status: status[transfer.state],
+      txHash: transfer.sourceTxHash,
+      targetTxHash: transfer.targetTxHash,
+      vaaBytes: transfer.vaa,
+      timestamp: transfer.updatedAt,
+      transferId: transfer.id,
+      state: transfer.state,
+      history: transfer.history,
+    };
+  }
+
   /**
    * Fetch real-time token price from DEX
    */
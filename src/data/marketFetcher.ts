@@ -10,6 +10,7 @@ export interface TokenData {
   price: number;
   priceChange24h: number;
   volume24h: number;
+  volume5m?: number; // USD, rolling 5 minutes on the main pair
   liquidity: number;
   marketCap: number;
   fdv: number;
@@ -20,6 +21,13 @@ export interface TokenData {
   };
   pairAddress?: string;
   dexId?: string;
+  chainId?: string; // DexScreener chain of the main pair, e.g. 'bsc'
+  pairCreatedAt?: number; // launch time of the main pair (ms)
+}
+
+export interface PricePoint {
+  timestamp: number; // candle open time (ms)
+  price: number; // close
 }
 
 export interface DexScreenerResponse {
@@ -66,6 +74,7 @@ export interface DexScreenerResponse {
     };
     fdv: number;
     marketCap: number;
+    pairCreatedAt?: number; // ms timestamp
   }>;
 }
 
@@ -114,6 +123,7 @@ export async function getTokenData(tokenAddress: string): Promise<TokenData | nu
       price: parseFloat(mainPair.priceNative),
       priceChange24h: mainPair.priceChange?.h24 || 0,
       volume24h: mainPair.volume?.h24 || 0,
+      volume5m: mainPair.volume?.m5,
       liquidity: mainPair.liquidity?.usd || 0,
       marketCap: mainPair.marketCap || 0,
       fdv: mainPair.fdv || 0,
@@ -124,6 +134,8 @@ export async function getTokenData(tokenAddress: string): Promise<TokenData | nu
       },
       pairAddress: mainPair.pairAddress,
       dexId: mainPair.dexId,
+      chainId: mainPair.chainId,
+      pairCreatedAt: mainPair.pairCreatedAt,
     };
 
     logger.info(
@@ -297,6 +309,14 @@ function chunkArray<T>(array: T[], size: number): T[][] {
   return chunks;
 }
 
+// GeckoTerminal OHLCV period and aggregate for each timeframe
+const OHLCV_TIMEFRAMES: Record<'5m' | '1h' | '4h' | '1d', [string, number]> = {
+  '5m': ['minute', 5],
+  '1h': ['hour', 1],
+  '4h': ['hour', 4],
+  '1d': ['day', 1],
+};
+
 /**
  * Enhanced MarketDataFetcher class with improved error handling and caching
  */
@@ -419,6 +439,49 @@ export class MarketDataFetcher {
     }
   }
 
+  /**
+   * Closing prices of the token's main pair from GeckoTerminal OHLCV candles, oldest first.
+   * Intervals without trades have no candle, so series of different tokens must be joined
+   * on the timestamp. Unlike getPriceHistory nothing is estimated; throws when the pair has no candles.
+   */
+  async getOHLCVCloses(tokenAddress: string, timeframe: '5m' | '1h' | '4h' | '1d' = '1h', limit = 100): Promise<PricePoint[]> {
+    const tokenData = await this.getTokenData(tokenAddress);
+    if (!tokenData?.pairAddress) {
+      throw new Error(`No trading pair found for ${tokenAddress}`);
+    }
+
+    const [period, aggregate] = OHLCV_TIMEFRAMES[timeframe];
+    const network = tokenData.chainId || CONFIG.DEXSCREENER_CHAIN;
+    const url = `${CONFIG.GECKOTERMINAL_API_URL}/networks/${network}/pools/${tokenData.pairAddress}/ohlcv/${period}?aggregate=${aggregate}&limit=${limit}`;
+
+    const response = await withRetry(
+      async () => {
+        const res = await fetch(url);
+
+        if (!res.ok) {
+          throw new APIError(`GeckoTerminal API error: ${res.statusText}`, res.status, url);
+        }
+
+        return res;
+      },
+      3,
+      2000,
+      'GeckoTerminal OHLCV fetch'
+    );
+
+    const data = (await response.json()) as { data?: { attributes?: { ohlcv_list?: number[][] } } };
+    const candles = data.data?.attributes?.ohlcv_list ?? [];
+    if (candles.length === 0) {
+      throw new Error(`No ${timeframe} candles for ${tokenData.symbol} (${tokenData.pairAddress})`);
+    }
+
+    // [timestamp (s), open, high, low, close, volume], newest first
+    return candles
+      .slice()
+      .sort((a, b) => a[0]! - b[0]!)
+      .map(candle => ({ timestamp: candle[0]! * 1000, price: candle[4]! }));
+  }
+
   /**
    * Calculate buy/sell pressure from transaction data
    */
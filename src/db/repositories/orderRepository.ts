@@ -0,0 +1,236 @@
+/**
+ * Order Repository
+ * Persistence for OrderMonitoringService so conditional orders survive restarts.
+ * Uses the Prisma Order model when DATABASE_URL is set and a real client is
+ * generated, otherwise a JSON file under data/configs.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { saveConfig, loadConfig } from '../../utils/configStorage';
+import type { Order, OrderStatus, OrderType } from '../../services/orderMonitoringService';
+
+// Optional Prisma import
+let prisma: any;
+try {
+  prisma = require('../client').prisma;
+} catch {
+  prisma = null;
+}
+
+const FILE_KEY = 'orders';
+
+type OptionalField = 'price' | 'avgFillPrice' | 'stopLoss' | 'takeProfit' | 'trailingStop' | 'txHash' | 'error';
+type OptionalDate = 'expiresAt' | 'filledAt' | 'cancelledAt' | 'updatedAt';
+
+/** An order as stored: database rows use null for unset fields, the JSON file keeps dates as strings */
+type OrderRow = Omit<Order, OptionalField | OptionalDate | 'createdAt'>
+  & { [K in OptionalField]?: Order[K] | null }
+  & { [K in OptionalDate]?: Date | string | null }
+  & { createdAt: Date | string };
+
+export interface OrderFilter {
+  userId?: string;
+  status?: OrderStatus | OrderStatus[];
+  type?: OrderType;
+  marketId?: string;
+  tokenId?: string;
+  limit?: number;
+  oldestFirst?: boolean;
+}
+
+export interface OrderStore {
+  readonly backend: 'prisma' | 'file';
+  create(order: Order): Promise<Order>;
+  findById(id: string): Promise<Order | null>;
+  findMany(filter?: OrderFilter): Promise<Order[]>;
+  count(filter?: OrderFilter): Promise<number>;
+  update(id: string, changes: Partial<Order>): Promise<Order>;
+}
+
+/**
+ * Prisma-backed store (Order model)
+ */
+export class PrismaOrderStore implements OrderStore {
+  readonly backend = 'prisma' as const;
+
+  constructor(private client: PrismaClient = prisma) {}
+
+  async create(order: Order): Promise<Order> {
+    return fromRow(await this.client.order.create({ data: toRow(order) }));
+  }
+
+  async findById(id: string): Promise<Order | null> {
+    const row = await this.client.order.findUnique({ where: { id } });
+    return row ? fromRow(row) : null;
+  }
+
+  async findMany(filter: OrderFilter = {}): Promise<Order[]> {
+    const rows = await this.client.order.findMany({
+      where: toWhere(filter),
+      orderBy: { createdAt: filter.oldestFirst ? 'asc' : 'desc' },
+      ...(filter.limit && { take: filter.limit }),
+    });
+    return rows.map(fromRow);
+  }
+
+  async count(filter: OrderFilter = {}): Promise<number> {
+    return this.client.order.count({ where: toWhere(filter) });
+  }
+
+  async update(id: string, changes: Partial<Order>): Promise<Order> {
+    const { id: _id, ...data } = changes;
+    return fromRow(await this.client.order.update({ where: { id }, data }));
+  }
+}
+
+/**
+ * JSON file store used when no database is configured
+ */
+export class FileOrderStore implements OrderStore {
+  readonly backend = 'file' as const;
+  private cache: Record<string, Order> | null = null;
+
+  constructor(private key: string = FILE_KEY) {}
+
+  async create(order: Order): Promise<Order> {
+    const all = await this.readAll();
+    all[order.id] = { ...order };
+    await saveConfig(this.key, all);
+    return { ...order };
+  }
+
+  async findById(id: string): Promise<Order | null> {
+    const order = (await this.readAll())[id];
+    return order ? { ...order } : null;
+  }
+
+  async findMany(filter: OrderFilter = {}): Promise<Order[]> {
+    const direction = filter.oldestFirst ? 1 : -1;
+    const orders = Object.values(await this.readAll())
+      .filter(order => matches(order, filter))
+      .sort((a, b) => direction * (a.createdAt.getTime() - b.createdAt.getTime()))
+      .map(order => ({ ...order }));
+    return filter.limit ? orders.slice(0, filter.limit) : orders;
+  }
+
+  async count(filter: OrderFilter = {}): Promise<number> {
+    return Object.values(await this.readAll()).filter(order => matches(order, filter)).length;
+  }
+
+  async update(id: string, changes: Partial<Order>): Promise<Order> {
+    const all = await this.readAll();
+    const order = all[id];
+    if (!order) {
+      throw new Error(`Order not found: ${id}`);
+    }
+
+    all[id] = { ...order, ...changes, id, updatedAt: new Date() };
+    await saveConfig(this.key, all);
+    return { ...all[id] };
+  }
+
+  private async readAll(): Promise<Record<string, Order>> {
+    if (!this.cache) {
+      const stored = (await loadConfig<Record<string, OrderRow>>(this.key)) || {};
+      // Dates come back from JSON as strings
+      this.cache = Object.fromEntries(Object.entries(stored).map(([id, order]) => [id, fromRow(order)]));
+    }
+    return this.cache;
+  }
+}
+
+/**
+ * Pick the best available backend
+ */
+export function createOrderStore(): OrderStore {
+  // The mock client in db/client.ts also exposes `order`; only a generated client has `$transaction`
+  if (process.env.DATABASE_URL && prisma?.order && typeof prisma.$transaction === 'function') {
+    logger.info('💾 Orders persisted to database (Prisma)');
+    return new PrismaOrderStore();
+  }
+
+  logger.info('💾 Orders persisted to JSON file (no database configured)');
+  return new FileOrderStore();
+}
+
+function matches(order: Order, filter: OrderFilter): boolean {
+  const statuses = filter.status === undefined ? undefined : ([] as OrderStatus[]).concat(filter.status);
+  return (
+    (!filter.userId || order.userId === filter.userId) &&
+    (!statuses || statuses.includes(order.status)) &&
+    (!filter.type || order.type === filter.type) &&
+    (!filter.marketId || order.marketId === filter.marketId) &&
+    (!filter.tokenId || order.tokenId.toLowerCase() === filter.tokenId.toLowerCase())
+  );
+}
+
+function toWhere(filter: OrderFilter) {
+  return {
+    ...(filter.userId && { userId: filter.userId }),
+    ...(filter.status !== undefined && {
+      status: Array.isArray(filter.status) ? { in: filter.status } : filter.status,
+    }),
+    ...(filter.type && { type: filter.type }),
+    ...(filter.marketId && { marketId: filter.marketId }),
+    ...(filter.tokenId && { tokenId: filter.tokenId }),
+  };
+}
+
+function toRow(order: Order) {
+  return {
+    id: order.id,
+    userId: order.userId,
+    marketId: order.marketId,
+    marketQuestion: order.marketQuestion,
+    tokenId: order.tokenId,
+    outcome: order.outcome,
+    side: order.side,
+    type: order.type,
+    amount: order.amount,
+    price: order.price ?? null,
+    filledAmount: order.filledAmount,
+    remainingAmount: order.remainingAmount,
+    avgFillPrice: order.avgFillPrice ?? null,
+    stopLoss: order.stopLoss ?? null,
+    takeProfit: order.takeProfit ?? null,
+    trailingStop: order.trailingStop ?? null,
+    status: order.status,
+    txHash: order.txHash ?? null,
+    error: order.error ?? null,
+    createdAt: order.createdAt,
+    expiresAt: order.expiresAt ?? null,
+    filledAt: order.filledAt ?? null,
+    cancelledAt: order.cancelledAt ?? null,
+  };
+}
+
+function fromRow(row: OrderRow): Order {
+  const date = (value: Date | string | null | undefined) => (value ? new Date(value) : undefined);
+  return {
+    id: row.id,
+    userId: row.userId,
+    marketId: row.marketId,
+    marketQuestion: row.marketQuestion,
+    tokenId: row.tokenId,
+    outcome: row.outcome,
+    side: row.side,
+    type: row.type,
+    amount: row.amount,
+    price: row.price ?? undefined,
+    filledAmount: row.filledAmount,
+    remainingAmount: row.remainingAmount,
+    avgFillPrice: row.avgFillPrice ?? undefined,
+    stopLoss: row.stopLoss ?? undefined,
+    takeProfit: row.takeProfit ?? undefined,
+    trailingStop: row.trailingStop ?? undefined,
+    status: row.status,
+    txHash: row.txHash ?? undefined,
+    error: row.error ?? undefined,
+    createdAt: new Date(row.createdAt),
+    expiresAt: date(row.expiresAt),
+    filledAt: date(row.filledAt),
+    cancelledAt: date(row.cancelledAt),
+    updatedAt: date(row.updatedAt),
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * Position Repository
+ * Persistence for PositionManager so open trades and their stop-losses survive restarts.
+ * Uses Prisma when DATABASE_URL is set and the client is generated, otherwise a local
+ * SQLite file (bun:sqlite), otherwise a JSON file under data/configs.
+ */
+
+import path from 'path';
+import { logger } from '../../utils/logger';
+import { saveConfig, loadConfig } from '../../utils/configStorage';
+import type { Position } from '../../services/positionManager';
+
+// Optional Prisma import
+let prisma: any;
+try {
+  prisma = require('../client').prisma;
+} catch {
+  prisma = null;
+}
+
+const SQLITE_PATH = process.env.POSITIONS_DB_PATH || path.join(process.cwd(), 'data', 'positions.db');
+const FILE_KEY = 'positions';
+
+export interface PositionStore {
+  readonly backend: 'prisma' | 'sqlite' | 'file';
+  loadOpen(): Promise<Position[]>;
+  loadClosed(limit?: number): Promise<Position[]>;
+  save(position: Position): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Prisma-backed store (TradingPosition model)
+ */
+export class PrismaPositionStore implements PositionStore {
+  readonly backend = 'prisma' as const;
+
+  constructor(private client: any = prisma) {}
+
+  async loadOpen(): Promise<Position[]> {
+    const rows = await this.client.tradingPosition.findMany({
+      where: { status: 'open' },
+      orderBy: { openedAt: 'asc' },
+    });
+    return rows.map(fromRow);
+  }
+
+  async loadClosed(limit: number = 500): Promise<Position[]> {
+    const rows = await this.client.tradingPosition.findMany({
+      where: { status: { not: 'open' } },
+      orderBy: { closedAt: 'desc' },
+      take: limit,
+    });
+    return rows.map(fromRow);
+  }
+
+  async save(position: Position): Promise<void> {
+    const data = toRow(position);
+    await this.client.tradingPosition.upsert({
+      where: { id: position.id },
+      create: data,
+      update: data,
+    });
+  }
+
+  async clear(): Promise<void> {
+    await this.client.tradingPosition.deleteMany({});
+  }
+}
+
+/**
+ * Local SQLite store used when no database is configured (Bun runtime)
+ */
+export class SqlitePositionStore implements PositionStore {
+  readonly backend = 'sqlite' as const;
+  private db: any;
+
+  constructor(filePath: string = SQLITE_PATH) {
+    const { Database } = require('bun:sqlite');
+    require('fs').mkdirSync(path.dirname(filePath), { recursive: true });
+
+    this.db = new Database(filePath, { create: true });
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS positions (
+        id TEXT PRIMARY KEY,
+        token TEXT NOT NULL,
+        status TEXT NOT NULL,
+        opened_at INTEGER NOT NULL,
+        closed_at INTEGER,
+        data TEXT NOT NULL
+      )
+    `);
+    this.db.run('CREATE INDEX IF NOT EXISTS idx_positions_status ON positions (status)');
+  }
+
+  async loadOpen(): Promise<Position[]> {
+    const rows = this.db
+      .query("SELECT data FROM positions WHERE status = 'open' ORDER BY opened_at ASC")
+      .all();
+    return rows.map((row: { data: string }) => JSON.parse(row.data));
+  }
+
+  async loadClosed(limit: number = 500): Promise<Position[]> {
+    const rows = this.db
+      .query("SELECT data FROM positions WHERE status != 'open' ORDER BY closed_at DESC LIMIT ?")
+      .all(limit);
+    return rows.map((row: { data: string }) => JSON.parse(row.data));
+  }
+
+  async save(position: Position): Promise<void> {
+    this.db.run(
+      `INSERT INTO positions (id, token, status, opened_at, closed_at, data)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         status = excluded.status,
+         closed_at = excluded.closed_at,
+         data = excluded.data`,
+      [
+        position.id,
+        position.token,
+        position.status,
+        position.timestamp,
+        position.exitTimestamp ?? null,
+        JSON.stringify(position),
+      ]
+    );
+  }
+
+  async clear(): Promise<void> {
+    this.db.run('DELETE FROM positions');
+  }
+}
+
+/**
+ * JSON file store, last resort when neither Prisma nor SQLite is available
+ */
+export class FilePositionStore implements PositionStore {
+  readonly backend = 'file' as const;
+  private cache: Record<string, Position> | null = null;
+
+  constructor(private key: string = FILE_KEY) {}
+
+  async loadOpen(): Promise<Position[]> {
+    const all = await this.readAll();
+    return Object.values(all)
+      .filter(p => p.status === 'open')
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async loadClosed(limit: number = 500): Promise<Position[]> {
+    const all = await this.readAll();
+    return Object.values(all)
+      .filter(p => p.status !== 'open')
+      .sort((a, b) => (b.exitTimestamp || 0) - (a.exitTimestamp || 0))
+      .slice(0, limit);
+  }
+
+  async save(position: Position): Promise<void> {
+    const all = await this.readAll();
+    all[position.id] = { ...position };
+    await saveConfig(this.key, all);
+  }
+
+  async clear(): Promise<void> {
+    this.cache = {};
+    await saveConfig(this.key, this.cache);
+  }
+
+  private async readAll(): Promise<Record<string, Position>> {
+    if (!this.cache) {
+      this.cache = (await loadConfig<Record<string, Position>>(this.key)) || {};
+    }
+    return this.cache;
+  }
+}
+
+/**
+ * Pick the best available backend
+ */
+export function createPositionStore(): PositionStore {
+  if (process.env.DATABASE_URL && prisma?.tradingPosition) {
+    logger.info('💾 Positions persisted to database (Prisma)');
+    return new PrismaPositionStore();
+  }
+
+  try {
+    const store = new SqlitePositionStore();
+    logger.info(`💾 Positions persisted to SQLite: ${SQLITE_PATH}`);
+    return store;
+  } catch (error) {
+    logger.warn(`⚠️  SQLite unavailable (${(error as Error).message}) - persisting positions to JSON file`);
+    return new FilePositionStore();
+  }
+}
+
+function toRow(position: Position) {
+  return {
+    id: position.id,
+    token: position.token,
+    symbol: position.symbol,
+    entryPrice: position.entryPrice,
+    currentPrice: position.currentPrice ?? null,
+    amount: position.amount,
+    originalAmount: position.originalAmount ?? null,
+    tokenAmount: position.tokenAmount ?? null,
+    strategy: position.strategy,
+    confidence: position.confidence,
+    status: position.status,
+    txHash: position.txHash ?? null,
+    exitPrice: position.exitPrice ?? null,
+    exitTxHash: position.exitTxHash ?? null,
+    profitLoss: position.profitLoss ?? null,
+    profitLossAmount: position.profitLossAmount ?? null,
+    realizedProfitLossAmount: position.realizedProfitLossAmount ?? null,
+    exitPlan: position.exitPlan ?? null,
+    exitReason: position.exitReason ?? null,
+    paper: position.paper ?? false,
+    openedAt: new Date(position.timestamp),
+    closedAt: position.exitTimestamp ? new Date(position.exitTimestamp) : null,
+  };
+}
+
+function fromRow(row: any): Position {
+  return {
+    id: row.id,
+    token: row.token,
+    symbol: row.symbol,
+    entryPrice: row.entryPrice,
+    currentPrice: row.currentPrice ?? undefined,
+    amount: row.amount,
+    originalAmount: row.originalAmount ?? undefined,
+    tokenAmount: row.tokenAmount ?? undefined,
+    strategy: row.strategy,
+    confidence: row.confidence,
+    timestamp: new Date(row.openedAt).getTime(),
+    txHash: row.txHash ?? undefined,
+    status: row.status,
+    exitPrice: row.exitPrice ?? undefined,
+    exitTimestamp: row.closedAt ? new Date(row.closedAt).getTime() : undefined,
+    exitTxHash: row.exitTxHash ?? undefined,
+    profitLoss: row.profitLoss ?? undefined,
+    profitLossAmount: row.profitLossAmount ?? undefined,
+    realizedProfitLossAmount: row.realizedProfitLossAmount ?? undefined,
+    exitPlan: row.exitPlan ?? undefined,
+    exitReason: row.exitReason ?? undefined,
+    paper: row.paper || undefined,
+  };
+}
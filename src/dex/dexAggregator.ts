@@ -1,21 +1,38 @@
 /**
  * Multi-DEX Aggregator
- * Compares prices across multiple DEXs and routes to the best one
+ * Compares prices across multiple DEXs and routes to the best one.
+ * Routes may hop through base tokens (WBNB/USDT/BUSD/USDC), PancakeSwap V3 is quoted
+ * through its QuoterV2 across fee tiers, and the input can be split between a
+ * PancakeSwap V2 and a V3 route. Split and V3 routes execute atomically as one
+ * Smart Router multicall; other venues execute a single (multi-hop) path on their router.
  */
 
 import { ethers } from 'ethers';
 import { Token, CurrencyAmount, TradeType, Percent } from '@pancakeswap/sdk';
 import { logger } from '../utils/logger.js';
 import { CONFIG } from '../config.js';
+import {
+  BASE_TOKENS,
+  V3_FEE_TIERS,
+  candidatePaths,
+  encodeV3Path,
+  findBestSplit,
+  allocateMinOutputs,
+  type RouteLeg,
+} from './routing.js';
+import { PoolStateReader } from './priceImpact.js';
 
 export interface DEXQuote {
-  dexName: string;
+  dexName: string; // venue, or "split" for a composite route
   inputAmount: bigint;
   outputAmount: bigint;
-  priceImpact: number;
-  route: string[];
+  priceImpact: number; // % vs the pool mid price, excluding fees; 100 when the pools could not be read
+  midPrice?: number; // output per input (raw units) before the trade
+  executionPrice?: number; // output per input (raw units) at this size
+  route: string[]; // token path of the largest leg
   gasEstimate: bigint;
   effectivePrice: bigint; // output amount minus gas cost
+  legs: RouteLeg[]; // executable legs; more than one when the input is split
 }
 
 export interface AggregatorResult {
@@ -25,28 +42,53 @@ export interface AggregatorResult {
   savingsPercentage: number;
 }
 
+const V3_VENUE = 'pancakeswapV3';
+const V3_BASE_GAS = 100000n; // router overhead on top of the quoter's swap gas
+const EXTRA_HOP_GAS = 60000n;
+const GAS_PRICING_BNB = ethers.parseEther('0.01'); // small enough that pool impact doesn't skew the BNB price
+
 export class DEXAggregator {
   private provider: ethers.JsonRpcProvider;
   private supportedDEXs: string[];
+  private pools = new PoolStateReader();
 
-  // DEX Router Addresses on BSC
+  // V2-style router addresses on BSC
   private routers = {
     pancakeswap: '0x10ED43C718714eb63d5aA57B78B54704E256024E', // PancakeSwap V2
-    pancakeswapV3: '0x13f4EA83D0bd40E75C8222255bc855a974568Dd4', // PancakeSwap V3
     biswap: '0x3a6d8cA21D1CF76F653A67577FA0D27453350dD8', // Biswap
     apeswap: '0xcF0feBd3f17CEf5b47b0cD257aCf6025c5BFf3b7', // ApeSwap
     babyswap: '0x325E343f1dE602396E256B67eFd1F61C3A6B38Bd', // BabySwap
   };
 
+  // PancakeSwap V3 (Smart Router executes V2 + V3 legs; QuoterV2 quotes V3 pools)
+  private readonly smartRouter = '0x13f4EA83D0bd40E75C8222255bc855a974568Dd4';
+  private readonly v3Quoter = '0xB048Bbc1Ee6b733FFfCFb9e9CeF7375518e25997';
+
   // Uniswap V2 ABI for getting amounts
   private readonly ROUTER_ABI = [
     'function getAmountsOut(uint amountIn, address[] memory path) public view returns (uint[] memory amounts)',
     'function swapExactTokensForTokens(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) external returns (uint[] memory amounts)',
   ];
 
-  constructor() {
+  private readonly QUOTER_V2_ABI = [
+    'function quoteExactInputSingle((address tokenIn, address tokenOut, uint256 amountIn, uint24 fee, uint160 sqrtPriceLimitX96) params) external returns (uint256 amountOut, uint160 sqrtPriceX96After, uint32 initializedTicksCrossed, uint256 gasEstimate)',
+    'function quoteExactInput(bytes path, uint256 amountIn) external returns (uint256 amountOut, uint160[] sqrtPriceX96AfterList, uint32[] initializedTicksCrossedList, uint256 gasEstimate)',
+  ];
+
+  private readonly SMART_ROUTER_ABI = [
+    'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to) external payable returns (uint256 amountOut)',
+    'function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params) external payable returns (uint256 amountOut)',
+    'function multicall(uint256 deadline, bytes[] data) external payable returns (bytes[] results)',
+  ];
+
+  private readonly ERC20_ABI = [
+    'function allowance(address owner, address spender) view returns (uint256)',
+    'function approve(address spender, uint256 amount) returns (bool)',
+  ];
+
+  constructor(private maxHops: number = CONFIG.DEX_MAX_HOPS || 2) {
     this.provider = new ethers.JsonRpcProvider(CONFIG.RPC_URL);
-    this.supportedDEXs = Object.keys(this.routers);
+    this.supportedDEXs = [...Object.keys(this.routers), V3_VENUE];
   }
 
   /**
@@ -77,12 +119,14 @@ export class DEXAggregator {
         throw new Error('No valid quotes found from any DEX');
       }
 
+      // Splitting between PancakeSwap V2 and V3 can beat either alone on larger trades
+      if (CONFIG.DEX_SPLIT_ROUTING) {
+        const split = await this.getSplitQuote(validQuotes, tokenOut, amountIn);
+        if (split) validQuotes.push(split);
+      }
+
       // Sort by effective price (output - gas cost) descending
-      validQuotes.sort((a, b) => {
-        const aEffective = Number(a.effectivePrice);
-        const bEffective = Number(b.effectivePrice);
-        return bEffective - aEffective;
-      });
+      validQuotes.sort((a, b) => (b.effectivePrice > a.effectivePrice ? 1 : b.effectivePrice < a.effectivePrice ? -1 : 0));
 
       const bestQuote = validQuotes[0];
       const worstQuote = validQuotes[validQuotes.length - 1];
@@ -95,7 +139,7 @@ export class DEXAggregator {
       const savingsPercentage = Number(savingsVsWorst * BigInt(10000) / worstQuote.outputAmount) / 100;
 
       logger.info(
-        `✅ Best quote from ${bestQuote.dexName}: ${ethers.formatEther(bestQuote.outputAmount)} (${savingsPercentage.toFixed(2)}% better than worst)`
+        `✅ Best quote from ${bestQuote.dexName} via ${describeLegs(bestQuote.legs)}: ${ethers.formatEther(bestQuote.outputAmount)} (${savingsPercentage.toFixed(2)}% better than worst)`
       );
 
       return {
@@ -111,7 +155,7 @@ export class DEXAggregator {
   }
 
   /**
-   * Get quote from a specific DEX
+   * Get quote from a specific DEX (best of the direct and multi-hop paths)
    */
   private async getQuoteFromDEX(
     dexName: string,
@@ -120,41 +164,28 @@ export class DEXAggregator {
     amountIn: bigint
   ): Promise<DEXQuote> {
     try {
-      const routerAddress = this.routers[dexName as keyof typeof this.routers];
-      const router = new ethers.Contract(routerAddress, this.ROUTER_ABI, this.provider) as ethers.Contract & {
-        getAmountsOut: (amountIn: bigint, path: string[]) => Promise<bigint[]>;
-      };
+      const paths = candidatePaths(tokenIn, tokenOut, this.maxHops);
+      const quoteLeg = (path: string[]) =>
+        dexName === V3_VENUE ? this.quoteV3Route(path, amountIn) : this.quoteV2Route(dexName, path, amountIn);
 
-      // Get path (direct swap for now, can add multi-hop later)
-      const path = [tokenIn, tokenOut];
+      const legs = (await Promise.allSettled(paths.map(quoteLeg)))
+        .filter((result): result is PromiseFulfilledResult<RouteLeg | null> => result.status === 'fulfilled')
+        .map(result => result.value)
+        .filter((leg): leg is RouteLeg => leg !== null && leg.amountOut > 0n);
 
-      // Get amounts out
-      const amounts = await router.getAmountsOut(amountIn, path);
-      const outputAmount = amounts[amounts.length - 1];
-
-      if (!outputAmount) {
-        throw new Error('Failed to get output amount from router');
+      if (legs.length === 0) {
+        throw new Error('No route with liquidity');
       }
 
-      // Estimate gas
-      const gasEstimate = await this.estimateSwapGas(dexName, amountIn, path);
-
-      // Calculate price impact (simplified)
-      const priceImpact = this.calculatePriceImpact(amountIn, outputAmount);
-
-      // Effective price = output - gas cost
-      const gasCostInOutput = await this.convertGasCostToOutput(gasEstimate, tokenOut);
-      const effectivePrice = outputAmount - gasCostInOutput;
+      // Extra hops cost gas, so compare net of gas
+      const gasCost = await this.gasCostInOutput(tokenOut);
+      legs.sort((a, b) => {
+        const aNet = a.amountOut - gasCost(a.gasEstimate);
+        const bNet = b.amountOut - gasCost(b.gasEstimate);
+        return bNet > aNet ? 1 : bNet < aNet ? -1 : 0;
+      });
 
-      return {
-        dexName,
-        inputAmount: amountIn,
-        outputAmount,
-        priceImpact,
-        route: path,
-        gasEstimate,
-        effectivePrice,
-      };
+      return await this.buildQuote(dexName, [legs[0]!], amountIn, gasCost);
     } catch (error) {
       logger.warn(`Failed to get quote from ${dexName}:`, (error as Error).message);
       // Return zero quote on failure
@@ -166,10 +197,132 @@ export class DEXAggregator {
         route: [tokenIn, tokenOut],
         gasEstimate: 0n,
         effectivePrice: 0n,
+        legs: [],
       };
     }
   }
 
+  /**
+   * Split the input between the best PancakeSwap V2 and V3 routes, if that beats both
+   */
+  private async getSplitQuote(quotes: DEXQuote[], tokenOut: string, amountIn: bigint): Promise<DEXQuote | null> {
+    const v2Leg = quotes.find(quote => quote.dexName === 'pancakeswap')?.legs[0];
+    const v3Leg = quotes.find(quote => quote.dexName === V3_VENUE)?.legs[0];
+    if (!v2Leg || !v3Leg) return null;
+
+    try {
+      const gasCost = await this.gasCostInOutput(tokenOut);
+      const split = await findBestSplit(
+        amountIn,
+        amount => this.quoteV2Route(v2Leg.dexName, v2Leg.path, amount),
+        amount => this.quoteV3Path(v3Leg.path, v3Leg.fees!, amount),
+        gasCost
+      );
+
+      return split && split.legs.length > 1 ? await this.buildQuote('split', split.legs, amountIn, gasCost) : null;
+    } catch (error) {
+      logger.warn('Failed to evaluate split route:', (error as Error).message);
+      return null;
+    }
+  }
+
+  /**
+   * Quote a path on a V2-style router
+   */
+  private async quoteV2Route(dexName: string, path: string[], amountIn: bigint): Promise<RouteLeg | null> {
+    const routerAddress = this.routers[dexName as keyof typeof this.routers];
+    const router = new ethers.Contract(routerAddress, this.ROUTER_ABI, this.provider) as ethers.Contract & {
+      getAmountsOut: (amountIn: bigint, path: string[]) => Promise<bigint[]>;
+    };
+
+    const amounts = await router.getAmountsOut(amountIn, path);
+    const amountOut = amounts[amounts.length - 1];
+    if (!amountOut) return null;
+
+    const gasEstimate = (await this.estimateSwapGas(dexName, amountIn, path)) + EXTRA_HOP_GAS * BigInt(path.length - 2);
+    return { dexName, protocol: 'v2', path, amountIn, amountOut, gasEstimate };
+  }
+
+  /**
+   * Quote a path on PancakeSwap V3, picking the best fee tier hop by hop
+   */
+  private async quoteV3Route(path: string[], amountIn: bigint): Promise<RouteLeg | null> {
+    const quoter = new ethers.Contract(this.v3Quoter, this.QUOTER_V2_ABI, this.provider);
+    const fees: number[] = [];
+    let amount = amountIn;
+    let gasEstimate = V3_BASE_GAS;
+
+    for (let hop = 0; hop < path.length - 1; hop++) {
+      const results = await Promise.allSettled(
+        V3_FEE_TIERS.map(fee =>
+          quoter.getFunction('quoteExactInputSingle').staticCall({
+            tokenIn: path[hop],
+            tokenOut: path[hop + 1],
+            amountIn: amount,
+            fee,
+            sqrtPriceLimitX96: 0,
+          })
+        )
+      );
+
+      // Tiers without a pool revert; keep the best that answered
+      let hopQuote: { fee: number; amountOut: bigint; gas: bigint } | null = null;
+      for (const [i, result] of results.entries()) {
+        if (result.status !== 'fulfilled') continue;
+        const amountOut = BigInt(result.value[0]);
+        if (amountOut > (hopQuote?.amountOut ?? 0n)) {
+          hopQuote = { fee: V3_FEE_TIERS[i]!, amountOut, gas: BigInt(result.value[3]) };
+        }
+      }
+      if (!hopQuote) return null;
+
+      fees.push(hopQuote.fee);
+      amount = hopQuote.amountOut;
+      gasEstimate += hopQuote.gas;
+    }
+
+    return { dexName: V3_VENUE, protocol: 'v3', path, fees, amountIn, amountOut: amount, gasEstimate };
+  }
+
+  /**
+   * Re-quote a fixed V3 path (fee tiers already chosen) at a different size
+   */
+  private async quoteV3Path(path: string[], fees: number[], amountIn: bigint): Promise<RouteLeg | null> {
+    const quoter = new ethers.Contract(this.v3Quoter, this.QUOTER_V2_ABI, this.provider);
+    const result = await quoter.getFunction('quoteExactInput').staticCall(encodeV3Path(path, fees), amountIn);
+
+    return {
+      dexName: V3_VENUE,
+      protocol: 'v3',
+      path,
+      fees,
+      amountIn,
+      amountOut: BigInt(result[0]),
+      gasEstimate: V3_BASE_GAS + BigInt(result[3]),
+    };
+  }
+
+  private async buildQuote(dexName: string, legs: RouteLeg[], amountIn: bigint, gasCost: (gas: bigint) => bigint): Promise<DEXQuote> {
+    const outputAmount = legs.reduce((sum, leg) => sum + leg.amountOut, 0n);
+    const gasEstimate = legs.reduce((sum, leg) => sum + leg.gasEstimate, 0n);
+    const largest = legs.reduce((best, leg) => (leg.amountIn > best.amountIn ? leg : best));
+    const impact = await this.calculatePriceImpact(legs, amountIn);
+
+    return {
+      dexName,
+      inputAmount: amountIn,
+      outputAmount,
+      priceImpact: impact?.priceImpact ?? 100,
+      midPrice: impact?.midPrice,
+      executionPrice: amountIn > 0n ? Number(outputAmount) / Number(amountIn) : undefined,
+      route: largest.path,
+      gasEstimate,
+      // Effective price = output - gas cost
+      effectivePrice: outputAmount - gasCost(gasEstimate),
+      legs,
+    };
+  }
+
   /**
    * Execute trade on best DEX
    */
@@ -181,6 +334,12 @@ export class DEXAggregator {
     deadline: number,
     signer: ethers.Wallet
   ): Promise<{ success: boolean; txHash?: string; dexUsed?: string }> {
+    if (CONFIG.PAPER_TRADING) {
+      // Paper fills are settled by PancakeSwapV3 against the paper ledger
+      logger.warn('📝 Paper trading enabled - refusing to broadcast aggregator swap');
+      return { success: false };
+    }
+
     try {
       // Get best quote
       const result = await this.getBestQuote(tokenIn, tokenOut, amountIn);
@@ -191,48 +350,99 @@ export class DEXAggregator {
         };
       }
 
-      const routerAddress = this.routers[result.bestQuote.dexName as keyof typeof this.routers];
+      return await this.executeQuote(result.bestQuote, minAmountOut, deadline, signer);
+    } catch (error) {
+      logger.error('Failed to execute best trade:', error);
+      return { success: false };
+    }
+  }
+
+  /**
+   * Execute a quoted route in a single transaction.
+   * A lone V2 leg goes to its own router; V3 and split routes are batched into one
+   * Smart Router multicall, so either every leg fills or the whole swap reverts.
+   */
+  async executeQuote(
+    quote: DEXQuote,
+    minAmountOut: bigint,
+    deadline: number,
+    signer: ethers.Wallet
+  ): Promise<{ success: boolean; txHash?: string; dexUsed?: string }> {
+    const [firstLeg] = quote.legs;
+    if (!firstLeg) {
+      throw new Error(`Quote from ${quote.dexName} has no executable route`);
+    }
+    const tokenIn = firstLeg.path[0]!;
+
+    let tx: ethers.ContractTransactionResponse;
+    if (quote.legs.length === 1 && firstLeg.protocol === 'v2') {
+      const routerAddress = this.routers[firstLeg.dexName as keyof typeof this.routers];
+      await this.ensureAllowance(tokenIn, routerAddress, quote.inputAmount, signer);
+
       const router = new ethers.Contract(routerAddress, this.ROUTER_ABI, signer) as ethers.Contract & {
         swapExactTokensForTokens: (...args: any[]) => Promise<ethers.ContractTransactionResponse>;
       };
-
-      // Execute swap
-      const tx = await router.swapExactTokensForTokens(
-        amountIn,
-        minAmountOut,
-        result.bestQuote.route,
-        signer.address,
-        deadline
+      tx = await router.swapExactTokensForTokens(quote.inputAmount, minAmountOut, firstLeg.path, signer.address, deadline);
+    } else {
+      const offRouter = quote.legs.find(leg => leg.protocol === 'v2' && leg.dexName !== 'pancakeswap');
+      if (offRouter) {
+        throw new Error(`Cannot batch a ${offRouter.dexName} leg into a Smart Router multicall`);
+      }
+      await this.ensureAllowance(tokenIn, this.smartRouter, quote.inputAmount, signer);
+
+      const router = new ethers.Contract(this.smartRouter, this.SMART_ROUTER_ABI, signer);
+      const minOutputs = allocateMinOutputs(quote.legs, minAmountOut);
+      const calls = quote.legs.map((leg, i) =>
+        leg.protocol === 'v3'
+          ? router.interface.encodeFunctionData('exactInput', [{
+              path: encodeV3Path(leg.path, leg.fees!),
+              recipient: signer.address,
+              amountIn: leg.amountIn,
+              amountOutMinimum: minOutputs[i],
+            }])
+          : router.interface.encodeFunctionData('swapExactTokensForTokens', [
+              leg.amountIn, minOutputs[i], leg.path, signer.address,
+            ])
       );
+      tx = await router.getFunction('multicall')(deadline, calls);
+    }
 
-      logger.info(`🔄 Executing swap on ${result.bestQuote.dexName}: ${tx.hash}`);
+    logger.info(`🔄 Executing swap on ${quote.dexName} via ${describeLegs(quote.legs)}: ${tx.hash}`);
 
-      const receipt = await tx.wait();
+    const receipt = await tx.wait();
 
-      if (receipt && receipt.status === 1) {
-        logger.info(`✅ Swap executed successfully on ${result.bestQuote.dexName}`);
-        return {
-          success: true,
-          txHash: tx.hash,
-          dexUsed: result.bestQuote.dexName,
-        };
-      } else {
-        return { success: false };
-      }
-    } catch (error) {
-      logger.error('Failed to execute best trade:', error);
+    if (receipt && receipt.status === 1) {
+      logger.info(`✅ Swap executed successfully on ${quote.dexName}`);
+      return {
+        success: true,
+        txHash: tx.hash,
+        dexUsed: quote.dexName,
+      };
+    } else {
       return { success: false };
     }
   }
 
+  /**
+   * Approve the router for the input token when the current allowance is too low
+   */
+  private async ensureAllowance(token: string, spender: string, amount: bigint, signer: ethers.Wallet): Promise<void> {
+    const erc20 = new ethers.Contract(token, this.ERC20_ABI, signer);
+    const allowance: bigint = await erc20.getFunction('allowance')(signer.address, spender);
+    if (allowance >= amount) return;
+
+    const tx: ethers.ContractTransactionResponse = await erc20.getFunction('approve')(spender, amount);
+    await tx.wait();
+    logger.info(`🔓 Approved ${spender} to spend ${token}`);
+  }
+
   /**
    * Estimate gas for swap
    */
   private async estimateSwapGas(dexName: string, amountIn: bigint, path: string[]): Promise<bigint> {
-    // Rough estimates based on historical data
+    // Rough estimates based on historical data (single hop)
     const gasEstimates = {
       pancakeswap: 150000n,
-      pancakeswapV3: 180000n,
       biswap: 140000n,
       apeswap: 150000n,
       babyswap: 145000n,
@@ -242,44 +452,68 @@ export class DEXAggregator {
   }
 
   /**
-   * Calculate price impact
+   * Price impact from pool reserves / slot0, weighted by each leg's share of the input.
+   * Unknown (null) when any leg's pools cannot be read, e.g. a custom DEX without a known factory.
    */
-  private calculatePriceImpact(amountIn: bigint, amountOut: bigint): number {
-    // Simplified price impact calculation
-    // Real implementation would need reserve data
-    if (amountIn === 0n) return 0;
+  private async calculatePriceImpact(
+    legs: RouteLeg[],
+    amountIn: bigint
+  ): Promise<{ priceImpact: number; midPrice: number } | null> {
+    if (amountIn === 0n) return null;
+
+    const impacts = await Promise.all(legs.map(leg => this.pools.measureLeg(leg)));
+    if (impacts.some(impact => impact === null)) return null;
 
-    const ratio = Number(amountOut * BigInt(10000) / amountIn);
-    const expectedRatio = 10000; // 1:1 ratio
+    let priceImpact = 0;
+    let midPrice = 0;
+    impacts.forEach((impact, i) => {
+      const weight = Number(legs[i]!.amountIn) / Number(amountIn);
+      priceImpact += impact!.priceImpactPercent * weight;
+      midPrice += impact!.midPrice * weight;
+    });
 
-    return Math.abs(expectedRatio - ratio) / 100;
+    return { priceImpact, midPrice };
   }
 
   /**
-   * Convert gas cost to output token amount
+   * Converter from a gas estimate to its cost in the output token. The gas price and BNB
+   * price are read once; each estimate is converted whole so cheap tokens don't round to 0.
    */
-  private async convertGasCostToOutput(gasEstimate: bigint, tokenOut: string): Promise<bigint> {
+  private async gasCostInOutput(tokenOut: string): Promise<(gas: bigint) => bigint> {
+    const free = () => 0n;
     try {
       // Get current gas price
       const feeData = await this.provider.getFeeData();
       const gasPrice = feeData.gasPrice || 0n;
 
-      // Calculate gas cost in native token (BNB)
-      const gasCostBNB = gasEstimate * gasPrice;
+      // If output token is BNB, the cost is gas * price
+      if (tokenOut.toLowerCase() === BASE_TOKENS.WBNB.toLowerCase()) {
+        return gas => gas * gasPrice;
+      }
 
-      // If output token is BNB, return directly
-      const WBNB = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
-      if (tokenOut.toLowerCase() === WBNB.toLowerCase()) {
-        return gasCostBNB;
+      // Otherwise price BNB in the output token on PancakeSwap V2 (direct or through a base token)
+      const router = new ethers.Contract(this.routers.pancakeswap, this.ROUTER_ABI, this.provider) as ethers.Contract & {
+        getAmountsOut: (amountIn: bigint, path: string[]) => Promise<bigint[]>;
+      };
+      const outputs = await Promise.allSettled(
+        candidatePaths(BASE_TOKENS.WBNB, tokenOut, this.maxHops).map(async path => {
+          const amounts = await router.getAmountsOut(GAS_PRICING_BNB, path);
+          return amounts[amounts.length - 1] ?? 0n;
+        })
+      );
+      const tokensOut = outputs.reduce(
+        (best, result) => (result.status === 'fulfilled' && result.value > best ? result.value : best),
+        0n
+      );
+      if (tokensOut === 0n) {
+        logger.warn(`Failed to price gas in ${tokenOut}: no BNB route`);
+        return free;
       }
 
-      // Otherwise, convert BNB to output token
-      // This would require getting the BNB price in output token
-      // For simplicity, we'll return 0 here (implement later with price oracle)
-      return 0n;
+      return gas => (gas * gasPrice * tokensOut) / GAS_PRICING_BNB;
     } catch (error) {
       logger.warn('Failed to convert gas cost:', error);
-      return 0n;
+      return free;
     }
   }
 
@@ -295,7 +529,7 @@ export class DEXAggregator {
    */
   addCustomDEX(name: string, routerAddress: string): void {
     this.routers = { ...this.routers, [name]: routerAddress };
-    this.supportedDEXs = Object.keys(this.routers);
+    this.supportedDEXs = [...Object.keys(this.routers), V3_VENUE];
     logger.info(`Added custom DEX: ${name} at ${routerAddress}`);
   }
 }
@@ -310,4 +544,13 @@ export function getDEXAggregator(): DEXAggregator {
   return dexAggregator;
 }
 
+/**
+ * "pancakeswap WBNB>USDT + pancakeswapV3 WBNB>USDT" style summary for logs
+ */
+function describeLegs(legs: RouteLeg[]): string {
+  return legs
+    .map(leg => `${leg.dexName} ${leg.path.map(token => token.slice(0, 6)).join('>')}`)
+    .join(' + ');
+}
+
 export default DEXAggregator;
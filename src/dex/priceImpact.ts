@@ -0,0 +1,245 @@
+/**
+ * Pool-based price impact
+ * Reads V2 reserves (Multicall.getPoolReserves) and V3 slot0/liquidity for every hop of a
+ * route, derives the mid price before the trade and compares it with the execution price
+ * for the quoted size. Impact excludes the pool fee, so it measures depth, not cost.
+ */
+
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger.js';
+import { multicall, type Multicall } from '../utils/multicall.js';
+import type { RouteLeg } from './routing.js';
+
+const Q96 = 2 ** 96;
+
+// V2-style factories, their routers and nominal swap fee (basis points)
+export const V2_FACTORIES: Record<string, { factory: string; router: string; feeBps: number }> = {
+  pancakeswap: { factory: '0xcA143Ce32Fe78f1f7019d7d551a6402fC5350c73', router: '0x10ED43C718714eb63d5aA57B78B54704E256024E', feeBps: 25 },
+  biswap: { factory: '0x858E3312ed3A876947EA49d572A7C42DE08af7EE', router: '0x3a6d8cA21D1CF76F653A67577FA0D27453350dD8', feeBps: 20 },
+  apeswap: { factory: '0x0841BD0B734E4F5853f0dD8d7Ea041c241fb0Da6', router: '0xcF0feBd3f17CEf5b47b0cD257aCf6025c5BFf3b7', feeBps: 20 },
+  babyswap: { factory: '0x86407bEa2078ea5f5EB5A52B2caA963bC1F889Da', router: '0x325E343f1dE602396E256B67eFd1F61C3A6B38Bd', feeBps: 30 },
+};
+
+export const PANCAKE_V3_FACTORY = '0x0BFbCF9fa4f9C56B0F40a671Ad40E0805A091865';
+
+export interface V2PoolState {
+  protocol: 'v2';
+  address: string;
+  token0: string;
+  reserve0: bigint;
+  reserve1: bigint;
+  feeBps: number;
+}
+
+export interface V3PoolState {
+  protocol: 'v3';
+  address: string;
+  token0: string;
+  sqrtPriceX96: bigint;
+  liquidity: bigint; // active liquidity at the current tick
+  fee: number; // hundredths of a bip
+}
+
+export type PoolState = V2PoolState | V3PoolState;
+
+export interface LegImpact {
+  midPrice: number; // output per input (raw units) before the trade
+  executionPrice: number; // output per input (raw units) for the quoted size
+  priceImpactPercent: number;
+  feePercent: number; // combined pool fees along the path
+}
+
+function isToken0(pool: PoolState, token: string): boolean {
+  return pool.token0.toLowerCase() === token.toLowerCase();
+}
+
+/**
+ * Pool fee as a fraction
+ */
+export function poolFee(pool: PoolState): number {
+  return pool.protocol === 'v2' ? pool.feeBps / 10_000 : pool.fee / 1_000_000;
+}
+
+/**
+ * Output per unit of tokenIn (raw units) at the current pool price
+ */
+export function poolMidPrice(pool: PoolState, tokenIn: string): number {
+  if (pool.protocol === 'v2') {
+    const [reserveIn, reserveOut] = isToken0(pool, tokenIn)
+      ? [pool.reserve0, pool.reserve1]
+      : [pool.reserve1, pool.reserve0];
+    return reserveIn === 0n ? 0 : Number(reserveOut) / Number(reserveIn);
+  }
+
+  const sqrtPrice = Number(pool.sqrtPriceX96) / Q96; // sqrt(token1 per token0)
+  const price = sqrtPrice * sqrtPrice;
+  if (price === 0) return 0;
+  return isToken0(pool, tokenIn) ? price : 1 / price;
+}
+
+/**
+ * Expected output of a swap against the pool state.
+ * V2 is exact; V3 assumes the active liquidity holds for the whole swap, which
+ * understates impact when the trade crosses into thinner ticks.
+ */
+export function simulateSwap(pool: PoolState, tokenIn: string, amountIn: bigint): bigint {
+  if (amountIn <= 0n) return 0n;
+
+  if (pool.protocol === 'v2') {
+    const [reserveIn, reserveOut] = isToken0(pool, tokenIn)
+      ? [pool.reserve0, pool.reserve1]
+      : [pool.reserve1, pool.reserve0];
+    const amountInWithFee = amountIn * BigInt(10_000 - pool.feeBps);
+    const denominator = reserveIn * 10_000n + amountInWithFee;
+    return denominator === 0n ? 0n : (amountInWithFee * reserveOut) / denominator;
+  }
+
+  const liquidity = Number(pool.liquidity);
+  const sqrtPrice = Number(pool.sqrtPriceX96) / Q96;
+  if (liquidity === 0 || sqrtPrice === 0) return 0n;
+
+  const amount = Number(amountIn) * (1 - poolFee(pool));
+  let amountOut: number;
+  if (isToken0(pool, tokenIn)) {
+    // token0 in pushes the price down: 1/sqrtP' = 1/sqrtP + amount/L
+    const next = (liquidity * sqrtPrice) / (liquidity + amount * sqrtPrice);
+    amountOut = liquidity * (sqrtPrice - next);
+  } else {
+    // token1 in pushes the price up: sqrtP' = sqrtP + amount/L
+    const next = sqrtPrice + amount / liquidity;
+    amountOut = liquidity * (1 / sqrtPrice - 1 / next);
+  }
+
+  return amountOut > 0 ? BigInt(Math.floor(amountOut)) : 0n;
+}
+
+/**
+ * Mid price, execution price and impact for a route through the given pools.
+ * Uses the quoted output when available, otherwise simulates against the pool state.
+ */
+export function legImpact(path: string[], pools: PoolState[], amountIn: bigint, amountOut?: bigint): LegImpact {
+  if (pools.length !== path.length - 1) {
+    throw new Error(`Route has ${path.length - 1} hops but ${pools.length} pools`);
+  }
+
+  let midPrice = 1;
+  let feeFactor = 1;
+  let simulated = amountIn;
+  pools.forEach((pool, hop) => {
+    midPrice *= poolMidPrice(pool, path[hop]!);
+    feeFactor *= 1 - poolFee(pool);
+    simulated = simulateSwap(pool, path[hop]!, simulated);
+  });
+
+  const output = amountOut ?? simulated;
+  const executionPrice = amountIn === 0n ? 0 : Number(output) / Number(amountIn);
+  const noImpactPrice = midPrice * feeFactor;
+  const priceImpactPercent = noImpactPrice > 0
+    ? Math.max(0, (1 - executionPrice / noImpactPrice) * 100)
+    : 100;
+
+  return { midPrice, executionPrice, priceImpactPercent, feePercent: (1 - feeFactor) * 100 };
+}
+
+/**
+ * Loads pool state for route legs in two multicall round trips
+ * (pool addresses, then reserves / slot0 + liquidity). Pool addresses are cached.
+ */
+export class PoolStateReader {
+  private addresses: Map<string, string | null> = new Map();
+
+  private readonly factoryV2 = new ethers.Interface([
+    'function getPair(address tokenA, address tokenB) external view returns (address pair)',
+  ]);
+  private readonly factoryV3 = new ethers.Interface([
+    'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)',
+  ]);
+  private readonly poolV3 = new ethers.Interface([
+    'function slot0() external view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint32 feeProtocol, bool unlocked)',
+    'function liquidity() external view returns (uint128)',
+  ]);
+
+  constructor(private client: Multicall = multicall) {}
+
+  /**
+   * Pools along a leg's path, or null when a hop has no known pool on that venue
+   */
+  async readLeg(leg: RouteLeg): Promise<PoolState[] | null> {
+    const hops = leg.path.slice(0, -1).map((token, i) => ({
+      tokenA: token,
+      tokenB: leg.path[i + 1]!,
+      key: this.poolKey(leg, i),
+      fee: leg.fees?.[i],
+    }));
+    if (hops.some(hop => hop.key === null)) return null;
+
+    // 1. Resolve pool addresses not seen before
+    const missing = hops.filter(hop => !this.addresses.has(hop.key!));
+    if (missing.length > 0) {
+      const results = await this.client.call(missing.map(hop =>
+        leg.protocol === 'v3'
+          ? { target: PANCAKE_V3_FACTORY, callData: this.factoryV3.encodeFunctionData('getPool', [hop.tokenA, hop.tokenB, hop.fee]) }
+          : { target: V2_FACTORIES[leg.dexName]!.factory, callData: this.factoryV2.encodeFunctionData('getPair', [hop.tokenA, hop.tokenB]) }
+      ));
+      results.forEach((result, i) => {
+        const address = result.success ? ethers.AbiCoder.defaultAbiCoder().decode(['address'], result.returnData)[0] as string : ethers.ZeroAddress;
+        this.addresses.set(missing[i]!.key!, address === ethers.ZeroAddress ? null : address);
+      });
+    }
+
+    const poolAddresses = hops.map(hop => this.addresses.get(hop.key!));
+    if (poolAddresses.some(address => !address)) return null;
+    const token0s = hops.map(hop => (hop.tokenA.toLowerCase() < hop.tokenB.toLowerCase() ? hop.tokenA : hop.tokenB));
+
+    // 2. Read current state
+    if (leg.protocol === 'v2') {
+      const reserves = await this.client.getPoolReserves(poolAddresses as string[]);
+      if (reserves.some(reserve => !reserve.success)) return null;
+      return reserves.map((reserve, i): V2PoolState => ({
+        protocol: 'v2',
+        address: reserve.pairAddress,
+        token0: token0s[i]!,
+        reserve0: BigInt(reserve.reserve0),
+        reserve1: BigInt(reserve.reserve1),
+        feeBps: V2_FACTORIES[leg.dexName]!.feeBps,
+      }));
+    }
+
+    const results = await this.client.call(poolAddresses.flatMap(address => [
+      { target: address!, callData: this.poolV3.encodeFunctionData('slot0', []) },
+      { target: address!, callData: this.poolV3.encodeFunctionData('liquidity', []) },
+    ]));
+    if (results.some(result => !result.success)) return null;
+
+    return poolAddresses.map((address, i): V3PoolState => ({
+      protocol: 'v3',
+      address: address!,
+      token0: token0s[i]!,
+      sqrtPriceX96: BigInt(this.poolV3.decodeFunctionResult('slot0', results[i * 2]!.returnData)[0]),
+      liquidity: BigInt(this.poolV3.decodeFunctionResult('liquidity', results[i * 2 + 1]!.returnData)[0]),
+      fee: leg.fees![i]!,
+    }));
+  }
+
+  /**
+   * Impact of a quoted leg, or null when its pools cannot be read
+   */
+  async measureLeg(leg: RouteLeg): Promise<LegImpact | null> {
+    try {
+      const pools = await this.readLeg(leg);
+      return pools ? legImpact(leg.path, pools, leg.amountIn, leg.amountOut) : null;
+    } catch (error) {
+      logger.warn(`Failed to read pools for ${leg.dexName}:`, (error as Error).message);
+      return null;
+    }
+  }
+
+  private poolKey(leg: RouteLeg, hop: number): string | null {
+    const [a, b] = [leg.path[hop]!.toLowerCase(), leg.path[hop + 1]!.toLowerCase()].sort();
+    if (leg.protocol === 'v3') {
+      const fee = leg.fees?.[hop];
+      return fee === undefined ? null : `v3:${a}:${b}:${fee}`;
+    }
+    return V2_FACTORIES[leg.dexName] ? `${leg.dexName}:${a}:${b}` : null;
+  }
+}
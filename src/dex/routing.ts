@@ -0,0 +1,151 @@
+/**
+ * Route construction helpers for the DEX aggregator
+ * Candidate paths through base tokens, V3 path encoding and split search.
+ * Everything here is pure; quoting and execution live in dexAggregator.ts.
+ */
+
+import { ethers } from 'ethers';
+
+// Liquid base tokens on BSC used as intermediate hops
+export const BASE_TOKENS = {
+  WBNB: '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c',
+  USDT: '0x55d398326f99059fF775485246999027B3197955',
+  BUSD: '0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56',
+  USDC: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d',
+};
+
+// PancakeSwap V3 fee tiers (hundredths of a bip)
+export const V3_FEE_TIERS = [100, 500, 2500, 10000];
+
+// Fractions of the input tried for the first leg of a two-way split
+export const SPLIT_STEPS = [0.2, 0.4, 0.5, 0.6, 0.8];
+
+export interface RouteLeg {
+  dexName: string;
+  protocol: 'v2' | 'v3';
+  path: string[];
+  fees?: number[]; // V3 fee tier per hop (path.length - 1 entries)
+  amountIn: bigint;
+  amountOut: bigint;
+  gasEstimate: bigint;
+}
+
+/**
+ * Quote function for one route at a given input size
+ * (returns null when the route has no liquidity)
+ */
+export type LegQuoter = (amountIn: bigint) => Promise<RouteLeg | null>;
+
+export interface SplitResult {
+  legs: RouteLeg[];
+  amountOut: bigint;
+  gasEstimate: bigint;
+}
+
+/**
+ * Direct path plus every path through up to (maxHops - 1) distinct base tokens
+ */
+export function candidatePaths(
+  tokenIn: string,
+  tokenOut: string,
+  maxHops: number = 2,
+  intermediates: string[] = Object.values(BASE_TOKENS)
+): string[][] {
+  const endpoints = new Set([tokenIn.toLowerCase(), tokenOut.toLowerCase()]);
+  const bases = intermediates.filter(token => !endpoints.has(token.toLowerCase()));
+  const paths: string[][] = [[tokenIn, tokenOut]];
+
+  const extend = (prefix: string[]) => {
+    if (prefix.length >= maxHops) return; // prefix.length hops once tokenOut is appended
+    for (const base of bases) {
+      if (prefix.some(token => token.toLowerCase() === base.toLowerCase())) continue;
+      const next = [...prefix, base];
+      paths.push([...next, tokenOut]);
+      extend(next);
+    }
+  };
+  extend([tokenIn]);
+
+  return paths;
+}
+
+/**
+ * V3 packed path: token (20 bytes) | fee (3 bytes) | token | ...
+ */
+export function encodeV3Path(path: string[], fees: number[]): string {
+  if (fees.length !== path.length - 1) {
+    throw new Error(`V3 path needs ${path.length - 1} fee tiers, got ${fees.length}`);
+  }
+
+  const types: string[] = [];
+  const values: Array<string | number> = [];
+  path.forEach((token, i) => {
+    types.push('address');
+    values.push(token);
+    if (i < fees.length) {
+      types.push('uint24');
+      values.push(fees[i]!);
+    }
+  });
+
+  return ethers.solidityPacked(types, values);
+}
+
+/**
+ * Best two-way split of amountIn between two routes, by output net of gas.
+ * Falls back to the better single route when no split beats it.
+ */
+export async function findBestSplit(
+  amountIn: bigint,
+  routeA: LegQuoter,
+  routeB: LegQuoter,
+  gasCostInOutput: (gas: bigint) => bigint = () => 0n,
+  steps: number[] = SPLIT_STEPS
+): Promise<SplitResult | null> {
+  const net = (result: SplitResult) => result.amountOut - gasCostInOutput(result.gasEstimate);
+  const single = async (quote: LegQuoter): Promise<SplitResult | null> => {
+    const leg = await quote(amountIn);
+    return leg && leg.amountOut > 0n ? { legs: [leg], amountOut: leg.amountOut, gasEstimate: leg.gasEstimate } : null;
+  };
+
+  let best: SplitResult | null = null;
+  const consider = (candidate: SplitResult | null) => {
+    if (candidate && (!best || net(candidate) > net(best))) best = candidate;
+  };
+
+  consider(await single(routeA));
+  consider(await single(routeB));
+
+  for (const step of steps) {
+    const amountA = (amountIn * BigInt(Math.round(step * 10000))) / 10000n;
+    const amountB = amountIn - amountA;
+    if (amountA === 0n || amountB === 0n) continue;
+
+    const [legA, legB] = await Promise.all([routeA(amountA), routeB(amountB)]);
+    if (!legA || !legB || legA.amountOut === 0n || legB.amountOut === 0n) continue;
+
+    consider({
+      legs: [legA, legB],
+      amountOut: legA.amountOut + legB.amountOut,
+      gasEstimate: legA.gasEstimate + legB.gasEstimate,
+    });
+  }
+
+  return best;
+}
+
+/**
+ * Minimum output for each leg so that the legs together honour minAmountOut
+ */
+export function allocateMinOutputs(legs: RouteLeg[], minAmountOut: bigint): bigint[] {
+  const total = legs.reduce((sum, leg) => sum + leg.amountOut, 0n);
+  if (total === 0n) return legs.map(() => 0n);
+
+  const mins = legs.map(leg => (minAmountOut * leg.amountOut) / total);
+  // Rounding down can leave the sum a few wei short; the largest leg absorbs it
+  const shortfall = minAmountOut - mins.reduce((sum, min) => sum + min, 0n);
+  const largest = legs.reduce((best, leg, i) => (leg.amountOut > legs[best]!.amountOut ? i : best), 0);
+  mins[largest] = mins[largest]! + shortfall;
+
+  return mins;
+}
@@ -0,0 +1,394 @@
+/**
+ * Flash Loan Cycle Finder
+ * Builds a token graph from the V2 pools of PancakeSwap, Biswap, ApeSwap and BabySwap
+ * (edge weight = -ln(price after fee) from Multicall.getPoolReserves), enumerates cycles
+ * with negative total weight, sizes each one for maximum profit net of the PancakeSwap V3
+ * flash fee and encodes the FlashLoanArbitrage.executeFlashLoanArbitrage call.
+ */
+
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger.js';
+import { CONFIG } from '../config.js';
+import { multicall, type Multicall } from '../utils/multicall.js';
+import { V2_FACTORIES, PANCAKE_V3_FACTORY, poolMidPrice, simulateSwap, type V2PoolState } from '../dex/priceImpact.js';
+import { BASE_TOKENS, V3_FEE_TIERS, encodeV3Path } from '../dex/routing.js';
+import { FLASH_LOAN_ARBITRAGE_ABI } from '../contracts/abis.js';
+
+// Tokens searched when FLASHLOAN_CYCLE_TOKENS is unset: routing base tokens plus BTCB, ETH and CAKE
+export const DEFAULT_CYCLE_TOKENS = [
+  ...Object.values(BASE_TOKENS),
+  '0x7130d2A12B9BCbFAe4f2634d864A1Ee1Ce3Ead9c', // BTCB
+  '0x2170Ed0880ac9A755fd29B2688956BD959F933F8', // ETH
+  '0x0E09FaBB73Bd3Ade0a17ECC321fD13a19e81cE82', // CAKE
+];
+
+// FlashLoanArbitrage.HopKind
+export const HOP_KIND = { V2: 0, V3: 1 } as const;
+
+export interface PoolEdge {
+  dex: string;
+  pool: V2PoolState;
+  tokenIn: string;
+  tokenOut: string;
+  weight: number; // -ln(mid price after fee); a cycle is profitable at the margin when the sum is negative
+}
+
+/** Adjacency list keyed by lowercased tokenIn */
+export type PoolGraph = Map<string, PoolEdge[]>;
+
+/** PancakeSwap V3 pool the loan is borrowed from; the flash fee equals its fee tier */
+export interface FlashPool {
+  address: string;
+  token0: string;
+  token1: string;
+  fee: number; // hundredths of a bip
+  balance0: bigint;
+  balance1: bigint;
+}
+
+export interface CycleSizing {
+  amountIn: bigint;
+  amountOut: bigint;
+  flashFee: bigint;
+  profit: bigint;
+}
+
+export interface ArbitrageCycle extends CycleSizing {
+  loanToken: string;
+  hops: PoolEdge[];
+  path: string[]; // loanToken, ..., loanToken
+  marginalReturnPercent: number; // return on an infinitesimal input, before the flash fee
+  profitPercent: number;
+  flashPool: FlashPool;
+}
+
+/** FlashLoanArbitrage.Hop: one router call */
+export interface ArbitrageHop {
+  kind: number;
+  router: string;
+  path: string; // V2: abi-encoded address[], V3: packed token | fee | token ...
+}
+
+/** Struct taken by FlashLoanArbitrage.executeFlashLoanArbitrage */
+export interface ArbitrageCallParams {
+  hops: ArbitrageHop[];
+  minProfit: bigint;
+}
+
+const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+function balanceOf(pool: FlashPool, token: string): bigint {
+  return same(pool.token0, token) ? pool.balance0 : same(pool.token1, token) ? pool.balance1 : 0n;
+}
+
+/**
+ * Directed edges for both sides of every pool with liquidity
+ */
+export function buildGraph(pools: Array<{ dex: string; pool: V2PoolState; token1: string }>): PoolGraph {
+  const graph: PoolGraph = new Map();
+  for (const { dex, pool, token1 } of pools) {
+    if (pool.reserve0 === 0n || pool.reserve1 === 0n) continue;
+    for (const [tokenIn, tokenOut] of [[pool.token0, token1], [token1, pool.token0]] as const) {
+      const weight = -Math.log(poolMidPrice(pool, tokenIn) * (1 - pool.feeBps / 10_000));
+      const key = tokenIn.toLowerCase();
+      if (!graph.has(key)) graph.set(key, []);
+      graph.get(key)!.push({ dex, pool, tokenIn, tokenOut, weight });
+    }
+  }
+  return graph;
+}
+
+/**
+ * Simple cycles of 2..maxHops edges that start and end at one of the loan tokens and have
+ * negative total weight. Two-hop cycles are necessarily cross-venue (one pair per factory).
+ */
+export function searchCycles(graph: PoolGraph, loanTokens: string[], maxHops: number): PoolEdge[][] {
+  const cycles: PoolEdge[][] = [];
+
+  for (const loanToken of loanTokens) {
+    const start = loanToken.toLowerCase();
+    const visited = new Set<string>([start]);
+    const stack: PoolEdge[] = [];
+
+    const walk = (token: string, weight: number) => {
+      for (const edge of graph.get(token) || []) {
+        const next = edge.tokenOut.toLowerCase();
+        if (next === start) {
+          if (stack.length >= 1 && weight + edge.weight < 0) cycles.push([...stack, edge]);
+          continue;
+        }
+        if (visited.has(next) || stack.length + 1 >= maxHops) continue;
+        visited.add(next);
+        stack.push(edge);
+        walk(next, weight + edge.weight);
+        stack.pop();
+        visited.delete(next);
+      }
+    };
+    walk(start, 0);
+  }
+
+  return cycles;
+}
+
+/**
+ * Output of running amountIn through every hop against the current reserves
+ */
+export function cycleOutput(hops: PoolEdge[], amountIn: bigint): bigint {
+  return hops.reduce((amount, hop) => simulateSwap(hop.pool, hop.tokenIn, amount), amountIn);
+}
+
+/**
+ * Input that maximises output - input - flash fee, found by ternary search over
+ * [0, maxIn] (the profit of a chain of constant-product swaps is concave in the input)
+ */
+export function optimalInput(hops: PoolEdge[], flashFeePpm: number, maxIn: bigint): CycleSizing {
+  const fee = BigInt(flashFeePpm);
+  const evaluate = (amountIn: bigint): CycleSizing => {
+    const amountOut = cycleOutput(hops, amountIn);
+    const flashFee = (amountIn * fee + 999_999n) / 1_000_000n; // the pool rounds the fee up
+    return { amountIn, amountOut, flashFee, profit: amountOut - amountIn - flashFee };
+  };
+
+  let lo = 0n;
+  let hi = maxIn;
+  while (hi - lo > 2n) {
+    const m1 = lo + (hi - lo) / 3n;
+    const m2 = hi - (hi - lo) / 3n;
+    if (evaluate(m1).profit < evaluate(m2).profit) lo = m1 + 1n;
+    else hi = m2 - 1n;
+  }
+
+  let best = evaluate(lo);
+  for (let amount = lo + 1n; amount <= hi; amount++) {
+    const candidate = evaluate(amount);
+    if (candidate.profit > best.profit) best = candidate;
+  }
+  return best;
+}
+
+/**
+ * Hop through a V2-style router along a token path
+ */
+export function v2Hop(router: string, path: string[]): ArbitrageHop {
+  return { kind: HOP_KIND.V2, router, path: ethers.AbiCoder.defaultAbiCoder().encode(['address[]'], [path]) };
+}
+
+/**
+ * Hop through V3 pools via the Smart Router (one fee tier per pool)
+ */
+export function v3Hop(router: string, path: string[], fees: number[]): ArbitrageHop {
+  return { kind: HOP_KIND.V3, router, path: encodeV3Path(path, fees) };
+}
+
+/**
+ * Map a cycle onto contract hops: consecutive swaps on the same venue share one router call
+ */
+export function toArbitrageParams(cycle: ArbitrageCycle, minProfit: bigint): ArbitrageCallParams {
+  const segments: PoolEdge[][] = [];
+  for (const hop of cycle.hops) {
+    const last = segments[segments.length - 1];
+    if (last && last[0]!.dex === hop.dex) last.push(hop);
+    else segments.push([hop]);
+  }
+
+  return {
+    hops: segments.map(legs => v2Hop(V2_FACTORIES[legs[0]!.dex]!.router, [legs[0]!.tokenIn, ...legs.map(hop => hop.tokenOut)])),
+    minProfit,
+  };
+}
+
+/**
+ * Calldata for FlashLoanArbitrage.executeFlashLoanArbitrage, borrowing the cycle input from its flash pool
+ */
+export function encodeFlashLoanArbitrage(cycle: ArbitrageCycle, minProfit: bigint): string {
+  const borrowToken0 = same(cycle.flashPool.token0, cycle.loanToken);
+  return new ethers.Interface(FLASH_LOAN_ARBITRAGE_ABI).encodeFunctionData('executeFlashLoanArbitrage', [
+    cycle.flashPool.address,
+    borrowToken0 ? cycle.amountIn : 0n,
+    borrowToken0 ? 0n : cycle.amountIn,
+    toArbitrageParams(cycle, minProfit),
+  ]);
+}
+
+/**
+ * Discovers pools and flash pools with multicall and returns sized, profitable cycles.
+ * Pair and pool addresses are cached; reserves and balances are re-read on every scan.
+ */
+export class CycleFinder {
+  private pairs: Map<string, string | null> = new Map();
+  private flashPoolAddresses: Map<string, string | null> = new Map();
+
+  private readonly factoryV2 = new ethers.Interface([
+    'function getPair(address tokenA, address tokenB) external view returns (address pair)',
+  ]);
+  private readonly factoryV3 = new ethers.Interface([
+    'function getPool(address tokenA, address tokenB, uint24 fee) external view returns (address pool)',
+  ]);
+  private readonly erc20 = new ethers.Interface([
+    'function balanceOf(address account) external view returns (uint256)',
+  ]);
+
+  constructor(
+    private client: Multicall = multicall,
+    private tokens: string[] = CONFIG.FLASHLOAN_CYCLE_TOKENS.length > 0 ? CONFIG.FLASHLOAN_CYCLE_TOKENS : DEFAULT_CYCLE_TOKENS,
+    private maxHops: number = CONFIG.FLASHLOAN_MAX_HOPS
+  ) {}
+
+  /**
+   * Profitable cycles at their optimal size, best return first
+   */
+  async findCycles(minProfitPercentage: number = 0): Promise<ArbitrageCycle[]> {
+    const pools = await this.discoverPools();
+    const graph = buildGraph(pools);
+    const flashPools = await this.discoverFlashPools();
+    const candidates = searchCycles(graph, this.tokens, this.maxHops);
+
+    logger.info(`🔁 ${pools.length} pools, ${candidates.length} cycles with a positive marginal return`);
+
+    const cycles: ArbitrageCycle[] = [];
+    for (const hops of candidates) {
+      const cycle = this.sizeCycle(hops, flashPools);
+      if (cycle && cycle.profit > 0n && cycle.profitPercent >= minProfitPercentage) cycles.push(cycle);
+    }
+
+    return cycles.sort((a, b) => b.profitPercent - a.profitPercent);
+  }
+
+  /**
+   * Best sizing across the flash pools that hold the loan token
+   */
+  private sizeCycle(hops: PoolEdge[], flashPools: FlashPool[]): ArbitrageCycle | null {
+    const loanToken = hops[0]!.tokenIn;
+    const first = hops[0]!.pool;
+    const reserveIn = same(first.token0, loanToken) ? first.reserve0 : first.reserve1;
+
+    let best: ArbitrageCycle | null = null;
+    for (const flashPool of flashPools) {
+      const available = balanceOf(flashPool, loanToken);
+      if (available === 0n) continue;
+
+      const sizing = optimalInput(hops, flashPool.fee, available < reserveIn ? available : reserveIn);
+      if (sizing.amountIn === 0n || (best && sizing.profit <= best.profit)) continue;
+
+      best = {
+        ...sizing,
+        loanToken,
+        hops,
+        path: [loanToken, ...hops.map(hop => hop.tokenOut)],
+        marginalReturnPercent: (Math.exp(-hops.reduce((sum, hop) => sum + hop.weight, 0)) - 1) * 100,
+        profitPercent: Number((sizing.profit * 1_000_000n) / sizing.amountIn) / 10_000,
+        flashPool,
+      };
+    }
+    return best;
+  }
+
+  /**
+   * Every V2 pair between the cycle tokens on each venue, with current reserves
+   */
+  private async discoverPools(): Promise<Array<{ dex: string; pool: V2PoolState; token1: string }>> {
+    const candidates: Array<{ dex: string; key: string; token0: string; token1: string }> = [];
+    for (const dex of Object.keys(V2_FACTORIES)) {
+      this.tokens.forEach((tokenA, i) => {
+        for (const tokenB of this.tokens.slice(i + 1)) {
+          const [token0, token1] = tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
+          candidates.push({ dex, key: `${dex}:${token0.toLowerCase()}:${token1.toLowerCase()}`, token0, token1 });
+        }
+      });
+    }
+
+    const missing = candidates.filter(candidate => !this.pairs.has(candidate.key));
+    if (missing.length > 0) {
+      const results = await this.client.call(missing.map(candidate => ({
+        target: V2_FACTORIES[candidate.dex]!.factory,
+        callData: this.factoryV2.encodeFunctionData('getPair', [candidate.token0, candidate.token1]),
+      })));
+      results.forEach((result, i) => this.pairs.set(missing[i]!.key, this.decodeAddress(result)));
+    }
+
+    const found = candidates.filter(candidate => this.pairs.get(candidate.key));
+    const reserves = await this.client.getPoolReserves(found.map(candidate => this.pairs.get(candidate.key)!));
+
+    return reserves.flatMap((reserve, i) => {
+      const candidate = found[i]!;
+      if (!reserve.success) return [];
+      return [{
+        dex: candidate.dex,
+        token1: candidate.token1,
+        pool: {
+          protocol: 'v2' as const,
+          address: reserve.pairAddress,
+          token0: candidate.token0,
+          reserve0: BigInt(reserve.reserve0),
+          reserve1: BigInt(reserve.reserve1),
+          feeBps: V2_FACTORIES[candidate.dex]!.feeBps,
+        },
+      }];
+    });
+  }
+
+  /**
+   * PancakeSwap V3 pools between the cycle tokens (every fee tier) and their token balances
+   */
+  private async discoverFlashPools(): Promise<FlashPool[]> {
+    const candidates: Array<{ key: string; token0: string; token1: string; fee: number }> = [];
+    this.tokens.forEach((tokenA, i) => {
+      for (const tokenB of this.tokens.slice(i + 1)) {
+        const [token0, token1] = tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
+        for (const fee of V3_FEE_TIERS) {
+          candidates.push({ key: `v3:${token0.toLowerCase()}:${token1.toLowerCase()}:${fee}`, token0, token1, fee });
+        }
+      }
+    });
+
+    const missing = candidates.filter(candidate => !this.flashPoolAddresses.has(candidate.key));
+    if (missing.length > 0) {
+      const results = await this.client.call(missing.map(candidate => ({
+        target: PANCAKE_V3_FACTORY,
+        callData: this.factoryV3.encodeFunctionData('getPool', [candidate.token0, candidate.token1, candidate.fee]),
+      })));
+      results.forEach((result, i) => this.flashPoolAddresses.set(missing[i]!.key, this.decodeAddress(result)));
+    }
+
+    const found = candidates.filter(candidate => this.flashPoolAddresses.get(candidate.key));
+    if (found.length === 0) return [];
+
+    const balances = await this.client.call(found.flatMap(candidate => {
+      const pool = this.flashPoolAddresses.get(candidate.key)!;
+      return [
+        { target: candidate.token0, callData: this.erc20.encodeFunctionData('balanceOf', [pool]) },
+        { target: candidate.token1, callData: this.erc20.encodeFunctionData('balanceOf', [pool]) },
+      ];
+    }));
+    const balance = (index: number) => {
+      const result = balances[index]!;
+      return result.success ? BigInt(this.erc20.decodeFunctionResult('balanceOf', result.returnData)[0]) : 0n;
+    };
+
+    return found.map((candidate, i): FlashPool => ({
+      address: this.flashPoolAddresses.get(candidate.key)!,
+      token0: candidate.token0,
+      token1: candidate.token1,
+      fee: candidate.fee,
+      balance0: balance(i * 2),
+      balance1: balance(i * 2 + 1),
+    }));
+  }
+
+  private decodeAddress(result: { success: boolean; returnData: string }): string | null {
+    if (!result.success) return null;
+    const address = ethers.AbiCoder.defaultAbiCoder().decode(['address'], result.returnData)[0] as string;
+    return address === ethers.ZeroAddress ? null : address;
+  }
+}
+
+// Singleton instance
+let cycleFinder: CycleFinder | null = null;
+
+export function getCycleFinder(): CycleFinder {
+  if (!cycleFinder) {
+    cycleFinder = new CycleFinder();
+  }
+  return cycleFinder;
+}
@@ -7,6 +7,7 @@ import { ethers } from 'ethers';
 import { logger } from '../utils/logger.js';
 import { CONFIG } from '../config.js';
 import { getDEXAggregator } from '../dex/dexAggregator.js';
+import { encodeFlashLoanArbitrage, getCycleFinder, type ArbitrageCycle } from './cycleFinder.js';
 
 export interface FlashLoanParams {
   tokenAddress: string;
@@ -21,6 +22,7 @@ export interface ArbitrageStrategy {
   tokenIn: string;
   tokenOut: string;
   expectedProfit: bigint;
+  cycle?: ArbitrageCycle; // sized multi-hop path from the cycle finder
 }
 
 export class FlashLoanExecutor {
@@ -51,10 +53,14 @@ export class FlashLoanExecutor {
     loanToken: string,
     loanAmount: bigint,
     strategy: ArbitrageStrategy
-  ): Promise<{ success: boolean; profit?: bigint; txHash?: string }> {
+  ): Promise<{ success: boolean; profit?: bigint; txHash?: string; calldata?: string }> {
     try {
       logger.info(`⚡ Initiating flash loan arbitrage: ${ethers.formatEther(loanAmount)} tokens`);
 
+      if (strategy.cycle) {
+        return this.planCycle(strategy.cycle);
+      }
+
       // Simulate the arbitrage first
       const simulation = await this.simulateArbitrage(loanAmount, strategy);
 
@@ -141,7 +147,29 @@ export class FlashLoanExecutor {
   }
 
   /**
-   * Find profitable flash loan opportunities
+   * executeFlashLoanArbitrage calldata for a sized cycle; the contract reverts unless it
+   * returns at least FLASHLOAN_MIN_PROFIT_SHARE of the simulated profit
+   */
+  cycleCalldata(cycle: ArbitrageCycle): { calldata: string; minProfit: bigint } {
+    const minProfit = (cycle.profit * BigInt(Math.round(CONFIG.FLASHLOAN_MIN_PROFIT_SHARE * 10_000))) / 10_000n;
+    return { calldata: encodeFlashLoanArbitrage(cycle, minProfit), minProfit };
+  }
+
+  private planCycle(cycle: ArbitrageCycle): { success: boolean; profit?: bigint; calldata?: string } {
+    const { calldata, minProfit } = this.cycleCalldata(cycle);
+
+    logger.info('Flash loan execution plan:');
+    logger.info(`1. Borrow ${cycle.amountIn} of ${cycle.loanToken} from ${cycle.flashPool.address} (fee ${cycle.flashFee})`);
+    cycle.hops.forEach((hop, i) => logger.info(`${i + 2}. Swap ${hop.tokenIn} → ${hop.tokenOut} on ${hop.dex}`));
+    logger.info(`${cycle.hops.length + 2}. Repay loan + fee, keep at least ${minProfit}`);
+
+    // Sending requires the deployed FlashLoanArbitrage contract (FLASH_LOAN_ARBITRAGE_CONTRACT)
+    return { success: false, profit: cycle.profit, calldata };
+  }
+
+  /**
+   * Find profitable flash loan opportunities: cross-venue and triangular cycles over
+   * PancakeSwap / Biswap / ApeSwap / BabySwap pools, sized for maximum profit
    */
   async findFlashLoanOpportunities(
     minProfitPercentage: number = 0.5
@@ -149,73 +177,23 @@ export class FlashLoanExecutor {
     try {
       logger.info('🔍 Scanning for flash loan arbitrage opportunities...');
 
-      const opportunities: ArbitrageStrategy[] = [];
-
-      // Common token pairs on BSC
-      const WBNB = '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
-      const BUSD = '0xe9e7CEA3DedcA5984780Bafc599bD69ADd087D56';
-      const USDT = '0x55d398326f99059fF775485246999027B3197955';
-      const BTCB = '0x7130d2A12B9BCbFAe4f2634d864A1Ee1Ce3Ead9c';
-      const ETH = '0x2170Ed0880ac9A755fd29B2688956BD959F933F8';
-
-      const pairs = [
-        [WBNB, BUSD],
-        [WBNB, USDT],
-        [BUSD, USDT],
-        [BTCB, WBNB],
-        [ETH, WBNB],
-      ];
-
-      // Test loan amounts (in units)
-      const testAmounts = [
-        ethers.parseEther('100'),    // 100 BNB
-        ethers.parseEther('1000'),   // 1000 BNB
-        ethers.parseEther('10000'),  // 10000 BNB
-      ];
-
-      const dexes = this.dexAggregator.getSupportedDEXs();
-
-      // Check all combinations
-      for (const [tokenIn, tokenOut] of pairs) {
-        if (!tokenIn || !tokenOut) continue;
-        
-        for (const loanAmount of testAmounts) {
-          for (let i = 0; i < dexes.length; i++) {
-            for (let j = 0; j < dexes.length; j++) {
-              if (i === j) continue; // Skip same DEX
-
-              const buyDEX = dexes[i];
-              const sellDEX = dexes[j];
-              if (!buyDEX || !sellDEX) continue;
-
-              const strategy: ArbitrageStrategy = {
-                buyDEX,
-                sellDEX,
-                tokenIn,
-                tokenOut,
-                expectedProfit: 0n,
-              };
-
-              const simulation = await this.simulateArbitrage(loanAmount, strategy);
-
-              if (simulation.profitable && simulation.profitPercentage >= minProfitPercentage) {
-                strategy.expectedProfit = simulation.profit;
-                opportunities.push(strategy);
-
-                logger.info(
-                  `✅ Found opportunity: Buy ${tokenOut} on ${strategy.buyDEX}, sell on ${strategy.sellDEX} - ${simulation.profitPercentage.toFixed(2)}% profit`
-                );
-              }
-            }
-          }
-        }
+      const cycles = await getCycleFinder().findCycles(minProfitPercentage);
+      const opportunities = cycles.map((cycle): ArbitrageStrategy => ({
+        buyDEX: cycle.hops[0]!.dex,
+        sellDEX: cycle.hops[cycle.hops.length - 1]!.dex,
+        tokenIn: cycle.loanToken,
+        tokenOut: cycle.hops[0]!.tokenOut,
+        expectedProfit: cycle.profit,
+        cycle,
+      }));
+
+      for (const { cycle } of opportunities) {
+        logger.info(
+          `✅ Found opportunity: ${cycle!.hops.map(hop => hop.dex).join(' → ')} - ${cycle!.profitPercent.toFixed(2)}% on ${cycle!.amountIn}`
+        );
       }
-
       logger.info(`Found ${opportunities.length} flash loan opportunities`);
 
-      // Sort by expected profit
-      opportunities.sort((a, b) => Number(b.expectedProfit - a.expectedProfit));
-
       return opportunities;
     } catch (error) {
       logger.error('Failed to find flash loan opportunities:', error);
@@ -23,6 +23,7 @@ import { telegramBotManager } from './alerts/telegramBot';
 import { storeMemory, initializeStorage } from './blockchain/memoryStorage';
 import { getTokenData, getTrendingTokens, calculateBuySellPressure } from './data/marketFetcher';
 import { TradeExecutor } from './blockchain/tradeExecutor';
+import type { MevSummary } from './mev/mevForensics';
 import { CrossChainArbitrageEngine } from './ai/crossChainStrategy';
 import { StrategyEvolutionEngine } from './ai/strategyEvolution';
 import handleError from './utils/errorHandler';
@@ -162,7 +163,7 @@ async function executeTrade(params: {
   action: 'buy' | 'sell';
   amountBNB: number;
   slippagePercent: number;
-}): Promise<{ success: boolean; error?: string; txHash?: string }> {
+}): Promise<{ success: boolean; error?: string; txHash?: string; mev?: MevSummary }> {
   try {
     if (!validateTradeAmount(params.amountBNB)) {
       throw new Error('Invalid trade amount');
@@ -177,7 +178,7 @@ async function executeTrade(params: {
 
     const result = await tradeExecutor.executeTrade(tradeParams);
 
-    return { success: result.success, txHash: result.txHash };
+    return { success: result.success, txHash: result.txHash, mev: result.mev };
   } catch (error) {
     return { success: false, error: (error as Error).message };
   }
@@ -502,19 +503,16 @@ async function invokeAgent(tokenAddress: string) {
           
           // Track order with Order Monitoring Service
           try {
-            await orderMonitoring.createOrder({
+            await orderMonitoring.recordFilledOrder({
               id: tradeResult.txHash || `order_${Date.now()}`,
               userId: getWallet().address,
               tokenId: tokenAddress,
-              type: 'MARKET' as any, // Market order (executed immediately)
-              side: tradeParams.action.toUpperCase() as any,
+              type: 'MARKET', // Market order (executed immediately)
+              side: tradeParams.action === 'buy' ? 'BUY' : 'SELL',
               amount: tradeParams.amountBNB,
               price: parseFloat(tokenData.priceUsd),
-              status: 'FILLED' as any,
-              filledAmount: tradeParams.amountBNB,
-              remainingAmount: 0,
-              createdAt: new Date(tradeStartTime),
-              executedAt: new Date(),
+              txHash: tradeResult.txHash,
+              filledAt: new Date(),
             });
             
             logger.info(`📋 Order tracked in Order Monitoring Service`);
@@ -613,7 +611,8 @@ async function invokeAgent(tokenAddress: string) {
               liquidity: tokenData.liquidity,
               priceChange24h: tokenData.priceChange24h,
               buySellPressure: calculateBuySellPressure(tokenData)
-            }
+            },
+            mev: tradeResult.mev
           };
           
           await storeMemory(tradeMemory);
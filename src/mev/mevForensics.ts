@@ -0,0 +1,453 @@
+/**
+ * Post-trade MEV Forensics
+ * Reads the block every fill landed in and looks for swaps on the same pool around ours:
+ * - sandwich:  same-direction swap before us and opposite-direction swap after us by one address
+ * - front-run: same-direction swap by someone else in the transaction right before ours
+ * - back-run:  opposite-direction swap in the transaction right after ours
+ *
+ * Value extracted is the adverse pool price move caused by the front-running swap (V3 pools
+ * emit the post-swap price, V2 falls back to the shortfall against the quote), times our
+ * notional. Reports are persisted and aggregated per token, venue and UTC hour so
+ * ExecutionOptimizer can route risky trades privately with tighter limits.
+ */
+
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger.js';
+import { CONFIG } from '../config.js';
+import { saveConfig, loadConfig } from '../utils/configStorage.js';
+
+const MAX_REPORTS = 1000;
+const MIN_RISK_SAMPLES = 3; // fills needed before a bucket's attack rate counts
+
+const pancakeV3Swap = new ethers.Interface([
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint128 protocolFeesToken0, uint128 protocolFeesToken1)',
+]);
+const uniswapV3Swap = new ethers.Interface([
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+]);
+const v2Swap = new ethers.Interface([
+  'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+]);
+const pool = new ethers.Interface([
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint32 feeProtocol, bool unlocked)',
+]);
+const erc20 = new ethers.Interface(['function decimals() view returns (uint8)']);
+
+const SWAP_EVENTS = [
+  { iface: pancakeV3Swap, venue: 'pancakeswap-v3', protocol: 'v3' },
+  { iface: uniswapV3Swap, venue: 'uniswap-v3', protocol: 'v3' },
+  { iface: v2Swap, venue: 'v2', protocol: 'v2' },
+] as const;
+const SWAP_TOPICS = SWAP_EVENTS.map(event => event.iface.getEvent('Swap')!.topicHash);
+
+export type MevKind = 'sandwich' | 'front-run' | 'back-run' | 'none';
+
+/** One swap on a pool, amounts signed from the pool's side (positive = paid into the pool) */
+export interface PoolSwap {
+  txHash: string;
+  txIndex: number;
+  from: string;
+  zeroForOne: boolean;
+  amount0: bigint;
+  amount1: bigint;
+  sqrtPriceX96?: bigint; // post-swap price, V3 only
+}
+
+/** A decoded swap log together with its pool and the token the pool paid out */
+interface SwapLeg {
+  swap: PoolSwap;
+  venue: string;
+  protocol: 'v2' | 'v3';
+  poolAddress: string;
+  outToken: string;
+}
+
+/** What gets attached to the trade result and its memory */
+export interface MevSummary {
+  kind: MevKind;
+  attacker?: string;
+  valueExtractedBNB: number;
+  shortfallPercent: number; // actual output vs quote, negative when better than quoted
+}
+
+export interface MevReport extends MevSummary {
+  txHash: string;
+  tokenAddress: string;
+  action: 'buy' | 'sell';
+  venue: string;
+  pool: string;
+  blockNumber: number;
+  hourUtc: number;
+  notionalBNB: number;
+  quotedOut: number;
+  actualOut: number;
+  frontRunTx?: string;
+  backRunTx?: string;
+  analyzedAt: number;
+}
+
+export interface MevBucket {
+  trades: number;
+  attacked: number;
+  sandwiches: number;
+  lossBNB: number;
+  notionalBNB: number;
+  lossPercent: number; // lossBNB / notionalBNB
+}
+
+export interface MevLossSummary {
+  total: MevBucket;
+  byToken: Record<string, MevBucket>;
+  byVenue: Record<string, MevBucket>;
+  byHour: Record<number, MevBucket>;
+}
+
+export interface MevRisk {
+  attackRate: number; // 0-1, worst of the token and hour-of-day buckets with enough samples
+  lossPercent: number; // historical value extracted as % of notional for the token
+}
+
+export interface ForensicsTrade {
+  txHash: string;
+  tokenAddress: string;
+  action: 'buy' | 'sell';
+  notionalBNB: number; // BNB paid for buys, BNB expected for sells
+  quotedOut: number; // tokens for buys, BNB for sells
+}
+
+/** The slice of a provider the analysis needs (ethers.Provider satisfies it) */
+export interface ForensicsChain {
+  getTransactionReceipt(hash: string): Promise<ethers.TransactionReceipt | null>;
+  getTransaction(hash: string): Promise<{ from: string } | null>;
+  getBlock(blockNumber: number): Promise<{ timestamp: number } | null>;
+  getLogs(filter: ethers.Filter): Promise<ethers.Log[]>;
+  call(tx: { to: string; data: string; blockTag?: number }): Promise<string>;
+}
+
+/**
+ * Fraction of output lost to a price move from sqrtBefore to sqrtAfter, for a swap in the
+ * given direction (zeroForOne pushes the token1/token0 price down)
+ */
+export function adverseMoveFraction(zeroForOne: boolean, sqrtBefore: bigint, sqrtAfter: bigint): number {
+  if (sqrtBefore === 0n || sqrtAfter === 0n) return 0;
+  const ratio = Number(sqrtAfter) / Number(sqrtBefore);
+  const priceRatio = ratio * ratio;
+  const fraction = zeroForOne ? 1 - priceRatio : 1 - 1 / priceRatio;
+  return Math.max(0, fraction);
+}
+
+/**
+ * Classify the swaps around ours in the same block and pool
+ */
+export function classifySwaps(
+  ours: PoolSwap,
+  blockSwaps: PoolSwap[]
+): { kind: MevKind; attacker?: string; frontRun?: PoolSwap; backRun?: PoolSwap } {
+  const us = ours.from.toLowerCase();
+  const others = blockSwaps.filter(swap => swap.txHash !== ours.txHash && swap.from.toLowerCase() !== us);
+  const before = others
+    .filter(swap => swap.txIndex < ours.txIndex && swap.zeroForOne === ours.zeroForOne)
+    .sort((a, b) => b.txIndex - a.txIndex);
+  const after = others
+    .filter(swap => swap.txIndex > ours.txIndex && swap.zeroForOne !== ours.zeroForOne)
+    .sort((a, b) => a.txIndex - b.txIndex);
+
+  for (const frontRun of before) {
+    const backRun = after.find(swap => swap.from.toLowerCase() === frontRun.from.toLowerCase());
+    if (backRun) {
+      return { kind: 'sandwich', attacker: frontRun.from, frontRun, backRun };
+    }
+  }
+
+  const adjacentBefore = before.find(swap => swap.txIndex === ours.txIndex - 1);
+  if (adjacentBefore) {
+    return { kind: 'front-run', attacker: adjacentBefore.from, frontRun: adjacentBefore };
+  }
+
+  const adjacentAfter = after.find(swap => swap.txIndex === ours.txIndex + 1);
+  if (adjacentAfter) {
+    return { kind: 'back-run', attacker: adjacentAfter.from, backRun: adjacentAfter };
+  }
+
+  return { kind: 'none' };
+}
+
+/**
+ * Shortfall of the actual output against the quote, as % and in BNB
+ */
+export function quoteShortfall(
+  action: 'buy' | 'sell',
+  notionalBNB: number,
+  quotedOut: number,
+  actualOut: number
+): { percent: number; bnb: number } {
+  if (quotedOut <= 0) return { percent: 0, bnb: 0 };
+  const percent = ((quotedOut - actualOut) / quotedOut) * 100;
+  const bnb = action === 'buy' ? (percent / 100) * notionalBNB : quotedOut - actualOut;
+  return { percent, bnb };
+}
+
+export function mevSummary(report: MevReport): MevSummary {
+  return {
+    kind: report.kind,
+    attacker: report.attacker,
+    valueExtractedBNB: report.valueExtractedBNB,
+    shortfallPercent: report.shortfallPercent,
+  };
+}
+
+function emptyBucket(): MevBucket {
+  return { trades: 0, attacked: 0, sandwiches: 0, lossBNB: 0, notionalBNB: 0, lossPercent: 0 };
+}
+
+function addToBucket(bucket: MevBucket, report: MevReport): void {
+  bucket.trades++;
+  if (report.kind === 'sandwich' || report.kind === 'front-run') bucket.attacked++; // back-runs cost us nothing
+  if (report.kind === 'sandwich') bucket.sandwiches++;
+  bucket.lossBNB += report.valueExtractedBNB;
+  bucket.notionalBNB += report.notionalBNB;
+  bucket.lossPercent = bucket.notionalBNB > 0 ? (bucket.lossBNB / bucket.notionalBNB) * 100 : 0;
+}
+
+/**
+ * Analyses fills, keeps the reports and aggregates MEV losses
+ */
+export class MevForensics {
+  private reports: MevReport[] = [];
+  private loading: Promise<void> | null = null;
+
+  constructor(
+    private chain: ForensicsChain = new ethers.JsonRpcProvider(CONFIG.RPC_URL),
+    private storageKey = 'mev-forensics',
+    private wbnb = CONFIG.WBNB_ADDRESS
+  ) {}
+
+  /**
+   * Restore persisted reports (once; concurrent callers share the same load)
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.restore();
+    }
+    return this.loading;
+  }
+
+  private async restore(): Promise<void> {
+    const saved = await loadConfig<{ reports: MevReport[] }>(this.storageKey);
+    this.reports = [...(saved?.reports ?? []), ...this.reports].slice(-MAX_REPORTS);
+  }
+
+  /**
+   * Analyse a confirmed swap. Returns null when the transaction or its swap log is not found.
+   */
+  async analyzeTrade(trade: ForensicsTrade): Promise<MevReport | null> {
+    await this.load();
+
+    const receipt = await this.chain.getTransactionReceipt(trade.txHash);
+    if (!receipt) return null;
+
+    const found = await this.findOurSwap(receipt, trade.action === 'buy' ? trade.tokenAddress : this.wbnb);
+    if (!found) return null;
+    const { swap: ours, venue, protocol, poolAddress, outToken } = found;
+
+    // Output amount from the pool's side of our swap
+    const outRaw = ours.amount0 < 0n ? -ours.amount0 : -ours.amount1;
+    const decimals = outToken.toLowerCase() === this.wbnb.toLowerCase()
+      ? 18
+      : Number(erc20.decodeFunctionResult('decimals', await this.chain.call({ to: outToken, data: erc20.encodeFunctionData('decimals') }))[0]);
+    const actualOut = parseFloat(ethers.formatUnits(outRaw, decimals));
+
+    const blockSwaps = await this.blockSwaps(poolAddress, receipt.blockNumber);
+    const classification = classifySwaps(ours, blockSwaps);
+    const shortfall = quoteShortfall(trade.action, trade.notionalBNB, trade.quotedOut, actualOut);
+
+    let valueExtractedBNB = 0;
+    if (classification.frontRun) {
+      if (protocol === 'v3' && classification.frontRun.sqrtPriceX96 !== undefined) {
+        const before = await this.priceBefore(poolAddress, receipt.blockNumber, classification.frontRun, blockSwaps);
+        valueExtractedBNB = trade.notionalBNB * adverseMoveFraction(ours.zeroForOne, before, classification.frontRun.sqrtPriceX96);
+      } else {
+        valueExtractedBNB = Math.max(0, shortfall.bnb);
+      }
+    }
+
+    const block = await this.chain.getBlock(receipt.blockNumber);
+    const report: MevReport = {
+      kind: classification.kind,
+      attacker: classification.attacker,
+      valueExtractedBNB,
+      shortfallPercent: shortfall.percent,
+      txHash: trade.txHash,
+      tokenAddress: trade.tokenAddress,
+      action: trade.action,
+      venue,
+      pool: poolAddress,
+      blockNumber: receipt.blockNumber,
+      hourUtc: new Date((block?.timestamp ?? Math.floor(Date.now() / 1000)) * 1000).getUTCHours(),
+      notionalBNB: trade.notionalBNB,
+      quotedOut: trade.quotedOut,
+      actualOut,
+      frontRunTx: classification.frontRun?.txHash,
+      backRunTx: classification.backRun?.txHash,
+      analyzedAt: Date.now(),
+    };
+
+    if (report.kind === 'none') {
+      logger.info(`  🔍 MEV check: clean (${shortfall.percent.toFixed(2)}% vs quote)`);
+    } else {
+      logger.warn(
+        `🚨 MEV ${report.kind} on ${trade.txHash} by ${report.attacker}: ` +
+        `${valueExtractedBNB.toFixed(6)} BNB extracted, ${shortfall.percent.toFixed(2)}% vs quote`
+      );
+    }
+
+    this.reports.push(report);
+    this.reports = this.reports.slice(-MAX_REPORTS);
+    await saveConfig(this.storageKey, { reports: this.reports });
+    return report;
+  }
+
+  find(txHash: string): MevReport | undefined {
+    return this.reports.find(report => report.txHash.toLowerCase() === txHash.toLowerCase());
+  }
+
+  list(limit = 50): MevReport[] {
+    return this.reports.slice(-limit).reverse();
+  }
+
+  summary(): MevLossSummary {
+    const summary: MevLossSummary = { total: emptyBucket(), byToken: {}, byVenue: {}, byHour: {} };
+    for (const report of this.reports) {
+      addToBucket(summary.total, report);
+      addToBucket(summary.byToken[report.tokenAddress.toLowerCase()] ??= emptyBucket(), report);
+      addToBucket(summary.byVenue[report.venue] ??= emptyBucket(), report);
+      addToBucket(summary.byHour[report.hourUtc] ??= emptyBucket(), report);
+    }
+    return summary;
+  }
+
+  /**
+   * Historical MEV exposure for a token at an hour of day (defaults to now)
+   */
+  riskFor(tokenAddress: string, hourUtc = new Date().getUTCHours()): MevRisk {
+    const token = emptyBucket();
+    const hour = emptyBucket();
+    for (const report of this.reports) {
+      if (report.tokenAddress.toLowerCase() === tokenAddress.toLowerCase()) addToBucket(token, report);
+      if (report.hourUtc === hourUtc) addToBucket(hour, report);
+    }
+
+    const rate = (bucket: MevBucket) => bucket.trades >= MIN_RISK_SAMPLES ? bucket.attacked / bucket.trades : 0;
+    return { attackRate: Math.max(rate(token), rate(hour)), lossPercent: token.lossPercent };
+  }
+
+  /**
+   * Our swap in a receipt: the leg paying out the trade's output token, so routed trades are
+   * judged on their last hop rather than the first Swap log. Falls back to the last leg.
+   */
+  private async findOurSwap(
+    receipt: ethers.TransactionReceipt,
+    outputToken: string
+  ): Promise<SwapLeg | null> {
+    let lastLeg: SwapLeg | null = null;
+    for (const log of [...receipt.logs].reverse()) {
+      if (!SWAP_TOPICS.includes(log.topics[0]!)) continue;
+      const decoded = this.decodeSwap(log, receipt.from, receipt.index, receipt.hash);
+      if (!decoded) continue;
+
+      const outToken = await this.callAddress(log.address, decoded.swap.amount0 < 0n ? 'token0' : 'token1');
+      const leg = { ...decoded, poolAddress: log.address, outToken };
+      if (outToken.toLowerCase() === outputToken.toLowerCase()) return leg;
+      lastLeg ??= leg;
+    }
+    return lastLeg;
+  }
+
+  private decodeSwap(
+    log: { topics: readonly string[]; data: string },
+    from: string,
+    txIndex: number,
+    txHash: string
+  ): { swap: PoolSwap; venue: string; protocol: 'v2' | 'v3' } | null {
+    const event = SWAP_EVENTS.find(candidate => candidate.iface.getEvent('Swap')!.topicHash === log.topics[0]);
+    if (!event) return null;
+    const args = event.iface.parseLog({ topics: [...log.topics], data: log.data })!.args;
+
+    if (event.protocol === 'v3') {
+      const amount0 = args.amount0 as bigint;
+      const amount1 = args.amount1 as bigint;
+      return {
+        swap: { txHash, txIndex, from, zeroForOne: amount0 > 0n, amount0, amount1, sqrtPriceX96: args.sqrtPriceX96 as bigint },
+        venue: event.venue,
+        protocol: 'v3',
+      };
+    }
+
+    const amount0 = (args.amount0In as bigint) - (args.amount0Out as bigint);
+    const amount1 = (args.amount1In as bigint) - (args.amount1Out as bigint);
+    return {
+      swap: { txHash, txIndex, from, zeroForOne: amount0 > 0n, amount0, amount1 },
+      venue: event.venue,
+      protocol: 'v2',
+    };
+  }
+
+  private async blockSwaps(poolAddress: string, blockNumber: number): Promise<PoolSwap[]> {
+    const logs = await this.chain.getLogs({
+      address: poolAddress,
+      fromBlock: blockNumber,
+      toBlock: blockNumber,
+      topics: [SWAP_TOPICS],
+    });
+
+    const senders = new Map<string, string>();
+    const swaps: PoolSwap[] = [];
+    for (const log of logs) {
+      let from = senders.get(log.transactionHash);
+      if (!from) {
+        from = (await this.chain.getTransaction(log.transactionHash))?.from ?? ethers.ZeroAddress;
+        senders.set(log.transactionHash, from);
+      }
+      const decoded = this.decodeSwap(log, from, log.transactionIndex, log.transactionHash);
+      if (decoded) swaps.push(decoded.swap);
+    }
+    return swaps;
+  }
+
+  /**
+   * Pool price just before the front-run: the last swap ahead of it in the block,
+   * otherwise slot0 at the end of the previous block
+   */
+  private async priceBefore(poolAddress: string, blockNumber: number, frontRun: PoolSwap, blockSwaps: PoolSwap[]): Promise<bigint> {
+    const earlier = blockSwaps
+      .filter(swap => swap.txIndex < frontRun.txIndex && swap.sqrtPriceX96 !== undefined)
+      .sort((a, b) => b.txIndex - a.txIndex)[0];
+    if (earlier) return earlier.sqrtPriceX96!;
+
+    const raw = await this.chain.call({ to: poolAddress, data: pool.encodeFunctionData('slot0'), blockTag: blockNumber - 1 });
+    return pool.decodeFunctionResult('slot0', raw)[0] as bigint;
+  }
+
+  private async callAddress(poolAddress: string, method: 'token0' | 'token1'): Promise<string> {
+    const raw = await this.chain.call({ to: poolAddress, data: pool.encodeFunctionData(method) });
+    return pool.decodeFunctionResult(method, raw)[0] as string;
+  }
+}
+
+let mevForensics: MevForensics | null = null;
+
+export function getMevForensics(): MevForensics {
+  if (!mevForensics) {
+    mevForensics = new MevForensics();
+  }
+  return mevForensics;
+}
+
+/**
+ * Reset the singleton (useful for testing)
+ */
+export function resetMevForensics(): void {
+  mevForensics = null;
+}
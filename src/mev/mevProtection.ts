@@ -1,14 +1,26 @@
 /**
  * MEV Protection Strategies
- * Implements anti-sandwich, deadline enforcement, and private transactions
+ * Implements anti-sandwich, deadline enforcement, and private transactions.
+ * BSC trades go through PrivateRelayClient (BSC builders / private RPCs); Flashbots only
+ * covers Ethereum.
  */
 
 import { ethers } from 'ethers';
 import { logger } from '../utils/logger.js';
+import { CONFIG } from '../config.js';
 import { getFlashbotsService } from './flashbotsProvider.js';
+import {
+  PrivateRelayClient,
+  parseRelayEndpoints,
+  type RelayChain,
+  type RelayOptions,
+  type RelayStats,
+  type RelaySubmission,
+} from './privateRelay.js';
 
 export interface TradeProtectionOptions {
   useFlashbots: boolean;
+  usePrivateRelay?: boolean; // BSC private relays (defaults to PRIVATE_RELAY_ENABLED)
   maxSlippage: number; // percentage (e.g., 0.5 for 0.5%)
   deadline: number; // seconds from now
   minProfit?: bigint; // minimum profit for flashbots bundle
@@ -18,6 +30,11 @@ export interface TradeProtectionOptions {
 export class MEVProtectionService {
   private flashbots = getFlashbotsService();
 
+  /**
+   * @param relay private relay client; built from PRIVATE_RELAYS on first use when omitted
+   */
+  constructor(private relay: PrivateRelayClient | null = null) {}
+
   /**
    * Protect trade from MEV attacks
    */
@@ -39,7 +56,15 @@ export class MEVProtectionService {
       // Sign transaction
       const signedTx = await signer.signTransaction(optimizedTx);
 
-      // Send via Flashbots if enabled
+      // Send via BSC private relays if enabled
+      if (options.usePrivateRelay ?? CONFIG.PRIVATE_RELAY_ENABLED) {
+        const submission = await this.sendViaPrivateRelay(signedTx, signer.provider!);
+        return submission.status === 'included'
+          ? { success: true, txHash: submission.hashes[0] }
+          : { success: false, txHash: submission.hashes[0], error: submission.error };
+      }
+
+      // Send via Flashbots if enabled (Ethereum only)
       if (options.useFlashbots) {
         return await this.sendViaFlashbots(signedTx, options.minProfit);
       }
@@ -111,6 +136,45 @@ export class MEVProtectionService {
     return optimizedTx;
   }
 
+  /**
+   * Send a signed transaction through the BSC private relays, falling back to the
+   * public mempool after PRIVATE_RELAY_FALLBACK_BLOCKS
+   */
+  async sendViaPrivateRelay(
+    signedTx: string,
+    chain: RelayChain,
+    options: Partial<RelayOptions> = {}
+  ): Promise<RelaySubmission> {
+    const relay = this.privateRelay(chain);
+    if (!relay.configured) {
+      logger.warn('⚠️  No private relays configured (PRIVATE_RELAYS) - using the public mempool');
+      return relay.submitTransaction(signedTx, { ...options, publicFallback: true });
+    }
+    return relay.submitTransaction(signedTx, options);
+  }
+
+  /**
+   * Send an ordered bundle to the BSC builders; never falls back publicly unless asked
+   */
+  async sendPrivateBundle(
+    signedTxs: string[],
+    chain: RelayChain,
+    options: Partial<RelayOptions> = {}
+  ): Promise<RelaySubmission> {
+    return this.privateRelay(chain).submitBundle(signedTxs, options);
+  }
+
+  relayStats(): RelayStats | null {
+    return this.relay ? this.relay.stats() : null;
+  }
+
+  private privateRelay(chain: RelayChain): PrivateRelayClient {
+    if (!this.relay) {
+      this.relay = new PrivateRelayClient(parseRelayEndpoints(CONFIG.PRIVATE_RELAYS), chain);
+    }
+    return this.relay;
+  }
+
   /**
    * Send transaction via Flashbots
    */
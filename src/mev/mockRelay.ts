@@ -0,0 +1,153 @@
+/**
+ * Local Mock Relay
+ * In-memory chain plus relays that speak eth_sendBundle / eth_sendRawTransaction, for tests
+ * and for running the bot against a local endpoint (PRIVATE_RELAYS=mock=bundle:http://127.0.0.1:8547).
+ */
+
+import { createServer, type Server } from 'http';
+import { ethers } from 'ethers';
+import type { RelayChain, RelayEndpoint, RelayTransport } from './privateRelay.js';
+
+/** include: lands in the next block; drop: accepted but never built; reject: JSON-RPC error */
+export type MockRelayBehaviour = 'include' | 'drop' | 'reject';
+
+interface PendingBundle {
+  txs: string[];
+  maxBlockNumber?: number;
+}
+
+/**
+ * Minimal chain: private bundles and the public mempool land on mineBlock()
+ */
+export class MockRelayChain implements RelayChain {
+  blockNumber: number;
+  readonly publicMempool: string[] = [];
+  private pending: PendingBundle[] = [];
+  private receipts = new Map<string, ethers.TransactionReceipt>();
+  private reverting = new Set<string>();
+
+  /**
+   * @param autoMine mine a block on every getBlockNumber() so trackers make progress without timers
+   */
+  constructor(startBlock = 100, private autoMine = false) {
+    this.blockNumber = startBlock;
+  }
+
+  /** Make a signed transaction revert when it is mined */
+  revertOnInclusion(signedTx: string): void {
+    this.reverting.add(ethers.keccak256(signedTx));
+  }
+
+  queueBundle(bundle: PendingBundle): void {
+    this.pending.push(bundle);
+  }
+
+  mineBlock(): number {
+    this.blockNumber++;
+    const block = this.blockNumber;
+
+    this.pending = this.pending.filter(bundle => {
+      if (bundle.maxBlockNumber !== undefined && block > bundle.maxBlockNumber) return false;
+      for (const tx of bundle.txs) this.include(tx, block);
+      return false;
+    });
+    for (const tx of this.publicMempool.splice(0)) this.include(tx, block);
+
+    return block;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    if (this.autoMine) this.mineBlock();
+    return this.blockNumber;
+  }
+
+  async getTransactionReceipt(hash: string): Promise<ethers.TransactionReceipt | null> {
+    return this.receipts.get(hash) || null;
+  }
+
+  async broadcastTransaction(signedTx: string): Promise<{ hash: string }> {
+    const hash = ethers.keccak256(signedTx);
+    if (this.receipts.has(hash)) throw new Error('nonce too low');
+    this.publicMempool.push(signedTx);
+    return { hash };
+  }
+
+  private include(signedTx: string, blockNumber: number): void {
+    const hash = ethers.keccak256(signedTx);
+    if (this.receipts.has(hash)) return;
+    this.receipts.set(hash, {
+      hash,
+      blockNumber,
+      status: this.reverting.has(hash) ? 0 : 1,
+    } as unknown as ethers.TransactionReceipt);
+  }
+}
+
+/**
+ * One builder / private RPC in front of a MockRelayChain
+ */
+export class MockPrivateRelay {
+  readonly received: Array<{ method: string; params: unknown[] }> = [];
+
+  constructor(
+    readonly endpoint: RelayEndpoint,
+    private chain: MockRelayChain,
+    public behaviour: MockRelayBehaviour = 'include'
+  ) {}
+
+  /**
+   * Handle one JSON-RPC request; throws on rejection like a relay error response
+   */
+  async handle(method: string, params: unknown[]): Promise<unknown> {
+    this.received.push({ method, params });
+    if (this.behaviour === 'reject') {
+      throw new Error(`${this.endpoint.name} relay error: bundle rejected`);
+    }
+
+    let bundle: PendingBundle;
+    if (method === 'eth_sendBundle') {
+      const [request] = params as Array<{ txs: string[]; maxBlockNumber?: number }>;
+      bundle = { txs: request!.txs, maxBlockNumber: request!.maxBlockNumber };
+    } else if (method === 'eth_sendRawTransaction') {
+      bundle = { txs: [params[0] as string] };
+    } else {
+      throw new Error(`${this.endpoint.name} relay error: method ${method} not supported`);
+    }
+
+    if (this.behaviour === 'include') this.chain.queueBundle(bundle);
+    return method === 'eth_sendBundle' ? ethers.keccak256(ethers.concat(bundle.txs)) : ethers.keccak256(bundle.txs[0]!);
+  }
+
+  /**
+   * Serve the relay over HTTP for local runs
+   */
+  listen(port: number): Promise<Server> {
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', async () => {
+        let id: unknown = null;
+        try {
+          const request = JSON.parse(body);
+          id = request.id;
+          const result = await this.handle(request.method, request.params || []);
+          res.end(JSON.stringify({ jsonrpc: '2.0', id, result }));
+        } catch (error) {
+          res.end(JSON.stringify({ jsonrpc: '2.0', id, error: { code: -32000, message: (error as Error).message } }));
+        }
+      });
+    });
+    return new Promise(resolve => server.listen(port, () => resolve(server)));
+  }
+}
+
+/**
+ * Transport that dispatches to in-process mock relays by URL
+ */
+export function mockRelayTransport(relays: MockPrivateRelay[]): RelayTransport {
+  return async (endpoint, method, params) => {
+    const relay = relays.find(candidate => candidate.endpoint.url === endpoint.url);
+    if (!relay) throw new Error(`No mock relay at ${endpoint.url}`);
+    return relay.handle(method, params);
+  };
+}
@@ -0,0 +1,342 @@
+/**
+ * BSC Private Transaction Relays
+ * Submits signed transactions and bundles to BSC builders / private RPCs instead of the
+ * public mempool, tracks inclusion block by block and falls back to a public broadcast
+ * when nothing lands within the configured number of blocks.
+ *
+ * Two endpoint kinds:
+ * - bundle: builder endpoints speaking eth_sendBundle ({ txs, maxBlockNumber }), e.g. 48 Club Puissant
+ * - rpc:    private RPCs that accept eth_sendRawTransaction and forward only to builders
+ */
+
+import { ethers } from 'ethers';
+import { logger } from '../utils/logger.js';
+import { CONFIG } from '../config.js';
+
+const PUBLIC_INCLUSION_BLOCKS = 50;
+
+export type RelayKind = 'bundle' | 'rpc';
+
+export interface RelayEndpoint {
+  name: string;
+  url: string;
+  kind: RelayKind;
+}
+
+/** JSON-RPC call against one relay */
+export type RelayTransport = (endpoint: RelayEndpoint, method: string, params: unknown[]) => Promise<unknown>;
+
+/** The slice of a provider the relay client needs (ethers.Provider satisfies it) */
+export interface RelayChain {
+  getBlockNumber(): Promise<number>;
+  getTransactionReceipt(hash: string): Promise<ethers.TransactionReceipt | null>;
+  broadcastTransaction(signedTx: string): Promise<{ hash: string }>;
+}
+
+export interface RelayOptions {
+  fallbackBlocks: number; // blocks to wait for private inclusion
+  pollIntervalMs: number;
+  publicFallback: boolean; // broadcast publicly once fallbackBlocks pass
+}
+
+export interface RelaySubmission {
+  hashes: string[];
+  route: 'private' | 'public';
+  status: 'included' | 'failed' | 'expired';
+  accepted: string[]; // relay names
+  rejected: Array<{ relay: string; error: string }>;
+  submittedBlock: number;
+  includedBlock?: number;
+  receipts: ethers.TransactionReceipt[];
+  error?: string;
+}
+
+export interface RelayStats {
+  relays: Array<{ name: string; kind: RelayKind; submitted: number; accepted: number; rejected: number }>; // URLs omitted, they may carry API keys
+  included: number;
+  fallbacks: number;
+  failed: number;
+}
+
+/**
+ * Parse "name=kind:url" entries, comma separated. The kind defaults to rpc.
+ * e.g. "48club=bundle:https://puissant-builder.48.club,myrpc=https://rpc.example"
+ */
+export function parseRelayEndpoints(spec: string): RelayEndpoint[] {
+  return spec
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      // A bare URL may carry "=" in its query string, so names are word characters only
+      const named = /^([\w.-]+)\s*=\s*(.+)$/.exec(entry);
+      const name = named ? named[1]! : `relay${index + 1}`;
+      let target = named ? named[2]! : entry;
+
+      let kind: RelayKind = 'rpc';
+      const prefix = /^(bundle|rpc):(.+)$/.exec(target);
+      if (prefix) {
+        kind = prefix[1] as RelayKind;
+        target = prefix[2]!;
+      }
+
+      if (!/^https?:\/\//.test(target)) {
+        throw new Error(`Invalid relay URL for ${name}: ${target}`);
+      }
+      return { name, url: target, kind };
+    });
+}
+
+/**
+ * Default transport: plain JSON-RPC over HTTP
+ */
+export const httpRelayTransport: RelayTransport = async (endpoint, method, params) => {
+  const response = await fetch(endpoint.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: Date.now(), method, params }),
+    signal: AbortSignal.timeout(5000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${endpoint.name} relay error: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json() as { result?: unknown; error?: { message: string } };
+  if (data.error) {
+    throw new Error(`${endpoint.name} relay error: ${data.error.message || JSON.stringify(data.error)}`);
+  }
+  return data.result;
+};
+
+/**
+ * Sends transactions through private relays and watches for inclusion
+ */
+export class PrivateRelayClient {
+  private counters = new Map<string, { submitted: number; accepted: number; rejected: number }>();
+  private totals = { included: 0, fallbacks: 0, failed: 0 };
+
+  constructor(
+    private endpoints: RelayEndpoint[],
+    private chain: RelayChain,
+    private options: RelayOptions = {
+      fallbackBlocks: CONFIG.PRIVATE_RELAY_FALLBACK_BLOCKS,
+      pollIntervalMs: CONFIG.PRIVATE_RELAY_POLL_MS,
+      publicFallback: CONFIG.PRIVATE_RELAY_PUBLIC_FALLBACK,
+    },
+    private transport: RelayTransport = httpRelayTransport
+  ) {}
+
+  get configured(): boolean {
+    return this.endpoints.length > 0;
+  }
+
+  /**
+   * Submit one signed transaction to every relay. Bundle endpoints receive it as a
+   * single-transaction bundle valid until the fallback block.
+   */
+  async submitTransaction(signedTx: string, options: Partial<RelayOptions> = {}): Promise<RelaySubmission> {
+    const settings = { ...this.options, ...options };
+    const submittedBlock = await this.chain.getBlockNumber();
+    const maxBlockNumber = submittedBlock + settings.fallbackBlocks;
+
+    const { accepted, rejected } = await this.broadcast(this.endpoints, endpoint =>
+      endpoint.kind === 'bundle'
+        ? ['eth_sendBundle', [{ txs: [signedTx], maxBlockNumber }]]
+        : ['eth_sendRawTransaction', [signedTx]]
+    );
+
+    return this.track([signedTx], submittedBlock, accepted, rejected, settings);
+  }
+
+  /**
+   * Submit an ordered, all-or-nothing bundle. Only bundle endpoints can honour the
+   * ordering, and a public fallback would break atomicity, so it is off unless asked for.
+   */
+  async submitBundle(signedTxs: string[], options: Partial<RelayOptions> = {}): Promise<RelaySubmission> {
+    const settings = { ...this.options, publicFallback: false, ...options };
+    const builders = this.endpoints.filter(endpoint => endpoint.kind === 'bundle');
+    const submittedBlock = await this.chain.getBlockNumber();
+
+    if (builders.length === 0) {
+      return this.finish('failed', signedTxs, submittedBlock, [], [], [], 'no bundle-capable relay configured');
+    }
+
+    const maxBlockNumber = submittedBlock + settings.fallbackBlocks;
+    const { accepted, rejected } = await this.broadcast(builders, () =>
+      ['eth_sendBundle', [{ txs: signedTxs, maxBlockNumber }]]
+    );
+
+    return this.track(signedTxs, submittedBlock, accepted, rejected, settings);
+  }
+
+  stats(): RelayStats {
+    return {
+      relays: this.endpoints.map(endpoint => ({
+        name: endpoint.name,
+        kind: endpoint.kind,
+        ...(this.counters.get(endpoint.name) || { submitted: 0, accepted: 0, rejected: 0 }),
+      })),
+      ...this.totals,
+    };
+  }
+
+  private async broadcast(
+    endpoints: RelayEndpoint[],
+    request: (endpoint: RelayEndpoint) => [string, unknown[]]
+  ): Promise<{ accepted: string[]; rejected: Array<{ relay: string; error: string }> }> {
+    const accepted: string[] = [];
+    const rejected: Array<{ relay: string; error: string }> = [];
+
+    await Promise.all(endpoints.map(async endpoint => {
+      const counter = this.counter(endpoint.name);
+      counter.submitted++;
+      const [method, params] = request(endpoint);
+      try {
+        await this.transport(endpoint, method, params);
+        counter.accepted++;
+        accepted.push(endpoint.name);
+      } catch (error) {
+        counter.rejected++;
+        rejected.push({ relay: endpoint.name, error: (error as Error).message });
+        logger.warn(`⚠️  Relay ${endpoint.name} rejected ${method}: ${(error as Error).message}`);
+      }
+    }));
+
+    return { accepted, rejected };
+  }
+
+  /**
+   * Poll block by block until every transaction has a receipt or the window closes
+   */
+  private async track(
+    signedTxs: string[],
+    submittedBlock: number,
+    accepted: string[],
+    rejected: Array<{ relay: string; error: string }>,
+    settings: RelayOptions
+  ): Promise<RelaySubmission> {
+    const hashes = signedTxs.map(tx => ethers.keccak256(tx));
+
+    if (accepted.length > 0) {
+      logger.info(`  🔒 Sent privately via ${accepted.join(', ')} at block ${submittedBlock}`);
+      const deadline = submittedBlock + settings.fallbackBlocks;
+      let lastChecked = -1;
+
+      while (true) {
+        const block = await this.chain.getBlockNumber();
+        if (block !== lastChecked) {
+          lastChecked = block;
+          const receipts = await Promise.all(hashes.map(hash => this.chain.getTransactionReceipt(hash)));
+          if (receipts.every(receipt => receipt !== null)) {
+            const landed = receipts as ethers.TransactionReceipt[];
+            const reverted = landed.some(receipt => receipt.status !== 1);
+            return this.finish(
+              reverted ? 'failed' : 'included',
+              signedTxs,
+              submittedBlock,
+              accepted,
+              rejected,
+              landed,
+              reverted ? 'transaction reverted' : undefined
+            );
+          }
+          if (block > deadline) break;
+        }
+        await new Promise(resolve => setTimeout(resolve, settings.pollIntervalMs));
+      }
+
+      logger.warn(`⚠️  Not included privately within ${settings.fallbackBlocks} blocks`);
+    }
+
+    if (!settings.publicFallback) {
+      return this.finish('expired', signedTxs, submittedBlock, accepted, rejected, [],
+        accepted.length > 0 ? `not included within ${settings.fallbackBlocks} blocks` : 'no relay accepted the submission');
+    }
+
+    return this.broadcastPublicly(signedTxs, submittedBlock, accepted, rejected);
+  }
+
+  private async broadcastPublicly(
+    signedTxs: string[],
+    submittedBlock: number,
+    accepted: string[],
+    rejected: Array<{ relay: string; error: string }>
+  ): Promise<RelaySubmission> {
+    this.totals.fallbacks++;
+    logger.warn(`⚠️  Falling back to the public mempool for ${signedTxs.length} transaction(s)`);
+
+    try {
+      const receipts: ethers.TransactionReceipt[] = [];
+      for (const signedTx of signedTxs) {
+        const hash = ethers.keccak256(signedTx);
+        try {
+          await this.chain.broadcastTransaction(signedTx);
+        } catch (error) {
+          // The relayed copy may have landed in the meantime ("nonce too low" / "already known")
+          if (!(await this.chain.getTransactionReceipt(hash))) throw error;
+        }
+        receipts.push(await this.waitForReceipt(hash));
+      }
+
+      const reverted = receipts.some(receipt => receipt.status !== 1);
+      const result = this.finish(reverted ? 'failed' : 'included', signedTxs, submittedBlock, accepted, rejected, receipts,
+        reverted ? 'transaction reverted' : undefined);
+      return { ...result, route: 'public' };
+    } catch (error) {
+      const result = this.finish('failed', signedTxs, submittedBlock, accepted, rejected, [], (error as Error).message);
+      return { ...result, route: 'public' };
+    }
+  }
+
+  private async waitForReceipt(hash: string): Promise<ethers.TransactionReceipt> {
+    const deadline = (await this.chain.getBlockNumber()) + PUBLIC_INCLUSION_BLOCKS;
+    while (true) {
+      const receipt = await this.chain.getTransactionReceipt(hash);
+      if (receipt) return receipt;
+      if ((await this.chain.getBlockNumber()) > deadline) {
+        throw new Error(`${hash} not mined within ${PUBLIC_INCLUSION_BLOCKS} blocks`);
+      }
+      await new Promise(resolve => setTimeout(resolve, this.options.pollIntervalMs));
+    }
+  }
+
+  private finish(
+    status: RelaySubmission['status'],
+    signedTxs: string[],
+    submittedBlock: number,
+    accepted: string[],
+    rejected: Array<{ relay: string; error: string }>,
+    receipts: ethers.TransactionReceipt[],
+    error?: string
+  ): RelaySubmission {
+    if (status === 'included') this.totals.included++;
+    else this.totals.failed++;
+
+    const includedBlock = receipts.length > 0 ? Math.max(...receipts.map(receipt => receipt.blockNumber)) : undefined;
+    if (status === 'included') {
+      logger.info(`  ✅ Included in block ${includedBlock} (${includedBlock! - submittedBlock} blocks after submission)`);
+    }
+
+    return {
+      hashes: signedTxs.map(tx => ethers.keccak256(tx)),
+      route: 'private',
+      status,
+      accepted,
+      rejected,
+      submittedBlock,
+      includedBlock,
+      receipts,
+      error,
+    };
+  }
+
+  private counter(name: string) {
+    let counter = this.counters.get(name);
+    if (!counter) {
+      counter = { submitted: 0, accepted: 0, rejected: 0 };
+      this.counters.set(name, counter);
+    }
+    return counter;
+  }
+}
@@ -71,6 +71,12 @@ export const validateMemoryQuery = [
   body('chain').optional().isIn(['bnb', 'opbnb', 'polygon']),
   body('limit').optional().isInt({ min: 1, max: 1000 }),
   body('offset').optional().isInt({ min: 0 }),
+  body('similarTo')
+    .optional()
+    .custom((value: unknown) => (typeof value === 'string' && value.length > 0) || (typeof value === 'object' && value !== null && !Array.isArray(value)))
+    .withMessage('similarTo must be a memory id or an object with market, tokenAddress or text'),
+  body('similarTo.text').optional().isString().isLength({ max: 2000 }),
+  body('minSimilarity').optional().isFloat({ min: 0, max: 1 }),
   handleValidationErrors,
 ];
 
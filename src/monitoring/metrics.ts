@@ -76,6 +76,14 @@ export const aiDecisionConfidence = new Histogram({
   registers: [register],
 });
 
+// AI decisions that failed schema validation
+export const aiDecisionParseFailures = new Counter({
+  name: 'ai_decision_parse_failures_total',
+  help: 'AI decision completions that failed schema validation',
+  labelNames: ['stage'],
+  registers: [register],
+});
+
 // =============================================================================
 // MEMORY METRICS
 // =============================================================================
@@ -193,6 +201,13 @@ export function recordAIDecision(
   aiDecisionConfidence.observe({ agent_type: agentType }, confidence);
 }
 
+/**
+ * Record an AI decision that failed schema validation ('initial' or 'repair' attempt)
+ */
+export function recordAIDecisionParseFailure(stage: 'initial' | 'repair') {
+  aiDecisionParseFailures.inc({ stage });
+}
+
 /**
  * Update wallet balance metric
  */
@@ -1,14 +1,14 @@
 /**
  * AI Prediction Market Analyzer
  *
- * Uses OpenRouter LLM to analyze prediction markets and make intelligent trading decisions
+ * Uses the configured LLM providers (call site 'analyzeMarket') to analyze prediction markets
+ * and make intelligent trading decisions
  * Combines market data with AI reasoning for better predictions
  */
 
-import { createOpenRouter } from '@openrouter/ai-sdk-provider';
-import { generateText } from 'ai';
 import { logger } from '../utils/logger';
 import { CONFIG } from '../config';
+import { getLLMRouter } from '../ai/llmRouter';
 import type { MarketOpportunity } from './marketDataFetcher';
 import type { MarketInfo } from './polymarketClient';
 import { polymarketDataFetcher } from './marketDataFetcher';
@@ -37,26 +37,11 @@ export interface TradeDecision {
 }
 
 export class AIPredictionAnalyzer {
-  private openrouter: any;
-
-  constructor() {
-    if (CONFIG.OPENROUTER_API_KEY) {
-      this.openrouter = createOpenRouter({
-        apiKey: CONFIG.OPENROUTER_API_KEY,
-      });
-    }
-  }
-
   /**
    * Analyze a prediction market using AI
    */
   async analyzeMarket(market: MarketInfo, orderbook?: any): Promise<AIMarketAnalysis> {
     try {
-      if (!this.openrouter) {
-        logger.warn('OpenRouter not initialized, using basic analysis');
-        return this.basicAnalysis(market);
-      }
-
       // Get mid price
       const midPrice = await polymarketService.getMidPrice(market.id);
 
@@ -68,19 +53,19 @@ export class AIPredictionAnalyzer {
 
       logger.info(`Analyzing market with AI: ${market.question.substring(0, 50)}...`);
 
-      // Get AI analysis
-      const { text } = await generateText({
-        model: this.openrouter(CONFIG.AI_MODEL),
-        prompt,
-        // maxTokens is not available in this API version, using maxGenerationTokens instead
-        maxGenerationTokens: 500,
+      // Get AI analysis (rule-based provider answers with the basic analysis)
+      const result = await getLLMRouter().complete({
+        callSite: 'analyzeMarket',
+        messages: [{ role: 'user', content: prompt }],
+        maxTokens: 500,
         temperature: 0.7,
-      } as any);
+        ruleBased: () => JSON.stringify(this.basicAnalysis(market)),
+      });
 
       // Parse AI response
-      const analysis = this.parseAIResponse(text, market, midPrice || 0.5);
+      const analysis = this.parseAIResponse(result.content, market, midPrice || 0.5);
 
-      logger.info(`AI Analysis complete: ${analysis.recommendation} (confidence: ${(analysis.confidence * 100).toFixed(1)}%)`);
+      logger.info(`AI Analysis complete: ${analysis.recommendation} (confidence: ${(analysis.confidence * 100).toFixed(1)}%, via ${result.provider})`);
 
       return analysis;
     } catch (error) {
@@ -8,36 +8,15 @@
  * - Historical performance data
  */
 
-import { Client } from '@bnb-chain/greenfield-js-sdk';
-import { VisibilityType, RedundancyType } from '@bnb-chain/greenfield-js-sdk';
-import Long from 'long';
-import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
 import { CONFIG } from '../config';
+import { createMemoryStore, scheduleKeyRotation } from '../blockchain/memoryStore';
 
 // Constants
-const GREENFIELD_RPC_URL = CONFIG.GREENFIELD_RPC_URL;
-const GREENFIELD_CHAIN_ID = CONFIG.GREENFIELD_CHAIN_ID;
 const POLYMARKET_BUCKET_NAME = `${CONFIG.GREENFIELD_BUCKET_NAME}-polymarket`;
-const ACCOUNT_PRIVATE_KEY = CONFIG.WALLET_PRIVATE_KEY;
 
-// Check if we have a valid private key
-const hasValidKey = ACCOUNT_PRIVATE_KEY &&
-  ACCOUNT_PRIVATE_KEY !== 'your_test_wallet_private_key_here' &&
-  ACCOUNT_PRIVATE_KEY !== 'your_wallet_private_key_here' &&
-  ACCOUNT_PRIVATE_KEY.length > 20 &&
-  ACCOUNT_PRIVATE_KEY.startsWith('0x');
-
-if (!hasValidKey) {
-  logger.warn('⚠️  No valid WALLET_PRIVATE_KEY configured. Polymarket storage will be disabled.');
-}
-
-const ACCOUNT_ADDRESS = ACCOUNT_PRIVATE_KEY && ACCOUNT_PRIVATE_KEY.length > 20 && ACCOUNT_PRIVATE_KEY.startsWith('0x')
-  ? new ethers.Wallet(ACCOUNT_PRIVATE_KEY).address
-  : null;
-
-// Greenfield client
-let client: Client;
+// Greenfield bucket, or a local directory / SQLite file depending on MEMORY_STORE_BACKEND
+const store = createMemoryStore(POLYMARKET_BUCKET_NAME);
 
 /**
  * Polymarket Bet Data Structure
@@ -92,98 +71,18 @@ export interface PolymarketBet {
   walletAddress: string;
 }
 
-/**
- * Initialize Greenfield client
- */
-async function initClient(): Promise<Client> {
-  if (!client) {
-    client = Client.create(GREENFIELD_RPC_URL, GREENFIELD_CHAIN_ID);
-    logger.info('🔮 Polymarket Greenfield client initialized');
-  }
-  return client;
-}
-
-/**
- * Get primary Storage Provider address
- */
-async function getPrimarySpAddress(): Promise<string> {
-  const greenfieldClient = await initClient();
-  const spList = await greenfieldClient.sp.getStorageProviders();
-  if (!spList || spList.length === 0) {
-    throw new Error('No storage providers available');
-  }
-  return spList[0]?.operatorAddress || '';
-}
-
-/**
- * Ensure Polymarket bucket exists
- */
-async function ensureBucketExists(): Promise<void> {
-  if (!hasValidKey || !ACCOUNT_ADDRESS) {
-    throw new Error('Cannot create bucket: No valid wallet configured');
-  }
-
-  try {
-    const greenfieldClient = await initClient();
-
-    // Check if bucket exists
-    const headBucketRes = await greenfieldClient.bucket.headBucket(POLYMARKET_BUCKET_NAME);
-    if (headBucketRes) {
-      logger.info(`🔮 Polymarket bucket ${POLYMARKET_BUCKET_NAME} already exists.`);
-      return;
-    }
-  } catch (error: any) {
-    logger.info(`🔮 Polymarket bucket ${POLYMARKET_BUCKET_NAME} does not exist, creating...`);
-  }
-
-  try {
-    const greenfieldClient = await initClient();
-
-    // Create bucket for Polymarket data
-    const createBucketTx = await greenfieldClient.bucket.createBucket({
-      bucketName: POLYMARKET_BUCKET_NAME,
-      creator: ACCOUNT_ADDRESS,
-      visibility: VisibilityType.VISIBILITY_TYPE_PUBLIC_READ,
-      chargedReadQuota: Long.fromString('0'),
-      primarySpAddress: (await getPrimarySpAddress()),
-      paymentAddress: ACCOUNT_ADDRESS,
-    });
-
-    // Simulate gas
-    const simulateInfo = await createBucketTx.simulate({ denom: 'BNB' });
-
-    // Broadcast transaction
-    const broadcastRes = await createBucketTx.broadcast({
-      denom: 'BNB',
-      gasLimit: Number(simulateInfo.gasLimit),
-      gasPrice: simulateInfo.gasPrice || '5000000000',
-      payer: ACCOUNT_ADDRESS,
-      granter: '',
-      privateKey: ACCOUNT_PRIVATE_KEY,
-    });
-
-    if (broadcastRes.code !== 0) {
-      throw new Error(`Bucket creation failed: ${broadcastRes.rawLog}`);
-    }
-
-    logger.info(`🔮 Polymarket bucket ${POLYMARKET_BUCKET_NAME} created successfully. Tx Hash: ${broadcastRes.transactionHash}`);
-  } catch (error) {
-    logger.error('Failed to create Polymarket bucket:', error);
-    throw error;
-  }
-}
-
 /**
  * Initialize Polymarket storage
  */
 export async function initializePolymarketStorage(): Promise<void> {
   try {
-    logger.info('🔮 Initializing Polymarket Greenfield storage...');
-    await ensureBucketExists();
-    logger.info('✅ Polymarket Greenfield storage initialized successfully');
+    logger.info(`🔮 Initializing Polymarket storage (${store.backend})...`);
+    await store.ensureReady();
+    scheduleKeyRotation(store);
+    logger.info('✅ Polymarket storage initialized successfully');
   } catch (error) {
     logger.error('Failed to initialize Polymarket storage:', error);
-    logger.warn('Polymarket bets will not be saved to Greenfield');
+    logger.warn('Polymarket bets will not be saved');
     // Don't throw - allow app to continue without Greenfield storage
   }
 }
@@ -192,7 +91,7 @@ export async function initializePolymarketStorage(): Promise<void> {
  * Store a Polymarket bet on Greenfield
  */
 export async function storeBet(betData: PolymarketBet): Promise<string> {
-  if (!hasValidKey || !ACCOUNT_ADDRESS) {
+  if (!store.isAvailable()) {
     logger.warn('🚨 Polymarket storage disabled - using local fallback (no wallet configured)');
     const fallbackId = `local_bet_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     logger.info(`Simulated bet storage: ${betData.marketQuestion}`);
@@ -200,72 +99,20 @@ export async function storeBet(betData: PolymarketBet): Promise<string> {
   }
 
   try {
-    await ensureBucketExists();
-    const greenfieldClient = await initClient();
-
     // Generate unique ID if not provided
     if (!betData.id) {
       betData.id = `bet_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     }
 
-    const betJson = JSON.stringify(betData, null, 2);
-    const objectName = `polymarket_bet_${betData.id}.json`;
-    const payloadSize = betJson.length;
-
-    // Create object transaction
-    const createObjectTx = await greenfieldClient.object.createObject({
-      bucketName: POLYMARKET_BUCKET_NAME,
-      objectName,
-      creator: ACCOUNT_ADDRESS,
-      visibility: VisibilityType.VISIBILITY_TYPE_PUBLIC_READ,
-      contentType: 'application/json',
-      redundancyType: RedundancyType.REDUNDANCY_EC_TYPE,
-      payloadSize: Long.fromNumber(payloadSize),
-      expectChecksums: [],
-    });
-
-    // Simulate
-    const simulateInfo = await createObjectTx.simulate({ denom: 'BNB' });
-
-    // Broadcast
-    const createRes = await createObjectTx.broadcast({
-      denom: 'BNB',
-      gasLimit: Number(simulateInfo.gasLimit),
-      gasPrice: simulateInfo.gasPrice || '5000000000',
-      payer: ACCOUNT_ADDRESS,
-      granter: '',
-      privateKey: ACCOUNT_PRIVATE_KEY,
-    });
-
-    if (createRes.code !== 0) {
-      throw new Error(`Object creation failed: ${createRes.rawLog}`);
-    }
-
-    // Upload the object content
-    const uploadRes = await greenfieldClient.object.uploadObject(
-      {
-        bucketName: POLYMARKET_BUCKET_NAME,
-        objectName,
-        body: new File([betJson], objectName, { type: 'application/json' }),
-        txnHash: createRes.transactionHash,
-      },
-      {
-        type: 'ECDSA',
-        privateKey: ACCOUNT_PRIVATE_KEY,
-      }
-    );
+    await store.put(`polymarket_bet_${betData.id}.json`, JSON.stringify(betData, null, 2));
 
-    if (uploadRes.code !== 0) {
-      throw new Error(`Upload failed: ${uploadRes.message}`);
-    }
-
-    logger.info(`🔮 Bet stored on Greenfield: ${betData.id}`);
+    logger.info(`🔮 Bet stored (${store.backend}): ${betData.id}`);
     logger.info(`   Market: ${betData.marketQuestion}`);
     logger.info(`   ${betData.side} ${betData.size} USDC @ ${(betData.price * 100).toFixed(1)}%`);
 
     return betData.id;
   } catch (error) {
-    logger.error('Failed to store bet on Greenfield:', error);
+    logger.error('Failed to store bet:', error);
     throw error;
   }
 }
@@ -274,50 +121,16 @@ export async function storeBet(betData: PolymarketBet): Promise<string> {
  * Fetch a bet by ID
  */
 export async function fetchBet(betId: string): Promise<PolymarketBet | null> {
-  if (!hasValidKey || !ACCOUNT_ADDRESS) {
+  if (!store.isAvailable()) {
     logger.warn('🚨 Cannot fetch bet - no valid wallet configured');
     return null;
   }
 
   try {
-    const greenfieldClient = await initClient();
-    const objectName = `polymarket_bet_${betId}.json`;
-
-    const getRes = await greenfieldClient.object.getObject(
-      {
-        bucketName: POLYMARKET_BUCKET_NAME,
-        objectName,
-      },
-      {
-        type: 'ECDSA',
-        privateKey: ACCOUNT_PRIVATE_KEY,
-      }
-    );
-
-    if (getRes.code !== 0) {
-      throw new Error(`Fetch failed: ${getRes.message}`);
-    }
-
-    // Handle response body
-    let betJson: string;
-
-    if (getRes.body instanceof Blob) {
-      betJson = await getRes.body.text();
-    } else if (getRes.body) {
-      const body = getRes.body as unknown as ReadableStream<Uint8Array>;
-      const chunks: Uint8Array[] = [];
-      const reader = body.getReader();
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        chunks.push(value);
-      }
-
-      const betBuffer = Buffer.concat(chunks);
-      betJson = betBuffer.toString('utf-8');
-    } else {
-      throw new Error('No response body received');
+    const betJson = await store.get(`polymarket_bet_${betId}.json`);
+    if (betJson === null) {
+      logger.warn(`Bet not found: ${betId}`);
+      return null;
     }
 
     return JSON.parse(betJson);
@@ -331,26 +144,13 @@ export async function fetchBet(betId: string): Promise<PolymarketBet | null> {
  * List all stored bets
  */
 export async function fetchAllBets(): Promise<string[]> {
-  if (!hasValidKey || !ACCOUNT_ADDRESS) {
+  if (!store.isAvailable()) {
     logger.warn('🚨 Cannot fetch bets - no valid wallet configured');
     return [];
   }
 
   try {
-    const greenfieldClient = await initClient();
-
-    const listRes = await greenfieldClient.object.listObjects({
-      bucketName: POLYMARKET_BUCKET_NAME,
-      endpoint: GREENFIELD_RPC_URL,
-    });
-
-    if (listRes.statusCode !== 200) {
-      throw new Error(`Failed to list objects: ${listRes.statusCode}`);
-    }
-
-    const objectNames = listRes.body?.GfSpListObjectsByBucketNameResponse?.Objects?.map(
-      (obj: any) => obj.ObjectInfo?.ObjectName
-    ) || [];
+    const objectNames = await store.list();
 
     // Extract bet IDs from filenames
     return objectNames
@@ -397,38 +197,17 @@ export async function updateBet(
  * Delete a bet
  */
 export async function deleteBet(betId: string): Promise<boolean> {
-  if (!hasValidKey || !ACCOUNT_ADDRESS) {
+  if (!store.isAvailable()) {
     logger.warn('🚨 Cannot delete bet - no valid wallet configured');
     return false;
   }
 
   try {
-    const greenfieldClient = await initClient();
-    const objectName = `polymarket_bet_${betId}.json`;
-
-    const deleteTx = await greenfieldClient.object.deleteObject({
-      bucketName: POLYMARKET_BUCKET_NAME,
-      objectName,
-      operator: ACCOUNT_ADDRESS,
-    });
-
-    const simulateInfo = await deleteTx.simulate({ denom: 'BNB' });
-
-    const deleteRes = await deleteTx.broadcast({
-      denom: 'BNB',
-      gasLimit: Number(simulateInfo.gasLimit),
-      gasPrice: simulateInfo.gasPrice || '5000000000',
-      payer: ACCOUNT_ADDRESS,
-      granter: '',
-      privateKey: ACCOUNT_PRIVATE_KEY,
-    });
-
-    if (deleteRes.code !== 0) {
-      throw new Error(`Delete failed: ${deleteRes.rawLog}`);
+    const deleted = await store.delete(`polymarket_bet_${betId}.json`);
+    if (deleted) {
+      logger.info(`🔮 Bet ${betId} deleted`);
     }
-
-    logger.info(`🔮 Bet ${betId} deleted. Tx Hash: ${deleteRes.transactionHash}`);
-    return true;
+    return deleted;
   } catch (error) {
     logger.error('Failed to delete bet:', error);
     return false;
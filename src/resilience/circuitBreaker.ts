@@ -105,6 +105,11 @@ export const openRouterCircuitBreaker = new CircuitBreaker({
   resetTimeout: 60000, // 1 minute
 });
 
+export const localLLMCircuitBreaker = new CircuitBreaker({
+  failureThreshold: 3,
+  resetTimeout: 30000,
+});
+
 export const greenfieldCircuitBreaker = new CircuitBreaker({
   failureThreshold: 5,
   resetTimeout: 60000,
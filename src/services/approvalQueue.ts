@@ -0,0 +1,149 @@
+/**
+ * Trade Approval Queue
+ * When auto-trading is disabled, BUY decisions that pass risk checks are parked here
+ * until an operator approves or rejects them (API, dashboard or Telegram).
+ * A decision past its expiry can still be approved, but is re-quoted first.
+ */
+
+import { TradingError } from '../utils/errorHandler';
+import type { Token, Decision, MarketConditions } from './tradingLoop';
+
+export type PendingDecisionStatus =
+  | 'pending'
+  | 'approved' // approved, execution in progress
+  | 'executed'
+  | 'rejected'
+  | 'failed'
+  | 'superseded'; // replaced by a newer decision for the same token
+
+export interface PendingDecision {
+  id: string;
+  token: Token;
+  decision: Decision;
+  marketConditions: MarketConditions;
+  quotedPrice: number; // token price when the decision was made
+  createdAt: number;
+  expiresAt: number;
+  status: PendingDecisionStatus;
+  resolvedBy?: string; // 'api', 'telegram:<userId>', ...
+  resolvedAt?: number;
+  requotedPrice?: number;
+  reason?: string; // rejection reason or execution error
+  txHash?: string;
+}
+
+const MAX_HISTORY = 100;
+
+export class ApprovalQueue {
+  private items: Map<string, PendingDecision> = new Map();
+
+  constructor(
+    private ttlMs: number,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Park a decision; an older pending decision for the same token is superseded
+   */
+  enqueue(token: Token, decision: Decision, marketConditions: MarketConditions): PendingDecision {
+    const createdAt = this.now();
+
+    for (const item of this.items.values()) {
+      if (item.status === 'pending' && item.token.address.toLowerCase() === token.address.toLowerCase()) {
+        this.finish(item, 'superseded', 'system');
+      }
+    }
+
+    const pending: PendingDecision = {
+      id: `dec_${createdAt.toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+      token: { ...token },
+      decision: { ...decision },
+      marketConditions,
+      quotedPrice: token.price,
+      createdAt,
+      expiresAt: createdAt + this.ttlMs,
+      status: 'pending',
+    };
+    this.items.set(pending.id, pending);
+    this.prune();
+
+    return pending;
+  }
+
+  get(id: string): PendingDecision | undefined {
+    return this.items.get(id);
+  }
+
+  /**
+   * Decisions with the given status (all when omitted), newest first
+   */
+  list(status?: PendingDecisionStatus): PendingDecision[] {
+    return Array.from(this.items.values())
+      .filter(item => !status || item.status === status)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  isExpired(item: PendingDecision): boolean {
+    return this.now() > item.expiresAt;
+  }
+
+  /**
+   * Mark a pending decision approved so it can't be approved twice while executing
+   */
+  approve(id: string, approvedBy: string): PendingDecision {
+    const item = this.requirePending(id);
+    item.status = 'approved';
+    item.resolvedBy = approvedBy;
+    item.resolvedAt = this.now();
+    return item;
+  }
+
+  reject(id: string, rejectedBy: string, reason?: string): PendingDecision {
+    const item = this.requirePending(id);
+    this.finish(item, 'rejected', rejectedBy, reason);
+    return item;
+  }
+
+  /**
+   * Record the outcome of an approved decision
+   */
+  complete(id: string, outcome: { txHash?: string; error?: string }): PendingDecision {
+    const item = this.items.get(id);
+    if (!item || item.status !== 'approved') {
+      throw new TradingError(`Decision ${id} is not awaiting execution`, 'DECISION_NOT_PENDING');
+    }
+
+    item.txHash = outcome.txHash;
+    item.status = outcome.error ? 'failed' : 'executed';
+    item.reason = outcome.error;
+    return item;
+  }
+
+  private requirePending(id: string): PendingDecision {
+    const item = this.items.get(id);
+    if (!item) {
+      throw new TradingError(`Decision ${id} not found`, 'DECISION_NOT_FOUND');
+    }
+    if (item.status !== 'pending') {
+      throw new TradingError(`Decision ${id} is already ${item.status}`, 'DECISION_NOT_PENDING');
+    }
+    return item;
+  }
+
+  private finish(item: PendingDecision, status: PendingDecisionStatus, by: string, reason?: string): void {
+    item.status = status;
+    item.resolvedBy = by;
+    item.resolvedAt = this.now();
+    item.reason = reason;
+  }
+
+  /**
+   * Keep every pending decision but only the most recent resolved ones
+   */
+  private prune(): void {
+    const resolved = this.list().filter(item => item.status !== 'pending' && item.status !== 'approved');
+    for (const item of resolved.slice(MAX_HISTORY)) {
+      this.items.delete(item.id);
+    }
+  }
+}
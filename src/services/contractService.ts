@@ -7,6 +7,7 @@
 
 import { ethers, Contract, JsonRpcProvider, Wallet } from 'ethers';
 import { IMMBOT_TOKEN_ABI, STAKING_CONTRACT_ABI, FLASH_LOAN_ARBITRAGE_ABI } from '../contracts/abis';
+import type { ArbitrageHop } from '../flashloans/cycleFinder';
 import logger from '../utils/logger';
 
 // Contract configuration
@@ -446,12 +447,14 @@ export class ContractService {
   // ARBITRAGE CONTRACT METHODS
   // ============================================================================
 
+  /**
+   * @param flashFee fee tier of the flash pool (hundredths of a bip)
+   * @param hops router calls in order; V2 hops only (the contract cannot quote V3 in a view)
+   */
   async simulateArbitrage(
     loanAmount: string,
-    buyRouter: string,
-    sellRouter: string,
-    buyPath: string[],
-    sellPath: string[],
+    flashFee: number,
+    hops: ArbitrageHop[],
     minProfit: string
   ): Promise<ArbitrageSimulation> {
     if (!this.arbitrageContract) {
@@ -463,14 +466,11 @@ export class ContractService {
       const minProfitWei = ethers.parseEther(minProfit);
 
       const params = {
-        buyRouter,
-        sellRouter,
-        buyPath,
-        sellPath,
+        hops,
         minProfit: minProfitWei,
       };
 
-      const result = await (this.arbitrageContract as any).simulateArbitrage(loanAmountWei, params);
+      const result = await (this.arbitrageContract as any).simulateArbitrage(loanAmountWei, flashFee, params);
 
       const expectedProfit = ethers.formatEther(result.expectedProfit);
       const profitPercentage = (parseFloat(expectedProfit) / parseFloat(loanAmount)) * 100;
@@ -490,10 +490,7 @@ export class ContractService {
     pool: string,
     amount0: string,
     amount1: string,
-    buyRouter: string,
-    sellRouter: string,
-    buyPath: string[],
-    sellPath: string[],
+    hops: ArbitrageHop[],
     minProfit: string
   ): Promise<string> {
     if (!this.arbitrageContract || !this.wallet) {
@@ -506,10 +503,7 @@ export class ContractService {
       const minProfitWei = ethers.parseEther(minProfit);
 
       const params = {
-        buyRouter,
-        sellRouter,
-        buyPath,
-        sellPath,
+        hops,
         minProfit: minProfitWei,
       };
 
@@ -32,30 +32,69 @@ export const TradeSide = {
   SELL: 'SELL',
 } as const;
 
-type OrderType = typeof OrderType[keyof typeof OrderType];
-type OrderStatus = typeof OrderStatus[keyof typeof OrderStatus];
-type TradeSide = typeof TradeSide[keyof typeof TradeSide];
+export type OrderType = typeof OrderType[keyof typeof OrderType];
+export type OrderStatus = typeof OrderStatus[keyof typeof OrderStatus];
+export type TradeSide = typeof TradeSide[keyof typeof TradeSide];
 
+import { ethers } from 'ethers';
 import { logger } from '../utils/logger';
 import { EventEmitter } from 'events';
+import { CONFIG } from '../config';
+import { ValidationError } from '../utils/errorHandler';
 import { metricsService } from './metricsService';
 import webSocketManager from './webSocketManager';
+import { getTradeExecutorInstance } from '../blockchain/tradeExecutor';
+import type { TradeExecutor, TradeParams } from '../blockchain/tradeExecutor';
+import { createOrderStore } from '../db/repositories/orderRepository';
+import type { OrderStore, OrderFilter } from '../db/repositories/orderRepository';
+
+// Small buy quote used to price tokens in BNB when sizing a SELL
+const QUOTE_PROBE_BNB = 0.01;
+
+export interface Order {
+  id: string;
+  userId: string;
+  marketId: string;
+  marketQuestion: string;
+  tokenId: string; // token address; fills are swaps on the DEX
+  outcome: string;
+  side: TradeSide;
+  type: OrderType;
+  amount: number; // BUY: BNB to spend, SELL: tokens to sell
+  price?: number; // limit price
+  filledAmount: number;
+  remainingAmount: number;
+  avgFillPrice?: number; // market price the order filled at
+  stopLoss?: number;
+  takeProfit?: number;
+  trailingStop?: number; // percent
+  status: OrderStatus;
+  txHash?: string;
+  error?: string; // why execution was rejected
+  createdAt: Date;
+  expiresAt?: Date;
+  filledAt?: Date;
+  cancelledAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface CreateOrderInput {
+  userId: string;
+  tokenId: string;
+  side: TradeSide;
+  type: OrderType;
+  amount: number;
+  price?: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  trailingStop?: number;
+  expiresAt?: Date;
+  marketId?: string;
+  marketQuestion?: string;
+  outcome?: string;
+}
 
-// Mock Prisma - using direct mock to avoid require() issues
-// App works without database - all Prisma calls return empty results
-const prisma = {
-  order: { 
-    findMany: () => Promise.resolve([]), 
-    create: () => Promise.resolve({ id: `order_${Date.now()}`, status: 'FILLED' }),
-    findUnique: () => Promise.resolve(null),
-    update: () => Promise.resolve({}),
-    delete: () => Promise.resolve({}),
-  },
-  trade: { 
-    findMany: () => Promise.resolve([]),
-    create: () => Promise.resolve({ id: `trade_${Date.now()}` }),
-  },
-};
+export type OrderTradeExecutor = Pick<TradeExecutor, 'executeTrade' | 'getTradeQuote'>;
 
 export interface MarketPrice {
   tokenId: string;
@@ -76,6 +115,94 @@ class OrderMonitoringService extends EventEmitter {
   private monitoringInterval: NodeJS.Timeout | null = null;
   private priceCache: Map<string, MarketPrice> = new Map();
   private trailingStopHighs: Map<string, number> = new Map(); // Track highest prices for trailing stops
+  private executing: Set<string> = new Set(); // orders with a trade in flight
+  private store: OrderStore;
+
+  constructor(store?: OrderStore, private executor?: OrderTradeExecutor) {
+    super();
+    this.store = store ?? createOrderStore();
+  }
+
+  /**
+   * Create an order. MARKET orders execute immediately; the others are
+   * persisted OPEN and filled by the monitor once their condition is met.
+   */
+  async createOrder(input: CreateOrderInput): Promise<Order> {
+    validateOrderInput(input);
+
+    const now = new Date();
+    const order = await this.store.create({
+      id: `order_${now.getTime().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+      userId: input.userId,
+      marketId: input.marketId || 'dex',
+      marketQuestion: input.marketQuestion || `${input.side} ${input.tokenId}`,
+      tokenId: input.tokenId,
+      outcome: input.outcome || '',
+      side: input.side,
+      type: input.type,
+      amount: input.amount,
+      price: input.price,
+      filledAmount: 0,
+      remainingAmount: input.amount,
+      stopLoss: input.stopLoss,
+      takeProfit: input.takeProfit,
+      trailingStop: input.trailingStop,
+      status: OrderStatus.OPEN,
+      createdAt: now,
+      expiresAt: input.expiresAt,
+    });
+
+    logger.info(`✅ Order created: ${order.id} (${order.type} ${order.side} ${order.amount})`);
+    metricsService.trackOrder(order.type, order.side, order.status);
+    this.notifyOrderUpdate(order);
+
+    if (order.type === OrderType.MARKET) {
+      await this.executeOrder(order, this.getPrice(order.tokenId) ?? undefined, 'Market order');
+      return (await this.store.findById(order.id)) ?? order;
+    }
+
+    return order;
+  }
+
+  /**
+   * Record a trade that was already executed elsewhere as a filled MARKET order
+   */
+  async recordFilledOrder(fill: CreateOrderInput & { id?: string; txHash?: string; filledAt?: Date }): Promise<Order> {
+    const filledAt = fill.filledAt ?? new Date();
+    const order = await this.store.create({
+      id: fill.id || `order_${filledAt.getTime().toString(36)}_${Math.random().toString(36).slice(2, 8)}`,
+      userId: fill.userId,
+      marketId: fill.marketId || 'dex',
+      marketQuestion: fill.marketQuestion || `${fill.side} ${fill.tokenId}`,
+      tokenId: fill.tokenId,
+      outcome: fill.outcome || '',
+      side: fill.side,
+      type: OrderType.MARKET,
+      amount: fill.amount,
+      price: fill.price,
+      filledAmount: fill.amount,
+      remainingAmount: 0,
+      avgFillPrice: fill.price,
+      status: OrderStatus.FILLED,
+      txHash: fill.txHash,
+      createdAt: filledAt,
+      filledAt,
+    });
+
+    metricsService.trackOrder(order.type, order.side, order.status);
+    return order;
+  }
+
+  /**
+   * List orders, newest first
+   */
+  async listOrders(filter: OrderFilter = {}): Promise<Order[]> {
+    return this.store.findMany({ limit: 100, ...filter });
+  }
+
+  async getOrder(orderId: string): Promise<Order | null> {
+    return this.store.findById(orderId);
+  }
 
   /**
    * Start monitoring orders
@@ -145,17 +272,15 @@ class OrderMonitoringService extends EventEmitter {
   private async checkOrders(): Promise<void> {
     try {
       // Fetch all open orders
-      const openOrders = await (prisma as any).order.findMany({
-        where: {
-          status: {
-            in: [OrderStatus.OPEN, OrderStatus.PARTIALLY_FILLED],
-          },
-        },
-        orderBy: {
-          createdAt: 'asc',
-        },
+      const openOrders = await this.store.findMany({
+        status: [OrderStatus.OPEN, OrderStatus.PARTIALLY_FILLED],
+        oldestFirst: true,
       });
 
+      for (const type of Object.values(OrderType)) {
+        metricsService.updateActiveOrders(type, openOrders.filter(order => order.type === type).length);
+      }
+
       if (openOrders.length === 0) return;
 
       logger.debug(`🔍 Checking ${openOrders.length} open orders...`);
@@ -163,6 +288,10 @@ class OrderMonitoringService extends EventEmitter {
       // Check each order
       for (const order of openOrders) {
         try {
+          if (order.expiresAt && order.expiresAt.getTime() <= Date.now()) {
+            await this.expireOrder(order);
+            continue;
+          }
           await this.checkOrder(order);
         } catch (error) {
           logger.error(`Failed to check order ${order.id}:`, error);
@@ -177,7 +306,7 @@ class OrderMonitoringService extends EventEmitter {
   /**
    * Check a single order and execute if conditions are met
    */
-  private async checkOrder(order: any): Promise<void> {
+  private async checkOrder(order: Order): Promise<void> {
     const currentPrice = this.getPrice(order.tokenId);
 
     if (!currentPrice) {
@@ -226,7 +355,7 @@ class OrderMonitoringService extends EventEmitter {
    * BUY: Execute when price drops to or below limit price
    * SELL: Execute when price rises to or above limit price
    */
-  private checkLimitOrder(order: any, currentPrice: number): boolean {
+  private checkLimitOrder(order: Order, currentPrice: number): boolean {
     if (!order.price) return false;
 
     if (order.side === TradeSide.BUY) {
@@ -241,7 +370,7 @@ class OrderMonitoringService extends EventEmitter {
    * BUY: Execute when price rises to stop loss (stop loss on short)
    * SELL: Execute when price drops to stop loss (stop loss on long)
    */
-  private checkStopLossOrder(order: any, currentPrice: number): boolean {
+  private checkStopLossOrder(order: Order, currentPrice: number): boolean {
     if (!order.stopLoss) return false;
 
     if (order.side === TradeSide.BUY) {
@@ -256,7 +385,7 @@ class OrderMonitoringService extends EventEmitter {
    * BUY: Execute when price drops to take profit (taking profit on short)
    * SELL: Execute when price rises to take profit (taking profit on long)
    */
-  private checkTakeProfitOrder(order: any, currentPrice: number): boolean {
+  private checkTakeProfitOrder(order: Order, currentPrice: number): boolean {
     if (!order.takeProfit) return false;
 
     if (order.side === TradeSide.BUY) {
@@ -271,7 +400,7 @@ class OrderMonitoringService extends EventEmitter {
    * Tracks the highest price (for long) or lowest price (for short)
    * and executes when price moves against position by trailing amount
    */
-  private checkTrailingStopOrder(order: any, currentPrice: number): boolean {
+  private checkTrailingStopOrder(order: Order, currentPrice: number): boolean {
     if (!order.trailingStop) return false;
 
     const orderId = order.id;
@@ -306,51 +435,40 @@ class OrderMonitoringService extends EventEmitter {
   }
 
   /**
-   * Execute an order that has met its conditions
+   * Execute an order that has met its conditions by swapping through TradeExecutor
    */
-  private async executeOrder(order: any, executionPrice: number, reason: string): Promise<void> {
+  private async executeOrder(order: Order, executionPrice: number | undefined, reason: string): Promise<OrderExecutionResult> {
+    if (this.executing.has(order.id)) {
+      return { orderId: order.id, success: false, error: 'Order is already executing' };
+    }
+    this.executing.add(order.id);
+
     try {
       logger.info(`🚀 Executing order ${order.id}`);
       logger.info(`  - Type: ${order.type}`);
       logger.info(`  - Side: ${order.side}`);
       logger.info(`  - Amount: ${order.remainingAmount}`);
-      logger.info(`  - Price: ${executionPrice}`);
+      logger.info(`  - Price: ${executionPrice ?? 'market'}`);
       logger.info(`  - Reason: ${reason}`);
 
-      // TODO: Integrate with actual trade execution service
-      // For now, we'll just update the database
+      const params = await this.toTradeParams(order);
+      const trade = await this.getExecutor().executeTrade(params);
 
-      const executedAmount = order.remainingAmount;
-      const filledAmount = order.filledAmount + executedAmount;
-
-      await (prisma as any).order.update({
-        where: { id: order.id },
-        data: {
-          status: OrderStatus.FILLED,
-          filledAmount: filledAmount,
-          remainingAmount: 0,
-          executedAt: new Date(),
-        },
-      });
+      if (!trade.success) {
+        throw new Error(trade.error || 'Trade execution failed');
+      }
 
-      // Create corresponding trade record
-      await (prisma as any).trade.create({
-        data: {
-          userId: order.userId,
-          marketId: order.marketId,
-          marketQuestion: order.marketQuestion,
-          tokenId: order.tokenId,
-          outcome: order.outcome,
-          side: order.side,
-          type: order.type === OrderType.MARKET ? 'MARKET' : 'LIMIT',
-          amount: executedAmount,
-          price: executionPrice,
-          filledAmount: executedAmount,
-          avgFillPrice: executionPrice,
-          fee: executedAmount * executionPrice * 0.002, // 0.2% fee
-          status: 'SETTLED',
-          executedAt: new Date(),
-        },
+      const executedAmount = order.remainingAmount;
+      const fillPrice = executionPrice ?? trade.actualPrice;
+      const txHash = trade.txHash || trade.hash;
+
+      await this.store.update(order.id, {
+        status: OrderStatus.FILLED,
+        filledAmount: order.filledAmount + executedAmount,
+        remainingAmount: 0,
+        avgFillPrice: fillPrice,
+        txHash,
+        filledAt: new Date(),
       });
 
       // Clean up trailing stop tracking
@@ -363,7 +481,8 @@ class OrderMonitoringService extends EventEmitter {
         type: order.type,
         side: order.side,
         amount: executedAmount,
-        price: executionPrice,
+        price: fillPrice,
+        txHash,
         reason,
       });
 
@@ -377,20 +496,103 @@ class OrderMonitoringService extends EventEmitter {
         type: order.type,
         side: order.side,
         amount: executedAmount,
-        price: executionPrice,
+        price: fillPrice,
+        txHash,
         reason,
       });
 
-      logger.info(`✅ Order ${order.id} executed successfully`);
+      logger.info(`✅ Order ${order.id} executed successfully (TX: ${txHash})`);
+
+      return { orderId: order.id, success: true, executedPrice: fillPrice, executedAmount, txHash };
 
     } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
       logger.error(`❌ Failed to execute order ${order.id}:`, error);
 
+      // Rejected rather than left open so a failing swap isn't retried every tick
+      try {
+        const rejected = await this.store.update(order.id, { status: OrderStatus.REJECTED, error: message });
+        this.notifyOrderUpdate(rejected);
+      } catch (updateError) {
+        logger.error(`Failed to mark order ${order.id} rejected:`, updateError);
+      }
+      this.trailingStopHighs.delete(order.id);
+
       this.emit('orderExecutionFailed', {
         orderId: order.id,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: message,
+      });
+
+      webSocketManager.sendErrorNotification({
+        title: `Order Failed: ${order.type} ${order.side}`,
+        message,
+        code: 'ORDER_EXECUTION_FAILED',
+        details: { orderId: order.id, userId: order.userId, tokenId: order.tokenId },
       });
+
+      return { orderId: order.id, success: false, error: message };
+    } finally {
+      this.executing.delete(order.id);
+    }
+  }
+
+  /**
+   * Size the swap: BUY orders spend BNB, SELL orders sell tokens priced in BNB from a quote
+   */
+  private async toTradeParams(order: Order): Promise<TradeParams> {
+    const slippagePercent = CONFIG.MAX_SLIPPAGE_PERCENTAGE || 2;
+
+    if (order.side === TradeSide.BUY) {
+      return { tokenAddress: order.tokenId, action: 'buy', amountBNB: order.remainingAmount, slippagePercent };
+    }
+
+    const quote = await this.getExecutor().getTradeQuote({
+      tokenAddress: order.tokenId,
+      action: 'buy',
+      amountBNB: QUOTE_PROBE_BNB,
+    });
+    const bnbPerToken = Number(quote?.pricePerToken);
+    if (!(bnbPerToken > 0)) {
+      throw new Error(`No BNB quote available for ${order.tokenId}`);
+    }
+
+    return {
+      tokenAddress: order.tokenId,
+      action: 'sell',
+      amountBNB: order.remainingAmount * bnbPerToken,
+      tokenAmount: order.remainingAmount,
+      slippagePercent,
+      riskReducing: order.type === OrderType.STOP_LOSS || order.type === OrderType.TRAILING_STOP,
+    };
+  }
+
+  private async expireOrder(order: Order): Promise<void> {
+    const expired = await this.store.update(order.id, { status: OrderStatus.EXPIRED });
+    this.trailingStopHighs.delete(order.id);
+    logger.info(`⌛ Order ${order.id} expired`);
+    this.emit('orderExpired', { orderId: order.id, userId: order.userId });
+    this.notifyOrderUpdate(expired);
+  }
+
+  private notifyOrderUpdate(order: Order): void {
+    webSocketManager.sendOrderUpdate({
+      orderId: order.id,
+      userId: order.userId,
+      tokenId: order.tokenId,
+      type: order.type,
+      side: order.side,
+      status: order.status,
+      amount: order.amount,
+      remainingAmount: order.remainingAmount,
+      error: order.error,
+    });
+  }
+
+  private getExecutor(): OrderTradeExecutor {
+    if (!this.executor) {
+      this.executor = getTradeExecutorInstance();
     }
+    return this.executor;
   }
 
   /**
@@ -398,27 +600,21 @@ class OrderMonitoringService extends EventEmitter {
    */
   async cancelOrder(orderId: string, userId: string): Promise<boolean> {
     try {
-      const order = await (prisma as any).order.findFirst({
-        where: {
-          id: orderId,
-          userId: userId,
-          status: {
-            in: [OrderStatus.OPEN, OrderStatus.PARTIALLY_FILLED],
-          },
-        },
-      });
+      const order = await this.store.findById(orderId);
 
-      if (!order) {
+      const cancellable = order &&
+        order.userId === userId &&
+        (order.status === OrderStatus.OPEN || order.status === OrderStatus.PARTIALLY_FILLED) &&
+        !this.executing.has(orderId);
+      if (!cancellable) {
         throw new Error('Order not found or cannot be cancelled');
       }
 
-      await (prisma as any).order.update({
-        where: { id: orderId },
-        data: {
-          status: OrderStatus.CANCELLED,
-          cancelledAt: new Date(),
-        },
+      const cancelled = await this.store.update(orderId, {
+        status: OrderStatus.CANCELLED,
+        cancelledAt: new Date(),
       });
+      this.notifyOrderUpdate(cancelled);
 
       // Clean up trailing stop tracking
       this.trailingStopHighs.delete(orderId);
@@ -448,10 +644,10 @@ class OrderMonitoringService extends EventEmitter {
     const where = userId ? { userId } : {};
 
     const [totalOrders, openOrders, filledOrders, cancelledOrders] = await Promise.all([
-      (prisma as any).order.count({ where }),
-      (prisma as any).order.count({ where: { ...where, status: OrderStatus.OPEN } }),
-      (prisma as any).order.count({ where: { ...where, status: OrderStatus.FILLED } }),
-      (prisma as any).order.count({ where: { ...where, status: OrderStatus.CANCELLED } }),
+      this.store.count(where),
+      this.store.count({ ...where, status: OrderStatus.OPEN }),
+      this.store.count({ ...where, status: OrderStatus.FILLED }),
+      this.store.count({ ...where, status: OrderStatus.CANCELLED }),
     ]);
 
     return {
@@ -463,6 +659,41 @@ class OrderMonitoringService extends EventEmitter {
   }
 }
 
+/**
+ * Reject orders the monitor could never fill
+ */
+function validateOrderInput(input: CreateOrderInput): void {
+  if (!input.userId) {
+    throw new ValidationError('userId', input.userId, 'a user id');
+  }
+  if (!ethers.isAddress(input.tokenId)) {
+    throw new ValidationError('tokenId', input.tokenId, 'a token address');
+  }
+  if (!Object.values(TradeSide).includes(input.side)) {
+    throw new ValidationError('side', input.side, Object.values(TradeSide).join(' | '));
+  }
+  if (!Object.values(OrderType).includes(input.type)) {
+    throw new ValidationError('type', input.type, Object.values(OrderType).join(' | '));
+  }
+  if (!(input.amount > 0)) {
+    throw new ValidationError('amount', input.amount, 'a positive amount');
+  }
+
+  const trigger: Partial<Record<OrderType, keyof CreateOrderInput>> = {
+    [OrderType.LIMIT]: 'price',
+    [OrderType.STOP_LOSS]: 'stopLoss',
+    [OrderType.TAKE_PROFIT]: 'takeProfit',
+    [OrderType.TRAILING_STOP]: 'trailingStop',
+  };
+  const field = trigger[input.type];
+  if (field && !((input[field] as number) > 0)) {
+    throw new ValidationError(field, input[field], `a positive value for ${input.type} orders`);
+  }
+  if (input.type === OrderType.TRAILING_STOP && input.trailingStop! >= 100) {
+    throw new ValidationError('trailingStop', input.trailingStop, 'a percentage below 100');
+  }
+}
+
 // Singleton instance
 let orderMonitoringService: OrderMonitoringService | null = null;
 
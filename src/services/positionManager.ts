@@ -1,14 +1,23 @@
 /**
  * Position Manager Service
- * Tracks open trading positions, monitors P&L, and executes stop-loss
+ * Tracks open trading positions, monitors P&L, and executes each position's exit plan
+ * (stop-loss, trailing stop, take-profit ladder, time exit)
  * Implements position management requirements from PRD
  */
 
 import { logger } from '../utils/logger';
 import { CONFIG } from '../config';
 import { getTokenPrice } from '../data/marketFetcher';
-import { executeTrade, getWalletBalance } from '../blockchain/tradeExecutor';
-import { ethers } from 'ethers';
+import { executeTrade, getWalletBalance, getTokenBalance } from '../blockchain/tradeExecutor';
+import { createPositionStore } from '../db/repositories/positionRepository';
+import { getPortfolioRiskEngine } from '../ai/portfolioRisk';
+import type { PortfolioRiskReport, RiskHolding } from '../ai/portfolioRisk';
+import type { PositionStore } from '../db/repositories/positionRepository';
+import { TradingError, ValidationError } from '../utils/errorHandler';
+import type { AIDecision } from '../types';
+
+// Balances below this fraction of the entry amount are treated as sold
+const DUST_RATIO = 0.001;
 
 export interface Position {
   id: string;
@@ -16,17 +25,59 @@ export interface Position {
   symbol: string;
   entryPrice: number;
   currentPrice?: number;
-  amount: number; // amount in BNB
+  amount: number; // amount in BNB still held
+  originalAmount?: number; // amount in BNB at entry
+  tokenAmount?: number; // tokens still held
   strategy: string;
   confidence: number;
   timestamp: number;
   txHash?: string;
   status: 'open' | 'closed' | 'stop-loss';
+  exitPlan?: ExitPlan;
+  exitReason?: ExitReason;
   exitPrice?: number;
   exitTimestamp?: number;
   exitTxHash?: string;
   profitLoss?: number; // percentage
   profitLossAmount?: number; // in BNB
+  realizedProfitLossAmount?: number; // in BNB, from partial exits
+  paper?: boolean; // opened in paper trading mode
+}
+
+export type ExitReason = 'stop-loss' | 'trailing-stop' | 'take-profit' | 'time-exit' | 'manual' | 'reconciled';
+
+export interface TakeProfitTier {
+  price: number; // trigger price
+  sellFraction: number; // fraction of the original position to sell (0-1]
+  filledAt?: number;
+  fillPrice?: number;
+  txHash?: string;
+}
+
+export interface ExitPlan {
+  stopPrice?: number; // fixed stop
+  takeProfits: TakeProfitTier[]; // ascending ladder; filled tiers are kept
+  trailingStopPercent?: number; // stop trails the high-water mark by this much
+  highWaterMark?: number; // highest price seen since entry
+  maxHoldMs?: number; // close the position after this long
+  breakEvenAfterFirstTarget?: boolean; // move the stop to the entry price once a target fills
+}
+
+/**
+ * Editable part of an exit plan; null clears an optional field
+ */
+export interface ExitPlanUpdate {
+  stopPrice?: number | null;
+  takeProfits?: Array<Pick<TakeProfitTier, 'price' | 'sellFraction'>>;
+  trailingStopPercent?: number | null;
+  maxHoldMs?: number | null;
+  breakEvenAfterFirstTarget?: boolean;
+}
+
+export interface ExitSignal {
+  reason: 'stop-loss' | 'trailing-stop' | 'take-profit' | 'time-exit';
+  fraction: number; // of the amount still held; 1 closes the position
+  tiers: number[]; // take-profit tiers filled by this exit
 }
 
 export interface PerformanceStats {
@@ -50,13 +101,81 @@ export class PositionManager {
   private closedPositions: Position[] = [];
   private monitoringInterval: NodeJS.Timeout | null = null;
   private isMonitoring: boolean = false;
+  private store: PositionStore;
+  private restored: boolean = false;
+
+  constructor(store?: PositionStore) {
+    this.store = store ?? createPositionStore();
+    logger.info(`📊 Position Manager initialized (${this.store.backend} storage)`);
+  }
+
+  /**
+   * Load persisted positions and reconcile them against on-chain balances.
+   * Recovered positions are checked against their exit plans immediately and
+   * picked up by startMonitoring() from then on.
+   */
+  async restore(): Promise<{ recovered: number; closed: number }> {
+    if (this.restored) {
+      return { recovered: this.positions.size, closed: 0 };
+    }
+    this.restored = true;
+
+    let stored: Position[];
+    try {
+      stored = await this.store.loadOpen();
+      this.closedPositions = (await this.store.loadClosed()).reverse();
+    } catch (error) {
+      logger.error('Failed to load persisted positions:', error);
+      return { recovered: 0, closed: 0 };
+    }
+
+    // Paper and live positions never share a wallet
+    const paperMode = CONFIG.PAPER_TRADING;
+    const open = stored.filter(p => !!p.paper === paperMode);
+    if (open.length < stored.length) {
+      logger.info(`   Skipping ${stored.length - open.length} ${paperMode ? 'live' : 'paper'} positions`);
+    }
 
-  constructor() {
-    logger.info('📊 Position Manager initialized');
+    // Several positions can share one token balance; allocate it oldest first
+    const remaining = new Map<string, number>();
+    let closed = 0;
+    for (const position of open) {
+      let reconciled = position;
+      try {
+        const key = position.token.toLowerCase();
+        const available = remaining.get(key) ?? await getTokenBalance(position.token);
+        reconciled = reconcilePosition(position, available);
+        remaining.set(key, Math.max(0, available - (reconciled.status === 'open' ? reconciled.tokenAmount ?? 0 : 0)));
+      } catch (error) {
+        // Keep the position; the next successful check will catch up
+        logger.warn(`Could not reconcile ${position.symbol}: ${(error as Error).message}`);
+      }
+
+      if (reconciled.status === 'open') {
+        this.positions.set(reconciled.id, reconciled);
+      } else {
+        this.closedPositions.push(reconciled);
+        closed++;
+        logger.warn(`🔎 ${reconciled.symbol} no longer held on-chain - marked closed`);
+      }
+
+      if (reconciled !== position) {
+        await this.persist(reconciled);
+      }
+    }
+
+    logger.info(`♻️  Restored ${this.positions.size} open positions (${closed} closed during reconciliation)`);
+
+    // Prices may have moved through a stop or target while we were offline
+    if (this.positions.size > 0) {
+      await this.checkAllExits();
+    }
+
+    return { recovered: this.positions.size, closed };
   }
 
   /**
-   * Start monitoring positions for price updates and stop-loss
+   * Start monitoring positions for price updates and exits
    */
   async startMonitoring(intervalMs: number = 60000): Promise<void> {
     if (this.isMonitoring) {
@@ -67,10 +186,10 @@ export class PositionManager {
     logger.info('👀 Starting position monitoring...');
     this.isMonitoring = true;
 
-    // Monitor positions every minute
+    // Monitor positions every minute (price update + exit plan)
     this.monitoringInterval = setInterval(async () => {
       try {
-        await this.updateAllPositions();
+        await this.checkAllExits();
       } catch (error) {
         logger.error('Position monitoring error:', error);
       }
@@ -100,19 +219,47 @@ export class PositionManager {
   }
 
   /**
-   * Add a new position
+   * Add a new position; without an exit plan it gets the default fixed stop
    */
   async addPosition(position: Omit<Position, 'currentPrice' | 'exitPrice' | 'exitTimestamp' | 'exitTxHash' | 'profitLoss' | 'profitLossAmount'>): Promise<void> {
+    const exitPlan = position.exitPlan ?? defaultExitPlan(position.entryPrice);
+    validateExitPlan(exitPlan);
+
     const newPosition: Position = {
       ...position,
+      originalAmount: position.originalAmount ?? position.amount,
       currentPrice: position.entryPrice,
       status: 'open',
+      exitPlan,
+      paper: position.paper ?? (CONFIG.PAPER_TRADING || undefined),
     };
 
     this.positions.set(position.id, newPosition);
+    await this.persist(newPosition);
     
-    logger.info(`✅ Position added: ${position.symbol} (ID: ${position.id})`);
+    logger.info(`✅ Position added: ${newPosition.paper ? '[PAPER] ' : ''}${position.symbol} (ID: ${position.id})`);
     logger.info(`   Entry: $${position.entryPrice.toFixed(6)}, Amount: ${position.amount.toFixed(4)} BNB`);
+    logger.info(`   Exit plan: ${describeExitPlan(exitPlan)}`);
+  }
+
+  /**
+   * Replace parts of an open position's exit plan. Filled take-profit tiers are
+   * kept; new tiers are added on top of them.
+   */
+  async updateExitPlan(positionId: string, update: ExitPlanUpdate): Promise<Position> {
+    const position = this.positions.get(positionId);
+    if (!position) {
+      throw new TradingError(`Position not found: ${positionId}`, 'POSITION_NOT_FOUND', { positionId });
+    }
+
+    const exitPlan = mergeExitPlan(position.exitPlan ?? defaultExitPlan(position.entryPrice), update);
+    validateExitPlan(exitPlan);
+
+    position.exitPlan = exitPlan;
+    await this.persist(position);
+
+    logger.info(`✏️  Exit plan updated for ${position.symbol}: ${describeExitPlan(exitPlan)}`);
+    return position;
   }
 
   /**
@@ -158,6 +305,7 @@ export class PositionManager {
       position.profitLossAmount = profitLossAmount;
 
       this.positions.set(positionId, position);
+      await this.persist(position);
 
       logger.debug(
         `Position ${position.symbol}: ` +
@@ -170,89 +318,133 @@ export class PositionManager {
   }
 
   /**
-   * Check stop-loss for all positions
+   * Check the exit plan of all positions
    */
-  async checkAllStopLoss(): Promise<void> {
+  async checkAllExits(): Promise<void> {
     const positions = Array.from(this.positions.values());
     
     for (const position of positions) {
       try {
-        const shouldStopLoss = await this.checkStopLoss(position);
-        if (shouldStopLoss) {
-          await this.executeStopLoss(position);
+        const signal = await this.checkExitPlan(position);
+        if (signal) {
+          await this.executeExit(position, signal);
         }
       } catch (error) {
-        logger.error(`Stop-loss check error for ${position.symbol}:`, error);
+        logger.error(`Exit check error for ${position.symbol}:`, error);
       }
     }
   }
 
   /**
-   * Check if a position should trigger stop-loss
+   * Refresh a position's price, ratchet its high-water mark and evaluate its exit plan
    */
-  async checkStopLoss(position: Position): Promise<boolean> {
+  async checkExitPlan(position: Position): Promise<ExitSignal | null> {
     if (position.status !== 'open') {
-      return false;
+      return null;
     }
 
     // Update position price
     await this.updatePosition(position.id);
 
     const updatedPosition = this.positions.get(position.id);
-    if (!updatedPosition || !updatedPosition.profitLoss) {
-      return false;
+    if (!updatedPosition?.currentPrice) {
+      return null;
     }
 
-    const stopLossThreshold = -(CONFIG.STOP_LOSS_PERCENTAGE || 10);
+    const plan = updatedPosition.exitPlan ?? (updatedPosition.exitPlan = defaultExitPlan(updatedPosition.entryPrice));
+    if (updatedPosition.currentPrice > (plan.highWaterMark ?? updatedPosition.entryPrice)) {
+      plan.highWaterMark = updatedPosition.currentPrice;
+      await this.persist(updatedPosition);
+    }
 
-    // Check if loss exceeds threshold
-    if (updatedPosition.profitLoss <= stopLossThreshold) {
+    const signal = evaluateExitPlan(updatedPosition, updatedPosition.currentPrice);
+    if (signal) {
       logger.warn(
-        `⚠️  STOP-LOSS TRIGGERED: ${position.symbol} ` +
-        `(${updatedPosition.profitLoss.toFixed(2)}% loss)`
+        `⚠️  ${signal.reason.toUpperCase()} TRIGGERED: ${position.symbol} ` +
+        `(${(updatedPosition.profitLoss ?? 0).toFixed(2)}%, selling ${(signal.fraction * 100).toFixed(0)}%)`
       );
-      return true;
     }
 
-    return false;
+    return signal;
   }
 
   /**
-   * Execute stop-loss for a position
+   * Sell the fraction of a position named by an exit signal.
+   * Partial exits book their P&L and keep the position open; a full exit closes it.
    */
-  private async executeStopLoss(position: Position): Promise<void> {
-    logger.info(`🛑 Executing stop-loss for ${position.symbol}...`);
+  private async executeExit(position: Position, signal: ExitSignal): Promise<void> {
+    const closing = signal.fraction >= 1;
+    logger.info(`${closing ? '🛑' : '🎯'} Executing ${signal.reason} for ${position.symbol}...`);
 
     try {
-      // Execute sell trade
-      const WBNB_ADDRESS = CONFIG.TRADING_NETWORK === 'opbnb' 
-        ? '0x4200000000000000000000000000000000000006'
-        : '0xbb4CdB9CBd36B01bD1cBaEBF2De08d9173bc095c';
-
+      // Sell only this position's tokens, never the rest of the wallet's balance of the token
+      // (other positions, manual buys); the balance is the fallback for positions without a record
+      const tokensHeld = position.tokenAmount ?? await getTokenBalance(position.token);
       const trade = await executeTrade({
-        tokenIn: position.token,
-        tokenOut: WBNB_ADDRESS,
-        amountIn: ethers.parseEther(position.amount.toString()),
-        slippage: CONFIG.MAX_SLIPPAGE_PERCENTAGE || 2,
-      } as any);
+        tokenAddress: position.token,
+        action: 'sell',
+        amountBNB: position.amount * signal.fraction,
+        tokenAmount: tokensHeld * signal.fraction,
+        slippagePercent: CONFIG.MAX_SLIPPAGE_PERCENTAGE || 2,
+        riskReducing: signal.reason === 'stop-loss' || signal.reason === 'trailing-stop',
+      });
+
+      if (!trade.success) {
+        throw new Error(trade.error || `${signal.reason} sell failed`);
+      }
 
-      // Update position
-      position.status = 'stop-loss';
-      position.exitPrice = position.currentPrice;
-      position.exitTimestamp = Date.now();
-      position.exitTxHash = (trade as any).hash;
+      const now = Date.now();
+      const txHash = trade.txHash || trade.hash;
+      const price = position.currentPrice ?? position.entryPrice;
+      const basis = position.originalAmount ?? position.amount;
+      const soldAmount = position.amount * signal.fraction;
+      position.realizedProfitLossAmount =
+        (position.realizedProfitLossAmount || 0) + ((price - position.entryPrice) / position.entryPrice) * soldAmount;
+
+      const plan = position.exitPlan;
+      for (const index of signal.tiers) {
+        const tier = plan?.takeProfits[index];
+        if (tier) {
+          tier.filledAt = now;
+          tier.fillPrice = price;
+          tier.txHash = txHash;
+        }
+      }
 
-      // Move to closed positions
-      this.closedPositions.push(position);
-      this.positions.delete(position.id);
+      if (closing) {
+        position.status = signal.reason === 'stop-loss' || signal.reason === 'trailing-stop' ? 'stop-loss' : 'closed';
+        position.exitReason = signal.reason;
+        position.exitPrice = price;
+        position.exitTimestamp = now;
+        position.exitTxHash = txHash;
+        position.profitLossAmount = position.realizedProfitLossAmount;
+        position.profitLoss = (position.profitLossAmount / basis) * 100;
+
+        // Move to closed positions
+        this.closedPositions.push(position);
+        this.positions.delete(position.id);
+      } else {
+        position.amount -= soldAmount;
+        position.tokenAmount = tokensHeld - tokensHeld * signal.fraction;
+        position.profitLossAmount = ((price - position.entryPrice) / position.entryPrice) * position.amount;
+
+        if (plan?.breakEvenAfterFirstTarget && (plan.stopPrice ?? 0) < position.entryPrice) {
+          plan.stopPrice = position.entryPrice;
+          logger.info(`   Stop moved to break-even ($${position.entryPrice.toFixed(6)})`);
+        }
+      }
+
+      await this.persist(position);
 
       logger.info(
-        `✅ Stop-loss executed: ${position.symbol} ` +
-        `(${position.profitLoss?.toFixed(2)}% loss)`
+        `✅ ${signal.reason} executed: ${position.symbol} ` +
+        (closing
+          ? `(${position.profitLoss! > 0 ? '+' : ''}${position.profitLoss!.toFixed(2)}%)`
+          : `(${position.amount.toFixed(4)} BNB still held)`)
       );
 
     } catch (error) {
-      logger.error(`Failed to execute stop-loss for ${position.symbol}:`, error);
+      logger.error(`Failed to execute ${signal.reason} for ${position.symbol}:`, error);
       throw error;
     }
   }
@@ -272,17 +464,20 @@ export class PositionManager {
 
     // Update position with exit data
     position.status = 'closed';
+    position.exitReason = 'manual';
     position.exitPrice = exitPrice || position.currentPrice || position.entryPrice;
     position.exitTimestamp = Date.now();
     position.exitTxHash = txHash;
 
-    // Recalculate P&L with exit price
-    position.profitLoss = ((position.exitPrice - position.entryPrice) / position.entryPrice) * 100;
-    position.profitLossAmount = (position.profitLoss / 100) * position.amount;
+    // Recalculate P&L with exit price, including any partial take-profits
+    const remainingPL = ((position.exitPrice - position.entryPrice) / position.entryPrice) * position.amount;
+    position.profitLossAmount = (position.realizedProfitLossAmount || 0) + remainingPL;
+    position.profitLoss = (position.profitLossAmount / (position.originalAmount ?? position.amount)) * 100;
 
     // Move to closed positions
     this.closedPositions.push(position);
     this.positions.delete(positionId);
+    await this.persist(position);
 
     logger.info(
       `📕 Position closed: ${position.symbol} ` +
@@ -290,6 +485,38 @@ export class PositionManager {
     );
   }
 
+  /**
+   * Book a sell of some of a position's tokens made outside its exit plan (e.g. a
+   * scheduled execution job). The position shrinks by the share sold and closes only
+   * once none of its tokens are left.
+   */
+  async reducePosition(
+    positionId: string,
+    tokensSold: number,
+    exitPrice: number,
+    txHash?: string
+  ): Promise<void> {
+    const position = this.positions.get(positionId);
+    if (!position) {
+      throw new Error(`Position not found: ${positionId}`);
+    }
+
+    const tokensHeld = position.tokenAmount ?? await getTokenBalance(position.token);
+    if (tokensHeld <= 0 || tokensSold >= tokensHeld * (1 - 1e-9)) {
+      return this.closePosition(positionId, exitPrice, txHash);
+    }
+
+    const soldAmount = position.amount * (tokensSold / tokensHeld);
+    position.realizedProfitLossAmount =
+      (position.realizedProfitLossAmount || 0) + ((exitPrice - position.entryPrice) / position.entryPrice) * soldAmount;
+    position.amount -= soldAmount;
+    position.tokenAmount = tokensHeld - tokensSold;
+    position.profitLossAmount = ((exitPrice - position.entryPrice) / position.entryPrice) * position.amount;
+    await this.persist(position);
+
+    logger.info(`📉 Position reduced: ${position.symbol} (${position.amount.toFixed(4)} BNB still held)`);
+  }
+
   /**
    * Get all active positions
    */
@@ -314,86 +541,45 @@ export class PositionManager {
   /**
    * Check if we can open a new position (risk management)
    */
-  async canOpenPosition(tradeAmount: number): Promise<boolean> {
-    const openPositions = this.positions.size;
-    const maxPositions = CONFIG.MAX_CONCURRENT_POSITIONS || 5;
-
-    // Check max positions
-    if (openPositions >= maxPositions) {
-      logger.warn(`Max positions reached (${openPositions}/${maxPositions})`);
-      return false;
-    }
-
-    // Check available balance
+  async canOpenPosition(tradeAmount: number, token?: { address: string; symbol: string }): Promise<boolean> {
     const balance = await getWalletBalance();
-    if (tradeAmount > balance * 0.1) {
-      logger.warn(`Trade amount too large (${tradeAmount} > 10% of ${balance.toFixed(4)} BNB)`);
+    const openPositions = Array.from(this.positions.values());
+    const check = checkPositionLimits(openPositions, tradeAmount, balance);
+
+    if (!check.allowed) {
+      logger.warn(check.reason);
       return false;
     }
 
-    // Check total exposure
-    const totalExposure = Array.from(this.positions.values())
-      .reduce((sum, pos) => sum + pos.amount, 0);
-    
-    if (totalExposure + tradeAmount > balance * 0.5) {
-      logger.warn(`Total exposure too high (${(totalExposure + tradeAmount).toFixed(4)} > 50% of balance)`);
-      return false;
+    // Portfolio VaR and concentration need to know which token is being added
+    if (token) {
+      const portfolioCheck = await getPortfolioRiskEngine().checkTrade(
+        toRiskHoldings(openPositions),
+        balance,
+        { tokenAddress: token.address, symbol: token.symbol, value: tradeAmount }
+      );
+      if (!portfolioCheck.approved) {
+        logger.warn(`🛑 Portfolio risk: ${portfolioCheck.reason}`);
+        return false;
+      }
     }
 
     return true;
   }
 
+  /**
+   * Get VaR, correlation and concentration for the open positions
+   */
+  async getPortfolioRisk(): Promise<PortfolioRiskReport> {
+    const balance = await getWalletBalance();
+    return getPortfolioRiskEngine().assess(toRiskHoldings(Array.from(this.positions.values())), balance);
+  }
+
   /**
    * Get performance statistics
    */
   async getPerformanceStats(): Promise<PerformanceStats> {
-    const allPositions = [...this.closedPositions];
-    
-    const wins = allPositions.filter(p => (p.profitLoss || 0) > 0).length;
-    const losses = allPositions.filter(p => (p.profitLoss || 0) < 0).length;
-    
-    const totalPL = allPositions.reduce((sum, p) => sum + (p.profitLoss || 0), 0);
-    const totalPLAmount = allPositions.reduce((sum, p) => sum + (p.profitLossAmount || 0), 0);
-    
-    const winningTrades = allPositions.filter(p => (p.profitLoss || 0) > 0);
-    const losingTrades = allPositions.filter(p => (p.profitLoss || 0) < 0);
-    
-    const avgWin = winningTrades.length > 0
-      ? winningTrades.reduce((sum, p) => sum + (p.profitLoss || 0), 0) / winningTrades.length
-      : 0;
-    
-    const avgLoss = losingTrades.length > 0
-      ? losingTrades.reduce((sum, p) => sum + (p.profitLoss || 0), 0) / losingTrades.length
-      : 0;
-    
-    const largestWin = winningTrades.length > 0
-      ? Math.max(...winningTrades.map(p => p.profitLoss || 0))
-      : 0;
-    
-    const largestLoss = losingTrades.length > 0
-      ? Math.min(...losingTrades.map(p => p.profitLoss || 0))
-      : 0;
-
-    // Calculate current drawdown from open positions
-    const currentDrawdown = Array.from(this.positions.values())
-      .filter(p => (p.profitLoss || 0) < 0)
-      .reduce((sum, p) => sum + (p.profitLoss || 0), 0);
-
-    return {
-      totalTrades: allPositions.length,
-      openPositions: this.positions.size,
-      closedPositions: allPositions.length,
-      wins,
-      losses,
-      winRate: allPositions.length > 0 ? (wins / allPositions.length) * 100 : 0,
-      totalPL,
-      totalPLAmount,
-      avgWin,
-      avgLoss,
-      largestWin,
-      largestLoss,
-      currentDrawdown,
-    };
+    return calculatePerformanceStats(this.closedPositions, Array.from(this.positions.values()));
   }
 
   /**
@@ -425,6 +611,325 @@ export class PositionManager {
   async clearAll(): Promise<void> {
     this.positions.clear();
     this.closedPositions = [];
+    await this.store.clear();
     logger.info('🗑️  All positions cleared');
   }
+
+  /**
+   * Write a position to the store; failures are logged, trading continues
+   */
+  private async persist(position: Position): Promise<void> {
+    try {
+      await this.store.save(position);
+    } catch (error) {
+      logger.error(`Failed to persist position ${position.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Reconcile a persisted position with the wallet's current token balance.
+ * Sold-out positions are closed at their last known price; partially sold
+ * positions are scaled down to what is still held.
+ */
+export function reconcilePosition(position: Position, onChainBalance: number, now: number = Date.now()): Position {
+  const expected = position.tokenAmount;
+  const dust = expected ? expected * DUST_RATIO : 0;
+
+  if (onChainBalance <= dust) {
+    const exitPrice = position.currentPrice ?? position.entryPrice;
+    const profitLoss = ((exitPrice - position.entryPrice) / position.entryPrice) * 100;
+    const profitLossAmount = (position.realizedProfitLossAmount || 0) + (profitLoss / 100) * position.amount;
+    return {
+      ...position,
+      status: 'closed',
+      exitReason: 'reconciled',
+      exitPrice,
+      exitTimestamp: now,
+      profitLoss: (profitLossAmount / (position.originalAmount ?? position.amount)) * 100,
+      profitLossAmount,
+    };
+  }
+
+  if (expected && onChainBalance < expected - dust) {
+    const ratio = onChainBalance / expected;
+    return {
+      ...position,
+      amount: position.amount * ratio,
+      tokenAmount: onChainBalance,
+      profitLossAmount: position.profitLossAmount !== undefined ? position.profitLossAmount * ratio : undefined,
+    };
+  }
+
+  return position;
+}
+
+/**
+ * Exit plan for positions opened without one: a fixed stop at STOP_LOSS_PERCENTAGE below entry
+ */
+export function defaultExitPlan(entryPrice: number): ExitPlan {
+  return {
+    stopPrice: entryPrice * (1 - (CONFIG.STOP_LOSS_PERCENTAGE || 10) / 100),
+    takeProfits: [],
+  };
+}
+
+/**
+ * Build an exit plan from the levels an AI decision suggests. A target above entry
+ * becomes a two-leg ladder (half at the midpoint, half at the target) with a
+ * break-even stop after the first leg; a stop below entry replaces the default stop.
+ */
+export function exitPlanFromDecision(
+  decision: Pick<AIDecision, 'targetPrice' | 'stopLoss'>,
+  entryPrice: number
+): ExitPlan {
+  const plan = defaultExitPlan(entryPrice);
+
+  if (decision.stopLoss && decision.stopLoss > 0 && decision.stopLoss < entryPrice) {
+    plan.stopPrice = decision.stopLoss;
+  }
+
+  if (decision.targetPrice && decision.targetPrice > entryPrice) {
+    plan.takeProfits = [
+      { price: (entryPrice + decision.targetPrice) / 2, sellFraction: 0.5 },
+      { price: decision.targetPrice, sellFraction: 0.5 },
+    ];
+    plan.breakEvenAfterFirstTarget = true;
+  }
+
+  return plan;
+}
+
+/**
+ * Decide whether a position should (partly) exit at the given price.
+ * Stops are checked first, then the holding time, then the take-profit ladder;
+ * all targets crossed since the last check are sold together.
+ */
+export function evaluateExitPlan(position: Position, price: number, now: number = Date.now()): ExitSignal | null {
+  if (position.status !== 'open' || !(price > 0)) {
+    return null;
+  }
+
+  const plan = position.exitPlan ?? defaultExitPlan(position.entryPrice);
+
+  const highWaterMark = Math.max(plan.highWaterMark ?? position.entryPrice, price);
+  const trailingStop = plan.trailingStopPercent
+    ? highWaterMark * (1 - plan.trailingStopPercent / 100)
+    : undefined;
+  const stop = Math.max(plan.stopPrice ?? 0, trailingStop ?? 0);
+
+  if (stop > 0 && price <= stop) {
+    const reason = trailingStop !== undefined && trailingStop > (plan.stopPrice ?? 0) ? 'trailing-stop' : 'stop-loss';
+    return { reason, fraction: 1, tiers: [] };
+  }
+
+  if (plan.maxHoldMs && now - position.timestamp >= plan.maxHoldMs) {
+    return { reason: 'time-exit', fraction: 1, tiers: [] };
+  }
+
+  const tiers = plan.takeProfits
+    .map((tier, index) => ({ tier, index }))
+    .filter(({ tier }) => !tier.filledAt && price >= tier.price);
+
+  if (tiers.length > 0) {
+    // Tier fractions are of the original position; convert to a fraction of what is left
+    const filled = plan.takeProfits.reduce((sum, tier) => sum + (tier.filledAt ? tier.sellFraction : 0), 0);
+    const selling = tiers.reduce((sum, { tier }) => sum + tier.sellFraction, 0);
+    const remaining = 1 - filled;
+    const fraction = remaining > 0 ? selling / remaining : 1;
+
+    return {
+      reason: 'take-profit',
+      fraction: fraction >= 1 - 1e-9 ? 1 : fraction,
+      tiers: tiers.map(({ index }) => index),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Reject exit plans the monitor can't act on
+ */
+export function validateExitPlan(plan: ExitPlan): void {
+  // Plans arrive from JSON bodies: "5" > 0 holds, and "0.5" would concatenate into the sum
+  const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+  if (plan.stopPrice !== undefined && !(isNumber(plan.stopPrice) && plan.stopPrice > 0)) {
+    throw new ValidationError('stopPrice', plan.stopPrice, 'a positive price');
+  }
+  if (plan.trailingStopPercent !== undefined &&
+      !(isNumber(plan.trailingStopPercent) && plan.trailingStopPercent > 0 && plan.trailingStopPercent < 100)) {
+    throw new ValidationError('trailingStopPercent', plan.trailingStopPercent, 'a percentage between 0 and 100');
+  }
+  if (plan.maxHoldMs !== undefined && !(isNumber(plan.maxHoldMs) && plan.maxHoldMs > 0)) {
+    throw new ValidationError('maxHoldMs', plan.maxHoldMs, 'a positive duration');
+  }
+  if (plan.breakEvenAfterFirstTarget !== undefined && typeof plan.breakEvenAfterFirstTarget !== 'boolean') {
+    throw new ValidationError('breakEvenAfterFirstTarget', plan.breakEvenAfterFirstTarget, 'a boolean');
+  }
+  if (!Array.isArray(plan.takeProfits)) {
+    throw new ValidationError('takeProfits', plan.takeProfits, 'an array of { price, sellFraction }');
+  }
+
+  let total = 0;
+  plan.takeProfits.forEach((tier, index) => {
+    if (!(isNumber(tier?.price) && tier.price > 0)) {
+      throw new ValidationError(`takeProfits[${index}].price`, tier?.price, 'a positive price');
+    }
+    if (!(isNumber(tier.sellFraction) && tier.sellFraction > 0 && tier.sellFraction <= 1)) {
+      throw new ValidationError(`takeProfits[${index}].sellFraction`, tier.sellFraction, 'a fraction in (0, 1]');
+    }
+    total += tier.sellFraction;
+  });
+
+  if (total > 1 + 1e-9) {
+    throw new ValidationError('takeProfits', total.toFixed(4), 'sell fractions summing to at most 1');
+  }
+}
+
+/**
+ * Apply an update to an exit plan, keeping the high-water mark and filled tiers
+ */
+export function mergeExitPlan(plan: ExitPlan, update: ExitPlanUpdate): ExitPlan {
+  const merged: ExitPlan = { ...plan, takeProfits: [...plan.takeProfits] };
+
+  for (const key of ['stopPrice', 'trailingStopPercent', 'maxHoldMs'] as const) {
+    const value = update[key];
+    if (value === null) {
+      delete merged[key];
+    } else if (value !== undefined) {
+      merged[key] = value;
+    }
+  }
+
+  if (update.breakEvenAfterFirstTarget !== undefined) {
+    merged.breakEvenAfterFirstTarget = update.breakEvenAfterFirstTarget;
+  }
+
+  if (update.takeProfits) {
+    merged.takeProfits = [
+      ...plan.takeProfits.filter(tier => tier.filledAt),
+      ...update.takeProfits
+        .map(tier => ({ price: tier.price, sellFraction: tier.sellFraction }))
+        .sort((a, b) => a.price - b.price),
+    ];
+  }
+
+  return merged;
+}
+
+function describeExitPlan(plan: ExitPlan): string {
+  const parts: string[] = [];
+  if (plan.stopPrice) parts.push(`stop $${plan.stopPrice.toFixed(6)}`);
+  if (plan.trailingStopPercent) parts.push(`trailing ${plan.trailingStopPercent}%`);
+  if (plan.takeProfits.length > 0) {
+    parts.push(`TP ${plan.takeProfits.map(t => `${(t.sellFraction * 100).toFixed(0)}%@$${t.price.toFixed(6)}`).join(', ')}`);
+  }
+  if (plan.maxHoldMs) parts.push(`max hold ${(plan.maxHoldMs / 3_600_000).toFixed(1)}h`);
+  return parts.join(' | ') || 'none';
+}
+
+/**
+ * Apply the position limits used before opening a trade:
+ * max concurrent positions, max 10% of balance per trade and max 50% total exposure.
+ */
+export function checkPositionLimits(
+  openPositions: Position[],
+  tradeAmount: number,
+  balance: number
+): { allowed: boolean; reason?: string } {
+  const maxPositions = CONFIG.MAX_CONCURRENT_POSITIONS || 5;
+
+  // Check max positions
+  if (openPositions.length >= maxPositions) {
+    return { allowed: false, reason: `Max positions reached (${openPositions.length}/${maxPositions})` };
+  }
+
+  // Check available balance
+  if (tradeAmount > balance * 0.1) {
+    return { allowed: false, reason: `Trade amount too large (${tradeAmount} > 10% of ${balance.toFixed(4)} BNB)` };
+  }
+
+  // Check total exposure
+  const totalExposure = openPositions.reduce((sum, pos) => sum + pos.amount, 0);
+
+  if (totalExposure + tradeAmount > balance * 0.5) {
+    return {
+      allowed: false,
+      reason: `Total exposure too high (${(totalExposure + tradeAmount).toFixed(4)} > 50% of balance)`,
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Open positions as portfolio risk holdings, marked to their last known price
+ */
+function toRiskHoldings(positions: Position[]): RiskHolding[] {
+  return positions.map(position => ({
+    tokenAddress: position.token,
+    symbol: position.symbol,
+    value: position.currentPrice && position.entryPrice > 0
+      ? position.amount * (position.currentPrice / position.entryPrice)
+      : position.amount,
+  }));
+}
+
+/**
+ * Compute performance statistics from closed and open positions.
+ * Backtests use the same calculation so their results compare directly with live runs.
+ */
+export function calculatePerformanceStats(
+  closedPositions: Position[],
+  openPositions: Position[]
+): PerformanceStats {
+  const allPositions = [...closedPositions];
+
+  const wins = allPositions.filter(p => (p.profitLoss || 0) > 0).length;
+  const losses = allPositions.filter(p => (p.profitLoss || 0) < 0).length;
+
+  const totalPL = allPositions.reduce((sum, p) => sum + (p.profitLoss || 0), 0);
+  const totalPLAmount = allPositions.reduce((sum, p) => sum + (p.profitLossAmount || 0), 0);
+
+  const winningTrades = allPositions.filter(p => (p.profitLoss || 0) > 0);
+  const losingTrades = allPositions.filter(p => (p.profitLoss || 0) < 0);
+
+  const avgWin = winningTrades.length > 0
+    ? winningTrades.reduce((sum, p) => sum + (p.profitLoss || 0), 0) / winningTrades.length
+    : 0;
+
+  const avgLoss = losingTrades.length > 0
+    ? losingTrades.reduce((sum, p) => sum + (p.profitLoss || 0), 0) / losingTrades.length
+    : 0;
+
+  const largestWin = winningTrades.length > 0
+    ? Math.max(...winningTrades.map(p => p.profitLoss || 0))
+    : 0;
+
+  const largestLoss = losingTrades.length > 0
+    ? Math.min(...losingTrades.map(p => p.profitLoss || 0))
+    : 0;
+
+  // Calculate current drawdown from open positions
+  const currentDrawdown = openPositions
+    .filter(p => (p.profitLoss || 0) < 0)
+    .reduce((sum, p) => sum + (p.profitLoss || 0), 0);
+
+  return {
+    totalTrades: allPositions.length,
+    openPositions: openPositions.length,
+    closedPositions: allPositions.length,
+    wins,
+    losses,
+    winRate: allPositions.length > 0 ? (wins / allPositions.length) * 100 : 0,
+    totalPL,
+    totalPLAmount,
+    avgWin,
+    avgLoss,
+    largestWin,
+    largestLoss,
+    currentDrawdown,
+  };
 }
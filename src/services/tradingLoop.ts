@@ -14,12 +14,27 @@
 import { logger } from '../utils/logger';
 import { CONFIG } from '../config';
 import { ImmortalAIAgent } from '../ai/immortalAgent';
-import { PositionManager } from './positionManager';
-import { TelegramBotManager } from '../alerts/telegramBot';
-import { getTrendingTokens, getTokenAnalytics } from '../data/marketFetcher';
+import { PositionManager, exitPlanFromDecision } from './positionManager';
+import { TelegramBotManager, telegramBotManager } from '../alerts/telegramBot';
+import { getTrendingTokens, getTokenAnalytics, getTokenPrice } from '../data/marketFetcher';
+import type { TokenData } from '../data/marketFetcher';
 import { executeTrade, getWalletBalance } from '../blockchain/tradeExecutor';
 import type { TradeResult } from '../blockchain/tradeExecutor';
+import { getExecutionJobRunner } from '../blockchain/executionJobs';
+import { getTransferLedger } from '../crossChain/transferLedger';
 import { ethers } from 'ethers';
+import { ApprovalQueue } from './approvalQueue';
+import type { PendingDecision } from './approvalQueue';
+import { TradingError } from '../utils/errorHandler';
+import {
+  getStrategyRegistry,
+  initializeStrategyRegistry,
+  checkEntry,
+  regimeAllowed,
+  sizePosition,
+  strategyRef,
+  exitPlanFromStrategy,
+} from '../ai/strategyRegistry';
 
 export interface TradingLoopConfig {
   interval: number; // milliseconds (default: 5 minutes)
@@ -27,6 +42,7 @@ export interface TradingLoopConfig {
   enableAutoTrading: boolean; // auto-execute trades or require approval
   networks: string[]; // supported networks
   tokenLimit: number; // max tokens to evaluate per cycle
+  strategyId: string; // registry ref: "id" (latest version) or "id@version"
 }
 
 export interface Token {
@@ -52,16 +68,20 @@ export interface MarketConditions {
 export interface Decision {
   action: 'BUY' | 'SELL' | 'HOLD';
   amount: number;
-  confidence: number;
+  confidence: number; // 0-1
   reasoning: string;
   strategy: string;
   riskLevel: 'LOW' | 'MEDIUM' | 'HIGH';
+  targetPrice?: number; // suggested take-profit price
+  stopLoss?: number; // suggested stop price
+  strategyRef?: string; // exact registry version ("id@version") the trade is attributed to
 }
 
 export class TradingLoop {
   private agent: ImmortalAIAgent;
   private positionManager: PositionManager;
   private telegram: TelegramBotManager;
+  private approvals: ApprovalQueue;
   private intervalId: NodeJS.Timeout | null = null;
   private isRunning: boolean = false;
   private config: TradingLoopConfig;
@@ -76,11 +96,19 @@ export class TradingLoop {
       enableAutoTrading: config?.enableAutoTrading ?? true,
       networks: config?.networks || ['bnb'],
       tokenLimit: config?.tokenLimit || 10,
+      strategyId: config?.strategyId || CONFIG.DEFAULT_STRATEGY_ID,
     };
 
     this.agent = new ImmortalAIAgent();
     this.positionManager = new PositionManager();
-    this.telegram = new TelegramBotManager();
+    this.telegram = telegramBotManager;
+    this.approvals = new ApprovalQueue(CONFIG.APPROVAL_TTL_MS);
+
+    // Approve / reject buttons in Telegram resolve against this loop's queue
+    this.telegram.onDecisionResponse(async (id, approved, by) => {
+      const item = approved ? await this.approveDecision(id, by) : this.rejectDecision(id, by);
+      return describeResolution(item);
+    });
 
     logger.info('🔧 Trading Loop initialized', { config: this.config });
   }
@@ -101,10 +129,23 @@ export class TradingLoop {
       logger.info('📚 Loading AI memories from Greenfield...');
       await this.agent.loadMemories();
 
-      // Start position monitoring
+      // Strategy definitions from disk; fail fast if the configured one is unknown
+      const registry = await initializeStrategyRegistry();
+      logger.info(`📐 Trading strategy: ${strategyRef(registry.resolve(this.config.strategyId))}`);
+
+      // Recover positions from previous runs, then start monitoring
       logger.info('📊 Starting position monitoring...');
+      await this.positionManager.restore();
       await this.positionManager.startMonitoring();
 
+      // Resume scheduled TWAP/VWAP/IS jobs; their fills roll up into our positions
+      const jobs = getExecutionJobRunner();
+      jobs.attachPositions(this.positionManager);
+      await jobs.start();
+
+      // Keep watching bridge transfers left in flight by a previous run
+      await getTransferLedger().start();
+
       // Check wallet balance
       const balance = await getWalletBalance();
       if (balance < 0.01) {
@@ -167,8 +208,10 @@ export class TradingLoop {
 
     this.isRunning = false;
 
-    // Stop position monitoring
+    // Stop position monitoring, scheduled execution and the bridge watcher
     await this.positionManager.stopMonitoring();
+    getExecutionJobRunner().stop();
+    getTransferLedger().stop();
 
     const stats = await this.positionManager.getPerformanceStats();
     await this.telegram.sendAlert(
@@ -226,9 +269,9 @@ export class TradingLoop {
       const marketConditions = await this.analyzeMarketConditions();
       logger.info(`✓ Market: ${marketConditions.trend}, Volatility: ${(marketConditions.volatility * 100).toFixed(1)}%`);
 
-      // STEP 3: MONITOR EXISTING POSITIONS (Stop-Loss Check)
+      // STEP 3: MONITOR EXISTING POSITIONS (stops, take-profits, time exits)
       logger.info('\n👀 STEP 3: Monitoring existing positions...');
-      await this.positionManager.checkAllStopLoss();
+      await this.positionManager.checkAllExits();
       const positions = await this.positionManager.getActivePositions();
       logger.info(`✓ Active positions: ${positions.length}/${this.config.maxConcurrentTrades}`);
 
@@ -277,92 +320,20 @@ export class TradingLoop {
     try {
       // Get trending tokens from DexScreener
       const trending = await getTrendingTokens(50);
-
-      // Filter and score tokens
-      const tokens: Token[] = trending
-        .filter(t => {
-          // Basic filters from PRD
-          return (
-            t.liquidity > 10000 && // Min $10k liquidity
-            t.volume24h > 5000 && // Min $5k volume
-            t.priceChange24h > -20 && // Not crashing too hard
-            t.priceChange24h < 100 // Not pumping too hard (likely scam)
-          );
-        })
-        .map(t => ({
-          address: t.address,
-          symbol: t.symbol,
-          name: t.name || t.symbol,
-          price: t.price,
-          volume24h: t.volume24h,
-          liquidity: t.liquidity,
-          priceChange24h: t.priceChange24h,
-          marketCap: t.marketCap || 0,
-          riskScore: this.calculateRiskScore(t),
-        }))
-        .sort((a, b) => b.volume24h - a.volume24h) // Sort by volume
-        .slice(0, 20); // Top 20
-
-      return tokens;
+      return filterDiscoveredTokens(trending);
     } catch (error) {
       logger.error('Token discovery failed:', error);
       return [];
     }
   }
 
-  /**
-   * Calculate risk score for a token (0-1, lower is better)
-   */
-  private calculateRiskScore(token: any): number {
-    let score = 0;
-
-    // Low liquidity = higher risk
-    if (token.liquidity < 50000) score += 0.3;
-    else if (token.liquidity < 100000) score += 0.2;
-
-    // Extreme price changes = higher risk
-    if (Math.abs(token.priceChange24h) > 50) score += 0.3;
-    else if (Math.abs(token.priceChange24h) > 20) score += 0.2;
-
-    // Low volume = higher risk
-    if (token.volume24h < 10000) score += 0.2;
-
-    return Math.min(score, 1);
-  }
-
   /**
    * STEP 2: Analyze overall market conditions
    */
   private async analyzeMarketConditions(): Promise<MarketConditions> {
     try {
       const trending = await getTrendingTokens(100);
-
-      // Calculate aggregate metrics
-      const avgChange = trending.reduce((sum, t) => sum + t.priceChange24h, 0) / trending.length;
-      const totalVolume = trending.reduce((sum, t) => sum + t.volume24h, 0);
-      
-      // Determine trend
-      let trend: 'bullish' | 'bearish' | 'sideways' = 'sideways';
-      if (avgChange > 5) trend = 'bullish';
-      else if (avgChange < -5) trend = 'bearish';
-
-      // Calculate volatility
-      const changes = trending.map(t => t.priceChange24h);
-      const variance = changes.reduce((sum, change) => sum + Math.pow(change - avgChange, 2), 0) / changes.length;
-      const volatility = Math.sqrt(variance) / 100; // Normalize to 0-1
-
-      // Sentiment based on positive vs negative changes
-      const positiveCount = trending.filter(t => t.priceChange24h > 0).length;
-      const sentiment = positiveCount > trending.length * 0.6 ? 'positive' :
-                        positiveCount < trending.length * 0.4 ? 'negative' : 'neutral';
-
-      return {
-        trend,
-        volatility: Math.min(volatility, 1),
-        volume: totalVolume,
-        sentiment,
-        timestamp: Date.now(),
-      };
+      return deriveMarketConditions(trending);
     } catch (error) {
       logger.error('Market analysis failed:', error);
       return {
@@ -383,24 +354,31 @@ export class TradingLoop {
     marketConditions: MarketConditions
   ): Promise<void> {
     try {
+      const strategy = getStrategyRegistry().resolve(this.config.strategyId);
+      if (!regimeAllowed(strategy, marketConditions.trend)) {
+        logger.info(`  ⏭️  Skipping - ${strategyRef(strategy)} does not trade ${marketConditions.trend} markets`);
+        return;
+      }
+
       // Get available balance
       const balance = await getWalletBalance();
-      const maxTradeAmount = Math.min(
-        balance * 0.1, // Max 10% of balance per trade
-        CONFIG.MAX_TRADE_AMOUNT_BNB
-      );
+      const maxTradeAmount = sizePosition(strategy, {
+        balance,
+        confidence: 1, // upper bound; re-sized below once the AI's confidence is known
+        cap: CONFIG.MAX_TRADE_AMOUNT_BNB,
+      });
 
       // Get detailed token analytics
       const analytics = await getTokenAnalytics(token.address);
 
       // STEP 4: AI DECISION MAKING
-      const decision = await this.agent.makeDecision(
+      const decision: Decision = await this.agent.makeDecision(
         token.address,
         { ...token, ...analytics, marketConditions },
         maxTradeAmount
       );
 
-      logger.info(`  AI Decision: ${decision.action} (${decision.confidence.toFixed(0)}% confidence)`);
+      logger.info(`  AI Decision: ${decision.action} (${(decision.confidence * 100).toFixed(0)}% confidence)`);
       logger.info(`  Reasoning: ${decision.reasoning.substring(0, 100)}...`);
 
       // STEP 5: RISK ASSESSMENT
@@ -410,15 +388,34 @@ export class TradingLoop {
       }
 
       // Check confidence threshold
-      if (decision.confidence < CONFIG.MIN_CONFIDENCE_THRESHOLD * 100) {
-        logger.info(`  ⏭️  Skipping - Low confidence (${decision.confidence.toFixed(0)}% < ${CONFIG.MIN_CONFIDENCE_THRESHOLD * 100}%)`);
+      if (decision.confidence < CONFIG.MIN_CONFIDENCE_THRESHOLD) {
+        logger.info(`  ⏭️  Skipping - Low confidence (${(decision.confidence * 100).toFixed(0)}% < ${CONFIG.MIN_CONFIDENCE_THRESHOLD * 100}%)`);
         return;
       }
 
+      // Strategy entry rules and sizing (confidence is 0-1, as in strategy definitions)
+      const entry = checkEntry(strategy, {
+        priceChange24h: token.priceChange24h,
+        volume24h: token.volume24h,
+        liquidity: token.liquidity,
+        marketCap: token.marketCap,
+        riskScore: token.riskScore,
+        confidence: decision.confidence,
+      });
+      if (!entry.passed) {
+        logger.info(`  ⏭️  Skipping - ${strategyRef(strategy)} entry not met: ${entry.failed.join(', ')}`);
+        return;
+      }
+      decision.amount = Math.min(
+        decision.amount,
+        sizePosition(strategy, { balance, confidence: decision.confidence, cap: maxTradeAmount })
+      );
+      decision.strategyRef = strategyRef(strategy);
+
       // Check if we can open new position
-      const canTrade = await this.positionManager.canOpenPosition(decision.amount);
+      const canTrade = await this.positionManager.canOpenPosition(decision.amount, token);
       if (!canTrade) {
-        logger.info(`  ⏭️  Skipping - Max positions reached or insufficient balance`);
+        logger.info(`  ⏭️  Skipping - Position or portfolio risk limits reached`);
         return;
       }
 
@@ -428,11 +425,13 @@ export class TradingLoop {
         decision.amount *= 0.5;
       }
 
-      // STEP 6: EXECUTE TRADE (if auto-trading enabled)
-      if (this.config.enableAutoTrading && decision.action === 'BUY') {
+      // STEP 6: EXECUTE TRADE (or park it for approval when auto-trading is disabled)
+      if (decision.action !== 'BUY') {
+        logger.info(`  ℹ️  ${decision.action} signal noted (only BUY entries are executed)`);
+      } else if (this.config.enableAutoTrading) {
         await this.executeBuyTrade(token, decision, marketConditions);
       } else {
-        logger.info(`  ℹ️  Trade ready (auto-trading disabled)`);
+        await this.requestApproval(token, decision, marketConditions);
       }
 
     } catch (error) {
@@ -440,6 +439,125 @@ export class TradingLoop {
     }
   }
 
+  /**
+   * Position manager backing this loop (open positions and their exit plans)
+   */
+  getPositionManager(): PositionManager {
+    return this.positionManager;
+  }
+
+  /**
+   * Decisions awaiting approval, newest first
+   */
+  getPendingDecisions(): PendingDecision[] {
+    return this.approvals.list('pending');
+  }
+
+  /**
+   * Recent approval history (all statuses)
+   */
+  getDecisionHistory(): PendingDecision[] {
+    return this.approvals.list();
+  }
+
+  /**
+   * Approve a parked decision and execute it. Decisions past their expiry are
+   * re-quoted first and fail if the price drifted beyond APPROVAL_MAX_REQUOTE_DRIFT_PERCENT.
+   */
+  async approveDecision(id: string, approvedBy: string): Promise<PendingDecision> {
+    const item = this.approvals.approve(id, approvedBy);
+    logger.info(`✅ Decision ${id} (${item.token.symbol}) approved by ${approvedBy}`);
+
+    try {
+      if (this.approvals.isExpired(item)) {
+        await this.requote(item);
+      }
+
+      const canTrade = await this.positionManager.canOpenPosition(item.decision.amount, item.token);
+      if (!canTrade) {
+        throw new TradingError('Position or portfolio risk limits reached', 'POSITION_LIMIT');
+      }
+
+      const txHash = await this.executeBuyTrade(item.token, item.decision, item.marketConditions);
+      this.approvals.complete(id, { txHash });
+    } catch (error) {
+      logger.warn(`⚠️  Approved decision ${id} not executed: ${(error as Error).message}`);
+      this.approvals.complete(id, { error: (error as Error).message });
+    }
+
+    await this.notifyDecision('decision-resolved', item);
+    return item;
+  }
+
+  /**
+   * Reject a parked decision
+   */
+  rejectDecision(id: string, rejectedBy: string, reason?: string): PendingDecision {
+    const item = this.approvals.reject(id, rejectedBy, reason);
+    logger.info(`🚫 Decision ${id} (${item.token.symbol}) rejected by ${rejectedBy}`);
+    void this.notifyDecision('decision-resolved', item);
+    return item;
+  }
+
+  /**
+   * Park a BUY decision until an operator approves it
+   */
+  private async requestApproval(
+    token: Token,
+    decision: Decision,
+    marketConditions: MarketConditions
+  ): Promise<void> {
+    const item = this.approvals.enqueue(token, decision, marketConditions);
+    logger.info(`  ⏸️  Awaiting approval: ${item.id} (expires ${new Date(item.expiresAt).toISOString()})`);
+
+    await this.notifyDecision('decision-pending', item);
+  }
+
+  /**
+   * Refresh the price of an expired decision before executing it
+   */
+  private async requote(item: PendingDecision): Promise<void> {
+    const price = await getTokenPrice(item.token.address);
+    if (!price) {
+      throw new TradingError(`Could not re-quote ${item.token.symbol}`, 'REQUOTE_FAILED');
+    }
+
+    const driftPercent = Math.abs(price - item.quotedPrice) / item.quotedPrice * 100;
+    item.requotedPrice = price;
+    logger.info(`  🔁 Re-quoted ${item.token.symbol}: $${item.quotedPrice} → $${price} (${driftPercent.toFixed(2)}%)`);
+
+    if (driftPercent > CONFIG.APPROVAL_MAX_REQUOTE_DRIFT_PERCENT) {
+      throw new TradingError(
+        `Price moved ${driftPercent.toFixed(2)}% since the decision (max ${CONFIG.APPROVAL_MAX_REQUOTE_DRIFT_PERCENT}%)`,
+        'REQUOTE_DRIFT',
+        { quotedPrice: item.quotedPrice, price }
+      );
+    }
+
+    item.token.price = price;
+  }
+
+  /**
+   * Push approval updates to dashboard clients and the operator chat
+   */
+  private async notifyDecision(
+    type: 'decision-pending' | 'decision-resolved',
+    item: PendingDecision
+  ): Promise<void> {
+    try {
+      const { getWebSocketService } = await import('./websocket.js');
+      getWebSocketService()?.emitDecisionApproval(type, item);
+    } catch (error) {
+      logger.debug(`WebSocket approval notification skipped: ${(error as Error).message}`);
+    }
+
+    if (type === 'decision-pending') {
+      await this.telegram.sendApprovalRequest(item);
+    } else if (!item.resolvedBy?.startsWith('telegram:')) {
+      await this.telegram.sendAlert(describeResolution(item), 'decision');
+    }
+  }
+
   /**
    * STEP 6-7: Execute a buy trade and store memory
    */
@@ -447,7 +565,7 @@ export class TradingLoop {
     token: Token,
     decision: Decision,
     marketConditions: MarketConditions
-  ): Promise<void> {
+  ): Promise<string> {
     logger.info(`  💰 Executing BUY for ${token.symbol}...`);
 
     try {
@@ -467,17 +585,23 @@ export class TradingLoop {
       logger.info(`  ✅ Trade executed! TX: ${txHash}`);
 
       // STEP 7: ADD TO POSITION MANAGER
+      const strategy = decision.strategyRef ? getStrategyRegistry().resolve(decision.strategyRef) : undefined;
+      const decisionPlan = exitPlanFromDecision(decision, token.price);
       await this.positionManager.addPosition({
         id: txHash,
         token: token.address,
         symbol: token.symbol,
         entryPrice: token.price,
         amount: decision.amount,
-        strategy: decision.strategy,
+        tokenAmount: parseFloat(trade.amountOut) || undefined,
+        strategy: decision.strategyRef || decision.strategy,
         confidence: decision.confidence,
         timestamp: Date.now(),
         txHash: txHash,
         status: 'open',
+        exitPlan: strategy
+          ? exitPlanFromStrategy(strategy, token.price, strategy.exit.useDecisionLevels ? decisionPlan : undefined)
+          : decisionPlan,
       });
 
       // STEP 8: STORE IN IMMORTAL MEMORY
@@ -489,7 +613,7 @@ export class TradingLoop {
         token.price,
         token.price, // Exit price (will be updated later)
         marketConditions,
-        decision.strategy
+        decision.strategyRef || decision.strategy
       );
 
       // Send notification
@@ -497,12 +621,13 @@ export class TradingLoop {
         `✅ BUY ${token.symbol}\n` +
         `Amount: ${decision.amount.toFixed(4)} BNB\n` +
         `Price: $${token.price.toFixed(6)}\n` +
-        `Confidence: ${decision.confidence.toFixed(0)}%\n` +
-        `Strategy: ${decision.strategy}\n` +
+        `Confidence: ${(decision.confidence * 100).toFixed(0)}%\n` +
+        `Strategy: ${decision.strategyRef || decision.strategy}\n` +
         `TX: ${txHash}`
       );
 
       logger.info(`  🎉 Trade complete and stored in memory`);
+      return txHash;
 
     } catch (error) {
       logger.error(`  ❌ Trade execution failed:`, error);
@@ -515,6 +640,112 @@ export class TradingLoop {
   }
 }
 
+/**
+ * One-line summary of an approval outcome (Telegram / logs)
+ */
+function describeResolution(item: PendingDecision): string {
+  const label = `${item.decision.action} ${item.token.symbol} (${item.decision.amount.toFixed(4)} BNB)`;
+  switch (item.status) {
+    case 'executed':
+      return `✅ ${label} executed: ${item.txHash}`;
+    case 'rejected':
+      return `🚫 ${label} rejected${item.reason ? `: ${item.reason}` : ''}`;
+    case 'failed':
+      return `❌ ${label} approved but not executed: ${item.reason}`;
+    default:
+      return `ℹ️ ${label} is ${item.status}`;
+  }
+}
+
+/**
+ * Apply the PRD discovery filters to a trending token list and score what remains.
+ * Shared with the backtest engine so historical runs select tokens exactly like live cycles.
+ */
+export function filterDiscoveredTokens(trending: TokenData[]): Token[] {
+  return trending
+    .filter(t => {
+      // Basic filters from PRD
+      return (
+        t.liquidity > 10000 && // Min $10k liquidity
+        t.volume24h > 5000 && // Min $5k volume
+        t.priceChange24h > -20 && // Not crashing too hard
+        t.priceChange24h < 100 // Not pumping too hard (likely scam)
+      );
+    })
+    .map(t => ({
+      address: t.address,
+      symbol: t.symbol,
+      name: t.name || t.symbol,
+      price: t.price,
+      volume24h: t.volume24h,
+      liquidity: t.liquidity,
+      priceChange24h: t.priceChange24h,
+      marketCap: t.marketCap || 0,
+      riskScore: calculateRiskScore(t),
+    }))
+    .sort((a, b) => b.volume24h - a.volume24h) // Sort by volume
+    .slice(0, 20); // Top 20
+}
+
+/**
+ * Calculate risk score for a token (0-1, lower is better)
+ */
+export function calculateRiskScore(token: Pick<TokenData, 'liquidity' | 'volume24h' | 'priceChange24h'>): number {
+  let score = 0;
+
+  // Low liquidity = higher risk
+  if (token.liquidity < 50000) score += 0.3;
+  else if (token.liquidity < 100000) score += 0.2;
+
+  // Extreme price changes = higher risk
+  if (Math.abs(token.priceChange24h) > 50) score += 0.3;
+  else if (Math.abs(token.priceChange24h) > 20) score += 0.2;
+
+  // Low volume = higher risk
+  if (token.volume24h < 10000) score += 0.2;
+
+  return Math.min(score, 1);
+}
+
+/**
+ * Derive aggregate market conditions (trend, volatility, sentiment) from a token universe
+ */
+export function deriveMarketConditions(
+  trending: TokenData[],
+  timestamp: number = Date.now()
+): MarketConditions {
+  if (trending.length === 0) {
+    return { trend: 'sideways', volatility: 0.5, volume: 0, sentiment: 'neutral', timestamp };
+  }
+
+  // Calculate aggregate metrics
+  const avgChange = trending.reduce((sum, t) => sum + t.priceChange24h, 0) / trending.length;
+  const totalVolume = trending.reduce((sum, t) => sum + t.volume24h, 0);
+
+  // Determine trend
+  let trend: 'bullish' | 'bearish' | 'sideways' = 'sideways';
+  if (avgChange > 5) trend = 'bullish';
+  else if (avgChange < -5) trend = 'bearish';
+
+  // Calculate volatility
+  const changes = trending.map(t => t.priceChange24h);
+  const variance = changes.reduce((sum, change) => sum + Math.pow(change - avgChange, 2), 0) / changes.length;
+  const volatility = Math.sqrt(variance) / 100; // Normalize to 0-1
+
+  // Sentiment based on positive vs negative changes
+  const positiveCount = trending.filter(t => t.priceChange24h > 0).length;
+  const sentiment = positiveCount > trending.length * 0.6 ? 'positive' :
+                    positiveCount < trending.length * 0.4 ? 'negative' : 'neutral';
+
+  return {
+    trend,
+    volatility: Math.min(volatility, 1),
+    volume: totalVolume,
+    sentiment,
+    timestamp,
+  };
+}
+
 // Singleton instance for application-wide use
 let tradingLoopInstance: TradingLoop | null = null;
 
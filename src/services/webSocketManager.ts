@@ -6,6 +6,7 @@
 import { Server as HTTPServer } from 'http';
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { logger } from '../utils/logger';
+import { CONFIG } from '../config';
 import { EventEmitter } from 'events';
 
 export interface NotificationPayload {
@@ -15,6 +16,7 @@ export interface NotificationPayload {
   data?: any;
   timestamp: number;
   priority?: 'low' | 'medium' | 'high';
+  paper?: boolean; // emitted while paper trading
 }
 
 export interface TelegramNotification extends NotificationPayload {
@@ -112,6 +114,10 @@ export class WebSocketManager extends EventEmitter {
       notification.timestamp = Date.now();
     }
 
+    if (CONFIG.PAPER_TRADING) {
+      notification.paper = true;
+    }
+
     // Add to history
     this.notificationHistory.push(notification);
     if (this.notificationHistory.length > this.MAX_HISTORY) {
@@ -305,6 +311,7 @@ export class WebSocketManager extends EventEmitter {
     side: string;
     amount: number;
     price: number;
+    txHash?: string;
     reason: string;
   }): void {
     const notification: NotificationPayload = {
@@ -319,6 +326,29 @@ export class WebSocketManager extends EventEmitter {
     this.sendNotification(notification);
   }
 
+  /**
+   * Send order status change (created, cancelled, expired, rejected)
+   */
+  sendOrderUpdate(order: {
+    orderId: string;
+    userId: string;
+    tokenId: string;
+    type: string;
+    side: string;
+    status: string;
+    amount: number;
+    remainingAmount: number;
+    error?: string;
+  }): void {
+    if (!this.io) {
+      logger.warn('WebSocket server not initialized');
+      return;
+    }
+
+    this.io.emit('orderUpdate', { ...order, timestamp: Date.now() });
+    logger.debug(`📋 Order update broadcast: ${order.orderId} ${order.status}`);
+  }
+
   /**
    * Broadcast custom event to all clients
    */
@@ -6,7 +6,9 @@
 import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import { logger } from '../utils/logger.js';
+import { CONFIG } from '../config.js';
 import { polymarketRealtimeService } from '../polymarket/realtimeDataService.js';
+import type { PendingDecision } from './approvalQueue.js';
 
 export interface TradeExecutedEvent {
     type: 'trade';
@@ -66,13 +68,20 @@ export interface PriceUpdateEvent {
     timestamp: number;
 }
 
+export interface DecisionApprovalEvent {
+    type: 'decision-pending' | 'decision-resolved';
+    decision: PendingDecision;
+    timestamp: number;
+}
+
 export type WebSocketEvent =
     | TradeExecutedEvent
     | BotStatusEvent
     | OpportunityFoundEvent
     | MemoryUpdatedEvent
     | BalanceChangeEvent
-    | PriceUpdateEvent;
+    | PriceUpdateEvent
+    | DecisionApprovalEvent;
 
 export class WebSocketService {
     private io: SocketIOServer;
@@ -158,7 +167,7 @@ export class WebSocketService {
     broadcast(event: WebSocketEvent): void {
         const eventType = event.type;
         logger.info(`📡 Broadcasting ${eventType} event to all clients`);
-        this.io.emit(eventType, event);
+        this.io.emit(eventType, this.tagEvent(event));
     }
 
     /**
@@ -166,7 +175,14 @@ export class WebSocketService {
      */
     broadcastToChannel(channel: string, event: WebSocketEvent): void {
         logger.info(`📡 Broadcasting ${event.type} to channel: ${channel}`);
-        this.io.to(channel).emit(event.type, event);
+        this.io.to(channel).emit(event.type, this.tagEvent(event));
+    }
+
+    /**
+     * Mark events emitted while paper trading so clients can tell them apart
+     */
+    private tagEvent(event: WebSocketEvent): WebSocketEvent & { paper?: boolean } {
+        return CONFIG.PAPER_TRADING ? { ...event, paper: true } : event;
     }
 
     /**
@@ -176,7 +192,7 @@ export class WebSocketService {
         const socket = this.connectedClients.get(clientId);
         if (socket) {
             logger.info(`📡 Sending ${event.type} to client ${clientId}`);
-            socket.emit(event.type, event);
+            socket.emit(event.type, this.tagEvent(event));
         } else {
             logger.warn(`⚠️  Client ${clientId} not found`);
         }
@@ -246,6 +262,19 @@ export class WebSocketService {
         this.broadcastToChannel(balance.chain, event);
     }
 
+    /**
+     * Emit a decision awaiting approval, or the outcome of one
+     */
+    emitDecisionApproval(type: DecisionApprovalEvent['type'], decision: PendingDecision): void {
+        const event: DecisionApprovalEvent = {
+            type,
+            decision,
+            timestamp: Date.now(),
+        };
+        this.broadcast(event);
+        this.broadcastToChannel('approvals', event);
+    }
+
     /**
      * Broadcast full bot status update
      */
@@ -1,6 +1,8 @@
 // src/types/memory.ts
 // Shared types for memory storage system
 
+import type { MevSummary } from '../mev/mevForensics';
+
 export interface TradeMemory {
   id: string;
   timestamp: number;
@@ -21,6 +23,9 @@ export interface TradeMemory {
     buySellPressure: number;
   };
   lessons?: string;
+  paper?: boolean; // recorded while paper trading
+  strategy?: string; // strategy registry ref ("id@version") the trade was opened under
+  mev?: MevSummary; // post-trade sandwich / front-run analysis of the fill
 }
 
 export interface MemoryAnalysis {
@@ -206,10 +206,26 @@ export interface MemoryQueryFilters {
   minProfitLoss?: number;
   maxProfitLoss?: number;
   aiModel?: 'typescript-agent' | 'python-agent' | 'hybrid';
+  similarTo?: string | MemorySimilarityTarget; // memory id, or conditions to rank against
+  minSimilarity?: number; // 0-1, only with similarTo
   limit?: number;
   offset?: number;
 }
 
+/**
+ * Situation to find similar memories for
+ */
+export interface MemorySimilarityTarget {
+  market?: ImmortalMemory['market'] & { marketTrend?: 'bullish' | 'bearish' | 'sideways' };
+  tokenAddress?: string;
+  text?: string; // free text matched against AI reasoning and lessons
+}
+
+export interface SimilarMemory {
+  memory: ImmortalMemory;
+  score: number;
+}
+
 /**
  * Batch upload configuration
  */
@@ -231,4 +247,8 @@ export interface SyncStatus {
   totalSynced: number;
   syncInProgress: boolean;
   errors: string[];
+  queueDepth: number; // memories in the write-ahead log awaiting upload
+  oldestPendingAgeMs: number | null;
+  nextRetryAt: number | null;
+  deadLetters: number; // gave up after BATCH_CONFIG.retryAttempts
 }
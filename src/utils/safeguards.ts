@@ -1,6 +1,7 @@
 import { logger } from './logger';
 import { CONFIG } from '../config';
 import { InsufficientFundsError, SlippageError } from './errorHandler';
+import { getPortfolioRiskEngine } from '../ai/portfolioRisk';
 import { ethers } from 'ethers';
 
 export interface SafeguardConfig {
@@ -237,6 +238,7 @@ export class SafeguardEngine {
     tokenData?: any;
     walletBalance: number;
     currentPositions?: Map<string, number>;
+    priceImpact?: number; // % at this size, when the caller already measured it
   }): Promise<{ valid: boolean; reason?: string; riskLevel: 'low' | 'medium' | 'high' }> {
     
     try {
@@ -270,6 +272,21 @@ export class SafeguardEngine {
         }
       }
 
+      // 5b. Price impact of this size against live pool reserves
+      if (params.action === 'buy') {
+        const priceImpact = params.priceImpact ?? await this.measureBuyImpact(params.tokenAddress, params.amount);
+        if (priceImpact === null) {
+          return { valid: false, reason: 'Could not measure price impact (no readable pool)', riskLevel: 'high' };
+        }
+        if (priceImpact > this.limits.maxPriceImpact) {
+          return {
+            valid: false,
+            reason: `Price impact too high: ${priceImpact.toFixed(2)}% > ${this.limits.maxPriceImpact}%`,
+            riskLevel: 'high'
+          };
+        }
+      }
+
       // 6. Position concentration check
       if (params.currentPositions) {
         const concentrationCheck = this.checkConcentrationRisk(params.tokenAddress, params.amount, params.currentPositions);
@@ -278,6 +295,23 @@ export class SafeguardEngine {
         }
       }
 
+      // 6b. Portfolio VaR budget and sector/cohort concentration
+      if (params.currentPositions && params.action === 'buy') {
+        const holdings = Array.from(params.currentPositions.entries()).map(([tokenAddress, value]) => ({
+          tokenAddress,
+          symbol: tokenAddress,
+          value,
+        }));
+        const portfolioCheck = await getPortfolioRiskEngine().checkTrade(holdings, params.walletBalance, {
+          tokenAddress: params.tokenAddress,
+          symbol: params.tokenData?.symbol || params.tokenAddress,
+          value: params.amount,
+        });
+        if (!portfolioCheck.approved) {
+          return { valid: false, reason: portfolioCheck.reason, riskLevel: 'high' };
+        }
+      }
+
       // 7. Market condition checks
       const marketCheck = await this.checkMarketConditions();
       if (!marketCheck.valid) {
@@ -339,6 +373,25 @@ export class SafeguardEngine {
     return { valid: true, riskLevel: 'low' };
   }
 
+  /**
+   * Price impact (%) of buying `amountBNB` of the token on the best route, from pool state
+   */
+  private async measureBuyImpact(tokenAddress: string, amountBNB: number): Promise<number | null> {
+    try {
+      const { getDEXAggregator } = await import('../dex/dexAggregator.js');
+      const { bestQuote } = await getDEXAggregator().getBestQuote(
+        CONFIG.WBNB_ADDRESS,
+        tokenAddress,
+        ethers.parseEther(amountBNB.toFixed(18))
+      );
+      // No mid price means the pools behind the quote could not be read
+      return bestQuote.midPrice === undefined ? null : bestQuote.priceImpact;
+    } catch (error) {
+      logger.warn(`Could not measure price impact for ${tokenAddress}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
   /**
    * Check for position concentration risk
    */
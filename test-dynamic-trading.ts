@@ -142,8 +142,7 @@ async function testAutomatedTrader() {
     maxTradeAmount: 0.01, // Very small for testing
     minTradeAmount: 0.005,
     maxConcurrentTrades: 2,
-    profitTargetPercent: 20, // Lower targets for testing
-    stopLossPercent: 15,
+    strategyId: 'auto-discovery', // target and stop come from the registered strategy
     maxDailyTrades: 5,
     minConfidence: 70,
     discoveryInterval: 60000, // 1 minute for testing
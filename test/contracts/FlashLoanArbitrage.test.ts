@@ -0,0 +1,206 @@
+/**
+ * FlashLoanArbitrage contract tests
+ * Multi-hop V2 / V3 cycles, the on-chain profit guard, per-hop events and callback access,
+ * against the fork-free mocks in contracts/mocks/MockDex.sol
+ */
+
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import type { BaseContract, ContractTransactionResponse } from "ethers";
+
+const E18 = 10n ** 18n;
+const V2 = 0;
+const V3 = 1;
+const FLASH_FEE = 500; // 0.05%
+const rate = (numerator: bigint, denominator: bigint = 1n) => (numerator * E18) / denominator; // output per input, 1e18 scale
+
+// Typed views of the contracts under test (typechain output is not checked in)
+interface Hop {
+  kind: number;
+  router: string;
+  path: string;
+}
+
+interface ArbitrageParams {
+  hops: Hop[];
+  minProfit: bigint | number;
+}
+
+type MockToken = BaseContract & {
+  mint(to: string, amount: bigint): Promise<ContractTransactionResponse>;
+  balanceOf(account: string): Promise<bigint>;
+};
+
+type MockRouter = BaseContract & {
+  setRate(tokenIn: string, tokenOut: string, rate: bigint): Promise<ContractTransactionResponse>;
+};
+
+type FlashLoanArbitrage = BaseContract & {
+  executeFlashLoanArbitrage(
+    pool: string,
+    amount0: bigint | number,
+    amount1: bigint | number,
+    params: ArbitrageParams
+  ): Promise<ContractTransactionResponse>;
+  simulateArbitrage(amount: bigint, flashFee: number, params: ArbitrageParams): Promise<[bigint, boolean]>;
+  pancakeV3FlashCallback(fee0: bigint | number, fee1: bigint | number, data: string): Promise<ContractTransactionResponse>;
+};
+
+describe("FlashLoanArbitrage", function () {
+  async function deployFixture() {
+    const [owner, stranger] = await ethers.getSigners();
+    if (!owner || !stranger) {
+      throw new Error("The hardhat network needs at least two signers");
+    }
+
+    const Token = await ethers.getContractFactory("MockERC20");
+    const deployToken = async (symbol: string) => (await Token.deploy(symbol, symbol)) as unknown as MockToken;
+    const wbnb = await deployToken("WBNB");
+    const busd = await deployToken("BUSD");
+    const cake = await deployToken("CAKE");
+    const tokens = [wbnb, busd, cake];
+
+    const v2 = (await ethers.deployContract("MockV2Router")) as unknown as MockRouter;
+    const biswap = (await ethers.deployContract("MockV2Router")) as unknown as MockRouter;
+    const v3 = (await ethers.deployContract("MockV3Router")) as unknown as MockRouter;
+
+    // Lend WBNB (token0) and BUSD (token1) from a 0.05% pool
+    const pool = await ethers.deployContract("MockFlashPool", [await wbnb.getAddress(), await busd.getAddress(), FLASH_FEE]);
+    const arbitrage = (await ethers.deployContract("FlashLoanArbitrage")) as unknown as FlashLoanArbitrage;
+
+    for (const token of tokens) {
+      for (const holder of [v2, biswap, v3, pool]) {
+        await token.mint(await holder.getAddress(), 1_000_000n * E18);
+      }
+    }
+
+    const WBNB = await wbnb.getAddress();
+    const BUSD = await busd.getAddress();
+    const CAKE = await cake.getAddress();
+    const v2Hop = async (router: MockRouter, path: string[]): Promise<Hop> => ({
+      kind: V2,
+      router: await router.getAddress(),
+      path: ethers.AbiCoder.defaultAbiCoder().encode(["address[]"], [path]),
+    });
+    const v3Hop = async (path: string[], fees: number[]): Promise<Hop> => ({
+      kind: V3,
+      router: await v3.getAddress(),
+      path: ethers.solidityPacked(
+        path.flatMap((_, i) => (i < fees.length ? ["address", "uint24"] : ["address"])),
+        path.flatMap((token, i) => (i < fees.length ? [token, fees[i]] : [token]))
+      ),
+    });
+
+    return { owner, stranger, wbnb, busd, cake, WBNB, BUSD, CAKE, v2, biswap, v3, pool, arbitrage, v2Hop, v3Hop };
+  }
+
+  it("runs a two-router round trip and keeps the profit", async function () {
+    const { wbnb, WBNB, BUSD, v2, biswap, pool, arbitrage, v2Hop } = await loadFixture(deployFixture);
+    await v2.setRate(WBNB, BUSD, rate(300n));
+    await biswap.setRate(BUSD, WBNB, rate(1n, 297n));
+
+    const loan = 10n * E18;
+    const fee = (loan * BigInt(FLASH_FEE) + 999_999n) / 1_000_000n;
+    const hops = [await v2Hop(v2, [WBNB, BUSD]), await v2Hop(biswap, [BUSD, WBNB])];
+    const poolBefore = await wbnb.balanceOf(await pool.getAddress());
+
+    const tx = arbitrage.executeFlashLoanArbitrage(await pool.getAddress(), loan, 0, { hops, minProfit: 0 });
+
+    await expect(tx).to.emit(arbitrage, "HopExecuted").withArgs(0, await v2.getAddress(), WBNB, BUSD, loan, 3000n * E18);
+    await expect(tx).to.emit(arbitrage, "HopExecuted").withArgs(1, await biswap.getAddress(), BUSD, WBNB, 3000n * E18, (3000n * E18 * rate(1n, 297n)) / E18);
+
+    const returned = (3000n * E18 * rate(1n, 297n)) / E18;
+    const profit = returned - loan - fee;
+    await expect(tx).to.emit(arbitrage, "ArbitrageExecuted").withArgs(WBNB, loan, fee, profit, (value: bigint) => value > 0n);
+    expect(await wbnb.balanceOf(await arbitrage.getAddress())).to.equal(profit);
+    expect(await wbnb.balanceOf(await pool.getAddress())).to.equal(poolBefore + fee);
+  });
+
+  it("chains V2 and V3 hops through a triangle borrowed from token1", async function () {
+    const { busd, WBNB, BUSD, CAKE, v2, v3, pool, arbitrage, v2Hop, v3Hop } = await loadFixture(deployFixture);
+    await v2.setRate(BUSD, CAKE, rate(1n, 2n));
+    await v2.setRate(CAKE, WBNB, rate(68n, 10_000n));
+    await v3.setRate(WBNB, BUSD, rate(300n));
+
+    // BUSD -> CAKE -> WBNB in one V2 call, WBNB -> BUSD through a V3 pool
+    const hops = [await v2Hop(v2, [BUSD, CAKE, WBNB]), await v3Hop([WBNB, BUSD], [500])];
+    const loan = 1000n * E18;
+
+    const tx = arbitrage.executeFlashLoanArbitrage(await pool.getAddress(), 0, loan, { hops, minProfit: E18 });
+
+    await expect(tx).to.emit(arbitrage, "HopExecuted").withArgs(1, await v3.getAddress(), WBNB, BUSD, (value: bigint) => value > 0n, (value: bigint) => value > loan);
+    expect(await busd.balanceOf(await arbitrage.getAddress())).to.be.greaterThan(E18);
+  });
+
+  it("reverts before repaying when the cycle does not cover the loan and fee", async function () {
+    const { wbnb, WBNB, BUSD, v2, biswap, pool, arbitrage, v2Hop } = await loadFixture(deployFixture);
+    await v2.setRate(WBNB, BUSD, rate(300n));
+    await biswap.setRate(BUSD, WBNB, rate(1n, 300n)); // round trip at par loses the flash fee
+
+    const hops = [await v2Hop(v2, [WBNB, BUSD]), await v2Hop(biswap, [BUSD, WBNB])];
+    const poolBefore = await wbnb.balanceOf(await pool.getAddress());
+
+    await expect(arbitrage.executeFlashLoanArbitrage(await pool.getAddress(), 10n * E18, 0, { hops, minProfit: 0 }))
+      .to.be.revertedWithCustomError(arbitrage, "InsufficientProfit");
+    expect(await wbnb.balanceOf(await pool.getAddress())).to.equal(poolBefore);
+  });
+
+  it("enforces minProfit and never spends earlier profits to cover a loss", async function () {
+    const { wbnb, WBNB, BUSD, v2, biswap, pool, arbitrage, v2Hop } = await loadFixture(deployFixture);
+    await v2.setRate(WBNB, BUSD, rate(300n));
+    await biswap.setRate(BUSD, WBNB, rate(1n, 299n));
+    const hops = [await v2Hop(v2, [WBNB, BUSD]), await v2Hop(biswap, [BUSD, WBNB])];
+
+    await expect(arbitrage.executeFlashLoanArbitrage(await pool.getAddress(), 10n * E18, 0, { hops, minProfit: E18 }))
+      .to.be.revertedWithCustomError(arbitrage, "InsufficientProfit");
+
+    // Profit already held by the contract does not subsidise a losing cycle
+    await wbnb.mint(await arbitrage.getAddress(), 100n * E18);
+    await biswap.setRate(BUSD, WBNB, rate(1n, 310n));
+    await expect(arbitrage.executeFlashLoanArbitrage(await pool.getAddress(), 10n * E18, 0, { hops, minProfit: 0 }))
+      .to.be.revertedWithCustomError(arbitrage, "InsufficientProfit")
+      .withArgs(0, 0);
+  });
+
+  it("rejects hops that do not form a cycle of the loan token", async function () {
+    const { WBNB, BUSD, CAKE, v2, pool, arbitrage, v2Hop, v3Hop } = await loadFixture(deployFixture);
+
+    const open = [await v2Hop(v2, [WBNB, BUSD]), await v2Hop(v2, [BUSD, CAKE])];
+    await expect(arbitrage.executeFlashLoanArbitrage(await pool.getAddress(), E18, 0, { hops: open, minProfit: 0 }))
+      .to.be.revertedWithCustomError(arbitrage, "InvalidPath").withArgs(1);
+
+    const broken = [await v2Hop(v2, [WBNB, BUSD]), await v3Hop([CAKE, WBNB], [2500])];
+    await expect(arbitrage.executeFlashLoanArbitrage(await pool.getAddress(), E18, 0, { hops: broken, minProfit: 0 }))
+      .to.be.revertedWithCustomError(arbitrage, "InvalidPath").withArgs(1);
+
+    await expect(arbitrage.executeFlashLoanArbitrage(await pool.getAddress(), E18, E18, { hops: open, minProfit: 0 }))
+      .to.be.revertedWithCustomError(arbitrage, "InvalidLoan");
+  });
+
+  it("only lets the owner start a loan and only the active pool call back", async function () {
+    const { stranger, WBNB, BUSD, v2, pool, arbitrage, v2Hop } = await loadFixture(deployFixture);
+    const hops = [await v2Hop(v2, [WBNB, BUSD]), await v2Hop(v2, [BUSD, WBNB])];
+    const asStranger = arbitrage.connect(stranger) as FlashLoanArbitrage;
+
+    await expect(asStranger.executeFlashLoanArbitrage(await pool.getAddress(), E18, 0, { hops, minProfit: 0 }))
+      .to.be.revertedWithCustomError(arbitrage, "OwnableUnauthorizedAccount");
+    await expect(asStranger.pancakeV3FlashCallback(0, 0, "0x"))
+      .to.be.revertedWithCustomError(arbitrage, "UnauthorizedCallback")
+      .withArgs(stranger.address);
+  });
+
+  it("simulates V2 cycles with the pool's flash fee", async function () {
+    const { WBNB, BUSD, v2, biswap, arbitrage, v2Hop } = await loadFixture(deployFixture);
+    await v2.setRate(WBNB, BUSD, rate(300n));
+    await biswap.setRate(BUSD, WBNB, rate(1n, 297n));
+    const hops = [await v2Hop(v2, [WBNB, BUSD]), await v2Hop(biswap, [BUSD, WBNB])];
+
+    const loan = 10n * E18;
+    const returned = (3000n * E18 * rate(1n, 297n)) / E18;
+    const [profit, profitable] = await arbitrage.simulateArbitrage(loan, FLASH_FEE, { hops, minProfit: 0 });
+
+    expect(profit).to.equal(returned - loan - (loan * BigInt(FLASH_FEE) + 999_999n) / 1_000_000n);
+    expect(profitable).to.equal(true);
+  });
+});
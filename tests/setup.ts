@@ -3,6 +3,9 @@
  * Runs before all tests to configure test environment
  */
 
+import fs from 'fs';
+import path from 'path';
+
 // Mock environment variables for testing
 process.env.NODE_ENV = 'test';
 process.env.WALLET_PRIVATE_KEY = '0x0000000000000000000000000000000000000000000000000000000000000001';
@@ -13,6 +16,14 @@ process.env.NETWORK = 'testnet';
 process.env.GREENFIELD_BUCKET_NAME = 'test-bucket';
 process.env.GREENFIELD_RPC_URL = 'https://gnfd-testnet-fullnode-tendermint-us.bnbchain.org';
 
+// Serve LLM calls from the recorded cassette so AI suites never hit the network,
+// once one has been recorded (LLM_CASSETTE_MODE=record); an explicit mode always wins
+const LLM_CASSETTE_FIXTURE = 'tests/fixtures/llm-cassette.json';
+process.env.LLM_CASSETTE_PATH = process.env.LLM_CASSETTE_PATH || LLM_CASSETTE_FIXTURE;
+if (!process.env.LLM_CASSETTE_MODE && fs.existsSync(path.resolve(process.env.LLM_CASSETTE_PATH))) {
+  process.env.LLM_CASSETTE_MODE = 'replay';
+}
+
 // Increase timeout for integration tests
 jest.setTimeout(30000);
 